@@ -0,0 +1,18 @@
+-- Migration: Add knowledge_sources table for retrieval-augmented /ask
+-- Each source is split into chunks stored in Vectorize as `<source id>:<chunk index>`
+
+CREATE TABLE IF NOT EXISTS knowledge_sources (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('document', 'url')),
+  url TEXT,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  added_by INTEGER,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_sources_created ON knowledge_sources(created_at);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_knowledge_sources_created;
+DROP TABLE IF EXISTS knowledge_sources;
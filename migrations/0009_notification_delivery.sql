@@ -0,0 +1,22 @@
+-- Durable notification delivery
+-- Scheduled notifications and retries are kept in notification_history
+-- and picked up by the queue consumer or the cron sweep when they are due
+
+-- Serialized NotificationMessage, needed to deliver the message later
+ALTER TABLE notification_history ADD COLUMN payload TEXT;
+
+-- When the next delivery attempt should run.
+-- While a worker is delivering ('sending') this is the end of its lease.
+ALTER TABLE notification_history ADD COLUMN next_attempt_at TIMESTAMP;
+
+ALTER TABLE notification_history ADD COLUMN updated_at TIMESTAMP;
+
+-- Status now also covers 'pending' (scheduled) and 'sending'
+CREATE INDEX IF NOT EXISTS idx_notification_history_due
+ON notification_history(status, next_attempt_at);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_notification_history_due;
+ALTER TABLE notification_history DROP COLUMN updated_at;
+ALTER TABLE notification_history DROP COLUMN next_attempt_at;
+ALTER TABLE notification_history DROP COLUMN payload;
@@ -0,0 +1,56 @@
+-- Broadcast campaigns
+-- Owners send one message to an audience segment. Delivery runs in steps from
+-- the queue and the cron sweep, at most one campaign at a time.
+
+-- Audience attributes used by segments
+ALTER TABLE users ADD COLUMN last_active_at TIMESTAMP;
+
+-- JSON array of free-form tags, e.g. ["beta", "vip"]
+ALTER TABLE users ADD COLUMN tags TEXT;
+
+-- Set when the user blocked the bot, cleared when they talk to it again
+ALTER TABLE users ADD COLUMN blocked_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_users_last_active ON users(last_active_at);
+
+CREATE TABLE IF NOT EXISTS broadcasts (
+  id TEXT PRIMARY KEY,
+  created_by TEXT NOT NULL,
+
+  -- Serialized BroadcastContent: inline text or a message to copy
+  content TEXT NOT NULL,
+
+  -- Serialized BroadcastSegment
+  segment TEXT NOT NULL,
+
+  status TEXT NOT NULL, -- 'draft', 'scheduled', 'sending', 'paused', 'completed', 'cancelled'
+  scheduled_at TIMESTAMP,
+
+  -- Recipients are processed in telegram_id order; cursor is the last one handled
+  cursor INTEGER DEFAULT 0,
+  total INTEGER DEFAULT 0,
+  sent INTEGER DEFAULT 0,
+  failed INTEGER DEFAULT 0,
+  blocked INTEGER DEFAULT 0,
+
+  -- Where the live progress message lives
+  report_chat_id TEXT,
+  report_message_id INTEGER,
+
+  -- Held by the worker running a delivery step
+  lease_until TIMESTAMP,
+
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcasts_due ON broadcasts(status, scheduled_at);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_broadcasts_due;
+DROP TABLE IF EXISTS broadcasts;
+DROP INDEX IF EXISTS idx_users_last_active;
+ALTER TABLE users DROP COLUMN blocked_at;
+ALTER TABLE users DROP COLUMN tags;
+ALTER TABLE users DROP COLUMN last_active_at;
@@ -0,0 +1,38 @@
+-- Command quotas
+-- Per-command usage limits by role (requests and AI spend per period),
+-- with per-user overrides set by owners
+
+-- Usage per user, command and quota period
+CREATE TABLE IF NOT EXISTS quota_usage (
+  user_id TEXT NOT NULL,
+  command TEXT NOT NULL,
+
+  -- Start of the period the counters belong to (UTC)
+  period_start TIMESTAMP NOT NULL,
+
+  requests INTEGER DEFAULT 0,
+
+  -- AI cost in the quota's currency
+  spent REAL DEFAULT 0,
+
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (user_id, command, period_start)
+);
+
+-- Limits that replace the role defaults for one user.
+-- NULL limits mean unlimited.
+CREATE TABLE IF NOT EXISTS quota_overrides (
+  user_id TEXT NOT NULL,
+  command TEXT NOT NULL,
+  requests INTEGER,
+  budget REAL,
+  set_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (user_id, command)
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS quota_overrides;
+DROP TABLE IF EXISTS quota_usage;
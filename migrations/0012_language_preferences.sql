@@ -0,0 +1,12 @@
+-- Language preferences
+-- The language a user picked with /language; users without a row are
+-- answered in the language negotiated from their Telegram client
+
+CREATE TABLE IF NOT EXISTS language_preferences (
+  user_id TEXT PRIMARY KEY,
+  language TEXT NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS language_preferences;
@@ -0,0 +1,54 @@
+-- Permissions
+-- Roles with permission sets on top of the owner/admin/user hierarchy in
+-- user_roles. The built-in roles are seeded here so owners can change what
+-- admins and users may do; custom roles are handed out as grants, globally
+-- or for a single chat.
+
+CREATE TABLE IF NOT EXISTS roles (
+  name TEXT PRIMARY KEY,
+  description TEXT,
+
+  -- Built-in roles can't be deleted
+  is_system INTEGER NOT NULL DEFAULT 0,
+
+  created_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Permissions like 'broadcast.send', 'payments.*' or '*'
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+  permission TEXT NOT NULL,
+
+  PRIMARY KEY (role, permission)
+);
+
+-- Roles held by users. chat_id '*' grants the role in every chat.
+CREATE TABLE IF NOT EXISTS role_grants (
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+  chat_id TEXT NOT NULL DEFAULT '*',
+  granted_by TEXT,
+  granted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (user_id, role, chat_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_grants_role ON role_grants(role);
+
+INSERT OR IGNORE INTO roles (name, description, is_system) VALUES
+  ('owner', 'Bot owners', 1),
+  ('admin', 'Administrators', 1),
+  ('user', 'Users with access', 1);
+
+INSERT OR IGNORE INTO role_permissions (role, permission) VALUES
+  ('owner', '*'),
+  ('admin', 'access.requests'),
+  ('admin', 'knowledge.manage'),
+  ('admin', 'ai.unlimited');
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_role_grants_role;
+DROP TABLE IF EXISTS role_grants;
+DROP TABLE IF EXISTS role_permissions;
+DROP TABLE IF EXISTS roles;
@@ -0,0 +1,47 @@
+-- Audit log
+-- Append-only record of privileged actions. Every entry stores the hash of
+-- the one before it, so editing or deleting a row breaks the chain and shows
+-- up in verification.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  action TEXT NOT NULL,
+  user_id TEXT,
+  resource TEXT,
+  result TEXT NOT NULL CHECK (result IN ('success', 'failure')),
+
+  -- JSON object, hashed as stored
+  metadata TEXT,
+  source TEXT,
+
+  -- ISO 8601 in UTC, so ranges compare as text
+  created_at TEXT NOT NULL,
+
+  -- SHA-256 hex of the previous entry (or the anchor), and of this one
+  prev_hash TEXT NOT NULL,
+  hash TEXT NOT NULL
+);
+
+-- Two writers that read the same head can't both append: the second one
+-- fails here and retries on top of the new head
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_prev_hash ON audit_log(prev_hash);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_user ON audit_log(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at);
+
+-- Last entry removed by retention; the oldest remaining entry links to it
+CREATE TABLE IF NOT EXISTS audit_log_anchor (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  entry_id INTEGER NOT NULL,
+  hash TEXT NOT NULL,
+  pruned_at TEXT NOT NULL
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS audit_log_anchor;
+DROP INDEX IF EXISTS idx_audit_log_created;
+DROP INDEX IF EXISTS idx_audit_log_action;
+DROP INDEX IF EXISTS idx_audit_log_user;
+DROP INDEX IF EXISTS idx_audit_log_prev_hash;
+DROP TABLE IF EXISTS audit_log;
@@ -0,0 +1,33 @@
+-- Keyword index for hybrid vector search
+-- One row per indexed vector and one per (term, vector) posting, so ingests
+-- only rewrite the rows of the vectors they touch.
+
+CREATE TABLE IF NOT EXISTS vector_keyword_documents (
+  index_name TEXT NOT NULL,
+  vector_id TEXT NOT NULL,
+
+  -- Number of terms, for BM25 length normalization
+  length INTEGER NOT NULL,
+
+  -- JSON object of the vector metadata, used by search filters
+  metadata TEXT,
+
+  PRIMARY KEY (index_name, vector_id)
+);
+
+CREATE TABLE IF NOT EXISTS vector_keyword_terms (
+  index_name TEXT NOT NULL,
+  term TEXT NOT NULL,
+  vector_id TEXT NOT NULL,
+  frequency INTEGER NOT NULL,
+
+  PRIMARY KEY (index_name, term, vector_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_keyword_terms_vector
+  ON vector_keyword_terms(index_name, vector_id);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_vector_keyword_terms_vector;
+DROP TABLE IF EXISTS vector_keyword_terms;
+DROP TABLE IF EXISTS vector_keyword_documents;
@@ -0,0 +1,9 @@
+-- Client language of each user
+-- The language_code Telegram reports for the user's app, kept current by the
+-- activity middleware. Broadcast segments fall back to it for users who
+-- never picked a language with /language.
+
+ALTER TABLE users ADD COLUMN language_code TEXT;
+
+-- migrate:down
+ALTER TABLE users DROP COLUMN language_code;
@@ -10,6 +10,8 @@ import {
   handleAccessStatus,
   handleNextRequest
 } from '@/adapters/telegram/callbacks/access'
+import { UserRole } from '@/core/interfaces/role-system'
+import type { BotContext } from '@/types'
 
 // Mock the auth module
 vi.mock('@/middleware/auth', () => ({
@@ -59,6 +61,14 @@ vi.mock('grammy', () => ({
   })
 }))
 
+function createAdminContext(...args: Parameters<typeof createMockCallbackContext>): BotContext {
+  const ctx = createMockCallbackContext(...args)
+  ctx.roleService = {
+    getUserRole: vi.fn().mockResolvedValue(UserRole.ADMIN)
+  } as unknown as BotContext['roleService']
+  return ctx
+}
+
 describe('Access Callbacks', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -159,7 +169,7 @@ describe('Access Callbacks', () => {
         run: vi.fn().mockResolvedValue({ success: true })
       })
 
-      await handleAccessCancel(ctx, '5')
+      await handleAccessCancel(ctx, 5)
 
       expect(ctx.editMessageText).toHaveBeenCalledWith('Your access request has been cancelled.', {
         parse_mode: 'HTML'
@@ -181,15 +191,27 @@ describe('Access Callbacks', () => {
         first: vi.fn().mockResolvedValue(null)
       })
 
-      await handleAccessCancel(ctx, '5')
+      await handleAccessCancel(ctx, 5)
 
       expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('Request not found.')
     })
   })
 
   describe('handleAccessApprove', () => {
+    it('should refuse users who can no longer review requests', async () => {
+      const ctx = createMockCallbackContext('access:approve:10')
+      ctx.env.DB.prepare = vi.fn()
+
+      await handleAccessApprove(ctx, 10)
+
+      expect(ctx.answerCallbackQuery).toHaveBeenCalledWith(
+        "You don't have permission to use this command."
+      )
+      expect(ctx.env.DB.prepare).not.toHaveBeenCalled()
+    })
+
     it('should approve access request', async () => {
-      const ctx = createMockCallbackContext('access:approve:10', {
+      const ctx = createAdminContext('access:approve:10', {
         from: {
           id: 999999,
           is_bot: false,
@@ -226,7 +248,7 @@ describe('Access Callbacks', () => {
         }
       })
 
-      await handleAccessApprove(ctx, '10')
+      await handleAccessApprove(ctx, 10)
 
       expect(ctx.editMessageText).toHaveBeenCalledTimes(1)
       expect(ctx.editMessageText).toHaveBeenCalledWith(
@@ -246,7 +268,7 @@ describe('Access Callbacks', () => {
     })
 
     it('should handle request not found', async () => {
-      const ctx = createMockCallbackContext('access:approve:10', {
+      const ctx = createAdminContext('access:approve:10', {
         from: {
           id: 999999,
           is_bot: false,
@@ -260,7 +282,7 @@ describe('Access Callbacks', () => {
         first: vi.fn().mockResolvedValue(null)
       })
 
-      await handleAccessApprove(ctx, '10')
+      await handleAccessApprove(ctx, 10)
 
       expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('Request not found.')
     })
@@ -268,7 +290,7 @@ describe('Access Callbacks', () => {
 
   describe('handleAccessReject', () => {
     it('should reject access request', async () => {
-      const ctx = createMockCallbackContext('access:reject:10', {
+      const ctx = createAdminContext('access:reject:10', {
         from: {
           id: 999999,
           is_bot: false,
@@ -305,7 +327,7 @@ describe('Access Callbacks', () => {
         }
       })
 
-      await handleAccessReject(ctx, '10')
+      await handleAccessReject(ctx, 10)
 
       expect(ctx.editMessageText).toHaveBeenCalledTimes(1)
       expect(ctx.editMessageText).toHaveBeenCalledWith(
@@ -327,7 +349,7 @@ describe('Access Callbacks', () => {
 
   describe('handleNextRequest', () => {
     it('should show next pending request', async () => {
-      const ctx = createMockCallbackContext('access:next:10', {
+      const ctx = createAdminContext('access:next:10', {
         from: {
           id: 999999,
           is_bot: false,
@@ -377,7 +399,7 @@ describe('Access Callbacks', () => {
     })
 
     it('should show no pending requests message', async () => {
-      const ctx = createMockCallbackContext('access:next:10', {
+      const ctx = createAdminContext('access:next:10', {
         from: {
           id: 999999,
           is_bot: false,
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+
+import { createMockCallbackContext } from '../utils/mock-context'
+
+import { CallbackRouter, encodeCallback } from '@/adapters/telegram/callback-router'
+import { CallbackDataCodec, defineCallback } from '@/lib/callback-data'
+import { getCallbackSecret } from '@/lib/env-guards'
+import type { BotContext } from '@/types'
+
+const vote = defineCallback('vote', z.object({ pollId: z.number(), option: z.string() }))
+const other = defineCallback('other', z.object({}))
+
+async function encodeVote(payload: { pollId: number; option: string }) {
+  return encodeCallback(createMockCallbackContext(''), vote, payload)
+}
+
+async function dispatch(router: CallbackRouter, ctx: BotContext) {
+  const next = vi.fn()
+  await router.middleware()(ctx, next)
+  return next
+}
+
+describe('CallbackRouter', () => {
+  it('should pass decoded payloads to handlers', async () => {
+    const handler = vi.fn()
+    const router = new CallbackRouter().on(vote, handler)
+    const ctx = createMockCallbackContext(await encodeVote({ pollId: 7, option: 'yes' }))
+
+    const next = await dispatch(router, ctx)
+
+    expect(handler).toHaveBeenCalledWith(ctx, { pollId: 7, option: 'yes' })
+    expect(next).not.toHaveBeenCalled()
+  })
+
+  it('should leave plain and unregistered callbacks to later handlers', async () => {
+    const handler = vi.fn()
+    const router = new CallbackRouter().on(vote, handler)
+
+    expect(await dispatch(router, createMockCallbackContext('main_menu'))).toHaveBeenCalled()
+
+    const data = await encodeCallback(createMockCallbackContext(''), other, {})
+    expect(await dispatch(router, createMockCallbackContext(data))).toHaveBeenCalled()
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should answer forged callbacks without running the handler', async () => {
+    const handler = vi.fn()
+    const router = new CallbackRouter().on(vote, handler)
+    const data = await encodeVote({ pollId: 7, option: 'yes' })
+    const ctx = createMockCallbackContext(data.replace('"yes"', '"no"'))
+
+    await dispatch(router, ctx)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('callbacks.invalid')
+  })
+
+  it('should tell users when a button has expired', async () => {
+    const handler = vi.fn()
+    const router = new CallbackRouter().on(vote, handler)
+    const data = await encodeVote({ pollId: 7, option: 'yes' })
+    const ctx = createMockCallbackContext(data)
+    ctx.callbackData = new CallbackDataCodec({
+      secret: getCallbackSecret(ctx.env),
+      now: () => Date.now() + 365 * 24 * 60 * 60 * 1000
+    })
+
+    await dispatch(router, ctx)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('callbacks.expired')
+  })
+
+  it('should not register the same callback twice', () => {
+    expect(() => new CallbackRouter().on(vote, vi.fn()).on(vote, vi.fn())).toThrow(
+      'Callback vote is already registered'
+    )
+  })
+})
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createMockCallbackContext } from '../utils/mock-context'
+
+import {
+  quietHoursSettingCallback,
+  updateQuietHoursCallback
+} from '@/adapters/telegram/callbacks/settings'
+import type {
+  IUserPreferenceService,
+  NotificationPreferences
+} from '@/core/interfaces/user-preference'
+import type { BotContext } from '@/types'
+
+describe('Quiet hours settings', () => {
+  let preferences: NotificationPreferences
+  let userPreferences: IUserPreferenceService
+
+  const createContext = (data: string): BotContext => {
+    const ctx = createMockCallbackContext(data)
+    ctx.services.userPreferences = userPreferences
+    return ctx
+  }
+
+  beforeEach(() => {
+    preferences = {
+      enabled: true,
+      categories: { auction: true, balance: true, service: true, system: true }
+    }
+    userPreferences = {
+      getNotificationPreferences: vi.fn(async () => preferences),
+      updateNotificationPreferences: vi.fn(async (_userId, update) => {
+        preferences = { ...preferences, ...update }
+      })
+    }
+  })
+
+  it('should show default quiet hours for users without them', async () => {
+    const ctx = createContext('settings:quiet_hours')
+
+    await quietHoursSettingCallback(ctx)
+
+    expect(userPreferences.getNotificationPreferences).toHaveBeenCalledWith('123456')
+    expect(ctx.i18n.t).toHaveBeenCalledWith('settings.quiet_hours.page', {
+      namespace: 'telegram',
+      params: {
+        status: 'settings.quiet_hours.disabled',
+        start: '22:00',
+        end: '08:00',
+        timezone: 'UTC'
+      }
+    })
+    const [text, options] = vi.mocked(ctx.editMessageText).mock.calls[0] ?? []
+    expect(text).toBe('settings.quiet_hours.page')
+    expect(options?.reply_markup?.inline_keyboard[0]?.[0]).toEqual({
+      text: 'settings.quiet_hours.enable',
+      callback_data: 'quiet_hours:toggle'
+    })
+  })
+
+  it('should enable quiet hours', async () => {
+    await updateQuietHoursCallback(createContext('quiet_hours:toggle'))
+
+    expect(userPreferences.updateNotificationPreferences).toHaveBeenCalledWith('123456', {
+      quiet_hours: { enabled: true, start: '22:00', end: '08:00', timezone: 'UTC' }
+    })
+  })
+
+  it('should shift the window hours and wrap around midnight', async () => {
+    preferences.quiet_hours = { enabled: true, start: '23:30', end: '07:00', timezone: 'UTC' }
+
+    await updateQuietHoursCallback(createContext('quiet_hours:start:1'))
+    await updateQuietHoursCallback(createContext('quiet_hours:end:-1'))
+
+    expect(preferences.quiet_hours).toEqual({
+      enabled: true,
+      start: '00:30',
+      end: '06:00',
+      timezone: 'UTC'
+    })
+  })
+
+  it('should not allow an empty window', async () => {
+    preferences.quiet_hours = { enabled: true, start: '07:00', end: '08:00', timezone: 'UTC' }
+
+    await updateQuietHoursCallback(createContext('quiet_hours:start:1'))
+
+    expect(preferences.quiet_hours?.start).toBe('09:00')
+  })
+
+  it('should set the timezone from the list only', async () => {
+    await updateQuietHoursCallback(createContext('quiet_hours:tz:Asia/Bangkok'))
+    expect(preferences.quiet_hours?.timezone).toBe('Asia/Bangkok')
+
+    const ctx = createContext('quiet_hours:tz:Mars/Base')
+    await updateQuietHoursCallback(ctx)
+
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('settings.quiet_hours.invalid_timezone')
+    expect(preferences.quiet_hours?.timezone).toBe('Asia/Bangkok')
+  })
+
+  it('should report when preferences cannot be stored', async () => {
+    const ctx = createMockCallbackContext('quiet_hours:toggle')
+
+    await updateQuietHoursCallback(ctx)
+
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('settings.quiet_hours.unavailable')
+  })
+})
@@ -3,6 +3,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { createMockContext } from '../utils/mock-context'
 
 import { adminCommand } from '@/adapters/telegram/commands/owner/admin'
+import type { QuotaService } from '@/services/quota-service'
 
 // Mock the auth module
 vi.mock('@/middleware/auth', () => ({
@@ -493,4 +494,98 @@ describe('Admin Command', () => {
       })
     })
   })
+
+  describe('/admin quota', () => {
+    function createQuotaContext(match: string) {
+      const ctx = createMockContext({
+        from: { id: 123456, is_bot: false, first_name: 'Owner' },
+        message: {
+          message_id: 1,
+          date: Date.now(),
+          chat: { id: 123456, type: 'private' },
+          from: { id: 123456, is_bot: false },
+          text: `/admin ${match}`
+        }
+      })
+      ctx.match = match
+
+      const quotas = {
+        getQuota: vi.fn((command: string) => (command === 'ask' ? { period: 'day' } : undefined)),
+        getCommands: vi.fn().mockReturnValue(['ask']),
+        setOverride: vi.fn().mockResolvedValue(undefined),
+        clearOverride: vi.fn().mockResolvedValue(undefined),
+        resetUsage: vi.fn().mockResolvedValue(undefined),
+        getUsage: vi.fn().mockResolvedValue([
+          {
+            command: 'ask',
+            period: 'day',
+            currency: 'USD',
+            requests: 3,
+            spent: 0.125,
+            limit: { requests: 20, budget: 0.5 },
+            overridden: false,
+            resetAt: new Date()
+          }
+        ])
+      }
+      ctx.services = { ai: null, quotas: quotas as unknown as QuotaService }
+
+      return { ctx, quotas }
+    }
+
+    it('should show usage and limits', async () => {
+      const { ctx, quotas } = createQuotaContext('quota 789012')
+
+      await adminCommand(ctx)
+
+      expect(quotas.getUsage).toHaveBeenCalledWith('789012', 'user')
+      expect(ctx.i18n.t).toHaveBeenCalledWith('commands.admin.quota_line', {
+        namespace: 'telegram',
+        params: expect.objectContaining({ command: 'ask', requests: '3/20', spent: '0.13/0.50' })
+      })
+      expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('commands.admin.quota_status'))
+    })
+
+    it('should set request and budget overrides', async () => {
+      const { ctx, quotas } = createQuotaContext('quota 789012 /ask 50 2.5')
+
+      await adminCommand(ctx)
+
+      expect(quotas.setOverride).toHaveBeenCalledWith(
+        '789012',
+        'ask',
+        { requests: 50, budget: 2.5 },
+        '123456'
+      )
+    })
+
+    it('should lift and restore limits', async () => {
+      const { ctx, quotas } = createQuotaContext('quota 789012 ask unlimited')
+      await adminCommand(ctx)
+      expect(quotas.setOverride).toHaveBeenCalledWith('789012', 'ask', {}, '123456')
+
+      ctx.match = 'quota 789012 ask default'
+      await adminCommand(ctx)
+      expect(quotas.clearOverride).toHaveBeenCalledWith('789012', 'ask')
+
+      ctx.match = 'quota 789012 ask reset'
+      await adminCommand(ctx)
+      expect(quotas.resetUsage).toHaveBeenCalledWith('789012', 'ask')
+    })
+
+    it('should reject invalid limits and unknown commands', async () => {
+      const { ctx, quotas } = createQuotaContext('quota 789012 ask -5')
+      await adminCommand(ctx)
+      expect(ctx.reply).toHaveBeenCalledWith('commands.admin.quota_usage')
+
+      ctx.match = 'quota 789012 weather 5'
+      await adminCommand(ctx)
+      expect(ctx.i18n.t).toHaveBeenCalledWith('commands.admin.quota_unknown_command', {
+        namespace: 'telegram',
+        params: { command: 'weather', commands: '/ask' }
+      })
+
+      expect(quotas.setOverride).not.toHaveBeenCalled()
+    })
+  })
 })
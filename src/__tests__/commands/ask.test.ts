@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createMockContext } from '../utils/mock-context'
+
+import { askCommand } from '@/adapters/telegram/commands/ask'
+import type { BotContext } from '@/types'
+
+const constrained = vi.hoisted(() => ({ value: false }))
+
+vi.mock('@/core/cloud/cloud-platform-cache', () => ({
+  getCloudPlatformConnector: () => ({ getResourceConstraints: () => ({}) })
+}))
+
+vi.mock('@/core/interfaces/resource-constraints', () => ({
+  hasAICapabilities: () => true,
+  isConstrainedEnvironment: () => constrained.value
+}))
+
+function createAI(chunks: string[]) {
+  return {
+    complete: vi.fn().mockResolvedValue({ content: chunks.join(''), provider: 'mock' }),
+    stream: vi.fn(async function* () {
+      yield* chunks
+      return { provider: 'mock', cost: { amount: 0.002, currency: 'USD' } }
+    }),
+    getActiveProvider: vi.fn().mockReturnValue('mock'),
+    getProviderCapabilities: vi.fn().mockReturnValue({ streaming: true, maxContextLength: 8192 })
+  }
+}
+
+function createContext(ai: ReturnType<typeof createAI>) {
+  const ctx = createMockContext()
+  ctx.match = 'Tell me a story'
+  ctx.replyWithChatAction = vi.fn().mockResolvedValue(true)
+  ctx.services.ai = ai as unknown as BotContext['services']['ai']
+  Object.assign(ctx.api, {
+    sendMessage: vi.fn().mockResolvedValue({ message_id: 10 }),
+    editMessageText: vi.fn().mockResolvedValue(true),
+    deleteMessage: vi.fn().mockResolvedValue(true)
+  })
+  return ctx
+}
+
+describe('Ask Command streaming', () => {
+  it('should stream the answer into an edited placeholder', async () => {
+    const ai = createAI(['Once upon ', 'a <b>time</b>.'])
+    const ctx = createContext(ai)
+
+    await askCommand(ctx)
+
+    expect(ai.stream).toHaveBeenCalledWith('Tell me a story', { trackCost: true })
+    expect(ai.complete).not.toHaveBeenCalled()
+    expect(ctx.api.sendMessage).toHaveBeenCalledWith(123456, 'ai.general.thinking', {
+      reply_parameters: { message_id: 1 }
+    })
+    expect(ctx.api.editMessageText).toHaveBeenLastCalledWith(
+      123456,
+      10,
+      'Once upon a <b>time</b>.\n\n<i>Powered by mock</i>',
+      { parse_mode: 'HTML' }
+    )
+    expect(ctx.reply).not.toHaveBeenCalled()
+  })
+
+  it('should charge the streamed cost to the quota', async () => {
+    const ai = createAI(['Answer'])
+    const ctx = createContext(ai)
+    const charge = vi.fn()
+    ctx.services.quotas = { charge } as unknown as BotContext['services']['quotas']
+
+    await askCommand(ctx)
+
+    expect(charge).toHaveBeenCalledWith('123456', 'ask', { amount: 0.002, currency: 'USD' })
+  })
+
+  it('should reply with the full answer on constrained platforms', async () => {
+    constrained.value = true
+    const ai = createAI(['Short answer'])
+    const ctx = createContext(ai)
+
+    try {
+      await askCommand(ctx)
+    } finally {
+      constrained.value = false
+    }
+
+    expect(ai.stream).not.toHaveBeenCalled()
+    expect(ctx.reply).toHaveBeenCalledWith('Short answer\n\n<i>Powered by mock</i>', {
+      parse_mode: 'HTML'
+    })
+  })
+
+  it('should report stream failures', async () => {
+    const ai = createAI([])
+    ai.stream.mockImplementation(async function* () {
+      yield 'Partial'
+      throw new Error('Stream interrupted')
+    })
+    const ctx = createContext(ai)
+
+    await askCommand(ctx)
+
+    expect(ctx.api.editMessageText).toHaveBeenLastCalledWith(
+      123456,
+      10,
+      'Error processing AI request',
+      {}
+    )
+    expect(ctx.reply).not.toHaveBeenCalled()
+    expect(ctx.commandFailed).toBe(true)
+  })
+
+  it('should reply with the error when the placeholder was not sent', async () => {
+    const ai = createAI(['Answer'])
+    const ctx = createContext(ai)
+    vi.mocked(ctx.api.sendMessage).mockRejectedValue(new Error('Forbidden'))
+
+    await askCommand(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('Error processing AI request')
+  })
+})
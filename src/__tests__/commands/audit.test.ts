@@ -0,0 +1,134 @@
+import { InputFile } from 'grammy'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createMockContext } from '../utils/mock-context'
+
+import { auditCommand } from '@/adapters/telegram/commands/owner/audit'
+import type { AuditLogService } from '@/core/interfaces/audit-log'
+import { GENESIS_HASH } from '@/core/services/audit-log-service'
+
+function createService() {
+  return {
+    append: vi.fn(),
+    query: vi.fn().mockResolvedValue([
+      {
+        id: 7,
+        action: 'command.roles',
+        userId: 'telegram_42',
+        result: 'success',
+        metadata: { args: 'list' },
+        createdAt: new Date('2025-03-01T10:15:00Z'),
+        prevHash: GENESIS_HASH,
+        hash: 'abc'
+      },
+      {
+        id: 6,
+        action: 'command.broadcast',
+        result: 'failure',
+        createdAt: new Date('2025-03-01T09:00:00Z'),
+        prevHash: GENESIS_HASH,
+        hash: 'def'
+      }
+    ]),
+    count: vi.fn().mockResolvedValue(12),
+    verify: vi.fn().mockResolvedValue({ valid: true, checked: 12, head: 'abc' }),
+    prune: vi.fn()
+  }
+}
+
+function createContext(match: string, service: ReturnType<typeof createService> | null) {
+  const ctx = createMockContext({ from: { id: 123456, is_bot: false, first_name: 'Owner' } })
+  ctx.match = match
+  ctx.services.audit = service as unknown as AuditLogService | null
+  ctx.replyWithDocument = vi.fn()
+  return ctx
+}
+
+describe('Audit Command', () => {
+  let service: ReturnType<typeof createService>
+
+  beforeEach(() => {
+    service = createService()
+  })
+
+  it('should list the latest entries', async () => {
+    const ctx = createContext('', service)
+
+    await auditCommand(ctx)
+
+    expect(service.query).toHaveBeenCalledWith({ limit: 20 })
+    expect(ctx.i18n.t).toHaveBeenCalledWith('commands.audit.list', {
+      namespace: 'telegram',
+      params: {
+        shown: 2,
+        total: 12,
+        entries:
+          '#7 2025-03-01 10:15 telegram_42 command.roles ✅\n' +
+          '#6 2025-03-01 09:00 — command.broadcast ❌'
+      }
+    })
+  })
+
+  it('should filter by user, action and inclusive dates', async () => {
+    await auditCommand(
+      createContext('user=42 action=command.* from=2025-03-01 to=2025-03-02', service)
+    )
+
+    expect(service.query).toHaveBeenCalledWith({
+      userId: 'telegram_42',
+      action: 'command.*',
+      from: new Date('2025-03-01T00:00:00Z'),
+      to: new Date('2025-03-03T00:00:00Z'),
+      limit: 20
+    })
+  })
+
+  it('should reject unknown or malformed filters', async () => {
+    for (const match of ['since=2025-03-01', 'from=yesterday', 'result=maybe', 'user']) {
+      const ctx = createContext(match, service)
+      await auditCommand(ctx)
+      expect(ctx.reply).toHaveBeenCalledWith('commands.audit.usage')
+    }
+    expect(service.query).not.toHaveBeenCalled()
+  })
+
+  it('should export entries as a file', async () => {
+    const ctx = createContext('export csv result=failure', service)
+
+    await auditCommand(ctx)
+
+    expect(service.query).toHaveBeenCalledWith({ result: 'failure', limit: 5000 })
+    expect(InputFile).toHaveBeenCalledWith(expect.any(Uint8Array), 'audit-log.csv')
+    expect(ctx.replyWithDocument).toHaveBeenCalledWith(expect.any(InputFile), {
+      caption: 'commands.audit.exported'
+    })
+
+    const content = new TextDecoder().decode(vi.mocked(InputFile).mock.lastCall?.[0] as Uint8Array)
+    expect(content.split('\r\n')[1]).toBe(
+      '7,2025-03-01T10:15:00.000Z,telegram_42,command.roles,,success,"{""args"":""list""}",abc'
+    )
+  })
+
+  it('should report the chain verification', async () => {
+    const ctx = createContext('verify', service)
+    await auditCommand(ctx)
+    expect(ctx.i18n.t).toHaveBeenCalledWith('commands.audit.verified', {
+      namespace: 'telegram',
+      params: { checked: 12, head: 'abc' }
+    })
+
+    service.verify.mockResolvedValue({ valid: false, checked: 3, brokenAt: 4, head: 'x' })
+    const broken = createContext('verify', service)
+    await auditCommand(broken)
+    expect(broken.i18n.t).toHaveBeenCalledWith('commands.audit.broken', {
+      namespace: 'telegram',
+      params: { entryId: 4, checked: 3 }
+    })
+  })
+
+  it('should explain that the audit log needs a database', async () => {
+    const ctx = createContext('', null)
+    await auditCommand(ctx)
+    expect(ctx.reply).toHaveBeenCalledWith('commands.audit.not_configured')
+  })
+})
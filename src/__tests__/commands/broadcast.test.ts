@@ -0,0 +1,236 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createMockCallbackContext, createMockContext } from '../utils/mock-context'
+
+import { broadcastActionCallback } from '@/adapters/telegram/callbacks/broadcast'
+import {
+  broadcastCommand,
+  parseBroadcastRequest
+} from '@/adapters/telegram/commands/owner/broadcast'
+import type { PermissionService } from '@/core/interfaces/role-system'
+import { UserRole } from '@/core/interfaces/role-system'
+import type { Broadcast, BroadcastService } from '@/services/broadcast-service'
+import type { BotContext } from '@/types'
+
+function createBroadcast(overrides: Partial<Broadcast> = {}): Broadcast {
+  return {
+    id: 'b1',
+    createdBy: '123456',
+    content: { type: 'text', text: 'Hello' },
+    segment: {},
+    status: 'draft',
+    cursor: 0,
+    total: 3,
+    sent: 0,
+    failed: 0,
+    blocked: 0,
+    ...overrides
+  }
+}
+
+function createService() {
+  return {
+    create: vi.fn(async (input: Partial<Broadcast>) => createBroadcast(input)),
+    schedule: vi.fn(async () => createBroadcast({ status: 'scheduled' })),
+    pause: vi.fn(async () => null),
+    resume: vi.fn(async () => createBroadcast({ status: 'scheduled' })),
+    cancel: vi.fn(async () => createBroadcast({ status: 'cancelled' })),
+    get: vi.fn(async () => createBroadcast({ status: 'completed', sent: 3 }))
+  }
+}
+
+function withService(ctx: BotContext, service: ReturnType<typeof createService>): BotContext {
+  ctx.services = {
+    ...ctx.services,
+    broadcast: service as unknown as BroadcastService
+  } as BotContext['services']
+  return ctx
+}
+
+describe('parseBroadcastRequest', () => {
+  const now = new Date('2030-01-01T12:00:00.000Z')
+
+  it('should parse leading filters and keep the rest as text', () => {
+    expect(
+      parseBroadcastRequest(
+        'role:user lang:ru access:yes active:30d tags:beta,vip in:2h Hello\nworld role:admin',
+        now
+      )
+    ).toEqual({
+      segment: {
+        role: 'user',
+        language: 'ru',
+        hasAccess: true,
+        activeWithinDays: 30,
+        tags: ['beta', 'vip']
+      },
+      scheduledAt: new Date('2030-01-01T14:00:00.000Z'),
+      text: 'Hello\nworld role:admin'
+    })
+  })
+
+  it('should read absolute times as UTC', () => {
+    expect(parseBroadcastRequest('at:2030-01-02T09:00', now)).toEqual({
+      segment: {},
+      scheduledAt: new Date('2030-01-02T09:00:00.000Z'),
+      text: ''
+    })
+  })
+
+  it('should return the invalid filter', () => {
+    expect(parseBroadcastRequest('role:superuser Hi')).toBe('role:superuser')
+    expect(parseBroadcastRequest('lang:en in:soon Hi')).toBe('in:soon')
+  })
+})
+
+describe('Broadcast Command', () => {
+  it('should preview the text and offer to send the draft', async () => {
+    const service = createService()
+    const ctx = withService(createMockContext(), service)
+    ctx.match = 'lang:en Hello'
+
+    await broadcastCommand(ctx)
+
+    expect(service.create).toHaveBeenCalledWith({
+      createdBy: '123456',
+      content: { type: 'text', text: 'Hello' },
+      segment: { language: 'en' },
+      scheduledAt: undefined
+    })
+    expect(ctx.reply).toHaveBeenNthCalledWith(1, 'Hello')
+    const [text, options] = vi.mocked(ctx.reply).mock.calls[1] ?? []
+    expect(text).toContain('commands.broadcast.report.audience')
+    expect(ctx.i18n.t).toHaveBeenCalledWith('commands.broadcast.report.audience', {
+      namespace: 'telegram',
+      params: { count: 3 }
+    })
+    expect(options?.reply_markup).toEqual({
+      inline_keyboard: [
+        [
+          {
+            text: 'commands.broadcast.report.buttons.confirm',
+            callback_data: 'broadcast:confirm:b1'
+          },
+          { text: 'commands.broadcast.report.buttons.cancel', callback_data: 'broadcast:cancel:b1' }
+        ]
+      ]
+    })
+  })
+
+  it('should copy the message the command replies to', async () => {
+    const service = createService()
+    const ctx = withService(
+      createMockContext({
+        message: {
+          message_id: 2,
+          date: 0,
+          chat: { id: 123456, type: 'private', first_name: 'Test' },
+          text: '/broadcast',
+          reply_to_message: {
+            message_id: 1,
+            date: 0,
+            chat: { id: 123456, type: 'private', first_name: 'Test' }
+          }
+        } as never
+      }),
+      service
+    )
+    ctx.match = ''
+
+    await broadcastCommand(ctx)
+
+    expect(service.create).toHaveBeenCalledWith(
+      expect.objectContaining({ content: { type: 'copy', chatId: 123456, messageId: 1 } })
+    )
+    expect(ctx.reply).toHaveBeenCalledTimes(1)
+  })
+
+  it('should drop drafts without recipients', async () => {
+    const service = createService()
+    service.create.mockResolvedValueOnce(createBroadcast({ total: 0 }))
+    const ctx = withService(createMockContext(), service)
+    ctx.match = 'tags:nobody Hello'
+
+    await broadcastCommand(ctx)
+
+    expect(service.cancel).toHaveBeenCalledWith('b1')
+    expect(ctx.reply).toHaveBeenCalledWith('commands.broadcast.empty_audience')
+  })
+
+  it('should show usage without a message', async () => {
+    const service = createService()
+    const ctx = withService(createMockContext(), service)
+    ctx.match = 'lang:en'
+
+    await broadcastCommand(ctx)
+
+    expect(service.create).not.toHaveBeenCalled()
+    expect(ctx.reply).toHaveBeenCalledWith('commands.broadcast.usage')
+  })
+})
+
+describe('Broadcast Controls', () => {
+  function createControlContext(data: string, service: ReturnType<typeof createService>) {
+    const ctx = withService(createMockCallbackContext(data), service)
+    ctx.roleService = {
+      getUserRole: vi.fn(async () => UserRole.OWNER)
+    } as unknown as BotContext['roleService']
+    return ctx
+  }
+
+  it('should schedule the draft and turn the preview into the progress report', async () => {
+    const service = createService()
+    const ctx = createControlContext('broadcast:confirm:b1', service)
+
+    await broadcastActionCallback(ctx)
+
+    expect(service.schedule).toHaveBeenCalledWith('b1', {
+      report: { chatId: '123456', messageId: 1 }
+    })
+    const [text, options] = vi.mocked(ctx.editMessageText).mock.calls[0] ?? []
+    expect(text).toContain('commands.broadcast.report.status.scheduled')
+    expect(options?.reply_markup?.inline_keyboard[0]?.map(button => button.text)).toEqual([
+      'commands.broadcast.report.buttons.pause',
+      'commands.broadcast.report.buttons.cancel'
+    ])
+  })
+
+  it('should show the current state when the action no longer applies', async () => {
+    const service = createService()
+    const ctx = createControlContext('broadcast:pause:b1', service)
+
+    await broadcastActionCallback(ctx)
+
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('commands.broadcast.unchangeable')
+    const [text, options] = vi.mocked(ctx.editMessageText).mock.calls[0] ?? []
+    expect(text).toContain('commands.broadcast.report.status.completed')
+    expect(options?.reply_markup?.inline_keyboard).toEqual([])
+  })
+
+  it('should only let users with broadcast.send control broadcasts', async () => {
+    const service = createService()
+    const ctx = createControlContext('broadcast:cancel:b1', service)
+    ctx.roleService = {
+      getUserRole: vi.fn(async () => UserRole.ADMIN)
+    } as unknown as BotContext['roleService']
+
+    await broadcastActionCallback(ctx)
+
+    expect(service.cancel).not.toHaveBeenCalled()
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith(
+      "You don't have permission to use this command."
+    )
+  })
+
+  it('should check the permission service when one is configured', async () => {
+    const service = createService()
+    const ctx = createControlContext('broadcast:cancel:b1', service)
+    const hasPermission = vi.fn(async () => true)
+    ctx.services.permissions = { hasPermission } as unknown as PermissionService
+
+    await broadcastActionCallback(ctx)
+
+    expect(hasPermission).toHaveBeenCalledWith('telegram_123456', 'broadcast.send', '123456')
+    expect(service.cancel).toHaveBeenCalledWith('b1')
+  })
+})
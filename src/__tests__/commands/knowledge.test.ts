@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createMockContext } from '../utils/mock-context'
+
+import { knowledgeCommand } from '@/adapters/telegram/commands/admin/knowledge'
+import { askCommand } from '@/adapters/telegram/commands/ask'
+import type { KnowledgeService } from '@/services/knowledge-service'
+import type { BotContext } from '@/types'
+
+vi.mock('@/core/cloud/cloud-platform-cache', () => ({
+  getCloudPlatformConnector: () => ({ getResourceConstraints: () => ({}) })
+}))
+
+vi.mock('@/core/interfaces/resource-constraints', () => ({
+  hasAICapabilities: () => true
+}))
+
+const source = {
+  id: 'abc123',
+  title: 'Refund <policy>',
+  type: 'url' as const,
+  url: 'https://example.com/refunds',
+  chunkCount: 3,
+  createdAt: '2025-01-01T00:00:00.000Z'
+}
+
+function createKnowledge() {
+  return {
+    ingestUrl: vi.fn().mockResolvedValue(source),
+    ingestText: vi.fn().mockResolvedValue({ ...source, type: 'document', url: undefined }),
+    listSources: vi.fn().mockResolvedValue([source]),
+    deleteSource: vi.fn().mockResolvedValue(true),
+    retrieve: vi.fn().mockResolvedValue([]),
+    buildPrompt: vi.fn()
+  }
+}
+
+function createContext(match: string, knowledge: ReturnType<typeof createKnowledge> | null) {
+  const ctx = createMockContext()
+  ctx.match = match
+  ctx.replyWithChatAction = vi.fn().mockResolvedValue(true)
+  ctx.services = {
+    ...ctx.services,
+    knowledge: knowledge as unknown as KnowledgeService | null
+  } as BotContext['services']
+  return ctx
+}
+
+describe('Knowledge Command', () => {
+  let knowledge: ReturnType<typeof createKnowledge>
+
+  beforeEach(() => {
+    knowledge = createKnowledge()
+  })
+
+  it('should report when the knowledge base is not configured', async () => {
+    const ctx = createContext('list', null)
+
+    await knowledgeCommand(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('commands.knowledge.not_configured')
+  })
+
+  it('should ingest a URL', async () => {
+    const ctx = createContext('add https://example.com/refunds', knowledge)
+
+    await knowledgeCommand(ctx)
+
+    expect(knowledge.ingestUrl).toHaveBeenCalledWith('https://example.com/refunds', 123456)
+    expect(ctx.i18n.t).toHaveBeenCalledWith('commands.knowledge.added', {
+      namespace: 'telegram',
+      params: { title: 'Refund &lt;policy&gt;', id: 'abc123', chunks: 3 }
+    })
+  })
+
+  it('should download and ingest an attached text document', async () => {
+    const ctx = createContext('add', knowledge)
+    Object.assign(ctx.message as object, {
+      document: { file_id: 'file-1', file_name: 'faq.md', mime_type: 'text/markdown' }
+    })
+    ctx.api.getFile = vi.fn().mockResolvedValue({ file_id: 'file-1', file_path: 'docs/faq.md' })
+    const originalFetch = global.fetch
+    global.fetch = vi.fn(async () => new Response('# FAQ\n\nRefunds take 14 days.')) as never
+
+    try {
+      await knowledgeCommand(ctx)
+    } finally {
+      global.fetch = originalFetch
+    }
+
+    expect(knowledge.ingestText).toHaveBeenCalledWith({
+      title: 'faq.md',
+      text: '# FAQ\n\nRefunds take 14 days.',
+      type: 'document',
+      addedBy: 123456
+    })
+  })
+
+  it('should reject binary documents', async () => {
+    const ctx = createContext('add', knowledge)
+    Object.assign(ctx.message as object, {
+      document: { file_id: 'file-2', file_name: 'photo.png', mime_type: 'image/png' }
+    })
+
+    await knowledgeCommand(ctx)
+
+    expect(knowledge.ingestText).not.toHaveBeenCalled()
+    expect(ctx.reply).toHaveBeenCalledWith('commands.knowledge.unsupported_file')
+  })
+
+  it('should list sources', async () => {
+    const ctx = createContext('list', knowledge)
+
+    await knowledgeCommand(ctx)
+
+    expect(ctx.i18n.t).toHaveBeenCalledWith(
+      'commands.knowledge.list_item',
+      expect.objectContaining({
+        params: expect.objectContaining({
+          id: 'abc123',
+          title: '<a href="https://example.com/refunds">Refund &lt;policy&gt;</a>'
+        })
+      })
+    )
+  })
+
+  it('should delete sources', async () => {
+    const ctx = createContext('delete abc123', knowledge)
+
+    await knowledgeCommand(ctx)
+    knowledge.deleteSource.mockResolvedValueOnce(false)
+    await knowledgeCommand(ctx)
+
+    expect(knowledge.deleteSource).toHaveBeenCalledWith('abc123')
+    expect(ctx.reply).toHaveBeenNthCalledWith(1, 'commands.knowledge.deleted')
+    expect(ctx.reply).toHaveBeenNthCalledWith(2, 'commands.knowledge.not_found')
+  })
+})
+
+describe('Ask Command with knowledge', () => {
+  function createAI(content: string) {
+    return {
+      complete: vi.fn().mockResolvedValue({ content, provider: 'mock' }),
+      getActiveProvider: vi.fn().mockReturnValue('mock'),
+      getProviderCapabilities: vi.fn().mockReturnValue(null)
+    }
+  }
+
+  it('should ground the prompt and list cited sources', async () => {
+    const knowledge = createKnowledge()
+    const chunks = [{ sourceId: 'abc123', title: 'Refunds', text: '14 days', score: 1 }]
+    const messages = [
+      { role: 'system', content: 'Context: [1] Refunds' },
+      { role: 'user', content: 'How long do refunds take?' }
+    ]
+    knowledge.retrieve.mockResolvedValue(chunks)
+    knowledge.buildPrompt.mockReturnValue({
+      messages,
+      citations: [
+        { index: 1, sourceId: 'abc123', title: 'Refunds', url: 'https://example.com/r' },
+        { index: 2, sourceId: 'def456', title: 'Unused' }
+      ]
+    })
+    const ai = createAI('Refunds take 14 days [1].')
+    const ctx = createContext('How long do refunds take?', knowledge)
+    ctx.services.ai = ai as unknown as BotContext['services']['ai']
+
+    await askCommand(ctx)
+
+    expect(ai.complete).toHaveBeenCalledWith(messages, { trackCost: true })
+    const reply = vi.mocked(ctx.reply).mock.calls[0]?.[0] as string
+    expect(reply).toContain(
+      '<b>ai.general.sources</b>\n[1] <a href="https://example.com/r">Refunds</a>'
+    )
+    expect(reply).not.toContain('Unused')
+  })
+
+  it('should fall back to the raw prompt when retrieval fails', async () => {
+    const knowledge = createKnowledge()
+    knowledge.retrieve.mockRejectedValue(new Error('Vectorize down'))
+    const ai = createAI('An answer')
+    const ctx = createContext('Question?', knowledge)
+    ctx.services.ai = ai as unknown as BotContext['services']['ai']
+
+    await askCommand(ctx)
+
+    expect(ai.complete).toHaveBeenCalledWith('Question?', { trackCost: true })
+    expect(vi.mocked(ctx.reply).mock.calls[0]?.[0]).not.toContain('ai.general.sources')
+  })
+})
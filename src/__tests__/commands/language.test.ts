@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createMockCallbackContext, createMockContext } from '../utils/mock-context'
+
+import { setLanguageCallback } from '@/adapters/telegram/callbacks/settings'
+import { languageCommand } from '@/adapters/telegram/commands/language'
+import { createLanguageMiddleware } from '@/adapters/telegram/middleware/language'
+import type { I18nConnector } from '@/core/interfaces/i18n'
+import type { IUserPreferenceService } from '@/core/interfaces/user-preference'
+import type { BotContext } from '@/types/telegram'
+
+function createPreferences(language: string | null = null) {
+  return {
+    getNotificationPreferences: vi.fn(),
+    updateNotificationPreferences: vi.fn(),
+    getLanguage: vi.fn().mockResolvedValue(language),
+    setLanguage: vi.fn().mockResolvedValue(undefined)
+  } satisfies IUserPreferenceService
+}
+
+describe('/language', () => {
+  let preferences: ReturnType<typeof createPreferences>
+
+  beforeEach(() => {
+    preferences = createPreferences()
+  })
+
+  it('shows a picker with every available language', async () => {
+    const ctx = createMockContext()
+
+    await languageCommand(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('language.choose', {
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: 'language.name', callback_data: 'set_language:en' }],
+          [{ text: 'language.name', callback_data: 'set_language:ru' }]
+        ]
+      }
+    })
+  })
+
+  it('switches directly when a language is given', async () => {
+    const ctx = createMockContext()
+    ctx.match = 'RU'
+    ctx.services.userPreferences = preferences
+
+    await languageCommand(ctx)
+
+    expect(preferences.setLanguage).toHaveBeenCalledWith('123456', 'ru')
+    expect(ctx.i18n.language).toBe('ru')
+    expect(ctx.reply).toHaveBeenCalledWith('language.changed')
+  })
+
+  it('rejects languages without a pack', async () => {
+    const ctx = createMockContext()
+    ctx.match = 'xx'
+    ctx.services.userPreferences = preferences
+
+    await languageCommand(ctx)
+
+    expect(preferences.setLanguage).not.toHaveBeenCalled()
+    expect(ctx.reply).toHaveBeenCalledWith('language.unavailable')
+  })
+
+  it('saves the choice from the picker', async () => {
+    const ctx = createMockCallbackContext('set_language:ru')
+    ctx.services.userPreferences = preferences
+
+    await setLanguageCallback(ctx)
+
+    expect(preferences.setLanguage).toHaveBeenCalledWith('123456', 'ru')
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('language.changed')
+    expect(ctx.editMessageText).toHaveBeenCalledWith('language.changed')
+  })
+
+  it('reports when the choice cannot be saved', async () => {
+    const ctx = createMockCallbackContext('set_language:ru')
+    ctx.services.userPreferences = undefined
+
+    await setLanguageCallback(ctx)
+
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith('language.save_error')
+    expect(ctx.i18n.language).toBe('en')
+  })
+})
+
+describe('Language middleware', () => {
+  function createConnector() {
+    return {
+      negotiateLanguage: vi.fn(
+        (requested: Array<string | null | undefined>) =>
+          requested.find(language => language === 'ru' || language === 'en') ?? 'en'
+      ),
+      createTranslator: vi.fn((language: string) => ({ language }))
+    }
+  }
+
+  async function run(ctx: BotContext, connector: ReturnType<typeof createConnector>) {
+    const next = vi.fn()
+    await createLanguageMiddleware(connector as unknown as I18nConnector)(ctx, next)
+    expect(next).toHaveBeenCalled()
+  }
+
+  it('prefers the stored language over the client language', async () => {
+    const connector = createConnector()
+    const ctx = createMockContext({
+      from: { id: 1, is_bot: false, first_name: 'Test', language_code: 'en' }
+    })
+    ctx.services.userPreferences = createPreferences('ru')
+
+    await run(ctx, connector)
+
+    expect(connector.negotiateLanguage).toHaveBeenCalledWith(['ru', 'en'])
+    expect(ctx.i18n.language).toBe('ru')
+  })
+
+  it('falls back to the client language when the preference is unavailable', async () => {
+    const connector = createConnector()
+    const ctx = createMockContext({
+      from: { id: 1, is_bot: false, first_name: 'Test', language_code: 'ru' }
+    })
+    const preferences = createPreferences()
+    preferences.getLanguage.mockRejectedValue(new Error('D1 unavailable'))
+    ctx.services.userPreferences = preferences
+
+    await run(ctx, connector)
+
+    expect(connector.negotiateLanguage).toHaveBeenCalledWith([null, 'ru'])
+    expect(ctx.i18n.language).toBe('ru')
+  })
+})
@@ -2,6 +2,8 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { createMockContext } from '../utils/mock-context'
 
+import { getCallbackCodec } from '@/adapters/telegram/callback-router'
+import { AccessCallbacks } from '@/adapters/telegram/callbacks/access'
 import { requestsCommand } from '@/adapters/telegram/commands/admin/requests'
 
 // Mock the auth module
@@ -111,19 +113,19 @@ describe('Requests Command', () => {
     const keyboard = mockKeyboard
     expect(keyboard.inline_keyboard).toHaveLength(2) // Two rows
     expect(keyboard.inline_keyboard[0]).toHaveLength(2) // Approve/Reject buttons
-    expect(keyboard.inline_keyboard[0][0]).toEqual({
-      text: 'Approve',
-      callback_data: 'access:approve:1'
+    const [[approve, reject], [next]] = keyboard.inline_keyboard
+    const codec = getCallbackCodec(ctx)
+    expect(approve.text).toBe('Approve')
+    expect(await codec.decode(AccessCallbacks.approve, approve.callback_data)).toEqual({
+      requestId: 1
     })
-    expect(keyboard.inline_keyboard[0][1]).toEqual({
-      text: 'Reject',
-      callback_data: 'access:reject:1'
+    expect(reject.text).toBe('Reject')
+    expect(await codec.decode(AccessCallbacks.reject, reject.callback_data)).toEqual({
+      requestId: 1
     })
     expect(keyboard.inline_keyboard[1]).toHaveLength(1) // Next button
-    expect(keyboard.inline_keyboard[1][0]).toEqual({
-      text: 'Next',
-      callback_data: 'access:next:1'
-    })
+    expect(next.text).toBe('Next')
+    expect(await codec.decode(AccessCallbacks.next, next.callback_data)).toEqual({})
   })
 
   it('should show only approve/reject buttons when there is one request', async () => {
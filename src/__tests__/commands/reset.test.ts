@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createMockContext } from '../utils/mock-context'
+
+import { askCommand } from '@/adapters/telegram/commands/ask'
+import { resetCommand } from '@/adapters/telegram/commands/reset'
+import type { ConversationService } from '@/services/conversation-service'
+import type { BotContext } from '@/types'
+
+vi.mock('@/core/cloud/cloud-platform-cache', () => ({
+  getCloudPlatformConnector: () => ({ getResourceConstraints: () => ({}) })
+}))
+
+vi.mock('@/core/interfaces/resource-constraints', () => ({
+  hasAICapabilities: () => true
+}))
+
+function createConversation() {
+  return {
+    buildMessages: vi.fn(async (_chatId: number, _userId: number, request: unknown) => [
+      { role: 'user', content: 'Earlier question' },
+      { role: 'assistant', content: 'Earlier answer' },
+      { role: 'user', content: request }
+    ]),
+    addTurn: vi.fn().mockResolvedValue(undefined),
+    reset: vi.fn().mockResolvedValue(true)
+  }
+}
+
+function createContext(conversation: ReturnType<typeof createConversation> | null) {
+  const ctx = createMockContext()
+  ctx.services = {
+    ...ctx.services,
+    conversation: conversation as unknown as ConversationService | null
+  } as BotContext['services']
+  return ctx
+}
+
+describe('Reset Command', () => {
+  it('should clear the conversation of the user in the chat', async () => {
+    const conversation = createConversation()
+    const ctx = createContext(conversation)
+
+    await resetCommand(ctx)
+    conversation.reset.mockResolvedValueOnce(false)
+    await resetCommand(ctx)
+
+    expect(conversation.reset).toHaveBeenCalledWith(123456, 123456)
+    expect(ctx.reply).toHaveBeenNthCalledWith(1, 'commands.reset.done')
+    expect(ctx.reply).toHaveBeenNthCalledWith(2, 'commands.reset.empty')
+  })
+
+  it('should report when conversation memory is disabled', async () => {
+    const ctx = createContext(null)
+
+    await resetCommand(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('commands.reset.not_available')
+  })
+
+  it('should report storage errors', async () => {
+    const conversation = createConversation()
+    conversation.reset.mockRejectedValue(new Error('KV unavailable'))
+    const ctx = createContext(conversation)
+
+    await resetCommand(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('commands.reset.error')
+  })
+})
+
+describe('Ask Command with conversation memory', () => {
+  it('should send the history and record the new turn', async () => {
+    const conversation = createConversation()
+    const ai = {
+      complete: vi.fn().mockResolvedValue({ content: 'Follow-up answer', provider: 'mock' }),
+      getActiveProvider: vi.fn().mockReturnValue('mock'),
+      getProviderCapabilities: vi.fn().mockReturnValue({ maxContextLength: 8192 })
+    }
+    const ctx = createContext(conversation)
+    ctx.match = 'And then?'
+    ctx.replyWithChatAction = vi.fn().mockResolvedValue(true)
+    ctx.services.ai = ai as unknown as BotContext['services']['ai']
+
+    await askCommand(ctx)
+
+    expect(conversation.buildMessages).toHaveBeenCalledWith(123456, 123456, 'And then?', 8192)
+    expect(ai.complete).toHaveBeenCalledWith(
+      [
+        { role: 'user', content: 'Earlier question' },
+        { role: 'assistant', content: 'Earlier answer' },
+        { role: 'user', content: 'And then?' }
+      ],
+      { trackCost: true }
+    )
+    expect(conversation.addTurn).toHaveBeenCalledWith(
+      123456,
+      123456,
+      'And then?',
+      'Follow-up answer'
+    )
+  })
+})
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createMockContext } from '../utils/mock-context'
+
+import { rolesCommand } from '@/adapters/telegram/commands/owner/roles'
+import type { PermissionService } from '@/core/interfaces/role-system'
+import { RoleManagementError } from '@/core/services/permission-service'
+import type { BotContext } from '@/types'
+
+function createService() {
+  return {
+    listRoles: vi.fn().mockResolvedValue([
+      { role: 'admin', isSystem: true, permissions: ['access.requests'], createdAt: new Date() },
+      {
+        role: 'support',
+        description: 'Support team',
+        isSystem: false,
+        permissions: [],
+        createdAt: new Date()
+      }
+    ]),
+    getRole: vi.fn().mockResolvedValue({
+      role: 'support',
+      isSystem: false,
+      permissions: ['payments.refund'],
+      createdAt: new Date()
+    }),
+    createRole: vi.fn(),
+    deleteRole: vi.fn(),
+    allowPermissions: vi.fn(),
+    denyPermissions: vi.fn(),
+    grantRole: vi.fn(),
+    revokeRole: vi.fn().mockResolvedValue(true),
+    getGrants: vi.fn().mockResolvedValue([]),
+    getPermissions: vi.fn().mockResolvedValue(['*']),
+    hasPermission: vi.fn()
+  }
+}
+
+function createContext(match: string, service: ReturnType<typeof createService> | null) {
+  const ctx = createMockContext({ from: { id: 123456, is_bot: false, first_name: 'Owner' } })
+  ctx.match = match
+  ctx.services.permissions = service as unknown as PermissionService | null
+  ctx.roleService = { getUserRole: vi.fn() } as unknown as BotContext['roleService']
+  return ctx
+}
+
+describe('Roles Command', () => {
+  let service: ReturnType<typeof createService>
+
+  beforeEach(() => {
+    service = createService()
+  })
+
+  it('should list roles with their permissions', async () => {
+    const ctx = createContext('list', service)
+
+    await rolesCommand(ctx)
+
+    expect(ctx.i18n.t).toHaveBeenCalledWith('commands.roles.list', {
+      namespace: 'telegram',
+      params: {
+        roles:
+          '• admincommands.roles.system\n  access.requests\n' +
+          '• support — Support team\n  commands.roles.no_permissions'
+      }
+    })
+  })
+
+  it('should create roles and update their permissions', async () => {
+    await rolesCommand(createContext('create Support Handles refunds', service))
+    expect(service.createRole).toHaveBeenCalledWith('support', 'Handles refunds', 'telegram_123456')
+
+    await rolesCommand(createContext('allow support payments.refund Broadcast.send', service))
+    expect(service.allowPermissions).toHaveBeenCalledWith('support', [
+      'payments.refund',
+      'broadcast.send'
+    ])
+
+    await rolesCommand(createContext('deny support broadcast.send', service))
+    expect(service.denyPermissions).toHaveBeenCalledWith('support', ['broadcast.send'])
+  })
+
+  it('should grant roles for one chat or all chats', async () => {
+    await rolesCommand(createContext('grant 789012 support -100123', service))
+    expect(service.grantRole).toHaveBeenCalledWith({
+      userId: 'telegram_789012',
+      role: 'support',
+      chatId: '-100123',
+      grantedBy: 'telegram_123456'
+    })
+
+    await rolesCommand(createContext('revoke 789012 support', service))
+    expect(service.revokeRole).toHaveBeenCalledWith('telegram_789012', 'support', null)
+  })
+
+  it('should only hand out permissions the actor holds', async () => {
+    service.getPermissions.mockResolvedValue(['roles.manage', 'payments.*'])
+
+    for (const match of ['allow support *', 'allow support broadcast.send', 'grant 789012 admin']) {
+      service.getRole.mockResolvedValue({
+        role: 'admin',
+        isSystem: true,
+        permissions: ['access.requests'],
+        createdAt: new Date()
+      })
+      const ctx = createContext(match, service)
+      await rolesCommand(ctx)
+      expect(ctx.reply).toHaveBeenCalledWith('commands.roles.errors.permission_not_held')
+    }
+    expect(service.allowPermissions).not.toHaveBeenCalled()
+    expect(service.grantRole).not.toHaveBeenCalled()
+
+    await rolesCommand(createContext('allow support payments.refund roles.manage', service))
+    expect(service.allowPermissions).toHaveBeenCalledWith('support', [
+      'payments.refund',
+      'roles.manage'
+    ])
+    expect(service.getPermissions).toHaveBeenCalledWith('telegram_123456', undefined)
+  })
+
+  it('should reject invalid user IDs', async () => {
+    const ctx = createContext('grant someone support', service)
+
+    await rolesCommand(ctx)
+
+    expect(service.grantRole).not.toHaveBeenCalled()
+    expect(ctx.reply).toHaveBeenCalledWith(
+      '❌ Please provide a valid user ID or forward a message from the user.'
+    )
+  })
+
+  it('should explain rejected changes', async () => {
+    service.deleteRole.mockRejectedValue(new RoleManagementError('Built in', 'system_role'))
+    const ctx = createContext('delete admin', service)
+
+    await rolesCommand(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('commands.roles.errors.system_role')
+  })
+
+  it('should show usage for unknown subcommands', async () => {
+    const ctx = createContext('', service)
+
+    await rolesCommand(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('commands.roles.usage')
+  })
+
+  it('should require the permission service', async () => {
+    const ctx = createContext('list', null)
+
+    await rolesCommand(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('commands.roles.not_configured')
+  })
+})
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createMockCallbackContext, createMockContext } from '../utils/mock-context'
+
+import {
+  TelegramAuditMiddleware,
+  createAuditMiddleware
+} from '@/adapters/telegram/middleware/audit'
+import { EventBus } from '@/core/events/event-bus'
+import type { AuditLogService } from '@/core/interfaces/audit-log'
+import type { BotContext } from '@/types'
+
+function createAuditLog() {
+  return {
+    append: vi.fn().mockResolvedValue({}),
+    query: vi.fn().mockResolvedValue([
+      {
+        id: 3,
+        action: 'command.roles',
+        userId: 'telegram_123456',
+        resource: 'telegram_bot',
+        result: 'failure',
+        source: 'telegram-audit',
+        createdAt: new Date('2025-03-01T10:00:00Z'),
+        prevHash: 'a',
+        hash: 'b'
+      }
+    ]),
+    count: vi.fn(),
+    verify: vi.fn(),
+    prune: vi.fn()
+  }
+}
+
+function createCommandContext(text: string): BotContext {
+  const ctx = createMockContext()
+  ctx.message = { ...ctx.message, text } as BotContext['message']
+  return ctx
+}
+
+describe('Audit middleware', () => {
+  let eventBus: EventBus
+  let auditLog: ReturnType<typeof createAuditLog>
+  let audit: TelegramAuditMiddleware
+
+  beforeEach(() => {
+    eventBus = new EventBus({ async: false })
+    auditLog = createAuditLog()
+    audit = new TelegramAuditMiddleware(eventBus, auditLog as unknown as AuditLogService)
+  })
+
+  it('should record audited commands parsed from the message', async () => {
+    const middleware = createAuditMiddleware(audit, { commands: ['roles'] })
+
+    await middleware(createCommandContext('/roles@test_bot grant 42 support'), vi.fn())
+
+    expect(auditLog.append).toHaveBeenCalledWith({
+      action: 'command.roles',
+      userId: 'telegram_123456',
+      resource: 'telegram_bot',
+      result: 'success',
+      source: 'telegram-audit',
+      metadata: expect.objectContaining({ command: 'roles', args: 'grant 42 support' })
+    })
+    expect(auditLog.append).toHaveBeenCalledTimes(1)
+  })
+
+  it('should skip commands that are not audited', async () => {
+    const middleware = createAuditMiddleware(audit, { commands: ['roles'] })
+    const next = vi.fn()
+
+    await middleware(createCommandContext('/help'), next)
+    await middleware(createCommandContext('hello'), next)
+
+    expect(next).toHaveBeenCalledTimes(2)
+    expect(auditLog.append).not.toHaveBeenCalled()
+  })
+
+  it('should record failures and rethrow them', async () => {
+    const middleware = createAuditMiddleware(audit, { commands: ['broadcast'] })
+    const failure = new Error('send failed')
+
+    await expect(
+      middleware(createCommandContext('/broadcast all hi'), vi.fn().mockRejectedValue(failure))
+    ).rejects.toBe(failure)
+    expect(auditLog.append).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'command.broadcast', result: 'failure' })
+    )
+  })
+
+  it('should record refused and self-reported failures', async () => {
+    const middleware = createAuditMiddleware(audit, { commands: ['roles', 'broadcast'] })
+
+    await middleware(createCommandContext('/roles list'), vi.fn())
+    const denied = createCommandContext('/roles list')
+    await middleware(denied, async () => {
+      denied.deniedPermission = 'roles.manage'
+    })
+    const failed = createCommandContext('/broadcast all hi')
+    await middleware(failed, async () => {
+      failed.commandFailed = true
+    })
+
+    expect(auditLog.append.mock.calls.map(([entry]) => entry.result)).toEqual([
+      'success',
+      'failure',
+      'failure'
+    ])
+    expect(auditLog.append.mock.calls[1]?.[0].metadata).toMatchObject({
+      deniedPermission: 'roles.manage'
+    })
+  })
+
+  it('should record audited buttons', async () => {
+    const middleware = createAuditMiddleware(audit, {
+      commands: ['roles'],
+      callbacks: ['acc.approve', 'broadcast']
+    })
+    const next = vi.fn()
+
+    for (const data of [
+      'acc.approve|0|abcdefghijk|[42]',
+      'broadcast:pause:b1',
+      'settings:language'
+    ]) {
+      await middleware(createMockCallbackContext(data), next)
+    }
+
+    expect(next).toHaveBeenCalledTimes(3)
+    expect(auditLog.append.mock.calls.map(([entry]) => entry.action)).toEqual([
+      'callback.acc.approve',
+      'callback.broadcast.pause'
+    ])
+    expect(auditLog.append.mock.calls[1]?.[0].metadata).toMatchObject({
+      callback: 'broadcast.pause',
+      data: 'broadcast:pause:b1'
+    })
+  })
+
+  it('should not fail the update when the audit log is unavailable', async () => {
+    auditLog.append.mockRejectedValue(new Error('D1_ERROR'))
+    const middleware = createAuditMiddleware(audit, { commands: ['roles'] })
+    const next = vi.fn()
+
+    await middleware(createCommandContext('/roles list'), next)
+
+    expect(next).toHaveBeenCalled()
+  })
+
+  it('should store audit events emitted by other components', async () => {
+    eventBus.emit('audit.action', { action: 'payment.refund', result: 'success' }, 'payments')
+    await vi.waitFor(() =>
+      expect(auditLog.append).toHaveBeenCalledWith({
+        action: 'payment.refund',
+        result: 'success',
+        source: 'payments'
+      })
+    )
+
+    await audit.log({ action: 'admin.grant', result: 'success' })
+    expect(auditLog.append).toHaveBeenCalledTimes(2)
+  })
+
+  it('should read trails from the audit log', async () => {
+    const trail = await audit.getUserAuditTrail('telegram_123456', 10)
+
+    expect(auditLog.query).toHaveBeenCalledWith({ userId: 'telegram_123456', limit: 10 })
+    expect(trail).toEqual([
+      {
+        type: 'audit.error',
+        payload: {
+          action: 'command.roles',
+          userId: 'telegram_123456',
+          resource: 'telegram_bot',
+          result: 'failure',
+          metadata: undefined
+        },
+        source: 'telegram-audit',
+        timestamp: Date.parse('2025-03-01T10:00:00Z')
+      }
+    ])
+  })
+})
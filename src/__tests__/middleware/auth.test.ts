@@ -5,6 +5,7 @@ import { createMockContext } from '../utils/mock-context'
 
 import { createAuthMiddleware } from '@/adapters/telegram/middleware/auth'
 import { EventBus } from '@/core/events/event-bus'
+import type { PermissionService } from '@/core/interfaces/role-system'
 import { UniversalRoleService } from '@/core/services/role-service'
 
 describe('Auth Middleware', () => {
@@ -263,6 +264,64 @@ describe('Auth Middleware', () => {
       })
     })
 
+    describe('requirePermission', () => {
+      it('should fall back to the default permissions of the user role', async () => {
+        const admin = createContextWithDB({
+          from: { id: 999999, is_bot: false, first_name: 'Admin' }
+        })
+        const next = vi.fn()
+
+        await authMiddleware.requirePermission('knowledge.manage')(admin, next)
+        expect(next).toHaveBeenCalledTimes(1)
+
+        await authMiddleware.requirePermission('broadcast.send')(admin, next)
+        expect(next).toHaveBeenCalledTimes(1)
+
+        const owner = createContextWithDB({
+          from: { id: 123456, is_bot: false, first_name: 'Owner' }
+        })
+        await authMiddleware.requirePermission('broadcast.send')(owner, next)
+        expect(next).toHaveBeenCalledTimes(2)
+      })
+
+      it('should check the permission service in the current chat', async () => {
+        const ctx = createContextWithDB({
+          from: { id: 888888, is_bot: false, first_name: 'User' },
+          chat: { id: -100123, type: 'supergroup', title: 'Support' }
+        })
+        const hasPermission = vi.fn().mockResolvedValue(true)
+        ctx.services.permissions = { hasPermission } as unknown as PermissionService
+        const next = vi.fn()
+
+        await authMiddleware.requirePermission('payments.refund')(ctx, next)
+
+        expect(hasPermission).toHaveBeenCalledWith('telegram_888888', 'payments.refund', '-100123')
+        expect(next).toHaveBeenCalled()
+      })
+
+      it('should reply when debug is enabled and the permission is missing', async () => {
+        const ctx = createContextWithDB({
+          from: { id: 888888, is_bot: false, first_name: 'User' }
+        })
+        ctx.services.permissions = {
+          hasPermission: vi.fn().mockResolvedValue(false)
+        } as unknown as PermissionService
+        const replySpy = vi.spyOn(ctx, 'reply')
+        const next = vi.fn()
+
+        mockDB.prepare = vi.fn().mockImplementation((sql: string) => ({
+          bind: vi.fn().mockImplementation(() => ({
+            first: vi.fn().mockResolvedValue(sql.includes('bot_settings') ? { value: '3' } : null)
+          }))
+        }))
+
+        await authMiddleware.requirePermission('payments.refund')(ctx, next)
+
+        expect(next).not.toHaveBeenCalled()
+        expect(replySpy).toHaveBeenCalledWith("You don't have permission to use this command.")
+      })
+    })
+
     describe('requireAccess', () => {
       it('should call next for user with access', async () => {
         const ctx = createContextWithDB({
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createMockContext } from '../utils/mock-context'
+
+import { createQuotaMiddleware } from '@/adapters/telegram/middleware/quota'
+import type { PermissionService } from '@/core/interfaces/role-system'
+import { UserRole } from '@/core/interfaces/role-system'
+import type { QuotaService } from '@/services/quota-service'
+import type { BotContext } from '@/types/telegram'
+
+function createContext(text: string, quotas: Partial<QuotaService>): BotContext {
+  const ctx = createMockContext({
+    message: {
+      message_id: 1,
+      date: Date.now(),
+      chat: { id: 123456, type: 'private' },
+      from: { id: 123456, is_bot: false, first_name: 'Test' },
+      text
+    }
+  })
+  ctx.services = { ai: null, quotas: quotas as QuotaService }
+  ctx.roleService = {
+    getUserRole: vi.fn().mockResolvedValue(UserRole.USER)
+  } as unknown as BotContext['roleService']
+  return ctx
+}
+
+describe('Quota Middleware', () => {
+  const middleware = createQuotaMiddleware()
+  let quotas: {
+    getQuota: ReturnType<typeof vi.fn>
+    consume: ReturnType<typeof vi.fn>
+    refund: ReturnType<typeof vi.fn>
+  }
+
+  beforeEach(() => {
+    quotas = {
+      getQuota: vi.fn((command: string) =>
+        command === 'ask' ? { period: 'day', roles: {} } : undefined
+      ),
+      consume: vi.fn().mockResolvedValue({ allowed: true, limit: { requests: 20 } }),
+      refund: vi.fn().mockResolvedValue(undefined)
+    }
+  })
+
+  it('counts quota commands and runs them', async () => {
+    const ctx = createContext('/ask@test_bot hello', quotas)
+    const next = vi.fn()
+
+    await middleware(ctx, next)
+
+    expect(quotas.consume).toHaveBeenCalledWith('123456', 'ask', UserRole.USER)
+    expect(next).toHaveBeenCalled()
+  })
+
+  it('skips commands without a quota', async () => {
+    const ctx = createContext('/help', quotas)
+    const next = vi.fn()
+
+    await middleware(ctx, next)
+
+    expect(quotas.consume).not.toHaveBeenCalled()
+    expect(next).toHaveBeenCalled()
+  })
+
+  it('does not count users with ai.unlimited', async () => {
+    const ctx = createContext('/ask hello', quotas)
+    ctx.services.permissions = {
+      hasPermission: vi.fn(
+        async (_userId: string, permission: string) => permission === 'ai.unlimited'
+      )
+    } as unknown as PermissionService
+    const next = vi.fn()
+
+    await middleware(ctx, next)
+
+    expect(quotas.consume).not.toHaveBeenCalled()
+    expect(next).toHaveBeenCalled()
+  })
+
+  it('replies instead of running the command when the quota is used up', async () => {
+    quotas.consume.mockResolvedValue({
+      allowed: false,
+      reason: 'requests',
+      limit: { requests: 20 },
+      resetAt: new Date(Date.now() + 3 * 60 * 60 * 1000 + 20 * 60 * 1000)
+    })
+    const ctx = createContext('/ask hello', quotas)
+    const next = vi.fn()
+
+    await middleware(ctx, next)
+
+    expect(next).not.toHaveBeenCalled()
+    expect(ctx.i18n.t).toHaveBeenCalledWith('quota.exceeded_requests', {
+      namespace: 'telegram',
+      params: expect.objectContaining({ command: 'ask', limit: 20 })
+    })
+    expect(ctx.i18n.t).toHaveBeenCalledWith('quota.duration.hours', {
+      namespace: 'telegram',
+      params: { count: 3 }
+    })
+    expect(ctx.i18n.t).toHaveBeenCalledWith('quota.duration.minutes', {
+      namespace: 'telegram',
+      params: { count: 20 }
+    })
+    expect(ctx.reply).toHaveBeenCalledWith('quota.exceeded_requests')
+  })
+
+  it('refunds the use when the command throws', async () => {
+    const ctx = createContext('/ask hello', quotas)
+    const next = vi.fn().mockRejectedValue(new Error('boom'))
+
+    await expect(middleware(ctx, next)).rejects.toThrow('boom')
+    expect(quotas.refund).toHaveBeenCalledWith('123456', 'ask')
+  })
+
+  it('refunds the use when the command reports a failure', async () => {
+    const ctx = createContext('/ask hello', quotas)
+
+    await middleware(
+      ctx,
+      vi.fn(async () => {
+        ctx.commandFailed = true
+      })
+    )
+
+    expect(quotas.refund).toHaveBeenCalledWith('123456', 'ask')
+  })
+
+  it('runs the command when the quota check fails', async () => {
+    quotas.consume.mockRejectedValue(new Error('D1 unavailable'))
+    const ctx = createContext('/ask hello', quotas)
+    const next = vi.fn()
+
+    await middleware(ctx, next)
+
+    expect(next).toHaveBeenCalled()
+  })
+})
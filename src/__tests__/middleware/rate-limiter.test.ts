@@ -1,8 +1,11 @@
 import type { Context, Next } from 'hono'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-import { createMockEnv } from '../utils/mock-env'
+import { createMockEnv, createMockRateLimiterNamespace } from '../utils/mock-env'
 
+import { TelegramRateLimiter } from '@/adapters/telegram/middleware/rate-limiter'
+import { EventBus } from '@/core/events/event-bus'
+import { createRateLimitStore } from '@/core/rate-limit'
 import { rateLimiter } from '@/middleware/rate-limiter'
 import type { Env } from '@/types/env'
 
@@ -163,4 +166,75 @@ describe('Rate Limiter Middleware', () => {
     expect(mockNext).toHaveBeenCalled()
     expect(mockContext.text).not.toHaveBeenCalled()
   })
+
+  describe('with the RATE_LIMITER Durable Object', () => {
+    beforeEach(() => {
+      mockEnv.RATE_LIMITER = createMockRateLimiterNamespace() as unknown as DurableObjectNamespace
+    })
+
+    it('should count in the Durable Object instead of KV', async () => {
+      const middleware = rateLimiter({
+        maxRequests: 2,
+        windowMs: 60000,
+        algorithm: 'sliding-window'
+      })
+
+      await Promise.all([1, 2, 3].map(() => middleware(mockContext, mockNext)))
+
+      expect(mockNext).toHaveBeenCalledTimes(2)
+      expect(mockContext.text).toHaveBeenCalledWith(
+        'Too many requests, please try again later.',
+        429,
+        expect.objectContaining({ 'X-RateLimit-Remaining': '0' })
+      )
+      expect(mockEnv.RATE_LIMIT.put).not.toHaveBeenCalled()
+    })
+
+    it('should give skipped requests back', async () => {
+      const middleware = rateLimiter({
+        maxRequests: 1,
+        windowMs: 60000,
+        algorithm: 'token-bucket',
+        skipFailedRequests: true
+      })
+      mockContext.res.status = 500
+
+      await middleware(mockContext, mockNext)
+      await middleware(mockContext, mockNext)
+
+      expect(mockNext).toHaveBeenCalledTimes(2)
+      expect(mockContext.header).toHaveBeenCalledWith('X-RateLimit-Remaining', '1')
+    })
+  })
+})
+
+describe('TelegramRateLimiter', () => {
+  const context = { platform: 'telegram', userId: 'telegram_1' }
+
+  it('should limit through a rate limit store', async () => {
+    const eventBus = new EventBus()
+    const exceeded = vi.fn()
+    eventBus.on('rate-limit.exceeded', exceeded)
+    const store = createRateLimitStore({ RATE_LIMITER: createMockRateLimiterNamespace() })
+    const limiter = new TelegramRateLimiter(store ?? undefined, eventBus, 60000, 2, 'token-bucket')
+
+    const results = await Promise.all([1, 2, 3].map(() => limiter.checkLimit(context)))
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, false])
+    expect(exceeded).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: expect.objectContaining({ count: 2, limit: 2 }) })
+    )
+
+    await limiter.resetLimit('rate_limit:telegram_telegram_1')
+    expect((await limiter.checkLimit(context)).allowed).toBe(true)
+  })
+
+  it('should still accept a KV namespace', async () => {
+    const env = createMockEnv()
+    const limiter = new TelegramRateLimiter(env.RATE_LIMIT, new EventBus(), 60000, 1)
+
+    expect((await limiter.checkLimit(context)).allowed).toBe(true)
+    expect((await limiter.checkLimit(context)).allowed).toBe(false)
+    expect(env.RATE_LIMIT.put).toHaveBeenCalledTimes(1)
+  })
 })
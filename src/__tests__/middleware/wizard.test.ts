@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+
+import { createMockCallbackContext, createMockContext } from '../utils/mock-context'
+
+import { encodeCallback } from '@/adapters/telegram/callback-router'
+import { Wizard, WizardCallbacks, WizardRouter, getWizardState } from '@/adapters/telegram/wizard'
+import type { SessionOptions, UserSession } from '@/services/session-service'
+import type { BotContext } from '@/types'
+
+const USER_ID = 123456
+
+/**
+ * Sessions shared by all contexts, like KV across Worker restarts
+ */
+function createSessionStore() {
+  const sessions = new Map<number, UserSession>()
+  return {
+    sessions,
+    service: {
+      getSession: vi.fn(async (userId: number) => sessions.get(userId) ?? null),
+      saveSession: vi.fn(async (session: UserSession, _options?: SessionOptions) => {
+        sessions.set(session.userId, JSON.parse(JSON.stringify(session)))
+      })
+    }
+  }
+}
+
+describe('Wizard', () => {
+  let store: ReturnType<typeof createSessionStore>
+  let completed: ReturnType<typeof vi.fn>
+  let router: WizardRouter
+  let wizard: Wizard<{ title: string; price: number }>
+
+  /**
+   * Fresh context with the stored session, as the context middleware loads it
+   */
+  function withSession(ctx: BotContext): BotContext {
+    ctx.session = store.sessions.get(USER_ID)
+    ctx.services.session = store.service as unknown as BotContext['services']['session']
+    return ctx
+  }
+
+  async function send(text: string) {
+    const ctx = withSession(createMockContext())
+    ctx.message = { ...ctx.message, text } as BotContext['message']
+    const next = vi.fn()
+    await router.middleware()(ctx, next)
+    return { ctx, next }
+  }
+
+  async function press(action: 'back' | 'cancel', id = 'product.create') {
+    const data = await encodeCallback(createMockContext(), WizardCallbacks.nav, {
+      wizard: id,
+      action
+    })
+    const ctx = withSession(createMockCallbackContext(data))
+    await router.middleware()(ctx, vi.fn())
+    return ctx
+  }
+
+  beforeEach(() => {
+    store = createSessionStore()
+    completed = vi.fn()
+    wizard = new Wizard('product.create', { timeout: 60 })
+      .step('title', { prompt: () => 'Title?', schema: z.string().min(3) })
+      .step('price', {
+        prompt: (_ctx, data) => `Price of ${data.title}?`,
+        schema: z.coerce.number().positive(),
+        invalid: () => 'Price must be a positive number'
+      })
+      .onComplete(completed)
+    router = new WizardRouter().register(wizard)
+  })
+
+  it('should ask each question and pass validated answers', async () => {
+    const ctx = withSession(createMockContext())
+    await wizard.enter(ctx)
+
+    expect(ctx.reply).toHaveBeenCalledWith('Title?', expect.anything())
+    expect(store.sessions.get(USER_ID)).toMatchObject({
+      step: 'initial',
+      data: { wizard: { id: 'product.create', step: 0 } }
+    })
+
+    const title = await send('Lamp')
+    expect(title.ctx.reply).toHaveBeenCalledWith('Price of Lamp?', expect.anything())
+    expect(title.next).not.toHaveBeenCalled()
+
+    const price = await send('25')
+    expect(completed).toHaveBeenCalledWith(price.ctx, { title: 'Lamp', price: 25 })
+    expect(store.sessions.get(USER_ID)).toMatchObject({ step: 'initial', data: {} })
+  })
+
+  it('should only change the wizard part of the session', async () => {
+    const session = {
+      userId: USER_ID,
+      step: 'checkout',
+      data: { cart: [1] },
+      expiresAt: Date.now() + 3600 * 1000
+    }
+    store.sessions.set(USER_ID, session)
+    const ctx = withSession(createMockContext())
+    // Written by another update after this one loaded the session
+    store.sessions.set(USER_ID, { ...session, data: { cart: [1, 2] } })
+
+    await wizard.enter(ctx)
+
+    expect(store.sessions.get(USER_ID)).toMatchObject({
+      step: 'checkout',
+      data: { cart: [1, 2], wizard: { id: 'product.create' } }
+    })
+    const [, options] = store.service.saveSession.mock.lastCall ?? []
+    expect(options?.ttl).toBeGreaterThan(3500)
+  })
+
+  it('should repeat the question on invalid input', async () => {
+    await wizard.enter(withSession(createMockContext()))
+
+    const { ctx } = await send('ab')
+    expect(ctx.reply).toHaveBeenCalledWith('wizard.invalid')
+
+    await send('Lamp')
+    const price = await send('free')
+    expect(price.ctx.reply).toHaveBeenCalledWith('Price must be a positive number')
+    expect(getWizardState(withSession(createMockContext()))).toMatchObject({
+      step: 1,
+      values: { title: 'Lamp' }
+    })
+  })
+
+  it('should go back and cancel with buttons or commands', async () => {
+    await wizard.enter(withSession(createMockContext()))
+    await send('Lamp')
+
+    const back = await press('back')
+    expect(back.answerCallbackQuery).toHaveBeenCalled()
+    expect(back.reply).toHaveBeenCalledWith('Title?', expect.anything())
+    expect(getWizardState(back)).toMatchObject({ step: 0, values: {} })
+
+    await send('Desk')
+    const { ctx } = await send('/cancel')
+    expect(ctx.reply).toHaveBeenCalledWith('wizard.cancelled')
+    expect(getWizardState(ctx)).toBeNull()
+    expect(completed).not.toHaveBeenCalled()
+
+    const stale = await press('cancel')
+    expect(stale.answerCallbackQuery).toHaveBeenCalledWith('wizard.expired')
+  })
+
+  it('should leave other messages and commands alone', async () => {
+    expect((await send('hello')).next).toHaveBeenCalled()
+
+    await wizard.enter(withSession(createMockContext()))
+    expect((await send('/help')).next).toHaveBeenCalled()
+  })
+
+  it('should drop wizards after the timeout', async () => {
+    vi.useFakeTimers()
+    try {
+      await wizard.enter(withSession(createMockContext()))
+      vi.advanceTimersByTime(61_000)
+
+      const { ctx, next } = await send('Lamp')
+      expect(ctx.reply).toHaveBeenCalledWith('wizard.expired')
+      expect(next).not.toHaveBeenCalled()
+      expect(getWizardState(ctx)).toBeNull()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should resume the current step when entered again', async () => {
+    await wizard.enter(withSession(createMockContext()))
+    await send('Lamp')
+
+    const ctx = withSession(createMockContext())
+    await wizard.enter(ctx)
+    expect(ctx.reply).toHaveBeenCalledWith('Price of Lamp?', expect.anything())
+  })
+
+  it('should reject duplicate steps and wizards', () => {
+    expect(() =>
+      new Wizard('dup').step('a', { prompt: () => 'a', schema: z.string() }).step('a', {
+        prompt: () => 'a',
+        schema: z.string()
+      })
+    ).toThrow('already has a step "a"')
+    expect(() => router.register(new Wizard('product.create'))).toThrow('already registered')
+  })
+})
@@ -6,11 +6,15 @@ export const formatCode = vi.fn(
 )
 export const formatBold = vi.fn((text: string) => `*${text}*`)
 export const formatItalic = vi.fn((text: string) => `_${text}_`)
+export const escapeHtml = vi.fn((text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+)
 
 // Mock the module
 vi.mock('@/lib/telegram-formatter', () => ({
   escapeMarkdown,
   formatCode,
   formatBold,
-  formatItalic
+  formatItalic,
+  escapeHtml
 }))
@@ -224,6 +224,21 @@ describe('AIService', () => {
       expect(aiService.listProviders()).toEqual(providers)
     })
 
+    it('should get capabilities of the active provider', () => {
+      const capabilities = { streaming: true, maxContextLength: 8192 }
+      mockRegistry.getDefault.mockReturnValue('gemini')
+      mockRegistry.get.mockReturnValue({ getCapabilities: () => capabilities })
+
+      expect(aiService.getProviderCapabilities()).toBe(capabilities)
+      expect(mockRegistry.get).toHaveBeenCalledWith('gemini')
+    })
+
+    it('should return null capabilities without a provider', () => {
+      mockRegistry.getDefault.mockReturnValue(null)
+
+      expect(aiService.getProviderCapabilities()).toBeNull()
+    })
+
     it('should register new provider', () => {
       const newProvider = createMockProvider('custom')
 
@@ -281,6 +296,44 @@ describe('AIService', () => {
       })
     })
 
+    it('should track streamed usage when the stream finishes', async () => {
+      const usage = { inputUnits: 12, outputUnits: 5 }
+      mockRegistry.getDefault.mockReturnValue('anthropic')
+      mockRegistry.get.mockReturnValue({
+        ...createMockProvider('anthropic'),
+        stream: async function* () {
+          yield { content: 'Hi', done: false }
+          yield { content: '', done: true, usage }
+        }
+      })
+      const mockCalculator = {
+        calculateCost: vi
+          .fn()
+          .mockReturnValue({ inputCost: 0.01, outputCost: 0.02, totalCost: 0.03 })
+      }
+      const service = new AIService({
+        costTracking: {
+          enabled: true,
+          calculator: mockCalculator
+        }
+      })
+
+      const stream = service.stream('Hello')
+      expect(await stream.next()).toEqual({ value: 'Hi', done: false })
+      expect(await stream.next()).toEqual({
+        value: {
+          provider: 'anthropic',
+          usage,
+          cost: { inputCost: 0.01, outputCost: 0.02, totalCost: 0.03 }
+        },
+        done: true
+      })
+      expect(mockCalculator.calculateCost).toHaveBeenCalledWith(usage, 'anthropic')
+      expect(service.getCostInfo()?.usage).toEqual(
+        new Map([['anthropic', expect.objectContaining(usage)]])
+      )
+    })
+
     it('should get cost info', () => {
       const mockCalculator = {
         calculateCost: vi.fn()
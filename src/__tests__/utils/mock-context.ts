@@ -63,6 +63,7 @@ export function createMockContext(options: MockContextOptions = {}): BotContext
           'messages.next': 'Next',
           'messages.owner_only': 'This command is only available to bot owners.',
           'messages.admin_only': 'This command is only available to administrators.',
+          'messages.permission_denied': "You don't have permission to use this command.",
           'messages.access_only': 'You do not have access to this bot.',
           'messages.unauthorized': 'You do not have access to this bot.',
           'messages.use_start_to_request': 'Use /start to request access.'
@@ -213,15 +214,10 @@ export function createMockContext(options: MockContextOptions = {}): BotContext
 
       return message
     }),
-    setLanguage: vi.fn().mockResolvedValue(undefined),
-    getLanguage: vi.fn().mockReturnValue('en'),
-    getSupportedLanguages: vi.fn().mockResolvedValue(['en', 'ru']),
+    language: 'en',
     hasTranslation: vi.fn().mockReturnValue(true),
-    loadNamespace: vi.fn().mockResolvedValue(undefined),
-    unloadNamespace: vi.fn(),
-    getTranslations: vi.fn().mockReturnValue({}),
-    formatMessage: vi.fn((message: string) => message),
-    onMissingTranslation: vi.fn()
+    withLanguage: vi.fn((language: string): unknown => ({ ...mockI18n, language })),
+    getAvailableLanguages: vi.fn().mockReturnValue(['en', 'ru'])
   }
 
   const mockContext = {
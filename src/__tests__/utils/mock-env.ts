@@ -1,6 +1,7 @@
 import type { D1Database, KVNamespace } from '@cloudflare/workers-types'
 import { vi } from 'vitest'
 
+import { RateLimiterDO } from '@/core/rate-limit/rate-limiter-do'
 import type { Env } from '@/types'
 
 export function createMockEnv(): Env {
@@ -90,6 +91,48 @@ export function createMockKV() {
   } as unknown as KVNamespace
 }
 
+/**
+ * In-memory stand-in for a Durable Object namespace: one RateLimiterDO per
+ * name, reached through the same RPC requests the runtime would carry.
+ */
+export function createMockRateLimiterNamespace() {
+  const objects = new Map<string, RateLimiterDO>()
+
+  const getObject = (name: string) => {
+    let object = objects.get(name)
+    if (!object) {
+      const storage = new Map<string, unknown>()
+      const state = {
+        id: { toString: () => name, equals: () => false },
+        storage: {
+          get: async (key: string) => storage.get(key),
+          put: async (key: string, value: unknown) => {
+            storage.set(key, value)
+          },
+          delete: async (key: string) => storage.delete(key),
+          list: async () => new Map(storage),
+          setAlarm: async () => {},
+          deleteAlarm: async () => {}
+        },
+        blockConcurrencyWhile: <T>(fn: () => Promise<T>) => fn(),
+        acceptWebSocket: () => {}
+      }
+      object = new RateLimiterDO(state as never, {})
+      objects.set(name, object)
+    }
+    return object
+  }
+
+  return {
+    idFromName: (name: string) => ({ toString: () => name, equals: () => false }),
+    get: (id: { toString(): string }) => {
+      const object = getObject(id.toString())
+      return { id, fetch: (request: Request) => object.fetch(request) }
+    },
+    objects
+  }
+}
+
 export function createMockD1Result<T>(data: T) {
   return {
     results: Array.isArray(data) ? data : [data],
@@ -0,0 +1,58 @@
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+import { MigrationRunner } from '@/core/database/migration-runner'
+import { parseMigrationFile } from '@/core/database/migration-sql'
+
+/**
+ * Wraps the test worker's D1 binding (SQLite in memory under miniflare),
+ * emptied of every table, view and trigger so a test starts from a blank schema
+ */
+export async function createTestDatabase(DB: D1Database) {
+  const { results } = await DB.prepare(
+    `SELECT type, name FROM sqlite_master
+     WHERE type IN ('table', 'view', 'trigger') AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'`
+  ).all<{ type: string; name: string }>()
+
+  for (const { type, name } of results) {
+    await DB.prepare(`DROP ${type.toUpperCase()} IF EXISTS "${name}"`).run()
+  }
+
+  return {
+    d1: DB,
+    db: new CloudflareDatabaseStore(DB),
+
+    /**
+     * Names of the tables that exist right now
+     */
+    async tables(): Promise<string[]> {
+      const { results: tables } = await DB.prepare(
+        `SELECT name FROM sqlite_master
+         WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'
+         ORDER BY name`
+      ).all<{ name: string }>()
+      return tables.map(table => table.name)
+    },
+
+    /**
+     * Column names of a table
+     */
+    async columns(table: string): Promise<string[]> {
+      const { results: columns } = await DB.prepare(`PRAGMA table_info("${table}")`).all<{
+        name: string
+      }>()
+      return columns.map(column => column.name)
+    }
+  }
+}
+
+/**
+ * Blank test database with migration files applied. Tests pass the files from
+ * `import.meta.glob('/migrations/*.sql', { query: '?raw', import: 'default', eager: true })`.
+ */
+export async function createMigratedTestDatabase(DB: D1Database, files: Record<string, string>) {
+  const database = await createTestDatabase(DB)
+  const migrations = Object.entries(files).map(([path, contents]) =>
+    parseMigrationFile(path.split('/').pop() as string, contents)
+  )
+  await new MigrationRunner({ db: database.db, migrations }).up()
+  return database
+}
@@ -0,0 +1,113 @@
+/**
+ * Telegram side of broadcast campaigns
+ */
+
+import type { Api } from 'grammy'
+import type { InlineKeyboardButton } from 'grammy/types'
+
+import type { Translator } from '@/core/interfaces/i18n'
+import { escapeHtml } from '@/lib/telegram-formatter'
+import type {
+  Broadcast,
+  BroadcastContent,
+  BroadcastTransport,
+  DeliveryOutcome
+} from '@/services/broadcast-service'
+
+interface TelegramError extends Error {
+  error_code?: number
+  description?: string
+  parameters?: { retry_after?: number }
+}
+
+export class TelegramBroadcastTransport implements BroadcastTransport {
+  /**
+   * @param getTranslator Translator for the report of a campaign, e.g. in its creator's language
+   */
+  constructor(
+    private api: Api,
+    private getTranslator: (broadcast: Broadcast) => Promise<Translator>
+  ) {}
+
+  async deliver(recipientId: number, content: BroadcastContent): Promise<DeliveryOutcome> {
+    try {
+      if (content.type === 'copy') {
+        await this.api.copyMessage(recipientId, content.chatId, content.messageId)
+      } else {
+        await this.api.sendMessage(recipientId, content.text)
+      }
+      return { status: 'sent' }
+    } catch (error) {
+      const telegramError = error as TelegramError
+      // 403 Forbidden: bot was blocked or the user is deactivated
+      if (telegramError.error_code === 403) {
+        return { status: 'blocked' }
+      }
+      if (telegramError.error_code === 429) {
+        return {
+          status: 'rate_limited',
+          retryAfterMs: (telegramError.parameters?.retry_after ?? 1) * 1000
+        }
+      }
+      return { status: 'failed', error: telegramError.description ?? telegramError.message }
+    }
+  }
+
+  async report(broadcast: Broadcast): Promise<void> {
+    if (!broadcast.report) {
+      return
+    }
+
+    const { text, keyboard } = formatBroadcastReport(broadcast, await this.getTranslator(broadcast))
+    await this.api.editMessageText(broadcast.report.chatId, broadcast.report.messageId, text, {
+      parse_mode: 'HTML',
+      reply_markup: { inline_keyboard: keyboard }
+    })
+  }
+}
+
+/**
+ * Progress message with the controls available in the current status
+ */
+export function formatBroadcastReport(
+  broadcast: Broadcast,
+  i18n: Translator
+): {
+  text: string
+  keyboard: InlineKeyboardButton[][]
+} {
+  const t = (key: string, params?: Record<string, string | number>) =>
+    i18n.t(`commands.broadcast.report.${key}`, { namespace: 'telegram', params })
+
+  const lines = [t('title', { id: escapeHtml(broadcast.id) }), t(`status.${broadcast.status}`), '']
+
+  if ((broadcast.status === 'draft' || broadcast.status === 'scheduled') && broadcast.scheduledAt) {
+    lines.push(
+      t('starts', { time: broadcast.scheduledAt.toISOString().slice(0, 16).replace('T', ' ') })
+    )
+  }
+
+  const processed = broadcast.sent + broadcast.failed + broadcast.blocked
+  lines.push(
+    t('audience', { count: Math.max(broadcast.total, processed) }),
+    t('sent', { count: broadcast.sent }),
+    t('failed', { count: broadcast.failed }),
+    t('blocked', { count: broadcast.blocked })
+  )
+
+  const button = (action: string): InlineKeyboardButton => ({
+    text: t(`buttons.${action}`),
+    callback_data: `broadcast:${action}:${broadcast.id}`
+  })
+
+  let keyboard: InlineKeyboardButton[][] = []
+  if (broadcast.status === 'scheduled' || broadcast.status === 'sending') {
+    keyboard = [[button('pause'), button('cancel')]]
+  } else if (broadcast.status === 'paused') {
+    keyboard = [[button('resume'), button('cancel')]]
+  } else if (broadcast.status === 'draft') {
+    keyboard = [[button('confirm'), button('cancel')]]
+  }
+
+  return { text: lines.join('\n'), keyboard }
+}
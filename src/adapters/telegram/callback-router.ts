@@ -0,0 +1,96 @@
+/**
+ * Dispatches signed callback data (see lib/callback-data) to typed handlers
+ */
+
+import type { MiddlewareFn } from 'grammy'
+
+import type { CallbackDefinition, CallbackPayload } from '@/lib/callback-data'
+import { CallbackDataCodec, CallbackDataError, getCallbackId } from '@/lib/callback-data'
+import { getCallbackSecret } from '@/lib/env-guards'
+import { logger } from '@/lib/logger'
+import type { BotContext } from '@/types'
+
+export type TypedCallbackHandler<D extends CallbackDefinition> = (
+  ctx: BotContext,
+  payload: CallbackPayload<D>
+) => Promise<void>
+
+interface Route {
+  definition: CallbackDefinition
+  handler: (ctx: BotContext, payload: unknown) => Promise<void>
+}
+
+/**
+ * Codec of the current update. Adapters attach one with KV overflow;
+ * otherwise an in-memory one is created, which can't hold large payloads.
+ */
+export function getCallbackCodec(ctx: BotContext): CallbackDataCodec {
+  if (!ctx.callbackData) {
+    ctx.callbackData = new CallbackDataCodec({ secret: getCallbackSecret(ctx.env) })
+  }
+  return ctx.callbackData
+}
+
+/**
+ * Shorthand for building a button's callback_data
+ */
+export function encodeCallback<D extends CallbackDefinition>(
+  ctx: BotContext,
+  definition: D,
+  payload: CallbackPayload<D>
+): Promise<string> {
+  return getCallbackCodec(ctx).encode(definition, payload)
+}
+
+export class CallbackRouter {
+  private routes = new Map<string, Route>()
+
+  on<D extends CallbackDefinition>(definition: D, handler: TypedCallbackHandler<D>): this {
+    if (this.routes.has(definition.id)) {
+      throw new Error(`Callback ${definition.id} is already registered`)
+    }
+
+    this.routes.set(definition.id, {
+      definition,
+      handler: handler as Route['handler']
+    })
+    return this
+  }
+
+  /**
+   * Handles registered callbacks; plain strings and unknown ids go to next()
+   */
+  middleware(): MiddlewareFn<BotContext> {
+    return async (ctx, next) => {
+      const data = ctx.callbackQuery?.data
+      const route = this.routes.get(getCallbackId(data) ?? '')
+      if (!data || !route) {
+        await next()
+        return
+      }
+
+      let payload: unknown
+      try {
+        payload = await getCallbackCodec(ctx).decode(route.definition, data)
+      } catch (error) {
+        if (!(error instanceof CallbackDataError)) {
+          throw error
+        }
+
+        logger.warn('Rejected callback data', {
+          callbackId: route.definition.id,
+          code: error.code,
+          userId: ctx.from?.id
+        })
+        const key =
+          error.code === 'expired' || error.code === 'missing'
+            ? 'callbacks.expired'
+            : 'callbacks.invalid'
+        await ctx.answerCallbackQuery(ctx.i18n.t(key, { namespace: 'telegram' }))
+        return
+      }
+
+      await route.handler(ctx, payload)
+    }
+  }
+}
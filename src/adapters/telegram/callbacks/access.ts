@@ -1,8 +1,28 @@
 import { InlineKeyboard } from 'grammy'
+import { z } from 'zod'
 
+import { encodeCallback } from '@/adapters/telegram/callback-router'
+import { checkPermission } from '@/adapters/telegram/middleware/auth'
+import { Permission } from '@/core/interfaces/role-system'
+import { defineCallback } from '@/lib/callback-data'
 import { logger } from '@/lib/logger'
 import type { BotContext } from '@/types'
 
+const requestPayload = z.object({ requestId: z.number().int().positive() })
+
+/** Lifetime of the review buttons sent to admins (seconds); /requests shows fresh ones */
+const REVIEW_TTL = 24 * 60 * 60
+
+/**
+ * Buttons of the access request flow, registered in callbacks/index.ts
+ */
+export const AccessCallbacks = {
+  cancel: defineCallback('acc.cancel', requestPayload),
+  approve: defineCallback('acc.approve', requestPayload, { ttl: REVIEW_TTL }),
+  reject: defineCallback('acc.reject', requestPayload, { ttl: REVIEW_TTL }),
+  next: defineCallback('acc.next', z.object({}), { ttl: REVIEW_TTL })
+}
+
 // Type guard to ensure DB is available
 function assertDB(db: unknown): asserts db is NonNullable<BotContext['env']['DB']> {
   if (!db) {
@@ -10,6 +30,20 @@ function assertDB(db: unknown): asserts db is NonNullable<BotContext['env']['DB'
   }
 }
 
+/**
+ * Review buttons outlive the permission they were sent for, so it is checked
+ * again on every press
+ */
+async function canReviewRequests(ctx: BotContext): Promise<boolean> {
+  if (await checkPermission(ctx, Permission.ACCESS_REQUESTS)) {
+    return true
+  }
+
+  ctx.deniedPermission = Permission.ACCESS_REQUESTS
+  await ctx.answerCallbackQuery(ctx.i18n.t('messages.permission_denied', { namespace: 'access' }))
+  return false
+}
+
 /**
  * Handle access request callback
  */
@@ -93,7 +127,7 @@ export async function handleAccessStatus(ctx: BotContext) {
 /**
  * Handle access request cancellation
  */
-export async function handleAccessCancel(ctx: BotContext, requestId: string) {
+export async function handleAccessCancel(ctx: BotContext, requestId: number) {
   const userId = ctx.from?.id
   if (!userId) {
     await ctx.answerCallbackQuery(
@@ -120,7 +154,7 @@ export async function handleAccessCancel(ctx: BotContext, requestId: string) {
       WHERE id = ? AND user_id = ? AND status = 'pending'
     `
       )
-      .bind(parseInt(requestId), userId)
+      .bind(requestId, userId)
       .first()
 
     if (!request) {
@@ -137,7 +171,7 @@ export async function handleAccessCancel(ctx: BotContext, requestId: string) {
       WHERE id = ?
     `
       )
-      .bind(parseInt(requestId))
+      .bind(requestId)
       .run()
 
     await ctx.editMessageText(ctx.i18n.t('request.cancelled', { namespace: 'access' }), {
@@ -154,7 +188,7 @@ export async function handleAccessCancel(ctx: BotContext, requestId: string) {
 /**
  * Handle access request approval
  */
-export async function handleAccessApprove(ctx: BotContext, requestId: string) {
+export async function handleAccessApprove(ctx: BotContext, requestId: number) {
   const adminId = ctx.from?.id
   if (!adminId) {
     await ctx.answerCallbackQuery(
@@ -163,6 +197,10 @@ export async function handleAccessApprove(ctx: BotContext, requestId: string) {
     return
   }
 
+  if (!(await canReviewRequests(ctx))) {
+    return
+  }
+
   // Check if DB is available (demo mode check)
   if (!ctx.env.DB) {
     await ctx.answerCallbackQuery('Access control is disabled in demo mode')
@@ -181,7 +219,7 @@ export async function handleAccessApprove(ctx: BotContext, requestId: string) {
       WHERE id = ? AND status = 'pending'
     `
       )
-      .bind(parseInt(requestId))
+      .bind(requestId)
       .first<{ id: number; user_id: number; username: string; first_name: string }>()
 
     if (!request) {
@@ -198,7 +236,7 @@ export async function handleAccessApprove(ctx: BotContext, requestId: string) {
       WHERE id = ?
     `
       )
-      .bind(adminId, parseInt(requestId))
+      .bind(adminId, requestId)
       .run()
 
     // Grant access to user
@@ -215,7 +253,7 @@ export async function handleAccessApprove(ctx: BotContext, requestId: string) {
     // Update admin's message
     const keyboard = new InlineKeyboard().text(
       ctx.i18n.t('buttons.view_next', { namespace: 'access' }),
-      'request_next'
+      await encodeCallback(ctx, AccessCallbacks.next, {})
     )
 
     await ctx.editMessageText(
@@ -255,6 +293,7 @@ export async function handleAccessApprove(ctx: BotContext, requestId: string) {
     })
   } catch (error) {
     logger.error('Failed to approve access request', { error, requestId, adminId })
+    ctx.commandFailed = true
     await ctx.answerCallbackQuery(ctx.i18n.t('messages.general_error', { namespace: 'access' }))
   }
 }
@@ -262,7 +301,7 @@ export async function handleAccessApprove(ctx: BotContext, requestId: string) {
 /**
  * Handle access request rejection
  */
-export async function handleAccessReject(ctx: BotContext, requestId: string) {
+export async function handleAccessReject(ctx: BotContext, requestId: number) {
   const adminId = ctx.from?.id
   if (!adminId) {
     await ctx.answerCallbackQuery(
@@ -271,6 +310,10 @@ export async function handleAccessReject(ctx: BotContext, requestId: string) {
     return
   }
 
+  if (!(await canReviewRequests(ctx))) {
+    return
+  }
+
   // Check if DB is available (demo mode check)
   if (!ctx.env.DB) {
     await ctx.answerCallbackQuery('Access control is disabled in demo mode')
@@ -289,7 +332,7 @@ export async function handleAccessReject(ctx: BotContext, requestId: string) {
       WHERE id = ? AND status = 'pending'
     `
       )
-      .bind(parseInt(requestId))
+      .bind(requestId)
       .first<{ id: number; user_id: number; username: string }>()
 
     if (!request) {
@@ -306,13 +349,13 @@ export async function handleAccessReject(ctx: BotContext, requestId: string) {
       WHERE id = ?
     `
       )
-      .bind(adminId, parseInt(requestId))
+      .bind(adminId, requestId)
       .run()
 
     // Update admin's message
     const keyboard = new InlineKeyboard().text(
       ctx.i18n.t('buttons.view_next', { namespace: 'access' }),
-      'request_next'
+      await encodeCallback(ctx, AccessCallbacks.next, {})
     )
 
     await ctx.editMessageText(
@@ -352,6 +395,7 @@ export async function handleAccessReject(ctx: BotContext, requestId: string) {
     })
   } catch (error) {
     logger.error('Failed to reject access request', { error, requestId, adminId })
+    ctx.commandFailed = true
     await ctx.answerCallbackQuery(ctx.i18n.t('messages.general_error', { namespace: 'access' }))
   }
 }
@@ -368,6 +412,10 @@ export async function handleNextRequest(ctx: BotContext) {
     return
   }
 
+  if (!(await canReviewRequests(ctx))) {
+    return
+  }
+
   // Check if DB is available (demo mode check)
   if (!ctx.env.DB) {
     await ctx.editMessageText(
@@ -409,10 +457,19 @@ export async function handleNextRequest(ctx: BotContext) {
 
     // Show request details
     const keyboard = new InlineKeyboard()
-      .text(ctx.i18n.t('buttons.approve', { namespace: 'access' }), `approve_${request.id}`)
-      .text(ctx.i18n.t('buttons.reject', { namespace: 'access' }), `reject_${request.id}`)
+      .text(
+        ctx.i18n.t('buttons.approve', { namespace: 'access' }),
+        await encodeCallback(ctx, AccessCallbacks.approve, { requestId: request.id })
+      )
+      .text(
+        ctx.i18n.t('buttons.reject', { namespace: 'access' }),
+        await encodeCallback(ctx, AccessCallbacks.reject, { requestId: request.id })
+      )
       .row()
-      .text(ctx.i18n.t('buttons.view_next', { namespace: 'access' }), 'request_next')
+      .text(
+        ctx.i18n.t('buttons.view_next', { namespace: 'access' }),
+        await encodeCallback(ctx, AccessCallbacks.next, {})
+      )
 
     await ctx.editMessageText(
       ctx.i18n.t('request.details', {
@@ -468,7 +525,7 @@ async function notifyAdmins(
 
     const keyboard = new InlineKeyboard().text(
       ctx.i18n.t('buttons.review_request', { namespace: 'access' }),
-      'request_next'
+      await encodeCallback(ctx, AccessCallbacks.next, {})
     )
 
     const message = ctx.i18n.t('notifications.new_access_request', {
@@ -0,0 +1,73 @@
+import { formatBroadcastReport } from '@/adapters/telegram/broadcast-transport'
+import { checkPermission } from '@/adapters/telegram/middleware/auth'
+import { Permission } from '@/core/interfaces/role-system'
+import { logger } from '@/lib/logger'
+import type { Broadcast } from '@/services/broadcast-service'
+import type { CallbackHandler } from '@/types'
+
+/**
+ * Broadcast controls on the preview and progress message:
+ * broadcast:<confirm|pause|resume|cancel>:<id>
+ */
+export const broadcastActionCallback: CallbackHandler = async ctx => {
+  const [, action, id] = ctx.callbackQuery?.data?.split(':') ?? []
+  const broadcasts = ctx.services.broadcast
+  const userId = ctx.from?.id
+
+  if (!broadcasts || !id || !userId) {
+    await ctx.answerCallbackQuery(
+      ctx.i18n.t('commands.broadcast.unavailable', { namespace: 'telegram' })
+    )
+    return
+  }
+
+  if (!(await checkPermission(ctx, Permission.BROADCAST_SEND))) {
+    ctx.deniedPermission = Permission.BROADCAST_SEND
+    await ctx.answerCallbackQuery(ctx.i18n.t('messages.permission_denied', { namespace: 'access' }))
+    return
+  }
+
+  let updated: Broadcast | null
+  switch (action) {
+    case 'confirm': {
+      const message = ctx.callbackQuery?.message
+      updated = await broadcasts.schedule(
+        id,
+        message
+          ? { report: { chatId: String(message.chat.id), messageId: message.message_id } }
+          : {}
+      )
+      break
+    }
+    case 'pause':
+      updated = await broadcasts.pause(id)
+      break
+    case 'resume':
+      updated = await broadcasts.resume(id)
+      break
+    case 'cancel':
+      updated = await broadcasts.cancel(id)
+      break
+    default:
+      await ctx.answerCallbackQuery(
+        ctx.i18n.t('commands.broadcast.invalid_action', { namespace: 'telegram' })
+      )
+      return
+  }
+
+  // The campaign moved on meanwhile, e.g. it completed; show where it is now
+  const broadcast = updated ?? (await broadcasts.get(id))
+  await ctx.answerCallbackQuery(
+    updated ? undefined : ctx.i18n.t('commands.broadcast.unchangeable', { namespace: 'telegram' })
+  )
+
+  if (broadcast) {
+    const { text, keyboard } = formatBroadcastReport(broadcast, ctx.i18n)
+    await ctx.editMessageText(text, {
+      parse_mode: 'HTML',
+      reply_markup: { inline_keyboard: keyboard }
+    })
+  }
+
+  logger.info('Broadcast action', { broadcastId: id, action, userId, applied: Boolean(updated) })
+}
@@ -1,6 +1,9 @@
 import type { Bot } from 'grammy'
 
+import { CallbackRouter } from '../callback-router'
+
 import {
+  AccessCallbacks,
   handleAccessApprove,
   handleAccessCancel,
   handleAccessReject,
@@ -8,6 +11,7 @@ import {
   handleAccessStatus,
   handleNextRequest
 } from './access'
+import { broadcastActionCallback } from './broadcast'
 import {
   balanceCallback,
   helpCallback,
@@ -21,14 +25,24 @@ import {
   confirmClearDataCallback,
   languageSettingCallback,
   notificationSettingCallback,
+  quietHoursSettingCallback,
+  quietHoursTimezoneCallback,
   setLanguageCallback,
-  toggleNotificationsCallback
+  toggleNotificationsCallback,
+  updateQuietHoursCallback
 } from './settings'
 
 import { logger } from '@/lib/logger'
 import type { BotContext } from '@/types'
 
-// Import callback handlers
+/**
+ * Privileged buttons recorded in the audit log
+ */
+export const AUDITED_CALLBACKS = [
+  AccessCallbacks.approve.id,
+  AccessCallbacks.reject.id,
+  'broadcast'
+]
 
 export function setupCallbacks(bot: Bot<BotContext>): void {
   logger.info('Setting up callback handlers')
@@ -46,32 +60,27 @@ export function setupCallbacks(bot: Bot<BotContext>): void {
   bot.callbackQuery(/^set_language:/, setLanguageCallback)
   bot.callbackQuery('settings:notifications', notificationSettingCallback)
   bot.callbackQuery(/^toggle_notifications:/, toggleNotificationsCallback)
+  bot.callbackQuery('settings:quiet_hours', quietHoursSettingCallback)
+  bot.callbackQuery('quiet_hours:timezones', quietHoursTimezoneCallback)
+  bot.callbackQuery(/^quiet_hours:(toggle|start|end|tz)/, updateQuietHoursCallback)
   bot.callbackQuery('settings:clear_data', clearDataCallback)
   bot.callbackQuery('confirm_clear_data', confirmClearDataCallback)
 
+  // Broadcast controls
+  bot.callbackQuery(/^broadcast:/, broadcastActionCallback)
+
   // Access control callbacks
   bot.callbackQuery('access:request', async ctx => await handleAccessRequest(ctx))
   bot.callbackQuery('access:status', async ctx => await handleAccessStatus(ctx))
-  bot.callbackQuery(/^access:cancel:(\d+)$/, async ctx => {
-    const data = ctx.callbackQuery.data
-    const match = data?.match(/^access:cancel:(\d+)$/)
-    if (match?.[1]) await handleAccessCancel(ctx, match[1])
-  })
-  bot.callbackQuery(/^access:approve:(\d+)$/, async ctx => {
-    const data = ctx.callbackQuery.data
-    const match = data?.match(/^access:approve:(\d+)$/)
-    if (match?.[1]) await handleAccessApprove(ctx, match[1])
-  })
-  bot.callbackQuery(/^access:reject:(\d+)$/, async ctx => {
-    const data = ctx.callbackQuery.data
-    const match = data?.match(/^access:reject:(\d+)$/)
-    if (match?.[1]) await handleAccessReject(ctx, match[1])
-  })
-  bot.callbackQuery(/^access:next:(\d+)$/, async ctx => {
-    const data = ctx.callbackQuery.data
-    const match = data?.match(/^access:next:(\d+)$/)
-    if (match?.[1]) await handleNextRequest(ctx)
-  })
+
+  // Signed buttons carrying request IDs
+  const router = new CallbackRouter()
+    .on(AccessCallbacks.cancel, (ctx, { requestId }) => handleAccessCancel(ctx, requestId))
+    .on(AccessCallbacks.approve, (ctx, { requestId }) => handleAccessApprove(ctx, requestId))
+    .on(AccessCallbacks.reject, (ctx, { requestId }) => handleAccessReject(ctx, requestId))
+    .on(AccessCallbacks.next, ctx => handleNextRequest(ctx))
+  bot.use(router.middleware())
+
   bot.callbackQuery('view_requests', async ctx => {
     await ctx.answerCallbackQuery()
     // Simply notify about using the command
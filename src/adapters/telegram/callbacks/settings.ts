@@ -1,56 +1,66 @@
+import {
+  buildLanguageKeyboard,
+  changeLanguage,
+  describeLanguageChange
+} from '@/adapters/telegram/commands/language'
+import type { NotificationPreferences } from '@/core/interfaces/user-preference'
 import { logger } from '@/lib/logger'
-import type { CallbackHandler } from '@/types'
+import { escapeMarkdown } from '@/lib/telegram-formatter'
+import type { BotContext, CallbackHandler } from '@/types'
+
+type QuietHours = NonNullable<NotificationPreferences['quiet_hours']>
+
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '08:00',
+  timezone: 'UTC'
+}
+
+const QUIET_HOURS_TIMEZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Asia/Dubai',
+  'Asia/Bangkok',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'America/New_York',
+  'America/Los_Angeles'
+]
 
 export const languageSettingCallback: CallbackHandler = async ctx => {
   await ctx.answerCallbackQuery()
 
-  const languages = [
-    { code: 'en', name: 'English', flag: '🇬🇧' },
-    { code: 'es', name: 'Español', flag: '🇪🇸' },
-    { code: 'fr', name: 'Français', flag: '🇫🇷' },
-    { code: 'de', name: 'Deutsch', flag: '🇩🇪' },
-    { code: 'ru', name: 'Русский', flag: '🇷🇺' },
-    { code: 'zh', name: '中文', flag: '🇨🇳' }
-  ]
-
-  await ctx.editMessageText('🌐 *Select your language:*', {
-    parse_mode: 'MarkdownV2',
-    reply_markup: {
-      inline_keyboard: [
-        ...languages.map(lang => [
-          {
-            text: `${lang.flag} ${lang.name}`,
-            callback_data: `set_language:${lang.code}`
-          }
-        ]),
-        [{ text: '🔙 Back', callback_data: 'settings' }]
-      ]
-    }
+  await ctx.editMessageText(ctx.i18n.t('language.choose', { namespace: 'telegram' }), {
+    reply_markup: buildLanguageKeyboard(ctx.i18n, 'settings')
   })
 }
 
 export const setLanguageCallback: CallbackHandler = async ctx => {
-  const data = ctx.callbackQuery?.data
-  const languageCode = data?.split(':')[1]
+  // set_language:<code>[:settings]
+  const [, languageCode, from] = ctx.callbackQuery?.data?.split(':') ?? []
 
   if (!languageCode) {
-    await ctx.answerCallbackQuery('Invalid language selection')
+    await ctx.answerCallbackQuery(ctx.i18n.t('language.unavailable', { namespace: 'telegram' }))
     return
   }
 
-  // Save language preference
-  ctx.session.languageCode = languageCode
-
-  await ctx.answerCallbackQuery('✅ Language updated')
+  const result = await changeLanguage(ctx, languageCode)
+  await ctx.answerCallbackQuery(describeLanguageChange(ctx.i18n, result))
 
-  // Return to settings
-  const { settingsCallback } = await import('./menu')
-  await settingsCallback(ctx)
+  if (result !== 'changed') {
+    return
+  }
 
-  logger.info('Language changed', {
-    userId: ctx.from?.id,
-    language: languageCode
-  })
+  if (from === 'settings') {
+    const { settingsCallback } = await import('./menu')
+    await settingsCallback(ctx)
+  } else {
+    await ctx.editMessageText(describeLanguageChange(ctx.i18n, result))
+  }
 }
 
 export const notificationSettingCallback: CallbackHandler = async ctx => {
@@ -70,6 +80,12 @@ export const notificationSettingCallback: CallbackHandler = async ctx => {
               callback_data: `toggle_notifications:${!currentState}`
             }
           ],
+          [
+            {
+              text: ctx.i18n.t('settings.quiet_hours.button', { namespace: 'telegram' }),
+              callback_data: 'settings:quiet_hours'
+            }
+          ],
           [{ text: '🔙 Back', callback_data: 'settings' }]
         ]
       }
@@ -98,6 +114,146 @@ export const toggleNotificationsCallback: CallbackHandler = async ctx => {
   })
 }
 
+async function getQuietHours(ctx: BotContext): Promise<QuietHours | null> {
+  const userId = ctx.from?.id
+  const preferenceService = ctx.services.userPreferences
+  if (!userId || !preferenceService) {
+    return null
+  }
+
+  const preferences = await preferenceService.getNotificationPreferences(String(userId))
+  return preferences.quiet_hours ?? DEFAULT_QUIET_HOURS
+}
+
+function quietHoursText(ctx: BotContext, key: string, params?: Record<string, string>): string {
+  return ctx.i18n.t(`settings.quiet_hours.${key}`, { namespace: 'telegram', params })
+}
+
+function shiftHour(time: string, hours: number): string {
+  const [hour = 0, minute = 0] = time.split(':').map(Number)
+  return `${String((hour + hours + 24) % 24).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+export const quietHoursSettingCallback: CallbackHandler = async ctx => {
+  const quietHours = await getQuietHours(ctx)
+
+  if (!quietHours) {
+    await ctx.answerCallbackQuery(quietHoursText(ctx, 'unavailable'))
+    return
+  }
+
+  await ctx.answerCallbackQuery()
+
+  const { enabled, start, end, timezone } = quietHours
+
+  await ctx.editMessageText(
+    quietHoursText(ctx, 'page', {
+      status: quietHoursText(ctx, enabled ? 'enabled' : 'disabled'),
+      start,
+      end,
+      timezone: escapeMarkdown(timezone)
+    }),
+    {
+      parse_mode: 'MarkdownV2',
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: quietHoursText(ctx, enabled ? 'disable' : 'enable'),
+              callback_data: 'quiet_hours:toggle'
+            }
+          ],
+          [
+            { text: '➖', callback_data: 'quiet_hours:start:-1' },
+            {
+              text: quietHoursText(ctx, 'start', { time: start }),
+              callback_data: 'settings:quiet_hours'
+            },
+            { text: '➕', callback_data: 'quiet_hours:start:1' }
+          ],
+          [
+            { text: '➖', callback_data: 'quiet_hours:end:-1' },
+            {
+              text: quietHoursText(ctx, 'end', { time: end }),
+              callback_data: 'settings:quiet_hours'
+            },
+            { text: '➕', callback_data: 'quiet_hours:end:1' }
+          ],
+          [{ text: `🌍 ${timezone}`, callback_data: 'quiet_hours:timezones' }],
+          [{ text: quietHoursText(ctx, 'back'), callback_data: 'settings:notifications' }]
+        ]
+      }
+    }
+  )
+}
+
+export const quietHoursTimezoneCallback: CallbackHandler = async ctx => {
+  await ctx.answerCallbackQuery()
+
+  await ctx.editMessageText(quietHoursText(ctx, 'choose_timezone'), {
+    parse_mode: 'MarkdownV2',
+    reply_markup: {
+      inline_keyboard: [
+        ...QUIET_HOURS_TIMEZONES.map(timezone => [
+          { text: timezone, callback_data: `quiet_hours:tz:${timezone}` }
+        ]),
+        [{ text: quietHoursText(ctx, 'back'), callback_data: 'settings:quiet_hours' }]
+      ]
+    }
+  })
+}
+
+export const updateQuietHoursCallback: CallbackHandler = async ctx => {
+  const [, action, value] = ctx.callbackQuery?.data?.split(':') ?? []
+  const quietHours = await getQuietHours(ctx)
+
+  if (!quietHours || !ctx.from || !ctx.services.userPreferences) {
+    await ctx.answerCallbackQuery(quietHoursText(ctx, 'unavailable'))
+    return
+  }
+
+  const updated = { ...quietHours }
+  switch (action) {
+    case 'toggle':
+      updated.enabled = !quietHours.enabled
+      break
+    case 'start':
+    case 'end': {
+      const step = Number(value) < 0 ? -1 : 1
+      const other = action === 'start' ? quietHours.end : quietHours.start
+      // An empty window would never be quiet, skip over it
+      let time = shiftHour(quietHours[action], step)
+      if (time === other) {
+        time = shiftHour(time, step)
+      }
+      updated[action] = time
+      break
+    }
+    case 'tz':
+      if (!value || !QUIET_HOURS_TIMEZONES.includes(value)) {
+        await ctx.answerCallbackQuery(quietHoursText(ctx, 'invalid_timezone'))
+        return
+      }
+      updated.timezone = value
+      break
+    default:
+      await ctx.answerCallbackQuery(quietHoursText(ctx, 'invalid_selection'))
+      return
+  }
+
+  await ctx.services.userPreferences.updateNotificationPreferences(String(ctx.from.id), {
+    quiet_hours: updated
+  })
+
+  // Refresh the quiet hours settings page
+  await quietHoursSettingCallback(ctx)
+
+  logger.info('Quiet hours updated', {
+    userId: ctx.from.id,
+    quietHours: updated
+  })
+}
+
 export const clearDataCallback: CallbackHandler = async ctx => {
   await ctx.answerCallbackQuery()
 
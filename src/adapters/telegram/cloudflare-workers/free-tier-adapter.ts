@@ -10,15 +10,28 @@ import { Bot } from 'grammy'
 import { getTierConfig } from '@/config/cloudflare-tiers'
 import { getCloudPlatformConnector } from '@/core/cloud/cloud-platform-cache'
 import { EventBus } from '@/core/events/event-bus'
-import type { I18nConnector } from '@/core/interfaces/i18n'
+import type { Translator } from '@/core/interfaces/i18n'
+import type { IAuditMiddleware } from '@/core/middleware/interfaces'
 import { UniversalRoleService } from '@/core/services/role-service'
 import type { PaymentRepository } from '@/domain/payments/repository'
 import type { TelegramStarsService } from '@/domain/services/telegram-stars.service'
-import { getBotToken, hasDatabase } from '@/lib/env-guards'
+import { CallbackDataCodec } from '@/lib/callback-data'
+import { getBotToken, getCallbackSecret, hasDatabase } from '@/lib/env-guards'
 import { logger } from '@/lib/logger'
 import type { SessionService as ISessionService } from '@/services/session-service'
 import type { BotContext, Env } from '@/types'
 
+/**
+ * Free tier skips translation packs; handlers get their keys back
+ */
+const keyTranslator: Translator = {
+  language: 'en',
+  t: key => key,
+  hasTranslation: () => false,
+  withLanguage: () => keyTranslator,
+  getAvailableLanguages: () => ['en']
+}
+
 interface LightweightOptions {
   tier: 'free' | 'paid'
   env: Env
@@ -63,22 +76,7 @@ export class LightweightAdapter {
       ctx.env = env
 
       // Minimal i18n - returns key as is for free tier
-      // We'll create a proper minimal implementation later
-      ctx.i18n = new Proxy({} as I18nConnector, {
-        get: (_target, prop) => {
-          if (prop === 't') {
-            return (key: string) => key
-          }
-          if (prop === 'setLanguage') {
-            return async () => {}
-          }
-          if (prop === 'getLanguage') {
-            return () => 'en'
-          }
-          // Return reasonable defaults for other methods
-          return () => {}
-        }
-      })
+      ctx.i18n = keyTranslator
 
       // Add minimal role service if database available
       if (hasDatabase(env)) {
@@ -147,12 +145,14 @@ export class LightweightAdapter {
       { SessionService },
       { batcherMiddleware },
       { I18nFactory },
-      { EventBus: EventBusImport }
+      { EventBus: EventBusImport },
+      { createLanguageMiddleware }
     ] = await Promise.all([
       import('@/services/session-service'),
       import('@/lib/telegram-batcher'),
       import('@/connectors/i18n/i18n-factory'),
-      import('@/core/events/event-bus')
+      import('@/core/events/event-bus'),
+      import('@/adapters/telegram/middleware/language')
     ])
 
     // Initialize services
@@ -188,6 +188,25 @@ export class LightweightAdapter {
       }
     }
 
+    // Knowledge base for retrieval-augmented /ask
+    let knowledgeService = null
+    if (aiService) {
+      const { createKnowledgeService } = await import('@/services/knowledge-service')
+      knowledgeService = createKnowledgeService(env, getCloudPlatformConnector(env))
+    }
+
+    // Conversation memory for multi-turn /ask
+    let conversationService = null
+    if (aiService && env.SESSIONS) {
+      const { ConversationService } = await import('@/services/conversation-service')
+      const cloudConnector = getCloudPlatformConnector(env)
+      conversationService = new ConversationService(
+        cloudConnector.getKeyValueStore('SESSIONS'),
+        cloudConnector.getResourceConstraints(),
+        aiService
+      )
+    }
+
     // Initialize role service for full mode
     let roleService: UniversalRoleService | undefined
     if (hasDatabase(env)) {
@@ -199,9 +218,60 @@ export class LightweightAdapter {
       )
     }
 
+    // Command quotas need the database
+    let quotaService = null
+    if (hasDatabase(env)) {
+      const { QuotaService } = await import('@/services/quota-service')
+      quotaService = new QuotaService({
+        db: getCloudPlatformConnector(env).getDatabaseStore('DB')
+      })
+    }
+
+    // Language and quiet hours picked with /language and /settings
+    let userPreferenceService = null
+    if (hasDatabase(env)) {
+      const { UserPreferenceService } = await import('@/core/services/user-preference-service')
+      userPreferenceService = new UserPreferenceService(
+        getCloudPlatformConnector(env).getDatabaseStore('DB')
+      )
+    }
+
+    // Broadcast campaigns started with /broadcast, delivered by the cron and queue handlers
+    const { createBroadcastService } = await import('@/core/notification-delivery')
+    const broadcastService = createBroadcastService(env, this.bot.api)
+
+    // Permissions of built-in and custom roles, managed with /roles
+    let permissionService = null
+    if (roleService && hasDatabase(env)) {
+      const { UniversalPermissionService } = await import('@/core/services/permission-service')
+      permissionService = new UniversalPermissionService({
+        db: getCloudPlatformConnector(env).getDatabaseStore('DB'),
+        roleService
+      })
+    }
+
+    // Hash-chained audit log of privileged commands, browsed with /audit
+    let auditLog = null
+    let auditMiddleware: IAuditMiddleware | undefined
+    if (hasDatabase(env)) {
+      const { UniversalAuditLogService } = await import('@/core/services/audit-log-service')
+      const { TelegramAuditMiddleware } = await import('@/adapters/telegram/middleware/audit')
+      auditLog = new UniversalAuditLogService({
+        db: getCloudPlatformConnector(env).getDatabaseStore('DB'),
+        checkpoints: env.CACHE ? getCloudPlatformConnector(env).getKeyValueStore('CACHE') : null
+      })
+      auditMiddleware = new TelegramAuditMiddleware(eventBus, auditLog)
+    }
+
+    const callbackData = new CallbackDataCodec({
+      secret: getCallbackSecret(env),
+      store: env.CACHE ? getCloudPlatformConnector(env).getKeyValueStore('CACHE') : null
+    })
+
     // Full context setup
     this.bot.use(async (ctx, next) => {
       ctx.env = env
+      ctx.callbackData = callbackData
       ctx.services = {
         session:
           sessionService ||
@@ -211,6 +281,13 @@ export class LightweightAdapter {
             deleteSession: async () => {}
           } as unknown as ISessionService),
         ai: aiService,
+        knowledge: knowledgeService,
+        conversation: conversationService,
+        quotas: quotaService,
+        permissions: permissionService,
+        audit: auditLog,
+        ...(userPreferenceService && { userPreferences: userPreferenceService }),
+        broadcast: broadcastService,
         telegramStars: {} as TelegramStarsService, // Placeholder for lightweight mode
         paymentRepo: {} as PaymentRepository // Placeholder for lightweight mode
       }
@@ -222,11 +299,6 @@ export class LightweightAdapter {
         throw new Error('RoleService is required but not initialized')
       }
 
-      // Full i18n support
-      const lang = ctx.from?.language_code === 'ru' ? 'ru' : 'en'
-      await i18nConnector.setLanguage(lang)
-      ctx.i18n = i18nConnector
-
       // Load user session
       if (ctx.from?.id && this.config.features.sessionPersistence && sessionService) {
         ctx.session = (await sessionService.getSession(ctx.from.id)) || undefined
@@ -235,6 +307,8 @@ export class LightweightAdapter {
       await next()
     })
 
+    this.bot.use(createLanguageMiddleware(i18nConnector))
+
     // Add request batching for better performance
     if (this.config.features.requestBatching) {
       this.bot.use(
@@ -247,23 +321,37 @@ export class LightweightAdapter {
     }
 
     // Load command handlers dynamically
-    await this.loadCommandHandlers(roleService)
+    await this.loadCommandHandlers(roleService, auditMiddleware)
   }
 
   /**
    * Dynamically load command handlers
    */
-  private async loadCommandHandlers(roleService?: UniversalRoleService): Promise<void> {
+  private async loadCommandHandlers(
+    roleService?: UniversalRoleService,
+    auditMiddleware?: IAuditMiddleware
+  ): Promise<void> {
     try {
       // Import setupCommands function
-      const { setupCommands } = await import('@/adapters/telegram/commands')
+      const { setupCommands, AUDITED_COMMANDS } = await import('@/adapters/telegram/commands')
+
+      // Load callback handlers
+      const { setupCallbacks, AUDITED_CALLBACKS } = await import('@/adapters/telegram/callbacks')
+
+      // Record privileged commands and buttons before their handlers run
+      if (auditMiddleware) {
+        const { createAuditMiddleware } = await import('@/adapters/telegram/middleware/audit')
+        this.bot.use(
+          createAuditMiddleware(auditMiddleware, {
+            commands: AUDITED_COMMANDS,
+            callbacks: AUDITED_CALLBACKS
+          })
+        )
+      }
 
       // Setup all commands with role service
       setupCommands(this.bot, roleService)
 
-      // Load callback handlers
-      const { setupCallbacks } = await import('@/adapters/telegram/callbacks')
-
       // Setup all callbacks
       setupCallbacks(this.bot)
     } catch (error) {
@@ -1 +1,2 @@
+export { knowledgeCommand } from './knowledge'
 export { requestsCommand } from './requests'
@@ -0,0 +1,181 @@
+import { htmlToText } from '@/lib/document-text'
+import { getBotToken } from '@/lib/env-guards'
+import { logger } from '@/lib/logger'
+import { escapeHtml } from '@/lib/telegram-formatter'
+import type { KnowledgeService } from '@/services/knowledge-service'
+import type { CommandHandler } from '@/types'
+
+type Context = Parameters<CommandHandler>[0]
+
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|html?|csv|json|xml|rst)$/i
+const MAX_FILE_SIZE = 2 * 1024 * 1024
+
+/**
+ * Knowledge base management command for administrators.
+ * Ingests URLs and uploaded text documents, lists and deletes sources.
+ */
+export const knowledgeCommand: CommandHandler = async ctx => {
+  const knowledge = ctx.services.knowledge
+  if (!knowledge) {
+    await ctx.reply(ctx.i18n.t('commands.knowledge.not_configured', { namespace: 'telegram' }))
+    return
+  }
+
+  const args = ctx.match?.toString().trim().split(/\s+/) || []
+  const subCommand = args[0]?.toLowerCase()
+
+  switch (subCommand) {
+    case 'add':
+      await handleAddSource(ctx, knowledge, args[1])
+      break
+
+    case 'list':
+      await handleListSources(ctx, knowledge)
+      break
+
+    case 'delete':
+    case 'remove':
+      await handleDeleteSource(ctx, knowledge, args[1])
+      break
+
+    default:
+      await ctx.reply(ctx.i18n.t('commands.knowledge.usage', { namespace: 'telegram' }))
+  }
+}
+
+/**
+ * Ingests the URL argument, or the document attached to (or replied to by) the command.
+ */
+async function handleAddSource(ctx: Context, knowledge: KnowledgeService, url?: string) {
+  const document = ctx.message?.document ?? ctx.message?.reply_to_message?.document
+  if (!url && !document) {
+    await ctx.reply(ctx.i18n.t('commands.knowledge.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  try {
+    await ctx.replyWithChatAction('typing')
+
+    let source
+    if (url) {
+      source = await knowledge.ingestUrl(url, ctx.from?.id)
+    } else if (document) {
+      const fileName = document.file_name ?? 'document.txt'
+      const isText = document.mime_type?.startsWith('text/') || TEXT_EXTENSIONS.test(fileName)
+      if (!isText || (document.file_size ?? 0) > MAX_FILE_SIZE) {
+        await ctx.reply(
+          ctx.i18n.t('commands.knowledge.unsupported_file', {
+            namespace: 'telegram',
+            params: { maxSize: `${MAX_FILE_SIZE / 1024 / 1024} MB` }
+          })
+        )
+        return
+      }
+
+      const content = await downloadFile(ctx, document.file_id)
+      const isHtml = document.mime_type === 'text/html' || /\.html?$/i.test(fileName)
+      const { title, text } = isHtml ? htmlToText(content) : { title: undefined, text: content }
+
+      source = await knowledge.ingestText({
+        title: title ?? fileName,
+        text,
+        type: 'document',
+        addedBy: ctx.from?.id
+      })
+    }
+
+    if (source) {
+      await ctx.reply(
+        ctx.i18n.t('commands.knowledge.added', {
+          namespace: 'telegram',
+          params: { title: escapeHtml(source.title), id: source.id, chunks: source.chunkCount }
+        }),
+        { parse_mode: 'HTML' }
+      )
+    }
+  } catch (error) {
+    logger.error('Error adding knowledge source', { error, url, userId: ctx.from?.id })
+    await ctx.reply(
+      ctx.i18n.t('commands.knowledge.add_error', {
+        namespace: 'telegram',
+        params: { error: error instanceof Error ? error.message : 'Unknown error' }
+      })
+    )
+  }
+}
+
+/**
+ * Lists ingested sources, newest first.
+ */
+async function handleListSources(ctx: Context, knowledge: KnowledgeService) {
+  try {
+    const sources = await knowledge.listSources()
+    if (!sources.length) {
+      await ctx.reply(ctx.i18n.t('commands.knowledge.list_empty', { namespace: 'telegram' }))
+      return
+    }
+
+    const lines = sources.map(source =>
+      ctx.i18n.t('commands.knowledge.list_item', {
+        namespace: 'telegram',
+        params: {
+          id: source.id,
+          title: source.url
+            ? `<a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a>`
+            : escapeHtml(source.title),
+          chunks: source.chunkCount,
+          date: new Date(source.createdAt).toLocaleDateString()
+        }
+      })
+    )
+
+    await ctx.reply(
+      ctx.i18n.t('commands.knowledge.list', {
+        namespace: 'telegram',
+        params: { sources: lines.join('\n') }
+      }),
+      { parse_mode: 'HTML', link_preview_options: { is_disabled: true } }
+    )
+  } catch (error) {
+    logger.error('Error listing knowledge sources', { error })
+    await ctx.reply(ctx.i18n.t('commands.knowledge.list_error', { namespace: 'telegram' }))
+  }
+}
+
+/**
+ * Deletes a source and its chunks.
+ */
+async function handleDeleteSource(ctx: Context, knowledge: KnowledgeService, id?: string) {
+  if (!id) {
+    await ctx.reply(ctx.i18n.t('commands.knowledge.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  try {
+    const deleted = await knowledge.deleteSource(id)
+    await ctx.reply(
+      ctx.i18n.t(deleted ? 'commands.knowledge.deleted' : 'commands.knowledge.not_found', {
+        namespace: 'telegram',
+        params: { id }
+      })
+    )
+  } catch (error) {
+    logger.error('Error deleting knowledge source', { error, sourceId: id })
+    await ctx.reply(ctx.i18n.t('commands.knowledge.delete_error', { namespace: 'telegram' }))
+  }
+}
+
+async function downloadFile(ctx: Context, fileId: string): Promise<string> {
+  const file = await ctx.api.getFile(fileId)
+  if (!file.file_path) {
+    throw new Error('Telegram did not return a file path')
+  }
+
+  const response = await fetch(
+    `https://api.telegram.org/file/bot${getBotToken(ctx.env)}/${file.file_path}`
+  )
+  if (!response.ok) {
+    throw new Error(`Failed to download file: ${response.status}`)
+  }
+  return response.text()
+}
@@ -1,5 +1,7 @@
 import { InlineKeyboard } from 'grammy'
 
+import { encodeCallback } from '@/adapters/telegram/callback-router'
+import { AccessCallbacks } from '@/adapters/telegram/callbacks/access'
 import { logger } from '@/lib/logger'
 import type { CommandHandler } from '@/types'
 
@@ -77,17 +79,20 @@ export const requestsCommand: CommandHandler = async ctx => {
     const keyboard = new InlineKeyboard()
       .text(
         ctx.i18n.t('commands.requests.approve', { namespace: 'telegram' }),
-        `access:approve:${requests.id}`
+        await encodeCallback(ctx, AccessCallbacks.approve, { requestId: requests.id })
       )
       .text(
         ctx.i18n.t('commands.requests.reject', { namespace: 'telegram' }),
-        `access:reject:${requests.id}`
+        await encodeCallback(ctx, AccessCallbacks.reject, { requestId: requests.id })
       )
 
     if (totalPending > 1) {
       keyboard
         .row()
-        .text(ctx.i18n.t('messages.next', { namespace: 'access' }), `access:next:${requests.id}`)
+        .text(
+          ctx.i18n.t('messages.next', { namespace: 'access' }),
+          await encodeCallback(ctx, AccessCallbacks.next, {})
+        )
     }
 
     await ctx.reply(message, {
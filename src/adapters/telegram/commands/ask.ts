@@ -1,7 +1,14 @@
 import { getCloudPlatformConnector } from '@/core/cloud/cloud-platform-cache'
-import { hasAICapabilities } from '@/core/interfaces/resource-constraints'
+import { hasAICapabilities, isConstrainedEnvironment } from '@/core/interfaces/resource-constraints'
+import type { CostEstimate, Message } from '@/lib/ai/types'
 import { logger } from '@/lib/logger'
-import type { CommandHandler } from '@/types'
+import { escapeHtml } from '@/lib/telegram-formatter'
+import { TelegramStreamRenderer } from '@/lib/telegram-stream'
+import type { Citation } from '@/services/knowledge-service'
+import type { BotContext, CommandHandler } from '@/types'
+
+// Used when the provider does not report its context window
+const DEFAULT_CONTEXT_LENGTH = 4096
 
 export const askCommand: CommandHandler = async ctx => {
   // Check if AI service is available
@@ -25,19 +32,20 @@ export const askCommand: CommandHandler = async ctx => {
     return
   }
 
+  let renderer: TelegramStreamRenderer | undefined
   try {
     // Send typing indicator
     await ctx.replyWithChatAction('typing')
 
-    // Generate response using AI service
-    const response = await ctx.services.ai.complete(prompt, {
-      trackCost: true
-    })
+    // Ground the answer in the knowledge base when one is configured
+    const { request: grounded, citations } = await buildRequest(ctx, prompt)
+
+    // Continue the conversation this user has in this chat
+    const request = await withHistory(ctx, grounded)
 
-    // Format response with provider info
     const providerInfo = ctx.services.ai.getActiveProvider()
-    const formattedResponse =
-      response.content +
+    const footer = (answer: string) =>
+      formatSources(ctx, answer, citations) +
       '\n\n<i>' +
       ctx.i18n.t('ai.general.powered_by', {
         namespace: 'telegram',
@@ -45,14 +53,59 @@ export const askCommand: CommandHandler = async ctx => {
       }) +
       '</i>'
 
-    // Send the AI response
-    await ctx.reply(formattedResponse, {
+    // Stream long answers progressively where the platform allows longer requests
+    const capabilities = ctx.services.ai.getProviderCapabilities()
+    if (capabilities?.streaming && ctx.chat && !isConstrainedEnvironment(constraints)) {
+      renderer = new TelegramStreamRenderer(ctx.api, ctx.chat.id, {
+        placeholder: ctx.i18n.t('ai.general.thinking', { namespace: 'telegram' }),
+        replyToMessageId: ctx.message?.message_id
+      })
+      await renderer.start()
+
+      const stream = ctx.services.ai.stream(request, { trackCost: true })
+      let result
+      while (true) {
+        const { value, done } = await stream.next()
+        if (done) {
+          result = value
+          break
+        }
+        await renderer.append(value)
+      }
+      await renderer.finish(footer(renderer.text))
+
+      await rememberTurn(ctx, prompt, renderer.text)
+      await chargeQuota(ctx, result.cost)
+
+      logger.info('AI query streamed', {
+        userId: ctx.from?.id,
+        promptLength: prompt.length,
+        answerLength: renderer.text.length,
+        citations: citations.length,
+        provider: result.provider,
+        usage: result.usage,
+        cost: result.cost
+      })
+      return
+    }
+
+    // Generate response using AI service
+    const response = await ctx.services.ai.complete(request, {
+      trackCost: true
+    })
+
+    // Send the AI response with sources and provider info
+    await ctx.reply(response.content + footer(response.content), {
       parse_mode: 'HTML'
     })
 
+    await rememberTurn(ctx, prompt, response.content)
+    await chargeQuota(ctx, response.cost)
+
     logger.info('AI query processed', {
       userId: ctx.from?.id,
       promptLength: prompt.length,
+      citations: citations.length,
       provider: response.provider,
       usage: response.usage,
       cost: response.cost
@@ -60,6 +113,103 @@ export const askCommand: CommandHandler = async ctx => {
   } catch (error) {
     logger.error('Error in ask command', { error, userId: ctx.from?.id })
 
-    await ctx.reply(ctx.i18n.t('ai.general.error', { namespace: 'telegram' }))
+    // The error is handled here, so tell the quota middleware to give the use back
+    ctx.commandFailed = true
+    const message = ctx.i18n.t('ai.general.error', { namespace: 'telegram' })
+    // Don't leave the placeholder or a partial answer behind
+    const replaced = await renderer?.fail(message).catch(() => false)
+    if (!replaced) {
+      await ctx.reply(message)
+    }
+  }
+}
+
+async function buildRequest(
+  ctx: BotContext,
+  prompt: string
+): Promise<{ request: string | Message[]; citations: Citation[] }> {
+  const knowledge = ctx.services.knowledge
+  if (!knowledge) {
+    return { request: prompt, citations: [] }
+  }
+
+  try {
+    const chunks = await knowledge.retrieve(prompt)
+    if (chunks.length) {
+      const { messages, citations } = knowledge.buildPrompt(prompt, chunks)
+      return { request: messages, citations }
+    }
+  } catch (error) {
+    logger.warn('Knowledge retrieval failed, answering without context', {
+      error,
+      userId: ctx.from?.id
+    })
   }
+
+  return { request: prompt, citations: [] }
+}
+
+async function withHistory(
+  ctx: BotContext,
+  request: string | Message[]
+): Promise<string | Message[]> {
+  const conversation = ctx.services.conversation
+  const chatId = ctx.chat?.id
+  const userId = ctx.from?.id
+  if (!conversation || !ctx.services.ai || !chatId || !userId) {
+    return request
+  }
+
+  try {
+    const maxContextLength =
+      ctx.services.ai.getProviderCapabilities()?.maxContextLength ?? DEFAULT_CONTEXT_LENGTH
+    return await conversation.buildMessages(chatId, userId, request, maxContextLength)
+  } catch (error) {
+    logger.warn('Failed to load conversation history', { error, userId })
+    return request
+  }
+}
+
+/**
+ * Count the spend against the user's /ask budget
+ */
+async function chargeQuota(ctx: BotContext, cost?: CostEstimate): Promise<void> {
+  if (cost && ctx.from) {
+    await ctx.services.quotas?.charge(String(ctx.from.id), 'ask', cost)
+  }
+}
+
+async function rememberTurn(ctx: BotContext, question: string, answer: string): Promise<void> {
+  const conversation = ctx.services.conversation
+  const chatId = ctx.chat?.id
+  const userId = ctx.from?.id
+  if (!conversation || !chatId || !userId) return
+
+  try {
+    await conversation.addTurn(chatId, userId, question, answer)
+  } catch (error) {
+    logger.warn('Failed to save conversation turn', { error, userId })
+  }
+}
+
+/**
+ * List the sources the answer actually cites
+ */
+function formatSources(ctx: BotContext, answer: string, citations: Citation[]): string {
+  const cited = citations.filter(citation => answer.includes(`[${citation.index}]`))
+  if (!cited.length) return ''
+
+  const lines = cited.map(citation => {
+    const title = escapeHtml(citation.title)
+    return citation.url
+      ? `[${citation.index}] <a href="${escapeHtml(citation.url)}">${title}</a>`
+      : `[${citation.index}] ${title}`
+  })
+
+  return (
+    '\n\n<b>' +
+    ctx.i18n.t('ai.general.sources', { namespace: 'telegram' }) +
+    '</b>\n' +
+    lines.join('\n')
+  )
 }
@@ -2,12 +2,16 @@ import type { Bot, MiddlewareFn } from 'grammy'
 
 // Import all command handlers
 import { createAuthMiddleware } from '../middleware/auth'
+import { createQuotaMiddleware } from '../middleware/quota'
+import { wizardRouter } from '../wizards'
 
 import { askCommand } from './ask'
 import { balanceCommand } from './balance'
 import { batchCommand } from './batch'
 import { helpCommand } from './help'
+import { languageCommand } from './language'
 import { payCommand } from './pay'
+import { resetCommand } from './reset'
 import { settingsCommand } from './settings'
 import { startCommand } from './start'
 import { statsCommand } from './stats'
@@ -15,15 +19,37 @@ import { statsCommand } from './stats'
 import { checklistCommand, tasksCommand, todoCommand } from './checklist'
 import { giftCommand, sendStarsCommand, starsCommand } from './stars'
 // Import role-based commands
-import { requestsCommand } from './admin'
-import { adminCommand, debugCommand, infoCommand } from './owner'
+import { knowledgeCommand, requestsCommand } from './admin'
+import {
+  adminCommand,
+  auditCommand,
+  broadcastCommand,
+  debugCommand,
+  infoCommand,
+  rolesCommand
+} from './owner'
 
 // Import middleware
+import { Permission } from '@/core/interfaces/role-system'
 import { UniversalRoleService } from '@/core/services/role-service'
 import { logger } from '@/lib/logger'
 import type { BotContext } from '@/types'
 // Legacy imports removed - using only universal auth
 
+/**
+ * Privileged commands recorded in the audit log
+ */
+export const AUDITED_COMMANDS = [
+  'info',
+  'admin',
+  'debug',
+  'broadcast',
+  'roles',
+  'audit',
+  'requests',
+  'knowledge'
+]
+
 // Error when role service is not provided
 function createDefaultAuthMiddleware() {
   const errorMiddleware: MiddlewareFn<BotContext> = async () => {
@@ -33,6 +59,7 @@ function createDefaultAuthMiddleware() {
   return {
     requireOwner: errorMiddleware,
     requireAdmin: errorMiddleware,
+    requirePermission: () => errorMiddleware,
     requireAccess: errorMiddleware
   }
 }
@@ -43,6 +70,12 @@ export function setupCommands(bot: Bot<BotContext>, roleService?: UniversalRoleS
   // Create auth middleware factory
   const auth = roleService ? createAuthMiddleware(roleService) : createDefaultAuthMiddleware()
 
+  // Per-command quotas, e.g. daily /ask limits for users
+  bot.use(createQuotaMiddleware())
+
+  // Replies to an active wizard's question go to the wizard, not to other handlers
+  bot.use(wizardRouter.middleware())
+
   // Basic commands
   bot.command('start', startCommand)
   bot.command('help', helpCommand)
@@ -50,9 +83,11 @@ export function setupCommands(bot: Bot<BotContext>, roleService?: UniversalRoleS
   // Feature commands
   bot.command('pay', payCommand)
   bot.command('settings', settingsCommand)
+  bot.command('language', languageCommand)
   bot.command('stats', statsCommand)
   bot.command('balance', balanceCommand)
   bot.command('ask', askCommand)
+  bot.command('reset', resetCommand)
   bot.command('batch', batchCommand)
 
   // Bot API 9.1 commands
@@ -63,13 +98,17 @@ export function setupCommands(bot: Bot<BotContext>, roleService?: UniversalRoleS
   bot.command('gift', giftCommand)
   bot.command('sendstars', sendStarsCommand)
 
-  // Owner commands
-  bot.command('info', auth.requireOwner, infoCommand)
-  bot.command('admin', auth.requireOwner, adminCommand)
-  bot.command('debug', auth.requireOwner, debugCommand)
+  // Owner commands (owners hold every permission; the rest can be granted with /roles)
+  bot.command('info', auth.requirePermission(Permission.BOT_INFO), infoCommand)
+  bot.command('admin', auth.requirePermission(Permission.ADMINS_MANAGE), adminCommand)
+  bot.command('debug', auth.requirePermission(Permission.BOT_DEBUG), debugCommand)
+  bot.command('broadcast', auth.requirePermission(Permission.BROADCAST_SEND), broadcastCommand)
+  bot.command('roles', auth.requirePermission(Permission.ROLES_MANAGE), rolesCommand)
+  bot.command('audit', auth.requirePermission(Permission.AUDIT_VIEW), auditCommand)
 
   // Admin commands
-  bot.command('requests', auth.requireAdmin, requestsCommand)
+  bot.command('requests', auth.requirePermission(Permission.ACCESS_REQUESTS), requestsCommand)
+  bot.command('knowledge', auth.requirePermission(Permission.KNOWLEDGE_MANAGE), knowledgeCommand)
 
   // Set bot commands for menu
   bot.api
@@ -78,9 +117,11 @@ export function setupCommands(bot: Bot<BotContext>, roleService?: UniversalRoleS
       { command: 'help', description: 'Show help message' },
       { command: 'pay', description: 'Make a payment' },
       { command: 'settings', description: 'Bot settings' },
+      { command: 'language', description: 'Choose your language' },
       { command: 'stats', description: 'View statistics' },
       { command: 'balance', description: 'Check balance' },
       { command: 'ask', description: 'Ask AI a question' },
+      { command: 'reset', description: 'Clear the AI conversation' },
       { command: 'batch', description: 'Test request batching' },
       { command: 'checklist', description: '📝 Create a checklist' },
       { command: 'tasks', description: '📋 Manage tasks' },
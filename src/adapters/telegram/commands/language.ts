@@ -0,0 +1,88 @@
+import type { InlineKeyboardMarkup } from 'grammy/types'
+
+import type { Translator } from '@/core/interfaces/i18n'
+import { logger } from '@/lib/logger'
+import type { BotContext, CommandHandler } from '@/types'
+
+export type LanguageChangeResult = 'changed' | 'unavailable' | 'failed'
+
+/**
+ * Shows the language picker, or switches right away with "/language ru"
+ */
+export const languageCommand: CommandHandler = async ctx => {
+  const requested = typeof ctx.match === 'string' ? ctx.match.trim().toLowerCase() : ''
+
+  if (!requested) {
+    await ctx.reply(ctx.i18n.t('language.choose', { namespace: 'telegram' }), {
+      reply_markup: buildLanguageKeyboard(ctx.i18n)
+    })
+    return
+  }
+
+  const result = await changeLanguage(ctx, requested)
+  await ctx.reply(describeLanguageChange(ctx.i18n, result))
+}
+
+/**
+ * One button per loaded language pack, each labelled in its own language.
+ * From the settings menu the choice leads back to settings.
+ */
+export function buildLanguageKeyboard(i18n: Translator, from?: 'settings'): InlineKeyboardMarkup {
+  const rows = i18n.getAvailableLanguages().map(language => [
+    {
+      text: i18n.withLanguage(language).t('language.name', { namespace: 'telegram' }),
+      callback_data: from ? `set_language:${language}:${from}` : `set_language:${language}`
+    }
+  ])
+
+  if (from === 'settings') {
+    rows.push([
+      { text: i18n.t('language.back', { namespace: 'telegram' }), callback_data: 'settings' }
+    ])
+  }
+
+  return { inline_keyboard: rows }
+}
+
+/**
+ * Save the user's language and answer the rest of the update in it
+ */
+export async function changeLanguage(
+  ctx: BotContext,
+  language: string
+): Promise<LanguageChangeResult> {
+  const userId = ctx.from?.id
+  if (!ctx.i18n.getAvailableLanguages().includes(language)) {
+    return 'unavailable'
+  }
+
+  const preferences = ctx.services.userPreferences
+  if (!userId || !preferences) {
+    return 'failed'
+  }
+
+  try {
+    await preferences.setLanguage(String(userId), language)
+  } catch (error) {
+    logger.error('Failed to save language preference', { error, userId, language })
+    return 'failed'
+  }
+
+  ctx.i18n = ctx.i18n.withLanguage(language)
+  logger.info('Language changed', { userId, language })
+  return 'changed'
+}
+
+export function describeLanguageChange(i18n: Translator, result: LanguageChangeResult): string {
+  switch (result) {
+    case 'changed':
+      return i18n.t('language.changed', {
+        namespace: 'telegram',
+        params: { language: i18n.t('language.name', { namespace: 'telegram' }) }
+      })
+    case 'unavailable':
+      return i18n.t('language.unavailable', { namespace: 'telegram' })
+    default:
+      return i18n.t('language.save_error', { namespace: 'telegram' })
+  }
+}
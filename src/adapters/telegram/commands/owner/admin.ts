@@ -5,7 +5,8 @@ import type { CommandHandler } from '@/types'
 
 /**
  * Admin management command for bot owners.
- * Allows adding, removing, and listing administrators.
+ * Allows adding, removing, and listing administrators, and overriding
+ * command quotas for single users.
  */
 export const adminCommand: CommandHandler = async ctx => {
   const args = ctx.match?.toString().trim().split(/\s+/) || []
@@ -24,6 +25,10 @@ export const adminCommand: CommandHandler = async ctx => {
       await handleListAdmins(ctx)
       break
 
+    case 'quota':
+      await handleQuota(ctx, args.slice(1))
+      break
+
     default:
       await showAdminHelp(ctx)
   }
@@ -327,3 +332,121 @@ async function handleListAdmins(ctx: Parameters<CommandHandler>[0]) {
     await ctx.reply(ctx.i18n.t('commands.admin.list_error', { namespace: 'telegram' }))
   }
 }
+
+/**
+ * Shows or overrides a user's command quotas:
+ * /admin quota <user_id> [<command> <requests|-> [budget] | unlimited | default | reset]
+ */
+async function handleQuota(ctx: Parameters<CommandHandler>[0], args: string[]) {
+  const quotas = ctx.services.quotas
+  if (!quotas) {
+    await ctx.reply(ctx.i18n.t('commands.admin.quota_not_configured', { namespace: 'telegram' }))
+    return
+  }
+
+  const [userId, commandArg, value, budgetArg] = args
+  if (!userId || !/^\d+$/.test(userId)) {
+    await ctx.reply(ctx.i18n.t('messages.invalid_user_id', { namespace: 'access' }))
+    return
+  }
+
+  try {
+    if (!commandArg) {
+      await showQuotas(ctx, userId, 'quota_status')
+      return
+    }
+
+    const command = commandArg.replace(/^\//, '').toLowerCase()
+    if (!quotas.getQuota(command)) {
+      await ctx.reply(
+        ctx.i18n.t('commands.admin.quota_unknown_command', {
+          namespace: 'telegram',
+          params: {
+            command,
+            commands: quotas
+              .getCommands()
+              .map(name => `/${name}`)
+              .join(', ')
+          }
+        })
+      )
+      return
+    }
+
+    const setBy = ctx.from?.id?.toString()
+    switch (value?.toLowerCase()) {
+      case 'unlimited':
+        await quotas.setOverride(userId, command, {}, setBy)
+        await showQuotas(ctx, userId, 'quota_set')
+        break
+
+      case 'default':
+        await quotas.clearOverride(userId, command)
+        await showQuotas(ctx, userId, 'quota_cleared')
+        break
+
+      case 'reset':
+        await quotas.resetUsage(userId, command)
+        await showQuotas(ctx, userId, 'quota_reset')
+        break
+
+      default: {
+        // "-" leaves requests unlimited, e.g. "/admin quota 42 ask - 2.50"
+        const requests = value === '-' ? undefined : Number(value)
+        const budget = budgetArg === undefined ? undefined : Number(budgetArg)
+        if (
+          (requests !== undefined && !(Number.isInteger(requests) && requests >= 0)) ||
+          (budget !== undefined && !(budget >= 0))
+        ) {
+          await ctx.reply(ctx.i18n.t('commands.admin.quota_usage', { namespace: 'telegram' }))
+          return
+        }
+
+        await quotas.setOverride(userId, command, { requests, budget }, setBy)
+        await showQuotas(ctx, userId, 'quota_set')
+      }
+    }
+
+    logger.info('Quota override updated', { targetUserId: userId, command, value, setBy })
+  } catch (error) {
+    logger.error('Failed to update quota', { error, userId })
+    await ctx.reply(ctx.i18n.t('commands.admin.quota_error', { namespace: 'telegram' }))
+  }
+}
+
+/**
+ * Replies with a header and the user's usage and limits per quota command
+ */
+async function showQuotas(
+  ctx: Parameters<CommandHandler>[0],
+  userId: string,
+  header: 'quota_status' | 'quota_set' | 'quota_cleared' | 'quota_reset'
+) {
+  const quotas = ctx.services.quotas
+  if (!quotas) return
+
+  const role = (await ctx.roleService?.getUserRole(`telegram_${userId}`)) ?? UserRole.USER
+  const usage = await quotas.getUsage(userId, role)
+
+  const lines = usage.map(quota =>
+    ctx.i18n.t('commands.admin.quota_line', {
+      namespace: 'telegram',
+      params: {
+        command: quota.command,
+        requests: `${quota.requests}/${quota.limit?.requests ?? '∞'}`,
+        spent: `${quota.spent.toFixed(2)}/${quota.limit?.budget?.toFixed(2) ?? '∞'}`,
+        currency: quota.currency,
+        period: ctx.i18n.t(`quota.periods.${quota.period}`, { namespace: 'telegram' }),
+        custom: quota.overridden
+          ? ctx.i18n.t('commands.admin.quota_custom', { namespace: 'telegram' })
+          : ''
+      }
+    })
+  )
+
+  await ctx.reply(
+    ctx.i18n.t(`commands.admin.${header}`, { namespace: 'telegram', params: { userId, role } }) +
+      '\n' +
+      lines.join('\n')
+  )
+}
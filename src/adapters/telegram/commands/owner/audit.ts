@@ -0,0 +1,153 @@
+import { InputFile } from 'grammy'
+
+import type { AuditLogEntry, AuditLogFilter, AuditLogService } from '@/core/interfaces/audit-log'
+import {
+  MAX_AUDIT_QUERY_LIMIT,
+  exportAuditLog,
+  parseAuditFilter
+} from '@/core/services/audit-log-service'
+import { logger } from '@/lib/logger'
+import type { CommandHandler } from '@/types'
+
+type Context = Parameters<CommandHandler>[0]
+
+const FILTER_KEYS = ['user', 'action', 'result', 'from', 'to'] as const
+const LIST_LIMIT = 20
+
+/**
+ * Audit log browser for bot owners:
+ * recent entries, filtered exports and hash-chain verification.
+ */
+export const auditCommand: CommandHandler = async ctx => {
+  const auditLog = ctx.services.audit
+  if (!auditLog) {
+    await ctx.reply(ctx.i18n.t('commands.audit.not_configured', { namespace: 'telegram' }))
+    return
+  }
+
+  const args = ctx.match?.toString().trim().split(/\s+/).filter(Boolean) || []
+  const subCommand = args[0]?.toLowerCase()
+
+  try {
+    switch (subCommand) {
+      case 'verify':
+        await handleVerify(ctx, auditLog)
+        break
+
+      case 'export':
+        await handleExport(ctx, auditLog, args[1]?.toLowerCase(), args.slice(2))
+        break
+
+      case 'help':
+        await ctx.reply(ctx.i18n.t('commands.audit.usage', { namespace: 'telegram' }))
+        break
+
+      default:
+        await handleList(ctx, auditLog, args)
+    }
+  } catch (error) {
+    logger.error('Failed to read audit log', { error, subCommand })
+    await ctx.reply(ctx.i18n.t('commands.audit.error', { namespace: 'telegram' }))
+  }
+}
+
+/**
+ * Filter from "key=value" arguments, or null if one is unknown or invalid
+ */
+function parseFilterArgs(args: string[]): AuditLogFilter | null {
+  const params: Partial<Record<(typeof FILTER_KEYS)[number], string>> = {}
+
+  for (const arg of args) {
+    const [key, value] = arg.split('=', 2) as [string, string | undefined]
+    const known = FILTER_KEYS.find(name => name === key.toLowerCase())
+    if (!known || !value) {
+      return null
+    }
+    params[known] = value
+  }
+
+  return parseAuditFilter(params)
+}
+
+/**
+ * "#12 2025-01-31 14:05 telegram_1 command.roles ✅"
+ */
+function formatEntry(entry: AuditLogEntry): string {
+  const time = entry.createdAt.toISOString().slice(0, 16).replace('T', ' ')
+  const status = entry.result === 'success' ? '✅' : '❌'
+
+  return `#${entry.id} ${time} ${entry.userId ?? '—'} ${entry.action} ${status}`
+}
+
+async function handleList(ctx: Context, auditLog: AuditLogService, args: string[]) {
+  const filter = parseFilterArgs(args)
+  if (!filter) {
+    await ctx.reply(ctx.i18n.t('commands.audit.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  const [entries, total] = await Promise.all([
+    auditLog.query({ ...filter, limit: LIST_LIMIT }),
+    auditLog.count(filter)
+  ])
+
+  if (entries.length === 0) {
+    await ctx.reply(ctx.i18n.t('commands.audit.empty', { namespace: 'telegram' }))
+    return
+  }
+
+  await ctx.reply(
+    ctx.i18n.t('commands.audit.list', {
+      namespace: 'telegram',
+      params: { shown: entries.length, total, entries: entries.map(formatEntry).join('\n') }
+    })
+  )
+}
+
+async function handleExport(
+  ctx: Context,
+  auditLog: AuditLogService,
+  format: string | undefined,
+  args: string[]
+) {
+  const filter = parseFilterArgs(args)
+  if ((format !== 'csv' && format !== 'json') || !filter) {
+    await ctx.reply(ctx.i18n.t('commands.audit.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  const entries = await auditLog.query({ ...filter, limit: MAX_AUDIT_QUERY_LIMIT })
+  if (entries.length === 0) {
+    await ctx.reply(ctx.i18n.t('commands.audit.empty', { namespace: 'telegram' }))
+    return
+  }
+
+  const content = new TextEncoder().encode(exportAuditLog(entries, format))
+  await ctx.replyWithDocument(new InputFile(content, `audit-log.${format}`), {
+    caption: ctx.i18n.t('commands.audit.exported', {
+      namespace: 'telegram',
+      params: { count: entries.length }
+    })
+  })
+}
+
+async function handleVerify(ctx: Context, auditLog: AuditLogService) {
+  const result = await auditLog.verify()
+
+  if (result.valid) {
+    await ctx.reply(
+      ctx.i18n.t('commands.audit.verified', {
+        namespace: 'telegram',
+        params: { checked: result.checked, head: result.head }
+      })
+    )
+    return
+  }
+
+  await ctx.reply(
+    ctx.i18n.t('commands.audit.broken', {
+      namespace: 'telegram',
+      params: { entryId: result.brokenAt ?? '?', checked: result.checked }
+    })
+  )
+}
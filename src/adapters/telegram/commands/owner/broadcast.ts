@@ -0,0 +1,149 @@
+import { formatBroadcastReport } from '@/adapters/telegram/broadcast-transport'
+import { logger } from '@/lib/logger'
+import type { BroadcastContent, BroadcastSegment } from '@/services/broadcast-service'
+import type { CommandHandler } from '@/types'
+
+interface BroadcastRequest {
+  segment: BroadcastSegment
+  scheduledAt?: Date
+  text: string
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+}
+
+/**
+ * Broadcast command for bot owners.
+ * Builds an audience segment from filters, previews the message and creates a
+ * draft that is sent once confirmed. The message is either the text after the
+ * filters or the message the command replies to.
+ *
+ * Example: /broadcast role:user lang:en active:30 tags:beta,vip in:2h Hello!
+ */
+export const broadcastCommand: CommandHandler = async ctx => {
+  const broadcasts = ctx.services.broadcast
+  if (!broadcasts) {
+    await ctx.reply(ctx.i18n.t('commands.broadcast.not_configured', { namespace: 'telegram' }))
+    return
+  }
+
+  const request = parseBroadcastRequest(ctx.match?.toString() ?? '')
+  if (typeof request === 'string') {
+    await ctx.reply(
+      ctx.i18n.t('commands.broadcast.invalid_filter', {
+        namespace: 'telegram',
+        params: { filter: request }
+      })
+    )
+    return
+  }
+
+  const replyTo = ctx.message?.reply_to_message
+  let content: BroadcastContent
+  if (replyTo && ctx.chat) {
+    content = { type: 'copy', chatId: ctx.chat.id, messageId: replyTo.message_id }
+  } else if (request.text) {
+    content = { type: 'text', text: request.text }
+  } else {
+    await ctx.reply(ctx.i18n.t('commands.broadcast.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  try {
+    const broadcast = await broadcasts.create({
+      createdBy: String(ctx.from?.id),
+      content,
+      segment: request.segment,
+      scheduledAt: request.scheduledAt
+    })
+
+    if (broadcast.total === 0) {
+      await broadcasts.cancel(broadcast.id)
+      await ctx.reply(ctx.i18n.t('commands.broadcast.empty_audience', { namespace: 'telegram' }))
+      return
+    }
+
+    // Show the text exactly as recipients will see it; copied messages are their own preview
+    if (content.type === 'text') {
+      await ctx.reply(content.text)
+    }
+
+    const { text, keyboard } = formatBroadcastReport(broadcast, ctx.i18n)
+    await ctx.reply(text, {
+      parse_mode: 'HTML',
+      reply_markup: { inline_keyboard: keyboard }
+    })
+
+    logger.info('Broadcast draft created', {
+      broadcastId: broadcast.id,
+      createdBy: ctx.from?.id,
+      audience: broadcast.total
+    })
+  } catch (error) {
+    logger.error('Failed to create broadcast', { error })
+    await ctx.reply(ctx.i18n.t('commands.broadcast.error', { namespace: 'telegram' }))
+  }
+}
+
+/**
+ * Parse leading key:value filters; everything after them is the message text.
+ * Returns the offending filter when one is invalid.
+ */
+export function parseBroadcastRequest(input: string, now = new Date()): BroadcastRequest | string {
+  const segment: BroadcastSegment = {}
+  let scheduledAt: Date | undefined
+  let rest = input.trim()
+
+  for (;;) {
+    const match = /^(role|lang|access|active|tags|at|in):(\S+)(?:\s+|$)/.exec(rest)
+    if (!match) {
+      break
+    }
+
+    const [token, key, value] = match as unknown as [string, string, string]
+    rest = rest.slice(token.length)
+
+    switch (key) {
+      case 'role':
+        if (value !== 'owner' && value !== 'admin' && value !== 'user') return token.trim()
+        segment.role = value
+        break
+      case 'lang':
+        segment.language = value
+        break
+      case 'access':
+        if (value !== 'yes' && value !== 'no') return token.trim()
+        segment.hasAccess = value === 'yes'
+        break
+      case 'active': {
+        const days = Number(value.replace(/d$/, ''))
+        if (!Number.isInteger(days) || days <= 0) return token.trim()
+        segment.activeWithinDays = days
+        break
+      }
+      case 'tags':
+        segment.tags = value.split(',').filter(Boolean)
+        break
+      case 'at': {
+        // UTC time, e.g. 2030-01-02T09:00
+        const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`)
+        if (isNaN(date.getTime())) return token.trim()
+        scheduledAt = date
+        break
+      }
+      case 'in': {
+        const duration = /^(\d+)([mhd])$/.exec(value)
+        if (!duration) return token.trim()
+        scheduledAt = new Date(
+          now.getTime() + Number(duration[1]) * (DURATION_UNITS[duration[2] as string] as number)
+        )
+        break
+      }
+    }
+  }
+
+  return { segment, scheduledAt, text: rest.trim() }
+}
@@ -1,3 +1,6 @@
 export { adminCommand } from './admin'
+export { auditCommand } from './audit'
+export { broadcastCommand } from './broadcast'
 export { debugCommand } from './debug'
 export { infoCommand } from './info'
+export { rolesCommand } from './roles'
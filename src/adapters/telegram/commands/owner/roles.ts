@@ -0,0 +1,286 @@
+import type { PermissionService, RoleDefinition } from '@/core/interfaces/role-system'
+import { Permission } from '@/core/interfaces/role-system'
+import {
+  RoleManagementError,
+  isValidPermission,
+  matchesPermission
+} from '@/core/services/permission-service'
+import { logger } from '@/lib/logger'
+import type { CommandHandler } from '@/types'
+
+type Context = Parameters<CommandHandler>[0]
+
+/**
+ * Role and permission management for bot owners:
+ * custom roles with permission sets, granted globally or for one chat.
+ */
+export const rolesCommand: CommandHandler = async ctx => {
+  const permissions = ctx.services.permissions
+  if (!permissions) {
+    await ctx.reply(ctx.i18n.t('commands.roles.not_configured', { namespace: 'telegram' }))
+    return
+  }
+
+  const args = ctx.match?.toString().trim().split(/\s+/).filter(Boolean) || []
+  const subCommand = args[0]?.toLowerCase()
+
+  try {
+    switch (subCommand) {
+      case 'list':
+        await handleList(ctx, permissions)
+        break
+
+      case 'create':
+        await handleCreate(ctx, permissions, args[1], args.slice(2).join(' '))
+        break
+
+      case 'delete':
+        await handleDelete(ctx, permissions, args[1])
+        break
+
+      case 'allow':
+      case 'deny':
+        await handlePermissions(ctx, permissions, subCommand, args[1], args.slice(2))
+        break
+
+      case 'grant':
+      case 'revoke':
+        await handleGrant(ctx, permissions, subCommand, args[1], args[2], args[3])
+        break
+
+      case 'user':
+        await handleUser(ctx, permissions, args[1], args[2])
+        break
+
+      case 'permissions':
+        await ctx.reply(
+          ctx.i18n.t('commands.roles.known_permissions', {
+            namespace: 'telegram',
+            params: { permissions: Object.values(Permission).join('\n') }
+          })
+        )
+        break
+
+      default:
+        await ctx.reply(ctx.i18n.t('commands.roles.usage', { namespace: 'telegram' }))
+    }
+  } catch (error) {
+    if (error instanceof RoleManagementError) {
+      await ctx.reply(ctx.i18n.t(`commands.roles.errors.${error.code}`, { namespace: 'telegram' }))
+      return
+    }
+
+    logger.error('Failed to manage roles', { error, subCommand })
+    await ctx.reply(ctx.i18n.t('commands.roles.error', { namespace: 'telegram' }))
+  }
+}
+
+/**
+ * "• name (built-in): a, b" lines for a list of roles
+ */
+function formatRoles(ctx: Context, roles: RoleDefinition[]): string {
+  return roles
+    .map(role => {
+      const flags = role.isSystem
+        ? ctx.i18n.t('commands.roles.system', { namespace: 'telegram' })
+        : ''
+      const permissions = role.permissions.length
+        ? role.permissions.join(', ')
+        : ctx.i18n.t('commands.roles.no_permissions', { namespace: 'telegram' })
+      const description = role.description ? ` — ${role.description}` : ''
+
+      return `• ${role.role}${flags}${description}\n  ${permissions}`
+    })
+    .join('\n')
+}
+
+async function handleList(ctx: Context, permissions: PermissionService) {
+  const roles = await permissions.listRoles()
+
+  await ctx.reply(
+    ctx.i18n.t('commands.roles.list', {
+      namespace: 'telegram',
+      params: { roles: formatRoles(ctx, roles) }
+    })
+  )
+}
+
+async function handleCreate(
+  ctx: Context,
+  permissions: PermissionService,
+  name?: string,
+  description?: string
+) {
+  if (!name) {
+    await ctx.reply(ctx.i18n.t('commands.roles.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  await permissions.createRole(name.toLowerCase(), description || undefined, getActorId(ctx))
+
+  await ctx.reply(
+    ctx.i18n.t('commands.roles.created', { namespace: 'telegram', params: { role: name } })
+  )
+}
+
+async function handleDelete(ctx: Context, permissions: PermissionService, name?: string) {
+  if (!name) {
+    await ctx.reply(ctx.i18n.t('commands.roles.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  await permissions.deleteRole(name.toLowerCase())
+
+  await ctx.reply(
+    ctx.i18n.t('commands.roles.deleted', { namespace: 'telegram', params: { role: name } })
+  )
+}
+
+/**
+ * /roles allow|deny <role> <permission...>
+ */
+async function handlePermissions(
+  ctx: Context,
+  permissions: PermissionService,
+  action: 'allow' | 'deny',
+  name: string | undefined,
+  list: string[]
+) {
+  if (!name || list.length === 0) {
+    await ctx.reply(ctx.i18n.t('commands.roles.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  const role = name.toLowerCase()
+  const changes = list.map(permission => permission.toLowerCase())
+
+  if (action === 'allow') {
+    // Malformed names are left for the service to reject
+    await requireHeld(ctx, permissions, changes.filter(isValidPermission))
+    await permissions.allowPermissions(role, changes)
+  } else {
+    await permissions.denyPermissions(role, changes)
+  }
+
+  const updated = await permissions.getRole(role)
+  await ctx.reply(
+    ctx.i18n.t('commands.roles.updated', {
+      namespace: 'telegram',
+      params: { roles: updated ? formatRoles(ctx, [updated]) : role }
+    })
+  )
+}
+
+/**
+ * /roles grant|revoke <user_id> <role> [chat_id]
+ */
+async function handleGrant(
+  ctx: Context,
+  permissions: PermissionService,
+  action: 'grant' | 'revoke',
+  telegramId?: string,
+  name?: string,
+  chatId?: string
+) {
+  if (!telegramId || !/^\d+$/.test(telegramId)) {
+    await ctx.reply(ctx.i18n.t('messages.invalid_user_id', { namespace: 'access' }))
+    return
+  }
+  if (!name || (chatId !== undefined && !/^-?\d+$/.test(chatId))) {
+    await ctx.reply(ctx.i18n.t('commands.roles.usage', { namespace: 'telegram' }))
+    return
+  }
+
+  const userId = `telegram_${telegramId}`
+  const role = name.toLowerCase()
+  const params = { userId: telegramId, role, chat: formatChat(ctx, chatId ?? null) }
+
+  if (action === 'grant') {
+    const granted = await permissions.getRole(role)
+    await requireHeld(ctx, permissions, granted?.permissions ?? [], chatId)
+    await permissions.grantRole({
+      userId,
+      role,
+      chatId: chatId ?? null,
+      grantedBy: getActorId(ctx)
+    })
+    await ctx.reply(ctx.i18n.t('commands.roles.granted', { namespace: 'telegram', params }))
+    logger.info('Role granted from bot', { ...params, grantedBy: ctx.from?.id })
+    return
+  }
+
+  const revoked = await permissions.revokeRole(userId, role, chatId ?? null)
+  await ctx.reply(
+    ctx.i18n.t(revoked ? 'commands.roles.revoked' : 'commands.roles.grant_not_found', {
+      namespace: 'telegram',
+      params
+    })
+  )
+}
+
+/**
+ * /roles user <user_id> [chat_id] - grants and effective permissions
+ */
+async function handleUser(
+  ctx: Context,
+  permissions: PermissionService,
+  telegramId?: string,
+  chatId?: string
+) {
+  if (!telegramId || !/^\d+$/.test(telegramId)) {
+    await ctx.reply(ctx.i18n.t('messages.invalid_user_id', { namespace: 'access' }))
+    return
+  }
+
+  const userId = `telegram_${telegramId}`
+  const [role, grants, effective] = await Promise.all([
+    ctx.roleService?.getUserRole(userId),
+    permissions.getGrants(userId),
+    permissions.getPermissions(userId, chatId)
+  ])
+
+  const none = ctx.i18n.t('commands.roles.none', { namespace: 'telegram' })
+
+  await ctx.reply(
+    ctx.i18n.t('commands.roles.user', {
+      namespace: 'telegram',
+      params: {
+        userId: telegramId,
+        role: role ?? none,
+        grants: grants.length
+          ? grants.map(grant => `• ${grant.role} (${formatChat(ctx, grant.chatId)})`).join('\n')
+          : none,
+        permissions: effective.length ? effective.join(', ') : none
+      }
+    })
+  )
+}
+
+function formatChat(ctx: Context, chatId: string | null): string {
+  return chatId
+    ? ctx.i18n.t('commands.roles.chat', { namespace: 'telegram', params: { chatId } })
+    : ctx.i18n.t('commands.roles.all_chats', { namespace: 'telegram' })
+}
+
+/**
+ * Role managers may only hand out permissions they hold themselves, so '*'
+ * and roles.manage can't be passed on by someone without them
+ */
+async function requireHeld(
+  ctx: Context,
+  permissions: PermissionService,
+  required: string[],
+  chatId?: string
+) {
+  const actorId = getActorId(ctx)
+  const held = actorId ? await permissions.getPermissions(actorId, chatId) : []
+
+  const missing = required.find(permission => !held.some(h => matchesPermission(h, permission)))
+  if (missing !== undefined) {
+    throw new RoleManagementError(`Permission "${missing}" is not held`, 'permission_not_held')
+  }
+}
+
+function getActorId(ctx: Context): string | undefined {
+  return ctx.from?.id ? `telegram_${ctx.from.id}` : undefined
+}
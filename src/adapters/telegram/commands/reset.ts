@@ -0,0 +1,32 @@
+import { logger } from '@/lib/logger'
+import type { CommandHandler } from '@/types'
+
+/**
+ * Clears the AI conversation the user has in the current chat
+ */
+export const resetCommand: CommandHandler = async ctx => {
+  const conversation = ctx.services.conversation
+  if (!conversation) {
+    await ctx.reply(ctx.i18n.t('commands.reset.not_available', { namespace: 'telegram' }))
+    return
+  }
+
+  const chatId = ctx.chat?.id
+  const userId = ctx.from?.id
+  if (!chatId || !userId) {
+    await ctx.reply(ctx.i18n.t('system.errors.user_identification', { namespace: 'core' }))
+    return
+  }
+
+  try {
+    const cleared = await conversation.reset(chatId, userId)
+    await ctx.reply(
+      ctx.i18n.t(cleared ? 'commands.reset.done' : 'commands.reset.empty', {
+        namespace: 'telegram'
+      })
+    )
+  } catch (error) {
+    logger.error('Error resetting conversation', { error, chatId, userId })
+    await ctx.reply(ctx.i18n.t('commands.reset.error', { namespace: 'telegram' }))
+  }
+}
@@ -14,7 +14,7 @@ export const settingsCommand: CommandHandler = async ctx => {
 
 Configure your bot preferences:
 
-🌐 *Language:* ${escapeMarkdown(ctx.from?.language_code || 'en')}
+🌐 *Language:* ${escapeMarkdown(ctx.i18n.t('language.name', { namespace: 'telegram' }))}
 🔔 *Notifications:* Enabled
 🎨 *Theme:* Default
 
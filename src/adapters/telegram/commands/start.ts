@@ -1,5 +1,7 @@
 import { InlineKeyboard } from 'grammy'
 
+import { encodeCallback } from '@/adapters/telegram/callback-router'
+import { AccessCallbacks } from '@/adapters/telegram/callbacks/access'
 import { logger } from '@/lib/logger'
 import { escapeMarkdown } from '@/lib/telegram-formatter'
 import { getUserService } from '@/services/user-service'
@@ -75,7 +77,7 @@ export const startCommand: CommandHandler = async (ctx): Promise<void> => {
           .text(ctx.i18n.t('status.pending', { namespace: 'access' }), 'access:status')
           .text(
             ctx.i18n.t('buttons.cancel_request', { namespace: 'access' }),
-            `access:cancel:${pendingRequest.id}`
+            await encodeCallback(ctx, AccessCallbacks.cancel, { requestId: pendingRequest.id })
           )
 
         await ctx.reply(message, {
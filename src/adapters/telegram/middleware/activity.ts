@@ -0,0 +1,48 @@
+import type { MiddlewareFn } from 'grammy'
+
+import type { IDatabaseStore } from '@/core/interfaces/storage'
+import { logger } from '@/lib/logger'
+import type { BotContext } from '@/types/telegram'
+
+export interface ActivityMiddlewareOptions {
+  /**
+   * Minimum time between writes for the same user (default 1 hour)
+   */
+  intervalMs?: number
+}
+
+/**
+ * Records when users last talked to the bot and their client language, for
+ * broadcast segments. Talking to the bot also means the user no longer blocks it.
+ */
+export function createActivityMiddleware(
+  db: IDatabaseStore,
+  options: ActivityMiddlewareOptions = {}
+): MiddlewareFn<BotContext> {
+  const intervalMs = options.intervalMs ?? 60 * 60 * 1000
+  // Per-isolate throttle, so that most updates cost no database write
+  const lastWrites = new Map<number, number>()
+
+  return async (ctx, next) => {
+    const userId = ctx.from?.id
+    const now = Date.now()
+
+    if (userId && now - (lastWrites.get(userId) ?? 0) >= intervalMs) {
+      lastWrites.set(userId, now)
+      try {
+        await db
+          .prepare(
+            `UPDATE users
+             SET last_active_at = ?, language_code = COALESCE(?, language_code), blocked_at = NULL
+             WHERE telegram_id = ?`
+          )
+          .bind(new Date(now).toISOString(), ctx.from?.language_code ?? null, userId)
+          .run()
+      } catch (error) {
+        logger.warn('Failed to record user activity', { userId, error })
+      }
+    }
+
+    await next()
+  }
+}
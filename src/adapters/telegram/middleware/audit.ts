@@ -1,118 +1,117 @@
 import type { MiddlewareFn } from 'grammy'
 
-import { EventBus } from '@/core/events/event-bus'
+import type { Event, EventBus } from '@/core/events/event-bus'
+import type { AuditLogFilter, AuditLogService } from '@/core/interfaces/audit-log'
 import type { AuditEvent, AuditPayload, IAuditMiddleware } from '@/core/middleware/interfaces'
+import { getCallbackId } from '@/lib/callback-data'
 import { logger } from '@/lib/logger'
-import type { ExtendedGrammyContext } from '@/types/grammy-extensions'
+import type { CommandData, ExtendedGrammyContext } from '@/types/grammy-extensions'
 import type { BotContext } from '@/types/telegram'
 
+const AUDIT_SOURCE = 'telegram-audit'
+
 /**
- * Telegram-specific audit middleware implementation
+ * Telegram-specific audit middleware implementation.
+ * Entries go to the D1 audit log; audit events emitted by other components
+ * are recorded there as well.
  */
 export class TelegramAuditMiddleware implements IAuditMiddleware {
-  private auditEvents: AuditEvent[] = []
-
   constructor(
     private eventBus: EventBus,
-    private storage?: KVNamespace,
-    private maxMemoryEvents: number = 1000
+    private auditLog?: AuditLogService
   ) {
-    // Listen for audit events from other parts of the system
-    this.eventBus.on('audit.action', event => this.handleAuditEvent(event as AuditEvent))
-    this.eventBus.on('audit.access', event => this.handleAuditEvent(event as AuditEvent))
-    this.eventBus.on('audit.error', event => this.handleAuditEvent(event as AuditEvent))
+    this.eventBus.on('audit.action', event => this.handleAuditEvent(event))
+    this.eventBus.on('audit.access', event => this.handleAuditEvent(event))
+    this.eventBus.on('audit.error', event => this.handleAuditEvent(event))
   }
 
-  private async handleAuditEvent(event: AuditEvent): Promise<void> {
-    // Store in memory (limited)
-    this.auditEvents.push(event)
-    if (this.auditEvents.length > this.maxMemoryEvents) {
-      this.auditEvents.shift()
+  private async handleAuditEvent(event: Event): Promise<void> {
+    // Our own events are already stored by log()
+    if (event.source === AUDIT_SOURCE) {
+      return
     }
 
-    // Store in KV if available
-    if (this.storage) {
-      try {
-        const key = `audit:${event.timestamp}:${event.payload.userId || 'system'}`
-        await this.storage.put(key, JSON.stringify(event), {
-          expirationTtl: 30 * 24 * 60 * 60 // 30 days
-        })
-      } catch (error) {
-        logger.error('Failed to store audit event', { error, event })
-      }
-    }
+    await this.append(event.payload as AuditPayload, event.source)
   }
 
-  async log(payload: AuditPayload): Promise<void> {
-    const event: AuditEvent = {
-      type: 'audit.action',
-      payload,
-      source: 'telegram-audit',
-      timestamp: Date.now()
+  private async append(payload: AuditPayload, source: string): Promise<void> {
+    if (!this.auditLog) {
+      return
     }
 
-    this.eventBus.emit(event.type, event, event.source)
+    try {
+      await this.auditLog.append({ ...payload, source })
+    } catch (error) {
+      logger.error('Failed to store audit event', { error, action: payload.action })
+    }
+  }
+
+  async log(payload: AuditPayload): Promise<void> {
+    await this.append(payload, AUDIT_SOURCE)
+    this.eventBus.emit('audit.action', payload, AUDIT_SOURCE)
   }
 
   async getUserAuditTrail(userId: string, limit: number = 50): Promise<AuditEvent[]> {
-    // First check memory
-    const memoryEvents = this.auditEvents.filter(e => e.payload.userId === userId).slice(-limit)
+    return this.getTrail({ userId, limit })
+  }
+
+  async getResourceAuditTrail(resource: string, limit: number = 50): Promise<AuditEvent[]> {
+    return this.getTrail({ resource, limit })
+  }
 
-    if (!this.storage || memoryEvents.length >= limit) {
-      return memoryEvents
+  private async getTrail(filter: AuditLogFilter): Promise<AuditEvent[]> {
+    if (!this.auditLog) {
+      return []
     }
 
-    // Check storage for more events
     try {
-      const prefix = `audit:`
-      const list = await this.storage.list({ prefix })
-      const events: AuditEvent[] = []
-
-      for (const key of list.keys) {
-        if (key.name.includes(userId)) {
-          const data = (await this.storage.get(key.name, 'json')) as AuditEvent
-          if (data && data.payload.userId === userId) {
-            events.push(data)
-          }
-        }
-        if (events.length >= limit) break
-      }
-
-      return events.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit)
+      const entries = await this.auditLog.query(filter)
+      return entries.map(entry => ({
+        type: entry.result === 'failure' ? 'audit.error' : 'audit.action',
+        payload: {
+          action: entry.action,
+          userId: entry.userId,
+          resource: entry.resource,
+          result: entry.result,
+          metadata: entry.metadata
+        },
+        source: entry.source ?? AUDIT_SOURCE,
+        timestamp: entry.createdAt.getTime()
+      }))
     } catch (error) {
-      logger.error('Failed to retrieve user audit trail', { error, userId })
-      return memoryEvents
+      logger.error('Failed to retrieve audit trail', { error, filter })
+      return []
     }
   }
+}
 
-  async getResourceAuditTrail(resource: string, limit: number = 50): Promise<AuditEvent[]> {
-    // First check memory
-    const memoryEvents = this.auditEvents.filter(e => e.payload.resource === resource).slice(-limit)
+/**
+ * Command of the current update: the one set by a command handler, or
+ * the leading /command of the message text
+ */
+function getCommand(ctx: BotContext & ExtendedGrammyContext): CommandData | undefined {
+  if (ctx.command) {
+    return ctx.command
+  }
 
-    if (!this.storage || memoryEvents.length >= limit) {
-      return memoryEvents
-    }
+  const match = ctx.message?.text?.match(/^\/([a-z0-9_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i)
+  if (!match?.[1]) {
+    return undefined
+  }
 
-    // Check storage for more events
-    try {
-      const prefix = `audit:`
-      const list = await this.storage.list({ prefix })
-      const events: AuditEvent[] = []
-
-      for (const key of list.keys) {
-        const data = (await this.storage.get(key.name, 'json')) as AuditEvent
-        if (data && data.payload.resource === resource) {
-          events.push(data)
-        }
-        if (events.length >= limit) break
-      }
+  return { command: match[1].toLowerCase(), args: match[2]?.trim() ?? '', match }
+}
 
-      return events.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit)
-    } catch (error) {
-      logger.error('Failed to retrieve resource audit trail', { error, resource })
-      return memoryEvents
-    }
+/**
+ * Button of the current update: the id of a signed callback (acc.approve) or
+ * the action of a plain one (broadcast:pause:<id> -> broadcast.pause)
+ */
+function getCallbackAction(data?: string): string | undefined {
+  if (!data) {
+    return undefined
   }
+
+  return getCallbackId(data) ?? data.split(':').slice(0, 2).join('.')
 }
 
 /**
@@ -124,11 +123,46 @@ export function createAuditMiddleware(
     logCommands?: boolean
     logErrors?: boolean
     logAccess?: boolean
+    /** Only audit these commands (and errors raised by them) */
+    commands?: string[]
+    /** Only audit these buttons: callback ids, or prefixes such as 'broadcast' */
+    callbacks?: string[]
   }
 ): MiddlewareFn<BotContext> {
-  const { logCommands = true, logErrors = true, logAccess = false } = options || {}
+  const {
+    logCommands = true,
+    logErrors = true,
+    logAccess = false,
+    commands,
+    callbacks
+  } = options || {}
+  const auditedCommands = new Set(commands)
+  const isAuditedCallback = (action: string) =>
+    callbacks?.some(name => action === name || action.startsWith(`${name}.`)) ?? false
+  const filtered = commands !== undefined || callbacks !== undefined
 
   return async (ctx: BotContext & ExtendedGrammyContext, next) => {
+    const callback = getCallbackAction(ctx.callbackQuery?.data)
+    const command = callback ? undefined : getCommand(ctx)
+    const audited = callback
+      ? isAuditedCallback(callback)
+      : command !== undefined && auditedCommands.has(command.command)
+    if (filtered && !audited) {
+      return next()
+    }
+
+    const target = command
+      ? {
+          action: `command.${command.command}`,
+          metadata: { command: command.command, args: command.args }
+        }
+      : callback
+        ? {
+            action: `callback.${callback}`,
+            metadata: { callback, data: ctx.callbackQuery?.data }
+          }
+        : undefined
+
     const startTime = Date.now()
     const userId = ctx.from?.id ? `telegram_${ctx.from.id}` : undefined
 
@@ -149,17 +183,17 @@ export function createAuditMiddleware(
     try {
       await next()
 
-      // Log command execution
-      if (logCommands && ctx.command) {
+      // Log command execution; refusals and handled errors don't throw
+      if (logCommands && target) {
         const duration = Date.now() - startTime
         await auditMiddleware.log({
-          action: `command.${ctx.command.command}`,
+          action: target.action,
           userId,
           resource: 'telegram_bot',
-          result: 'success',
+          result: ctx.deniedPermission || ctx.commandFailed ? 'failure' : 'success',
           metadata: {
-            command: ctx.command.command,
-            args: ctx.command.args,
+            ...target.metadata,
+            ...(ctx.deniedPermission && { deniedPermission: ctx.deniedPermission }),
             duration,
             chatId: ctx.chat?.id
           }
@@ -171,7 +205,7 @@ export function createAuditMiddleware(
       // Log error
       if (logErrors) {
         await auditMiddleware.log({
-          action: ctx.command ? `command.${ctx.command.command}` : 'message',
+          action: target?.action ?? 'message',
           userId,
           resource: 'telegram_bot',
           result: 'failure',
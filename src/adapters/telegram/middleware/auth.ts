@@ -1,10 +1,33 @@
 import type { MiddlewareFn } from 'grammy'
 
 import type { RoleService } from '@/core/interfaces/role-system'
+import { DEFAULT_ROLE_PERMISSIONS, matchesPermission } from '@/core/services/permission-service'
 import { hasDatabase } from '@/lib/env-guards'
 import { logger } from '@/lib/logger'
 import type { BotContext } from '@/types'
 
+/**
+ * Check a permission for the user of the update, in the current chat.
+ * Without a permission service the built-in roles keep their default permissions.
+ */
+export async function checkPermission(
+  ctx: BotContext,
+  permission: string,
+  roleService: RoleService | undefined = ctx.roleService
+): Promise<boolean> {
+  const telegramId = ctx.from?.id
+  if (!telegramId) return false
+
+  const userId = `telegram_${telegramId}`
+  const permissions = ctx.services?.permissions
+  if (permissions) {
+    return await permissions.hasPermission(userId, permission, ctx.chat?.id?.toString())
+  }
+
+  const role = await roleService?.getUserRole(userId)
+  return !!role && DEFAULT_ROLE_PERMISSIONS[role].some(held => matchesPermission(held, permission))
+}
+
 /**
  * Universal auth middleware that works with the new role system
  */
@@ -130,6 +153,30 @@ export function createAuthMiddleware(roleService: RoleService) {
     await next()
   }
 
+  /**
+   * Middleware that requires a permission, e.g. requirePermission('broadcast.send')
+   */
+  const requirePermission =
+    (permission: string): MiddlewareFn<BotContext> =>
+    async (ctx, next) => {
+      if (!(await checkPermission(ctx, permission, roleService))) {
+        ctx.deniedPermission = permission
+        logger.info('Unauthorized command access', {
+          userId: ctx.from?.id,
+          username: ctx.from?.username,
+          command: ctx.message?.text,
+          requiredPermission: permission
+        })
+
+        if (await isDebugEnabled(ctx, 2)) {
+          await ctx.reply(ctx.i18n.t('messages.permission_denied', { namespace: 'access' }))
+        }
+        return
+      }
+
+      await next()
+    }
+
   /**
    * Middleware that requires user access
    */
@@ -162,6 +209,7 @@ export function createAuthMiddleware(roleService: RoleService) {
     isDebugEnabled,
     requireOwner,
     requireAdmin,
+    requirePermission,
     requireAccess
   }
 }
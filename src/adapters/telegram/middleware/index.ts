@@ -3,8 +3,11 @@
  * These implement the universal middleware interfaces for Telegram platform
  */
 
+export { createActivityMiddleware } from './activity'
 export { TelegramAuditMiddleware, createAuditMiddleware, createTelegramAuditLogger } from './audit'
 export { createAuthMiddleware } from './auth'
+export { createLanguageMiddleware } from './language'
+export { createQuotaMiddleware } from './quota'
 export { TelegramRateLimiter, createRateLimitMiddleware, telegramRateLimits } from './rate-limiter'
 
 // Re-export types for convenience
@@ -0,0 +1,33 @@
+import type { MiddlewareFn } from 'grammy'
+
+import type { I18nConnector, Translator } from '@/core/interfaces/i18n'
+import { logger } from '@/lib/logger'
+import type { BotContext } from '@/types/telegram'
+
+/**
+ * Gives each update its own translator, in the language the user picked
+ * with /language or else the closest pack to their Telegram client language.
+ * Must run after the services are attached to the context.
+ */
+export function createLanguageMiddleware(i18n: I18nConnector): MiddlewareFn<BotContext> {
+  return async (ctx, next) => {
+    ctx.i18n = await resolveTranslator(i18n, ctx)
+    await next()
+  }
+}
+
+async function resolveTranslator(i18n: I18nConnector, ctx: BotContext): Promise<Translator> {
+  const userId = ctx.from?.id
+  let preferred: string | null = null
+
+  if (userId && ctx.services?.userPreferences) {
+    try {
+      preferred = await ctx.services.userPreferences.getLanguage(String(userId))
+    } catch (error) {
+      // Fall back to the client language rather than failing the update
+      logger.warn('Failed to load language preference', { error, userId })
+    }
+  }
+
+  return i18n.createTranslator(i18n.negotiateLanguage([preferred, ctx.from?.language_code]))
+}
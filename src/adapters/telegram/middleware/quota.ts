@@ -0,0 +1,109 @@
+import type { MiddlewareFn } from 'grammy'
+
+import { checkPermission } from './auth'
+
+import type { Translator } from '@/core/interfaces/i18n'
+import { Permission, UserRole } from '@/core/interfaces/role-system'
+import { logger } from '@/lib/logger'
+import type { BotContext } from '@/types/telegram'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * Enforces command quotas (see QuotaService) before the command runs.
+ * A use is counted up front and given back if the command throws or sets
+ * ctx.commandFailed.
+ */
+export function createQuotaMiddleware(): MiddlewareFn<BotContext> {
+  return async (ctx, next) => {
+    const quotas = ctx.services?.quotas
+    const command = getCommandName(ctx.message?.text)
+    const telegramId = ctx.from?.id
+
+    if (!quotas || !command || !telegramId || !quotas.getQuota(command)) {
+      await next()
+      return
+    }
+
+    const userId = String(telegramId)
+    let counted = false
+
+    try {
+      const role = (await ctx.roleService?.getUserRole(`telegram_${telegramId}`)) ?? UserRole.USER
+      // Holders of ai.unlimited are not counted at all
+      const decision = (await checkPermission(ctx, Permission.AI_UNLIMITED))
+        ? ({ allowed: true, limit: null } as const)
+        : await quotas.consume(userId, command, role)
+
+      if (!decision.allowed) {
+        const period = quotas.getQuota(command)?.period ?? 'day'
+        await ctx.reply(
+          ctx.i18n.t(`quota.exceeded_${decision.reason}`, {
+            namespace: 'telegram',
+            params: {
+              command,
+              limit: decision.limit.requests ?? '',
+              period: ctx.i18n.t(`quota.periods.${period}`, { namespace: 'telegram' }),
+              resetIn: formatResetIn(ctx.i18n, decision.resetAt.getTime() - Date.now())
+            }
+          })
+        )
+
+        logger.info('Command quota exceeded', { userId, command, role, reason: decision.reason })
+        return
+      }
+
+      counted = decision.limit !== null
+    } catch (error) {
+      // Quotas must not take commands down with them
+      logger.error('Failed to check command quota', { error, userId, command })
+    }
+
+    const refund = async () => {
+      if (!counted) return
+      await quotas.refund(userId, command).catch(refundError => {
+        logger.warn('Failed to refund command quota', { error: refundError, userId, command })
+      })
+    }
+
+    try {
+      await next()
+    } catch (error) {
+      await refund()
+      throw error
+    }
+
+    if (ctx.commandFailed) {
+      await refund()
+    }
+  }
+}
+
+/**
+ * "/ask@my_bot question" -> "ask"
+ */
+function getCommandName(text?: string): string | undefined {
+  return /^\/([a-z0-9_]+)(?:@\w+)?(?:\s|$)/i.exec(text ?? '')?.[1]?.toLowerCase()
+}
+
+/**
+ * Two largest units, e.g. "3 h 20 min"
+ */
+function formatResetIn(i18n: Translator, ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / MINUTE_MS))
+  const parts = [
+    { key: 'days', count: Math.floor((minutes * MINUTE_MS) / DAY_MS) },
+    { key: 'hours', count: Math.floor(((minutes * MINUTE_MS) % DAY_MS) / HOUR_MS) },
+    { key: 'minutes', count: minutes % 60 }
+  ]
+    .filter(part => part.count > 0)
+    .slice(0, 2)
+
+  return parts
+    .map(part =>
+      i18n.t(`quota.duration.${part.key}`, { namespace: 'telegram', params: { count: part.count } })
+    )
+    .join(' ')
+}
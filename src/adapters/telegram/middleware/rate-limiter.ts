@@ -2,26 +2,38 @@ import type { MiddlewareFn } from 'grammy'
 
 import { EventBus } from '@/core/events/event-bus'
 import type { IRateLimiter, MiddlewareContext, RateLimitResult } from '@/core/middleware/interfaces'
+import type { RateLimitAlgorithm, RateLimitRule, RateLimitStore } from '@/core/rate-limit'
+import { KVRateLimitStore } from '@/core/rate-limit'
 import { logger } from '@/lib/logger'
 import type { ExtendedGrammyContext } from '@/types/grammy-extensions'
 import type { BotContext } from '@/types/telegram'
 
 /**
- * Telegram-specific rate limiter implementation
+ * Telegram-specific rate limiter implementation.
+ * Accepts a rate limit store (see createRateLimitStore) or, as before, a bare
+ * KV namespace.
  */
 export class TelegramRateLimiter implements IRateLimiter {
+  private store?: RateLimitStore
+  private rule: RateLimitRule
+
   constructor(
-    private kv: KVNamespace | undefined,
+    storage: RateLimitStore | KVNamespace | undefined,
     private eventBus: EventBus,
     private windowMs: number = 60000,
-    private maxRequests: number = 20
-  ) {}
+    private maxRequests: number = 20,
+    algorithm: RateLimitAlgorithm = 'fixed-window'
+  ) {
+    this.store =
+      storage && 'consume' in storage ? storage : storage && new KVRateLimitStore(storage)
+    this.rule = { algorithm, limit: maxRequests, windowMs }
+  }
 
   async checkLimit(context: MiddlewareContext, key?: string): Promise<RateLimitResult> {
     const limitKey = key || `rate_limit:${context.platform}_${context.userId}`
 
-    if (!this.kv) {
-      // If no KV storage, allow all requests
+    if (!this.store) {
+      // If no storage, allow all requests
       return {
         allowed: true,
         limit: this.maxRequests,
@@ -31,31 +43,16 @@ export class TelegramRateLimiter implements IRateLimiter {
     }
 
     try {
-      const rateLimitData = (await this.kv.get(limitKey, 'json')) as {
-        count: number
-        resetAt: number
-      } | null
-
-      const now = Date.now()
-      let count = 0
-      let resetAt = now + this.windowMs
-
-      if (rateLimitData && rateLimitData.resetAt > now) {
-        count = rateLimitData.count
-        resetAt = rateLimitData.resetAt
-      }
+      const decision = await this.store.consume(limitKey, this.rule)
 
-      const allowed = count < this.maxRequests
-      const remaining = Math.max(0, this.maxRequests - count)
-
-      if (!allowed) {
+      if (!decision.allowed) {
         this.eventBus.emit(
           'rate-limit.exceeded',
           {
             platform: context.platform,
             userId: context.userId,
             key: limitKey,
-            count,
+            count: decision.count,
             limit: this.maxRequests,
             metadata: context.metadata
           },
@@ -63,19 +60,11 @@ export class TelegramRateLimiter implements IRateLimiter {
         )
       }
 
-      // Update count if allowed
-      if (allowed) {
-        count++
-        await this.kv.put(limitKey, JSON.stringify({ count, resetAt }), {
-          expirationTtl: Math.ceil(this.windowMs / 1000)
-        })
-      }
-
       return {
-        allowed,
+        allowed: decision.allowed,
         limit: this.maxRequests,
-        remaining: remaining - (allowed ? 1 : 0),
-        resetAt: new Date(resetAt)
+        remaining: decision.remaining,
+        resetAt: new Date(decision.allowed ? decision.resetAt : Date.now() + decision.retryAfterMs)
       }
     } catch (error) {
       logger.error('Telegram rate limiter error', { error, key: limitKey })
@@ -90,10 +79,10 @@ export class TelegramRateLimiter implements IRateLimiter {
   }
 
   async resetLimit(key: string): Promise<void> {
-    if (!this.kv) return
+    if (!this.store) return
 
     try {
-      await this.kv.delete(key)
+      await this.store.reset(key)
       this.eventBus.emit('rate-limit.reset', { key }, 'telegram-rate-limiter')
     } catch (error) {
       logger.error('Failed to reset rate limit', { error, key })
@@ -165,15 +154,15 @@ export function createRateLimitMiddleware(
  * Preset rate limit configurations
  */
 export const telegramRateLimits = {
-  strict: (kv: KVNamespace | undefined, eventBus: EventBus) =>
-    new TelegramRateLimiter(kv, eventBus, 60000, 10),
+  strict: (storage: RateLimitStore | KVNamespace | undefined, eventBus: EventBus) =>
+    new TelegramRateLimiter(storage, eventBus, 60000, 10),
 
-  standard: (kv: KVNamespace | undefined, eventBus: EventBus) =>
-    new TelegramRateLimiter(kv, eventBus, 60000, 30),
+  standard: (storage: RateLimitStore | KVNamespace | undefined, eventBus: EventBus) =>
+    new TelegramRateLimiter(storage, eventBus, 60000, 30),
 
-  relaxed: (kv: KVNamespace | undefined, eventBus: EventBus) =>
-    new TelegramRateLimiter(kv, eventBus, 60000, 60),
+  relaxed: (storage: RateLimitStore | KVNamespace | undefined, eventBus: EventBus) =>
+    new TelegramRateLimiter(storage, eventBus, 60000, 60),
 
-  commands: (kv: KVNamespace | undefined, eventBus: EventBus) =>
-    new TelegramRateLimiter(kv, eventBus, 300000, 50) // 5 minutes, 50 commands
+  commands: (storage: RateLimitStore | KVNamespace | undefined, eventBus: EventBus) =>
+    new TelegramRateLimiter(storage, eventBus, 300000, 50) // 5 minutes, 50 commands
 }
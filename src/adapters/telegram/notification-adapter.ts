@@ -12,6 +12,7 @@ import type { INotificationAdapter, NotificationTemplate } from '../../core/inte
 interface TelegramError extends Error {
   error_code?: number
   description?: string
+  parameters?: { retry_after?: number }
 }
 
 interface TelegramButton {
@@ -195,6 +196,11 @@ export class TelegramNotificationAdapter implements INotificationAdapter {
     return !nonRetryableErrors.includes(errorCode)
   }
 
+  getRetryAfter(error: unknown): number | undefined {
+    const retryAfter = (error as TelegramError).parameters?.retry_after
+    return retryAfter ? retryAfter * 1000 : undefined
+  }
+
   private convertToTelegramKeyboard(keyboard: TelegramButton[][]): InlineKeyboardButton[][] {
     return keyboard.map(row =>
       row.map(button => {
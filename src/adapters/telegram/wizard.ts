@@ -0,0 +1,332 @@
+/**
+ * Multi-step forms ("wizards") on top of SessionService
+ *
+ * A wizard is a list of named steps, each asking one question and validating
+ * the text reply with a zod schema. Progress is kept in the user's session,
+ * so a flow survives Worker restarts and continues on whichever isolate
+ * receives the next message.
+ *
+ * @example
+ * const createProduct = new Wizard('product.create')
+ *   .step('title', { prompt: ctx => ctx.i18n.t(...), schema: z.string().min(3) })
+ *   .step('price', { prompt: ctx => ctx.i18n.t(...), schema: z.coerce.number().positive() })
+ *   .onComplete(async (ctx, { title, price }) => { ... })
+ *
+ * wizardRouter.register(createProduct)
+ * bot.command('newproduct', ctx => createProduct.enter(ctx))
+ */
+
+import type { MiddlewareFn } from 'grammy'
+import { InlineKeyboard } from 'grammy'
+import { z } from 'zod'
+
+import { CallbackRouter, encodeCallback } from '@/adapters/telegram/callback-router'
+import { defineCallback, getCallbackId } from '@/lib/callback-data'
+import { logger } from '@/lib/logger'
+import type { UserSession } from '@/services/session-service'
+import type { BotContext } from '@/types'
+
+/** Inactivity timeout of a wizard (seconds) */
+export const DEFAULT_WIZARD_TIMEOUT = 15 * 60
+
+const WIZARD_ID_PATTERN = /^[a-z][a-z0-9_.-]*$/i
+const SESSION_KEY = 'wizard'
+const IDLE_STEP = 'initial'
+/** KV rejects shorter expiration TTLs (seconds) */
+const MIN_SESSION_TTL = 60
+
+/**
+ * Back and cancel buttons under each question
+ */
+export const WizardCallbacks = {
+  nav: defineCallback('wiz', z.object({ wizard: z.string(), action: z.enum(['back', 'cancel']) }))
+}
+
+type WizardValues = Record<string, unknown>
+
+type WizardText<Data> = (ctx: BotContext, data: Partial<Data>) => string | Promise<string>
+
+export interface WizardStepOptions<S extends z.ZodType, Data> {
+  /** Question sent when the step starts; gets the answers so far */
+  prompt: WizardText<Data>
+  /** Validates the reply text; use z.coerce for numbers and dates */
+  schema: S
+  /** Reply to rejected input, defaults to wizard.invalid */
+  invalid?: (ctx: BotContext, message: string) => string | Promise<string>
+}
+
+interface WizardStep {
+  name: string
+  prompt: WizardText<WizardValues>
+  schema: z.ZodType
+  invalid?: (ctx: BotContext, message: string) => string | Promise<string>
+}
+
+/**
+ * Progress stored in session.data.wizard
+ */
+export interface WizardState {
+  id: string
+  step: number
+  /** Parsed answers by step name; must survive JSON */
+  values: WizardValues
+  expiresAt: number
+}
+
+export class Wizard<Data extends WizardValues = Record<never, never>> {
+  readonly steps: WizardStep[] = []
+  /** Seconds without an answer before the wizard is dropped */
+  readonly timeout: number
+  private completeHandler?: (ctx: BotContext, data: Data) => Promise<void>
+  private cancelHandler?: (ctx: BotContext) => Promise<void>
+
+  constructor(
+    readonly id: string,
+    options: { timeout?: number } = {}
+  ) {
+    if (!WIZARD_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid wizard id "${id}"`)
+    }
+    this.timeout = options.timeout ?? DEFAULT_WIZARD_TIMEOUT
+  }
+
+  step<K extends string, S extends z.ZodType>(
+    name: K,
+    options: WizardStepOptions<S, Data>
+  ): Wizard<Data & Record<K, z.output<S>>> {
+    if (this.steps.some(step => step.name === name)) {
+      throw new Error(`Wizard ${this.id} already has a step "${name}"`)
+    }
+
+    this.steps.push({ name, ...options } as WizardStep)
+    return this as unknown as Wizard<Data & Record<K, z.output<S>>>
+  }
+
+  /**
+   * Runs with all answers once the last step is valid
+   */
+  onComplete(handler: (ctx: BotContext, data: Data) => Promise<void>): this {
+    this.completeHandler = handler
+    return this
+  }
+
+  /**
+   * Runs after the default "cancelled" reply
+   */
+  onCancel(handler: (ctx: BotContext) => Promise<void>): this {
+    this.cancelHandler = handler
+    return this
+  }
+
+  /**
+   * Start the wizard, or repeat the current question if it is already running
+   */
+  async enter(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id
+    if (!userId) {
+      return
+    }
+    if (this.steps.length === 0) {
+      throw new Error(`Wizard ${this.id} has no steps`)
+    }
+
+    const current = getWizardState(ctx)
+    const state: WizardState =
+      current?.id === this.id && current.expiresAt > Date.now()
+        ? current
+        : { id: this.id, step: 0, values: {}, expiresAt: 0 }
+
+    await this.show(ctx, userId, state)
+  }
+
+  /** @internal Called by WizardRouter */
+  async handleInput(ctx: BotContext, userId: number, state: WizardState, text: string) {
+    const step = this.steps[state.step]
+    if (!step) {
+      await saveWizardState(ctx, userId, null)
+      return
+    }
+
+    const parsed = step.schema.safeParse(text)
+    if (!parsed.success) {
+      const message = parsed.error.issues[0]?.message ?? ''
+      await ctx.reply(
+        step.invalid
+          ? await step.invalid(ctx, message)
+          : ctx.i18n.t('wizard.invalid', { namespace: 'telegram' })
+      )
+      return
+    }
+
+    const values = { ...state.values, [step.name]: parsed.data }
+    if (state.step + 1 < this.steps.length) {
+      await this.show(ctx, userId, { ...state, step: state.step + 1, values })
+      return
+    }
+
+    await saveWizardState(ctx, userId, null)
+    logger.info('Wizard completed', { wizard: this.id, userId })
+    await this.completeHandler?.(ctx, values as Data)
+  }
+
+  /** @internal Called by WizardRouter */
+  async back(ctx: BotContext, userId: number, state: WizardState) {
+    const step = Math.max(0, state.step - 1)
+    const values = { ...state.values }
+    delete values[this.steps[step]?.name ?? '']
+
+    await this.show(ctx, userId, { ...state, step, values })
+  }
+
+  /** @internal Called by WizardRouter */
+  async cancel(ctx: BotContext, userId: number) {
+    await saveWizardState(ctx, userId, null)
+    await ctx.reply(ctx.i18n.t('wizard.cancelled', { namespace: 'telegram' }))
+    await this.cancelHandler?.(ctx)
+  }
+
+  /**
+   * Persist the state with a fresh timeout and ask the step's question
+   */
+  private async show(ctx: BotContext, userId: number, state: WizardState) {
+    const step = this.steps[state.step]
+    if (!step) {
+      return
+    }
+
+    await saveWizardState(ctx, userId, { ...state, expiresAt: Date.now() + this.timeout * 1000 })
+
+    const keyboard = new InlineKeyboard()
+    if (state.step > 0) {
+      keyboard.text(
+        ctx.i18n.t('wizard.back', { namespace: 'telegram' }),
+        await encodeCallback(ctx, WizardCallbacks.nav, { wizard: this.id, action: 'back' })
+      )
+    }
+    keyboard.text(
+      ctx.i18n.t('wizard.cancel', { namespace: 'telegram' }),
+      await encodeCallback(ctx, WizardCallbacks.nav, { wizard: this.id, action: 'cancel' })
+    )
+
+    await ctx.reply(await step.prompt(ctx, state.values as Partial<Data>), {
+      reply_markup: keyboard
+    })
+  }
+}
+
+/**
+ * Feeds text replies and back/cancel buttons to the user's active wizard.
+ * Register it before commands; other commands still work mid-wizard.
+ */
+export class WizardRouter {
+  private wizards = new Map<string, Wizard<WizardValues>>()
+  private callbacks = new CallbackRouter().on(WizardCallbacks.nav, (ctx, payload) =>
+    this.navigate(ctx, payload.wizard, payload.action)
+  )
+
+  register(...wizards: Wizard<WizardValues>[]): this {
+    for (const wizard of wizards) {
+      if (this.wizards.has(wizard.id)) {
+        throw new Error(`Wizard ${wizard.id} is already registered`)
+      }
+      this.wizards.set(wizard.id, wizard)
+    }
+    return this
+  }
+
+  middleware(): MiddlewareFn<BotContext> {
+    const callbacks = this.callbacks.middleware()
+
+    return async (ctx, next) => {
+      if (getCallbackId(ctx.callbackQuery?.data) === WizardCallbacks.nav.id) {
+        await callbacks(ctx, next)
+        return
+      }
+
+      const userId = ctx.from?.id
+      const text = ctx.message?.text
+      const state = getWizardState(ctx)
+      if (!userId || text === undefined || !state) {
+        await next()
+        return
+      }
+
+      const wizard = this.wizards.get(state.id)
+      if (!wizard) {
+        // Removed in a later deploy
+        await saveWizardState(ctx, userId, null)
+        await next()
+        return
+      }
+
+      if (state.expiresAt < Date.now()) {
+        await saveWizardState(ctx, userId, null)
+        await ctx.reply(ctx.i18n.t('wizard.expired', { namespace: 'telegram' }))
+        return
+      }
+
+      const command = text.split(/[\s@]/)[0]?.toLowerCase()
+      if (command === '/cancel') {
+        await wizard.cancel(ctx, userId)
+      } else if (command === '/back') {
+        await wizard.back(ctx, userId, state)
+      } else if (text.startsWith('/')) {
+        await next()
+      } else {
+        await wizard.handleInput(ctx, userId, state, text)
+      }
+    }
+  }
+
+  private async navigate(ctx: BotContext, id: string, action: 'back' | 'cancel') {
+    const userId = ctx.from?.id
+    const state = getWizardState(ctx)
+    const wizard = this.wizards.get(id)
+
+    if (!userId || !wizard || state?.id !== id || state.expiresAt < Date.now()) {
+      await ctx.answerCallbackQuery(ctx.i18n.t('wizard.expired', { namespace: 'telegram' }))
+      return
+    }
+
+    await ctx.answerCallbackQuery()
+    if (action === 'back') {
+      await wizard.back(ctx, userId, state)
+    } else {
+      await wizard.cancel(ctx, userId)
+    }
+  }
+}
+
+/**
+ * Active wizard of the session loaded for this update, if any
+ */
+export function getWizardState(ctx: BotContext): WizardState | null {
+  const state = ctx.session?.data?.[SESSION_KEY] as WizardState | undefined
+  return state?.id ? state : null
+}
+
+/**
+ * Only data.wizard changes: the rest of the session is re-read so other
+ * updates aren't overwritten, and its step and lifetime are kept. The session
+ * lives at least as long as the wizard, whose own expiresAt ends it.
+ */
+async function saveWizardState(ctx: BotContext, userId: number, state: WizardState | null) {
+  const now = Date.now()
+  const session: UserSession = (await ctx.services.session.getSession(userId)) ??
+    ctx.session ?? { userId, step: IDLE_STEP, data: {} }
+
+  const data = { ...session.data }
+  if (state) {
+    data[SESSION_KEY] = state
+  } else {
+    delete data[SESSION_KEY]
+  }
+
+  const ttl = Math.ceil((Math.max(session.expiresAt ?? 0, state?.expiresAt ?? 0) - now) / 1000)
+  const updated: UserSession = { ...session, data }
+  await ctx.services.session.saveSession(
+    updated,
+    ttl > 0 ? { ttl: Math.max(MIN_SESSION_TTL, ttl) } : undefined
+  )
+  ctx.session = updated
+}
@@ -0,0 +1,7 @@
+import { WizardRouter } from '../wizard'
+
+/**
+ * Multi-step flows of the bot. Register new wizards here and start them
+ * from a command with wizard.enter(ctx).
+ */
+export const wizardRouter = new WizardRouter()
@@ -0,0 +1,318 @@
+#!/usr/bin/env tsx
+/**
+ * CLI for the D1 migration runner
+ * Talks to D1 through `wrangler d1 execute`, locally or remotely
+ * Usage: npm run db:migrate -- <status|up|down|verify> [options]
+ */
+
+import { execFile } from 'child_process'
+import { existsSync } from 'fs'
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { promisify } from 'util'
+
+import chalk from 'chalk'
+
+import type { MigrationStatus } from '../core/database'
+import { bindParameters, MigrationRunner, parseMigrationFile } from '../core/database'
+import type { Migration } from '../core/interfaces/cloud'
+import type { IDatabaseStore, IPreparedStatement } from '../core/interfaces/storage'
+
+const execFileAsync = promisify(execFile)
+
+type Command = 'status' | 'up' | 'down' | 'verify'
+
+interface CLIOptions {
+  command: Command
+  database: string
+  dir: string
+  remote: boolean
+  env?: string
+  to?: string
+  steps?: number
+  force: boolean
+  ifBound: boolean
+}
+
+/**
+ * IDatabaseStore over `wrangler d1 execute`. Wrangler can't bind
+ * parameters, so bound values are inlined as SQL literals.
+ */
+class WranglerD1Store implements IDatabaseStore {
+  constructor(private options: Pick<CLIOptions, 'database' | 'remote' | 'env'>) {}
+
+  prepare(query: string): IPreparedStatement {
+    return new WranglerStatement(this, query)
+  }
+
+  async exec(query: string): Promise<void> {
+    await this.execute(query)
+  }
+
+  async batch<T = unknown>(statements: IPreparedStatement[]): Promise<T[]> {
+    const sql = statements
+      .map(statement => {
+        if (!(statement instanceof WranglerStatement)) {
+          throw new Error('Invalid statement type for wrangler batch')
+        }
+        return `${statement.toSql()};`
+      })
+      .join('\n')
+
+    // Files are executed in one go, which keeps the migration and its history row together
+    const dir = await mkdtemp(join(tmpdir(), 'wireframe-migrate-'))
+    try {
+      const file = join(dir, 'batch.sql')
+      await writeFile(file, sql)
+      return (await this.run(['--file', file])) as T[]
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  async execute(sql: string): Promise<Record<string, unknown>[]> {
+    const [result] = (await this.run(['--command', sql])) as Array<{
+      results?: Record<string, unknown>[]
+    }>
+    return result?.results ?? []
+  }
+
+  private async run(args: string[]): Promise<unknown[]> {
+    const { stdout } = await execFileAsync(
+      'npx',
+      [
+        'wrangler',
+        'd1',
+        'execute',
+        this.options.database,
+        this.options.remote ? '--remote' : '--local',
+        ...(this.options.env ? ['--env', this.options.env] : []),
+        '--json',
+        ...args
+      ],
+      { maxBuffer: 64 * 1024 * 1024 }
+    )
+    const output = JSON.parse(stdout) as unknown
+    return Array.isArray(output) ? output : [output]
+  }
+}
+
+class WranglerStatement implements IPreparedStatement {
+  private values: unknown[] = []
+
+  constructor(
+    private store: WranglerD1Store,
+    private query: string
+  ) {}
+
+  bind(...values: unknown[]): IPreparedStatement {
+    this.values = values
+    return this
+  }
+
+  async first<T = unknown>(colName?: string): Promise<T | null> {
+    const [row] = await this.store.execute(this.toSql())
+    if (!row) return null
+    return (colName ? row[colName] : row) as T
+  }
+
+  async all<T = unknown>(): Promise<{ results: T[]; meta: unknown }> {
+    return { results: (await this.store.execute(this.toSql())) as T[], meta: {} }
+  }
+
+  async run(): Promise<{ meta: unknown }> {
+    await this.store.execute(this.toSql())
+    return { meta: {} }
+  }
+
+  toSql(): string {
+    return bindParameters(this.query, this.values, 'sqlite')
+  }
+}
+
+async function loadMigrations(dir: string): Promise<Migration[]> {
+  const files = (await readdir(dir)).filter(file => file.endsWith('.sql')).sort()
+  return Promise.all(
+    files.map(async file => parseMigrationFile(file, await readFile(join(dir, file), 'utf-8')))
+  )
+}
+
+/**
+ * Whether wrangler.toml binds the database for the environment (ignoring
+ * commented-out sections), so deploys of database-less bots can skip migrations
+ */
+async function isDatabaseBound(options: CLIOptions): Promise<boolean> {
+  if (!existsSync('wrangler.toml')) return false
+
+  const section = options.env ? `[[env.${options.env}.d1_databases]]` : '[[d1_databases]]'
+  const lines = (await readFile('wrangler.toml', 'utf-8'))
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+
+  let inSection = false
+  for (const line of lines) {
+    if (line.startsWith('[')) {
+      inSection = line === section
+      continue
+    }
+    const match = /^(binding|database_name)\s*=\s*"([^"]+)"/.exec(line)
+    if (inSection && match?.[2] === options.database) {
+      return true
+    }
+  }
+
+  return false
+}
+
+function printStatus(statuses: MigrationStatus[]) {
+  const colors = {
+    applied: chalk.green,
+    pending: chalk.yellow,
+    changed: chalk.red,
+    missing: chalk.red
+  }
+
+  for (const status of statuses) {
+    const state = colors[status.state](status.state.padEnd(8))
+    const appliedAt = status.appliedAt ? chalk.gray(` ${status.appliedAt}`) : ''
+    const reversible = status.reversible ? '' : chalk.gray(' (no down)')
+    console.info(`  ${state} ${status.version}_${status.name}${appliedAt}${reversible}`)
+  }
+}
+
+function parseArgs(): CLIOptions {
+  const args = process.argv.slice(2)
+  const options: CLIOptions = {
+    command: 'status',
+    database: 'DB',
+    dir: './migrations',
+    remote: false,
+    force: false,
+    ifBound: false
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === 'status' || arg === 'up' || arg === 'down' || arg === 'verify') {
+      options.command = arg
+    } else if (arg === '--database' && args[i + 1]) {
+      options.database = args[++i] as string
+    } else if (arg === '--dir' && args[i + 1]) {
+      options.dir = args[++i] as string
+    } else if (arg === '--env' && args[i + 1]) {
+      options.env = args[++i]
+    } else if (arg === '--to' && args[i + 1]) {
+      options.to = args[++i]
+    } else if (arg === '--steps' && args[i + 1]) {
+      options.steps = Number(args[++i])
+    } else if (arg === '--remote') {
+      options.remote = true
+    } else if (arg === '--local') {
+      options.remote = false
+    } else if (arg === '--force') {
+      options.force = true
+    } else if (arg === '--if-bound') {
+      options.ifBound = true
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp()
+      process.exit(0)
+    }
+  }
+
+  return options
+}
+
+function printHelp() {
+  console.info(`
+${chalk.bold('D1 Migrations')}
+
+Apply, inspect and roll back the SQL migrations in ./migrations.
+
+${chalk.bold('Usage:')}
+  npm run db:migrate -- <command> [options]
+
+${chalk.bold('Commands:')}
+  status            Show applied, pending and drifted migrations (default)
+  up                Apply pending migrations
+  down              Roll back the latest migration
+  verify            Fail when applied migrations changed or disappeared
+
+${chalk.bold('Options:')}
+  --database <name> D1 binding or database name (default: DB)
+  --dir <path>      Migrations directory (default: ./migrations)
+  --local           Use the local database (default)
+  --remote          Use the deployed database
+  --env <name>      Wrangler environment
+  --to <version>    up: stop after it; down: roll back everything after it
+  --steps <n>       down: number of migrations to roll back (default: 1)
+  --force           Run despite drift
+  --if-bound        Do nothing when wrangler.toml has no binding for the database
+  -h, --help        Show this help
+`)
+}
+
+async function main() {
+  const options = parseArgs()
+
+  if (options.ifBound && !(await isDatabaseBound(options))) {
+    console.info(chalk.gray(`No ${options.database} database bound, skipping migrations`))
+    return
+  }
+
+  const runner = new MigrationRunner({
+    db: new WranglerD1Store(options),
+    migrations: await loadMigrations(options.dir)
+  })
+
+  switch (options.command) {
+    case 'status':
+      printStatus(await runner.status())
+      break
+
+    case 'verify': {
+      const drifted = await runner.verify()
+      if (drifted.length > 0) {
+        console.error(chalk.red('\n❌ Applied migrations have drifted:\n'))
+        printStatus(drifted)
+        process.exit(1)
+      }
+      console.info(chalk.green('✅ Applied migrations match their files'))
+      break
+    }
+
+    case 'up': {
+      const applied = await runner.up({ to: options.to, force: options.force })
+      for (const migration of applied) {
+        console.info(chalk.green(`  ✓ ${migration.version}_${migration.name}`))
+      }
+      console.info(chalk.bold(`\n${applied.length} migration(s) applied`))
+      break
+    }
+
+    case 'down': {
+      const rolledBack = await runner.down({
+        to: options.to,
+        steps: options.steps,
+        force: options.force
+      })
+      for (const migration of rolledBack) {
+        console.info(chalk.yellow(`  ↩ ${migration.version}_${migration.name}`))
+      }
+      console.info(chalk.bold(`\n${rolledBack.length} migration(s) rolled back`))
+      break
+    }
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(
+      chalk.red('\n❌ Migration failed:'),
+      error instanceof Error ? error.message : error
+    )
+    process.exit(1)
+  })
+}
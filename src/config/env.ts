@@ -5,6 +5,7 @@ import type { CloudflareEnv } from '@/types/env'
 const envSchema = z.object({
   TELEGRAM_BOT_TOKEN: z.string().optional().default('demo'), // Optional for demo mode
   TELEGRAM_WEBHOOK_SECRET: z.string().optional().default('demo'),
+  CALLBACK_SECRET: z.string().optional(),
   SENTRY_DSN: z.string().optional(),
   SENTRY_DEBUG: z
     .string()
@@ -18,6 +19,7 @@ const envSchema = z.object({
   DB: z.any().optional(), // Cloudflare D1 Database binding
   CACHE: z.any().optional(), // Cloudflare KV Namespace binding
   RATE_LIMIT: z.any().optional(), // Cloudflare KV Namespace binding
+  RATE_LIMITER: z.any().optional(), // Cloudflare Durable Object binding
 
   // AI Provider configuration
   AI_PROVIDER: z.string().optional().default('google-ai'),
@@ -39,7 +41,10 @@ const envSchema = z.object({
   AI_COST_CONFIG_URL: z.string().url().optional(),
 
   // Owner configuration
-  BOT_OWNER_IDS: z.string().optional() // Comma-separated list of owner Telegram IDs
+  BOT_OWNER_IDS: z.string().optional(), // Comma-separated list of owner Telegram IDs
+
+  // Audit log retention in days, 0 keeps entries forever
+  AUDIT_RETENTION_DAYS: z.string().regex(/^\d+$/).optional()
 
   // Add other environment variables here
 })
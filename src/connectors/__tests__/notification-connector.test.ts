@@ -1,11 +1,15 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 import type { IEventBus } from '../../core/interfaces/event-bus'
 import type { ILogger } from '../../core/interfaces/logger'
-import type { INotificationAdapter } from '../../core/interfaces/notification'
+import type {
+  INotificationAdapter,
+  INotificationStore,
+  NotificationMessage
+} from '../../core/interfaces/notification'
 import { NotificationStatus } from '../../core/interfaces/notification'
 import type { IKeyValueStore } from '../../core/interfaces/storage'
-import { NotificationConnector } from '../notification-connector'
+import { NOTIFICATION_DELIVERY_MESSAGE, NotificationConnector } from '../notification-connector'
 
 describe('NotificationConnector', () => {
   let connector: NotificationConnector
@@ -13,6 +17,8 @@ describe('NotificationConnector', () => {
   let mockLogger: ILogger
   let mockEventBus: IEventBus
   let mockStorage: IKeyValueStore
+  let mockStore: INotificationStore
+  let mockQueue: { send: ReturnType<typeof vi.fn> }
 
   beforeEach(() => {
     vi.clearAllMocks()
@@ -47,9 +53,20 @@ describe('NotificationConnector', () => {
       list: vi.fn().mockResolvedValue({ keys: [] })
     }
 
+    mockStore = {
+      save: vi.fn().mockResolvedValue(undefined),
+      getResult: vi.fn().mockResolvedValue(null),
+      claim: vi.fn().mockResolvedValue(null),
+      listDue: vi.fn().mockResolvedValue([])
+    }
+
+    mockQueue = { send: vi.fn().mockResolvedValue(undefined) }
+
     connector = new NotificationConnector({
       adapter: mockAdapter,
       storage: mockStorage,
+      store: mockStore,
+      queue: mockQueue,
       logger: mockLogger,
       eventBus: mockEventBus
     })
@@ -262,4 +279,181 @@ describe('NotificationConnector', () => {
       expect(result).toBeNull()
     })
   })
+
+  describe('durable delivery', () => {
+    const message: NotificationMessage = {
+      id: 'msg_123',
+      recipientId: 'user_123',
+      template: 'reminder',
+      category: 'system' as NotificationMessage['category'],
+      priority: 'medium' as NotificationMessage['priority']
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2030-01-01T12:00:00.000Z'))
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should store future notifications and wake them up through the queue', async () => {
+      const scheduledAt = new Date('2030-01-01T13:00:00.000Z')
+
+      const result = await connector.send({ ...message, scheduledAt })
+
+      expect(result).toEqual({
+        messageId: 'msg_123',
+        status: NotificationStatus.PENDING,
+        nextRetryAt: scheduledAt
+      })
+      expect(mockAdapter.deliver).not.toHaveBeenCalled()
+      expect(mockStore.save).toHaveBeenCalledWith({ ...message, scheduledAt }, result, scheduledAt)
+      expect(mockQueue.send).toHaveBeenCalledWith(
+        NOTIFICATION_DELIVERY_MESSAGE,
+        { messageId: 'msg_123' },
+        undefined,
+        { delaySeconds: 3600 }
+      )
+    })
+
+    it('should leave deliveries beyond the queue delay limit to cron', async () => {
+      await connector.send({ ...message, scheduledAt: new Date('2030-01-03T12:00:00.000Z') })
+
+      expect(mockStore.save).toHaveBeenCalled()
+      expect(mockQueue.send).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to schedule without a store', async () => {
+      const volatile = new NotificationConnector({
+        adapter: mockAdapter,
+        logger: mockLogger,
+        eventBus: mockEventBus
+      })
+
+      const result = await volatile.send({
+        ...message,
+        scheduledAt: new Date('2030-01-01T13:00:00.000Z')
+      })
+
+      expect(result.status).toBe(NotificationStatus.FAILED)
+      expect(mockAdapter.deliver).not.toHaveBeenCalled()
+    })
+
+    it('should persist retries at the delay the platform asked for', async () => {
+      mockAdapter.getRetryAfter = vi.fn().mockReturnValue(30_000)
+      vi.mocked(mockAdapter.deliver).mockRejectedValueOnce(new Error('Too Many Requests'))
+
+      const result = await connector.send(message)
+
+      const nextRetryAt = new Date('2030-01-01T12:00:30.000Z')
+      expect(result).toEqual({
+        messageId: 'msg_123',
+        status: NotificationStatus.RETRY,
+        error: 'Too Many Requests',
+        retryCount: 1,
+        nextRetryAt
+      })
+      expect(mockStore.save).toHaveBeenCalledWith(
+        { ...message, metadata: { retryCount: 1 } },
+        result,
+        nextRetryAt
+      )
+      expect(mockQueue.send).toHaveBeenCalledWith(
+        NOTIFICATION_DELIVERY_MESSAGE,
+        { messageId: 'msg_123' },
+        undefined,
+        { delaySeconds: 30 }
+      )
+    })
+
+    it('should retry in memory without a store', async () => {
+      const volatile = new NotificationConnector({
+        adapter: mockAdapter,
+        logger: mockLogger,
+        eventBus: mockEventBus
+      })
+      vi.mocked(mockAdapter.deliver).mockRejectedValueOnce(new Error('Temporary error'))
+
+      const result = await volatile.send(message)
+      expect(result.status).toBe(NotificationStatus.RETRY)
+
+      await vi.advanceTimersByTimeAsync(2000)
+      expect(mockAdapter.deliver).toHaveBeenCalledTimes(2)
+      expect(mockEventBus.emit).toHaveBeenCalledWith(
+        'notification:sent',
+        expect.objectContaining({ messageId: 'msg_123' })
+      )
+    })
+
+    it('should cancel in-memory retries on stop', async () => {
+      const volatile = new NotificationConnector({
+        adapter: mockAdapter,
+        logger: mockLogger,
+        eventBus: mockEventBus
+      })
+      vi.mocked(mockAdapter.deliver).mockRejectedValueOnce(new Error('Temporary error'))
+
+      await volatile.send(message)
+      await volatile.stop()
+      await vi.advanceTimersByTimeAsync(2000)
+
+      expect(mockAdapter.deliver).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not resend when recording the delivery fails', async () => {
+      vi.mocked(mockStore.save).mockRejectedValueOnce(new Error('D1_ERROR'))
+
+      const result = await connector.send(message)
+
+      expect(result.status).toBe(NotificationStatus.SENT)
+      expect(mockAdapter.deliver).toHaveBeenCalledTimes(1)
+      expect(mockQueue.send).not.toHaveBeenCalled()
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Failed to record notification result',
+        expect.objectContaining({ messageId: 'msg_123', error: 'D1_ERROR' })
+      )
+    })
+
+    it('should deliver claimed messages and skip the rest', async () => {
+      vi.mocked(mockStore.claim).mockResolvedValueOnce(message).mockResolvedValueOnce(null)
+
+      const delivered = await connector.deliver('msg_123')
+      const skipped = await connector.deliver('msg_123')
+
+      expect(delivered?.status).toBe(NotificationStatus.SENT)
+      expect(skipped).toBeNull()
+      expect(mockStore.claim).toHaveBeenCalledWith(
+        'msg_123',
+        new Date('2030-01-01T12:00:00.000Z'),
+        new Date('2030-01-01T12:05:00.000Z')
+      )
+      expect(mockAdapter.deliver).toHaveBeenCalledTimes(1)
+      expect(mockStore.save).toHaveBeenLastCalledWith(message, delivered, undefined)
+    })
+
+    it('should deliver everything that is due', async () => {
+      vi.mocked(mockStore.listDue).mockResolvedValueOnce(['msg_1', 'msg_2'])
+      vi.mocked(mockStore.claim).mockImplementation(async id => ({ ...message, id }))
+
+      const results = await connector.deliverDue()
+
+      expect(results.map(result => result.messageId)).toEqual(['msg_1', 'msg_2'])
+      expect(mockAdapter.deliver).toHaveBeenCalledTimes(2)
+    })
+
+    it('should drop expired notifications', async () => {
+      vi.mocked(mockStore.claim).mockResolvedValueOnce({
+        ...message,
+        expiresAt: new Date('2030-01-01T11:00:00.000Z')
+      })
+
+      const result = await connector.deliver('msg_123')
+
+      expect(result?.status).toBe(NotificationStatus.FAILED)
+      expect(result?.error).toBe('Notification expired before delivery')
+      expect(mockAdapter.deliver).not.toHaveBeenCalled()
+    })
+  })
 })
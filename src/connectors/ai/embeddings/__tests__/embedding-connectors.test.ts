@@ -0,0 +1,173 @@
+/**
+ * Tests for Workers AI and OpenAI-compatible embedding connectors
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { OpenAICompatibleEmbeddingConnector } from '../openai-compatible-embedding-connector'
+import { WorkersAIEmbeddingConnector } from '../workers-ai-embedding-connector'
+
+const vector = (dimensions: number, value = 0.1) => new Array(dimensions).fill(value)
+
+describe('WorkersAIEmbeddingConnector', () => {
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should embed through the AI binding', async () => {
+    const binding = {
+      run: vi.fn(async (_model: string, inputs: unknown) => {
+        const { text } = inputs as { text: string[] }
+        return { shape: [text.length, 384], data: text.map(() => vector(384)) }
+      })
+    }
+    const connector = new WorkersAIEmbeddingConnector()
+    await connector.initialize({ binding, model: '@cf/baai/bge-small-en-v1.5' })
+
+    const result = await connector.embeddings(['hello', 'world'])
+
+    expect(binding.run).toHaveBeenCalledWith('@cf/baai/bge-small-en-v1.5', {
+      text: ['hello', 'world']
+    })
+    expect(result.map(item => item.index)).toEqual([0, 1])
+    expect(result[0]?.embedding).toHaveLength(384)
+    expect(connector.dimensions).toBe(384)
+  })
+
+  it('should call the REST API in batches of 100', async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      const { text } = JSON.parse(init?.body as string) as { text: string[] }
+      return new Response(
+        JSON.stringify({ success: true, result: { data: text.map(() => vector(768)) } })
+      )
+    })
+    global.fetch = fetchMock as unknown as typeof fetch
+    const connector = new WorkersAIEmbeddingConnector({ accountId: 'acc', apiToken: 'token' })
+
+    const result = await connector.embeddings(Array.from({ length: 150 }, (_, i) => `text ${i}`))
+
+    expect(result).toHaveLength(150)
+    expect(result[149]?.index).toBe(149)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      'https://api.cloudflare.com/client/v4/accounts/acc/ai/run/@cf/baai/bge-base-en-v1.5'
+    )
+  })
+
+  it('should reject vectors with unexpected dimensions', async () => {
+    const connector = new WorkersAIEmbeddingConnector({
+      binding: { run: async () => ({ data: [vector(10)] }) }
+    })
+
+    await expect(connector.embeddings('hello')).rejects.toThrow(
+      'Model @cf/baai/bge-base-en-v1.5 returned 10 dimensions, expected 768'
+    )
+  })
+
+  it('should validate configuration', async () => {
+    const connector = new WorkersAIEmbeddingConnector()
+
+    await expect(connector.initialize({ model: 'bge-unknown' })).rejects.toThrow(
+      'Invalid configuration'
+    )
+  })
+
+  it('should not support completions', async () => {
+    const connector = new WorkersAIEmbeddingConnector({ accountId: 'acc' })
+
+    await expect(connector.complete({ model: 'x', messages: [] })).rejects.toThrow(
+      'does not support text completion'
+    )
+    expect(connector.getAICapabilities().supportsEmbeddings).toBe(true)
+  })
+})
+
+describe('OpenAICompatibleEmbeddingConnector', () => {
+  const originalFetch = global.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      const { input, dimensions } = JSON.parse(init?.body as string) as {
+        input: string[]
+        dimensions?: number
+      }
+      // Servers may return items out of order; the index is authoritative
+      const data = input
+        .map((_, index) => ({ embedding: vector(dimensions ?? 1536, index), index }))
+        .reverse()
+      return new Response(JSON.stringify({ data, usage: { prompt_tokens: 4, total_tokens: 4 } }))
+    })
+    global.fetch = fetchMock as unknown as typeof fetch
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should call the embeddings endpoint and order results by index', async () => {
+    const connector = new OpenAICompatibleEmbeddingConnector({ apiKey: 'sk-test' })
+
+    const result = await connector.embeddings(['a', 'b'])
+
+    expect(result.map(item => item.embedding[0])).toEqual([0, 1])
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+    expect(url).toBe('https://api.openai.com/v1/embeddings')
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer sk-test' })
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      model: 'text-embedding-3-small',
+      input: ['a', 'b']
+    })
+  })
+
+  it('should request shortened text-embedding-3 vectors', async () => {
+    const connector = new OpenAICompatibleEmbeddingConnector({
+      apiKey: 'sk-test',
+      model: 'text-embedding-3-large',
+      dimensions: 256
+    })
+
+    const [result] = await connector.embeddings('a')
+
+    expect(result?.embedding).toHaveLength(256)
+    expect(connector.dimensions).toBe(256)
+  })
+
+  it('should support self-hosted models with explicit dimensions', async () => {
+    const connector = new OpenAICompatibleEmbeddingConnector()
+    await connector.initialize({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'nomic-embed-text',
+      dimensions: 1536
+    })
+
+    await connector.embeddings('a')
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+    expect(url).toBe('http://localhost:11434/v1/embeddings')
+    expect(JSON.parse(init.body as string).dimensions).toBeUndefined()
+    expect(await connector.getModelInfo('nomic-embed-text')).toMatchObject({
+      id: 'nomic-embed-text',
+      capabilities: { embeddings: true }
+    })
+  })
+
+  it('should require dimensions for unknown models', async () => {
+    const connector = new OpenAICompatibleEmbeddingConnector()
+
+    expect(
+      connector.validateConfig({ baseUrl: 'http://localhost', model: 'custom' }).errors
+    ).toEqual([expect.objectContaining({ field: 'dimensions' })])
+  })
+
+  it('should surface API errors', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('rate limited', { status: 429 }))
+    const connector = new OpenAICompatibleEmbeddingConnector({ apiKey: 'sk-test' })
+
+    await expect(connector.embeddings('a')).rejects.toThrow(
+      'Embeddings API error: 429 - rate limited'
+    )
+  })
+})
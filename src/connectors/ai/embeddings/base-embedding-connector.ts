@@ -0,0 +1,201 @@
+/**
+ * Base class for embedding-only AI connectors
+ *
+ * Handles batching, dimension checks and events so that providers only
+ * implement a single batch request
+ * @module connectors/ai/embeddings/base-embedding-connector
+ */
+
+import { BaseConnector } from '@/connectors/base/base-connector'
+import type {
+  AICapabilities,
+  AIConnector,
+  CompletionRequest,
+  CompletionResponse,
+  Cost,
+  Embedding,
+  ModelInfo,
+  Usage
+} from '@/core/interfaces/ai'
+import type { ConnectorCapabilities, HealthStatus } from '@/core/interfaces/connector'
+import { ConnectorType } from '@/core/interfaces/connector'
+import { logger } from '@/lib/logger'
+
+export interface EmbeddingModel {
+  id: string
+  name: string
+  dimensions: number
+  maxContextTokens: number
+  maxBatchSize: number
+  inputCost: number // per 1K tokens
+}
+
+export abstract class BaseEmbeddingConnector extends BaseConnector implements AIConnector {
+  type = ConnectorType.AI
+
+  protected abstract models: Record<string, EmbeddingModel>
+  protected model!: EmbeddingModel
+
+  /**
+   * Dimensions of the vectors produced by the configured model
+   */
+  get dimensions(): number {
+    return this.model.dimensions
+  }
+
+  /**
+   * Generate embeddings, splitting the input into provider-sized batches
+   */
+  async embeddings(texts: string | string[]): Promise<Embedding[]> {
+    const inputs = Array.isArray(texts) ? texts : [texts]
+    if (!inputs.length) return []
+
+    try {
+      const vectors: number[][] = []
+      for (let start = 0; start < inputs.length; start += this.model.maxBatchSize) {
+        const batch = inputs.slice(start, start + this.model.maxBatchSize)
+        const result = await this.embedBatch(batch)
+
+        if (result.length !== batch.length) {
+          throw new Error(`Expected ${batch.length} embeddings, got ${result.length}`)
+        }
+        const invalid = result.find(vector => vector.length !== this.model.dimensions)
+        if (invalid) {
+          throw new Error(
+            `Model ${this.model.id} returned ${invalid.length} dimensions, expected ${this.model.dimensions}`
+          )
+        }
+        vectors.push(...result)
+      }
+
+      this.emitEvent('ai:embeddings:success', {
+        connector: this.id,
+        model: this.model.id,
+        count: vectors.length
+      })
+
+      return vectors.map((embedding, index) => ({
+        embedding,
+        index,
+        metadata: { model: this.model.id }
+      }))
+    } catch (error) {
+      logger.error(`[${this.name}] Embedding request failed`, error)
+
+      this.emitEvent('ai:embeddings:error', {
+        connector: this.id,
+        model: this.model.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+
+      throw error
+    }
+  }
+
+  async complete(_request: CompletionRequest): Promise<CompletionResponse> {
+    throw new Error(`${this.name} does not support text completion. Use embeddings() instead.`)
+  }
+
+  async getModelInfo(modelId: string): Promise<ModelInfo> {
+    const model = this.models[modelId]
+    if (!model) {
+      throw new Error(`Model ${modelId} not supported by ${this.name}`)
+    }
+
+    return {
+      id: model.id,
+      name: model.name,
+      description: `${model.dimensions}-dimensional text embeddings`,
+      vendor: this.id,
+      context_window: model.maxContextTokens,
+      input_cost: model.inputCost,
+      output_cost: 0,
+      capabilities: {
+        chat: false,
+        completion: false,
+        embeddings: true,
+        vision: false,
+        audio: false,
+        function_calling: false,
+        json_mode: false,
+        streaming: false
+      }
+    }
+  }
+
+  calculateCost(usage: Usage): Cost {
+    const promptCost = (usage.prompt_tokens / 1000) * this.model.inputCost
+
+    return {
+      total: promptCost,
+      currency: 'USD',
+      breakdown: {
+        prompt: promptCost,
+        completion: 0
+      }
+    }
+  }
+
+  getAICapabilities(): AICapabilities {
+    return {
+      models: Object.keys(this.models),
+      maxContextWindow: this.model.maxContextTokens,
+      maxOutputTokens: 0,
+      supportsStreaming: false,
+      supportsEmbeddings: true,
+      supportsVision: false,
+      supportsAudio: false,
+      supportsFunctionCalling: false,
+      supportsJsonMode: false,
+      custom: {
+        model: this.model.id,
+        dimensions: this.model.dimensions
+      }
+    }
+  }
+
+  getCapabilities(): ConnectorCapabilities {
+    return {
+      supportsAsync: true,
+      supportsSync: true,
+      supportsBatching: true,
+      supportsStreaming: false,
+      maxBatchSize: this.model.maxBatchSize,
+      maxConcurrent: 10,
+      features: ['embeddings', 'batch-embeddings']
+    }
+  }
+
+  protected async checkHealth(): Promise<Partial<HealthStatus>> {
+    try {
+      await this.embeddings('health check')
+
+      return {
+        status: 'healthy',
+        message: `${this.name} is operational`,
+        details: { model: this.model.id, dimensions: this.model.dimensions }
+      }
+    } catch (error) {
+      return {
+        status: 'unhealthy',
+        message: 'Failed to generate embeddings',
+        details: {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      }
+    }
+  }
+
+  protected async doDestroy(): Promise<void> {
+    this.emitEvent('ai:connector:destroyed', {
+      connector: this.id
+    })
+  }
+
+  /**
+   * Embed one batch of at most `maxBatchSize` texts, preserving input order
+   */
+  protected abstract embedBatch(texts: string[]): Promise<number[][]>
+
+  abstract validateCredentials(): Promise<boolean>
+}
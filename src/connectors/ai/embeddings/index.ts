@@ -0,0 +1,12 @@
+export { BaseEmbeddingConnector } from './base-embedding-connector'
+export type { EmbeddingModel } from './base-embedding-connector'
+export {
+  OPENAI_EMBEDDING_MODELS,
+  OpenAICompatibleEmbeddingConnector
+} from './openai-compatible-embedding-connector'
+export type { OpenAICompatibleEmbeddingConfig } from './openai-compatible-embedding-connector'
+export {
+  WORKERS_AI_EMBEDDING_MODELS,
+  WorkersAIEmbeddingConnector
+} from './workers-ai-embedding-connector'
+export type { WorkersAIBinding, WorkersAIEmbeddingConfig } from './workers-ai-embedding-connector'
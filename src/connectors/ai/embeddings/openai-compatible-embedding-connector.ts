@@ -0,0 +1,205 @@
+/**
+ * OpenAI-compatible Embedding Connector
+ *
+ * Calls the `/embeddings` endpoint of OpenAI or any server exposing the same
+ * API (Azure OpenAI proxies, Ollama, vLLM, LocalAI, ...)
+ * @module connectors/ai/embeddings/openai-compatible-embedding-connector
+ */
+
+import type { EmbeddingModel } from './base-embedding-connector'
+import { BaseEmbeddingConnector } from './base-embedding-connector'
+
+import { EventBus } from '@/core/events/event-bus'
+import type { ConnectorConfig, ValidationResult } from '@/core/interfaces/connector'
+import { logger } from '@/lib/logger'
+
+export interface OpenAICompatibleEmbeddingConfig extends ConnectorConfig {
+  apiKey?: string
+  baseUrl?: string
+  model?: string
+  /**
+   * Output dimensions. Required for models not listed in OPENAI_EMBEDDING_MODELS;
+   * shortens text-embedding-3 vectors when set for those models
+   */
+  dimensions?: number
+  maxBatchSize?: number
+  headers?: Record<string, string>
+  eventBus?: EventBus
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ embedding: number[]; index: number }>
+  usage?: { prompt_tokens: number; total_tokens: number }
+}
+
+export const OPENAI_EMBEDDING_MODELS: Record<string, EmbeddingModel> = {
+  'text-embedding-3-small': {
+    id: 'text-embedding-3-small',
+    name: 'Text Embedding 3 Small',
+    dimensions: 1536,
+    maxContextTokens: 8191,
+    maxBatchSize: 2048,
+    inputCost: 0.00002
+  },
+  'text-embedding-3-large': {
+    id: 'text-embedding-3-large',
+    name: 'Text Embedding 3 Large',
+    dimensions: 3072,
+    maxContextTokens: 8191,
+    maxBatchSize: 2048,
+    inputCost: 0.00013
+  },
+  'text-embedding-ada-002': {
+    id: 'text-embedding-ada-002',
+    name: 'Ada Embedding v2',
+    dimensions: 1536,
+    maxContextTokens: 8191,
+    maxBatchSize: 2048,
+    inputCost: 0.0001
+  }
+}
+
+const DEFAULT_MODEL = 'text-embedding-3-small'
+
+export class OpenAICompatibleEmbeddingConnector extends BaseEmbeddingConnector {
+  id = 'openai-compatible-embedding-connector'
+  name = 'OpenAI-compatible Embedding Connector'
+  version = '1.0.0'
+
+  protected models: Record<string, EmbeddingModel> = { ...OPENAI_EMBEDDING_MODELS }
+
+  private apiKey?: string
+  private baseUrl = 'https://api.openai.com/v1'
+  private headers: Record<string, string> = {}
+  private requestDimensions?: number
+
+  constructor(config?: OpenAICompatibleEmbeddingConfig) {
+    super()
+    this.model = OPENAI_EMBEDDING_MODELS[DEFAULT_MODEL] as EmbeddingModel
+    if (config) {
+      this.configure(config)
+    }
+  }
+
+  protected async doInitialize(config: ConnectorConfig): Promise<void> {
+    this.configure(config as OpenAICompatibleEmbeddingConfig)
+
+    logger.info('[OpenAICompatibleEmbeddingConnector] Initializing embeddings', {
+      baseUrl: this.baseUrl,
+      model: this.model.id,
+      dimensions: this.model.dimensions
+    })
+
+    this.emitEvent('ai:connector:initialized', {
+      connector: this.id,
+      model: this.model.id,
+      capabilities: this.getAICapabilities()
+    })
+  }
+
+  protected doValidateConfig(config: ConnectorConfig): ValidationResult['errors'] {
+    const errors: ValidationResult['errors'] = []
+    const embeddingConfig = config as OpenAICompatibleEmbeddingConfig
+    const model = embeddingConfig.model ?? DEFAULT_MODEL
+
+    if (!embeddingConfig.baseUrl && !embeddingConfig.apiKey) {
+      errors?.push({
+        field: 'apiKey',
+        message: 'API key is required for the OpenAI API',
+        code: 'REQUIRED_FIELD'
+      })
+    }
+
+    if (!OPENAI_EMBEDDING_MODELS[model] && !embeddingConfig.dimensions) {
+      errors?.push({
+        field: 'dimensions',
+        message: `Dimensions are required for model ${model}`,
+        code: 'REQUIRED_FIELD'
+      })
+    }
+
+    if (embeddingConfig.dimensions !== undefined && embeddingConfig.dimensions < 1) {
+      errors?.push({
+        field: 'dimensions',
+        message: 'Dimensions must be a positive number',
+        code: 'INVALID_VALUE'
+      })
+    }
+
+    return errors
+  }
+
+  protected checkReadiness(): boolean {
+    return !!this.baseUrl
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.getHeaders()
+      })
+
+      return response.ok
+    } catch (error) {
+      logger.error('[OpenAICompatibleEmbeddingConnector] Credential validation failed', error)
+      return false
+    }
+  }
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        ...this.getHeaders(),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model.id,
+        input: texts,
+        ...(this.requestDimensions ? { dimensions: this.requestDimensions } : {}),
+        encoding_format: 'float'
+      })
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Embeddings API error: ${response.status} - ${error}`)
+    }
+
+    const data = (await response.json()) as EmbeddingsResponse
+    return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      ...this.headers
+    }
+  }
+
+  private configure(config: OpenAICompatibleEmbeddingConfig): void {
+    this.apiKey = config.apiKey ?? this.apiKey
+    this.baseUrl = (config.baseUrl || this.baseUrl).replace(/\/+$/, '')
+    this.headers = config.headers ?? this.headers
+
+    const known = config.model ? OPENAI_EMBEDDING_MODELS[config.model] : this.model
+    const modelId = config.model ?? this.model.id
+    this.model = {
+      id: modelId,
+      name: known?.name ?? modelId,
+      dimensions: config.dimensions ?? known?.dimensions ?? 0,
+      maxContextTokens: known?.maxContextTokens ?? 8191,
+      maxBatchSize: config.maxBatchSize ?? known?.maxBatchSize ?? 2048,
+      inputCost: known?.inputCost ?? 0
+    }
+    this.models[modelId] = this.model
+
+    // Only text-embedding-3 models accept a `dimensions` parameter
+    this.requestDimensions =
+      config.dimensions && modelId.startsWith('text-embedding-3') ? config.dimensions : undefined
+
+    if (config.eventBus) {
+      this.eventBus = config.eventBus
+    }
+  }
+}
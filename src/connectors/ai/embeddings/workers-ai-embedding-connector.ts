@@ -0,0 +1,199 @@
+/**
+ * Workers AI Embedding Connector
+ *
+ * Generates text embeddings with the BAAI bge models on Cloudflare Workers AI,
+ * through the `AI` binding when running in a Worker or the REST API otherwise
+ * @module connectors/ai/embeddings/workers-ai-embedding-connector
+ */
+
+import type { EmbeddingModel } from './base-embedding-connector'
+import { BaseEmbeddingConnector } from './base-embedding-connector'
+
+import { EventBus } from '@/core/events/event-bus'
+import type { ConnectorConfig, ValidationResult } from '@/core/interfaces/connector'
+import { logger } from '@/lib/logger'
+
+/**
+ * The subset of the Workers AI binding used for embeddings
+ */
+export interface WorkersAIBinding {
+  run(model: string, inputs: unknown): Promise<unknown>
+}
+
+export interface WorkersAIEmbeddingConfig extends ConnectorConfig {
+  accountId?: string
+  apiToken?: string
+  baseUrl?: string
+  binding?: WorkersAIBinding
+  model?: string
+  eventBus?: EventBus
+}
+
+interface EmbeddingOutput {
+  shape?: number[]
+  data?: number[][]
+}
+
+const MAX_BATCH_SIZE = 100
+
+export const WORKERS_AI_EMBEDDING_MODELS: Record<string, EmbeddingModel> = {
+  '@cf/baai/bge-small-en-v1.5': {
+    id: '@cf/baai/bge-small-en-v1.5',
+    name: 'BGE Small EN v1.5',
+    dimensions: 384,
+    maxContextTokens: 512,
+    maxBatchSize: MAX_BATCH_SIZE,
+    inputCost: 0.00002
+  },
+  '@cf/baai/bge-base-en-v1.5': {
+    id: '@cf/baai/bge-base-en-v1.5',
+    name: 'BGE Base EN v1.5',
+    dimensions: 768,
+    maxContextTokens: 512,
+    maxBatchSize: MAX_BATCH_SIZE,
+    inputCost: 0.000067
+  },
+  '@cf/baai/bge-large-en-v1.5': {
+    id: '@cf/baai/bge-large-en-v1.5',
+    name: 'BGE Large EN v1.5',
+    dimensions: 1024,
+    maxContextTokens: 512,
+    maxBatchSize: MAX_BATCH_SIZE,
+    inputCost: 0.000204
+  },
+  '@cf/baai/bge-m3': {
+    id: '@cf/baai/bge-m3',
+    name: 'BGE M3 (multilingual)',
+    dimensions: 1024,
+    maxContextTokens: 8192,
+    maxBatchSize: MAX_BATCH_SIZE,
+    inputCost: 0.000012
+  }
+}
+
+const DEFAULT_MODEL = '@cf/baai/bge-base-en-v1.5'
+
+export class WorkersAIEmbeddingConnector extends BaseEmbeddingConnector {
+  id = 'workers-ai-embedding-connector'
+  name = 'Workers AI Embedding Connector'
+  version = '1.0.0'
+
+  protected models = WORKERS_AI_EMBEDDING_MODELS
+
+  private accountId?: string
+  private apiToken?: string
+  private baseUrl = 'https://api.cloudflare.com/client/v4'
+  private binding?: WorkersAIBinding
+
+  constructor(config?: WorkersAIEmbeddingConfig) {
+    super()
+    this.model = WORKERS_AI_EMBEDDING_MODELS[DEFAULT_MODEL] as EmbeddingModel
+    if (config) {
+      this.configure(config)
+    }
+  }
+
+  protected async doInitialize(config: ConnectorConfig): Promise<void> {
+    this.configure(config as WorkersAIEmbeddingConfig)
+
+    logger.info('[WorkersAIEmbeddingConnector] Initializing Workers AI embeddings', {
+      model: this.model.id,
+      dimensions: this.model.dimensions,
+      transport: this.binding ? 'binding' : 'rest'
+    })
+
+    this.emitEvent('ai:connector:initialized', {
+      connector: this.id,
+      model: this.model.id,
+      capabilities: this.getAICapabilities()
+    })
+  }
+
+  protected doValidateConfig(config: ConnectorConfig): ValidationResult['errors'] {
+    const errors: ValidationResult['errors'] = []
+    const embeddingConfig = config as WorkersAIEmbeddingConfig
+
+    if (!embeddingConfig.binding && !embeddingConfig.accountId) {
+      errors?.push({
+        field: 'accountId',
+        message: 'Cloudflare account ID is required when no AI binding is provided',
+        code: 'REQUIRED_FIELD'
+      })
+    }
+
+    if (embeddingConfig.model && !WORKERS_AI_EMBEDDING_MODELS[embeddingConfig.model]) {
+      errors?.push({
+        field: 'model',
+        message: `Model must be one of: ${Object.keys(WORKERS_AI_EMBEDDING_MODELS).join(', ')}`,
+        code: 'INVALID_VALUE'
+      })
+    }
+
+    return errors
+  }
+
+  protected checkReadiness(): boolean {
+    return !!(this.binding || this.accountId)
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    if (this.binding) return true
+
+    try {
+      const response = await fetch(`${this.baseUrl}/accounts/${this.accountId}/ai/models/search`, {
+        headers: {
+          Authorization: `Bearer ${this.apiToken}`
+        }
+      })
+
+      return response.ok
+    } catch (error) {
+      logger.error('[WorkersAIEmbeddingConnector] Credential validation failed', error)
+      return false
+    }
+  }
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    const output = this.binding
+      ? ((await this.binding.run(this.model.id, { text: texts })) as EmbeddingOutput)
+      : await this.callAPI(texts)
+
+    if (!Array.isArray(output.data)) {
+      throw new Error('Workers AI returned no embedding data')
+    }
+
+    return output.data
+  }
+
+  private async callAPI(texts: string[]): Promise<EmbeddingOutput> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/ai/run/${this.model.id}`
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: this.apiToken ? `Bearer ${this.apiToken}` : '',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ text: texts })
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Workers AI embeddings error: ${response.status} - ${error}`)
+    }
+
+    const data = (await response.json()) as { result?: EmbeddingOutput }
+    return data.result ?? {}
+  }
+
+  private configure(config: WorkersAIEmbeddingConfig): void {
+    this.accountId = config.accountId ?? this.accountId
+    this.apiToken = config.apiToken ?? this.apiToken
+    this.baseUrl = config.baseUrl || this.baseUrl
+    this.binding = config.binding ?? this.binding
+    this.model = (config.model && WORKERS_AI_EMBEDDING_MODELS[config.model]) || this.model
+    if (config.eventBus) {
+      this.eventBus = config.eventBus
+    }
+  }
+}
@@ -4,6 +4,7 @@ import { ConnectorType } from '../../core/interfaces/connector.js'
 import type {
   BotCommand,
   BulkMessageResult,
+  MessageRef,
   MessageResult,
   MessagingCapabilities,
   MessagingConnector,
@@ -100,7 +101,7 @@ export abstract class BaseMessagingConnector extends BaseConnector implements Me
   /**
    * Edit a message
    */
-  async editMessage(messageId: string, message: UnifiedMessage): Promise<MessageResult> {
+  async editMessage(target: MessageRef | string, message: UnifiedMessage): Promise<MessageResult> {
     const capabilities = this.getMessagingCapabilities()
     if (!capabilities.supportsEditing) {
       return {
@@ -110,10 +111,12 @@ export abstract class BaseMessagingConnector extends BaseConnector implements Me
     }
 
     try {
-      const result = await this.doEditMessage(messageId, message)
+      const ref = this.resolveMessageRef(target, message)
+      const result = await this.doEditMessage(ref, message)
 
       this.emitEvent(CommonEventType.MESSAGE_EDITED, {
-        messageId,
+        messageId: ref.message_id ?? ref.inline_message_id,
+        ref,
         message,
         result
       })
@@ -130,19 +133,44 @@ export abstract class BaseMessagingConnector extends BaseConnector implements Me
   /**
    * Delete a message
    */
-  async deleteMessage(messageId: string): Promise<void> {
+  async deleteMessage(target: MessageRef | string): Promise<void> {
     const capabilities = this.getMessagingCapabilities()
     if (!capabilities.supportsDeleting) {
       throw new Error('Message deletion not supported')
     }
 
-    await this.doDeleteMessage(messageId)
+    const ref = this.resolveMessageRef(target)
+    await this.doDeleteMessage(ref)
 
     this.emitEvent(CommonEventType.MESSAGE_DELETED, {
-      messageId
+      messageId: ref.message_id ?? ref.inline_message_id,
+      ref
     })
   }
 
+  /**
+   * Turn an edit or delete target into a reference for this platform
+   */
+  protected resolveMessageRef(target: MessageRef | string, message?: UnifiedMessage): MessageRef {
+    if (typeof target !== 'string') {
+      if (target.platform !== this.platform) {
+        throw new Error(`Message reference for ${target.platform} passed to ${this.platform}`)
+      }
+      if (!target.inline_message_id && (!target.chat_id || !target.message_id)) {
+        throw new Error('Message reference requires chat_id and message_id')
+      }
+      return target
+    }
+
+    // Legacy callers pass the chat through the message being edited
+    if (!message?.chat?.id) {
+      throw new Error(
+        `Message ID "${target}" cannot be resolved without a chat; pass the ref from sendMessage`
+      )
+    }
+    return { platform: this.platform, chat_id: message.chat.id, message_id: target }
+  }
+
   /**
    * Get base capabilities
    */
@@ -226,11 +254,8 @@ export abstract class BaseMessagingConnector extends BaseConnector implements Me
     recipient: string,
     message: UnifiedMessage
   ): Promise<MessageResult>
-  protected abstract doEditMessage(
-    messageId: string,
-    message: UnifiedMessage
-  ): Promise<MessageResult>
-  protected abstract doDeleteMessage(messageId: string): Promise<void>
+  protected abstract doEditMessage(ref: MessageRef, message: UnifiedMessage): Promise<MessageResult>
+  protected abstract doDeleteMessage(ref: MessageRef): Promise<void>
   abstract handleWebhook(request: Request): Promise<Response>
   abstract validateWebhook(request: Request): Promise<boolean>
   abstract setCommands(commands: BotCommand[]): Promise<void>
@@ -0,0 +1,33 @@
+import { env } from 'cloudflare:test'
+
+import { CloudflareCacheStore } from '../cloudflare/stores/cache-store'
+import { CloudflareDatabaseStore } from '../cloudflare/stores/database-store'
+import { CloudflareKeyValueStore } from '../cloudflare/stores/kv-store'
+import { CloudflareObjectStore } from '../cloudflare/stores/object-store'
+
+import {
+  describeCacheStoreContract,
+  describeDatabaseStoreContract,
+  describeKeyValueStoreContract,
+  describeObjectStoreContract
+} from './storage-contract'
+
+const bindings = env as unknown as {
+  SESSIONS: KVNamespace
+  DB: D1Database
+  BUCKET: R2Bucket
+}
+
+describeKeyValueStoreContract('CloudflareKeyValueStore', () => {
+  return new CloudflareKeyValueStore(bindings.SESSIONS)
+})
+
+describeDatabaseStoreContract('CloudflareDatabaseStore', () => {
+  return new CloudflareDatabaseStore(bindings.DB)
+})
+
+describeObjectStoreContract('CloudflareObjectStore', () => {
+  return new CloudflareObjectStore(bindings.BUCKET)
+})
+
+describeCacheStoreContract('CloudflareCacheStore', () => new CloudflareCacheStore())
@@ -0,0 +1,266 @@
+/**
+ * Shared contract tests for platform storage implementations.
+ * Every cloud connector's stores must pass these to be interchangeable.
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import type {
+  ICacheStore,
+  IDatabaseStore,
+  IKeyValueStore,
+  IObjectStore
+} from '../../../core/interfaces/storage'
+
+type Factory<T> = () => T | Promise<T>
+
+/**
+ * IKeyValueStore contract
+ */
+export function describeKeyValueStoreContract(name: string, factory: Factory<IKeyValueStore>) {
+  describe(`${name} (IKeyValueStore contract)`, () => {
+    let store: IKeyValueStore
+
+    beforeEach(async () => {
+      store = await factory()
+    })
+
+    it('should return null for missing keys', async () => {
+      expect(await store.get('missing')).toBeNull()
+      expect(await store.getWithMetadata('missing')).toEqual({ value: null, metadata: null })
+    })
+
+    it('should store and read string values', async () => {
+      await store.put('greeting', 'hello')
+      expect(await store.get('greeting')).toBe('hello')
+    })
+
+    it('should parse JSON values', async () => {
+      await store.put('user:1', JSON.stringify({ id: 1, name: 'Ann' }))
+      expect(await store.get<{ id: number; name: string }>('user:1')).toEqual({
+        id: 1,
+        name: 'Ann'
+      })
+    })
+
+    it('should store binary values', async () => {
+      await store.put('binary', new TextEncoder().encode('bytes'))
+      expect(await store.get('binary')).toBe('bytes')
+    })
+
+    it('should return metadata', async () => {
+      await store.put('with-meta', 'value', { metadata: { source: 'test' } })
+      expect(await store.getWithMetadata('with-meta')).toEqual({
+        value: 'value',
+        metadata: { source: 'test' }
+      })
+    })
+
+    it('should overwrite and delete keys', async () => {
+      await store.put('key', 'first')
+      await store.put('key', 'second')
+      expect(await store.get('key')).toBe('second')
+
+      await store.delete('key')
+      expect(await store.get('key')).toBeNull()
+    })
+
+    it('should accept keys with slashes and dots', async () => {
+      await store.put('path/to/file.json', 'nested')
+      expect(await store.get('path/to/file.json')).toBe('nested')
+    })
+
+    it('should list keys by prefix in order', async () => {
+      await store.put('a:2', '2', { metadata: { n: 2 } })
+      await store.put('a:1', '1')
+      await store.put('b:1', '1')
+
+      const result = await store.list({ prefix: 'a:' })
+
+      expect(result.keys.map(key => key.name)).toEqual(['a:1', 'a:2'])
+      expect(result.keys[1]?.metadata).toEqual({ n: 2 })
+      expect(result.list_complete).toBe(true)
+    })
+
+    it('should paginate listings with a cursor', async () => {
+      for (const id of [1, 2, 3]) {
+        await store.put(`page:${id}`, String(id))
+      }
+
+      const names: string[] = []
+      let cursor: string | undefined
+      let pages = 0
+      do {
+        const result = await store.list({ prefix: 'page:', limit: 2, cursor })
+        names.push(...result.keys.map(key => key.name))
+        cursor = result.list_complete ? undefined : result.cursor
+        pages++
+      } while (cursor && pages < 10)
+
+      expect(names.sort()).toEqual(['page:1', 'page:2', 'page:3'])
+    })
+  })
+}
+
+/**
+ * IDatabaseStore contract (SQL common to SQLite, PostgreSQL and MySQL)
+ */
+export function describeDatabaseStoreContract(name: string, factory: Factory<IDatabaseStore>) {
+  describe(`${name} (IDatabaseStore contract)`, () => {
+    let db: IDatabaseStore
+
+    beforeEach(async () => {
+      db = await factory()
+      await db.exec('CREATE TABLE IF NOT EXISTS contract_items (id INTEGER PRIMARY KEY, name TEXT)')
+      await db.exec('DELETE FROM contract_items')
+    })
+
+    it('should insert with bound parameters and read rows back', async () => {
+      await db
+        .prepare('INSERT INTO contract_items (id, name) VALUES (?, ?)')
+        .bind(1, "O'Brien")
+        .run()
+
+      const row = await db
+        .prepare('SELECT id, name FROM contract_items WHERE id = ?')
+        .bind(1)
+        .first<{ id: number; name: string }>()
+
+      expect(row).toEqual({ id: 1, name: "O'Brien" })
+    })
+
+    it('should return a single column with first(colName)', async () => {
+      await db.prepare('INSERT INTO contract_items (id, name) VALUES (?, ?)').bind(2, 'two').run()
+
+      const name = await db
+        .prepare('SELECT name FROM contract_items WHERE id = ?')
+        .bind(2)
+        .first<string>('name')
+
+      expect(name).toBe('two')
+    })
+
+    it('should return null when no row matches', async () => {
+      const row = await db.prepare('SELECT * FROM contract_items WHERE id = ?').bind(404).first()
+      expect(row).toBeNull()
+    })
+
+    it('should bind NULL values', async () => {
+      await db.prepare('INSERT INTO contract_items (id, name) VALUES (?, ?)').bind(3, null).run()
+
+      const row = await db
+        .prepare('SELECT name FROM contract_items WHERE id = ?')
+        .bind(3)
+        .first<{ name: string | null }>()
+
+      expect(row?.name).toBeNull()
+    })
+
+    it('should execute batches in order', async () => {
+      const insert = 'INSERT INTO contract_items (id, name) VALUES (?, ?)'
+      await db.batch([db.prepare(insert).bind(10, 'ten'), db.prepare(insert).bind(11, 'eleven')])
+
+      const { results } = await db
+        .prepare('SELECT id, name FROM contract_items ORDER BY id')
+        .all<{ id: number; name: string }>()
+
+      expect(results).toEqual([
+        { id: 10, name: 'ten' },
+        { id: 11, name: 'eleven' }
+      ])
+    })
+  })
+}
+
+/**
+ * IObjectStore contract
+ */
+export function describeObjectStoreContract(name: string, factory: Factory<IObjectStore>) {
+  describe(`${name} (IObjectStore contract)`, () => {
+    let store: IObjectStore
+
+    beforeEach(async () => {
+      store = await factory()
+    })
+
+    it('should return null for missing objects', async () => {
+      expect(await store.get('missing.txt')).toBeNull()
+      expect(await store.head('missing.txt')).toBeNull()
+    })
+
+    it('should store objects with metadata', async () => {
+      await store.put('docs/readme.txt', 'hello world', {
+        httpMetadata: { contentType: 'text/plain' },
+        customMetadata: { owner: 'test' }
+      })
+
+      const object = await store.get('docs/readme.txt')
+      expect(object).not.toBeNull()
+      expect(await new Response(object?.body).text()).toBe('hello world')
+      expect(object?.httpMetadata?.contentType).toBe('text/plain')
+      expect(object?.customMetadata).toEqual({ owner: 'test' })
+
+      const head = await store.head('docs/readme.txt')
+      expect(head?.customMetadata).toEqual({ owner: 'test' })
+    })
+
+    it('should list objects by prefix', async () => {
+      await store.put('list/a.txt', 'a')
+      await store.put('list/b.txt', 'bb')
+      await store.put('other/c.txt', 'c')
+
+      const result = await store.list({ prefix: 'list/' })
+
+      expect(result.objects.map(object => object.key)).toEqual(['list/a.txt', 'list/b.txt'])
+      expect(result.objects[1]?.size).toBe(2)
+      expect(result.objects[0]?.uploaded).toBeInstanceOf(Date)
+      expect(result.truncated).toBe(false)
+    })
+
+    it('should delete objects', async () => {
+      await store.put('tmp.txt', 'tmp')
+      await store.delete('tmp.txt')
+      expect(await store.head('tmp.txt')).toBeNull()
+    })
+  })
+}
+
+/**
+ * ICacheStore contract
+ */
+export function describeCacheStoreContract(name: string, factory: Factory<ICacheStore>) {
+  describe(`${name} (ICacheStore contract)`, () => {
+    let cache: ICacheStore
+    const url = 'https://cache.example.com/resource'
+
+    beforeEach(async () => {
+      cache = await factory()
+    })
+
+    it('should miss for unknown requests', async () => {
+      expect(await cache.match('https://cache.example.com/unknown')).toBeUndefined()
+    })
+
+    it('should store and match cacheable responses', async () => {
+      await cache.put(
+        url,
+        new Response('cached body', {
+          headers: { 'Cache-Control': 'max-age=300', 'Content-Type': 'text/plain' }
+        })
+      )
+
+      const response = await cache.match(url)
+      expect(response?.status).toBe(200)
+      expect(response?.headers.get('Content-Type')).toBe('text/plain')
+      expect(await response?.text()).toBe('cached body')
+    })
+
+    it('should delete cached responses', async () => {
+      await cache.put(url, new Response('x', { headers: { 'Cache-Control': 'max-age=300' } }))
+
+      expect(await cache.delete(url)).toBe(true)
+      expect(await cache.match(url)).toBeUndefined()
+      expect(await cache.delete(url)).toBe(false)
+    })
+  })
+}
@@ -0,0 +1,313 @@
+/**
+ * In-memory fakes of the GCP REST APIs used by the GCP stores.
+ * Install with `global.fetch = createGCPFetch(...)`.
+ */
+
+interface FirestoreDocument {
+  name: string
+  fields: Record<string, Record<string, string>>
+}
+
+interface FieldFilter {
+  field: { fieldPath: string }
+  op: string
+  value: { stringValue: string }
+}
+
+interface GCSObject {
+  resource: Record<string, unknown>
+  content: Uint8Array
+}
+
+export const FIRESTORE_HOST = 'localhost:8080'
+export const STORAGE_HOST = 'http://localhost:4443'
+export const CLOUD_SQL_API = 'https://sqladmin.test/v1'
+export const MEMORYSTORE_URL = 'https://redis.test/'
+
+/**
+ * Firestore documents API (get, patch, delete, runQuery)
+ */
+export class FakeFirestore {
+  documents = new Map<string, FirestoreDocument>()
+
+  handle(url: URL, init: RequestInit): Response | null {
+    if (url.host !== FIRESTORE_HOST) return null
+
+    if (url.pathname.endsWith(':runQuery')) {
+      return this.runQuery(JSON.parse(String(init.body)))
+    }
+
+    const path = url.pathname
+    switch (init.method ?? 'GET') {
+      case 'PATCH': {
+        const { fields } = JSON.parse(String(init.body)) as Pick<FirestoreDocument, 'fields'>
+        const document = { name: path, fields }
+        this.documents.set(path, document)
+        return Response.json(document)
+      }
+      case 'DELETE':
+        this.documents.delete(path)
+        return Response.json({})
+      default: {
+        const document = this.documents.get(path)
+        return document ? Response.json(document) : notFound()
+      }
+    }
+  }
+
+  private runQuery(body: {
+    structuredQuery: {
+      from: Array<{ collectionId: string }>
+      where?: {
+        fieldFilter?: FieldFilter
+        compositeFilter?: { filters: Array<{ fieldFilter: FieldFilter }> }
+      }
+      limit: number
+    }
+  }): Response {
+    const { from, where, limit } = body.structuredQuery
+    const filters = where?.compositeFilter
+      ? where.compositeFilter.filters.map(filter => filter.fieldFilter)
+      : where?.fieldFilter
+        ? [where.fieldFilter]
+        : []
+
+    const documents = [...this.documents.values()]
+      .filter(document => document.name.split('/').at(-2) === from[0]?.collectionId)
+      .filter(document => {
+        const key = document.fields.key?.stringValue ?? ''
+        return filters.every(filter => compare(key, filter.op, filter.value.stringValue))
+      })
+      .sort((a, b) =>
+        (a.fields.key?.stringValue ?? '') < (b.fields.key?.stringValue ?? '') ? -1 : 1
+      )
+      .slice(0, limit)
+
+    return Response.json(documents.map(document => ({ document })))
+  }
+}
+
+/**
+ * Cloud Storage JSON API (multipart upload, get, media, delete, list)
+ */
+export class FakeGCS {
+  objects = new Map<string, GCSObject>()
+
+  handle(url: URL, init: RequestInit): Response | null {
+    if (url.origin !== STORAGE_HOST) return null
+
+    if (url.pathname.startsWith('/upload/')) {
+      return this.upload(init)
+    }
+
+    const match = /^\/storage\/v1\/b\/[^/]+\/o(?:\/(.+))?$/.exec(url.pathname)
+    if (!match) return notFound()
+
+    if (!match[1]) {
+      const prefix = url.searchParams.get('prefix') ?? ''
+      const items = [...this.objects.values()]
+        .filter(object => String(object.resource.name).startsWith(prefix))
+        .sort((a, b) => (String(a.resource.name) < String(b.resource.name) ? -1 : 1))
+        .map(object => object.resource)
+      return Response.json({ items })
+    }
+
+    const name = decodeURIComponent(match[1])
+    const object = this.objects.get(name)
+    if (!object) return notFound()
+
+    if (init.method === 'DELETE') {
+      this.objects.delete(name)
+      return new Response(null, { status: 204 })
+    }
+    if (url.searchParams.get('alt') === 'media') {
+      return new Response(object.content)
+    }
+    return Response.json(object.resource)
+  }
+
+  private upload(init: RequestInit): Response {
+    const boundary = /boundary=(.+)$/.exec(new Headers(init.headers).get('Content-Type') ?? '')?.[1]
+    const body = new TextDecoder().decode(init.body as Uint8Array)
+    const [metadataPart, mediaPart] = body
+      .split(`--${boundary}`)
+      .slice(1, 3)
+      .map(part => part.slice(part.indexOf('\r\n\r\n') + 4, -2))
+
+    const resource = JSON.parse(metadataPart ?? '{}') as Record<string, unknown>
+    const content = new TextEncoder().encode(mediaPart)
+    resource.size = String(content.length)
+    resource.timeCreated = new Date().toISOString()
+
+    this.objects.set(String(resource.name), { resource, content })
+    return Response.json(resource)
+  }
+}
+
+/**
+ * Cloud SQL Admin `executeSql` backed by a D1 (SQLite) database
+ */
+export class FakeCloudSQL {
+  statements: string[] = []
+
+  constructor(private db: D1Database) {}
+
+  async handle(url: URL, init: RequestInit): Promise<Response | null> {
+    if (!url.href.startsWith(CLOUD_SQL_API)) return null
+
+    const { sqlStatement } = JSON.parse(String(init.body)) as { sqlStatement: string }
+    const results = []
+    for (const sql of sqlStatement.split(';\n')) {
+      this.statements.push(sql)
+      // D1 has no interactive transactions; each request here runs alone anyway
+      if (/^(BEGIN|START TRANSACTION|COMMIT)$/i.test(sql)) continue
+
+      const { results: rows, meta } = await this.db.prepare(sql).all<Record<string, unknown>>()
+      // Statements without a result set produce no output, like the real API
+      if (/^(CREATE|DROP|ALTER)\b/i.test(sql)) continue
+
+      const names = rows[0] ? Object.keys(rows[0]) : []
+      results.push({
+        columns: names.map(name => ({
+          name,
+          type: rows.some(row => typeof row[name] === 'number') ? 'INT64' : 'STRING'
+        })),
+        rows: rows.map(row => ({
+          values: names.map(name =>
+            row[name] === null ? { nullValue: true } : { value: String(row[name]) }
+          )
+        })),
+        message: `${sql.split(' ')[0]?.toUpperCase()} ${meta.changes ?? 0}`
+      })
+    }
+
+    return Response.json({ results })
+  }
+}
+
+/**
+ * Redis REST gateway (GET, SET, DEL, SCAN, MGET, ZADD, ZREM, ZRANGEBYLEX)
+ */
+export class FakeRedis {
+  entries = new Map<string, { value: string; expiresAt?: number }>()
+  sortedSets = new Map<string, Set<string>>()
+
+  handle(url: URL, init: RequestInit): Response | null {
+    if (url.href !== MEMORYSTORE_URL) return null
+
+    const [command, ...args] = JSON.parse(String(init.body)) as Array<string | number>
+    return Response.json({ result: this.execute(String(command), args.map(String)) })
+  }
+
+  private execute(command: string, args: string[]): unknown {
+    switch (command) {
+      case 'GET':
+        return this.read(args[0] as string)
+      case 'SET': {
+        const ex = args.indexOf('EX')
+        this.entries.set(args[0] as string, {
+          value: args[1] as string,
+          expiresAt: ex > 0 ? Date.now() + Number(args[ex + 1]) * 1000 : undefined
+        })
+        return 'OK'
+      }
+      case 'DEL':
+        return this.entries.delete(args[0] as string) ? 1 : 0
+      case 'MGET':
+        return args.map(key => this.read(key))
+      case 'SCAN': {
+        // Like Redis: no order, and COUNT is only a hint (the first page is empty)
+        const cursor = Number(args[0])
+        if (!cursor) return ['1', []]
+
+        const pattern = globToRegExp(args[args.indexOf('MATCH') + 1] as string)
+        const size = Number(args[args.indexOf('COUNT') + 1]) + 1
+        const keys = [...this.entries.keys()].filter(key => pattern.test(key)).reverse()
+        const end = cursor - 1 + size
+        return [end < keys.length ? String(end + 1) : '0', keys.slice(cursor - 1, end)]
+      }
+      case 'ZADD': {
+        const members = this.sortedSets.get(args[0] as string) ?? new Set<string>()
+        this.sortedSets.set(args[0] as string, members.add(args[2] as string))
+        return 1
+      }
+      case 'ZREM':
+        return args
+          .slice(1)
+          .filter(member => this.sortedSets.get(args[0] as string)?.delete(member)).length
+      case 'ZRANGEBYLEX': {
+        const [key, min, max] = args as [string, string, string]
+        const offset = Number(args[args.indexOf('LIMIT') + 1])
+        const count = Number(args[args.indexOf('LIMIT') + 2])
+        return [...(this.sortedSets.get(key) ?? [])]
+          .sort()
+          .filter(member => inLexRange(member, min, max))
+          .slice(offset, offset + count)
+      }
+      default:
+        throw new Error(`Unsupported command ${command}`)
+    }
+  }
+
+  private read(key: string): string | null {
+    const entry = this.entries.get(key)
+    if (!entry || (entry.expiresAt && entry.expiresAt <= Date.now())) return null
+    return entry.value
+  }
+}
+
+type Handler = (url: URL, init: RequestInit) => Response | null | Promise<Response | null>
+
+/**
+ * Route fetch calls to the first fake that accepts the URL
+ */
+export function createGCPFetch(...fakes: Array<{ handle: Handler }>): typeof fetch {
+  return (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url)
+    for (const fake of fakes) {
+      const response = await fake.handle(url, init)
+      if (response) return response
+    }
+    throw new Error(`Unexpected request to ${url.href}`)
+  }) as typeof fetch
+}
+
+function compare(key: string, op: string, value: string): boolean {
+  switch (op) {
+    case 'GREATER_THAN':
+      return key > value
+    case 'GREATER_THAN_OR_EQUAL':
+      return key >= value
+    case 'LESS_THAN':
+      return key < value
+    default:
+      throw new Error(`Unsupported operator ${op}`)
+  }
+}
+
+function inLexRange(member: string, min: string, max: string): boolean {
+  const above =
+    min === '-' || (min.startsWith('(') ? member > min.slice(1) : member >= min.slice(1))
+  const below =
+    max === '+' || (max.startsWith('(') ? member < max.slice(1) : member <= max.slice(1))
+  return above && below
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string
+    if (char === '\\') {
+      source += (pattern[++i] ?? '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    } else if (char === '*') {
+      source += '.*'
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+function notFound(): Response {
+  return Response.json({ error: { message: 'Not found', status: 'NOT_FOUND' } }, { status: 404 })
+}
@@ -0,0 +1,304 @@
+import { env } from 'cloudflare:test'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  describeCacheStoreContract,
+  describeDatabaseStoreContract,
+  describeKeyValueStoreContract,
+  describeObjectStoreContract
+} from '../../__tests__/storage-contract'
+import { GCPConnector } from '../gcp-connector'
+import { CloudSQLDatabaseStore } from '../storage/cloud-sql-database-store'
+import { FirestoreKeyValueStore } from '../storage/firestore-kv-store'
+import { GCPCacheStore } from '../storage/gcp-cache-store'
+import { GCPAPIError, GCPClient } from '../storage/gcp-client'
+import { GCSObjectStore } from '../storage/gcs-object-store'
+import { MemorystoreKeyValueStore } from '../storage/memorystore-kv-store'
+
+import {
+  CLOUD_SQL_API,
+  createGCPFetch,
+  FakeCloudSQL,
+  FakeFirestore,
+  FakeGCS,
+  FakeRedis,
+  FIRESTORE_HOST,
+  MEMORYSTORE_URL,
+  STORAGE_HOST
+} from './gcp-fakes'
+
+const DB = (env as unknown as { DB: D1Database }).DB
+
+const originalFetch = global.fetch
+let firestore: FakeFirestore
+let gcs: FakeGCS
+let cloudSql: FakeCloudSQL
+let redis: FakeRedis
+
+beforeEach(() => {
+  firestore = new FakeFirestore()
+  gcs = new FakeGCS()
+  cloudSql = new FakeCloudSQL(DB)
+  redis = new FakeRedis()
+  global.fetch = createGCPFetch(firestore, gcs, cloudSql, redis)
+})
+
+afterEach(() => {
+  global.fetch = originalFetch
+  vi.restoreAllMocks()
+})
+
+const client = new GCPClient({ anonymous: true })
+
+function createFirestore(collection = 'sessions') {
+  return new FirestoreKeyValueStore(client, {
+    projectId: 'test-project',
+    collection,
+    emulatorHost: FIRESTORE_HOST
+  })
+}
+
+function createCloudSQL() {
+  return new CloudSQLDatabaseStore(client, {
+    projectId: 'test-project',
+    instance: 'main',
+    database: 'bot',
+    apiUrl: CLOUD_SQL_API
+  })
+}
+
+function createMemorystore() {
+  return new MemorystoreKeyValueStore({ url: MEMORYSTORE_URL, keyPrefix: 'test:' })
+}
+
+describeKeyValueStoreContract('FirestoreKeyValueStore', () => createFirestore())
+describeKeyValueStoreContract('MemorystoreKeyValueStore', createMemorystore)
+describeDatabaseStoreContract('CloudSQLDatabaseStore', createCloudSQL)
+describeObjectStoreContract('GCSObjectStore', () => {
+  return new GCSObjectStore(client, { bucket: 'assets', emulatorHost: STORAGE_HOST })
+})
+describeCacheStoreContract('GCPCacheStore (Firestore)', () => new GCPCacheStore(createFirestore()))
+describeCacheStoreContract('GCPCacheStore (Memorystore)', () => {
+  return new GCPCacheStore(createMemorystore())
+})
+
+describe('FirestoreKeyValueStore', () => {
+  it('should treat expired documents as missing', async () => {
+    const store = createFirestore()
+    await store.put('temp', 'value', { expirationTtl: 60 })
+    expect(await store.get('temp')).toBe('value')
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000)
+    expect(await store.get('temp')).toBeNull()
+    expect((await store.list()).keys).toEqual([])
+  })
+
+  it('should keep collections separate', async () => {
+    await createFirestore('a').put('key', 'a')
+    expect(await createFirestore('b').get('key')).toBeNull()
+  })
+})
+
+describe('MemorystoreKeyValueStore', () => {
+  it('should return full pages in key order', async () => {
+    const store = createMemorystore()
+    for (const id of [5, 3, 1, 4, 2]) {
+      await store.put(`page:${id}`, String(id))
+    }
+    await store.put('pages', 'x')
+
+    const first = await store.list({ prefix: 'page:', limit: 2 })
+    const second = await store.list({ prefix: 'page:', limit: 2, cursor: first.cursor })
+    const last = await store.list({ prefix: 'page:', limit: 2, cursor: second.cursor })
+
+    expect([first, second, last].map(page => page.keys.map(key => key.name))).toEqual([
+      ['page:1', 'page:2'],
+      ['page:3', 'page:4'],
+      ['page:5']
+    ])
+    expect([first, second, last].map(page => page.list_complete)).toEqual([false, false, true])
+  })
+
+  it('should skip expired and deleted keys', async () => {
+    const store = createMemorystore()
+    await store.put('a', '1', { expirationTtl: 60 })
+    await store.put('b', '2')
+    await store.put('c', '3')
+    await store.delete('b')
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000)
+    const result = await store.list({ limit: 1 })
+
+    expect(result.keys.map(key => key.name)).toEqual(['c'])
+    expect(result.list_complete).toBe(true)
+    expect([...(redis.sortedSets.values().next().value ?? [])]).toEqual(['c'])
+  })
+})
+
+describe('GCPCacheStore', () => {
+  it('should not cache private or no-store responses', async () => {
+    const cache = new GCPCacheStore(createFirestore())
+    const url = 'https://cache.example.com/private'
+
+    await cache.put(url, new Response('secret', { headers: { 'Cache-Control': 'private' } }))
+    await cache.put(url, new Response('secret', { headers: { 'Cache-Control': 'no-store' } }))
+
+    expect(await cache.match(url)).toBeUndefined()
+  })
+
+  it('should expire entries after max-age', async () => {
+    const cache = new GCPCacheStore(createMemorystore())
+    const url = 'https://cache.example.com/short'
+    await cache.put(url, new Response('x', { headers: { 'Cache-Control': 'max-age=10' } }))
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 11_000)
+    expect(await cache.match(url)).toBeUndefined()
+  })
+})
+
+describe('CloudSQLDatabaseStore', () => {
+  it('should send bound values as escaped literals', async () => {
+    const db = createCloudSQL()
+    await db.exec('CREATE TABLE notes (id INTEGER, body TEXT)')
+    await db.prepare('INSERT INTO notes (id, body) VALUES (?, ?)').bind(1, "it's ?").run()
+
+    expect(cloudSql.statements.at(-1)).toBe("INSERT INTO notes (id, body) VALUES (1, 'it''s ?')")
+    expect(await db.prepare('SELECT body FROM notes').first('body')).toBe("it's ?")
+  })
+
+  it('should report affected rows', async () => {
+    const db = createCloudSQL()
+    await db.exec('CREATE TABLE counters (id INTEGER)')
+    const { meta } = await db.prepare('INSERT INTO counters (id) VALUES (?), (?)').bind(1, 2).run()
+
+    expect(meta).toMatchObject({ changes: 2 })
+  })
+
+  it('should match batch results to statements without a result set', async () => {
+    const db = createCloudSQL()
+    const [created, inserted, selected] = await db.batch<{
+      results: Array<Record<string, unknown>>
+      meta: { changes?: number }
+    }>([
+      db.prepare('CREATE TABLE tags (name TEXT)'),
+      db.prepare('INSERT INTO tags (name) VALUES (?)').bind('a'),
+      db.prepare('SELECT name FROM tags')
+    ])
+
+    expect(created).toEqual({ results: [], meta: {} })
+    expect(inserted?.meta).toMatchObject({ changes: 1 })
+    expect(selected?.results).toEqual([{ name: 'a' }])
+    expect(cloudSql.statements[0]).toBe('BEGIN')
+    expect(cloudSql.statements.at(-1)).toBe('COMMIT')
+  })
+
+  it('should surface API errors', async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        Response.json(
+          { error: { message: 'Instance not found', status: 'NOT_FOUND' } },
+          { status: 404 }
+        )
+      ) as unknown as typeof fetch
+
+    await expect(createCloudSQL().exec('SELECT 1')).rejects.toMatchObject({
+      name: 'GCPAPIError',
+      status: 404,
+      reason: 'NOT_FOUND'
+    })
+  })
+})
+
+describe('GCPClient', () => {
+  it('should send the configured access token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(Response.json({ ok: true }))
+    global.fetch = fetchMock as unknown as typeof fetch
+
+    await new GCPClient({ accessToken: 'token-123' }).json('https://api.test/resource')
+
+    const headers = fetchMock.mock.calls[0]?.[1]?.headers as Headers
+    expect(headers.get('Authorization')).toBe('Bearer token-123')
+  })
+
+  it('should fetch and cache tokens from the metadata server', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(Response.json({ access_token: 'meta-token', expires_in: 3600 }))
+      .mockResolvedValue(Response.json({}))
+    global.fetch = fetchMock as unknown as typeof fetch
+
+    const metadataClient = new GCPClient()
+    await metadataClient.request('https://api.test/a')
+    await metadataClient.request('https://api.test/b')
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain('metadata.google.internal')
+    const headers = fetchMock.mock.calls[2]?.[1]?.headers as Headers
+    expect(headers.get('Authorization')).toBe('Bearer meta-token')
+  })
+
+  it('should throw GCPAPIError for failed requests', async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        Response.json(
+          { error: { message: 'Denied', status: 'PERMISSION_DENIED' } },
+          { status: 403 }
+        )
+      ) as unknown as typeof fetch
+
+    const error = await client.request('https://api.test/resource').catch(e => e)
+    expect(error).toBeInstanceOf(GCPAPIError)
+    expect(error).toMatchObject({ message: 'Denied', status: 403, reason: 'PERMISSION_DENIED' })
+  })
+})
+
+describe('GCPConnector stores', () => {
+  const baseEnv = {
+    GCP_PROJECT_ID: 'test-project',
+    FIRESTORE_EMULATOR_HOST: FIRESTORE_HOST,
+    STORAGE_EMULATOR_HOST: STORAGE_HOST
+  }
+
+  it('should map namespaces and buckets through the configured mappings', async () => {
+    const connector = new GCPConnector({
+      env: {
+        ...baseEnv,
+        FIRESTORE_COLLECTIONS: { sessions: 'bot-sessions' },
+        GCS_BUCKETS: { files: 'bot-files' }
+      }
+    })
+
+    await connector.getKeyValueStore('sessions').put('user:1', 'data')
+    await connector.getObjectStore('files').put('doc.txt', 'content')
+
+    expect([...firestore.documents.keys()][0]).toContain('/documents/bot-sessions/')
+    expect(await createFirestore('bot-sessions').get('user:1')).toBe('data')
+    expect(gcs.objects.has('doc.txt')).toBe(true)
+  })
+
+  it('should use Memorystore for the cache when configured', async () => {
+    const connector = new GCPConnector({
+      env: { ...baseEnv, MEMORYSTORE_REST_URL: MEMORYSTORE_URL }
+    })
+
+    await connector
+      .getCacheStore()
+      .put(
+        'https://example.com/',
+        new Response('x', { headers: { 'Cache-Control': 'max-age=60' } })
+      )
+
+    expect([...redis.entries.keys()]).toEqual(['wireframe-cache:cache:https://example.com/'])
+  })
+
+  it('should require a Cloud SQL instance and project', () => {
+    expect(() => new GCPConnector({ env: baseEnv }).getDatabaseStore('bot')).toThrow(
+      'CLOUD_SQL_INSTANCE'
+    )
+    expect(() => new GCPConnector({ env: {} }).getKeyValueStore('sessions')).toThrow(
+      'GCP_PROJECT_ID'
+    )
+  })
+})
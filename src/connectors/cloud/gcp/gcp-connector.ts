@@ -12,13 +12,41 @@ import type {
   ResourceConstraints
 } from '../../../core/interfaces'
 
+import type { CloudSQLDialect } from './storage/cloud-sql-database-store'
+import { CloudSQLDatabaseStore } from './storage/cloud-sql-database-store'
+import { FirestoreKeyValueStore } from './storage/firestore-kv-store'
+import { GCPCacheStore } from './storage/gcp-cache-store'
+import { GCPClient, parseServiceAccountKey } from './storage/gcp-client'
+import { GCSObjectStore } from './storage/gcs-object-store'
+import { MemorystoreKeyValueStore } from './storage/memorystore-kv-store'
+
 export interface GCPConfig {
   env: {
     GCP_PROJECT_ID?: string
     GOOGLE_APPLICATION_CREDENTIALS?: string
+    GCP_SERVICE_ACCOUNT_KEY?: string
+    GCP_ACCESS_TOKEN?: string
+
+    // Firestore (key-value)
+    FIRESTORE_DATABASE?: string
+    FIRESTORE_EMULATOR_HOST?: string
+
+    // Cloud SQL (database)
+    CLOUD_SQL_INSTANCE?: string
+    CLOUD_SQL_USER?: string
+    CLOUD_SQL_DIALECT?: CloudSQLDialect
+    CLOUD_SQL_API_URL?: string
+
+    // Cloud Storage (objects)
+    STORAGE_EMULATOR_HOST?: string
+
+    // Memorystore REST gateway (cache)
+    MEMORYSTORE_REST_URL?: string
+    MEMORYSTORE_REST_TOKEN?: string
 
     // Service mappings
     FIRESTORE_COLLECTIONS?: Record<string, string>
+    CLOUD_SQL_DATABASES?: Record<string, string>
     GCS_BUCKETS?: Record<string, string>
 
     [key: string]: unknown
@@ -28,28 +56,77 @@ export interface GCPConfig {
 export class GCPConnector implements ICloudPlatformConnector {
   readonly platform = 'gcp'
 
+  private client: GCPClient
+  private emulatorClient = new GCPClient({ anonymous: true })
+
   constructor(private config: GCPConfig) {
-    // TODO: Initialize GCP SDK
+    this.client = new GCPClient({
+      accessToken: config.env.GCP_ACCESS_TOKEN,
+      serviceAccountKey: parseServiceAccountKey(
+        config.env.GCP_SERVICE_ACCOUNT_KEY ?? config.env.GOOGLE_APPLICATION_CREDENTIALS
+      )
+    })
   }
 
-  getKeyValueStore(_namespace: string): IKeyValueStore {
-    // TODO: Return Firestore-based key-value store
-    throw new Error('GCP KV store not implemented yet')
+  getKeyValueStore(namespace: string): IKeyValueStore {
+    // Firestore collection per namespace
+    const collection = this.config.env.FIRESTORE_COLLECTIONS?.[namespace] || namespace
+    const emulatorHost = this.config.env.FIRESTORE_EMULATOR_HOST
+    // Emulators accept unauthenticated requests
+    return new FirestoreKeyValueStore(emulatorHost ? this.emulatorClient : this.client, {
+      projectId: this.getProjectId(),
+      collection,
+      database: this.config.env.FIRESTORE_DATABASE,
+      emulatorHost
+    })
   }
 
-  getDatabaseStore(_name: string): IDatabaseStore {
-    // TODO: Return Cloud SQL/Spanner-based database store
-    throw new Error('GCP database store not implemented yet')
+  getDatabaseStore(name: string): IDatabaseStore {
+    // Cloud SQL database via the Admin API executeSql endpoint
+    const instance = this.config.env.CLOUD_SQL_INSTANCE
+    if (!instance) {
+      throw new Error('CLOUD_SQL_INSTANCE is required for the GCP database store')
+    }
+
+    return new CloudSQLDatabaseStore(this.client, {
+      projectId: this.getProjectId(),
+      instance,
+      database: this.config.env.CLOUD_SQL_DATABASES?.[name] || name,
+      user: this.config.env.CLOUD_SQL_USER,
+      dialect: this.config.env.CLOUD_SQL_DIALECT,
+      apiUrl: this.config.env.CLOUD_SQL_API_URL
+    })
   }
 
-  getObjectStore(_bucket: string): IObjectStore {
-    // TODO: Return Cloud Storage-based object store
-    throw new Error('GCP object store not implemented yet')
+  getObjectStore(bucket: string): IObjectStore {
+    // Cloud Storage bucket
+    const actualBucket = this.config.env.GCS_BUCKETS?.[bucket] || bucket
+    const emulatorHost = this.config.env.STORAGE_EMULATOR_HOST
+    return new GCSObjectStore(emulatorHost ? this.emulatorClient : this.client, {
+      bucket: actualBucket,
+      emulatorHost
+    })
   }
 
   getCacheStore(): ICacheStore {
-    // TODO: Return Memorystore/CDN-based cache store
-    throw new Error('GCP cache store not implemented yet')
+    // Memorystore when a REST gateway is configured, Firestore otherwise
+    const { MEMORYSTORE_REST_URL, MEMORYSTORE_REST_TOKEN } = this.config.env
+    const kv = MEMORYSTORE_REST_URL
+      ? new MemorystoreKeyValueStore({
+          url: MEMORYSTORE_REST_URL,
+          token: MEMORYSTORE_REST_TOKEN,
+          keyPrefix: 'wireframe-cache:'
+        })
+      : this.getKeyValueStore('wireframe-cache')
+    return new GCPCacheStore(kv)
+  }
+
+  private getProjectId(): string {
+    const projectId = this.config.env.GCP_PROJECT_ID
+    if (!projectId) {
+      throw new Error('GCP_PROJECT_ID is required for the GCP connector')
+    }
+    return projectId
   }
 
   getEnv(): Record<string, string | undefined> {
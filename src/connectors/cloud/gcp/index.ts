@@ -4,3 +4,4 @@
 
 export { GCPConnector } from './gcp-connector'
 export type { GCPConfig } from './gcp-connector'
+export * from './storage'
@@ -0,0 +1,229 @@
+/**
+ * Google Cloud SQL implementation of IDatabaseStore
+ *
+ * Uses the Cloud SQL Admin API `executeSql` endpoint, which runs statements over
+ * HTTPS with IAM authentication and therefore works from serverless runtimes
+ * without a socket connection. The endpoint has no parameter binding, so bound
+ * values are rendered as escaped SQL literals before the statement is sent.
+ */
+
+import { bindParameters } from '../../../../core/database/sql-binding'
+import type {
+  D1RunMeta,
+  IDatabaseStore,
+  IPreparedStatement
+} from '../../../../core/interfaces/storage'
+
+import type { GCPClient } from './gcp-client'
+
+export type CloudSQLDialect = 'postgres' | 'mysql'
+
+export interface CloudSQLDatabaseStoreOptions {
+  projectId: string
+  instance: string
+  database: string
+  /**
+   * Database user for IAM authentication (defaults to the caller identity)
+   */
+  user?: string
+  dialect?: CloudSQLDialect
+  /**
+   * Override the API base URL (proxies, tests)
+   */
+  apiUrl?: string
+}
+
+interface ExecuteSqlResponse {
+  results?: Array<{
+    columns?: Array<{ name: string; type?: string }>
+    rows?: Array<{ values?: Array<{ value?: string; nullValue?: boolean }> }>
+    message?: string
+  }>
+  status?: { code?: number; message?: string }
+}
+
+interface StatementOutput {
+  rows: Record<string, unknown>[]
+  meta: D1RunMeta
+}
+
+/** Column of the marker queries that delimit batch statements */
+const BATCH_MARKER = '__batch_marker'
+
+export class CloudSQLDatabaseStore implements IDatabaseStore {
+  private readonly endpoint: string
+
+  constructor(
+    private client: GCPClient,
+    private options: CloudSQLDatabaseStoreOptions
+  ) {
+    const apiUrl = options.apiUrl || 'https://sqladmin.googleapis.com/v1'
+    this.endpoint = `${apiUrl}/projects/${options.projectId}/instances/${options.instance}:executeSql`
+  }
+
+  prepare(query: string): IPreparedStatement {
+    return new CloudSQLPreparedStatement(this, query)
+  }
+
+  async exec(query: string): Promise<void> {
+    await this.execute(query)
+  }
+
+  async batch<T = unknown>(statements: IPreparedStatement[]): Promise<T[]> {
+    const sql = statements.map(statement => {
+      if (statement instanceof CloudSQLPreparedStatement) {
+        return statement.toSQL()
+      }
+      throw new Error('Invalid statement type for Cloud SQL batch')
+    })
+
+    // executeSql reports nothing for statements without a result set, so a
+    // marker query after each statement tells whose output is whose
+    const dialect = this.options.dialect ?? 'postgres'
+    const script = [
+      dialect === 'mysql' ? 'START TRANSACTION' : 'BEGIN',
+      `SELECT -1 AS ${BATCH_MARKER}`,
+      ...sql.flatMap((statement, index) => [statement, `SELECT ${index} AS ${BATCH_MARKER}`]),
+      'COMMIT'
+    ]
+    const outputs = await this.execute(script.join(';\n'))
+
+    const byStatement: Array<StatementOutput | undefined> = sql.map(() => undefined)
+    let current: number | undefined
+    for (const output of outputs) {
+      const marker = getBatchMarker(output)
+      if (marker !== undefined) {
+        current = marker + 1
+      } else if (current !== undefined && current < sql.length) {
+        byStatement[current] = output
+      }
+    }
+
+    return byStatement.map(output => ({
+      results: output?.rows ?? [],
+      meta: output?.meta ?? {}
+    })) as T[]
+  }
+
+  /**
+   * Render a statement with bound values inlined as literals
+   */
+  render(query: string, values: unknown[]): string {
+    return bindParameters(query, values, this.options.dialect ?? 'postgres')
+  }
+
+  /**
+   * Execute SQL and return the output of every statement
+   */
+  async execute(sql: string): Promise<StatementOutput[]> {
+    const started = Date.now()
+    const response = await this.client.json<ExecuteSqlResponse>(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        database: this.options.database,
+        sqlStatement: sql,
+        ...(this.options.user ? { user: this.options.user } : {}),
+        autoIamAuthn: true
+      })
+    })
+
+    if (response.status?.code) {
+      throw new Error(`Cloud SQL error: ${response.status.message || response.status.code}`)
+    }
+
+    const duration = Date.now() - started
+    return (response.results ?? []).map(result => {
+      const columns = result.columns ?? []
+      const rows = (result.rows ?? []).map(row => {
+        const record: Record<string, unknown> = {}
+        columns.forEach((column, index) => {
+          const cell = row.values?.[index]
+          record[column.name] =
+            !cell || cell.nullValue ? null : parseValue(cell.value ?? '', column.type)
+        })
+        return record
+      })
+
+      return {
+        rows,
+        meta: {
+          duration,
+          changes: parseAffectedRows(result.message),
+          rows_read: rows.length
+        }
+      }
+    })
+  }
+}
+
+function getBatchMarker(output: StatementOutput): number | undefined {
+  const [row] = output.rows
+  if (output.rows.length !== 1 || !row || Object.keys(row).length !== 1) return undefined
+
+  const marker = row[BATCH_MARKER]
+  return marker === undefined || marker === null ? undefined : Number(marker)
+}
+
+class CloudSQLPreparedStatement implements IPreparedStatement {
+  private values: unknown[] = []
+
+  constructor(
+    private store: CloudSQLDatabaseStore,
+    private query: string
+  ) {}
+
+  bind(...values: unknown[]): IPreparedStatement {
+    this.values = values
+    return this
+  }
+
+  async first<T = unknown>(colName?: string): Promise<T | null> {
+    const { results } = await this.all<Record<string, unknown>>()
+    const row = results[0]
+    if (!row) return null
+    return (colName ? (row[colName] ?? null) : row) as T | null
+  }
+
+  async all<T = unknown>(): Promise<{ results: T[]; meta: unknown }> {
+    const [output] = await this.store.execute(this.toSQL())
+    return {
+      results: (output?.rows ?? []) as T[],
+      meta: output?.meta ?? {}
+    }
+  }
+
+  async run(): Promise<{ meta: unknown; success?: boolean }> {
+    const [output] = await this.store.execute(this.toSQL())
+    return { meta: output?.meta ?? {}, success: true }
+  }
+
+  /**
+   * Statement SQL with bound values inlined (used for batches)
+   */
+  toSQL(): string {
+    return this.store.render(this.query, this.values)
+  }
+}
+
+const NUMERIC_TYPE = /INT|SERIAL|NUMERIC|DECIMAL|REAL|FLOAT|DOUBLE/i
+const BOOLEAN_TYPE = /BOOL/i
+
+function parseValue(value: string, type?: string): unknown {
+  if (type && BOOLEAN_TYPE.test(type)) {
+    return value === 'true' || value === 't' || value === '1'
+  }
+  if (type && NUMERIC_TYPE.test(type)) {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : value
+  }
+  return value
+}
+
+/**
+ * Extract the affected row count from a command tag such as `UPDATE 3` or `INSERT 0 1`
+ */
+function parseAffectedRows(message?: string): number | undefined {
+  const match = message ? /(\d+)\s*$/.exec(message) : null
+  return match ? Number(match[1]) : undefined
+}
@@ -0,0 +1,224 @@
+/**
+ * Google Cloud Firestore implementation of IKeyValueStore
+ *
+ * Each key is a document in a collection. Expiration is stored in `expiresAt`
+ * (configure a Firestore TTL policy on that field to purge expired documents);
+ * reads treat expired documents as missing.
+ */
+
+import type { IKeyValueStore, KVListResult } from '../../../../core/interfaces/storage'
+
+import type { GCPClient } from './gcp-client'
+import { base64ToBytes, bytesToBase64, toBytes } from './gcp-client'
+
+export interface FirestoreKeyValueStoreOptions {
+  projectId: string
+  collection: string
+  database?: string
+  /**
+   * Emulator host (FIRESTORE_EMULATOR_HOST), e.g. `localhost:8080`
+   */
+  emulatorHost?: string
+}
+
+interface FirestoreValue {
+  stringValue?: string
+  bytesValue?: string
+  timestampValue?: string
+}
+
+interface FirestoreDocument {
+  name: string
+  fields?: Record<string, FirestoreValue>
+}
+
+const DEFAULT_LIST_LIMIT = 1000
+
+export class FirestoreKeyValueStore implements IKeyValueStore {
+  private readonly baseUrl: string
+  private readonly documentsPath: string
+
+  constructor(
+    private client: GCPClient,
+    private options: FirestoreKeyValueStoreOptions
+  ) {
+    this.baseUrl = options.emulatorHost
+      ? `http://${options.emulatorHost}/v1`
+      : 'https://firestore.googleapis.com/v1'
+    this.documentsPath = `projects/${options.projectId}/databases/${
+      options.database || '(default)'
+    }/documents`
+  }
+
+  async get<T = string>(key: string): Promise<T | null> {
+    const { value } = await this.getWithMetadata<T>(key)
+    return value
+  }
+
+  async getWithMetadata<T = string>(
+    key: string
+  ): Promise<{
+    value: T | null
+    metadata: Record<string, unknown> | null
+  }> {
+    const response = await this.client.request(this.documentUrl(key), {}, true)
+    if (!response) return { value: null, metadata: null }
+
+    const document = (await response.json()) as FirestoreDocument
+    if (this.isExpired(document)) {
+      return { value: null, metadata: null }
+    }
+
+    const fields = document.fields ?? {}
+    const raw = fields.value?.bytesValue
+      ? new TextDecoder().decode(base64ToBytes(fields.value.bytesValue))
+      : (fields.value?.stringValue ?? '')
+
+    // Try to parse as JSON, fall back to raw value
+    let value: T
+    try {
+      value = JSON.parse(raw) as T
+    } catch {
+      value = raw as T
+    }
+
+    return {
+      value,
+      metadata: fields.metadata?.stringValue
+        ? (JSON.parse(fields.metadata.stringValue) as Record<string, unknown>)
+        : null
+    }
+  }
+
+  async put(
+    key: string,
+    value: string | ArrayBuffer | ArrayBufferView | ReadableStream,
+    options?: {
+      expirationTtl?: number
+      metadata?: Record<string, unknown>
+    }
+  ): Promise<void> {
+    const fields: Record<string, FirestoreValue> = {
+      key: { stringValue: key }
+    }
+
+    if (typeof value === 'string') {
+      fields.value = { stringValue: value }
+    } else if (
+      value instanceof ArrayBuffer ||
+      ArrayBuffer.isView(value) ||
+      value instanceof ReadableStream
+    ) {
+      fields.value = { bytesValue: bytesToBase64(await toBytes(value)) }
+    } else {
+      // Plain objects are stored as JSON like in Cloudflare KV
+      fields.value = { stringValue: JSON.stringify(value) }
+    }
+
+    if (options?.metadata) {
+      fields.metadata = { stringValue: JSON.stringify(options.metadata) }
+    }
+
+    if (options?.expirationTtl) {
+      fields.expiresAt = {
+        timestampValue: new Date(Date.now() + options.expirationTtl * 1000).toISOString()
+      }
+    }
+
+    // PATCH without an update mask creates or fully replaces the document
+    await this.client.request(this.documentUrl(key), {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fields })
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.request(this.documentUrl(key), { method: 'DELETE' }, true)
+  }
+
+  async list(options?: {
+    prefix?: string
+    limit?: number
+    cursor?: string
+  }): Promise<KVListResult> {
+    const limit = options?.limit ?? DEFAULT_LIST_LIMIT
+    const filters: unknown[] = []
+
+    if (options?.prefix) {
+      filters.push(keyFilter('GREATER_THAN_OR_EQUAL', options.prefix))
+      filters.push(keyFilter('LESS_THAN', `${options.prefix}\uf8ff`))
+    }
+    if (options?.cursor) {
+      filters.push(keyFilter('GREATER_THAN', options.cursor))
+    }
+
+    const structuredQuery: Record<string, unknown> = {
+      from: [{ collectionId: this.options.collection }],
+      orderBy: [{ field: { fieldPath: 'key' }, direction: 'ASCENDING' }],
+      // Fetch one extra document to know whether the listing is complete
+      limit: limit + 1
+    }
+    if (filters.length === 1) {
+      structuredQuery.where = filters[0]
+    } else if (filters.length > 1) {
+      structuredQuery.where = { compositeFilter: { op: 'AND', filters } }
+    }
+
+    const rows = await this.client.json<Array<{ document?: FirestoreDocument }>>(
+      `${this.baseUrl}/${this.documentsPath}:runQuery`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ structuredQuery })
+      }
+    )
+
+    const documents = rows.flatMap(row => (row.document ? [row.document] : []))
+    const page = documents.slice(0, limit)
+    const listComplete = documents.length <= limit
+    const lastKey = page[page.length - 1]?.fields?.key?.stringValue
+
+    return {
+      keys: page
+        .filter(document => !this.isExpired(document))
+        .map(document => {
+          const metadata = document.fields?.metadata?.stringValue
+          return {
+            name: document.fields?.key?.stringValue ?? '',
+            ...(metadata ? { metadata: JSON.parse(metadata) as Record<string, unknown> } : {})
+          }
+        }),
+      list_complete: listComplete,
+      cursor: listComplete ? undefined : lastKey
+    }
+  }
+
+  private documentUrl(key: string): string {
+    return `${this.baseUrl}/${this.documentsPath}/${this.options.collection}/${toDocumentId(key)}`
+  }
+
+  private isExpired(document: FirestoreDocument): boolean {
+    const expiresAt = document.fields?.expiresAt?.timestampValue
+    return !!expiresAt && new Date(expiresAt).getTime() <= Date.now()
+  }
+}
+
+/**
+ * Document IDs cannot contain `/` or be `.`/`..`, so keys are URI-encoded
+ * (the original key is kept in the `key` field for listing)
+ */
+function toDocumentId(key: string): string {
+  const documentId = encodeURIComponent(key).replace(/\./g, '%2E')
+  return encodeURIComponent(documentId)
+}
+
+function keyFilter(op: string, value: string) {
+  return {
+    fieldFilter: {
+      field: { fieldPath: 'key' },
+      op,
+      value: { stringValue: value }
+    }
+  }
+}
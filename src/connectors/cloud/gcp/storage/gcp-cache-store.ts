@@ -0,0 +1,79 @@
+/**
+ * ICacheStore implementation for GCP backed by a key-value store
+ * (Memorystore when configured, Firestore otherwise)
+ */
+
+import type { ICacheStore, IKeyValueStore } from '../../../../core/interfaces/storage'
+
+import { base64ToBytes, bytesToBase64 } from './gcp-client'
+
+interface CachedResponse {
+  status: number
+  statusText: string
+  headers: Array<[string, string]>
+  body: string
+}
+
+const DEFAULT_TTL_SECONDS = 3600
+
+export class GCPCacheStore implements ICacheStore {
+  constructor(
+    private kv: IKeyValueStore,
+    private defaultTtl = DEFAULT_TTL_SECONDS
+  ) {}
+
+  async match(request: Request | string): Promise<Response | undefined> {
+    const entry = await this.kv.get<CachedResponse>(this.getKey(request))
+    if (!entry || typeof entry !== 'object') return undefined
+
+    return new Response(entry.body ? base64ToBytes(entry.body) : null, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers
+    })
+  }
+
+  async put(request: Request | string, response: Response): Promise<void> {
+    // Mirror Cache API semantics: only cache complete, cacheable responses
+    const cacheControl = response.headers.get('Cache-Control') ?? ''
+    if (
+      response.status === 206 ||
+      response.headers.get('Vary') === '*' ||
+      /no-store|private/i.test(cacheControl)
+    ) {
+      return
+    }
+
+    const ttl = getMaxAge(cacheControl) ?? this.defaultTtl
+    if (ttl <= 0) return
+
+    const body = new Uint8Array(await response.arrayBuffer())
+    const entry: CachedResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Array.from(response.headers.entries()),
+      body: body.length ? bytesToBase64(body) : ''
+    }
+
+    await this.kv.put(this.getKey(request), JSON.stringify(entry), { expirationTtl: ttl })
+  }
+
+  async delete(request: Request | string): Promise<boolean> {
+    const key = this.getKey(request)
+    const existing = await this.kv.get(key)
+    if (existing === null) return false
+
+    await this.kv.delete(key)
+    return true
+  }
+
+  private getKey(request: Request | string): string {
+    const url = typeof request === 'string' ? request : request.url
+    return `cache:${url}`
+  }
+}
+
+function getMaxAge(cacheControl: string): number | undefined {
+  const match = /s-maxage=(\d+)/i.exec(cacheControl) ?? /max-age=(\d+)/i.exec(cacheControl)
+  return match ? Number(match[1]) : undefined
+}
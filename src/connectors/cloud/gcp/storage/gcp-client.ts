@@ -0,0 +1,254 @@
+/**
+ * Authenticated HTTP client for Google Cloud REST APIs
+ */
+
+const DEFAULT_SCOPE = 'https://www.googleapis.com/auth/cloud-platform'
+const METADATA_TOKEN_URL =
+  'http://metadata.google.internal/computeMetadata/v1/instance/service-accounts/default/token'
+
+/**
+ * Service account key (the JSON downloaded from the GCP console)
+ */
+export interface GCPServiceAccountKey {
+  client_email: string
+  private_key: string
+  token_uri?: string
+}
+
+export interface GCPClientOptions {
+  /**
+   * Pre-issued OAuth access token
+   */
+  accessToken?: string
+
+  /**
+   * Service account key used to mint access tokens
+   */
+  serviceAccountKey?: GCPServiceAccountKey
+
+  /**
+   * Skip authentication entirely (local emulators)
+   */
+  anonymous?: boolean
+
+  /**
+   * OAuth scopes requested for service account tokens
+   */
+  scopes?: string[]
+}
+
+/**
+ * Error returned by a Google Cloud REST API
+ */
+export class GCPAPIError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public reason?: string
+  ) {
+    super(message)
+    this.name = 'GCPAPIError'
+  }
+}
+
+interface CachedToken {
+  token: string
+  expiresAt: number
+}
+
+/**
+ * Adds OAuth credentials to requests and normalizes API errors.
+ *
+ * Credentials are resolved in order: static access token, service account key
+ * (JWT bearer flow signed with WebCrypto), then the Cloud Run / GCE metadata server.
+ */
+export class GCPClient {
+  private cachedToken?: CachedToken
+
+  constructor(private options: GCPClientOptions = {}) {}
+
+  /**
+   * Perform an authenticated request. Non-2xx responses are thrown as GCPAPIError,
+   * except 404 when `allowNotFound` is set.
+   */
+  async request(
+    url: string,
+    init: RequestInit = {},
+    allowNotFound = false
+  ): Promise<Response | null> {
+    const headers = new Headers(init.headers)
+    const token = await this.getAccessToken()
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`)
+    }
+
+    const response = await fetch(url, { ...init, headers })
+
+    if (response.status === 404 && allowNotFound) {
+      return null
+    }
+
+    if (!response.ok) {
+      throw await GCPClient.toError(response)
+    }
+
+    return response
+  }
+
+  /**
+   * Perform a request and parse the JSON response
+   */
+  async json<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const response = (await this.request(url, init)) as Response
+    return (await response.json()) as T
+  }
+
+  /**
+   * Resolve an access token, refreshing it shortly before it expires
+   */
+  async getAccessToken(): Promise<string | undefined> {
+    if (this.options.anonymous) return undefined
+    if (this.options.accessToken) return this.options.accessToken
+
+    if (this.cachedToken && this.cachedToken.expiresAt - 60_000 > Date.now()) {
+      return this.cachedToken.token
+    }
+
+    this.cachedToken = this.options.serviceAccountKey
+      ? await this.fetchServiceAccountToken(this.options.serviceAccountKey)
+      : await this.fetchMetadataToken()
+
+    return this.cachedToken.token
+  }
+
+  private async fetchServiceAccountToken(key: GCPServiceAccountKey): Promise<CachedToken> {
+    const tokenUri = key.token_uri || 'https://oauth2.googleapis.com/token'
+    const now = Math.floor(Date.now() / 1000)
+    const assertion = await signJwt(key.private_key, {
+      iss: key.client_email,
+      scope: (this.options.scopes ?? [DEFAULT_SCOPE]).join(' '),
+      aud: tokenUri,
+      iat: now,
+      exp: now + 3600
+    })
+
+    const response = await fetch(tokenUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion
+      })
+    })
+
+    return this.readTokenResponse(response)
+  }
+
+  private async fetchMetadataToken(): Promise<CachedToken> {
+    const response = await fetch(METADATA_TOKEN_URL, {
+      headers: { 'Metadata-Flavor': 'Google' }
+    })
+    return this.readTokenResponse(response)
+  }
+
+  private async readTokenResponse(response: Response): Promise<CachedToken> {
+    if (!response.ok) {
+      throw await GCPClient.toError(response)
+    }
+    const data = (await response.json()) as { access_token: string; expires_in: number }
+    return {
+      token: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000
+    }
+  }
+
+  private static async toError(response: Response): Promise<GCPAPIError> {
+    let message = `GCP API error: ${response.status}`
+    let reason: string | undefined
+
+    try {
+      const body = (await response.json()) as {
+        error?: { message?: string; status?: string } | string
+        error_description?: string
+      }
+      if (typeof body.error === 'object') {
+        message = body.error.message || message
+        reason = body.error.status
+      } else if (body.error) {
+        message = body.error_description || body.error
+        reason = body.error
+      }
+    } catch {
+      // Non-JSON error body
+    }
+
+    return new GCPAPIError(message, response.status, reason)
+  }
+}
+
+/**
+ * Parse a service account key from a JSON string (env vars hold the key content)
+ */
+export function parseServiceAccountKey(value?: string): GCPServiceAccountKey | undefined {
+  if (!value || !value.trim().startsWith('{')) return undefined
+  return JSON.parse(value) as GCPServiceAccountKey
+}
+
+async function signJwt(privateKeyPem: string, claims: Record<string, unknown>): Promise<string> {
+  const encoder = new TextEncoder()
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'RS256', typ: 'JWT' })))
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)))
+  const unsigned = `${header}.${payload}`
+
+  const der = pemToBytes(privateKeyPem)
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    der,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, encoder.encode(unsigned))
+
+  return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+function pemToBytes(pem: string): Uint8Array {
+  const base64 = pem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '')
+  return base64ToBytes(base64)
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i] as number)
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Read any supported body value into bytes
+ */
+export async function toBytes(
+  value: string | ArrayBuffer | ArrayBufferView | ReadableStream | Blob
+): Promise<Uint8Array> {
+  if (typeof value === 'string') return new TextEncoder().encode(value)
+  if (value instanceof ArrayBuffer) return new Uint8Array(value)
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+  }
+  return new Uint8Array(await new Response(value).arrayBuffer())
+}
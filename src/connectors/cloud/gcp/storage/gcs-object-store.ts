@@ -0,0 +1,180 @@
+/**
+ * Google Cloud Storage implementation of IObjectStore (JSON API)
+ */
+
+import type { IObjectStore } from '../../../../core/interfaces/storage'
+
+import type { GCPClient } from './gcp-client'
+import { toBytes } from './gcp-client'
+
+export interface GCSObjectStoreOptions {
+  bucket: string
+  /**
+   * Emulator endpoint (STORAGE_EMULATOR_HOST), e.g. `http://localhost:4443`
+   */
+  emulatorHost?: string
+}
+
+interface GCSObjectResource {
+  name: string
+  size?: string
+  timeCreated?: string
+  contentType?: string
+  contentDisposition?: string
+  contentEncoding?: string
+  contentLanguage?: string
+  cacheControl?: string
+  metadata?: Record<string, string>
+}
+
+const HTTP_METADATA_FIELDS = [
+  'contentType',
+  'contentDisposition',
+  'contentEncoding',
+  'contentLanguage',
+  'cacheControl'
+] as const
+
+export class GCSObjectStore implements IObjectStore {
+  private readonly baseUrl: string
+
+  constructor(
+    private client: GCPClient,
+    private options: GCSObjectStoreOptions
+  ) {
+    const host = options.emulatorHost || 'https://storage.googleapis.com'
+    this.baseUrl = host.startsWith('http') ? host : `http://${host}`
+  }
+
+  async put(
+    key: string,
+    value: ReadableStream | ArrayBuffer | ArrayBufferView | string | Blob,
+    options?: {
+      httpMetadata?: {
+        contentType?: string
+        contentDisposition?: string
+        contentEncoding?: string
+        contentLanguage?: string
+        cacheControl?: string
+      }
+      customMetadata?: Record<string, string>
+    }
+  ): Promise<void> {
+    const resource: Partial<GCSObjectResource> = {
+      name: key,
+      ...options?.httpMetadata,
+      ...(options?.customMetadata ? { metadata: options.customMetadata } : {})
+    }
+    const content = await toBytes(value)
+    const contentType = options?.httpMetadata?.contentType || 'application/octet-stream'
+
+    // Multipart upload sends metadata and media in a single request
+    const boundary = `wireframe-${crypto.randomUUID()}`
+    const encoder = new TextEncoder()
+    const body = concatBytes([
+      encoder.encode(
+        `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n` +
+          `${JSON.stringify(resource)}\r\n` +
+          `--${boundary}\r\nContent-Type: ${contentType}\r\n\r\n`
+      ),
+      content,
+      encoder.encode(`\r\n--${boundary}--`)
+    ])
+
+    await this.client.request(
+      `${this.baseUrl}/upload/storage/v1/b/${this.bucketPath()}/o?uploadType=multipart`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/related; boundary=${boundary}` },
+        body
+      }
+    )
+  }
+
+  async get(key: string): Promise<{
+    body: ReadableStream
+    httpMetadata?: Record<string, string>
+    customMetadata?: Record<string, string>
+  } | null> {
+    const metadata = await this.head(key)
+    if (!metadata) return null
+
+    const response = await this.client.request(`${this.objectUrl(key)}?alt=media`, {}, true)
+    if (!response?.body) return null
+
+    return { body: response.body, ...metadata }
+  }
+
+  async head(key: string): Promise<{
+    httpMetadata?: Record<string, string>
+    customMetadata?: Record<string, string>
+  } | null> {
+    const response = await this.client.request(this.objectUrl(key), {}, true)
+    if (!response) return null
+
+    const resource = (await response.json()) as GCSObjectResource
+    const httpMetadata: Record<string, string> = {}
+    for (const field of HTTP_METADATA_FIELDS) {
+      const value = resource[field]
+      if (value) httpMetadata[field] = value
+    }
+
+    return {
+      httpMetadata,
+      customMetadata: resource.metadata ?? {}
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.request(this.objectUrl(key), { method: 'DELETE' }, true)
+  }
+
+  async list(options?: { prefix?: string; limit?: number; cursor?: string }): Promise<{
+    objects: Array<{
+      key: string
+      size: number
+      uploaded: Date
+    }>
+    truncated: boolean
+    cursor?: string
+  }> {
+    const params = new URLSearchParams()
+    if (options?.prefix) params.set('prefix', options.prefix)
+    if (options?.limit) params.set('maxResults', String(options.limit))
+    if (options?.cursor) params.set('pageToken', options.cursor)
+
+    const result = await this.client.json<{
+      items?: GCSObjectResource[]
+      nextPageToken?: string
+    }>(`${this.baseUrl}/storage/v1/b/${this.bucketPath()}/o?${params}`)
+
+    return {
+      objects: (result.items ?? []).map(item => ({
+        key: item.name,
+        size: Number(item.size ?? 0),
+        uploaded: new Date(item.timeCreated ?? 0)
+      })),
+      truncated: !!result.nextPageToken,
+      cursor: result.nextPageToken
+    }
+  }
+
+  private bucketPath(): string {
+    return encodeURIComponent(this.options.bucket)
+  }
+
+  private objectUrl(key: string): string {
+    return `${this.baseUrl}/storage/v1/b/${this.bucketPath()}/o/${encodeURIComponent(key)}`
+  }
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0)
+  const result = new Uint8Array(total)
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
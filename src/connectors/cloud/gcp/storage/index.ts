@@ -0,0 +1,6 @@
+export * from './cloud-sql-database-store'
+export * from './firestore-kv-store'
+export * from './gcp-cache-store'
+export * from './gcp-client'
+export * from './gcs-object-store'
+export * from './memorystore-kv-store'
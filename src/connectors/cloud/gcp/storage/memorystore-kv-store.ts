@@ -0,0 +1,195 @@
+/**
+ * Memorystore (Redis) implementation of IKeyValueStore
+ *
+ * Serverless runtimes cannot open Redis sockets, so commands are sent to a
+ * Redis REST gateway in front of the Memorystore instance (JSON command arrays,
+ * `{ result }` / `{ error }` responses).
+ *
+ * SCAN returns keys in no particular order and in pages of any size, so keys
+ * are also kept in a sorted set that list() reads with ZRANGEBYLEX.
+ */
+
+import type { IKeyValueStore, KVListResult } from '../../../../core/interfaces/storage'
+
+import { base64ToBytes, bytesToBase64, GCPAPIError, toBytes } from './gcp-client'
+
+export interface MemorystoreKeyValueStoreOptions {
+  /**
+   * REST gateway URL
+   */
+  url: string
+  /**
+   * Bearer token for the gateway
+   */
+  token?: string
+  /**
+   * Prefix applied to every key (namespacing within one instance)
+   */
+  keyPrefix?: string
+}
+
+/**
+ * Stored envelope: value (text or base64) plus metadata
+ */
+interface StoredEntry {
+  v: string
+  b?: true
+  m?: Record<string, unknown>
+}
+
+const DEFAULT_LIST_LIMIT = 1000
+
+export class MemorystoreKeyValueStore implements IKeyValueStore {
+  private readonly keyPrefix: string
+  /** Sorted set of the keys under keyPrefix; NUL keeps it apart from stored keys */
+  private readonly indexKey: string
+
+  constructor(private options: MemorystoreKeyValueStoreOptions) {
+    this.keyPrefix = options.keyPrefix ?? ''
+    this.indexKey = `\0index:${this.keyPrefix}`
+  }
+
+  async get<T = string>(key: string): Promise<T | null> {
+    const { value } = await this.getWithMetadata<T>(key)
+    return value
+  }
+
+  async getWithMetadata<T = string>(
+    key: string
+  ): Promise<{
+    value: T | null
+    metadata: Record<string, unknown> | null
+  }> {
+    const stored = await this.command<string | null>('GET', this.keyPrefix + key)
+    if (stored === null) return { value: null, metadata: null }
+
+    const entry = JSON.parse(stored) as StoredEntry
+    const raw = entry.b ? new TextDecoder().decode(base64ToBytes(entry.v)) : entry.v
+
+    // Try to parse as JSON, fall back to raw value
+    let value: T
+    try {
+      value = JSON.parse(raw) as T
+    } catch {
+      value = raw as T
+    }
+
+    return { value, metadata: entry.m ?? null }
+  }
+
+  async put(
+    key: string,
+    value: string | ArrayBuffer | ArrayBufferView | ReadableStream,
+    options?: {
+      expirationTtl?: number
+      metadata?: Record<string, unknown>
+    }
+  ): Promise<void> {
+    let entry: StoredEntry
+    if (typeof value === 'string') {
+      entry = { v: value }
+    } else if (
+      value instanceof ArrayBuffer ||
+      ArrayBuffer.isView(value) ||
+      value instanceof ReadableStream
+    ) {
+      entry = { v: bytesToBase64(await toBytes(value)), b: true }
+    } else {
+      entry = { v: JSON.stringify(value) }
+    }
+    if (options?.metadata) entry.m = options.metadata
+
+    const args: Array<string | number> = ['SET', this.keyPrefix + key, JSON.stringify(entry)]
+    if (options?.expirationTtl) {
+      args.push('EX', options.expirationTtl)
+    }
+    await this.command(...args)
+    await this.command('ZADD', this.indexKey, 0, key)
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command('DEL', this.keyPrefix + key)
+    await this.command('ZREM', this.indexKey, key)
+  }
+
+  async list(options?: {
+    prefix?: string
+    limit?: number
+    cursor?: string
+  }): Promise<KVListResult> {
+    const prefix = options?.prefix ?? ''
+    const limit = options?.limit ?? DEFAULT_LIST_LIMIT
+    const keys: KVListResult['keys'] = []
+    // The cursor is the last key returned
+    let start = options?.cursor ? `(${options.cursor}` : prefix ? `[${prefix}` : '-'
+    let complete = false
+
+    // Expired keys are still in the index; skip them and read on to fill the page
+    while (keys.length < limit && !complete) {
+      const wanted = limit - keys.length
+      const names = await this.command<string[]>(
+        'ZRANGEBYLEX',
+        this.indexKey,
+        start,
+        '+',
+        'LIMIT',
+        0,
+        wanted + 1
+      )
+      const matching = names.filter(name => name.startsWith(prefix))
+      const page = matching.slice(0, wanted)
+      complete = matching.length <= wanted
+
+      const entries = page.length
+        ? await this.command<Array<string | null>>(
+            'MGET',
+            ...page.map(name => this.keyPrefix + name)
+          )
+        : []
+      const expired: string[] = []
+      page.forEach((name, index) => {
+        const stored = entries[index]
+        if (!stored) {
+          expired.push(name)
+          return
+        }
+        const metadata = (JSON.parse(stored) as StoredEntry).m
+        keys.push({ name, ...(metadata ? { metadata } : {}) })
+      })
+      if (expired.length) {
+        await this.command('ZREM', this.indexKey, ...expired)
+      }
+
+      const last = page[page.length - 1]
+      if (last !== undefined) start = `(${last}`
+    }
+
+    return {
+      keys,
+      list_complete: complete,
+      cursor: complete ? undefined : start.slice(1)
+    }
+  }
+
+  private async command<T = unknown>(...args: Array<string | number>): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.options.token) {
+      headers['Authorization'] = `Bearer ${this.options.token}`
+    }
+
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(args)
+    })
+    const data = (await response.json()) as { result?: T; error?: string }
+
+    if (!response.ok || data.error) {
+      throw new GCPAPIError(
+        `Memorystore command ${args[0]} failed: ${data.error ?? response.status}`,
+        response.status
+      )
+    }
+    return data.result as T
+  }
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { I18nConnector } from '../i18n-connector'
+import { StaticTranslationProvider } from '../providers/static-provider'
+
+describe('I18nConnector translators', () => {
+  let i18n: I18nConnector
+
+  beforeEach(async () => {
+    const provider = new StaticTranslationProvider()
+    provider.addTranslations('en', 'telegram', {
+      greeting: 'Hello, {{name}}!',
+      only_english: 'Only in {{language}}',
+      suffix: 'Done{{suffix}}',
+      broken: 'Hello {{name}}, {count, plural, one {# file}}',
+      apples: { zero: 'No apples', one: '{{count}} apple', other: '{{count}} apples' }
+    })
+    provider.addTranslations('ru', 'telegram', {
+      greeting: 'Привет, {{name}}!',
+      files: '{count, plural, one {# файл} few {# файла} many {# файлов} other {# файла}}',
+      apples: { one: '{{count}} яблоко', few: '{{count}} яблока', many: '{{count}} яблок' }
+    })
+    provider.addTranslations('pt-BR', 'telegram', { greeting: 'Olá, {{name}}!' })
+
+    i18n = new I18nConnector()
+    await i18n.initialize({
+      defaultLanguage: 'en',
+      fallbackLanguage: 'en',
+      defaultNamespace: 'telegram',
+      providers: [provider],
+      preloadNamespaces: await provider.getAvailableNamespaces(),
+      preloadLanguages: await provider.getAvailableLanguages()
+    })
+  })
+
+  it('keeps the language of each translator separate', () => {
+    const english = i18n.createTranslator('en')
+    const russian = i18n.createTranslator('ru')
+    const params = { name: 'Ann' }
+
+    expect(russian.t('greeting', { params })).toBe('Привет, Ann!')
+    expect(english.t('greeting', { params })).toBe('Hello, Ann!')
+    expect(russian.withLanguage('pt-BR').t('greeting', { params })).toBe('Olá, Ann!')
+    expect(russian.language).toBe('ru')
+    expect(i18n.getLanguage()).toBe('en')
+  })
+
+  it('negotiates the closest loaded language', () => {
+    expect(i18n.negotiateLanguage([null, 'ru'])).toBe('ru')
+    expect(i18n.negotiateLanguage(['pt'])).toBe('pt-BR')
+    expect(i18n.negotiateLanguage(['ru-RU'])).toBe('ru')
+    expect(i18n.negotiateLanguage(['de', 'ru'])).toBe('ru')
+    expect(i18n.negotiateLanguage(['de', undefined])).toBe('en')
+  })
+
+  it('lists the loaded languages', () => {
+    expect(i18n.createTranslator('en').getAvailableLanguages().sort()).toEqual([
+      'en',
+      'pt-BR',
+      'ru'
+    ])
+  })
+
+  it('keeps parameters when falling back to the fallback language', () => {
+    expect(i18n.createTranslator('ru').t('only_english', { params: { language: 'English' } })).toBe(
+      'Only in English'
+    )
+  })
+
+  it('interpolates empty values', () => {
+    expect(i18n.createTranslator('en').t('suffix', { params: { suffix: '' } })).toBe('Done')
+  })
+
+  it('formats ICU messages in the translator language', () => {
+    const russian = i18n.createTranslator('ru')
+
+    expect(russian.t('files', { params: { count: 5 } })).toBe('5 файлов')
+    expect(russian.t('files', { params: { count: 22 } })).toBe('22 файла')
+  })
+
+  it('picks plural forms of nested keys from CLDR categories', () => {
+    const english = i18n.createTranslator('en')
+    const russian = i18n.createTranslator('ru')
+
+    expect(english.t('apples', { params: { count: 0 } })).toBe('No apples')
+    expect(english.t('apples', { params: { count: 1 } })).toBe('1 apple')
+    expect(russian.t('apples', { params: { count: 0 } })).toBe('0 яблок')
+    expect(russian.t('apples', { params: { count: 24 } })).toBe('24 яблока')
+    expect(i18n.getPluralizationRules('ru').map(rule => rule.suffix)).toEqual([
+      'one',
+      'few',
+      'many',
+      'other'
+    ])
+  })
+
+  it('interpolates messages that are not valid ICU', () => {
+    expect(i18n.t('broken', { params: { name: 'Ann' } })).toBe(
+      'Hello Ann, {count, plural, one {# file}}'
+    )
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+
+import { MessageFormatError, formatMessage, getPluralCategory } from '../message-format'
+
+describe('formatMessage', () => {
+  it('replaces simple and legacy arguments', () => {
+    expect(formatMessage('Hi {name}, step {{step}}', 'en', { name: 'Ann', step: 2 })).toBe(
+      'Hi Ann, step 2'
+    )
+  })
+
+  it('leaves arguments without a value in place', () => {
+    expect(formatMessage('{{user}} has {count, number} points', 'en', {})).toBe(
+      '{{user}} has {count, number} points'
+    )
+  })
+
+  it('picks Russian plural forms from CLDR rules', () => {
+    const message = '{count, plural, one {# файл} few {# файла} many {# файлов} other {# файла}}'
+
+    expect(formatMessage(message, 'ru', { count: 1 })).toBe('1 файл')
+    expect(formatMessage(message, 'ru', { count: 3 })).toBe('3 файла')
+    expect(formatMessage(message, 'ru', { count: 11 })).toBe('11 файлов')
+    expect(formatMessage(message, 'ru', { count: 21 })).toBe('21 файл')
+    expect(formatMessage(message, 'ru', { count: 1.5 })).toBe('1,5 файла')
+  })
+
+  it('prefers exact matches and applies the offset', () => {
+    const message =
+      '{guests, plural, offset:1 =0 {Nobody} =1 {{host}} one {{host} and # other} other {{host} and # others}}'
+
+    expect(formatMessage(message, 'en', { guests: 0, host: 'Ann' })).toBe('Nobody')
+    expect(formatMessage(message, 'en', { guests: 1, host: 'Ann' })).toBe('Ann')
+    expect(formatMessage(message, 'en', { guests: 2, host: 'Ann' })).toBe('Ann and 1 other')
+    expect(formatMessage(message, 'en', { guests: 1001, host: 'Ann' })).toBe('Ann and 1,000 others')
+  })
+
+  it('formats ordinals', () => {
+    const message = '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}'
+
+    expect([1, 2, 3, 4, 11, 22].map(n => formatMessage(message, 'en', { n }))).toEqual([
+      '1st',
+      '2nd',
+      '3rd',
+      '4th',
+      '11th',
+      '22nd'
+    ])
+  })
+
+  it('selects by value and keeps # inside nested plurals', () => {
+    const message =
+      '{gender, select, female {She has {count, plural, one {# message} other {# messages}}} other {They have # items}}'
+
+    expect(formatMessage(message, 'en', { gender: 'female', count: 2 })).toBe('She has 2 messages')
+    expect(formatMessage(message, 'en', { gender: 'unknown', count: 2 })).toBe('They have # items')
+  })
+
+  it('does not treat Object.prototype members as options or values', () => {
+    const message = '{kind, select, constructor {Builder} other {Other}}'
+
+    expect(formatMessage(message, 'en', { kind: 'constructor' })).toBe('Builder')
+    expect(formatMessage(message, 'en', { kind: 'toString' })).toBe('Other')
+    expect(formatMessage('{n, plural, other {# items}}', 'en', { n: 2 })).toBe('2 items')
+    expect(formatMessage('Hi {toString}', 'en')).toBe('Hi {toString}')
+  })
+
+  it('formats numbers with styles and skeletons', () => {
+    expect(formatMessage('{n, number}', 'en', { n: 1234.5 })).toBe('1,234.5')
+    expect(formatMessage('{n, number, integer}', 'en', { n: 2.7 })).toBe('3')
+    expect(formatMessage('{n, number, percent}', 'en', { n: 0.25 })).toBe('25%')
+    expect(formatMessage('{n, number, ::currency/EUR}', 'en', { n: 9.5 })).toBe('€9.50')
+    expect(formatMessage('{n, number, ::currency/RUB}', 'ru', { n: 1500 })).toBe(
+      '1\u00a0500,00\u00a0₽'
+    )
+    expect(formatMessage('{n, number, ::.00 group-off}', 'en', { n: 1234 })).toBe('1234.00')
+    expect(formatMessage('{n, number, ::compact-short}', 'en', { n: 12000 })).toBe('12K')
+    expect(formatMessage('{n, number, ::measure-unit/length-kilometer}', 'en', { n: 5 })).toBe(
+      '5 km'
+    )
+  })
+
+  it('formats dates and times', () => {
+    const date = new Date(Date.UTC(2024, 2, 5, 14, 7))
+
+    expect(formatMessage('{d, date, long}', 'en', { d: date })).toBe('March 5, 2024')
+    expect(formatMessage('{d, date, ::yMMMd}', 'ru', { d: date })).toBe('5 мар. 2024 г.')
+    expect(formatMessage('{d, time, ::Hmm}', 'en', { d: date.getTime() })).toBe('14:07')
+  })
+
+  it('handles apostrophe quoting', () => {
+    expect(formatMessage("You've got '{braces}' and ''quotes''", 'en', {})).toBe(
+      "You've got {braces} and 'quotes'"
+    )
+    expect(formatMessage("{n, plural, other {'#' is #}}", 'en', { n: 3 })).toBe('# is 3')
+  })
+
+  it('rejects malformed messages', () => {
+    expect(() => formatMessage('{n, plural, one {#}}', 'en', { n: 1 })).toThrow(MessageFormatError)
+    expect(() => formatMessage('{n, number, ::rounding-mode}', 'en', { n: 1 })).toThrow(
+      /Unsupported number skeleton token/
+    )
+    expect(() => formatMessage('{n', 'en', {})).toThrow(MessageFormatError)
+    expect(() => formatMessage('{n} done}', 'en', {})).toThrow(MessageFormatError)
+  })
+
+  it('falls back to English for unknown locales', () => {
+    expect(getPluralCategory('not a locale', 1)).toBe('one')
+  })
+})
@@ -22,11 +22,15 @@ import type {
   TranslationKey,
   TranslationMissingEvent,
   TranslationOptions,
-  TranslationProvider
+  TranslationParams,
+  TranslationProvider,
+  Translator
 } from '../../core/interfaces/i18n'
 import { I18nEventType } from '../../core/interfaces/i18n'
 import { BaseConnector } from '../base/base-connector'
 
+import { formatMessage, getPluralCategories, getPluralCategory } from './message-format'
+
 export class I18nConnector extends BaseConnector implements I18nConnectorInterface {
   id = 'i18n-connector'
   name = 'I18n Connector'
@@ -150,6 +154,7 @@ export class I18nConnector extends BaseConnector implements I18nConnectorInterfa
         'translation',
         'pluralization',
         'interpolation',
+        'icu-message-format',
         'namespaces',
         'lazy-loading',
         'platform-formatting',
@@ -170,7 +175,13 @@ export class I18nConnector extends BaseConnector implements I18nConnectorInterfa
     // Get translations for the namespace
     const translations = this.translations.get(cacheKey)
     if (!translations) {
-      return this.handleMissingTranslation(key, language, namespace, options?.defaultValue)
+      return this.handleMissingTranslation(
+        key,
+        language,
+        namespace,
+        options?.defaultValue,
+        options?.params
+      )
     }
 
     // Navigate through the key path
@@ -181,31 +192,43 @@ export class I18nConnector extends BaseConnector implements I18nConnectorInterfa
       if (value && typeof value === 'object' && part in value) {
         value = (value as Record<string, unknown>)[part]
       } else {
-        return this.handleMissingTranslation(key, language, namespace, options?.defaultValue)
+        return this.handleMissingTranslation(
+          key,
+          language,
+          namespace,
+          options?.defaultValue,
+          options?.params
+        )
       }
     }
 
     // Handle translation value
     if (typeof value === 'string') {
-      return this.interpolate(value, options?.params || {})
+      return this.format(value, language, options?.params || {})
     } else if (typeof value === 'function') {
       return value(options?.params || {})
     } else if (typeof value === 'object' && options?.params?.count !== undefined) {
       // Handle pluralization
-      const count = options.params.count as number
-      const pluralKey = this.getPluralKey(language, count)
+      const count = Number(options.params.count)
+      const pluralKey = this.getPluralKey(language, count, value as TranslationDictionary)
 
       if (value && typeof value === 'object' && pluralKey in value) {
         const pluralValue = (value as Record<string, unknown>)[pluralKey]
         if (typeof pluralValue === 'string') {
-          return this.interpolate(pluralValue, options.params)
+          return this.format(pluralValue, language, options.params)
         } else if (typeof pluralValue === 'function') {
           return pluralValue(options.params)
         }
       }
     }
 
-    return this.handleMissingTranslation(key, language, namespace, options?.defaultValue)
+    return this.handleMissingTranslation(
+      key,
+      language,
+      namespace,
+      options?.defaultValue,
+      options?.params
+    )
   }
 
   /**
@@ -246,6 +269,60 @@ export class I18nConnector extends BaseConnector implements I18nConnectorInterfa
     return Array.from(languages)
   }
 
+  /**
+   * Languages with translations loaded
+   */
+  getLoadedLanguages(): LanguageCode[] {
+    const languages = new Set<LanguageCode>()
+
+    for (const [key, translations] of this.translations) {
+      const [language] = key.split(':')
+      if (language && Object.keys(translations).length > 0) {
+        languages.add(language)
+      }
+    }
+
+    return Array.from(languages)
+  }
+
+  /**
+   * Pick the first requested language a loaded pack covers
+   */
+  negotiateLanguage(requested: Array<LanguageCode | null | undefined>): LanguageCode {
+    const available = this.getLoadedLanguages()
+    const normalize = (language: string) => language.toLowerCase().replace('_', '-')
+
+    for (const candidate of requested) {
+      if (!candidate) continue
+
+      const wanted = normalize(candidate)
+      const base = wanted.split('-')[0]
+      const match =
+        available.find(language => normalize(language) === wanted) ??
+        available.find(language => normalize(language).split('-')[0] === base)
+
+      if (match) {
+        return match
+      }
+    }
+
+    return this.i18nConfig.defaultLanguage
+  }
+
+  /**
+   * Create a translator bound to a language
+   */
+  createTranslator(language: LanguageCode): Translator {
+    return {
+      language,
+      t: (key, options) => this.t(key, { ...options, language: options?.language ?? language }),
+      hasTranslation: (key, options) =>
+        this.hasTranslation(key, { ...options, language: options?.language ?? language }),
+      withLanguage: other => this.createTranslator(other),
+      getAvailableLanguages: () => this.getLoadedLanguages()
+    }
+  }
+
   /**
    * Load a namespace
    */
@@ -395,12 +472,13 @@ export class I18nConnector extends BaseConnector implements I18nConnectorInterfa
   }
 
   /**
-   * Get pluralization rules for a language
+   * Get pluralization rules for a language (CLDR, via Intl.PluralRules)
    */
   getPluralizationRules(language: LanguageCode): PluralizationRule[] {
-    // Import at runtime to avoid circular dependency
-    const rules = require('../../core/interfaces/i18n').STANDARD_PLURALIZATION_RULES
-    return rules[language] || rules.en
+    return getPluralCategories(language).map(category => ({
+      suffix: category,
+      check: (count: number) => getPluralCategory(language, count) === category
+    }))
   }
 
   /**
@@ -419,7 +497,8 @@ export class I18nConnector extends BaseConnector implements I18nConnectorInterfa
     key: TranslationKey,
     language: LanguageCode,
     namespace: Namespace,
-    defaultValue?: string
+    defaultValue?: string,
+    params?: TranslationOptions['params']
   ): string {
     // Emit missing translation event
     this.emitEvent(I18nEventType.TRANSLATION_MISSING, {
@@ -444,7 +523,8 @@ export class I18nConnector extends BaseConnector implements I18nConnectorInterfa
       return this.t(key, {
         language: this.i18nConfig.fallbackLanguage,
         namespace,
-        defaultValue
+        defaultValue,
+        params
       })
     }
 
@@ -452,28 +532,45 @@ export class I18nConnector extends BaseConnector implements I18nConnectorInterfa
     return defaultValue || `[${key}]`
   }
 
+  /**
+   * Format an ICU message, falling back to plain interpolation if it does not parse
+   */
+  private format(message: string, language: LanguageCode, params: TranslationParams): string {
+    try {
+      return formatMessage(message, language, params)
+    } catch (error) {
+      if (this.i18nConfig.debug) {
+        console.warn(`Invalid message format: ${message}`, error)
+      }
+      return this.interpolate(message, params)
+    }
+  }
+
   /**
    * Interpolate parameters in a string
    */
   private interpolate(str: string, params: Record<string, unknown>): string {
     return str.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return params[key]?.toString() || match
+      // Empty strings and zeros are values too
+      return params[key] !== undefined && params[key] !== null ? String(params[key]) : match
     })
   }
 
   /**
-   * Get plural key for a count
+   * Get plural key for a count. An explicit "zero" form wins over the CLDR
+   * category, which for most languages files 0 under "other" or "many".
    */
-  private getPluralKey(language: LanguageCode, count: number): string {
-    const rules = this.getPluralizationRules(language)
-
-    for (const rule of rules) {
-      if (rule.check(count)) {
-        return rule.suffix
-      }
+  private getPluralKey(
+    language: LanguageCode,
+    count: number,
+    forms: TranslationDictionary
+  ): string {
+    if (count === 0 && 'zero' in forms) {
+      return 'zero'
     }
 
-    return 'other'
+    const category = getPluralCategory(language, count)
+    return category in forms ? category : 'other'
   }
 
   /**
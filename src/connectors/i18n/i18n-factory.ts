@@ -32,8 +32,9 @@ export class I18nFactory {
       defaultNamespace: 'core',
       providers: [staticProvider],
       formatters: [new TelegramMessageFormatter()],
-      preloadNamespaces: ['core', 'telegram'],
-      preloadLanguages: ['en', 'ru'],
+      // Every bundled pack is loaded so users can be answered in any of them
+      preloadNamespaces: await staticProvider.getAvailableNamespaces(),
+      preloadLanguages: await staticProvider.getAvailableLanguages(),
       debug: env.ENVIRONMENT === 'development',
       cache: true,
       cacheTTL: 3600000 // 1 hour
@@ -0,0 +1,702 @@
+/**
+ * ICU MessageFormat for translation values
+ *
+ * Supports simple arguments ({name}), number/date/time arguments with styles or
+ * "::" skeletons, plural and selectordinal (with offset, =N and #), and select.
+ * Legacy {{name}} placeholders keep working next to ICU syntax. Formatting and
+ * plural categories come from Intl, so CLDR rules apply for every locale.
+ */
+
+import type { LanguageCode, TranslationParams } from '../../core/interfaces/i18n'
+
+export class MessageFormatError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string
+  ) {
+    super(message)
+    this.name = 'MessageFormatError'
+  }
+}
+
+export type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; source: string }
+  | { type: 'number'; name: string; source: string; options: NumberFormatOptions }
+  | {
+      type: 'date' | 'time'
+      name: string
+      source: string
+      options: Intl.DateTimeFormatOptions
+    }
+  | {
+      type: 'plural'
+      name: string
+      source: string
+      ordinal: boolean
+      offset: number
+      options: Record<string, MessageNode[]>
+    }
+  | { type: 'select'; name: string; source: string; options: Record<string, MessageNode[]> }
+
+interface NumberFormatOptions extends Intl.NumberFormatOptions {
+  /**
+   * Multiplier applied before formatting (skeleton "scale/N")
+   */
+  scale?: number
+}
+
+const MAX_CACHED_MESSAGES = 1000
+
+const compiledMessages = new Map<string, MessageNode[]>()
+const resolvedLocales = new Map<LanguageCode, string>()
+const intlCache = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules>()
+
+/**
+ * Format a translation value for a language
+ */
+export function formatMessage(
+  message: string,
+  language: LanguageCode,
+  params: TranslationParams = {}
+): string {
+  if (!message.includes('{') && !message.includes("'")) {
+    return message
+  }
+
+  return formatNodes(compileMessage(message), resolveLocale(language), params, null)
+}
+
+/**
+ * Parse a message, reusing the result for repeated translations
+ */
+export function compileMessage(message: string): MessageNode[] {
+  let nodes = compiledMessages.get(message)
+
+  if (!nodes) {
+    nodes = new MessageParser(message).parse()
+    if (compiledMessages.size >= MAX_CACHED_MESSAGES) {
+      compiledMessages.clear()
+    }
+    compiledMessages.set(message, nodes)
+  }
+
+  return nodes
+}
+
+/**
+ * CLDR plural category ('zero', 'one', 'two', 'few', 'many' or 'other') of a count
+ */
+export function getPluralCategory(
+  language: LanguageCode,
+  count: number,
+  ordinal = false
+): Intl.LDMLPluralRule {
+  return getPluralRules(resolveLocale(language), ordinal).select(count)
+}
+
+/**
+ * Plural categories a language distinguishes
+ */
+export function getPluralCategories(language: LanguageCode): Intl.LDMLPluralRule[] {
+  return getPluralRules(resolveLocale(language), false).resolvedOptions().pluralCategories
+}
+
+function formatNodes(
+  nodes: MessageNode[],
+  locale: string,
+  params: TranslationParams,
+  pluralValue: number | null
+): string {
+  let output = ''
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value
+      continue
+    }
+
+    if (node.type === 'pound') {
+      output += pluralValue === null ? '#' : getNumberFormat(locale, {}).format(pluralValue)
+      continue
+    }
+
+    const value = getOwn(params, node.name)
+    if (value === undefined || value === null) {
+      output += node.source
+      continue
+    }
+
+    switch (node.type) {
+      case 'argument':
+        output += String(value)
+        break
+
+      case 'number': {
+        const { scale, ...options } = node.options
+        output += getNumberFormat(locale, options).format(Number(value) * (scale ?? 1))
+        break
+      }
+
+      case 'date':
+      case 'time':
+        output += getDateTimeFormat(locale, node.options).format(toDate(value))
+        break
+
+      case 'plural': {
+        const count = Number(value)
+        const branch =
+          getOwn(node.options, `=${count}`) ??
+          getOwn(node.options, getPluralRules(locale, node.ordinal).select(count - node.offset)) ??
+          getOwn(node.options, 'other') ??
+          []
+        output += formatNodes(branch, locale, params, count - node.offset)
+        break
+      }
+
+      case 'select': {
+        const branch = getOwn(node.options, String(value)) ?? getOwn(node.options, 'other') ?? []
+        output += formatNodes(branch, locale, params, pluralValue)
+        break
+      }
+    }
+  }
+
+  return output
+}
+
+/**
+ * Keys such as "constructor" must not resolve to Object.prototype members
+ */
+function getOwn<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(record, key) ? record[key] : undefined
+}
+
+function toDate(value: TranslationParams[string]): Date {
+  return value instanceof Date ? value : new Date(value as string | number)
+}
+
+/**
+ * Recursive descent parser over the message source
+ */
+class MessageParser {
+  private position = 0
+
+  constructor(private readonly source: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.parseMessage(false, false)
+    if (this.position < this.source.length) {
+      this.fail(`Unexpected "${this.source[this.position]}"`)
+    }
+    return nodes
+  }
+
+  /**
+   * Text and arguments up to the closing brace of a nested message
+   */
+  private parseMessage(nested: boolean, inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = []
+    let text = ''
+
+    const flushText = () => {
+      if (text) {
+        nodes.push({ type: 'text', value: text })
+        text = ''
+      }
+    }
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position]
+
+      if (char === "'") {
+        text += this.parseApostrophe(inPlural)
+      } else if (char === '{') {
+        flushText()
+        nodes.push(this.parseLegacyArgument() ?? this.parseArgument(inPlural))
+      } else if (char === '}') {
+        if (!nested) {
+          this.fail('Unexpected "}"')
+        }
+        break
+      } else if (char === '#' && inPlural) {
+        flushText()
+        nodes.push({ type: 'pound' })
+        this.position++
+      } else {
+        text += char
+        this.position++
+      }
+    }
+
+    flushText()
+    return nodes
+  }
+
+  /**
+   * '' is a literal apostrophe and an apostrophe before syntax characters
+   * quotes them; anywhere else it is just an apostrophe ("You've")
+   */
+  private parseApostrophe(inPlural: boolean): string {
+    const next = this.source[this.position + 1]
+
+    if (next === "'") {
+      this.position += 2
+      return "'"
+    }
+
+    if (next !== '{' && next !== '}' && !(next === '#' && inPlural)) {
+      this.position++
+      return "'"
+    }
+
+    let quoted = ''
+    this.position++
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position]
+
+      if (char === "'") {
+        if (this.source[this.position + 1] === "'") {
+          quoted += "'"
+          this.position += 2
+          continue
+        }
+        this.position++
+        return quoted
+      }
+
+      quoted += char
+      this.position++
+    }
+
+    return quoted
+  }
+
+  /**
+   * {{name}} from before ICU support
+   */
+  private parseLegacyArgument(): MessageNode | null {
+    const match = /^\{\{(\w+)\}\}/.exec(this.source.slice(this.position))
+    if (!match) {
+      return null
+    }
+
+    this.position += match[0].length
+    return { type: 'argument', name: match[1] as string, source: match[0] }
+  }
+
+  private parseArgument(inPlural: boolean): MessageNode {
+    const start = this.position
+    this.position++
+
+    const name = this.parseIdentifier('argument name')
+    const type = this.consume(',') ? this.parseIdentifier('argument type') : null
+
+    if (type === null) {
+      this.expect('}')
+      return { type: 'argument', name, source: this.source.slice(start, this.position) }
+    }
+
+    switch (type) {
+      case 'number':
+      case 'date':
+      case 'time': {
+        const style = this.consume(',') ? this.parseStyle() : null
+        this.expect('}')
+        const source = this.source.slice(start, this.position)
+
+        return type === 'number'
+          ? { type, name, source, options: this.numberOptions(style) }
+          : { type, name, source, options: this.dateTimeOptions(type, style) }
+      }
+
+      case 'plural':
+      case 'selectordinal': {
+        this.expect(',')
+        const offset = this.parseOffset()
+        const options = this.parseOptions(true, /^(=\d+(\.\d+)?|\w+)/)
+        return {
+          type: 'plural',
+          name,
+          source: this.source.slice(start, this.position),
+          ordinal: type === 'selectordinal',
+          offset,
+          options
+        }
+      }
+
+      case 'select': {
+        this.expect(',')
+        const options = this.parseOptions(inPlural, /^[\w-]+/)
+        return { type: 'select', name, source: this.source.slice(start, this.position), options }
+      }
+
+      default:
+        return this.fail(`Unknown argument type "${type}"`)
+    }
+  }
+
+  private parseOffset(): number {
+    this.skipWhitespace()
+    const match = /^offset:\s*(\d+)/.exec(this.source.slice(this.position))
+    if (!match) {
+      return 0
+    }
+
+    this.position += match[0].length
+    return Number(match[1])
+  }
+
+  /**
+   * selector {message} pairs up to the closing brace; "other" is required
+   */
+  private parseOptions(inPlural: boolean, selectorPattern: RegExp): Record<string, MessageNode[]> {
+    const options: Record<string, MessageNode[]> = Object.create(null)
+
+    for (;;) {
+      this.skipWhitespace()
+      if (this.consume('}')) {
+        break
+      }
+
+      const match = selectorPattern.exec(this.source.slice(this.position))
+      if (!match) {
+        this.fail('Expected an option selector')
+      }
+
+      const selector = match[0]
+      if (selector in options) {
+        this.fail(`Duplicate option "${selector}"`)
+      }
+
+      this.position += selector.length
+      this.expect('{')
+      options[selector] = this.parseMessage(true, inPlural)
+      this.expect('}')
+    }
+
+    if (!options.other) {
+      this.fail('Missing "other" option')
+    }
+
+    return options
+  }
+
+  private parseStyle(): string {
+    const end = this.source.indexOf('}', this.position)
+    if (end === -1) {
+      this.fail('Unclosed argument')
+    }
+
+    const style = this.source.slice(this.position, end).trim()
+    this.position = end
+    if (!style) {
+      this.fail('Expected an argument style')
+    }
+
+    return style
+  }
+
+  private numberOptions(style: string | null): NumberFormatOptions {
+    switch (style) {
+      case null:
+        return {}
+      case 'integer':
+        return { maximumFractionDigits: 0 }
+      case 'percent':
+        return { style: 'percent' }
+      case 'currency':
+        return this.fail('Currency needs a code, e.g. "::currency/USD"')
+    }
+
+    if (!style.startsWith('::')) {
+      return this.fail(`Unknown number style "${style}"`)
+    }
+
+    const options: NumberFormatOptions = {}
+    for (const token of style.slice(2).trim().split(/\s+/)) {
+      this.applyNumberToken(options, token)
+    }
+
+    return options
+  }
+
+  /**
+   * Subset of ICU number skeleton tokens that Intl.NumberFormat can express
+   */
+  private applyNumberToken(options: NumberFormatOptions, token: string): void {
+    const [stem, argument] = token.split('/') as [string, string | undefined]
+    const fraction = /^\.(0*)(#*)(\+|\*)?$/.exec(token)
+    const significant = /^(@+)(#*)(\+|\*)?$/.exec(token)
+
+    if (fraction) {
+      const [, required = '', optional = '', unbounded] = fraction
+      options.minimumFractionDigits = required.length
+      options.maximumFractionDigits = unbounded ? 20 : required.length + optional.length
+      return
+    }
+
+    if (significant) {
+      const [, required = '', optional = '', unbounded] = significant
+      options.minimumSignificantDigits = required.length
+      options.maximumSignificantDigits = unbounded ? 21 : required.length + optional.length
+      return
+    }
+
+    switch (stem) {
+      case 'percent':
+      case '%':
+        options.style = 'percent'
+        return
+      case 'currency':
+        options.style = 'currency'
+        options.currency = argument ?? this.fail('Currency needs a code, e.g. "currency/USD"')
+        return
+      case 'measure-unit':
+      case 'unit': {
+        const unit = argument ?? this.fail('Unit needs a name, e.g. "unit/meter"')
+        options.style = 'unit'
+        // ICU qualifies units with their type ("length-meter"), Intl does not
+        options.unit = stem === 'measure-unit' ? unit.replace(/^[a-z]+-/, '') : unit
+        return
+      }
+      case 'scale':
+        options.scale = Number(argument)
+        if (!Number.isFinite(options.scale)) {
+          this.fail(`Invalid scale "${argument}"`)
+        }
+        return
+      case 'integer':
+      case 'precision-integer':
+      case '.':
+        options.maximumFractionDigits = 0
+        return
+      case 'compact-short':
+      case 'K':
+        options.notation = 'compact'
+        options.compactDisplay = 'short'
+        return
+      case 'compact-long':
+      case 'KK':
+        options.notation = 'compact'
+        options.compactDisplay = 'long'
+        return
+      case 'scientific':
+      case 'engineering':
+        options.notation = stem
+        return
+      case 'group-off':
+      case ',_':
+        options.useGrouping = false
+        return
+      case 'sign-always':
+      case '+!':
+        options.signDisplay = 'always'
+        return
+      case 'sign-never':
+      case '+_':
+        options.signDisplay = 'never'
+        return
+      case 'sign-except-zero':
+      case '+?':
+        options.signDisplay = 'exceptZero'
+        return
+      case 'sign-accounting':
+        options.currencySign = 'accounting'
+        return
+      case 'unit-width-narrow':
+        options.currencyDisplay = 'narrowSymbol'
+        options.unitDisplay = 'narrow'
+        return
+      case 'unit-width-short':
+        options.currencyDisplay = 'symbol'
+        options.unitDisplay = 'short'
+        return
+      case 'unit-width-full-name':
+        options.currencyDisplay = 'name'
+        options.unitDisplay = 'long'
+        return
+      case 'unit-width-iso-code':
+        options.currencyDisplay = 'code'
+        return
+      default:
+        this.fail(`Unsupported number skeleton token "${token}"`)
+    }
+  }
+
+  private dateTimeOptions(type: 'date' | 'time', style: string | null): Intl.DateTimeFormatOptions {
+    const key = type === 'date' ? 'dateStyle' : 'timeStyle'
+
+    switch (style) {
+      case null:
+        return { [key]: 'medium' }
+      case 'short':
+      case 'medium':
+      case 'long':
+      case 'full':
+        return { [key]: style }
+    }
+
+    if (!style.startsWith('::')) {
+      return this.fail(`Unknown ${type} style "${style}"`)
+    }
+
+    return this.dateSkeletonOptions(style.slice(2).trim())
+  }
+
+  /**
+   * ICU date skeleton ("yMMMd", "EEEEjmm") as Intl.DateTimeFormat fields
+   */
+  private dateSkeletonOptions(skeleton: string): Intl.DateTimeFormatOptions {
+    const options: Intl.DateTimeFormatOptions = {}
+    const text = (length: number) => (length >= 5 ? 'narrow' : length === 4 ? 'long' : 'short')
+    const digits = (length: number) => (length === 2 ? '2-digit' : 'numeric')
+
+    for (const [field] of skeleton.matchAll(/([a-zA-Z])\1*/g)) {
+      const length = field.length
+
+      switch (field[0]) {
+        case 'G':
+          options.era = text(length)
+          break
+        case 'y':
+          options.year = digits(length)
+          break
+        case 'M':
+        case 'L':
+          options.month = length >= 3 ? text(length) : digits(length)
+          break
+        case 'd':
+          options.day = digits(length)
+          break
+        case 'E':
+          options.weekday = text(length)
+          break
+        case 'h':
+        case 'K':
+          options.hour = digits(length)
+          options.hour12 = true
+          break
+        case 'H':
+        case 'k':
+          options.hour = digits(length)
+          options.hour12 = false
+          break
+        case 'j':
+          options.hour = digits(length)
+          break
+        case 'm':
+          options.minute = digits(length)
+          break
+        case 's':
+          options.second = digits(length)
+          break
+        case 'a':
+          break
+        case 'z':
+          options.timeZoneName = length >= 4 ? 'long' : 'short'
+          break
+        default:
+          this.fail(`Unsupported date skeleton field "${field}"`)
+      }
+    }
+
+    return options
+  }
+
+  private parseIdentifier(what: string): string {
+    this.skipWhitespace()
+    const match = /^[\p{L}\p{N}_-]+/u.exec(this.source.slice(this.position))
+    if (!match) {
+      this.fail(`Expected ${what}`)
+    }
+
+    this.position += match[0].length
+    this.skipWhitespace()
+    return match[0]
+  }
+
+  private consume(char: string): boolean {
+    this.skipWhitespace()
+    if (this.source[this.position] !== char) {
+      return false
+    }
+
+    this.position++
+    return true
+  }
+
+  private expect(char: string): void {
+    if (!this.consume(char)) {
+      this.fail(`Expected "${char}"`)
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source[this.position] ?? '')) {
+      this.position++
+    }
+  }
+
+  private fail(message: string): never {
+    throw new MessageFormatError(`${message} at position ${this.position}`, this.source)
+  }
+}
+
+/**
+ * Language codes are BCP 47 tags already; anything Intl rejects formats as English
+ */
+function resolveLocale(language: LanguageCode): string {
+  let locale = resolvedLocales.get(language)
+
+  if (!locale) {
+    try {
+      locale = new Intl.PluralRules(language.replace('_', '-')).resolvedOptions().locale
+    } catch {
+      locale = 'en'
+    }
+    resolvedLocales.set(language, locale)
+  }
+
+  return locale
+}
+
+function getPluralRules(locale: string, ordinal: boolean): Intl.PluralRules {
+  return cached(
+    `plural:${locale}:${ordinal}`,
+    () => new Intl.PluralRules(locale, { type: ordinal ? 'ordinal' : 'cardinal' })
+  )
+}
+
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  return cached(
+    `number:${locale}:${JSON.stringify(options)}`,
+    () => new Intl.NumberFormat(locale, options)
+  )
+}
+
+function getDateTimeFormat(
+  locale: string,
+  options: Intl.DateTimeFormatOptions
+): Intl.DateTimeFormat {
+  return cached(
+    `date:${locale}:${JSON.stringify(options)}`,
+    () => new Intl.DateTimeFormat(locale, options)
+  )
+}
+
+function cached<T extends Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules>(
+  key: string,
+  create: () => T
+): T {
+  let format = intlCache.get(key) as T | undefined
+
+  if (!format) {
+    format = create()
+    intlCache.set(key, format)
+  }
+
+  return format
+}
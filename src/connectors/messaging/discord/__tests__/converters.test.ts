@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  AttachmentType,
+  ComponentType as UnifiedComponentType
+} from '../../../../core/interfaces/messaging.js'
+import { unifiedAttachmentsToDiscord } from '../converters/attachment-converter.js'
+import { KEYBOARD_BUTTON_PREFIX, unifiedMarkupToDiscord } from '../converters/markup-converter.js'
+import { ButtonStyle, ComponentType } from '../types.js'
+
+describe('Discord converters', () => {
+  describe('unifiedMarkupToDiscord', () => {
+    it('should return undefined without markup or components', () => {
+      expect(unifiedMarkupToDiscord()).toBeUndefined()
+    })
+
+    it('should clear components for remove markup', () => {
+      expect(unifiedMarkupToDiscord({ type: 'remove' })).toEqual([])
+    })
+
+    it('should map inline keyboard rows to action rows', () => {
+      const rows = unifiedMarkupToDiscord({
+        type: 'inline',
+        inline_keyboard: [
+          [
+            { text: 'Approve', callback_data: 'access:approve:1' },
+            { text: 'Docs', url: 'https://example.com' }
+          ],
+          [{ text: 'Search', switch_inline_query: 'q' }]
+        ]
+      })
+
+      expect(rows).toEqual([
+        {
+          type: ComponentType.ACTION_ROW,
+          components: [
+            {
+              type: ComponentType.BUTTON,
+              style: ButtonStyle.PRIMARY,
+              label: 'Approve',
+              custom_id: 'access:approve:1'
+            },
+            {
+              type: ComponentType.BUTTON,
+              style: ButtonStyle.LINK,
+              label: 'Docs',
+              url: 'https://example.com'
+            }
+          ]
+        },
+        {
+          type: ComponentType.ACTION_ROW,
+          components: [
+            {
+              type: ComponentType.BUTTON,
+              style: ButtonStyle.SECONDARY,
+              label: 'Search',
+              custom_id: 'noop:0',
+              disabled: true
+            }
+          ]
+        }
+      ])
+    })
+
+    it('should split rows wider than five buttons and reject more than five rows', () => {
+      const wideRow = (row: number) =>
+        Array.from({ length: 7 }, (_, i) => ({
+          text: `B${i}`,
+          callback_data: `b${row}:${i}`
+        }))
+      const rows = unifiedMarkupToDiscord({
+        type: 'inline',
+        inline_keyboard: [wideRow(0), wideRow(1)]
+      })
+
+      expect(rows).toHaveLength(4)
+      expect(rows?.[0]?.components).toHaveLength(5)
+      expect(rows?.[1]?.components).toHaveLength(2)
+
+      expect(() =>
+        unifiedMarkupToDiscord({
+          type: 'inline',
+          inline_keyboard: [wideRow(0), wideRow(1), wideRow(2)]
+        })
+      ).toThrow('limited to 5 component rows, got 6')
+    })
+
+    it('should keep custom_ids unique within a message', () => {
+      const rows = unifiedMarkupToDiscord({
+        type: 'inline',
+        inline_keyboard: [
+          [{ text: 'Search', switch_inline_query: 'q' }],
+          [{ text: 'Search here', switch_inline_query_current_chat: 'q' }]
+        ]
+      })
+      expect(rows?.map(row => row.components[0]?.custom_id)).toEqual(['noop:0', 'noop:1'])
+
+      expect(() =>
+        unifiedMarkupToDiscord({
+          type: 'inline',
+          inline_keyboard: [
+            [
+              { text: 'A', callback_data: 'same' },
+              { text: 'B', callback_data: 'same' }
+            ]
+          ]
+        })
+      ).toThrow('Duplicate Discord custom_id')
+    })
+
+    it('should reject callback data longer than a custom_id', () => {
+      expect(() =>
+        unifiedMarkupToDiscord({
+          type: 'inline',
+          inline_keyboard: [[{ text: 'Long', callback_data: 'x'.repeat(101) }]]
+        })
+      ).toThrow('limited to 100 characters')
+    })
+
+    it('should emulate reply keyboards with prefixed buttons', () => {
+      const rows = unifiedMarkupToDiscord({
+        type: 'keyboard',
+        keyboard: [[{ text: 'Yes' }, { text: 'No' }]]
+      })
+
+      expect(rows?.[0]?.components[0]).toMatchObject({
+        style: ButtonStyle.SECONDARY,
+        label: 'Yes',
+        custom_id: `${KEYBOARD_BUTTON_PREFIX}Yes`
+      })
+    })
+
+    it('should place select menus in their own row', () => {
+      const rows = unifiedMarkupToDiscord(
+        { type: 'inline', inline_keyboard: [[{ text: 'OK', callback_data: 'ok' }]] },
+        [
+          {
+            type: UnifiedComponentType.SELECT_MENU,
+            id: 'lang',
+            data: {
+              placeholder: 'Language',
+              options: [
+                { label: 'English', value: 'en' },
+                { label: 'Русский', value: 'ru' }
+              ]
+            }
+          },
+          {
+            type: UnifiedComponentType.BUTTON,
+            id: 'cancel',
+            data: { label: 'Cancel', style: ButtonStyle.DANGER }
+          }
+        ]
+      )
+
+      expect(rows).toHaveLength(3)
+      expect(rows?.[1]?.components[0]).toMatchObject({
+        type: ComponentType.STRING_SELECT,
+        custom_id: 'lang',
+        placeholder: 'Language'
+      })
+      expect(rows?.[2]?.components[0]).toMatchObject({
+        type: ComponentType.BUTTON,
+        style: ButtonStyle.DANGER,
+        custom_id: 'cancel'
+      })
+    })
+
+    it('should reject select menus with more than 25 options', () => {
+      const options = Array.from({ length: 26 }, (_, i) => ({ label: `O${i}`, value: `${i}` }))
+
+      expect(() =>
+        unifiedMarkupToDiscord(undefined, [
+          { type: UnifiedComponentType.SELECT_MENU, id: 'many', data: { options } }
+        ])
+      ).toThrow('limited to 25 options, got 26')
+    })
+  })
+
+  describe('unifiedAttachmentsToDiscord', () => {
+    it('should embed images and upload other media as files', () => {
+      const result = unifiedAttachmentsToDiscord([
+        { type: AttachmentType.PHOTO, url: 'https://cdn.example.com/a.png' },
+        {
+          type: AttachmentType.DOCUMENT,
+          url: 'https://cdn.example.com/report',
+          file_name: 'report.pdf',
+          mime_type: 'application/pdf'
+        },
+        { type: AttachmentType.VOICE, url: 'https://cdn.example.com/voice' },
+        { type: AttachmentType.VIDEO, file_id: 'telegram-only' }
+      ])
+
+      expect(result.embeds).toEqual([{ image: { url: 'https://cdn.example.com/a.png' } }])
+      expect(result.files).toEqual([
+        {
+          name: 'report.pdf',
+          url: 'https://cdn.example.com/report',
+          contentType: 'application/pdf'
+        },
+        { name: 'voice-3.ogg', url: 'https://cdn.example.com/voice', contentType: undefined }
+      ])
+    })
+  })
+})
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { DiscordRestClient } from '../discord-api.js'
+import { DiscordAPIError } from '../types.js'
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  })
+}
+
+describe('DiscordRestClient', () => {
+  const originalFetch = global.fetch
+  const mockFetch = () => global.fetch as ReturnType<typeof vi.fn>
+  let client: DiscordRestClient
+
+  beforeEach(() => {
+    global.fetch = vi.fn() as unknown as typeof fetch
+    client = new DiscordRestClient({
+      applicationId: 'app-1',
+      botToken: 'bot-token',
+      maxRateLimitWait: 1000
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('channel messages', () => {
+    it('should post a message with bot authorization', async () => {
+      mockFetch().mockResolvedValueOnce(jsonResponse({ id: 'm1', channel_id: 'c1', content: 'hi' }))
+
+      const result = await client.createMessage('c1', { content: 'hi' })
+
+      expect(result.id).toBe('m1')
+      const [url, init] = mockFetch().mock.calls[0]
+      expect(url).toBe('https://discord.com/api/v10/channels/c1/messages')
+      expect(init.method).toBe('POST')
+      expect(init.headers.Authorization).toBe('Bot bot-token')
+      expect(JSON.parse(init.body)).toEqual({ content: 'hi' })
+    })
+
+    it('should edit and delete channel messages', async () => {
+      mockFetch()
+        .mockResolvedValueOnce(jsonResponse({ id: 'm1', channel_id: 'c1', content: 'edited' }))
+        .mockResolvedValueOnce(jsonResponse(null, 204))
+
+      await client.editMessage('c1', 'm1', { content: 'edited' })
+      await client.deleteMessage('c1', 'm1')
+
+      expect(mockFetch().mock.calls[0][0]).toBe(
+        'https://discord.com/api/v10/channels/c1/messages/m1'
+      )
+      expect(mockFetch().mock.calls[0][1].method).toBe('PATCH')
+      expect(mockFetch().mock.calls[1][1].method).toBe('DELETE')
+    })
+
+    it('should surface API errors as DiscordAPIError', async () => {
+      mockFetch().mockResolvedValueOnce(
+        jsonResponse({ message: 'Missing Access', code: 50001 }, 403)
+      )
+
+      const error = await client.createMessage('c1', { content: 'x' }).catch(e => e)
+
+      expect(error).toBeInstanceOf(DiscordAPIError)
+      expect(error.message).toBe('Missing Access')
+      expect(error.code).toBe('50001')
+      expect(error.status).toBe(403)
+    })
+
+    it('should require a bot token for authorized routes', async () => {
+      const anonymous = new DiscordRestClient({ applicationId: 'app-1' })
+
+      await expect(anonymous.createMessage('c1', { content: 'x' })).rejects.toThrow(
+        'Bot token required'
+      )
+      expect(mockFetch()).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('interaction follow-ups', () => {
+    it('should send follow-ups through the application webhook without bot auth', async () => {
+      mockFetch().mockResolvedValueOnce(jsonResponse({ id: 'f1', channel_id: 'c1', content: 'x' }))
+
+      await client.createFollowupMessage('tok', { content: 'x' })
+
+      const [url, init] = mockFetch().mock.calls[0]
+      expect(url).toBe('https://discord.com/api/v10/webhooks/app-1/tok?wait=true')
+      expect(init.headers.Authorization).toBeUndefined()
+    })
+
+    it('should edit the original interaction response', async () => {
+      mockFetch().mockResolvedValueOnce(jsonResponse({ id: 'o1', channel_id: 'c1', content: 'y' }))
+
+      await client.editFollowupMessage('tok', '@original', { content: 'y' })
+
+      expect(mockFetch().mock.calls[0][0]).toBe(
+        'https://discord.com/api/v10/webhooks/app-1/tok/messages/@original'
+      )
+    })
+  })
+
+  describe('application commands', () => {
+    const commands = [{ name: 'help', description: 'Show help', type: 1 }]
+
+    it('should overwrite global commands', async () => {
+      mockFetch().mockResolvedValueOnce(jsonResponse([]))
+
+      await client.bulkOverwriteGlobalCommands(commands)
+
+      const [url, init] = mockFetch().mock.calls[0]
+      expect(url).toBe('https://discord.com/api/v10/applications/app-1/commands')
+      expect(init.method).toBe('PUT')
+      expect(JSON.parse(init.body)).toEqual(commands)
+    })
+
+    it('should overwrite guild commands', async () => {
+      mockFetch().mockResolvedValueOnce(jsonResponse([]))
+
+      await client.bulkOverwriteGuildCommands('g1', commands)
+
+      expect(mockFetch().mock.calls[0][0]).toBe(
+        'https://discord.com/api/v10/applications/app-1/guilds/g1/commands'
+      )
+    })
+  })
+
+  describe('rate limiting', () => {
+    it('should retry after a 429 response', async () => {
+      mockFetch()
+        .mockResolvedValueOnce(
+          jsonResponse({ message: 'You are being rate limited.', retry_after: 0.01 }, 429)
+        )
+        .mockResolvedValueOnce(jsonResponse({ id: 'm1', channel_id: 'c1', content: 'x' }))
+
+      const result = await client.createMessage('c1', { content: 'x' })
+
+      expect(result.id).toBe('m1')
+      expect(mockFetch()).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give up when retry_after exceeds the allowed wait', async () => {
+      mockFetch().mockResolvedValueOnce(jsonResponse({ retry_after: 60 }, 429))
+
+      const error = await client.createMessage('c1', { content: 'x' }).catch(e => e)
+
+      expect(error).toBeInstanceOf(DiscordAPIError)
+      expect(error.code).toBe('RATE_LIMITED')
+      expect(mockFetch()).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop after maxRetries', async () => {
+      const limited = new DiscordRestClient({
+        applicationId: 'app-1',
+        botToken: 'bot-token',
+        maxRetries: 1
+      })
+      mockFetch().mockImplementation(async () => jsonResponse({ retry_after: 0.001 }, 429))
+
+      await expect(limited.createMessage('c1', { content: 'x' })).rejects.toThrow('Rate limited')
+      expect(mockFetch()).toHaveBeenCalledTimes(2)
+    })
+
+    it('should wait for an exhausted bucket before the next request', async () => {
+      const bucketHeaders = {
+        'X-RateLimit-Bucket': 'b1',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset-After': '0.05'
+      }
+      mockFetch()
+        .mockResolvedValueOnce(jsonResponse({ id: 'm1', channel_id: 'c1' }, 200, bucketHeaders))
+        .mockResolvedValueOnce(jsonResponse({ id: 'm2', channel_id: 'c1' }))
+
+      await client.createMessage('c1', { content: 'a' })
+      const start = Date.now()
+      await client.createMessage('c1', { content: 'b' })
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(40)
+    })
+
+    it('should refuse to wait for a bucket that resets too late', async () => {
+      mockFetch().mockResolvedValueOnce(
+        jsonResponse({ id: 'm1', channel_id: 'c1' }, 200, {
+          'X-RateLimit-Bucket': 'b1',
+          'X-RateLimit-Remaining': '0',
+          'X-RateLimit-Reset-After': '30'
+        })
+      )
+
+      await client.createMessage('c1', { content: 'a' })
+
+      await expect(client.createMessage('c1', { content: 'b' })).rejects.toThrow(
+        'Rate limit bucket exhausted'
+      )
+      expect(mockFetch()).toHaveBeenCalledTimes(1)
+    })
+
+    it('should key buckets by major parameter only', () => {
+      expect(DiscordRestClient.getRouteKey('PATCH', '/channels/123456/messages/987654')).toBe(
+        'PATCH /channels/123456/messages/:id'
+      )
+      expect(
+        DiscordRestClient.getRouteKey('PUT', '/applications/123456/guilds/777777/commands')
+      ).toBe('PUT /applications/:id/guilds/777777/commands')
+    })
+  })
+})
@@ -1,8 +1,10 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { EventBus } from '../../../../core/events/event-bus.js'
 import { ConnectorType } from '../../../../core/interfaces/connector.js'
 import {
+  AttachmentType,
+  type MessageRef,
   MessageType,
   Platform,
   type UnifiedMessage
@@ -71,29 +73,174 @@ describe('Discord Connector', () => {
   })
 
   describe('Webhook Handling', () => {
+    let keyPair: CryptoKeyPair
+
+    const toHex = (buffer: ArrayBuffer) =>
+      Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('')
+
+    const signedRequest = async (
+      body: string,
+      timestamp = String(Math.floor(Date.now() / 1000))
+    ) => {
+      const signature = await crypto.subtle.sign(
+        'Ed25519',
+        keyPair.privateKey,
+        new TextEncoder().encode(timestamp + body)
+      )
+      return new Request('https://example.com/webhook', {
+        method: 'POST',
+        headers: {
+          'X-Signature-Ed25519': toHex(signature),
+          'X-Signature-Timestamp': timestamp
+        },
+        body
+      })
+    }
+
     beforeEach(async () => {
+      keyPair = (await crypto.subtle.generateKey('Ed25519', true, [
+        'sign',
+        'verify'
+      ])) as CryptoKeyPair
+      const publicKey = (await crypto.subtle.exportKey('raw', keyPair.publicKey)) as ArrayBuffer
+
       await connector.initialize({
         applicationId: 'test-app-id',
-        publicKey: 'test-public-key',
+        publicKey: toHex(publicKey),
         eventBus
       })
     })
 
-    it('should handle ping interaction', async () => {
+    it('should answer signed ping interaction with pong', async () => {
+      const request = await signedRequest(JSON.stringify({ type: 1 }))
+
+      const response = await connector.handleWebhook(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ type: 1 })
+    })
+
+    it('should accept a valid signature', async () => {
+      const request = await signedRequest(JSON.stringify({ type: 2 }))
+
+      await expect(connector.validateWebhook(request)).resolves.toBe(true)
+    })
+
+    it('should reject forged signatures', async () => {
       const request = new Request('https://example.com/webhook', {
         method: 'POST',
         headers: {
-          'X-Signature-Ed25519': 'test-signature',
-          'X-Signature-Timestamp': '123456'
+          'X-Signature-Ed25519': 'ab'.repeat(64),
+          'X-Signature-Timestamp': String(Math.floor(Date.now() / 1000))
         },
         body: JSON.stringify({ type: 1 })
       })
 
       const response = await connector.handleWebhook(request)
-      const data = await response.json()
 
-      expect(response.status).toBe(200)
-      expect(data).toEqual({ type: 1 })
+      expect(response.status).toBe(401)
+    })
+
+    it('should reject a tampered body', async () => {
+      const timestamp = String(Math.floor(Date.now() / 1000))
+      const signed = await signedRequest(JSON.stringify({ type: 2 }), timestamp)
+      const tampered = new Request(signed.url, {
+        method: 'POST',
+        headers: signed.headers,
+        body: JSON.stringify({ type: 2, data: { name: 'admin' } })
+      })
+
+      await expect(connector.validateWebhook(tampered)).resolves.toBe(false)
+    })
+
+    it('should retry the key import after it failed', async () => {
+      const importKey = vi
+        .spyOn(crypto.subtle, 'importKey')
+        .mockRejectedValueOnce(new Error('import failed'))
+
+      const failing = await signedRequest(JSON.stringify({ type: 2 }))
+      await expect(connector.validateWebhook(failing)).resolves.toBe(false)
+
+      const request = await signedRequest(JSON.stringify({ type: 2 }))
+      await expect(connector.validateWebhook(request)).resolves.toBe(true)
+      expect(importKey).toHaveBeenCalledTimes(2)
+      importKey.mockRestore()
+    })
+
+    it('should reject stale timestamps', async () => {
+      const staleTimestamp = String(Math.floor(Date.now() / 1000) - 600)
+      const request = await signedRequest(JSON.stringify({ type: 1 }), staleTimestamp)
+
+      await expect(connector.validateWebhook(request)).resolves.toBe(false)
+    })
+
+    it('should emit callback-style events for component interactions', async () => {
+      const validateSpy = vi.spyOn(connector, 'validateWebhook').mockResolvedValue(true)
+      let callback: { query: { data: string; message_id?: string } } | undefined
+      let messageReceived = false
+
+      eventBus.on('discord:callback_query', data => {
+        callback = data.payload as typeof callback
+      })
+      eventBus.on('message.received', () => {
+        messageReceived = true
+      })
+
+      const request = new Request('https://example.com/webhook', {
+        method: 'POST',
+        body: JSON.stringify({
+          id: 'i-1',
+          type: 3,
+          token: 'tok',
+          channel_id: 'channel-123',
+          message: { id: 'msg-1', channel_id: 'channel-123' },
+          data: { custom_id: 'access:approve:42', component_type: 2 },
+          user: { id: 'user-1', username: 'Tester' }
+        })
+      })
+
+      const response = await connector.handleWebhook(request)
+
+      expect(await response.json()).toEqual({ type: 6 })
+      expect(callback?.query.data).toBe('access:approve:42')
+      expect(callback?.query.message_id).toBe('channel-123:msg-1')
+      expect(messageReceived).toBe(false)
+      validateSpy.mockRestore()
+    })
+
+    it('should report reply keyboard presses as text messages', async () => {
+      const validateSpy = vi.spyOn(connector, 'validateWebhook').mockResolvedValue(true)
+      let emittedMessage: UnifiedMessage | undefined
+
+      eventBus.on('message.received', data => {
+        emittedMessage = data.payload.message
+      })
+
+      const request = new Request('https://example.com/webhook', {
+        method: 'POST',
+        body: JSON.stringify({
+          id: 'i-2',
+          type: 3,
+          channel_id: 'channel-123',
+          data: { custom_id: 'kb:Yes', component_type: 2 },
+          user: { id: 'user-1', username: 'Tester' }
+        })
+      })
+
+      await connector.handleWebhook(request)
+
+      expect(emittedMessage?.content.text).toBe('Yes')
+      validateSpy.mockRestore()
+    })
+
+    it('should reject requests without signature headers', async () => {
+      const request = new Request('https://example.com/webhook', {
+        method: 'POST',
+        body: JSON.stringify({ type: 1 })
+      })
+
+      await expect(connector.validateWebhook(request)).resolves.toBe(false)
     })
 
     it('should reject invalid webhook signature', async () => {
@@ -154,7 +301,20 @@ describe('Discord Connector', () => {
   })
 
   describe('Message Operations', () => {
+    const originalFetch = global.fetch
+    const mockFetch = () => global.fetch as ReturnType<typeof vi.fn>
+    const message = {
+      content: {
+        text: 'Test message',
+        type: MessageType.TEXT
+      }
+    }
+
     beforeEach(async () => {
+      global.fetch = vi.fn(async () =>
+        Response.json({ id: 'msg-1', channel_id: 'channel-123', content: 'Test message' })
+      ) as unknown as typeof fetch
+
       await connector.initialize({
         applicationId: 'test-app-id',
         publicKey: 'test-public-key',
@@ -163,35 +323,144 @@ describe('Discord Connector', () => {
       })
     })
 
-    it('should handle send message (mock)', async () => {
-      // Since actual Discord API calls are not implemented,
-      // we test the message conversion logic
-      const message = {
+    afterEach(() => {
+      global.fetch = originalFetch
+    })
+
+    it('should send message to a channel', async () => {
+      const result = await connector.sendMessage('channel-123', message)
+
+      expect(result).toEqual({
+        success: true,
+        message_id: 'channel-123:msg-1',
+        ref: { platform: Platform.DISCORD, chat_id: 'channel-123', message_id: 'msg-1' }
+      })
+      expect(mockFetch().mock.calls[0][0]).toBe(
+        'https://discord.com/api/v10/channels/channel-123/messages'
+      )
+      expect(JSON.parse(mockFetch().mock.calls[0][1].body).content).toBe('Test message')
+    })
+
+    it('should send interaction follow-ups', async () => {
+      const result = await connector.sendMessage('interaction:token-abc', message)
+
+      expect(result.message_id).toBe('interaction:token-abc:msg-1')
+      expect(mockFetch().mock.calls[0][0]).toBe(
+        'https://discord.com/api/v10/webhooks/test-app-id/token-abc?wait=true'
+      )
+    })
+
+    it('should edit and delete messages by returned ID', async () => {
+      await connector.editMessage('channel-123:msg-1', message)
+      await connector.deleteMessage('interaction:token-abc:msg-2')
+
+      expect(mockFetch().mock.calls[0][0]).toBe(
+        'https://discord.com/api/v10/channels/channel-123/messages/msg-1'
+      )
+      expect(mockFetch().mock.calls[0][1].method).toBe('PATCH')
+      expect(mockFetch().mock.calls[1][0]).toBe(
+        'https://discord.com/api/v10/webhooks/test-app-id/token-abc/messages/msg-2'
+      )
+      expect(mockFetch().mock.calls[1][1].method).toBe('DELETE')
+    })
+
+    it('should send inline buttons as components', async () => {
+      await connector.sendMessage('channel-123', {
         content: {
-          text: 'Test message',
-          type: MessageType.TEXT
+          text: 'Choose',
+          markup: {
+            type: 'inline',
+            inline_keyboard: [[{ text: 'Option 1', callback_data: 'opt1' }]]
+          }
         }
-      }
+      })
+
+      const body = JSON.parse(mockFetch().mock.calls[0][1].body)
+      expect(body.components).toEqual([
+        {
+          type: 1,
+          components: [{ type: 2, style: 1, label: 'Option 1', custom_id: 'opt1' }]
+        }
+      ])
+    })
 
-      // This will throw 'Not implemented' in the current stub
-      await expect(connector.sendMessage('channel-123', message)).resolves.toEqual({
-        success: false,
-        error: expect.any(Error)
+    it('should upload non-image attachments as files', async () => {
+      mockFetch()
+        .mockResolvedValueOnce(new Response('file-bytes'))
+        .mockResolvedValueOnce(Response.json({ id: 'msg-2', channel_id: 'channel-123' }))
+
+      await connector.sendMessage('channel-123', {
+        content: { text: 'Report' },
+        attachments: [
+          { type: AttachmentType.PHOTO, url: 'https://cdn.example.com/chart.png' },
+          {
+            type: AttachmentType.DOCUMENT,
+            url: 'https://cdn.example.com/report.pdf',
+            file_name: 'report.pdf'
+          }
+        ]
       })
+
+      expect(mockFetch().mock.calls[0][0]).toBe('https://cdn.example.com/report.pdf')
+      const form = mockFetch().mock.calls[1][1].body as FormData
+      expect(form).toBeInstanceOf(FormData)
+      const payload = JSON.parse(form.get('payload_json') as string)
+      expect(payload.embeds).toEqual([{ image: { url: 'https://cdn.example.com/chart.png' } }])
+      expect(payload.attachments).toEqual([{ id: 0, filename: 'report.pdf' }])
+      expect(form.get('files[0]')).toBeInstanceOf(Blob)
+    })
+
+    it('should edit and delete messages by returned ref', async () => {
+      const sent = await connector.sendMessage('interaction:token-abc', message)
+
+      await connector.editMessage(sent.ref as MessageRef, message)
+      await connector.deleteMessage(sent.ref as MessageRef)
+
+      expect(mockFetch().mock.calls[1][0]).toBe(
+        'https://discord.com/api/v10/webhooks/test-app-id/token-abc/messages/msg-1'
+      )
+      expect(mockFetch().mock.calls[1][1].method).toBe('PATCH')
+      expect(mockFetch().mock.calls[2][1].method).toBe('DELETE')
+    })
+
+    it('should reject refs from other platforms', async () => {
+      const result = await connector.editMessage(
+        { platform: Platform.TELEGRAM, chat_id: '1', message_id: '2' },
+        message
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error?.message).toBe('Message reference for telegram passed to discord')
+      expect(mockFetch()).not.toHaveBeenCalled()
+    })
+
+    it('should reject message IDs without channel', async () => {
+      const result = await connector.editMessage('msg-1', message)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.message).toContain('Invalid Discord message ID')
+      expect(mockFetch()).not.toHaveBeenCalled()
+    })
+
+    it('should report API failures', async () => {
+      mockFetch().mockResolvedValue(Response.json({ message: 'Unknown Channel' }, { status: 404 }))
+
+      const result = await connector.sendMessage('channel-404', message)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.message).toBe('Unknown Channel')
     })
 
     it('should handle bulk messages', async () => {
-      const message = {
-        content: {
-          text: 'Bulk message',
-          type: MessageType.TEXT
-        }
-      }
+      mockFetch()
+        .mockResolvedValueOnce(Response.json({ id: 'msg-1', channel_id: 'channel-1' }))
+        .mockResolvedValueOnce(Response.json({ message: 'Missing Access' }, { status: 403 }))
 
       const result = await connector.sendBulk(['channel-1', 'channel-2'], message)
 
       expect(result.total).toBe(2)
-      expect(result.failed).toBe(2) // All fail due to not implemented
+      expect(result.successful).toBe(1)
+      expect(result.failed).toBe(1)
       expect(result.results).toHaveLength(2)
     })
   })
@@ -228,6 +497,39 @@ describe('Discord Connector', () => {
         'Bot token required to set commands'
       )
     })
+
+    it('should register global and guild-scoped commands', async () => {
+      const originalFetch = global.fetch
+      const fetchMock = vi.fn(async () => Response.json([]))
+      global.fetch = fetchMock as unknown as typeof fetch
+
+      try {
+        await connector.initialize({
+          applicationId: 'test-app-id',
+          publicKey: 'test-public-key',
+          botToken: 'test-bot-token',
+          eventBus
+        })
+
+        await connector.setCommands([
+          { command: '/Help', description: 'Show help' },
+          { command: 'admin', description: 'Admin tools', scope: { type: 'chat', chat_id: 'g1' } }
+        ])
+
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+        expect(fetchMock.mock.calls[0][0]).toBe(
+          'https://discord.com/api/v10/applications/test-app-id/commands'
+        )
+        expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual([
+          { name: 'help', description: 'Show help', type: 1 }
+        ])
+        expect(fetchMock.mock.calls[1][0]).toBe(
+          'https://discord.com/api/v10/applications/test-app-id/guilds/g1/commands'
+        )
+      } finally {
+        global.fetch = originalFetch
+      }
+    })
   })
 
   describe('Webhook Management', () => {
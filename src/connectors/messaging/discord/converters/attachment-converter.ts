@@ -0,0 +1,79 @@
+/**
+ * Converter for UnifiedMessage attachments to Discord embeds and file uploads
+ */
+
+import type { Attachment } from '../../../../core/interfaces/messaging.js'
+import { AttachmentType } from '../../../../core/interfaces/messaging.js'
+import type { DiscordEmbed } from '../types.js'
+
+export const MAX_EMBEDS = 10
+export const MAX_FILES = 10
+
+/**
+ * File that has to be downloaded from `url` and uploaded to Discord
+ */
+export interface DiscordFileReference {
+  name: string
+  url: string
+  contentType?: string
+}
+
+export interface DiscordAttachmentPayload {
+  embeds: DiscordEmbed[]
+  files: DiscordFileReference[]
+}
+
+/**
+ * Attachment types Discord can render inline from a URL
+ */
+const EMBEDDABLE_TYPES = new Set([
+  AttachmentType.PHOTO,
+  AttachmentType.ANIMATION,
+  AttachmentType.STICKER
+])
+
+const DEFAULT_EXTENSIONS: Partial<Record<AttachmentType, string>> = {
+  [AttachmentType.VIDEO]: 'mp4',
+  [AttachmentType.VIDEO_NOTE]: 'mp4',
+  [AttachmentType.AUDIO]: 'mp3',
+  [AttachmentType.VOICE]: 'ogg',
+  [AttachmentType.DOCUMENT]: 'bin'
+}
+
+/**
+ * Convert attachments to Discord embeds (images) and file uploads (everything else).
+ * Attachments without a URL (e.g. Telegram file_id) cannot be delivered and are skipped.
+ */
+export function unifiedAttachmentsToDiscord(attachments: Attachment[]): DiscordAttachmentPayload {
+  const embeds: DiscordEmbed[] = []
+  const files: DiscordFileReference[] = []
+
+  attachments.forEach((attachment, index) => {
+    if (!attachment.url) return
+
+    if (EMBEDDABLE_TYPES.has(attachment.type)) {
+      if (embeds.length >= MAX_EMBEDS) return
+      const embed: DiscordEmbed = { image: { url: attachment.url } }
+      if (attachment.file_name) embed.title = attachment.file_name
+      embeds.push(embed)
+      return
+    }
+
+    if (files.length >= MAX_FILES) return
+    files.push({
+      name: attachment.file_name || getDefaultFileName(attachment, index),
+      url: attachment.url,
+      contentType: attachment.mime_type
+    })
+  })
+
+  return { embeds, files }
+}
+
+function getDefaultFileName(attachment: Attachment, index: number): string {
+  const extension =
+    attachment.mime_type?.split('/')[1]?.split(';')[0] ??
+    DEFAULT_EXTENSIONS[attachment.type] ??
+    'bin'
+  return `${attachment.type}-${index + 1}.${extension}`
+}
@@ -0,0 +1,255 @@
+/**
+ * Converter for markup and interactive components between Discord and UnifiedMessage formats
+ */
+
+import type {
+  InlineButton,
+  InteractiveComponent,
+  KeyboardButton,
+  MessageMarkup
+} from '../../../../core/interfaces/messaging.js'
+import { ComponentType as UnifiedComponentType } from '../../../../core/interfaces/messaging.js'
+import type {
+  DiscordActionRow,
+  DiscordButton,
+  DiscordSelectMenu,
+  DiscordSelectOption
+} from '../types.js'
+import { ButtonStyle, ComponentType } from '../types.js'
+
+/**
+ * Discord limits for message components
+ */
+export const MAX_ACTION_ROWS = 5
+export const MAX_BUTTONS_PER_ROW = 5
+export const MAX_CUSTOM_ID_LENGTH = 100
+export const MAX_LABEL_LENGTH = 80
+export const MAX_SELECT_OPTIONS = 25
+
+/**
+ * Prefix of custom_id for buttons generated from reply keyboards.
+ * Discord has no reply keyboards, so pressing such a button is reported
+ * back as a text message with the button label.
+ */
+export const KEYBOARD_BUTTON_PREFIX = 'kb:'
+
+/**
+ * Prefix of custom_id for disabled placeholder buttons (inline query switches).
+ * Numbered per message because Discord rejects duplicate custom_ids.
+ */
+const PLACEHOLDER_PREFIX = 'noop:'
+
+/**
+ * Data accepted by a unified `select_menu` component
+ */
+export interface SelectMenuData {
+  placeholder?: string
+  options: DiscordSelectOption[]
+  min_values?: number
+  max_values?: number
+  disabled?: boolean
+}
+
+/**
+ * Data accepted by a unified `button` component
+ */
+export interface ButtonData {
+  label: string
+  style?: ButtonStyle
+  url?: string
+  disabled?: boolean
+}
+
+/**
+ * Convert UnifiedMessage markup and components to Discord action rows.
+ * Returns an empty array for `remove` markup so edits clear existing components.
+ */
+export function unifiedMarkupToDiscord(
+  markup?: MessageMarkup,
+  components?: InteractiveComponent[]
+): DiscordActionRow[] | undefined {
+  if (!markup && !components?.length) return undefined
+
+  const rows: DiscordActionRow[] = []
+
+  if (markup?.type === 'inline' && markup.inline_keyboard) {
+    for (const row of markup.inline_keyboard) {
+      rows.push(...chunkRow(row.map(inlineButtonToDiscord)))
+    }
+  }
+
+  if (markup?.type === 'keyboard' && markup.keyboard) {
+    for (const row of markup.keyboard) {
+      rows.push(...chunkRow(row.map(keyboardButtonToDiscord)))
+    }
+  }
+
+  for (const component of components ?? []) {
+    const converted = interactiveComponentToDiscord(component)
+    if (!converted) continue
+
+    // Select menus must occupy a whole row, buttons can share the last one
+    const lastRow = rows[rows.length - 1]
+    if (
+      converted.type === ComponentType.BUTTON &&
+      lastRow &&
+      lastRow.components.length < MAX_BUTTONS_PER_ROW &&
+      lastRow.components.every(c => c.type === ComponentType.BUTTON)
+    ) {
+      lastRow.components.push(converted)
+    } else {
+      rows.push({ type: ComponentType.ACTION_ROW, components: [converted] })
+    }
+  }
+
+  // Dropping rows would make their buttons vanish without a trace
+  if (rows.length > MAX_ACTION_ROWS) {
+    throw new Error(
+      `Discord messages are limited to ${MAX_ACTION_ROWS} component rows, got ${rows.length}`
+    )
+  }
+
+  return assignUniqueIds(rows)
+}
+
+/**
+ * Convert an inline button to a Discord button
+ */
+export function inlineButtonToDiscord(button: InlineButton): DiscordButton {
+  const label = truncate(button.text, MAX_LABEL_LENGTH)
+
+  if (button.url) {
+    return { type: ComponentType.BUTTON, style: ButtonStyle.LINK, label, url: button.url }
+  }
+
+  if (button.callback_data) {
+    return {
+      type: ComponentType.BUTTON,
+      style: ButtonStyle.PRIMARY,
+      label,
+      custom_id: checkCustomId(button.callback_data)
+    }
+  }
+
+  // Inline query switches have no Discord equivalent
+  return {
+    type: ComponentType.BUTTON,
+    style: ButtonStyle.SECONDARY,
+    label,
+    custom_id: PLACEHOLDER_PREFIX,
+    disabled: true
+  }
+}
+
+/**
+ * Convert a reply keyboard button to a Discord button
+ */
+export function keyboardButtonToDiscord(button: KeyboardButton): DiscordButton {
+  return {
+    type: ComponentType.BUTTON,
+    style: ButtonStyle.SECONDARY,
+    label: truncate(button.text, MAX_LABEL_LENGTH),
+    custom_id: checkCustomId(`${KEYBOARD_BUTTON_PREFIX}${button.text}`)
+  }
+}
+
+/**
+ * Convert a unified interactive component to a Discord component
+ */
+export function interactiveComponentToDiscord(
+  component: InteractiveComponent
+): DiscordButton | DiscordSelectMenu | undefined {
+  const customId = checkCustomId(component.id)
+
+  if (component.type === UnifiedComponentType.SELECT_MENU) {
+    const data = component.data as SelectMenuData
+    return {
+      type: ComponentType.STRING_SELECT,
+      custom_id: customId,
+      placeholder: data.placeholder,
+      min_values: data.min_values,
+      max_values: data.max_values,
+      disabled: data.disabled,
+      options: checkSelectOptions(data.options)
+    }
+  }
+
+  if (component.type === UnifiedComponentType.BUTTON) {
+    const data = component.data as ButtonData
+    const label = truncate(data.label, MAX_LABEL_LENGTH)
+    if (data.url) {
+      return { type: ComponentType.BUTTON, style: ButtonStyle.LINK, label, url: data.url }
+    }
+    return {
+      type: ComponentType.BUTTON,
+      style: data.style ?? ButtonStyle.PRIMARY,
+      label,
+      custom_id: customId,
+      disabled: data.disabled
+    }
+  }
+
+  // Text inputs and modals are only valid inside modal responses
+  return undefined
+}
+
+function chunkRow(buttons: DiscordButton[]): DiscordActionRow[] {
+  const rows: DiscordActionRow[] = []
+  for (let i = 0; i < buttons.length; i += MAX_BUTTONS_PER_ROW) {
+    rows.push({
+      type: ComponentType.ACTION_ROW,
+      components: buttons.slice(i, i + MAX_BUTTONS_PER_ROW)
+    })
+  }
+  return rows
+}
+
+/**
+ * Discord answers 400 for the whole message when a custom_id is too long, and
+ * a truncated id would come back as different callback data
+ */
+function checkCustomId(customId: string): string {
+  if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+    throw new Error(
+      `Discord custom_id is limited to ${MAX_CUSTOM_ID_LENGTH} characters, got ${customId.length}`
+    )
+  }
+  return customId
+}
+
+/**
+ * Options past the limit would be missing from the menu without any error
+ */
+function checkSelectOptions(options: DiscordSelectOption[]): DiscordSelectOption[] {
+  if (options.length > MAX_SELECT_OPTIONS) {
+    throw new Error(
+      `Discord select menus are limited to ${MAX_SELECT_OPTIONS} options, got ${options.length}`
+    )
+  }
+  return options
+}
+
+/**
+ * Number placeholder buttons and reject duplicate custom_ids within a message
+ */
+function assignUniqueIds(rows: DiscordActionRow[]): DiscordActionRow[] {
+  const seen = new Set<string>()
+  let placeholders = 0
+
+  for (const component of rows.flatMap(row => row.components)) {
+    if (component.custom_id === undefined) continue
+
+    if (component.custom_id === PLACEHOLDER_PREFIX) {
+      component.custom_id = `${PLACEHOLDER_PREFIX}${placeholders++}`
+    } else if (seen.has(component.custom_id)) {
+      throw new Error(`Duplicate Discord custom_id in one message: ${component.custom_id}`)
+    }
+    seen.add(component.custom_id)
+  }
+
+  return rows
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? value.slice(0, maxLength) : value
+}
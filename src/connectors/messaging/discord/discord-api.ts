@@ -0,0 +1,431 @@
+import { DiscordAPIError } from './types.js'
+
+export const DISCORD_API_BASE_URL = 'https://discord.com/api/v10'
+
+/**
+ * Options for the Discord REST client
+ */
+export interface DiscordRestClientOptions {
+  /**
+   * Discord application ID (used for commands and interaction webhooks)
+   */
+  applicationId: string
+
+  /**
+   * Bot token, required for channel and command endpoints
+   */
+  botToken?: string
+
+  /**
+   * API base URL (defaults to Discord REST v10)
+   */
+  baseUrl?: string
+
+  /**
+   * How many times a rate-limited request is retried
+   */
+  maxRetries?: number
+
+  /**
+   * Longest wait (ms) the client accepts before giving up on a rate limit
+   */
+  maxRateLimitWait?: number
+}
+
+/**
+ * File uploaded alongside a message (multipart/form-data)
+ */
+export interface DiscordFile {
+  name: string
+  data: Blob
+}
+
+export interface DiscordRequestOptions {
+  body?: unknown
+  files?: DiscordFile[]
+  query?: Record<string, string | number | boolean | undefined>
+  /**
+   * Skip the bot Authorization header (interaction webhooks are authorized by token)
+   */
+  auth?: boolean
+  /**
+   * Audit log reason
+   */
+  reason?: string
+}
+
+/**
+ * Raw message payload accepted by Discord message endpoints
+ */
+export interface DiscordMessagePayload {
+  content?: string
+  embeds?: unknown[]
+  components?: unknown[]
+  allowed_mentions?: {
+    parse?: string[]
+  }
+  flags?: number
+  message_reference?: {
+    message_id: string
+    fail_if_not_exists?: boolean
+  }
+}
+
+export interface DiscordMessageResponse {
+  id: string
+  channel_id: string
+  content: string
+  author: {
+    id: string
+    username: string
+  }
+}
+
+export interface DiscordApplicationCommand {
+  name: string
+  description: string
+  type: number
+  options?: unknown[]
+}
+
+export interface DiscordApplicationCommandResponse extends DiscordApplicationCommand {
+  id: string
+  application_id: string
+  guild_id?: string
+  version: string
+}
+
+interface RateLimitBucket {
+  remaining: number
+  resetAt: number
+}
+
+interface DiscordErrorBody {
+  message?: string
+  code?: number
+  retry_after?: number
+  global?: boolean
+}
+
+/**
+ * Minimal Discord REST v10 client with rate-limit bucket handling.
+ *
+ * Discord groups routes into buckets keyed by the route and its major parameter
+ * (channel, guild or webhook). The client remembers the bucket reported for each
+ * route, waits when a bucket is exhausted and retries on 429 responses.
+ */
+export class DiscordRestClient {
+  private readonly applicationId: string
+  private readonly botToken?: string
+  private readonly baseUrl: string
+  private readonly maxRetries: number
+  private readonly maxRateLimitWait: number
+
+  private routeBuckets = new Map<string, string>()
+  private buckets = new Map<string, RateLimitBucket>()
+  private globalResetAt = 0
+
+  constructor(options: DiscordRestClientOptions) {
+    this.applicationId = options.applicationId
+    this.botToken = options.botToken
+    this.baseUrl = options.baseUrl ?? DISCORD_API_BASE_URL
+    this.maxRetries = options.maxRetries ?? 3
+    this.maxRateLimitWait = options.maxRateLimitWait ?? 10_000
+  }
+
+  /**
+   * Post a message to a channel
+   */
+  createMessage(
+    channelId: string,
+    message: DiscordMessagePayload,
+    files?: DiscordFile[]
+  ): Promise<DiscordMessageResponse> {
+    return this.request<DiscordMessageResponse>('POST', `/channels/${channelId}/messages`, {
+      body: message,
+      files
+    })
+  }
+
+  /**
+   * Edit a message in a channel
+   */
+  editMessage(
+    channelId: string,
+    messageId: string,
+    message: DiscordMessagePayload,
+    files?: DiscordFile[]
+  ): Promise<DiscordMessageResponse> {
+    return this.request<DiscordMessageResponse>(
+      'PATCH',
+      `/channels/${channelId}/messages/${messageId}`,
+      { body: message, files }
+    )
+  }
+
+  /**
+   * Delete a message from a channel
+   */
+  async deleteMessage(channelId: string, messageId: string): Promise<void> {
+    await this.request('DELETE', `/channels/${channelId}/messages/${messageId}`)
+  }
+
+  /**
+   * Send an interaction follow-up message
+   */
+  createFollowupMessage(
+    interactionToken: string,
+    message: DiscordMessagePayload,
+    files?: DiscordFile[]
+  ): Promise<DiscordMessageResponse> {
+    return this.request<DiscordMessageResponse>(
+      'POST',
+      `/webhooks/${this.applicationId}/${interactionToken}`,
+      { body: message, files, query: { wait: true }, auth: false }
+    )
+  }
+
+  /**
+   * Edit an interaction follow-up (use `@original` for the initial response)
+   */
+  editFollowupMessage(
+    interactionToken: string,
+    messageId: string,
+    message: DiscordMessagePayload,
+    files?: DiscordFile[]
+  ): Promise<DiscordMessageResponse> {
+    return this.request<DiscordMessageResponse>(
+      'PATCH',
+      `/webhooks/${this.applicationId}/${interactionToken}/messages/${messageId}`,
+      { body: message, files, auth: false }
+    )
+  }
+
+  /**
+   * Delete an interaction follow-up (use `@original` for the initial response)
+   */
+  async deleteFollowupMessage(interactionToken: string, messageId: string): Promise<void> {
+    await this.request(
+      'DELETE',
+      `/webhooks/${this.applicationId}/${interactionToken}/messages/${messageId}`,
+      { auth: false }
+    )
+  }
+
+  /**
+   * Replace all global application commands
+   */
+  bulkOverwriteGlobalCommands(
+    commands: DiscordApplicationCommand[]
+  ): Promise<DiscordApplicationCommandResponse[]> {
+    return this.request<DiscordApplicationCommandResponse[]>(
+      'PUT',
+      `/applications/${this.applicationId}/commands`,
+      { body: commands }
+    )
+  }
+
+  /**
+   * Replace all application commands of a guild
+   */
+  bulkOverwriteGuildCommands(
+    guildId: string,
+    commands: DiscordApplicationCommand[]
+  ): Promise<DiscordApplicationCommandResponse[]> {
+    return this.request<DiscordApplicationCommandResponse[]>(
+      'PUT',
+      `/applications/${this.applicationId}/guilds/${guildId}/commands`,
+      { body: commands }
+    )
+  }
+
+  /**
+   * Perform a request, honouring rate-limit buckets and retrying on 429
+   */
+  async request<T = unknown>(
+    method: string,
+    path: string,
+    options: DiscordRequestOptions = {}
+  ): Promise<T> {
+    const routeKey = DiscordRestClient.getRouteKey(method, path)
+    const url = this.buildUrl(path, options.query)
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBucket(routeKey)
+
+      const response = await fetch(url, {
+        method,
+        headers: this.buildHeaders(options),
+        body: this.buildBody(options)
+      })
+
+      this.updateBucket(routeKey, response.headers)
+
+      if (response.status === 429) {
+        const body = await this.readErrorBody(response)
+        const retryAfterMs = this.getRetryAfterMs(response.headers, body)
+
+        if (body.global || response.headers.get('X-RateLimit-Global') === 'true') {
+          this.globalResetAt = Date.now() + retryAfterMs
+        }
+
+        if (attempt >= this.maxRetries || retryAfterMs > this.maxRateLimitWait) {
+          throw new DiscordAPIError(
+            `Rate limited on ${method} ${path} (retry after ${retryAfterMs}ms)`,
+            'RATE_LIMITED',
+            429
+          )
+        }
+
+        await sleep(retryAfterMs)
+        continue
+      }
+
+      if (!response.ok) {
+        const body = await this.readErrorBody(response)
+        throw new DiscordAPIError(
+          body.message || `Discord API error: ${response.status}`,
+          body.code !== undefined ? String(body.code) : 'HTTP_ERROR',
+          response.status
+        )
+      }
+
+      if (response.status === 204) {
+        return undefined as T
+      }
+
+      return (await response.json()) as T
+    }
+  }
+
+  /**
+   * Build the rate-limit route key: the route with minor IDs collapsed while
+   * keeping the major parameter (channel, guild, webhook id and token).
+   */
+  static getRouteKey(method: string, path: string): string {
+    const segments = path.split('/')
+    const majorParents = new Set(['channels', 'guilds', 'webhooks'])
+
+    const normalized = segments.map((segment, index) => {
+      const parent = segments[index - 1]
+      if (parent && majorParents.has(parent)) return segment
+      // Interaction token follows the webhook id
+      if (segments[index - 2] === 'webhooks') return segment
+      return /^\d{5,}$/.test(segment) ? ':id' : segment
+    })
+
+    return `${method.toUpperCase()} ${normalized.join('/')}`
+  }
+
+  private buildUrl(path: string, query?: DiscordRequestOptions['query']): string {
+    const url = new URL(`${this.baseUrl}${path}`)
+    if (query) {
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined) url.searchParams.set(key, String(value))
+      }
+    }
+    return url.toString()
+  }
+
+  private buildHeaders(options: DiscordRequestOptions): Record<string, string> {
+    const headers: Record<string, string> = {
+      'User-Agent':
+        'DiscordBot (https://github.com/talkstream/typescript-wireframe-platform, 1.0.0)'
+    }
+
+    // multipart requests get their boundary from FormData
+    if (options.body !== undefined && !options.files?.length) {
+      headers['Content-Type'] = 'application/json'
+    }
+
+    if (options.auth !== false) {
+      if (!this.botToken) {
+        throw new DiscordAPIError('Bot token required for Discord REST API', 'NO_TOKEN', 401)
+      }
+      headers['Authorization'] = `Bot ${this.botToken}`
+    }
+
+    if (options.reason) {
+      headers['X-Audit-Log-Reason'] = encodeURIComponent(options.reason)
+    }
+
+    return headers
+  }
+
+  private buildBody(options: DiscordRequestOptions): BodyInit | undefined {
+    if (!options.files?.length) {
+      return options.body !== undefined ? JSON.stringify(options.body) : undefined
+    }
+
+    const form = new FormData()
+    const payload = {
+      ...(options.body as Record<string, unknown> | undefined),
+      attachments: options.files.map((file, id) => ({ id, filename: file.name }))
+    }
+    form.append('payload_json', JSON.stringify(payload))
+    options.files.forEach((file, id) => form.append(`files[${id}]`, file.data, file.name))
+    return form
+  }
+
+  private async waitForBucket(routeKey: string): Promise<void> {
+    const now = Date.now()
+    let waitUntil = this.globalResetAt
+
+    const bucketId = this.routeBuckets.get(routeKey)
+    const bucket = bucketId ? this.buckets.get(bucketId) : undefined
+    if (bucket && bucket.remaining <= 0 && bucket.resetAt > waitUntil) {
+      waitUntil = bucket.resetAt
+    }
+
+    if (waitUntil > now) {
+      const waitMs = waitUntil - now
+      if (waitMs > this.maxRateLimitWait) {
+        throw new DiscordAPIError(
+          `Rate limit bucket exhausted for ${routeKey} (resets in ${waitMs}ms)`,
+          'RATE_LIMITED',
+          429
+        )
+      }
+      await sleep(waitMs)
+    }
+  }
+
+  private updateBucket(routeKey: string, headers: Headers): void {
+    const bucketId = headers.get('X-RateLimit-Bucket')
+    if (!bucketId) return
+
+    this.routeBuckets.set(routeKey, bucketId)
+
+    const remaining = parseNumberHeader(headers, 'X-RateLimit-Remaining')
+    const resetAfter = parseNumberHeader(headers, 'X-RateLimit-Reset-After')
+
+    this.buckets.set(bucketId, {
+      remaining: remaining ?? 1,
+      resetAt: Date.now() + (resetAfter ?? 0) * 1000
+    })
+  }
+
+  private getRetryAfterMs(headers: Headers, body: DiscordErrorBody): number {
+    const seconds = body.retry_after ?? parseNumberHeader(headers, 'Retry-After')
+    return seconds !== undefined && seconds > 0 ? Math.ceil(seconds * 1000) : 1000
+  }
+
+  private async readErrorBody(response: Response): Promise<DiscordErrorBody> {
+    try {
+      return (await response.json()) as DiscordErrorBody
+    } catch {
+      return {}
+    }
+  }
+}
+
+function parseNumberHeader(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name)
+  if (value === null) return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
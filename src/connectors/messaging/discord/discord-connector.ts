@@ -2,8 +2,12 @@ import { CommonEventType } from '../../../core/events/event-bus.js'
 import type { ConnectorConfig } from '../../../core/interfaces/connector.js'
 import { ConnectorType } from '../../../core/interfaces/connector.js'
 import type {
+  Attachment,
   BotCommand,
   BulkMessageResult,
+  InteractiveComponent,
+  MessageMarkup,
+  MessageRef,
   MessageResult,
   MessagingCapabilities,
   MessagingConnector,
@@ -13,12 +17,32 @@ import type {
 import {
   AttachmentType,
   ChatType,
+  ComponentType,
   EntityType,
   MessageType,
   Platform
 } from '../../../core/interfaces/messaging.js'
 import { BaseConnector } from '../../base/base-connector.js'
 
+import type {
+  DiscordAttachmentPayload,
+  DiscordFileReference
+} from './converters/attachment-converter.js'
+import { unifiedAttachmentsToDiscord } from './converters/attachment-converter.js'
+import { KEYBOARD_BUTTON_PREFIX, unifiedMarkupToDiscord } from './converters/markup-converter.js'
+import type {
+  DiscordApplicationCommand,
+  DiscordFile,
+  DiscordMessagePayload
+} from './discord-api.js'
+import { DiscordRestClient } from './discord-api.js'
+import type { DiscordActionRow, DiscordEmbed } from './types.js'
+import {
+  ComponentType as DiscordComponentType,
+  InteractionResponseType,
+  InteractionType
+} from './types.js'
+
 /**
  * Discord connector for Wireframe
  * Implements Discord bot functionality with webhook support
@@ -33,6 +57,10 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
   private applicationId?: string
   private publicKey?: string
   private botToken?: string
+  private guildId?: string
+  private rest?: DiscordRestClient
+  private verifyKey?: Promise<CryptoKey>
+  private maxTimestampAge = DEFAULT_MAX_TIMESTAMP_AGE
 
   /**
    * Initialize Discord connector
@@ -42,12 +70,21 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
     this.applicationId = config.applicationId as string
     this.publicKey = config.publicKey as string
     this.botToken = config.botToken as string
+    this.guildId = config.guildId as string | undefined
+    this.maxTimestampAge = (config.maxTimestampAge as number) ?? DEFAULT_MAX_TIMESTAMP_AGE
+    this.verifyKey = undefined
 
     // Verify Discord credentials
     if (!this.applicationId || !this.publicKey) {
       throw new Error('Discord application ID and public key are required')
     }
 
+    this.rest = new DiscordRestClient({
+      applicationId: this.applicationId,
+      botToken: this.botToken,
+      baseUrl: config.apiBaseUrl as string | undefined
+    })
+
     this.emitEvent(CommonEventType.CONNECTOR_INITIALIZED, {
       connector: this.id,
       status: 'connected'
@@ -55,7 +92,12 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
   }
 
   /**
-   * Send message to Discord
+   * Send message to Discord.
+   *
+   * The recipient is either a channel ID or `interaction:<token>` for an
+   * interaction follow-up. Both the returned `ref` and the message ID, which
+   * embeds the recipient (`<channel_id>:<message_id>` or
+   * `interaction:<token>:<message_id>`), can be passed to `editMessage` and `deleteMessage`.
    */
   async sendMessage(recipient: string, message: UnifiedMessage): Promise<MessageResult> {
     try {
@@ -67,7 +109,8 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
 
       return {
         success: true,
-        message_id: response.id
+        message_id: `${recipient}:${response.id}`,
+        ref: { platform: Platform.DISCORD, chat_id: recipient, message_id: response.id }
       }
     } catch (error) {
       return {
@@ -101,14 +144,16 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
   /**
    * Edit existing message
    */
-  async editMessage(messageId: string, message: UnifiedMessage): Promise<MessageResult> {
+  async editMessage(target: MessageRef | string, message: UnifiedMessage): Promise<MessageResult> {
     try {
+      const ref = this.parseMessageRef(target)
       const discordMessage = this.convertToDiscordMessage(message)
-      await this.editDiscordMessage(messageId, discordMessage)
+      await this.editDiscordMessage(ref, discordMessage)
 
       return {
         success: true,
-        message_id: messageId
+        message_id: `${ref.chat_id}:${ref.message_id}`,
+        ref
       }
     } catch (error) {
       return {
@@ -121,8 +166,8 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
   /**
    * Delete message
    */
-  async deleteMessage(messageId: string): Promise<void> {
-    await this.deleteDiscordMessage(messageId)
+  async deleteMessage(target: MessageRef | string): Promise<void> {
+    await this.deleteDiscordMessage(this.parseMessageRef(target))
   }
 
   /**
@@ -139,14 +184,32 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
       // Parse interaction
       const body = (await request.json()) as DiscordInteraction
 
-      // Handle ping
-      if (body.type === 1) {
-        return Response.json({ type: 1 })
+      // Answer Discord's endpoint health check without emitting events
+      if (body.type === InteractionType.PING) {
+        return Response.json({ type: InteractionResponseType.PONG })
       }
 
       // Convert to unified message and emit event
       const unifiedMessage = this.convertFromDiscordMessage(body)
 
+      // Button and select menu presses are reported like Telegram callback queries
+      if (unifiedMessage.metadata?.callback_data !== undefined) {
+        this.emitEvent('discord:callback_query', {
+          query: {
+            id: body.id,
+            data: unifiedMessage.metadata.callback_data,
+            values: unifiedMessage.metadata.values,
+            message_id: unifiedMessage.replyTo
+          },
+          from: unifiedMessage.sender,
+          message: unifiedMessage,
+          platform: Platform.DISCORD
+        })
+
+        // Acknowledge without changing the original message
+        return Response.json({ type: InteractionResponseType.DEFERRED_UPDATE_MESSAGE })
+      }
+
       this.emitEvent('message.received', {
         message: unifiedMessage,
         platform: Platform.DISCORD
@@ -181,11 +244,18 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
 
       if (!signature || !timestamp) return false
 
+      // Reject replayed requests with stale timestamps
+      const timestampSeconds = Number(timestamp)
+      if (
+        !Number.isFinite(timestampSeconds) ||
+        Math.abs(Date.now() / 1000 - timestampSeconds) > this.maxTimestampAge
+      ) {
+        return false
+      }
+
       // Clone request to read body
       const body = await request.clone().text()
 
-      // Verify signature using Discord's public key verification
-      // This would require crypto APIs available in the runtime
       return await this.verifyDiscordSignature(signature, timestamp, body)
     } catch {
       return false
@@ -200,14 +270,25 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
       throw new Error('Bot token required to set commands')
     }
 
-    const discordCommands = commands.map(cmd => ({
-      name: cmd.command,
-      description: cmd.description,
-      type: 1 // CHAT_INPUT
-    }))
+    // Chat-scoped commands map to guild commands, everything else is global
+    // (or goes to the configured development guild)
+    const byGuild = new Map<string | undefined, DiscordApplicationCommand[]>()
+
+    for (const cmd of commands) {
+      const guildId =
+        cmd.scope?.type === 'chat' && cmd.scope.chat_id ? cmd.scope.chat_id : this.guildId
+      const list = byGuild.get(guildId) ?? []
+      list.push({
+        name: cmd.command.replace(/^\//, '').toLowerCase().slice(0, 32),
+        description: (cmd.description || cmd.command).slice(0, 100),
+        type: 1 // CHAT_INPUT
+      })
+      byGuild.set(guildId, list)
+    }
 
-    // Register global commands
-    await this.registerDiscordCommands(discordCommands)
+    for (const [guildId, guildCommands] of byGuild) {
+      await this.registerDiscordCommands(guildCommands, guildId)
+    }
   }
 
   /**
@@ -334,6 +415,9 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
     this.applicationId = undefined
     this.publicKey = undefined
     this.botToken = undefined
+    this.guildId = undefined
+    this.rest = undefined
+    this.verifyKey = undefined
   }
 
   /**
@@ -342,23 +426,28 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
   private convertToDiscordMessage(message: UnifiedMessage): DiscordMessage {
     const content = message.content.text || ''
 
-    // Convert markup to Discord components
-    const components = message.content.markup
-      ? this.convertMarkupToComponents(message.content.markup)
-      : undefined
+    // Convert markup and interactive components to Discord action rows
+    const components = this.convertMarkupToComponents(
+      message.content.markup,
+      message.content.components
+    )
 
-    // Convert attachments to embeds
-    const embeds = message.attachments
+    // Images become embeds, other media is uploaded as files
+    const { embeds, files } = message.attachments?.length
       ? this.convertAttachmentsToEmbeds(message.attachments)
-      : undefined
+      : { embeds: undefined, files: undefined }
 
     return {
       content,
       components,
       embeds,
+      files: files?.length ? files : undefined,
       allowed_mentions: {
         parse: ['users', 'roles']
-      }
+      },
+      message_reference: message.replyTo
+        ? { message_id: this.getReplyMessageId(message.replyTo), fail_if_not_exists: false }
+        : undefined
     }
   }
 
@@ -368,14 +457,52 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
   private convertFromDiscordMessage(interaction: DiscordInteraction): UnifiedMessage {
     // Extract text based on interaction type
     let text = ''
+    const metadata: Record<string, unknown> = {}
+    const components: InteractiveComponent[] = []
 
-    if (interaction.type === 2 && interaction.data) {
+    if (interaction.type === InteractionType.APPLICATION_COMMAND && interaction.data) {
       // Application command
       text = `/${interaction.data.name || 'command'}`
       if (interaction.data.options?.length) {
         const args = interaction.data.options.map(opt => opt.value).join(' ')
         text += ` ${args}`
       }
+    } else if (
+      interaction.type === InteractionType.MESSAGE_COMPONENT &&
+      interaction.data?.custom_id
+    ) {
+      const customId = interaction.data.custom_id
+
+      if (customId.startsWith(KEYBOARD_BUTTON_PREFIX)) {
+        // Reply keyboard emulation: the press is a plain text message
+        text = customId.slice(KEYBOARD_BUTTON_PREFIX.length)
+      } else {
+        metadata.callback_data = customId
+        if (interaction.data.values) {
+          metadata.values = interaction.data.values
+        }
+        components.push({
+          type:
+            interaction.data.component_type === DiscordComponentType.BUTTON
+              ? ComponentType.BUTTON
+              : ComponentType.SELECT_MENU,
+          id: customId,
+          data: { values: interaction.data.values }
+        })
+      }
+    } else if (interaction.type === InteractionType.MODAL_SUBMIT && interaction.data?.components) {
+      // Collect text input values keyed by custom_id
+      const fields: Record<string, string> = {}
+      for (const row of interaction.data.components) {
+        for (const input of row.components ?? []) {
+          if (input.custom_id && input.value !== undefined) {
+            fields[input.custom_id] = input.value
+          }
+        }
+      }
+      metadata.modal_id = interaction.data.custom_id
+      metadata.fields = fields
+      text = Object.values(fields).join('\n')
     } else if (interaction.data?.content) {
       // Message component or modal submit with content
       text = interaction.data.content
@@ -395,62 +522,218 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
       },
       content: {
         text,
-        type: MessageType.TEXT
+        type: MessageType.TEXT,
+        components: components.length ? components : undefined
       },
+      replyTo: interaction.message
+        ? `${interaction.message.channel_id || interaction.channel_id}:${interaction.message.id}`
+        : undefined,
       timestamp: Date.now(),
       metadata: {
+        ...metadata,
         guild_id: interaction.guild_id,
         interaction_type: interaction.type,
-        command_name: interaction.data?.name
+        command_name: interaction.data?.name,
+        reply_recipient: interaction.token ? `${INTERACTION_PREFIX}${interaction.token}` : undefined
       }
     }
   }
 
   /**
-   * Helper methods would go here
+   * Send a message to a channel or an interaction follow-up webhook
    */
-  private async sendDiscordMessage(
-    _channelId: string,
-    _message: DiscordMessage
-  ): Promise<DiscordMessageResponse> {
-    // Implementation would use Discord REST API or webhook
-    throw new Error('Not implemented')
+  private async sendDiscordMessage(recipient: string, message: DiscordMessage) {
+    const rest = this.getRestClient()
+    const target = this.parseRecipient(recipient)
+    const { files: fileRefs, ...payload } = message
+    const files = await this.downloadFiles(fileRefs)
+
+    return target.interactionToken
+      ? rest.createFollowupMessage(target.interactionToken, payload, files)
+      : rest.createMessage(target.channelId, payload, files)
   }
 
-  private async editDiscordMessage(_messageId: string, _message: DiscordMessage): Promise<void> {
-    // Implementation would use Discord REST API
-    throw new Error('Not implemented')
+  private async editDiscordMessage(ref: MessageRef, message: DiscordMessage): Promise<void> {
+    const rest = this.getRestClient()
+    const target = this.parseRecipient(ref.chat_id as string)
+    const messageId = ref.message_id as string
+    const { files: fileRefs, message_reference: _reference, ...payload } = message
+    const files = await this.downloadFiles(fileRefs)
+
+    if (target.interactionToken) {
+      await rest.editFollowupMessage(target.interactionToken, messageId, payload, files)
+    } else {
+      await rest.editMessage(target.channelId, messageId, payload, files)
+    }
   }
 
-  private async deleteDiscordMessage(_messageId: string): Promise<void> {
-    // Implementation would use Discord REST API
-    throw new Error('Not implemented')
+  /**
+   * Fetch attachment URLs so they can be uploaded as Discord files
+   */
+  private async downloadFiles(refs?: DiscordFileReference[]): Promise<DiscordFile[] | undefined> {
+    if (!refs?.length) return undefined
+
+    return Promise.all(
+      refs.map(async ref => {
+        const response = await fetch(ref.url)
+        if (!response.ok) {
+          throw new Error(`Failed to download attachment ${ref.url}: ${response.status}`)
+        }
+        const blob = await response.blob()
+        return {
+          name: ref.name,
+          data: ref.contentType ? new Blob([blob], { type: ref.contentType }) : blob
+        }
+      })
+    )
+  }
+
+  private async deleteDiscordMessage(ref: MessageRef): Promise<void> {
+    const rest = this.getRestClient()
+    const target = this.parseRecipient(ref.chat_id as string)
+    const messageId = ref.message_id as string
+
+    if (target.interactionToken) {
+      await rest.deleteFollowupMessage(target.interactionToken, messageId)
+    } else {
+      await rest.deleteMessage(target.channelId, messageId)
+    }
   }
 
+  /**
+   * Verify the Ed25519 signature Discord computes over `timestamp + body`
+   */
   private async verifyDiscordSignature(
-    _signature: string,
-    _timestamp: string,
-    _body: string
+    signature: string,
+    timestamp: string,
+    body: string
   ): Promise<boolean> {
-    // Implementation would use crypto APIs
-    // This is a placeholder - actual implementation would verify Ed25519 signature
-    return true
+    const signatureBytes = hexToBytes(signature)
+    if (!signatureBytes || signatureBytes.length !== 64) return false
+
+    const key = await this.getVerifyKey()
+    return crypto.subtle.verify(
+      'Ed25519',
+      key,
+      signatureBytes,
+      new TextEncoder().encode(timestamp + body)
+    )
   }
 
-  private async registerDiscordCommands(_commands: DiscordCommand[]): Promise<void> {
-    // Implementation would use Discord REST API
-    throw new Error('Not implemented')
+  private getVerifyKey(): Promise<CryptoKey> {
+    if (!this.verifyKey) {
+      const keyBytes = this.publicKey ? hexToBytes(this.publicKey) : undefined
+      if (!keyBytes || keyBytes.length !== 32) {
+        return Promise.reject(new Error('Discord public key must be 32 bytes of hex'))
+      }
+      const verifyKey = crypto.subtle.importKey('raw', keyBytes, 'Ed25519', false, ['verify'])
+      // Don't keep a failed import around; the next interaction tries again
+      verifyKey.catch(() => {
+        if (this.verifyKey === verifyKey) {
+          this.verifyKey = undefined
+        }
+      })
+      this.verifyKey = verifyKey
+    }
+    return this.verifyKey
   }
 
-  private convertMarkupToComponents(_markup: unknown): DiscordComponent[] {
-    // Convert unified markup to Discord components
-    return []
+  private async registerDiscordCommands(
+    commands: DiscordApplicationCommand[],
+    guildId?: string
+  ): Promise<void> {
+    const rest = this.getRestClient()
+
+    if (guildId) {
+      await rest.bulkOverwriteGuildCommands(guildId, commands)
+    } else {
+      await rest.bulkOverwriteGlobalCommands(commands)
+    }
   }
 
-  private convertAttachmentsToEmbeds(_attachments: unknown[]): DiscordEmbed[] {
-    // Convert unified attachments to Discord embeds
-    return []
+  private getRestClient(): DiscordRestClient {
+    if (!this.rest) {
+      throw new Error('Discord connector is not initialized')
+    }
+    return this.rest
   }
+
+  /**
+   * Parse a recipient: a channel ID or `interaction:<token>`
+   */
+  private parseRecipient(recipient: string): { channelId: string; interactionToken?: string } {
+    if (recipient.startsWith(INTERACTION_PREFIX)) {
+      const interactionToken = recipient.slice(INTERACTION_PREFIX.length)
+      if (!interactionToken) {
+        throw new Error('Interaction recipient requires a token')
+      }
+      return { channelId: '', interactionToken }
+    }
+    return { channelId: recipient }
+  }
+
+  /**
+   * Normalize a message reference or a message ID returned by `sendMessage`
+   */
+  private parseMessageRef(target: MessageRef | string): MessageRef {
+    if (typeof target !== 'string') {
+      if (target.platform !== Platform.DISCORD) {
+        throw new Error(`Message reference for ${target.platform} passed to discord`)
+      }
+      if (!target.chat_id || !target.message_id) {
+        throw new Error('Discord message reference requires chat_id and message_id')
+      }
+      return target
+    }
+
+    const separator = target.lastIndexOf(':')
+    if (separator <= 0 || separator === target.length - 1) {
+      throw new Error(
+        `Invalid Discord message ID "${target}": expected "<channel_id>:<message_id>"`
+      )
+    }
+
+    return {
+      platform: Platform.DISCORD,
+      chat_id: target.slice(0, separator),
+      message_id: target.slice(separator + 1)
+    }
+  }
+
+  private convertMarkupToComponents(
+    markup?: MessageMarkup,
+    components?: InteractiveComponent[]
+  ): DiscordActionRow[] | undefined {
+    return unifiedMarkupToDiscord(markup, components)
+  }
+
+  private convertAttachmentsToEmbeds(attachments: Attachment[]): DiscordAttachmentPayload {
+    return unifiedAttachmentsToDiscord(attachments)
+  }
+
+  /**
+   * Reply targets may be full message IDs (`<channel_id>:<message_id>`) or bare IDs
+   */
+  private getReplyMessageId(replyTo: string): string {
+    return replyTo.slice(replyTo.lastIndexOf(':') + 1)
+  }
+}
+
+const INTERACTION_PREFIX = 'interaction:'
+
+/**
+ * Maximum accepted age of X-Signature-Timestamp, in seconds
+ */
+const DEFAULT_MAX_TIMESTAMP_AGE = 300
+
+function hexToBytes(hex: string): Uint8Array | undefined {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) return undefined
+
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
 }
 
 /**
@@ -459,14 +742,30 @@ export class DiscordConnector extends BaseConnector implements MessagingConnecto
 interface DiscordInteraction {
   id: string
   type: number
+  token?: string
   data?: {
     content?: string
     name?: string
+    custom_id?: string
+    component_type?: number
+    values?: string[]
     options?: Array<{
       name: string
       value: string | number | boolean
       type: number
     }>
+    components?: Array<{
+      type: number
+      components?: Array<{
+        type: number
+        custom_id?: string
+        value?: string
+      }>
+    }>
+  }
+  message?: {
+    id: string
+    channel_id?: string
   }
   guild_id?: string
   channel_id?: string
@@ -482,46 +781,9 @@ interface DiscordInteraction {
   }
 }
 
-interface DiscordMessage {
+interface DiscordMessage extends DiscordMessagePayload {
   content: string
   embeds?: DiscordEmbed[]
-  components?: DiscordComponent[]
-  allowed_mentions?: {
-    parse?: string[]
-  }
-}
-
-interface DiscordMessageResponse {
-  id: string
-  content: string
-  author: {
-    id: string
-    username: string
-  }
-}
-
-interface DiscordCommand {
-  name: string
-  description: string
-  type: number
-}
-
-interface DiscordComponent {
-  type: number
-  components?: DiscordComponent[]
-  custom_id?: string
-  label?: string
-  style?: number
-}
-
-interface DiscordEmbed {
-  title?: string
-  description?: string
-  url?: string
-  color?: number
-  fields?: Array<{
-    name: string
-    value: string
-    inline?: boolean
-  }>
+  components?: DiscordActionRow[]
+  files?: DiscordFileReference[]
 }
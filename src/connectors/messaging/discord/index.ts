@@ -1,2 +1,5 @@
+export { DiscordRestClient } from './discord-api.js'
+export type { DiscordRestClientOptions } from './discord-api.js'
 export { DiscordConnector } from './discord-connector.js'
+export { DiscordAPIError } from './types.js'
 export type { DiscordConnectorConfig } from './types.js'
@@ -29,6 +29,16 @@ export interface DiscordConnectorConfig extends ConnectorConfig {
    */
   guildId?: string
 
+  /**
+   * Discord REST API base URL (defaults to https://discord.com/api/v10)
+   */
+  apiBaseUrl?: string
+
+  /**
+   * Maximum age (seconds) of X-Signature-Timestamp before an interaction is rejected
+   */
+  maxTimestampAge?: number
+
   /**
    * Enable debug logging
    */
@@ -0,0 +1,376 @@
+import { InputFile } from 'grammy'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  type Attachment,
+  AttachmentType,
+  ChatType,
+  type MessageRef,
+  MessageType,
+  Platform,
+  type UnifiedMessage
+} from '../../../../core/interfaces/messaging.js'
+import type { IObjectStore } from '../../../../core/interfaces/storage.js'
+import { canUseCaption, groupAttachments, toAlbumMedia } from '../converters/media-converter.js'
+import { TelegramConnector } from '../telegram-connector.js'
+import type { TelegramConfig } from '../types.js'
+
+const CHAT_ID = '100'
+
+function createApi() {
+  let nextId = 1
+  const send = () => vi.fn(async () => ({ message_id: nextId++ }))
+  return {
+    sendMessage: send(),
+    sendPhoto: send(),
+    sendVideo: send(),
+    sendAudio: send(),
+    sendDocument: send(),
+    sendSticker: send(),
+    sendAnimation: send(),
+    sendVoice: send(),
+    sendVideoNote: send(),
+    sendLocation: send(),
+    sendVenue: send(),
+    sendContact: send(),
+    sendPoll: send(),
+    sendMediaGroup: vi.fn(async (_chatId: string, media: unknown[]) =>
+      media.map(() => ({ message_id: nextId++ }))
+    ),
+    editMessageText: vi.fn(async () => true),
+    editMessageTextInline: vi.fn(async () => true),
+    editMessageReplyMarkup: vi.fn(async () => true),
+    deleteMessage: vi.fn(async () => true)
+  }
+}
+
+function createConnector(api: ReturnType<typeof createApi>, config: Partial<TelegramConfig> = {}) {
+  const connector = new TelegramConnector()
+  Object.assign(connector, { bot: { api }, config: { token: 'test-token', ...config } })
+  return connector
+}
+
+const photo = (file_id: string): Attachment => ({ type: AttachmentType.PHOTO, file_id })
+
+describe('Telegram media converter', () => {
+  it('should group compatible attachments into albums', () => {
+    const batches = groupAttachments([
+      photo('p1'),
+      { type: AttachmentType.VIDEO, file_id: 'v1' },
+      { type: AttachmentType.DOCUMENT, file_id: 'd1' },
+      { type: AttachmentType.VOICE, file_id: 'voice' },
+      { type: AttachmentType.AUDIO, file_id: 'a1' },
+      { type: AttachmentType.AUDIO, file_id: 'a2' }
+    ])
+
+    expect(batches.map(batch => batch.kind)).toEqual(['group', 'single', 'single', 'group'])
+    expect(batches[0]).toEqual({
+      kind: 'group',
+      attachments: [photo('p1'), { type: AttachmentType.VIDEO, file_id: 'v1' }]
+    })
+  })
+
+  it('should split albums larger than ten items', () => {
+    const batches = groupAttachments(Array.from({ length: 11 }, (_, i) => photo(`p${i}`)))
+
+    expect(batches).toHaveLength(2)
+    expect(batches[0]?.kind === 'group' && batches[0].attachments).toHaveLength(10)
+    expect(batches[1]).toEqual({ kind: 'single', attachment: photo('p10') })
+  })
+
+  it('should only caption media that support it', () => {
+    const sticker = { kind: 'single' as const, attachment: { type: AttachmentType.STICKER } }
+    const album = { kind: 'group' as const, attachments: [photo('a'), photo('b')] }
+
+    expect(canUseCaption(sticker, 'Hi', false)).toBe(false)
+    expect(canUseCaption(album, 'Hi', false)).toBe(true)
+    expect(canUseCaption(album, 'Hi', true)).toBe(false)
+    expect(canUseCaption({ kind: 'single', attachment: photo('a') }, 'x'.repeat(1025), false)).toBe(
+      false
+    )
+  })
+
+  it('should build typed album items', () => {
+    expect(toAlbumMedia({ ...photo('p1'), width: 640 }, 'p1')).toEqual({
+      type: 'photo',
+      media: 'p1'
+    })
+    expect(
+      toAlbumMedia({ type: AttachmentType.AUDIO, duration: 30 }, 'a1', {
+        caption: 'Mix',
+        parse_mode: 'HTML'
+      })
+    ).toEqual({ type: 'audio', media: 'a1', duration: 30, caption: 'Mix', parse_mode: 'HTML' })
+    expect(() => toAlbumMedia({ type: AttachmentType.STICKER }, 's1')).toThrow(
+      'Attachments of type sticker cannot be sent in an album'
+    )
+  })
+})
+
+describe('TelegramConnector.sendMessage', () => {
+  let api: ReturnType<typeof createApi>
+
+  beforeEach(() => {
+    api = createApi()
+  })
+
+  it('should send a photo with the text as caption and markup', async () => {
+    const connector = createConnector(api, { parseMode: 'HTML' })
+
+    const result = await connector.sendMessage(CHAT_ID, {
+      content: {
+        type: MessageType.IMAGE,
+        text: '<b>Sunset</b>',
+        markup: { type: 'inline', inline_keyboard: [[{ text: 'Like', callback_data: 'like' }]] }
+      },
+      attachments: [{ type: AttachmentType.PHOTO, url: 'https://example.com/sunset.jpg' }]
+    })
+
+    expect(result).toEqual({
+      success: true,
+      message_id: '1',
+      ref: { platform: Platform.TELEGRAM, chat_id: CHAT_ID, message_id: '1' }
+    })
+    expect(api.sendPhoto).toHaveBeenCalledWith(CHAT_ID, 'https://example.com/sunset.jpg', {
+      reply_markup: { inline_keyboard: [[{ text: 'Like', callback_data: 'like' }]] },
+      caption: '<b>Sunset</b>',
+      parse_mode: 'HTML'
+    })
+    expect(api.sendMessage).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    [AttachmentType.VIDEO, 'sendVideo'],
+    [AttachmentType.AUDIO, 'sendAudio'],
+    [AttachmentType.DOCUMENT, 'sendDocument'],
+    [AttachmentType.ANIMATION, 'sendAnimation'],
+    [AttachmentType.VOICE, 'sendVoice'],
+    [AttachmentType.STICKER, 'sendSticker'],
+    [AttachmentType.VIDEO_NOTE, 'sendVideoNote']
+  ] as const)('should send %s attachments with %s', async (type, method) => {
+    const connector = createConnector(api)
+
+    await connector.sendMessage(CHAT_ID, {
+      content: {},
+      attachments: [{ type, file_id: 'file-1', duration: 5, width: 240 }]
+    })
+
+    expect(api[method]).toHaveBeenCalledWith(CHAT_ID, 'file-1', expect.any(Object))
+  })
+
+  it('should pass video note length and duration', async () => {
+    const connector = createConnector(api)
+
+    await connector.sendMessage(CHAT_ID, {
+      content: { text: 'Caption is sent separately' },
+      attachments: [{ type: AttachmentType.VIDEO_NOTE, file_id: 'note', duration: 9, width: 240 }]
+    })
+
+    expect(api.sendMessage).toHaveBeenCalledWith(CHAT_ID, 'Caption is sent separately', {})
+    expect(api.sendVideoNote).toHaveBeenCalledWith(CHAT_ID, 'note', { duration: 9, length: 240 })
+  })
+
+  it('should send albums with the caption on the first item', async () => {
+    const connector = createConnector(api)
+
+    const result = await connector.sendMessage(CHAT_ID, {
+      content: { text: 'Trip photos' },
+      attachments: [photo('p1'), { type: AttachmentType.VIDEO, file_id: 'v1', width: 640 }],
+      replyTo: '42'
+    })
+
+    expect(result.message_id).toBe('1')
+    expect(api.sendMediaGroup).toHaveBeenCalledWith(
+      CHAT_ID,
+      [
+        { type: 'photo', media: 'p1', caption: 'Trip photos' },
+        { type: 'video', media: 'v1', width: 640 }
+      ],
+      { reply_parameters: { message_id: 42 } }
+    )
+  })
+
+  it('should reject buttons on an album without text', async () => {
+    const connector = createConnector(api)
+
+    const result = await connector.sendMessage(CHAT_ID, {
+      content: {
+        markup: { type: 'inline', inline_keyboard: [[{ text: 'Open', url: 'https://a.b' }]] }
+      },
+      attachments: [photo('p1'), photo('p2')]
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.message).toBe(
+      'Albums cannot carry reply markup; add text to send the buttons with'
+    )
+    expect(api.sendMediaGroup).not.toHaveBeenCalled()
+  })
+
+  it('should upload attachments from the object store', async () => {
+    const body = new ReadableStream()
+    const objectStore = { get: vi.fn().mockResolvedValue({ body }) }
+    const connector = createConnector(api, {
+      objectStore: objectStore as unknown as IObjectStore
+    })
+
+    const result = await connector.sendMessage(CHAT_ID, {
+      content: { type: MessageType.DOCUMENT },
+      attachments: [{ type: AttachmentType.DOCUMENT, storage_key: 'reports/2025.pdf' }]
+    })
+
+    expect(result.success).toBe(true)
+    expect(objectStore.get).toHaveBeenCalledWith('reports/2025.pdf')
+    expect(InputFile).toHaveBeenCalledWith(body, '2025.pdf')
+    expect(api.sendDocument).toHaveBeenCalledWith(CHAT_ID, expect.any(InputFile), {})
+  })
+
+  it('should fail uploads without an object store', async () => {
+    const connector = createConnector(api)
+
+    const result = await connector.sendMessage(CHAT_ID, {
+      content: {},
+      attachments: [{ type: AttachmentType.PHOTO, storage_key: 'photo.jpg' }]
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.message).toBe('Object store is not configured for attachment uploads')
+  })
+
+  it('should send locations and venues', async () => {
+    const connector = createConnector(api)
+    const location: UnifiedMessage = {
+      content: { type: MessageType.LOCATION, location: { latitude: 1.5, longitude: 2.5 } }
+    }
+
+    await connector.sendMessage(CHAT_ID, location)
+    await connector.sendMessage(CHAT_ID, {
+      content: {
+        type: MessageType.LOCATION,
+        location: { latitude: 1.5, longitude: 2.5, title: 'Cafe', address: 'Main st. 1' }
+      }
+    })
+
+    expect(api.sendLocation).toHaveBeenCalledWith(CHAT_ID, 1.5, 2.5, {})
+    expect(api.sendVenue).toHaveBeenCalledWith(CHAT_ID, 1.5, 2.5, 'Cafe', 'Main st. 1', {})
+  })
+
+  it('should send contacts and polls', async () => {
+    const connector = createConnector(api, { parseMode: 'HTML' })
+
+    await connector.sendMessage(CHAT_ID, {
+      content: {
+        type: MessageType.CONTACT,
+        contact: { phone_number: '+100', first_name: 'Ann' }
+      }
+    })
+    await connector.sendMessage(CHAT_ID, {
+      content: {
+        type: MessageType.POLL,
+        poll: { question: 'Lunch?', options: ['Yes', 'No'], is_anonymous: false }
+      }
+    })
+
+    expect(api.sendContact).toHaveBeenCalledWith(CHAT_ID, '+100', 'Ann', {})
+    expect(api.sendPoll).toHaveBeenCalledWith(
+      CHAT_ID,
+      'Lunch?',
+      [{ text: 'Yes' }, { text: 'No' }],
+      { is_anonymous: false }
+    )
+  })
+
+  it('should reject media types without attachments', async () => {
+    const connector = createConnector(api)
+
+    const result = await connector.sendMessage(CHAT_ID, { content: { type: MessageType.VIDEO } })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.message).toBe('Message type video requires an attachment')
+  })
+})
+
+describe('TelegramConnector message references', () => {
+  let api: ReturnType<typeof createApi>
+
+  beforeEach(() => {
+    api = createApi()
+  })
+
+  it('should return a ref that edits and deletes the sent message', async () => {
+    api.sendMessage.mockResolvedValueOnce({
+      message_id: 7,
+      chat: { id: -100 },
+      message_thread_id: 3
+    } as never)
+    const connector = createConnector(api)
+
+    const sent = await connector.sendMessage('-100', { content: { text: 'Draft' } })
+    const edited = await connector.editMessage(sent.ref as MessageRef, {
+      content: { text: 'Final' }
+    })
+    await connector.deleteMessage(sent.ref as MessageRef)
+
+    expect(sent.ref).toEqual({
+      platform: Platform.TELEGRAM,
+      chat_id: '-100',
+      message_id: '7',
+      thread_id: '3'
+    })
+    expect(edited.success).toBe(true)
+    expect(api.editMessageText).toHaveBeenCalledWith('-100', 7, 'Final', {})
+    expect(api.deleteMessage).toHaveBeenCalledWith('-100', 7)
+  })
+
+  it('should edit inline messages and keyboards', async () => {
+    const connector = createConnector(api, { parseMode: 'HTML' })
+    const markup = {
+      type: 'inline' as const,
+      inline_keyboard: [[{ text: 'Done', callback_data: 'done' }]]
+    }
+
+    await connector.editMessage(
+      { platform: Platform.TELEGRAM, inline_message_id: 'inline-1' },
+      { content: { text: '<b>Voted</b>' } }
+    )
+    await connector.editMessage(
+      { platform: Platform.TELEGRAM, chat_id: '5', message_id: '9' },
+      { content: { markup } }
+    )
+
+    expect(api.editMessageTextInline).toHaveBeenCalledWith('inline-1', '<b>Voted</b>', {
+      parse_mode: 'HTML'
+    })
+    expect(api.editMessageReplyMarkup).toHaveBeenCalledWith('5', 9, {
+      reply_markup: { inline_keyboard: [[{ text: 'Done', callback_data: 'done' }]] }
+    })
+  })
+
+  it('should still accept bare message IDs with the chat on the message', async () => {
+    const connector = createConnector(api)
+
+    await connector.editMessage('12', {
+      chat: { id: '5', type: ChatType.PRIVATE },
+      content: { text: 'Updated' }
+    })
+
+    expect(api.editMessageText).toHaveBeenCalledWith('5', 12, 'Updated', {})
+  })
+
+  it('should reject targets it cannot address', async () => {
+    const connector = createConnector(api)
+
+    const bare = await connector.editMessage('12', { content: { text: 'Updated' } })
+    const foreign = await connector.editMessage(
+      { platform: Platform.DISCORD, chat_id: 'channel', message_id: '1' },
+      { content: { text: 'Updated' } }
+    )
+
+    expect(bare.error?.message).toContain('cannot be resolved without a chat')
+    expect(foreign.error?.message).toBe('Message reference for discord passed to telegram')
+    await expect(
+      connector.deleteMessage({ platform: Platform.TELEGRAM, inline_message_id: 'inline-1' })
+    ).rejects.toThrow('Telegram does not allow deleting inline messages')
+    expect(api.editMessageText).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Mapping of UnifiedMessage attachments to Telegram Bot API send methods
+ */
+
+import type { InputFile } from 'grammy'
+import type {
+  InputMediaAudio,
+  InputMediaDocument,
+  InputMediaPhoto,
+  InputMediaVideo
+} from 'grammy/types'
+
+import type { Attachment } from '../../../../core/interfaces/messaging.js'
+import { AttachmentType, MessageType } from '../../../../core/interfaces/messaging.js'
+
+export type TelegramMediaMethod =
+  | 'sendPhoto'
+  | 'sendVideo'
+  | 'sendAudio'
+  | 'sendDocument'
+  | 'sendSticker'
+  | 'sendAnimation'
+  | 'sendVoice'
+  | 'sendVideoNote'
+
+/**
+ * Bot API method for each attachment type
+ */
+export const ATTACHMENT_METHODS: Record<AttachmentType, TelegramMediaMethod> = {
+  [AttachmentType.PHOTO]: 'sendPhoto',
+  [AttachmentType.VIDEO]: 'sendVideo',
+  [AttachmentType.AUDIO]: 'sendAudio',
+  [AttachmentType.DOCUMENT]: 'sendDocument',
+  [AttachmentType.STICKER]: 'sendSticker',
+  [AttachmentType.ANIMATION]: 'sendAnimation',
+  [AttachmentType.VOICE]: 'sendVoice',
+  [AttachmentType.VIDEO_NOTE]: 'sendVideoNote'
+}
+
+/**
+ * Attachment type expected for media message types sent without explicit attachments
+ */
+export const MESSAGE_TYPE_ATTACHMENTS: Partial<Record<MessageType, AttachmentType>> = {
+  [MessageType.IMAGE]: AttachmentType.PHOTO,
+  [MessageType.VIDEO]: AttachmentType.VIDEO,
+  [MessageType.AUDIO]: AttachmentType.AUDIO,
+  [MessageType.DOCUMENT]: AttachmentType.DOCUMENT,
+  [MessageType.STICKER]: AttachmentType.STICKER
+}
+
+/**
+ * Telegram limits captions to 1024 characters
+ */
+export const MAX_CAPTION_LENGTH = 1024
+
+const MEDIA_GROUP_LIMIT = 10
+
+// Stickers and video notes cannot carry a caption
+const CAPTIONLESS_TYPES = new Set([AttachmentType.STICKER, AttachmentType.VIDEO_NOTE])
+
+/**
+ * Which attachments may share an album. Photos and videos mix;
+ * audio files and documents only group with their own kind.
+ */
+function albumKind(type: AttachmentType): string | undefined {
+  switch (type) {
+    case AttachmentType.PHOTO:
+    case AttachmentType.VIDEO:
+      return 'visual'
+    case AttachmentType.AUDIO:
+      return 'audio'
+    case AttachmentType.DOCUMENT:
+      return 'document'
+    default:
+      return undefined
+  }
+}
+
+export type AttachmentBatch =
+  | { kind: 'single'; attachment: Attachment }
+  | { kind: 'group'; attachments: Attachment[] }
+
+/**
+ * Split attachments into single sends and media groups, keeping their order.
+ * Consecutive attachments of a compatible kind form albums of 2-10 items.
+ */
+export function groupAttachments(attachments: Attachment[]): AttachmentBatch[] {
+  const batches: AttachmentBatch[] = []
+  let run: Attachment[] = []
+
+  const flush = () => {
+    for (let start = 0; start < run.length; start += MEDIA_GROUP_LIMIT) {
+      const chunk = run.slice(start, start + MEDIA_GROUP_LIMIT)
+      if (chunk.length === 1) {
+        batches.push({ kind: 'single', attachment: chunk[0] as Attachment })
+      } else {
+        batches.push({ kind: 'group', attachments: chunk })
+      }
+    }
+    run = []
+  }
+
+  for (const attachment of attachments) {
+    const kind = albumKind(attachment.type)
+    if (!kind) {
+      flush()
+      batches.push({ kind: 'single', attachment })
+      continue
+    }
+    if (run.length && albumKind((run[0] as Attachment).type) !== kind) {
+      flush()
+    }
+    run.push(attachment)
+  }
+  flush()
+
+  return batches
+}
+
+/**
+ * Whether the text can ride along as the caption of the first batch.
+ * Reply markup cannot be attached to albums, so it forces a separate text message.
+ */
+export function canUseCaption(
+  batch: AttachmentBatch | undefined,
+  text: string,
+  hasMarkup: boolean
+): boolean {
+  if (!batch || text.length > MAX_CAPTION_LENGTH) return false
+  if (batch.kind === 'group') return !hasMarkup
+  return !CAPTIONLESS_TYPES.has(batch.attachment.type)
+}
+
+export interface AttachmentParameters {
+  width?: number
+  height?: number
+  duration?: number
+  length?: number
+}
+
+/**
+ * Type-specific send parameters taken from the attachment
+ */
+export function attachmentParameters(attachment: Attachment): AttachmentParameters {
+  const params: AttachmentParameters = {}
+
+  switch (attachment.type) {
+    case AttachmentType.VIDEO:
+    case AttachmentType.ANIMATION:
+      if (attachment.width) params.width = attachment.width
+      if (attachment.height) params.height = attachment.height
+      if (attachment.duration) params.duration = attachment.duration
+      break
+    case AttachmentType.AUDIO:
+    case AttachmentType.VOICE:
+      if (attachment.duration) params.duration = attachment.duration
+      break
+    case AttachmentType.VIDEO_NOTE:
+      if (attachment.duration) params.duration = attachment.duration
+      // Video notes are square; Bot API calls the side "length"
+      if (attachment.width) params.length = attachment.width
+      break
+  }
+
+  return params
+}
+
+export type AlbumMedia = InputMediaPhoto | InputMediaVideo | InputMediaAudio | InputMediaDocument
+
+/**
+ * Album item for sendMediaGroup
+ */
+export function toAlbumMedia(
+  attachment: Attachment,
+  media: string | InputFile,
+  caption?: { caption: string; parse_mode?: InputMediaPhoto['parse_mode'] }
+): AlbumMedia {
+  const params = attachmentParameters(attachment)
+
+  switch (attachment.type) {
+    case AttachmentType.PHOTO:
+      return { type: 'photo', media, ...caption }
+    case AttachmentType.VIDEO:
+      return { type: 'video', media, ...params, ...caption }
+    case AttachmentType.AUDIO:
+      return { type: 'audio', media, ...params, ...caption }
+    case AttachmentType.DOCUMENT:
+      return { type: 'document', media, ...caption }
+    default:
+      throw new Error(`Attachments of type ${attachment.type} cannot be sent in an album`)
+  }
+}
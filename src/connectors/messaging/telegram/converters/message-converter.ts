@@ -156,6 +156,38 @@ function extractMessageContent(message: Message): MessageContent {
     content.entities = entities.map(telegramEntityToUnified)
   }
 
+  const location = message.venue?.location ?? message.location
+  if (location) {
+    content.location = {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      horizontal_accuracy: location.horizontal_accuracy,
+      live_period: location.live_period,
+      title: message.venue?.title,
+      address: message.venue?.address
+    }
+  }
+
+  if (message.contact) {
+    content.contact = {
+      phone_number: message.contact.phone_number,
+      first_name: message.contact.first_name,
+      last_name: message.contact.last_name,
+      vcard: message.contact.vcard
+    }
+  }
+
+  if (message.poll) {
+    content.poll = {
+      question: message.poll.question,
+      options: message.poll.options.map(option => option.text),
+      is_anonymous: message.poll.is_anonymous,
+      allows_multiple_answers: message.poll.allows_multiple_answers,
+      type: message.poll.type,
+      correct_option_id: message.poll.correct_option_id
+    }
+  }
+
   return content
 }
 
@@ -15,6 +15,7 @@ import { ConnectorType } from '../../../core/interfaces/connector'
 import type {
   BotCommand,
   BulkMessageResult,
+  MessageRef,
   MessageResult,
   MessagingCapabilities,
   MessagingConnector,
@@ -171,7 +172,8 @@ export class MockTelegramConnector implements MessagingConnector {
     this.mockMessages.push({ ...message, id: messageId })
     return {
       success: true,
-      message_id: messageId
+      message_id: messageId,
+      ref: { platform: Platform.TELEGRAM, chat_id: recipient, message_id: messageId }
     }
   }
 
@@ -192,7 +194,8 @@ export class MockTelegramConnector implements MessagingConnector {
     }
   }
 
-  async editMessage(messageId: string, message: UnifiedMessage): Promise<MessageResult> {
+  async editMessage(target: MessageRef | string, message: UnifiedMessage): Promise<MessageResult> {
+    const messageId = typeof target === 'string' ? target : (target.message_id ?? '')
     console.info(`[MockTelegramConnector] Edit message ${messageId}:`, message.content.text)
     const existingIndex = this.mockMessages.findIndex(m => m.id === messageId)
     if (existingIndex >= 0) {
@@ -204,7 +207,8 @@ export class MockTelegramConnector implements MessagingConnector {
     }
   }
 
-  async deleteMessage(messageId: string): Promise<void> {
+  async deleteMessage(target: MessageRef | string): Promise<void> {
+    const messageId = typeof target === 'string' ? target : target.message_id
     console.info(`[MockTelegramConnector] Delete message ${messageId}`)
     this.mockMessages = this.mockMessages.filter(m => m.id !== messageId)
   }
@@ -2,14 +2,17 @@
  * Telegram connector implementation
  */
 
-import { Bot, webhookCallback } from 'grammy'
+import { Bot, InputFile, webhookCallback } from 'grammy'
+import type { InlineKeyboardMarkup, Message, ReplyParameters } from 'grammy/types'
 
 import { setUserContext } from '../../../config/sentry.js'
 import { CommonEventType } from '../../../core/events/event-bus.js'
 import type {
+  Attachment,
   BotCommand,
   ConnectorConfig,
   HealthStatus,
+  MessageRef,
   MessageResult,
   MessagingCapabilities,
   UnifiedMessage,
@@ -25,6 +28,16 @@ import {
 import { BaseMessagingConnector } from '../../base/base-messaging-connector.js'
 
 import { unifiedMarkupToTelegram } from './converters/markup-converter.js'
+import {
+  ATTACHMENT_METHODS,
+  type AttachmentParameters,
+  MESSAGE_TYPE_ATTACHMENTS,
+  type TelegramMediaMethod,
+  attachmentParameters,
+  canUseCaption,
+  groupAttachments,
+  toAlbumMedia
+} from './converters/media-converter.js'
 import {
   telegramUpdateToUnifiedMessage,
   telegramUserToUnified
@@ -37,6 +50,25 @@ import {
 } from './handlers/index.js'
 import type { TelegramConfig, TelegramContext } from './types.js'
 
+interface SendOptions {
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2'
+  link_preview_options?: { is_disabled: boolean }
+  reply_markup?: ReturnType<typeof unifiedMarkupToTelegram>
+  reply_parameters?: ReplyParameters
+}
+
+interface EditOptions {
+  parse_mode?: SendOptions['parse_mode']
+  reply_markup?: InlineKeyboardMarkup
+}
+
+type MediaOptions = Omit<SendOptions, 'parse_mode'> &
+  AttachmentParameters & {
+    caption?: string
+    parse_mode?: SendOptions['parse_mode']
+    thumbnail?: InputFile
+  }
+
 /**
  * Telegram connector for the Wireframe platform
  */
@@ -222,45 +254,72 @@ export class TelegramConnector extends BaseMessagingConnector {
     }
 
     try {
-      interface SendMessageOptions {
-        parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2'
-        disable_web_page_preview?: boolean
-        reply_markup?: unknown
-      }
-
-      const options: SendMessageOptions = {}
+      const options: SendOptions = {}
 
       // Set parse mode
       if (this.config?.parseMode) {
         options.parse_mode = this.config.parseMode
       }
 
-      // Disable link preview if configured
-      if (this.config?.linkPreview === false) {
-        options.disable_web_page_preview = true
-      }
-
       // Convert markup
       if (message.content.markup) {
         options.reply_markup = unifiedMarkupToTelegram(message.content.markup)
       }
 
+      if (message.replyTo) {
+        options.reply_parameters = { message_id: parseInt(message.replyTo) }
+      }
+
+      const { content } = message
+      let result: Message
+
       // Send message based on type
-      let result
-      if (message.content.type === 'text' && message.content.text) {
-        result = await this.bot.api.sendMessage(
+      if (content.type === MessageType.LOCATION) {
+        result = await this.sendLocation(recipient, message, options)
+      } else if (content.type === MessageType.CONTACT) {
+        if (!content.contact) throw new Error('Contact message requires content.contact')
+        result = await this.bot.api.sendContact(
+          recipient,
+          content.contact.phone_number,
+          content.contact.first_name,
+          {
+            ...this.withoutParseMode(options),
+            ...(content.contact.last_name && { last_name: content.contact.last_name }),
+            ...(content.contact.vcard && { vcard: content.contact.vcard })
+          }
+        )
+      } else if (content.type === MessageType.POLL) {
+        if (!content.poll) throw new Error('Poll message requires content.poll')
+        const { question, options: answers, ...settings } = content.poll
+        result = await this.bot.api.sendPoll(
           recipient,
-          message.content.text,
-          options as Parameters<typeof this.bot.api.sendMessage>[2]
+          question,
+          answers.map(text => ({ text })),
+          { ...this.withoutParseMode(options), ...settings }
         )
+      } else if (message.attachments?.length) {
+        result = await this.sendAttachments(recipient, message.attachments, content.text, options)
+      } else if (content.type && MESSAGE_TYPE_ATTACHMENTS[content.type]) {
+        throw new Error(`Message type ${content.type} requires an attachment`)
+      } else if (content.text) {
+        // Disable link preview if configured
+        if (this.config?.linkPreview === false) {
+          options.link_preview_options = { is_disabled: true }
+        }
+        result = await this.bot.api.sendMessage(recipient, content.text, options)
       } else {
-        // Handle other message types
-        throw new Error(`Message type ${message.content.type} not implemented yet`)
+        throw new Error('Message has no content to send')
       }
 
       return {
         success: true,
-        message_id: result.message_id.toString()
+        message_id: result.message_id.toString(),
+        ref: {
+          platform: this.platform,
+          chat_id: result.chat?.id?.toString() ?? recipient,
+          message_id: result.message_id.toString(),
+          ...(result.message_thread_id && { thread_id: result.message_thread_id.toString() })
+        }
       }
     } catch (error) {
       return {
@@ -270,6 +329,196 @@ export class TelegramConnector extends BaseMessagingConnector {
     }
   }
 
+  /**
+   * Send a location, or a venue when the location has a title and address
+   */
+  private async sendLocation(
+    recipient: string,
+    message: UnifiedMessage,
+    options: SendOptions
+  ): Promise<Message> {
+    const location = message.content.location
+    if (!this.bot || !location) {
+      throw new Error('Location message requires content.location')
+    }
+
+    const other = this.withoutParseMode(options)
+    if (location.title && location.address) {
+      return this.bot.api.sendVenue(
+        recipient,
+        location.latitude,
+        location.longitude,
+        location.title,
+        location.address,
+        other
+      )
+    }
+
+    return this.bot.api.sendLocation(recipient, location.latitude, location.longitude, {
+      ...other,
+      ...(location.horizontal_accuracy && { horizontal_accuracy: location.horizontal_accuracy }),
+      ...(location.live_period && { live_period: location.live_period })
+    })
+  }
+
+  /**
+   * Send attachments as single media and albums. The text becomes the caption of the
+   * first send when Telegram allows it, otherwise it is sent first as a text message.
+   * Albums can't carry markup, so an album without text can't have buttons.
+   * Returns the first message sent.
+   */
+  private async sendAttachments(
+    recipient: string,
+    attachments: Attachment[],
+    text: string | undefined,
+    options: SendOptions
+  ): Promise<Message> {
+    if (!this.bot) {
+      throw new Error('Bot not initialized')
+    }
+
+    const batches = groupAttachments(attachments)
+    if (!text && options.reply_markup && batches[0]?.kind === 'group') {
+      throw new Error('Albums cannot carry reply markup; add text to send the buttons with')
+    }
+
+    const captionFits = !!text && canUseCaption(batches[0], text, !!options.reply_markup)
+    const sent: Message[] = []
+
+    if (text && !captionFits) {
+      sent.push(await this.bot.api.sendMessage(recipient, text, options))
+    }
+
+    for (const [index, batch] of batches.entries()) {
+      const caption = index === 0 && captionFits ? text : undefined
+      // Markup and reply go with the first message only
+      const other = sent.length
+        ? this.withoutParseMode({ parse_mode: options.parse_mode })
+        : this.withoutParseMode(options)
+      const parseMode = caption && options.parse_mode ? { parse_mode: options.parse_mode } : {}
+
+      if (batch.kind === 'group') {
+        const media = await Promise.all(
+          batch.attachments.map(async (attachment, i) =>
+            toAlbumMedia(
+              attachment,
+              await this.resolveInputFile(attachment),
+              i === 0 && caption ? { caption, ...parseMode } : undefined
+            )
+          )
+        )
+        const messages = await this.bot.api.sendMediaGroup(
+          recipient,
+          media,
+          other.reply_parameters ? { reply_parameters: other.reply_parameters } : {}
+        )
+        sent.push(...messages)
+        continue
+      }
+
+      const { attachment } = batch
+      const method = ATTACHMENT_METHODS[attachment.type]
+      const input = await this.resolveInputFile(attachment)
+      const thumbnail = attachment.thumbnail?.storage_key
+        ? await this.uploadFromStore(
+            attachment.thumbnail.storage_key,
+            attachment.thumbnail.file_name
+          )
+        : undefined
+
+      sent.push(
+        await this.sendMedia(method, recipient, input, {
+          ...other,
+          ...attachmentParameters(attachment),
+          ...(thumbnail && { thumbnail }),
+          ...(caption ? { caption, ...parseMode } : {})
+        })
+      )
+    }
+
+    const first = sent[0]
+    if (!first) {
+      throw new Error('No attachments were sent')
+    }
+    return first
+  }
+
+  /**
+   * Call the Bot API method for a single attachment
+   */
+  private sendMedia(
+    method: TelegramMediaMethod,
+    recipient: string,
+    file: string | InputFile,
+    other: MediaOptions
+  ): Promise<Message> {
+    if (!this.bot) {
+      throw new Error('Bot not initialized')
+    }
+
+    const { api } = this.bot
+    switch (method) {
+      case 'sendPhoto':
+        return api.sendPhoto(recipient, file, other)
+      case 'sendVideo':
+        return api.sendVideo(recipient, file, other)
+      case 'sendAudio':
+        return api.sendAudio(recipient, file, other)
+      case 'sendDocument':
+        return api.sendDocument(recipient, file, other)
+      case 'sendSticker':
+        return api.sendSticker(recipient, file, other)
+      case 'sendAnimation':
+        return api.sendAnimation(recipient, file, other)
+      case 'sendVoice':
+        return api.sendVoice(recipient, file, other)
+      case 'sendVideoNote':
+        return api.sendVideoNote(recipient, file, other)
+    }
+  }
+
+  /**
+   * Telegram file_id, an upload streamed from the object store, or a URL Telegram fetches
+   */
+  private async resolveInputFile(attachment: Attachment): Promise<string | InputFile> {
+    if (attachment.file_id) {
+      return attachment.file_id
+    }
+
+    if (attachment.storage_key) {
+      return this.uploadFromStore(attachment.storage_key, attachment.file_name)
+    }
+
+    if (attachment.url) {
+      return attachment.url
+    }
+
+    throw new Error(`Attachment of type ${attachment.type} has no file_id, storage_key or url`)
+  }
+
+  /**
+   * Stream an object store entry to Telegram as a file upload
+   */
+  private async uploadFromStore(storageKey: string, fileName?: string): Promise<InputFile> {
+    const store = this.config?.objectStore
+    if (!store) {
+      throw new Error('Object store is not configured for attachment uploads')
+    }
+    const object = await store.get(storageKey)
+    if (!object) {
+      throw new Error(`Attachment ${storageKey} not found in object store`)
+    }
+    return new InputFile(object.body, fileName ?? storageKey.split('/').pop())
+  }
+
+  /**
+   * Options for methods without text formatting
+   */
+  private withoutParseMode(options: SendOptions): Omit<SendOptions, 'parse_mode'> {
+    const { parse_mode: _parseMode, ...rest } = options
+    return rest
+  }
+
   /**
    * Add message to batch queue
    */
@@ -334,27 +583,20 @@ export class TelegramConnector extends BaseMessagingConnector {
   }
 
   /**
-   * Edit a message
+   * Edit the text and inline keyboard of a message
    */
-  protected async doEditMessage(
-    messageId: string,
-    message: UnifiedMessage
-  ): Promise<MessageResult> {
+  protected async doEditMessage(ref: MessageRef, message: UnifiedMessage): Promise<MessageResult> {
     if (!this.bot) {
       throw new Error('Bot not initialized')
     }
 
     try {
-      if (!message.chat?.id || !message.content.text) {
-        throw new Error('Chat ID and message text are required for editing')
-      }
-
-      interface EditMessageOptions {
-        parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2'
-        reply_markup?: unknown
+      const { text, markup } = message.content
+      if (!text && !markup) {
+        throw new Error('Message text or markup is required for editing')
       }
 
-      const options: EditMessageOptions = {}
+      const options: EditOptions = {}
 
       // Set parse mode
       if (this.config?.parseMode) {
@@ -362,20 +604,34 @@ export class TelegramConnector extends BaseMessagingConnector {
       }
 
       // Convert markup
-      if (message.content.markup) {
-        options.reply_markup = unifiedMarkupToTelegram(message.content.markup)
+      if (markup) {
+        // Only inline keyboards can be attached to edited messages
+        options.reply_markup = unifiedMarkupToTelegram(markup) as InlineKeyboardMarkup
       }
 
-      await this.bot.api.editMessageText(
-        message.chat.id,
-        parseInt(messageId),
-        message.content.text,
-        options as Parameters<typeof this.bot.api.editMessageText>[3]
-      )
+      if (ref.inline_message_id) {
+        if (text) {
+          await this.bot.api.editMessageTextInline(ref.inline_message_id, text, options)
+        } else {
+          await this.bot.api.editMessageReplyMarkupInline(ref.inline_message_id, {
+            reply_markup: options.reply_markup
+          })
+        }
+      } else {
+        const messageId = this.parseTelegramMessageId(ref)
+        if (text) {
+          await this.bot.api.editMessageText(ref.chat_id as string, messageId, text, options)
+        } else {
+          await this.bot.api.editMessageReplyMarkup(ref.chat_id as string, messageId, {
+            reply_markup: options.reply_markup
+          })
+        }
+      }
 
       return {
         success: true,
-        message_id: messageId
+        message_id: ref.message_id ?? ref.inline_message_id,
+        ref
       }
     } catch (error) {
       return {
@@ -388,14 +644,24 @@ export class TelegramConnector extends BaseMessagingConnector {
   /**
    * Delete a message
    */
-  protected async doDeleteMessage(_messageId: string): Promise<void> {
+  protected async doDeleteMessage(ref: MessageRef): Promise<void> {
     if (!this.bot) {
       throw new Error('Bot not initialized')
     }
 
-    // Note: Telegram requires chat_id to delete messages
-    // This would need to be stored or passed differently
-    throw new Error('Delete message not implemented - requires chat_id')
+    if (ref.inline_message_id) {
+      throw new Error('Telegram does not allow deleting inline messages')
+    }
+
+    await this.bot.api.deleteMessage(ref.chat_id as string, this.parseTelegramMessageId(ref))
+  }
+
+  private parseTelegramMessageId(ref: MessageRef): number {
+    const messageId = Number(ref.message_id)
+    if (!Number.isInteger(messageId)) {
+      throw new Error(`Invalid Telegram message ID "${ref.message_id}"`)
+    }
+    return messageId
   }
 
   /**
@@ -5,6 +5,7 @@
 import type { Context as GrammyContext } from 'grammy'
 import type { CallbackQuery, InlineQuery, Message } from 'grammy/types'
 
+import type { IObjectStore } from '../../../core/interfaces/storage.js'
 import type { AppContext } from '../../../types/context.js'
 
 /**
@@ -59,6 +60,11 @@ export interface TelegramConfig {
     windowMs?: number
   }
 
+  /**
+   * Object store for attachments referenced by `storage_key`
+   */
+  objectStore?: IObjectStore
+
   /**
    * Allow additional properties for forward compatibility
    */
@@ -1,6 +1,10 @@
 /**
  * Base notification connector with retry logic and batch processing
  * Platform-agnostic implementation for reliable message delivery
+ *
+ * Retries and scheduled notifications are persisted in a notification store and
+ * delivered later by the queue consumer (`deliver`) or the cron sweep (`deliverDue`).
+ * Without a store, retries run on in-memory timers for as long as the isolate lives.
  */
 
 import * as Sentry from '@sentry/cloudflare'
@@ -11,16 +15,35 @@ import type {
   BatchNotificationOptions,
   INotificationAdapter,
   INotificationConnector,
+  INotificationStore,
   NotificationMessage,
   NotificationResult,
   RetryConfig
 } from '../core/interfaces/notification'
 import { NotificationStatus } from '../core/interfaces/notification'
 import type { IKeyValueStore } from '../core/interfaces/storage'
+import type { QueueService } from '../services/queue-service'
+
+/**
+ * Queue message type that wakes up a stored notification when it is due
+ */
+export const NOTIFICATION_DELIVERY_MESSAGE = 'notification:deliver'
+
+export interface NotificationDeliveryTask {
+  messageId: string
+}
+
+// Cloudflare Queues cap delays at 12 hours; later deliveries are left to the cron sweep
+const MAX_QUEUE_DELAY_SECONDS = 12 * 60 * 60
+
+// A worker that dies mid-delivery releases the message after this long
+const DELIVERY_LEASE_MS = 5 * 60 * 1000
 
 interface NotificationConnectorDeps {
   adapter: INotificationAdapter
   storage?: IKeyValueStore
+  store?: INotificationStore
+  queue?: Pick<QueueService, 'send'>
   logger: ILogger
   eventBus: IEventBus
   retryConfig?: RetryConfig
@@ -29,14 +52,18 @@ interface NotificationConnectorDeps {
 export class NotificationConnector implements INotificationConnector {
   private adapter: INotificationAdapter
   private storage?: IKeyValueStore
+  private store?: INotificationStore
+  private queue?: Pick<QueueService, 'send'>
   private logger: ILogger
   private eventBus: IEventBus
   private retryConfig: RetryConfig
-  private activeRetries = new Map<string, NodeJS.Timeout>()
+  private activeRetries = new Map<string, ReturnType<typeof setTimeout>>()
 
   constructor(deps: NotificationConnectorDeps) {
     this.adapter = deps.adapter
     this.storage = deps.storage
+    this.store = deps.store
+    this.queue = deps.queue
     this.logger = deps.logger
     this.eventBus = deps.eventBus
     this.retryConfig = deps.retryConfig || {
@@ -48,12 +75,73 @@ export class NotificationConnector implements INotificationConnector {
   }
 
   async send(message: NotificationMessage): Promise<NotificationResult> {
+    if (message.scheduledAt && message.scheduledAt.getTime() > Date.now()) {
+      return this.schedule(message, message.scheduledAt)
+    }
+
+    return this.attempt(message)
+  }
+
+  /**
+   * Deliver a stored notification if it is due and not taken by another worker.
+   * Returns null when there is nothing to deliver.
+   */
+  async deliver(messageId: string): Promise<NotificationResult | null> {
+    if (!this.store) {
+      throw new Error('Notification store is not configured')
+    }
+
+    const now = new Date()
+    const message = await this.store.claim(
+      messageId,
+      now,
+      new Date(now.getTime() + DELIVERY_LEASE_MS)
+    )
+    if (!message) {
+      return null
+    }
+
+    return this.attempt(message)
+  }
+
+  /**
+   * Deliver every stored notification that is due, e.g. from a cron trigger
+   */
+  async deliverDue(limit = 50): Promise<NotificationResult[]> {
+    if (!this.store) {
+      return []
+    }
+
+    const results: NotificationResult[] = []
+    for (const messageId of await this.store.listDue(new Date(), limit)) {
+      const result = await this.deliver(messageId)
+      if (result) {
+        results.push(result)
+      }
+    }
+
+    return results
+  }
+
+  private async attempt(message: NotificationMessage): Promise<NotificationResult> {
     const span = Sentry.startInactiveSpan({
       op: 'notification.send',
       name: `Send ${message.category} notification`
     })
 
     try {
+      if (message.expiresAt && message.expiresAt.getTime() <= Date.now()) {
+        const result: NotificationResult = {
+          messageId: message.id,
+          status: NotificationStatus.FAILED,
+          error: 'Notification expired before delivery',
+          retryCount: (message.metadata?.retryCount as number) || 0
+        }
+        await this.record(message, result)
+        span.end()
+        return result
+      }
+
       // Check if recipient is reachable
       const reachable = await this.isReachable(message.recipientId)
       if (!reachable) {
@@ -68,6 +156,8 @@ export class NotificationConnector implements INotificationConnector {
           reason: 'User blocked or unavailable'
         })
 
+        await this.record(message, result)
+        span.end()
         return result
       }
 
@@ -100,14 +190,8 @@ export class NotificationConnector implements INotificationConnector {
         deliveredAt: new Date()
       }
 
-      // Store result if storage available
-      if (this.storage) {
-        await this.storage.put(
-          `notification:${message.id}`,
-          JSON.stringify(result),
-          { expirationTtl: 86400 } // 24 hours
-        )
-      }
+      // The message is out; failing to write that down must not send it again
+      await this.recordSafely(message, result)
 
       this.eventBus.emit('notification:sent', {
         messageId: message.id,
@@ -127,7 +211,7 @@ export class NotificationConnector implements INotificationConnector {
       const retryCount = (message.metadata?.retryCount as number) || 0
 
       if (isRetryable && retryCount < this.retryConfig.maxAttempts) {
-        return this.scheduleRetry(message, errorMessage)
+        return this.scheduleRetry(message, errorMessage, error)
       }
 
       const result: NotificationResult = {
@@ -137,6 +221,8 @@ export class NotificationConnector implements INotificationConnector {
         retryCount: retryCount
       }
 
+      await this.recordSafely(message, result)
+
       this.eventBus.emit('notification:failed', {
         messageId: message.id,
         recipientId: message.recipientId,
@@ -233,17 +319,14 @@ export class NotificationConnector implements INotificationConnector {
   }
 
   async getStatus(messageId: string): Promise<NotificationResult | null> {
-    if (!this.storage) {
-      return null
-    }
-
     try {
-      const stored = await this.storage.get<string>(`notification:${messageId}`)
-      if (!stored) {
-        return null
+      const stored = await this.storage?.get<string>(`notification:${messageId}`)
+      if (stored) {
+        return JSON.parse(stored) as NotificationResult
       }
 
-      return JSON.parse(stored) as NotificationResult
+      // Older results have expired from the key-value cache
+      return (await this.store?.getResult(messageId)) ?? null
     } catch (error) {
       this.logger.error('Failed to get notification status', {
         messageId,
@@ -253,19 +336,49 @@ export class NotificationConnector implements INotificationConnector {
     }
   }
 
+  private async schedule(message: NotificationMessage, dueAt: Date): Promise<NotificationResult> {
+    if (!this.store) {
+      return {
+        messageId: message.id,
+        status: NotificationStatus.FAILED,
+        error: 'Scheduled delivery requires a notification store'
+      }
+    }
+
+    const result: NotificationResult = {
+      messageId: message.id,
+      status: NotificationStatus.PENDING,
+      nextRetryAt: dueAt
+    }
+
+    await this.record(message, result, dueAt)
+    await this.enqueue(message.id, dueAt)
+
+    this.eventBus.emit('notification:scheduled', {
+      messageId: message.id,
+      recipientId: message.recipientId,
+      scheduledAt: dueAt
+    })
+
+    return result
+  }
+
   private async scheduleRetry(
     message: NotificationMessage,
-    error: string
+    error: string,
+    cause: unknown
   ): Promise<NotificationResult> {
     const retryCount = ((message.metadata?.retryCount as number) || 0) + 1
-    const delay = this.calculateRetryDelay(retryCount)
+    // Honour the platform's retry_after (e.g. Telegram 429) over our own backoff
+    const delay = this.adapter.getRetryAfter?.(cause) ?? this.calculateRetryDelay(retryCount)
+    const nextRetryAt = new Date(Date.now() + delay)
 
     const result: NotificationResult = {
       messageId: message.id,
       status: NotificationStatus.RETRY,
       error,
       retryCount,
-      nextRetryAt: new Date(Date.now() + delay)
+      nextRetryAt
     }
 
     this.eventBus.emit('notification:failed', {
@@ -275,33 +388,99 @@ export class NotificationConnector implements INotificationConnector {
       willRetry: true
     })
 
-    // Store retry info
-    if (this.storage) {
-      await this.storage.put(`notification:${message.id}`, JSON.stringify(result), {
-        expirationTtl: 86400
-      })
+    const retryMessage: NotificationMessage = {
+      ...message,
+      metadata: {
+        ...message.metadata,
+        retryCount
+      }
     }
 
-    // Schedule retry
-    const timeout = setTimeout(async () => {
-      this.activeRetries.delete(message.id)
+    if (!this.store) {
+      await this.recordSafely(retryMessage, result)
 
-      const retryMessage = {
-        ...message,
-        metadata: {
-          ...message.metadata,
-          retryCount
-        }
-      }
+      const timeout = setTimeout(() => {
+        this.activeRetries.delete(message.id)
+        void this.attempt(retryMessage)
+      }, delay)
+      this.activeRetries.set(message.id, timeout)
 
-      await this.send(retryMessage)
-    }, delay)
+      return result
+    }
 
-    this.activeRetries.set(message.id, timeout)
+    await this.record(retryMessage, result, nextRetryAt)
+    await this.enqueue(message.id, nextRetryAt)
 
     return result
   }
 
+  /**
+   * Store the result: in the key-value cache for status lookups
+   * and in the notification store, which drives later deliveries
+   */
+  private async record(
+    message: NotificationMessage,
+    result: NotificationResult,
+    dueAt?: Date
+  ): Promise<void> {
+    if (this.storage) {
+      await this.storage.put(
+        `notification:${message.id}`,
+        JSON.stringify(result),
+        { expirationTtl: 86400 } // 24 hours
+      )
+    }
+
+    await this.store?.save(message, result, dueAt)
+  }
+
+  /**
+   * Record a result without letting a storage error turn into a delivery error
+   */
+  private async recordSafely(message: NotificationMessage, result: NotificationResult) {
+    try {
+      await this.record(message, result)
+    } catch (error) {
+      this.logger.error('Failed to record notification result', {
+        messageId: message.id,
+        status: result.status,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      Sentry.captureException(error, {
+        tags: {
+          component: 'notification-connector',
+          messageId: message.id,
+          category: message.category
+        }
+      })
+    }
+  }
+
+  /**
+   * Ask the queue to wake the message up when it is due.
+   * Without a queue, or for delays beyond its limit, the cron sweep delivers it.
+   */
+  private async enqueue(messageId: string, dueAt: Date): Promise<void> {
+    const delaySeconds = Math.max(0, Math.ceil((dueAt.getTime() - Date.now()) / 1000))
+    if (!this.queue || delaySeconds > MAX_QUEUE_DELAY_SECONDS) {
+      return
+    }
+
+    try {
+      await this.queue.send<NotificationDeliveryTask>(
+        NOTIFICATION_DELIVERY_MESSAGE,
+        { messageId },
+        undefined,
+        { delaySeconds }
+      )
+    } catch (error) {
+      this.logger.warn('Failed to enqueue notification delivery, leaving it to cron', {
+        messageId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
   private calculateRetryDelay(attempt: number): number {
     const delay = Math.min(
       this.retryConfig.initialDelay * Math.pow(this.retryConfig.backoffMultiplier, attempt - 1),
@@ -317,8 +496,10 @@ export class NotificationConnector implements INotificationConnector {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
+  /**
+   * Cancel in-memory retries
+   */
   async stop(): Promise<void> {
-    // Cancel all active retries
     for (const [messageId, timeout] of this.activeRetries) {
       clearTimeout(timeout)
       this.logger.info('Cancelled retry for message', { messageId })
@@ -0,0 +1,295 @@
+/**
+ * Tests for Vectorize embeddings, keyword index and hybrid search
+ */
+
+import { env } from 'cloudflare:test'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import migration from '../../../../migrations/0015_vector_keywords.sql?raw'
+import { KeywordIndex, tokenize } from '../keyword-index'
+import type { Vector } from '../vectorize-connector'
+import { VectorizeConnector } from '../vectorize-connector'
+
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+import { parseMigrationFile, splitStatements } from '@/core/database/migration-sql'
+import type { AIConnector } from '@/core/interfaces/ai'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+const API = 'https://vectorize.test/client/v4/accounts/acc/vectorize/indexes/docs'
+
+/**
+ * In-memory Vectorize REST API ranking by cosine similarity
+ */
+function createVectorizeFetch(vectors: Map<string, Vector>) {
+  const cosine = (a: number[], b: number[]) => {
+    const dot = a.reduce((sum, value, i) => sum + value * (b[i] ?? 0), 0)
+    const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0))
+    return dot / (norm(a) * norm(b) || 1)
+  }
+
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    const body = JSON.parse((init?.body as string) ?? '{}')
+    const json = (result: unknown) => new Response(JSON.stringify({ result }))
+
+    switch (url) {
+      case `${API}/insert`:
+        body.vectors.forEach((vector: Vector) => vectors.set(vector.id, vector))
+        return json({ count: body.vectors.length })
+      case `${API}/delete`:
+        body.ids.forEach((id: string) => vectors.delete(id))
+        return json({ count: body.ids.length })
+      case `${API}/get`:
+        return json({
+          vectors: body.ids.map((id: string) => vectors.get(id)).filter(Boolean)
+        })
+      case `${API}/query`:
+        return json({
+          matches: [...vectors.values()]
+            .map(vector => ({
+              id: vector.id,
+              score: cosine(vector.values, body.vector),
+              metadata: vector.metadata
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, body.topK)
+        })
+      default:
+        return new Response('not found', { status: 404 })
+    }
+  })
+}
+
+function createEmbeddingProvider(embed: (text: string) => number[]): AIConnector {
+  return {
+    id: 'test-embeddings',
+    embeddings: vi.fn(async (texts: string | string[]) =>
+      (Array.isArray(texts) ? texts : [texts]).map((text, index) => ({
+        embedding: embed(text),
+        index
+      }))
+    )
+  } as unknown as AIConnector
+}
+
+describe('KeywordIndex', () => {
+  it('should tokenize unicode text', () => {
+    expect(tokenize('Hello, Wörld! Привет 42')).toEqual(['hello', 'wörld', 'привет', '42'])
+  })
+
+  it('should rank rarer and more frequent terms higher', () => {
+    const index = new KeywordIndex()
+    index.add('a', 'cloudflare workers run javascript at the edge')
+    index.add('b', 'workers workers workers')
+    index.add('c', 'deploying a telegram bot')
+
+    const matches = index.search('workers edge')
+
+    expect(matches.map(match => match.id)).toEqual(['a', 'b'])
+    expect(index.search('telegram')[0]?.id).toBe('c')
+    expect(index.search('unknown')).toEqual([])
+  })
+
+  it('should replace and remove documents', () => {
+    const index = new KeywordIndex()
+    index.add('a', 'old text')
+    index.add('a', 'new text')
+    index.add('b', 'text')
+
+    expect(index.search('old')).toEqual([])
+    expect(index.remove('a')).toBe(true)
+    expect(index.size).toBe(1)
+    expect(index.search('new')).toEqual([])
+  })
+
+  it('should round-trip through snapshots', () => {
+    const index = new KeywordIndex()
+    index.add('a', 'vector search')
+    index.add('b', 'keyword search')
+
+    const restored = KeywordIndex.fromJSON(JSON.parse(JSON.stringify(index)))
+
+    expect(restored.search('keyword')).toEqual(index.search('keyword'))
+  })
+})
+
+describe('VectorizeConnector', () => {
+  const originalFetch = global.fetch
+  let vectors: Map<string, Vector>
+  let connector: VectorizeConnector
+
+  beforeEach(() => {
+    vectors = new Map()
+    global.fetch = createVectorizeFetch(vectors) as unknown as typeof fetch
+    connector = new VectorizeConnector({
+      accountId: 'acc',
+      indexName: 'docs',
+      baseUrl: 'https://vectorize.test/client/v4',
+      dimensions: 2
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('createEmbedding', () => {
+    it('should require a registered provider', async () => {
+      await expect(connector.createEmbedding('hello')).rejects.toThrow(
+        'No embedding provider registered'
+      )
+    })
+
+    it('should embed text through the provider', async () => {
+      const provider = createEmbeddingProvider(text => [text.length, 1])
+      connector.setEmbeddingProvider(provider)
+
+      expect(await connector.createEmbedding('hello')).toEqual([5, 1])
+      expect(await connector.createEmbeddings(['a', 'abc'])).toEqual([
+        [1, 1],
+        [3, 1]
+      ])
+      expect(provider.embeddings).toHaveBeenLastCalledWith(['a', 'abc'])
+    })
+
+    it('should reject embeddings with the wrong dimensions', async () => {
+      connector.setEmbeddingProvider(createEmbeddingProvider(() => [1, 2, 3]))
+
+      await expect(connector.createEmbedding('hello')).rejects.toThrow(
+        'Embedding provider test-embeddings returned 3 dimensions, index docs expects 2'
+      )
+    })
+  })
+
+  describe('hybridSearch', () => {
+    beforeEach(async () => {
+      // The query embeds close to "intro", which shares no keywords with it
+      connector.setEmbeddingProvider(createEmbeddingProvider(() => [1, 0]))
+      await connector.upsert([
+        { id: 'intro', values: [1, 0], metadata: { text: 'Getting started guide' } },
+        { id: 'billing', values: [0.6, 0.8], metadata: { text: 'Refund policy for payments' } },
+        {
+          id: 'refunds',
+          values: [0, 1],
+          metadata: { text: 'How to request a refund', lang: 'en' }
+        }
+      ])
+    })
+
+    it('should rank by vector similarity without keyword weight', async () => {
+      const matches = await connector.hybridSearch('refund', undefined, 0)
+
+      expect(matches.map(match => match.id)).toEqual(['intro', 'billing', 'refunds'])
+    })
+
+    it('should rank by BM25 with full keyword weight', async () => {
+      const matches = await connector.hybridSearch('request', undefined, 1)
+
+      expect(matches.map(match => match.id)).toEqual(['refunds'])
+      expect(matches[0]).toMatchObject({ score: 1, metadata: { lang: 'en' } })
+    })
+
+    it('should fuse normalized vector and keyword scores', async () => {
+      const matches = await connector.hybridSearch('refund policy', { topK: 3 }, 0.5)
+
+      expect(matches.map(match => match.id)).toEqual(['billing', 'intro', 'refunds'])
+      expect(matches[1]?.score).toBeCloseTo(0.5)
+    })
+
+    it('should fetch keyword-only matches and apply the filter to them', async () => {
+      const matches = await connector.hybridSearch(
+        'refund',
+        { vector: [1, 0], topK: 1, filter: { lang: { $eq: 'fr' } } },
+        1
+      )
+
+      expect(matches).toEqual([])
+    })
+
+    it('should drop deleted vectors from the keyword index', async () => {
+      await connector.delete(['refunds'])
+
+      expect(await connector.keywordSearch('refund')).toEqual([
+        { id: 'billing', score: expect.any(Number) }
+      ])
+    })
+
+    it('should validate the keyword weight', async () => {
+      await expect(connector.hybridSearch('refund', undefined, 2)).rejects.toThrow(
+        'Keyword weight must be between 0 and 1'
+      )
+    })
+  })
+
+  describe('with a keyword database', () => {
+    const config = {
+      accountId: 'acc',
+      indexName: 'docs',
+      baseUrl: 'https://vectorize.test/client/v4',
+      dimensions: 2,
+      keywordDatabase: new CloudflareDatabaseStore(DB),
+      keywordFields: ['title']
+    }
+
+    beforeEach(async () => {
+      await DB.prepare('DROP TABLE IF EXISTS vector_keyword_terms').run()
+      await DB.prepare('DROP TABLE IF EXISTS vector_keyword_documents').run()
+      for (const statement of splitStatements(
+        parseMigrationFile('0015_vector_keywords.sql', migration).up
+      )) {
+        await DB.prepare(statement).run()
+      }
+    })
+
+    it('should share the keyword index between connectors', async () => {
+      await new VectorizeConnector(config).upsert([
+        { id: 'a', values: [1, 0], metadata: { title: 'Quiet hours', body: 'ignored' } }
+      ])
+
+      const other = new VectorizeConnector(config)
+      expect((await other.keywordSearch('quiet')).map(match => match.id)).toEqual(['a'])
+      expect(await other.keywordSearch('ignored')).toEqual([])
+
+      await other.upsert([{ id: 'a', values: [1, 0], metadata: { title: 'Loud hours' } }])
+      expect(await other.keywordSearch('quiet')).toEqual([])
+      await other.delete(['a'])
+      expect(await other.keywordSearch('hours')).toEqual([])
+    })
+
+    it('should keep documents from concurrent ingests', async () => {
+      await Promise.all(
+        ['a', 'b', 'c'].map(id =>
+          new VectorizeConnector(config).upsert([
+            { id, values: [1, 0], metadata: { title: `Refund guide ${id}` } }
+          ])
+        )
+      )
+
+      const matches = await new VectorizeConnector(config).keywordSearch('refund')
+      expect(matches.map(match => match.id).sort()).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should filter before taking the top matches', async () => {
+      const keywords = new VectorizeConnector(config)
+      await keywords.upsert([
+        { id: 'en', values: [1, 0], metadata: { title: 'Refund refund', lang: 'en' } },
+        { id: 'fr', values: [1, 0], metadata: { title: 'Refund policy', lang: 'fr' } }
+      ])
+
+      expect(await keywords.keywordSearch('refund', 1, { lang: 'fr' })).toEqual([
+        { id: 'fr', score: expect.any(Number) }
+      ])
+    })
+  })
+
+  it('should filter in-memory keyword matches before taking the top matches', async () => {
+    await connector.upsert([
+      { id: 'en', values: [1, 0], metadata: { text: 'Refund refund', lang: 'en' } },
+      { id: 'fr', values: [1, 0], metadata: { text: 'Refund policy', lang: 'fr' } }
+    ])
+
+    expect(
+      (await connector.keywordSearch('refund', 1, { lang: { $eq: 'fr' } })).map(match => match.id)
+    ).toEqual(['fr'])
+  })
+})
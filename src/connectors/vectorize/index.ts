@@ -1,3 +1,12 @@
+export { KeywordIndex, scoreTerm, tokenize } from './keyword-index'
+export type {
+  KeywordIndexOptions,
+  KeywordIndexSnapshot,
+  KeywordMatch,
+  TermScoreInput
+} from './keyword-index'
+export { DatabaseKeywordStore, MemoryKeywordStore } from './keyword-store'
+export type { KeywordDocument, KeywordFilter, KeywordStore } from './keyword-store'
 export { VectorizeConnector } from './vectorize-connector'
 export type {
   Vector,
@@ -0,0 +1,192 @@
+/**
+ * BM25 keyword index for hybrid search
+ *
+ * Vectorize only ranks by vector similarity, so the connector keeps a term
+ * index of vector metadata text next to it. This is the in-memory form; the
+ * persistent one lives in D1 (see keyword-store.ts) and shares the scoring.
+ * @module connectors/vectorize/keyword-index
+ */
+
+export interface KeywordIndexOptions {
+  /**
+   * Term frequency saturation (default 1.2)
+   */
+  k1?: number
+  /**
+   * Document length normalization (default 0.75)
+   */
+  b?: number
+}
+
+export interface KeywordMatch {
+  id: string
+  score: number
+}
+
+/**
+ * Serialized index: term frequencies per document ID
+ */
+export interface KeywordIndexSnapshot {
+  documents: Record<string, Record<string, number>>
+}
+
+export interface TermScoreInput {
+  /** Occurrences of the term in the document */
+  frequency: number
+  /** Documents containing the term */
+  documentFrequency: number
+  /** Terms in the document */
+  length: number
+  /** Documents in the index */
+  count: number
+  averageLength: number
+  k1?: number
+  b?: number
+}
+
+/**
+ * BM25 contribution of one query term to a document's score
+ */
+export function scoreTerm(input: TermScoreInput): number {
+  const { frequency, documentFrequency, length, count, averageLength } = input
+  const k1 = input.k1 ?? 1.2
+  const b = input.b ?? 0.75
+
+  const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5))
+  return (idf * frequency * (k1 + 1)) / (frequency + k1 * (1 - b + (b * length) / averageLength))
+}
+
+/**
+ * Lowercase a text and split it into letter/number terms
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 0)
+}
+
+export class KeywordIndex {
+  private documents = new Map<string, Map<string, number>>()
+  private lengths = new Map<string, number>()
+  private documentFrequency = new Map<string, number>()
+  private totalLength = 0
+  private k1: number
+  private b: number
+
+  constructor(options: KeywordIndexOptions = {}) {
+    this.k1 = options.k1 ?? 1.2
+    this.b = options.b ?? 0.75
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.size
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id)
+  }
+
+  /**
+   * Index a document, replacing any previous text for the same ID
+   */
+  add(id: string, text: string): void {
+    const terms = new Map<string, number>()
+    for (const term of tokenize(text)) {
+      terms.set(term, (terms.get(term) ?? 0) + 1)
+    }
+    this.setTerms(id, terms)
+  }
+
+  remove(id: string): boolean {
+    const terms = this.documents.get(id)
+    if (!terms) return false
+
+    for (const term of terms.keys()) {
+      const frequency = (this.documentFrequency.get(term) ?? 1) - 1
+      if (frequency > 0) {
+        this.documentFrequency.set(term, frequency)
+      } else {
+        this.documentFrequency.delete(term)
+      }
+    }
+    this.totalLength -= this.lengths.get(id) ?? 0
+    this.documents.delete(id)
+    this.lengths.delete(id)
+    return true
+  }
+
+  /**
+   * Rank documents by BM25 score for the query terms, best first.
+   * `accept` drops documents before the top K are taken.
+   */
+  search(query: string, topK = 10, accept?: (id: string) => boolean): KeywordMatch[] {
+    const queryTerms = [...new Set(tokenize(query))].filter(term =>
+      this.documentFrequency.has(term)
+    )
+    if (!queryTerms.length) return []
+
+    const count = this.documents.size
+    const averageLength = this.totalLength / count
+    const matches: KeywordMatch[] = []
+
+    for (const [id, terms] of this.documents) {
+      const length = this.lengths.get(id) ?? 0
+      let score = 0
+
+      for (const term of queryTerms) {
+        const frequency = terms.get(term)
+        if (!frequency) continue
+
+        score += scoreTerm({
+          frequency,
+          documentFrequency: this.documentFrequency.get(term) ?? 0,
+          length,
+          count,
+          averageLength,
+          k1: this.k1,
+          b: this.b
+        })
+      }
+
+      if (score > 0 && (!accept || accept(id))) {
+        matches.push({ id, score })
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK)
+  }
+
+  toJSON(): KeywordIndexSnapshot {
+    const documents: KeywordIndexSnapshot['documents'] = {}
+    for (const [id, terms] of this.documents) {
+      documents[id] = Object.fromEntries(terms)
+    }
+    return { documents }
+  }
+
+  static fromJSON(snapshot: KeywordIndexSnapshot, options?: KeywordIndexOptions): KeywordIndex {
+    const index = new KeywordIndex(options)
+    for (const [id, terms] of Object.entries(snapshot.documents ?? {})) {
+      index.setTerms(id, new Map(Object.entries(terms)))
+    }
+    return index
+  }
+
+  private setTerms(id: string, terms: Map<string, number>): void {
+    this.remove(id)
+    if (!terms.size) return
+
+    let length = 0
+    for (const [term, frequency] of terms) {
+      length += frequency
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1)
+    }
+    this.documents.set(id, terms)
+    this.lengths.set(id, length)
+    this.totalLength += length
+  }
+}
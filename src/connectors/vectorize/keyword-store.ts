@@ -0,0 +1,205 @@
+/**
+ * Storage for the keyword side of hybrid search
+ *
+ * Without a database the index lives in memory. With one, every document and
+ * every term posting is its own row (migration 0015), so concurrent ingests
+ * only touch the rows of the vectors they write and the index has no size cap.
+ * @module connectors/vectorize/keyword-store
+ */
+
+import { KeywordIndex, type KeywordMatch, scoreTerm, tokenize } from './keyword-index'
+
+import type { IDatabaseStore } from '@/core/interfaces/storage'
+
+export interface KeywordDocument {
+  id: string
+  /** Text to index; empty text removes the document */
+  text: string
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Metadata check applied before the best matches are picked
+ */
+export type KeywordFilter = (metadata: Record<string, unknown>) => boolean
+
+export interface KeywordStore {
+  upsert(documents: KeywordDocument[]): Promise<void>
+  remove(ids: string[]): Promise<void>
+  search(query: string, topK: number, filter?: KeywordFilter): Promise<KeywordMatch[]>
+}
+
+/**
+ * Keyword index for a single isolate
+ */
+export class MemoryKeywordStore implements KeywordStore {
+  private index = new KeywordIndex()
+  private metadata = new Map<string, Record<string, unknown>>()
+
+  async upsert(documents: KeywordDocument[]): Promise<void> {
+    for (const document of documents) {
+      if (document.text) {
+        this.index.add(document.id, document.text)
+        this.metadata.set(document.id, document.metadata ?? {})
+      } else {
+        await this.remove([document.id])
+      }
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.index.remove(id)
+      this.metadata.delete(id)
+    }
+  }
+
+  async search(query: string, topK: number, filter?: KeywordFilter): Promise<KeywordMatch[]> {
+    return this.index.search(
+      query,
+      topK,
+      filter ? id => filter(this.metadata.get(id) ?? {}) : undefined
+    )
+  }
+}
+
+/** D1 allows 100 bound parameters per statement */
+const TERM_ROWS_PER_STATEMENT = 25
+const MAX_QUERY_TERMS = 50
+
+interface PostingRow {
+  term: string
+  vector_id: string
+  frequency: number
+  length: number
+  metadata: string | null
+}
+
+/**
+ * Keyword index in the vector_keyword_* tables, scored with BM25 at query time
+ */
+export class DatabaseKeywordStore implements KeywordStore {
+  constructor(
+    private db: IDatabaseStore,
+    private indexName: string
+  ) {}
+
+  async upsert(documents: KeywordDocument[]): Promise<void> {
+    // One batch per document: its rows are replaced atomically
+    for (const document of documents) {
+      const terms = new Map<string, number>()
+      for (const term of tokenize(document.text)) {
+        terms.set(term, (terms.get(term) ?? 0) + 1)
+      }
+
+      const statements = this.deleteStatements(document.id)
+      if (terms.size) {
+        const length = [...terms.values()].reduce((sum, frequency) => sum + frequency, 0)
+        statements.push(
+          this.db
+            .prepare(
+              `INSERT INTO vector_keyword_documents (index_name, vector_id, length, metadata)
+               VALUES (?, ?, ?, ?)`
+            )
+            .bind(this.indexName, document.id, length, JSON.stringify(document.metadata ?? {}))
+        )
+
+        const rows = [...terms]
+        for (let i = 0; i < rows.length; i += TERM_ROWS_PER_STATEMENT) {
+          const chunk = rows.slice(i, i + TERM_ROWS_PER_STATEMENT)
+          statements.push(
+            this.db
+              .prepare(
+                `INSERT INTO vector_keyword_terms (index_name, term, vector_id, frequency)
+                 VALUES ${chunk.map(() => '(?, ?, ?, ?)').join(', ')}`
+              )
+              .bind(
+                ...chunk.flatMap(([term, frequency]) => [
+                  this.indexName,
+                  term,
+                  document.id,
+                  frequency
+                ])
+              )
+          )
+        }
+      }
+
+      await this.db.batch(statements)
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (!ids.length) return
+    await this.db.batch(ids.flatMap(id => this.deleteStatements(id)))
+  }
+
+  async search(query: string, topK: number, filter?: KeywordFilter): Promise<KeywordMatch[]> {
+    const terms = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TERMS)
+    if (!terms.length) return []
+
+    const stats = await this.db
+      .prepare(
+        `SELECT COUNT(*) AS count, COALESCE(SUM(length), 0) AS total
+         FROM vector_keyword_documents WHERE index_name = ?`
+      )
+      .bind(this.indexName)
+      .first<{ count: number; total: number }>()
+    if (!stats?.count) return []
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT t.term, t.vector_id, t.frequency, d.length, d.metadata
+         FROM vector_keyword_terms t
+         JOIN vector_keyword_documents d
+           ON d.index_name = t.index_name AND d.vector_id = t.vector_id
+         WHERE t.index_name = ? AND t.term IN (${terms.map(() => '?').join(', ')})`
+      )
+      .bind(this.indexName, ...terms)
+      .all<PostingRow>()
+
+    const documentFrequency = new Map<string, number>()
+    for (const row of results) {
+      documentFrequency.set(row.term, (documentFrequency.get(row.term) ?? 0) + 1)
+    }
+
+    const averageLength = stats.total / stats.count
+    const scores = new Map<string, number>()
+    const rejected = new Set<string>()
+    for (const row of results) {
+      if (rejected.has(row.vector_id)) continue
+      if (filter && !scores.has(row.vector_id)) {
+        const metadata = row.metadata ? JSON.parse(row.metadata) : {}
+        if (!filter(metadata)) {
+          rejected.add(row.vector_id)
+          continue
+        }
+      }
+
+      const score = scoreTerm({
+        frequency: row.frequency,
+        documentFrequency: documentFrequency.get(row.term) ?? 0,
+        length: row.length,
+        count: stats.count,
+        averageLength
+      })
+      scores.set(row.vector_id, (scores.get(row.vector_id) ?? 0) + score)
+    }
+
+    return [...scores]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+  }
+
+  private deleteStatements(id: string) {
+    return [
+      this.db
+        .prepare('DELETE FROM vector_keyword_terms WHERE index_name = ? AND vector_id = ?')
+        .bind(this.indexName, id),
+      this.db
+        .prepare('DELETE FROM vector_keyword_documents WHERE index_name = ? AND vector_id = ?')
+        .bind(this.indexName, id)
+    ]
+  }
+}
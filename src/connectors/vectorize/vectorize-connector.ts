@@ -6,10 +6,13 @@
  * @module connectors/vectorize/vectorize-connector
  */
 
+import type { KeywordMatch } from './keyword-index'
+import { DatabaseKeywordStore, MemoryKeywordStore, type KeywordStore } from './keyword-store'
 import { indexInfoMapper, type IndexInfoDomain, type IndexResultDb } from './mappers'
 
 import { BaseConnector } from '@/connectors/base/base-connector'
 import { EventBus } from '@/core/events/event-bus'
+import type { AIConnector } from '@/core/interfaces/ai'
 import type {
   ConnectorCapabilities,
   ConnectorConfig,
@@ -17,6 +20,7 @@ import type {
   ValidationResult
 } from '@/core/interfaces/connector'
 import { ConnectorType } from '@/core/interfaces/connector'
+import type { IDatabaseStore } from '@/core/interfaces/storage'
 import { logger } from '@/lib/logger'
 
 export interface VectorizeConfig extends ConnectorConfig {
@@ -27,6 +31,18 @@ export interface VectorizeConfig extends ConnectorConfig {
   dimensions?: number
   metric?: 'euclidean' | 'cosine' | 'dot-product'
   eventBus?: EventBus
+  /**
+   * AI connector used to embed text (see connectors/ai/embeddings)
+   */
+  embeddingProvider?: AIConnector
+  /**
+   * Metadata fields indexed for keyword search; all string fields when omitted
+   */
+  keywordFields?: string[]
+  /**
+   * Database holding the keyword index (migration 0015); in-memory only when omitted
+   */
+  keywordDatabase?: IDatabaseStore
 }
 
 export interface Vector {
@@ -65,6 +81,10 @@ export class VectorizeConnector extends BaseConnector {
   private indexName!: string
   private dimensions: number
   private metric: string
+  private embeddingProvider?: AIConnector
+  private keywordFields?: string[]
+  private keywordDatabase?: IDatabaseStore
+  private keywordStore?: KeywordStore
 
   constructor(config?: VectorizeConfig) {
     super()
@@ -75,6 +95,9 @@ export class VectorizeConnector extends BaseConnector {
       this.indexName = config.indexName
       this.dimensions = config.dimensions || 1536 // Default for OpenAI embeddings
       this.metric = config.metric || 'cosine'
+      this.embeddingProvider = config.embeddingProvider
+      this.keywordFields = config.keywordFields
+      this.keywordDatabase = config.keywordDatabase
       if (config.eventBus) {
         this.eventBus = config.eventBus
       }
@@ -94,6 +117,10 @@ export class VectorizeConnector extends BaseConnector {
     this.indexName = vectorConfig.indexName
     this.dimensions = vectorConfig.dimensions || this.dimensions
     this.metric = vectorConfig.metric || this.metric
+    this.embeddingProvider = vectorConfig.embeddingProvider || this.embeddingProvider
+    this.keywordFields = vectorConfig.keywordFields || this.keywordFields
+    this.keywordDatabase = vectorConfig.keywordDatabase || this.keywordDatabase
+    this.keywordStore = undefined
 
     logger.info('[VectorizeConnector] Initializing Vectorize connector', {
       accountId: this.accountId,
@@ -314,6 +341,14 @@ export class VectorizeConnector extends BaseConnector {
         throw new Error(`Failed to upsert vectors: ${response.status} - ${error}`)
       }
 
+      await this.getKeywordStore().upsert(
+        vectors.map(vector => ({
+          id: vector.id,
+          text: this.getKeywordText(vector.metadata),
+          metadata: vector.metadata
+        }))
+      )
+
       logger.info('[VectorizeConnector] Vectors upserted successfully', {
         count: vectors.length
       })
@@ -423,6 +458,8 @@ export class VectorizeConnector extends BaseConnector {
         throw new Error(`Failed to delete vectors: ${response.status} - ${error}`)
       }
 
+      await this.getKeywordStore().remove(ids)
+
       logger.info('[VectorizeConnector] Vectors deleted successfully', {
         count: ids.length
       })
@@ -479,40 +516,220 @@ export class VectorizeConnector extends BaseConnector {
   }
 
   /**
-   * Create embeddings for text (helper method)
-   * Note: This would typically use an AI connector to generate embeddings
+   * Register the AI connector used to embed text
    */
-  async createEmbedding(_text: string, _model?: string): Promise<number[]> {
-    // This is a placeholder - in real implementation, you would use
-    // an AI connector (like OpenAI or Cohere) to generate embeddings
-    logger.warn(
-      '[VectorizeConnector] createEmbedding is a placeholder - integrate with AI connector'
-    )
+  setEmbeddingProvider(provider: AIConnector): void {
+    this.embeddingProvider = provider
+  }
+
+  /**
+   * Create an embedding for text with the registered provider
+   */
+  async createEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.createEmbeddings([text])
+    return embedding as number[]
+  }
 
-    // Return dummy embedding for now
-    return new Array(this.dimensions).fill(0).map(() => Math.random())
+  /**
+   * Create embeddings for several texts in one provider call
+   */
+  async createEmbeddings(texts: string[]): Promise<number[][]> {
+    const provider = this.embeddingProvider
+    if (!provider) {
+      throw new Error('No embedding provider registered')
+    }
+    if (!provider.embeddings) {
+      throw new Error(`AI connector ${provider.id} does not support embeddings`)
+    }
+    if (!texts.length) return []
+
+    const embeddings = await provider.embeddings(texts)
+    const vectors = [...embeddings].sort((a, b) => a.index - b.index).map(e => e.embedding)
+
+    const invalid = vectors.find(vector => vector.length !== this.dimensions)
+    if (invalid) {
+      throw new Error(
+        `Embedding provider ${provider.id} returned ${invalid.length} dimensions, index ${this.indexName} expects ${this.dimensions}`
+      )
+    }
+
+    return vectors
+  }
+
+  /**
+   * Rank vectors by BM25 score of their metadata text.
+   * The metadata filter is applied before the top K are taken.
+   */
+  async keywordSearch(
+    query: string,
+    topK = 10,
+    filter?: Record<string, unknown>
+  ): Promise<KeywordMatch[]> {
+    return this.getKeywordStore().search(
+      query,
+      topK,
+      filter ? metadata => matchesFilter(metadata, filter) : undefined
+    )
   }
 
   /**
    * Perform hybrid search (keyword + vector)
+   *
+   * Vector scores are min-max normalized over the returned matches and BM25
+   * scores are divided by the best keyword score; the final score is
+   * `(1 - keywordWeight) * vector + keywordWeight * keyword`.
    */
   async hybridSearch(
     query: string,
     vectorQuery?: VectorSearchQuery,
-    _keywordWeight = 0.5
+    keywordWeight = 0.5
   ): Promise<VectorMatch[]> {
-    // This would combine keyword search with vector search
-    // For now, just perform vector search if available
-    if (vectorQuery?.vector) {
-      return this.search(vectorQuery)
+    if (keywordWeight < 0 || keywordWeight > 1) {
+      throw new Error('Keyword weight must be between 0 and 1')
     }
 
-    // Generate embedding for query text
-    const embedding = await this.createEmbedding(query)
+    const topK = vectorQuery?.topK || 10
+    const includeMetadata = vectorQuery?.includeMetadata !== false
 
-    return this.search({
-      ...vectorQuery,
-      vector: embedding
+    const searchVectors = async (): Promise<VectorMatch[]> => {
+      if (keywordWeight === 1) return []
+      const vector = vectorQuery?.vector ?? (await this.createEmbedding(query))
+      return this.search({ ...vectorQuery, vector, topK })
+    }
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      searchVectors(),
+      keywordWeight > 0 ? this.keywordSearch(query, topK, vectorQuery?.filter) : []
+    ])
+
+    // Keyword-only matches need their metadata, both for the filter and the result
+    const matches = new Map(vectorMatches.map(match => [match.id, match]))
+    const missing = keywordMatches.map(match => match.id).filter(id => !matches.has(id))
+    const keywordOnly = missing.length ? await this.get(missing) : []
+    for (const vector of keywordOnly) {
+      if (vectorQuery?.filter && !matchesFilter(vector.metadata ?? {}, vectorQuery.filter)) {
+        continue
+      }
+      matches.set(vector.id, {
+        id: vector.id,
+        score: 0,
+        ...(vectorQuery?.includeValues ? { values: vector.values } : {}),
+        ...(includeMetadata ? { metadata: vector.metadata } : {})
+      })
+    }
+
+    const vectorScores = normalizeVectorScores(vectorMatches, this.metric)
+    const maxKeywordScore = keywordMatches[0]?.score ?? 0
+    const keywordScores = new Map(
+      keywordMatches.map(match => [match.id, match.score / maxKeywordScore])
+    )
+
+    const results = [...matches.values()]
+      .map(match => ({
+        ...match,
+        score:
+          (1 - keywordWeight) * (vectorScores.get(match.id) ?? 0) +
+          keywordWeight * (keywordScores.get(match.id) ?? 0)
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+
+    logger.info('[VectorizeConnector] Hybrid search completed', {
+      vectorMatches: vectorMatches.length,
+      keywordMatches: keywordMatches.length,
+      keywordWeight
+    })
+
+    return results
+  }
+
+  private getKeywordText(metadata?: Record<string, unknown>): string {
+    if (!metadata) return ''
+
+    const values = this.keywordFields
+      ? this.keywordFields.map(field => metadata[field])
+      : Object.values(metadata)
+    return values
+      .flat()
+      .filter((value): value is string => typeof value === 'string')
+      .join(' ')
+  }
+
+  private getKeywordStore(): KeywordStore {
+    this.keywordStore ??= this.keywordDatabase
+      ? new DatabaseKeywordStore(this.keywordDatabase, this.indexName)
+      : new MemoryKeywordStore()
+    return this.keywordStore
+  }
+}
+
+/**
+ * Scale vector scores to 0..1, best match first (euclidean scores are distances)
+ */
+function normalizeVectorScores(matches: VectorMatch[], metric: string): Map<string, number> {
+  const scores = matches.map(match => (metric === 'euclidean' ? -match.score : match.score))
+  const min = Math.min(...scores)
+  const max = Math.max(...scores)
+
+  return new Map(
+    matches.map((match, i) => [
+      match.id,
+      max === min ? 1 : ((scores[i] as number) - min) / (max - min)
+    ])
+  )
+}
+
+/**
+ * Evaluate a Vectorize metadata filter locally (`$eq`, `$ne`, `$in`, `$nin`,
+ * `$lt`, `$lte`, `$gt`, `$gte`, dotted paths for nested fields)
+ */
+function matchesFilter(
+  metadata: Record<string, unknown>,
+  filter: Record<string, unknown>
+): boolean {
+  return Object.entries(filter).every(([path, condition]) => {
+    const value = path
+      .split('.')
+      .reduce<unknown>(
+        (current, key) =>
+          current && typeof current === 'object'
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        metadata
+      )
+
+    if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+      return value === condition
+    }
+
+    return Object.entries(condition as Record<string, unknown>).every(([operator, operand]) => {
+      switch (operator) {
+        case '$eq':
+          return value === operand
+        case '$ne':
+          return value !== operand
+        case '$in':
+          return Array.isArray(operand) && operand.includes(value)
+        case '$nin':
+          return Array.isArray(operand) && !operand.includes(value)
+        case '$lt':
+          return compare(value, operand) < 0
+        case '$lte':
+          return compare(value, operand) <= 0
+        case '$gt':
+          return compare(value, operand) > 0
+        case '$gte':
+          return compare(value, operand) >= 0
+        default:
+          return false
+      }
     })
+  })
+}
+
+function compare(value: unknown, operand: unknown): number {
+  if (typeof value === 'number' && typeof operand === 'number') return value - operand
+  if (typeof value === 'string' && typeof operand === 'string') {
+    return value < operand ? -1 : value > operand ? 1 : 0
   }
+  return NaN
 }
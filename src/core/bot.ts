@@ -1,15 +1,25 @@
 import { Bot, InlineKeyboard } from 'grammy'
 
+import { createActivityMiddleware } from '@/adapters/telegram/middleware/activity'
+import { createLanguageMiddleware } from '@/adapters/telegram/middleware/language'
 import { I18nFactory } from '@/connectors/i18n/i18n-factory'
 import { MonitoringFactory } from '@/connectors/monitoring/monitoring-factory'
 import { getCloudPlatformConnector } from '@/core/cloud/cloud-platform-cache'
 import { EventBus } from '@/core/events/event-bus'
+import { createBroadcastService } from '@/core/notification-delivery'
+import { UniversalAuditLogService } from '@/core/services/audit-log-service'
+import { UserPreferenceService } from '@/core/services/user-preference-service'
 import { PaymentRepository } from '@/domain/payments/repository'
 import { TelegramStarsService } from '@/domain/services/telegram-stars.service'
 import { loadProvidersFromEnv } from '@/lib/ai/config/provider-loader'
+import { CallbackDataCodec } from '@/lib/callback-data'
+import { getCallbackSecret } from '@/lib/env-guards'
 import { MultiLayerCache } from '@/lib/multi-layer-cache'
 import { batcherMiddleware } from '@/lib/telegram-batcher'
 import { AIService } from '@/services/ai-service'
+import { ConversationService } from '@/services/conversation-service'
+import { createKnowledgeService } from '@/services/knowledge-service'
+import { QuotaService } from '@/services/quota-service'
 import { SessionService } from '@/services/session-service'
 import type { BotContext, Env } from '@/types'
 // Register all cloud connectors
@@ -74,28 +84,51 @@ export async function createBot(env: Env) {
     aiService.registerProvider(provider)
   }
 
+  const knowledgeService = createKnowledgeService(env, cloudConnector)
+
+  // AI conversation history, sized by the platform constraints
+  const conversationService =
+    providers.length > 0
+      ? new ConversationService(cloudConnector.getKeyValueStore('SESSIONS'), constraints, aiService)
+      : null
+
   const paymentRepo = new PaymentRepository(cloudConnector.getDatabaseStore('DB'))
   const telegramStarsService = new TelegramStarsService(bot.api.raw, paymentRepo, tier)
+  const userPreferenceService = new UserPreferenceService(cloudConnector.getDatabaseStore('DB'))
+  const broadcastService = createBroadcastService(env, bot.api)
+  const quotaService = env.DB
+    ? new QuotaService({ db: cloudConnector.getDatabaseStore('DB') })
+    : null
+  const auditLogService = env.DB
+    ? new UniversalAuditLogService({
+        db: cloudConnector.getDatabaseStore('DB'),
+        checkpoints: env.CACHE ? cloudConnector.getKeyValueStore('CACHE') : null
+      })
+    : null
 
-  // Middleware to attach services, session, and i18n to the context
+  // Signed inline button data; large payloads spill over to KV
+  const callbackData = new CallbackDataCodec({
+    secret: getCallbackSecret(env),
+    store: env.CACHE ? cloudConnector.getKeyValueStore('CACHE') : null
+  })
+
+  // Middleware to attach services and session to the context
   bot.use(async (ctx, next) => {
     ctx.cloudConnector = cloudConnector
     ctx.monitoring = monitoring
+    ctx.callbackData = callbackData
     ctx.services = {
       session: sessionService,
       ai: providers.length > 0 ? aiService : null,
+      knowledge: knowledgeService,
+      conversation: conversationService,
       telegramStars: telegramStarsService,
-      paymentRepo: paymentRepo
+      paymentRepo: paymentRepo,
+      userPreferences: userPreferenceService,
+      broadcast: broadcastService,
+      quotas: quotaService,
+      audit: auditLogService
     }
-    // Determine language from user or default to English
-    const lang = ctx.from?.language_code === 'ru' ? 'ru' : 'en'
-
-    // Set language in i18n connector
-    await i18nConnector.setLanguage(lang)
-
-    // Provide i18n connector to context
-    ctx.i18n = i18nConnector
-
     if (ctx.from?.id) {
       ctx.session = (await sessionService.getSession(ctx.from.id)) || undefined
 
@@ -121,6 +154,12 @@ export async function createBot(env: Env) {
     }
   })
 
+  bot.use(createLanguageMiddleware(i18nConnector))
+
+  if (env.DB) {
+    bot.use(createActivityMiddleware(cloudConnector.getDatabaseStore('DB')))
+  }
+
   // Add request batching middleware for better performance
   bot.use(
     batcherMiddleware({
@@ -0,0 +1,238 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { MigrationError, MigrationRunner } from '../migration-runner'
+import { computeChecksum, parseMigrationFile, splitStatements } from '../migration-sql'
+
+import { createTestDatabase } from '@/__tests__/utils/test-database'
+import type { Migration } from '@/core/interfaces/cloud'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+const repositoryMigrations = import.meta.glob<string>('../../../../migrations/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+})
+
+/**
+ * The migrations in /migrations, as the CLI loads them
+ */
+function loadRepositoryMigrations(): Migration[] {
+  return Object.entries(repositoryMigrations).map(([path, contents]) =>
+    parseMigrationFile(path.split('/').pop() as string, contents)
+  )
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: '0001',
+    name: 'create_notes',
+    up: 'CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);',
+    down: 'DROP TABLE notes;'
+  },
+  {
+    version: '0002',
+    name: 'add_tags',
+    up: "CREATE TABLE tags (name TEXT PRIMARY KEY);\nINSERT INTO tags (name) VALUES ('a;b');",
+    down: 'DROP TABLE tags;'
+  },
+  {
+    version: '0010',
+    name: 'add_archived',
+    up: 'ALTER TABLE notes ADD COLUMN archived INTEGER DEFAULT 0;',
+    down: 'ALTER TABLE notes DROP COLUMN archived;'
+  }
+]
+
+describe('MigrationRunner', () => {
+  let database: Awaited<ReturnType<typeof createTestDatabase>>
+
+  beforeEach(async () => {
+    database = await createTestDatabase(DB)
+  })
+
+  it('applies pending migrations in version order and records them', async () => {
+    const runner = new MigrationRunner({
+      db: database.db,
+      migrations: [...MIGRATIONS].reverse()
+    })
+
+    const applied = await runner.up()
+
+    expect(applied.map(migration => migration.version)).toEqual(['0001', '0002', '0010'])
+    expect(await database.tables()).toEqual(['notes', 'schema_migrations', 'tags'])
+    expect(await database.columns('notes')).toContain('archived')
+    expect((await runner.status()).map(status => status.state)).toEqual([
+      'applied',
+      'applied',
+      'applied'
+    ])
+
+    // Nothing left to do
+    expect(await runner.up()).toEqual([])
+  })
+
+  it('stops at the requested version', async () => {
+    const runner = new MigrationRunner({ db: database.db, migrations: MIGRATIONS })
+
+    await runner.up({ to: '0002' })
+
+    expect((await runner.status()).map(status => status.state)).toEqual([
+      'applied',
+      'applied',
+      'pending'
+    ])
+  })
+
+  it('leaves nothing behind when a migration fails', async () => {
+    const runner = new MigrationRunner({
+      db: database.db,
+      migrations: [
+        MIGRATIONS[0] as Migration,
+        {
+          version: '0002',
+          name: 'broken',
+          up: 'CREATE TABLE half (id INTEGER);\nINSERT INTO missing_table VALUES (1);'
+        }
+      ]
+    })
+
+    await expect(runner.up()).rejects.toThrow(MigrationError)
+
+    expect(await database.tables()).toEqual(['notes', 'schema_migrations'])
+    expect((await runner.status()).map(status => status.state)).toEqual(['applied', 'pending'])
+  })
+
+  it('detects edited and deleted migrations', async () => {
+    await new MigrationRunner({ db: database.db, migrations: MIGRATIONS }).up()
+
+    const drifted = new MigrationRunner({
+      db: database.db,
+      migrations: [
+        { ...(MIGRATIONS[0] as Migration), up: 'CREATE TABLE notes (id INTEGER PRIMARY KEY);' },
+        MIGRATIONS[1] as Migration
+      ]
+    })
+
+    expect(await drifted.verify()).toMatchObject([
+      { version: '0001', state: 'changed' },
+      { version: '0010', state: 'missing' }
+    ])
+    await expect(drifted.up()).rejects.toThrow('0001 (changed), 0010 (missing)')
+  })
+
+  it('rolls back the latest migrations', async () => {
+    const runner = new MigrationRunner({ db: database.db, migrations: MIGRATIONS })
+    await runner.up()
+
+    const rolledBack = await runner.down()
+    expect(rolledBack.map(migration => migration.version)).toEqual(['0010'])
+    expect(await database.columns('notes')).not.toContain('archived')
+
+    await runner.down({ to: '0' })
+    expect(await database.tables()).toEqual(['schema_migrations'])
+    expect((await runner.status()).every(status => status.state === 'pending')).toBe(true)
+  })
+
+  it('refuses to roll back migrations without a down script', async () => {
+    const runner = new MigrationRunner({
+      db: database.db,
+      migrations: [{ version: '1', name: 'one_way', up: 'CREATE TABLE one_way (id INTEGER);' }]
+    })
+    await runner.up()
+
+    await expect(runner.down()).rejects.toThrow('Migrations have no down script: 1')
+    expect(await database.tables()).toContain('one_way')
+  })
+
+  it('rejects duplicate versions', () => {
+    expect(
+      () =>
+        new MigrationRunner({
+          db: database.db,
+          migrations: [
+            MIGRATIONS[0] as Migration,
+            { ...(MIGRATIONS[1] as Migration), version: '0001' }
+          ]
+        })
+    ).toThrow('Duplicate migration versions: 0001')
+  })
+
+  it('adopts history recorded by wrangler', async () => {
+    await database.d1
+      .prepare('CREATE TABLE d1_migrations (id INTEGER PRIMARY KEY, name TEXT, applied_at TEXT)')
+      .run()
+    await database.d1.prepare('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT)').run()
+    await database.d1
+      .prepare(
+        "INSERT INTO d1_migrations (name, applied_at) VALUES ('0001_create_notes.sql', '2025-01-01')"
+      )
+      .run()
+
+    const runner = new MigrationRunner({ db: database.db, migrations: MIGRATIONS })
+    const applied = await runner.up()
+
+    expect(applied.map(migration => migration.version)).toEqual(['0002', '0010'])
+    expect((await runner.status())[0]).toMatchObject({ state: 'applied', appliedAt: '2025-01-01' })
+  })
+
+  it('applies and rolls back the repository migrations', async () => {
+    const runner = new MigrationRunner({ db: database.db, migrations: loadRepositoryMigrations() })
+
+    await runner.up()
+    expect(await database.tables()).toEqual(
+      expect.arrayContaining(['users', 'bot_settings', 'broadcasts', 'quota_usage'])
+    )
+    expect(await runner.verify()).toEqual([])
+
+    await runner.down({ to: '0007' })
+    expect(await database.tables()).not.toContain('broadcasts')
+    expect(await database.columns('users')).not.toContain('tags')
+    await runner.up()
+    expect(await database.tables()).toContain('broadcasts')
+  })
+})
+
+describe('migration files', () => {
+  it('splits up and down scripts', () => {
+    const migration = parseMigrationFile(
+      '0012_add_notes.sql',
+      '-- Notes\r\nCREATE TABLE notes (id INTEGER);\r\n\r\n-- migrate:down\r\nDROP TABLE notes;\r\n'
+    )
+
+    expect(migration).toEqual({
+      version: '0012',
+      name: 'add_notes',
+      up: '-- Notes\nCREATE TABLE notes (id INTEGER);',
+      down: 'DROP TABLE notes;'
+    })
+  })
+
+  it('rejects files without a version', () => {
+    expect(() => parseMigrationFile('notes.sql', '')).toThrow('Invalid migration file name')
+  })
+
+  it('splits statements outside strings, comments and trigger bodies', () => {
+    const statements = splitStatements(`
+      -- a comment; with a semicolon
+      INSERT INTO t VALUES ('x;y', "q;""z");
+      /* block; comment */ UPDATE t SET a = 1;
+      CREATE TRIGGER t_touch AFTER UPDATE ON t BEGIN
+        UPDATE t SET b = CASE WHEN NEW.a > 0 THEN 1 ELSE 0 END;
+        DELETE FROM u;
+      END;
+    `)
+
+    expect(statements).toHaveLength(3)
+    expect(statements[0]).toBe(`INSERT INTO t VALUES ('x;y', "q;""z")`)
+    expect(statements[1]).toBe('UPDATE t SET a = 1')
+    expect(statements[2]).toMatch(/^CREATE TRIGGER t_touch[\s\S]*DELETE FROM u;\s+END$/)
+  })
+
+  it('ignores line endings in checksums', async () => {
+    expect(await computeChecksum('SELECT 1;\r\nSELECT 2;\r\n')).toBe(
+      await computeChecksum('SELECT 1;\nSELECT 2;')
+    )
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+
+import { bindParameters, toSqlLiteral } from '../sql-binding'
+
+describe('bindParameters', () => {
+  it('should bind positional and numbered placeholders', () => {
+    expect(bindParameters('SELECT ?, ?2, ?1', ['a', 'b'], 'postgres')).toBe("SELECT 'a', 'b', 'a'")
+  })
+
+  it('should ignore placeholders inside quotes', () => {
+    expect(bindParameters(`SELECT '?', "a?" FROM t WHERE x = ?`, [5], 'postgres')).toBe(
+      `SELECT '?', "a?" FROM t WHERE x = 5`
+    )
+  })
+
+  it('should ignore placeholders inside comments and dollar quotes', () => {
+    expect(
+      bindParameters(
+        'SELECT ? -- why?\n/* a ? b */ FROM f($$ x ? $$, $fn$?$fn$, $1) WHERE y = ?',
+        [1, 2],
+        'postgres'
+      )
+    ).toBe('SELECT 1 -- why?\n/* a ? b */ FROM f($$ x ? $$, $fn$?$fn$, $1) WHERE y = 2')
+    expect(bindParameters('SELECT ? # what?\n, ?', [1, 2], 'mysql')).toBe('SELECT 1 # what?\n, 2')
+  })
+
+  it('should skip SQLite comments and bracket-quoted identifiers', () => {
+    expect(
+      bindParameters(
+        "INSERT INTO [a?] (note) VALUES ('why?') -- really?\n; SELECT ?, ?",
+        ['x', true],
+        'sqlite'
+      )
+    ).toBe("INSERT INTO [a?] (note) VALUES ('why?') -- really?\n; SELECT 'x', 1")
+  })
+
+  it('should reject missing values', () => {
+    expect(() => bindParameters('SELECT ?, ?', [1], 'postgres')).toThrow(
+      'Missing value for SQL parameter 2'
+    )
+  })
+})
+
+describe('toSqlLiteral', () => {
+  it('should render values for each dialect', () => {
+    expect(toSqlLiteral(null, 'postgres')).toBe('NULL')
+    expect(toSqlLiteral(true, 'mysql')).toBe('TRUE')
+    expect(toSqlLiteral('a\\b', 'postgres')).toBe("'a\\b'")
+    expect(toSqlLiteral('a\\b', 'mysql')).toBe("'a\\\\b'")
+    expect(toSqlLiteral(new Uint8Array([1, 255]), 'postgres')).toBe("'\\x01ff'::bytea")
+    expect(toSqlLiteral(new Uint8Array([1, 255]), 'mysql')).toBe("X'01ff'")
+    expect(toSqlLiteral(false, 'sqlite')).toBe('0')
+    expect(toSqlLiteral("it's", 'sqlite')).toBe("'it''s'")
+  })
+
+  it('should reject unsafe values', () => {
+    expect(() => toSqlLiteral('a\0b', 'postgres')).toThrow('NUL')
+    expect(() => toSqlLiteral(Number.NaN, 'postgres')).toThrow('non-finite')
+  })
+})
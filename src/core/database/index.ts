@@ -3,3 +3,6 @@
  */
 
 export * from './field-mapper'
+export * from './migration-runner'
+export * from './migration-sql'
+export * from './sql-binding'
@@ -0,0 +1,400 @@
+/**
+ * Migration Runner
+ *
+ * Applies versioned SQL migrations to any IDatabaseStore and records each
+ * applied version with a checksum of its up script, so edits to migrations
+ * that already ran are reported instead of silently ignored.
+ *
+ * Every migration runs as one batch together with its history row. On D1 a
+ * batch is a transaction: a failing statement leaves nothing behind, and two
+ * deploys racing on the same version can't both record it.
+ */
+
+import type { Migration } from '../interfaces/cloud'
+import type { IDatabaseStore } from '../interfaces/storage'
+
+import { computeChecksum, getMigrationFileName, splitStatements } from './migration-sql'
+
+import { logger } from '@/lib/logger'
+
+export type MigrationState =
+  /** Ran and unchanged since */
+  | 'applied'
+  /** Not run yet */
+  | 'pending'
+  /** Ran, but the file has been edited since */
+  | 'changed'
+  /** Ran, but there is no file for it any more */
+  | 'missing'
+
+export interface MigrationStatus {
+  version: string
+  name: string
+  state: MigrationState
+  appliedAt?: string
+  /**
+   * Whether the migration has a down script
+   */
+  reversible: boolean
+}
+
+export interface MigrationRunnerOptions {
+  db: IDatabaseStore
+  migrations: Migration[]
+  /**
+   * History table (default schema_migrations)
+   */
+  table?: string
+}
+
+export interface MigrateUpOptions {
+  /**
+   * Stop after this version
+   */
+  to?: string
+  /**
+   * Apply even when applied migrations have drifted
+   */
+  force?: boolean
+}
+
+export interface MigrateDownOptions {
+  /**
+   * Roll back every migration after this version ("0" rolls back all)
+   */
+  to?: string
+  /**
+   * Number of migrations to roll back when `to` is not set (default 1)
+   */
+  steps?: number
+  /**
+   * Roll back even when the migration file changed after it was applied
+   */
+  force?: boolean
+}
+
+/**
+ * Migration error carrying the versions it is about
+ */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public versions: string[] = []
+  ) {
+    super(versions.length ? `${message}: ${versions.join(', ')}` : message)
+    this.name = 'MigrationError'
+  }
+}
+
+interface HistoryRow {
+  version: string
+  name: string
+  checksum: string
+  applied_at: string
+}
+
+/** Table wrangler's own `d1 migrations apply` keeps its history in */
+const WRANGLER_HISTORY_TABLE = 'd1_migrations'
+
+export class MigrationRunner {
+  private db: IDatabaseStore
+  private migrations: Migration[]
+  private table: string
+
+  constructor(options: MigrationRunnerOptions) {
+    const table = options.table ?? 'schema_migrations'
+    if (!/^\w+$/.test(table)) {
+      throw new MigrationError(`Invalid history table name "${table}"`)
+    }
+
+    const seen = new Set<string>()
+    const duplicates = new Set<string>()
+    for (const migration of options.migrations) {
+      if (seen.has(migration.version)) {
+        duplicates.add(migration.version)
+      }
+      seen.add(migration.version)
+    }
+    if (duplicates.size > 0) {
+      throw new MigrationError('Duplicate migration versions', [...duplicates])
+    }
+
+    this.db = options.db
+    this.table = table
+    this.migrations = [...options.migrations].sort((a, b) => compareVersions(a.version, b.version))
+  }
+
+  /**
+   * Every known version, from the files and from the history, in order
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const history = await this.getHistory()
+    const statuses: MigrationStatus[] = []
+
+    for (const migration of this.migrations) {
+      const row = history.get(migration.version)
+      let state: MigrationState = 'pending'
+      if (row) {
+        state = row.checksum === (await computeChecksum(migration.up)) ? 'applied' : 'changed'
+      }
+
+      statuses.push({
+        version: migration.version,
+        name: migration.name,
+        state,
+        ...(row && { appliedAt: row.applied_at }),
+        reversible: Boolean(migration.down)
+      })
+    }
+
+    for (const row of history.values()) {
+      if (!this.find(row.version)) {
+        statuses.push({
+          version: row.version,
+          name: row.name,
+          state: 'missing',
+          appliedAt: row.applied_at,
+          reversible: false
+        })
+      }
+    }
+
+    return statuses.sort((a, b) => compareVersions(a.version, b.version))
+  }
+
+  /**
+   * Applied migrations whose file changed or disappeared
+   */
+  async verify(): Promise<MigrationStatus[]> {
+    return (await this.status()).filter(
+      status => status.state === 'changed' || status.state === 'missing'
+    )
+  }
+
+  /**
+   * Apply pending migrations in version order
+   */
+  async up(options: MigrateUpOptions = {}): Promise<Migration[]> {
+    const statuses = await this.status()
+    this.assertNoDrift(statuses, options.force)
+
+    const pending = statuses.filter(
+      status =>
+        status.state === 'pending' &&
+        (options.to === undefined || compareVersions(status.version, options.to) <= 0)
+    )
+
+    const applied: Migration[] = []
+    for (const status of pending) {
+      const migration = this.find(status.version) as Migration
+      await this.apply(migration)
+      applied.push(migration)
+    }
+
+    return applied
+  }
+
+  /**
+   * Roll back applied migrations, newest first
+   */
+  async down(options: MigrateDownOptions = {}): Promise<Migration[]> {
+    const applied = (await this.status()).filter(status => status.state !== 'pending').reverse()
+
+    const targets =
+      options.to === undefined
+        ? applied.slice(0, options.steps ?? 1)
+        : applied.filter(status => compareVersions(status.version, options.to as string) > 0)
+
+    const missing = targets.filter(status => status.state === 'missing')
+    if (missing.length > 0) {
+      throw new MigrationError(
+        'Cannot roll back migrations without a file',
+        missing.map(status => status.version)
+      )
+    }
+
+    const irreversible = targets.filter(status => !status.reversible)
+    if (irreversible.length > 0) {
+      throw new MigrationError(
+        'Migrations have no down script',
+        irreversible.map(status => status.version)
+      )
+    }
+
+    this.assertNoDrift(targets, options.force)
+
+    const rolledBack: Migration[] = []
+    for (const status of targets) {
+      const migration = this.find(status.version) as Migration
+      await this.revert(migration)
+      rolledBack.push(migration)
+    }
+
+    return rolledBack
+  }
+
+  private async apply(migration: Migration): Promise<void> {
+    const started = Date.now()
+    const statements = splitStatements(migration.up).map(sql => this.db.prepare(sql))
+
+    try {
+      await this.db.batch([
+        ...statements,
+        this.db
+          .prepare(
+            `INSERT INTO ${this.table} (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)`
+          )
+          .bind(
+            migration.version,
+            migration.name,
+            await computeChecksum(migration.up),
+            new Date().toISOString()
+          )
+      ])
+    } catch (error) {
+      throw new MigrationError(
+        `Migration ${getMigrationFileName(migration)} failed: ${errorMessage(error)}`,
+        [migration.version]
+      )
+    }
+
+    logger.info('Migration applied', {
+      version: migration.version,
+      name: migration.name,
+      durationMs: Date.now() - started
+    })
+  }
+
+  private async revert(migration: Migration): Promise<void> {
+    const statements = splitStatements(migration.down ?? '').map(sql => this.db.prepare(sql))
+
+    try {
+      await this.db.batch([
+        ...statements,
+        this.db.prepare(`DELETE FROM ${this.table} WHERE version = ?`).bind(migration.version)
+      ])
+    } catch (error) {
+      throw new MigrationError(
+        `Rollback of ${getMigrationFileName(migration)} failed: ${errorMessage(error)}`,
+        [migration.version]
+      )
+    }
+
+    logger.info('Migration rolled back', { version: migration.version, name: migration.name })
+  }
+
+  private assertNoDrift(statuses: MigrationStatus[], force = false): void {
+    const drifted = statuses.filter(
+      status => status.state === 'changed' || status.state === 'missing'
+    )
+    if (drifted.length === 0) {
+      return
+    }
+
+    if (!force) {
+      throw new MigrationError(
+        'Applied migrations have drifted from their files',
+        drifted.map(status => `${status.version} (${status.state})`)
+      )
+    }
+
+    logger.warn('Ignoring migration drift', {
+      versions: drifted.map(status => `${status.version} (${status.state})`)
+    })
+  }
+
+  private async getHistory(): Promise<Map<string, HistoryRow>> {
+    await this.ensureHistoryTable()
+
+    const { results } = await this.db
+      .prepare(`SELECT version, name, checksum, applied_at FROM ${this.table}`)
+      .all<HistoryRow>()
+
+    return new Map(results.map(row => [row.version, row]))
+  }
+
+  private async ensureHistoryTable(): Promise<void> {
+    if (await this.tableExists(this.table)) {
+      return
+    }
+
+    await this.db
+      .prepare(
+        `CREATE TABLE IF NOT EXISTS ${this.table} (
+          version TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )`
+      )
+      .run()
+
+    await this.adoptWranglerHistory()
+  }
+
+  /**
+   * Databases migrated with `wrangler d1 migrations apply` already have the
+   * schema; record those files as applied instead of running them again.
+   */
+  private async adoptWranglerHistory(): Promise<void> {
+    if (!(await this.tableExists(WRANGLER_HISTORY_TABLE))) {
+      return
+    }
+
+    const { results } = await this.db
+      .prepare(`SELECT name, applied_at FROM ${WRANGLER_HISTORY_TABLE}`)
+      .all<{ name: string; applied_at: string | null }>()
+    const appliedAt = new Map(results.map(row => [row.name, row.applied_at]))
+
+    const adopted = this.migrations.filter(migration =>
+      appliedAt.has(getMigrationFileName(migration))
+    )
+    if (adopted.length === 0) {
+      return
+    }
+
+    await this.db.batch(
+      await Promise.all(
+        adopted.map(async migration =>
+          this.db
+            .prepare(
+              `INSERT OR IGNORE INTO ${this.table} (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)`
+            )
+            .bind(
+              migration.version,
+              migration.name,
+              await computeChecksum(migration.up),
+              appliedAt.get(getMigrationFileName(migration)) ?? new Date().toISOString()
+            )
+        )
+      )
+    )
+
+    logger.info('Adopted wrangler migration history', {
+      versions: adopted.map(migration => migration.version)
+    })
+  }
+
+  private async tableExists(name: string): Promise<boolean> {
+    const row = await this.db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .bind(name)
+      .first<{ name: string }>()
+    return Boolean(row)
+  }
+
+  private find(version: string): Migration | undefined {
+    return this.migrations.find(migration => migration.version === version)
+  }
+}
+
+/**
+ * Numeric order, so "2" comes before "10"
+ */
+export function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true })
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,140 @@
+/**
+ * Migration SQL helpers
+ *
+ * Migration files are plain SQL named "<version>_<name>.sql". An optional
+ * "-- migrate:down" line starts the rollback script; everything above it
+ * is the up script.
+ */
+
+import type { Migration } from '../interfaces/cloud'
+
+const FILE_NAME_PATTERN = /^(\d+)_([\w-]+)\.sql$/
+const DOWN_MARKER = /^\s*--\s*migrate:down\s*$/im
+const UP_MARKER = /^\s*--\s*migrate:up\s*$/im
+
+/**
+ * Build a migration from a file name and its contents
+ */
+export function parseMigrationFile(fileName: string, contents: string): Migration {
+  const match = FILE_NAME_PATTERN.exec(fileName)
+  if (!match?.[1] || !match[2]) {
+    throw new Error(`Invalid migration file name "${fileName}", expected <version>_<name>.sql`)
+  }
+
+  const sql = contents.replace(/\r\n/g, '\n')
+  const downMatch = DOWN_MARKER.exec(sql)
+  const up = (downMatch ? sql.slice(0, downMatch.index) : sql).replace(UP_MARKER, '').trim()
+  const down = downMatch ? sql.slice(downMatch.index + downMatch[0].length).trim() : ''
+
+  return {
+    version: match[1],
+    name: match[2],
+    up,
+    ...(down && { down })
+  }
+}
+
+/**
+ * File name of a migration, as wrangler records it in d1_migrations
+ */
+export function getMigrationFileName(migration: Pick<Migration, 'version' | 'name'>): string {
+  return `${migration.version}_${migration.name}.sql`
+}
+
+/**
+ * Split a script into single statements for D1, which prepares one at a time.
+ * Comments are dropped; semicolons inside strings, quoted identifiers and
+ * trigger bodies don't end a statement.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = []
+  let current = ''
+  let i = 0
+
+  const push = () => {
+    const statement = current.trim()
+    if (statement) {
+      statements.push(statement)
+    }
+    current = ''
+  }
+
+  while (i < sql.length) {
+    const char = sql[i] as string
+    const next = sql[i + 1]
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i)
+      i = end === -1 ? sql.length : end
+      continue
+    }
+
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2)
+      i = end === -1 ? sql.length : end + 2
+      current += ' '
+      continue
+    }
+
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char
+      let end = i + 1
+      while (end < sql.length) {
+        if (sql[end] === close) {
+          // Doubled quotes are escapes, not the end of the string
+          if (close !== ']' && sql[end + 1] === close) {
+            end += 2
+            continue
+          }
+          break
+        }
+        end++
+      }
+      current += sql.slice(i, end + 1)
+      i = end + 1
+      continue
+    }
+
+    if (char === ';' && !isInsideTrigger(current)) {
+      push()
+      i++
+      continue
+    }
+
+    current += char
+    i++
+  }
+
+  push()
+  return statements
+}
+
+/**
+ * Trigger bodies contain their own semicolons; the statement ends with the
+ * END that closes BEGIN (CASE ... END may appear in between)
+ */
+function isInsideTrigger(statement: string): boolean {
+  if (!/^\s*CREATE\s+(?:TEMP\w*\s+)?TRIGGER\b/i.test(statement)) {
+    return false
+  }
+
+  const keywords =
+    statement.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"/g, '').match(/\b(?:BEGIN|CASE|END)\b/gi) ?? []
+  let depth = 0
+  for (const keyword of keywords) {
+    depth += keyword.toUpperCase() === 'END' ? -1 : 1
+  }
+
+  return keywords.length === 0 || depth > 0
+}
+
+/**
+ * SHA-256 of the up script, used to detect edits to applied migrations
+ */
+export async function computeChecksum(sql: string): Promise<string> {
+  const normalized = sql.replace(/\r\n/g, '\n').trim()
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,140 @@
+/**
+ * Inline bound values into SQL for backends that can't bind parameters
+ * (the Cloud SQL Admin API, `wrangler d1 execute`)
+ */
+
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite'
+
+/**
+ * Replace `?` and `?NNN` placeholders (D1 style) with SQL literals,
+ * skipping placeholders inside quoted strings and identifiers, comments
+ * and PostgreSQL dollar-quoted bodies.
+ */
+export function bindParameters(query: string, values: unknown[], dialect: SqlDialect): string {
+  let output = ''
+  let nextIndex = 0
+  let quote: string | null = null
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i] as string
+
+    if (quote) {
+      output += char
+      if (char === quote) {
+        // Doubled quote is an escaped quote, stay inside the literal
+        if (query[i + 1] === quote) {
+          output += query[++i]
+        } else {
+          quote = null
+        }
+      }
+      continue
+    }
+
+    if (char === "'" || char === '"' || char === '`' || (dialect === 'sqlite' && char === '[')) {
+      // SQLite also quotes identifiers in brackets
+      quote = char === '[' ? ']' : char
+      output += char
+      continue
+    }
+
+    const skipped = skipUntil(query, i, getClosing(query, i, dialect))
+    if (skipped > i) {
+      output += query.slice(i, skipped)
+      i = skipped - 1
+      continue
+    }
+
+    if (char === '?') {
+      const digits = /^\d+/.exec(query.slice(i + 1))?.[0]
+      let index: number
+      if (digits) {
+        index = Number(digits) - 1
+        i += digits.length
+      } else {
+        index = nextIndex++
+      }
+
+      if (index < 0 || index >= values.length) {
+        throw new Error(`Missing value for SQL parameter ${index + 1}`)
+      }
+      output += toSqlLiteral(values[index], dialect)
+      continue
+    }
+
+    output += char
+  }
+
+  return output
+}
+
+/**
+ * Text that ends a comment or dollar quote starting at `start`, if one does
+ */
+function getClosing(query: string, start: number, dialect: SqlDialect): string | undefined {
+  const rest = query.slice(start, start + 2)
+  if (rest === '--' || (dialect === 'mysql' && rest[0] === '#')) return '\n'
+  if (rest === '/*') return '*/'
+
+  if (dialect === 'postgres' && rest[0] === '$') {
+    // $$ or $tag$, but not a $1 parameter
+    const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(query.slice(start))?.[0]
+    if (tag) return tag
+  }
+
+  return undefined
+}
+
+/**
+ * Index just past the closing text (or the end of the query)
+ */
+function skipUntil(query: string, start: number, closing: string | undefined): number {
+  if (closing === undefined) return start
+
+  // The opening text of a dollar quote equals its closing text
+  const opening = closing === '\n' ? 1 : closing === '*/' ? 2 : closing.length
+  const end = query.indexOf(closing, start + opening)
+  return end === -1 ? query.length : end + closing.length
+}
+
+/**
+ * Render a value as a SQL literal
+ */
+export function toSqlLiteral(value: unknown, dialect: SqlDialect): string {
+  if (value === null || value === undefined) return 'NULL'
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Cannot bind non-finite number ${value}`)
+    return String(value)
+  }
+  if (typeof value === 'bigint') return value.toString()
+  if (typeof value === 'boolean') {
+    if (dialect === 'sqlite') return value ? '1' : '0'
+    return value ? 'TRUE' : 'FALSE'
+  }
+  if (value instanceof Date) return quoteString(value.toISOString(), dialect)
+
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes =
+      value instanceof ArrayBuffer
+        ? new Uint8Array(value)
+        : new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+    return dialect === 'postgres' ? `'\\x${hex}'::bytea` : `X'${hex}'`
+  }
+
+  if (typeof value === 'object') return quoteString(JSON.stringify(value), dialect)
+  return quoteString(String(value), dialect)
+}
+
+function quoteString(value: string, dialect: SqlDialect): string {
+  if (value.includes('\0')) {
+    throw new Error('Cannot bind strings containing NUL characters')
+  }
+  let escaped = value.replace(/'/g, "''")
+  if (dialect === 'mysql') {
+    // MySQL treats backslash as an escape character by default
+    escaped = escaped.replace(/\\/g, '\\\\')
+  }
+  return `'${escaped}'`
+}
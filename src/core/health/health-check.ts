@@ -158,10 +158,12 @@ export class HealthCheckService {
 
         let openCircuits = 0
         let halfOpenCircuits = 0
+        const services: Record<string, string> = {}
 
-        for (const [, stat] of Object.entries(stats)) {
+        for (const [service, stat] of Object.entries(stats)) {
           if (stat.state === 'OPEN') openCircuits++
           if (stat.state === 'HALF_OPEN') halfOpenCircuits++
+          services[service] = stat.state
         }
 
         const status = openCircuits === 0 ? 'healthy' : openCircuits <= 2 ? 'degraded' : 'unhealthy'
@@ -172,7 +174,8 @@ export class HealthCheckService {
           details: {
             totalCircuits: Object.keys(stats).length,
             openCircuits,
-            halfOpenCircuits
+            halfOpenCircuits,
+            services
           }
         }
       } catch (error) {
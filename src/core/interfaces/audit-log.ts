@@ -0,0 +1,60 @@
+/**
+ * Tamper-evident audit log interfaces
+ */
+
+import type { AuditPayload } from '../middleware/interfaces'
+
+export interface AuditLogEntry extends AuditPayload {
+  id: number
+  /** Component that recorded the entry, e.g. 'telegram-audit' */
+  source?: string
+  createdAt: Date
+  prevHash: string
+  hash: string
+}
+
+export interface AuditLogInput extends AuditPayload {
+  source?: string
+  createdAt?: Date
+}
+
+export interface AuditLogFilter {
+  userId?: string
+  /** Exact action, or a prefix ending in '.*' such as 'command.*' */
+  action?: string
+  resource?: string
+  result?: AuditPayload['result']
+  from?: Date
+  /** Exclusive upper bound */
+  to?: Date
+  limit?: number
+  /** Only entries older than this id, for paging newest first */
+  beforeId?: number
+}
+
+export interface AuditLogVerification {
+  valid: boolean
+  checked: number
+  /** First entry whose hash or link doesn't match */
+  brokenAt?: number
+  /** Hash of the newest entry; keep it elsewhere to detect truncation */
+  head: string
+}
+
+/**
+ * How long entries are kept; both limits apply when set
+ */
+export interface AuditRetentionPolicy {
+  maxAgeDays?: number
+  maxEntries?: number
+}
+
+export interface AuditLogService {
+  append(entry: AuditLogInput): Promise<AuditLogEntry>
+  /** Newest first */
+  query(filter?: AuditLogFilter): Promise<AuditLogEntry[]>
+  count(filter?: AuditLogFilter): Promise<number>
+  verify(): Promise<AuditLogVerification>
+  /** Remove the oldest entries outside the policy; returns how many */
+  prune(policy: AuditRetentionPolicy): Promise<number>
+}
@@ -306,8 +306,10 @@ export interface DatabaseAdapter {
 
   /**
    * Run migrations
+   * @deprecated Nothing calls this; run migrations with MigrationRunner
+   * (core/database) over the platform's IDatabaseStore instead
    */
-  migrate(migrations: Migration[]): Promise<void>
+  migrate?(migrations: Migration[]): Promise<void>
 }
 
 export interface QueryResult<T> {
@@ -335,6 +337,9 @@ export interface Migration {
   version: string
   name: string
   up: string
+  /**
+   * Script that undoes `up`; migrations without one can't be rolled back
+   */
   down?: string
 }
 
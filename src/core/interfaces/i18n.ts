@@ -20,12 +20,14 @@ export type TranslationKey = string
 export type Namespace = string
 
 /**
- * Translation parameters for interpolation
+ * Translation parameters for interpolation and ICU arguments
  */
-export type TranslationParams = Record<string, string | number | boolean>
+export type TranslationParams = Record<string, string | number | boolean | Date>
 
 /**
- * Translation value can be a string or a function for complex translations
+ * Translation value can be a string or a function for complex translations.
+ * Strings are ICU MessageFormat ("{count, plural, one {# file} other {# files}}")
+ * and may still use {{name}} placeholders.
  */
 export type TranslationValue = string | ((params: TranslationParams) => string)
 
@@ -77,7 +79,7 @@ export interface TranslationOptions {
 }
 
 /**
- * Pluralization rules for a language
+ * Pluralization rule for a language, one per CLDR plural category
  */
 export interface PluralizationRule {
   /**
@@ -148,6 +150,37 @@ export interface TranslationProvider {
   ): Promise<void>
 }
 
+/**
+ * Translations bound to one language. Created for each update, so handlers
+ * running at the same time never see each other's language.
+ */
+export interface Translator {
+  /**
+   * Language translations default to
+   */
+  readonly language: LanguageCode
+
+  /**
+   * Translate a key with optional parameters
+   */
+  t(key: TranslationKey, options?: TranslationOptions): string
+
+  /**
+   * Check if a translation exists
+   */
+  hasTranslation(key: TranslationKey, options?: TranslationOptions): boolean
+
+  /**
+   * Translator for another language, e.g. after the user switched
+   */
+  withLanguage(language: LanguageCode): Translator
+
+  /**
+   * Languages the user can switch to
+   */
+  getAvailableLanguages(): LanguageCode[]
+}
+
 /**
  * Main i18n connector interface
  */
@@ -158,7 +191,9 @@ export interface I18nConnector extends Connector {
   t(key: TranslationKey, options?: TranslationOptions): string
 
   /**
-   * Set the current language
+   * Set the current language.
+   * The connector is shared across requests; use createTranslator() for
+   * per-user languages.
    */
   setLanguage(language: LanguageCode): Promise<void>
 
@@ -172,6 +207,24 @@ export interface I18nConnector extends Connector {
    */
   getSupportedLanguages(): Promise<LanguageCode[]>
 
+  /**
+   * Languages with translations loaded
+   */
+  getLoadedLanguages(): LanguageCode[]
+
+  /**
+   * Pick the first requested language (e.g. a stored preference, then the
+   * client's language code) that a loaded pack covers; "pt-BR" also matches
+   * "pt". Falls back to the default language.
+   */
+  negotiateLanguage(requested: Array<LanguageCode | null | undefined>): LanguageCode
+
+  /**
+   * Create a translator bound to a language without touching the
+   * connector's current language
+   */
+  createTranslator(language: LanguageCode): Translator
+
   /**
    * Load a namespace
    */
@@ -334,23 +387,3 @@ export type TranslationKeys<T> = T extends TranslationDictionary
         : K
     }[keyof T]
   : never
-
-/**
- * Standard pluralization rules for common languages
- */
-export const STANDARD_PLURALIZATION_RULES: Record<string, PluralizationRule[]> = {
-  en: [
-    { check: n => n === 0, suffix: 'zero' },
-    { check: n => n === 1, suffix: 'one' },
-    { check: () => true, suffix: 'other' }
-  ],
-  ru: [
-    { check: n => n === 0, suffix: 'zero' },
-    { check: n => n % 10 === 1 && n % 100 !== 11, suffix: 'one' },
-    {
-      check: n => [2, 3, 4].includes(n % 10) && ![12, 13, 14].includes(n % 100),
-      suffix: 'few'
-    },
-    { check: () => true, suffix: 'many' }
-  ]
-}
@@ -15,14 +15,15 @@ export interface MessagingConnector extends Connector {
   sendBulk(recipients: string[], message: UnifiedMessage): Promise<BulkMessageResult>
 
   /**
-   * Edit an existing message
+   * Edit an existing message. Pass the `ref` returned by `sendMessage`;
+   * bare message IDs are only accepted where the platform can resolve them.
    */
-  editMessage(messageId: string, message: UnifiedMessage): Promise<MessageResult>
+  editMessage(target: MessageRef | string, message: UnifiedMessage): Promise<MessageResult>
 
   /**
    * Delete a message
    */
-  deleteMessage(messageId: string): Promise<void>
+  deleteMessage(target: MessageRef | string): Promise<void>
 
   /**
    * Handle incoming webhook
@@ -125,6 +126,55 @@ export interface MessageContent {
    * Message type
    */
   type?: MessageType
+
+  /**
+   * Location for location messages
+   */
+  location?: LocationContent
+
+  /**
+   * Contact card for contact messages
+   */
+  contact?: ContactContent
+
+  /**
+   * Poll for poll messages
+   */
+  poll?: PollContent
+}
+
+export interface LocationContent {
+  latitude: number
+  longitude: number
+  horizontal_accuracy?: number
+  /**
+   * Seconds the location is updated for (live location)
+   */
+  live_period?: number
+  /**
+   * Venue name; sent as a venue together with `address`
+   */
+  title?: string
+  address?: string
+}
+
+export interface ContactContent {
+  phone_number: string
+  first_name: string
+  last_name?: string
+  vcard?: string
+}
+
+export interface PollContent {
+  question: string
+  options: string[]
+  is_anonymous?: boolean
+  allows_multiple_answers?: boolean
+  type?: 'regular' | 'quiz'
+  /**
+   * Index of the correct option for quizzes
+   */
+  correct_option_id?: number
 }
 
 export enum MessageType {
@@ -238,6 +288,10 @@ export interface Attachment {
   height?: number
   duration?: number
   thumbnail?: Attachment
+  /**
+   * Key of the file in an object store; connectors with an object store upload it as a stream
+   */
+  storage_key?: string
 }
 
 export enum AttachmentType {
@@ -284,9 +338,32 @@ export interface WebhookOptions {
   drop_pending_updates?: boolean
 }
 
+/**
+ * Everything a platform needs to address a message it sent.
+ * A message is identified either by `chat_id` and `message_id`
+ * or, for Telegram inline messages, by `inline_message_id` alone.
+ */
+export interface MessageRef {
+  platform: Platform
+  /**
+   * Chat, channel or Discord `interaction:<token>` the message was sent to
+   */
+  chat_id?: string
+  message_id?: string
+  /**
+   * Forum topic the message belongs to
+   */
+  thread_id?: string
+  inline_message_id?: string
+}
+
 export interface MessageResult {
   success: boolean
   message_id?: string
+  /**
+   * Reference accepted by `editMessage` and `deleteMessage`
+   */
+  ref?: MessageRef
   error?: Error
 }
 
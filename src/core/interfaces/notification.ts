@@ -30,6 +30,7 @@ export enum NotificationPriority {
  */
 export enum NotificationStatus {
   PENDING = 'pending',
+  SENDING = 'sending',
   SENT = 'sent',
   FAILED = 'failed',
   BLOCKED = 'blocked',
@@ -157,6 +158,34 @@ export interface INotificationConnector {
   getStatus(messageId: string): Promise<NotificationResult | null>
 }
 
+/**
+ * Durable storage for notifications that are scheduled or waiting for a retry.
+ * Retries and future deliveries are driven from here by queue consumers and cron,
+ * so they survive the end of the invocation that created them.
+ */
+export interface INotificationStore {
+  /**
+   * Record the latest delivery result. `dueAt` is when the next attempt should run.
+   */
+  save(message: NotificationMessage, result: NotificationResult, dueAt?: Date): Promise<void>
+
+  /**
+   * Latest delivery result for a message
+   */
+  getResult(messageId: string): Promise<NotificationResult | null>
+
+  /**
+   * Lock a due message for delivery until `leaseUntil`.
+   * Returns null if it is not due or another worker holds it.
+   */
+  claim(messageId: string, now: Date, leaseUntil: Date): Promise<NotificationMessage | null>
+
+  /**
+   * IDs of messages due for delivery, oldest first
+   */
+  listDue(now: Date, limit: number): Promise<string[]>
+}
+
 /**
  * Notification service interface - high-level business logic
  */
@@ -229,6 +258,11 @@ export interface NotificationEvents extends EventBusEvents {
     recipientId: string
     reason: string
   }
+  'notification:scheduled': {
+    messageId: string
+    recipientId: string
+    scheduledAt: Date
+  }
   'notification:batch:started': {
     batchId: string
     totalMessages: number
@@ -275,6 +309,11 @@ export interface INotificationAdapter {
    */
   isRetryableError(error: unknown): boolean
 
+  /**
+   * Delay in milliseconds the platform asked for before retrying, e.g. after a 429
+   */
+  getRetryAfter?(error: unknown): number | undefined
+
   /**
    * Get platform-specific user info
    */
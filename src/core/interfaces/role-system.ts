@@ -55,10 +55,63 @@ export interface RoleEvent {
 }
 
 export interface RolePermission {
-  role: UserRole
+  role: string
   permissions: string[]
 }
 
+/**
+ * Permissions checked by the bot itself. Custom roles may hold any other
+ * dotted name (e.g. 'payments.refund'), a prefix wildcard ('payments.*')
+ * or '*' for everything.
+ */
+export const Permission = {
+  ROLES_MANAGE: 'roles.manage',
+  ADMINS_MANAGE: 'admins.manage',
+  BOT_INFO: 'bot.info',
+  BOT_DEBUG: 'bot.debug',
+  BROADCAST_SEND: 'broadcast.send',
+  ACCESS_REQUESTS: 'access.requests',
+  KNOWLEDGE_MANAGE: 'knowledge.manage',
+  AUDIT_VIEW: 'audit.view',
+  AI_UNLIMITED: 'ai.unlimited'
+} as const
+
+export interface RoleDefinition extends RolePermission {
+  description?: string
+  /** Built-in roles (owner, admin, user) can't be deleted */
+  isSystem: boolean
+  createdBy?: string
+  createdAt: Date
+}
+
+export interface RoleGrant {
+  userId: string
+  role: string
+  /** Chat the grant is limited to, null for every chat */
+  chatId: string | null
+  grantedBy?: string
+  grantedAt: Date
+}
+
+export interface PermissionService {
+  // Checks
+  getPermissions(userId: string, chatId?: string): Promise<string[]>
+  hasPermission(userId: string, permission: string, chatId?: string): Promise<boolean>
+
+  // Roles
+  listRoles(): Promise<RoleDefinition[]>
+  getRole(name: string): Promise<RoleDefinition | null>
+  createRole(name: string, description?: string, createdBy?: string): Promise<RoleDefinition>
+  deleteRole(name: string): Promise<void>
+  allowPermissions(role: string, permissions: string[]): Promise<void>
+  denyPermissions(role: string, permissions: string[]): Promise<void>
+
+  // Grants
+  grantRole(grant: Omit<RoleGrant, 'grantedAt'>): Promise<void>
+  revokeRole(userId: string, role: string, chatId?: string | null): Promise<boolean>
+  getGrants(userId: string): Promise<RoleGrant[]>
+}
+
 export interface RoleHierarchy {
   isHigherThan(roleA: UserRole, roleB: UserRole): boolean
   getHighestRole(roles: UserRole[]): UserRole
@@ -1,6 +1,6 @@
 /**
  * User preference interfaces
- * For managing notification preferences
+ * For managing notification and language preferences
  */
 
 import type { NotificationCategory } from './notification'
@@ -22,4 +22,10 @@ export interface IUserPreferenceService {
     userId: string,
     preferences: Partial<NotificationPreferences>
   ): Promise<void>
+
+  /**
+   * Language the user picked, or null when they never chose one
+   */
+  getLanguage(userId: string): Promise<string | null>
+  setLanguage(userId: string, language: string): Promise<void>
 }
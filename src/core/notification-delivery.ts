@@ -0,0 +1,132 @@
+/**
+ * Notification delivery outside of webhook requests
+ *
+ * Builds the notification connector and the broadcast service used by the
+ * queue consumer and the cron trigger to deliver scheduled notifications,
+ * retries and broadcast campaigns stored in D1.
+ */
+
+import type { Api } from 'grammy'
+import { Bot } from 'grammy'
+
+import { TelegramBroadcastTransport } from '../adapters/telegram/broadcast-transport'
+import { TelegramNotificationAdapter } from '../adapters/telegram/notification-adapter'
+import type { Env } from '../config/env'
+import { I18nFactory } from '../connectors/i18n/i18n-factory'
+import { NotificationConnector } from '../connectors/notification-connector'
+import type { IEventBus } from '../core/interfaces/event-bus'
+import type { I18nConnector, Translator } from '../core/interfaces/i18n'
+import type { IDatabaseStore } from '../core/interfaces/storage'
+import { loggerAdapter } from '../lib/logger-adapter'
+import { type Broadcast, BroadcastService } from '../services/broadcast-service'
+import { CloudflareQueueAdapter } from '../services/queue-adapters/cloudflare-queue-adapter'
+import { QueueService } from '../services/queue-service'
+
+import { getCloudPlatformConnector } from './cloud/cloud-platform-cache'
+import type { EventHandler } from './events/event-bus'
+import { EventBus } from './events/event-bus'
+import { NotificationHistoryStore } from './services/notification-store'
+import { UserPreferenceService } from './services/user-preference-service'
+
+/**
+ * Create a notification connector backed by the notification_history table.
+ * Returns null when the bot token or the database is missing.
+ */
+export function createNotificationConnector(
+  env: Env,
+  eventBus = new EventBus()
+): NotificationConnector | null {
+  if (!env.TELEGRAM_BOT_TOKEN || env.TELEGRAM_BOT_TOKEN === 'demo' || !env.DB) {
+    return null
+  }
+
+  const platform = getCloudPlatformConnector(env)
+
+  return new NotificationConnector({
+    adapter: new TelegramNotificationAdapter({ bot: new Bot(env.TELEGRAM_BOT_TOKEN) }),
+    storage: env.CACHE ? platform.getKeyValueStore('CACHE') : undefined,
+    store: new NotificationHistoryStore(platform.getDatabaseStore('DB')),
+    queue: createDeliveryQueue(env),
+    logger: loggerAdapter,
+    eventBus: toNotificationEventBus(eventBus)
+  })
+}
+
+/**
+ * Create the broadcast service. Pass the bot API when running inside the bot;
+ * otherwise one is created from the token.
+ * Returns null when the bot token or the database is missing.
+ */
+export function createBroadcastService(env: Env, api?: Api): BroadcastService | null {
+  if (!env.TELEGRAM_BOT_TOKEN || env.TELEGRAM_BOT_TOKEN === 'demo' || !env.DB) {
+    return null
+  }
+
+  const db = getCloudPlatformConnector(env).getDatabaseStore('DB')
+  return new BroadcastService({
+    db,
+    transport: new TelegramBroadcastTransport(
+      api ?? new Bot(env.TELEGRAM_BOT_TOKEN).api,
+      createReportTranslator(env, db)
+    ),
+    queue: createDeliveryQueue(env)
+  })
+}
+
+/**
+ * Progress reports are written in the language the campaign's creator picked
+ */
+function createReportTranslator(
+  env: Env,
+  db: IDatabaseStore
+): (broadcast: Broadcast) => Promise<Translator> {
+  const preferences = new UserPreferenceService(db)
+  let i18n: Promise<I18nConnector> | undefined
+
+  return async broadcast => {
+    i18n ??= I18nFactory.createFromEnv(env)
+    const connector = await i18n
+    const preferred = await preferences.getLanguage(broadcast.createdBy).catch(() => null)
+    return connector.createTranslator(connector.negotiateLanguage([preferred]))
+  }
+}
+
+/**
+ * Notifications and broadcast steps share the optional delivery queue
+ */
+function createDeliveryQueue(env: Env): QueueService | undefined {
+  return env.NOTIFICATION_QUEUE
+    ? new QueueService({
+        adapter: new CloudflareQueueAdapter(env.NOTIFICATION_QUEUE),
+        logger: loggerAdapter
+      })
+    : undefined
+}
+
+/**
+ * Adapt the platform event bus to the payload-only interface notifications use
+ */
+function toNotificationEventBus(eventBus: EventBus): IEventBus {
+  const wrapped = new WeakMap<(data: unknown) => void, EventHandler>()
+  const wrap = (handler: (data: unknown) => void) => {
+    const eventHandler: EventHandler = event => handler(event.payload)
+    wrapped.set(handler, eventHandler)
+    return eventHandler
+  }
+
+  return {
+    emit: (event: string, data: unknown) => eventBus.emit(event, data, 'notifications'),
+    on: (event: string, handler: (data: unknown) => void) => {
+      eventBus.on(event, wrap(handler))
+    },
+    once: (event: string, handler: (data: unknown) => void) => {
+      eventBus.once(event, wrap(handler))
+    },
+    off: (event: string, handler: (data: unknown) => void) => {
+      const eventHandler = wrapped.get(handler)
+      if (eventHandler) {
+        eventBus.off(event, eventHandler)
+      }
+    }
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Tests for plugin dependency resolution
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { DependencyNode } from '../dependency-resolver'
+import {
+  checkDependencies,
+  findDependents,
+  PluginDependencyError,
+  resolveInstallOrder
+} from '../dependency-resolver'
+import type { Dependency, Plugin, PluginStorage } from '../plugin'
+import { PluginManager } from '../plugin-manager'
+
+import { CommonEventType, EventBus } from '@/core/events/event-bus'
+
+const node = (id: string, version = '1.0.0', dependencies: Dependency[] = []): DependencyNode => ({
+  id,
+  version,
+  dependencies
+})
+const dep = (id: string, version = '*', optional = false): Dependency => ({ id, version, optional })
+const ids = (nodes: DependencyNode[]) => nodes.map(n => n.id)
+
+describe('checkDependencies', () => {
+  const installed: Record<string, string> = { db: '1.4.0' }
+  const getVersion = (id: string) => installed[id]
+
+  it('should accept installed versions within range', () => {
+    expect(() =>
+      checkDependencies(node('app', '1.0.0', [dep('db', '^1.2.0')]), getVersion)
+    ).not.toThrow()
+  })
+
+  it('should reject incompatible versions with the dependency chain', () => {
+    expect(() =>
+      checkDependencies(node('app', '1.0.0', [dep('db', '^2.0.0')]), getVersion)
+    ).toThrow('Plugin app requires db@^2.0.0, but 1.4.0 is installed (app -> db)')
+  })
+
+  it('should skip missing optional dependencies but check present ones', () => {
+    expect(() =>
+      checkDependencies(node('app', '1.0.0', [dep('metrics', '*', true)]), getVersion)
+    ).not.toThrow()
+    expect(() =>
+      checkDependencies(node('app', '1.0.0', [dep('db', '>=2', true)]), getVersion)
+    ).toThrow(PluginDependencyError)
+  })
+})
+
+describe('resolveInstallOrder', () => {
+  const resolve = (nodes: DependencyNode[], installed: Record<string, string> = {}) =>
+    resolveInstallOrder(
+      nodes,
+      n => n,
+      id => installed[id]
+    )
+
+  it('should order dependencies before dependents', () => {
+    const { ordered, failed } = resolve([
+      node('app', '1.0.0', [dep('cache', '^2.0.0'), dep('db')]),
+      node('cache', '2.1.0', [dep('db', '~1.0.0')]),
+      node('db', '1.0.5')
+    ])
+
+    expect(ids(ordered)).toEqual(['db', 'cache', 'app'])
+    expect(failed).toEqual([])
+  })
+
+  it('should name the full chain for missing transitive dependencies', () => {
+    const { ordered, failed } = resolve([
+      node('app', '1.0.0', [dep('cache')]),
+      node('cache', '1.0.0', [dep('db', '^1.0.0')])
+    ])
+
+    expect(ordered).toEqual([])
+    expect(failed.map(f => f.error.message)).toEqual([
+      'Required dependency db@^1.0.0 not found for plugin cache (app -> cache -> db)',
+      'Dependency cache of plugin app failed to install (app -> cache)'
+    ])
+    expect(failed[0]?.error.chain).toEqual(['app', 'cache', 'db'])
+  })
+
+  it('should check versions of plugins in the same batch', () => {
+    const { failed } = resolve([node('app', '1.0.0', [dep('db', '^2.0.0')]), node('db', '1.0.0')])
+
+    expect(failed[0]?.error.message).toBe(
+      'Plugin app requires db@^2.0.0, but 1.0.0 is provided (app -> db)'
+    )
+  })
+
+  it('should detect cycles', () => {
+    const { ordered, failed } = resolve([
+      node('a', '1.0.0', [dep('b')]),
+      node('b', '1.0.0', [dep('c')]),
+      node('c', '1.0.0', [dep('a')]),
+      node('d')
+    ])
+
+    expect(ids(ordered)).toEqual(['d'])
+    expect(failed[0]?.error.message).toBe('Circular dependency (a -> b -> c -> a)')
+    expect(failed).toHaveLength(3)
+  })
+
+  it('should install plugins whose optional dependencies fail', () => {
+    const { ordered } = resolve([
+      node('app', '1.0.0', [dep('metrics', '*', true)]),
+      node('metrics', '1.0.0', [dep('missing')])
+    ])
+
+    expect(ids(ordered)).toEqual(['app'])
+  })
+})
+
+describe('findDependents', () => {
+  it('should return plugins that require a plugin', () => {
+    const nodes = [
+      node('app', '1.0.0', [dep('db')]),
+      node('stats', '1.0.0', [dep('db', '*', true)]),
+      node('db')
+    ]
+    expect(findDependents('db', nodes)).toEqual(['app'])
+  })
+})
+
+describe('PluginManager dependencies', () => {
+  let manager: PluginManager
+  let eventBus: EventBus
+  let calls: string[]
+
+  const createPlugin = (id: string, version = '1.0.0', dependencies?: Dependency[]): Plugin => ({
+    id,
+    name: id,
+    version,
+    description: '',
+    dependencies,
+    install: vi.fn(async () => {
+      calls.push(`install:${id}`)
+    }),
+    activate: vi.fn(async () => {
+      calls.push(`activate:${id}`)
+    }),
+    deactivate: vi.fn(async () => {
+      calls.push(`deactivate:${id}`)
+    }),
+    uninstall: vi.fn(async () => {})
+  })
+
+  beforeEach(() => {
+    calls = []
+    eventBus = new EventBus({ async: false })
+    manager = new PluginManager(
+      eventBus,
+      { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      () => ({}) as PluginStorage,
+      '/data'
+    )
+  })
+
+  it('should install a batch in dependency order with per-plugin config', async () => {
+    const app = createPlugin('app', '1.0.0', [dep('db', '^1.0.0')])
+    const db = createPlugin('db', '1.3.0')
+
+    await manager.install([app, db], { db: { url: 'sqlite://' } })
+
+    expect(calls).toEqual(['install:db', 'install:app'])
+    expect(vi.mocked(db.install).mock.calls[0]?.[0].config).toEqual({ url: 'sqlite://' })
+  })
+
+  it('should install nothing when a batch cannot be resolved', async () => {
+    const errors: unknown[] = []
+    eventBus.on(CommonEventType.PLUGIN_ERROR, event => errors.push(event.payload))
+
+    await expect(
+      manager.install([
+        createPlugin('a', '1.0.0', [dep('b')]),
+        createPlugin('b', '1.0.0', [dep('a')])
+      ])
+    ).rejects.toThrow('Circular dependency (a -> b -> a)')
+
+    expect(calls).toEqual([])
+    expect(errors).toHaveLength(2)
+  })
+
+  it('should validate semver ranges on single installs', async () => {
+    await manager.install(createPlugin('db', '2.1.0'))
+
+    await expect(
+      manager.install(createPlugin('app', '1.0.0', [dep('db', '~2.0.0')]))
+    ).rejects.toThrow('Plugin app requires db@~2.0.0, but 2.1.0 is installed (app -> db)')
+    await expect(
+      manager.install(createPlugin('api', '1.0.0', [dep('db', '>=2.0.0 <3.0.0')]))
+    ).resolves.toBeUndefined()
+  })
+
+  it('should cascade deactivation to dependents', async () => {
+    await manager.install([
+      createPlugin('db'),
+      createPlugin('cache', '1.0.0', [dep('db')]),
+      createPlugin('app', '1.0.0', [dep('cache')]),
+      createPlugin('stats', '1.0.0', [dep('db', '*', true)])
+    ])
+    for (const id of ['db', 'cache', 'app', 'stats']) {
+      await manager.activate(id)
+    }
+    calls = []
+
+    await manager.deactivate('db')
+
+    expect(calls).toEqual(['deactivate:app', 'deactivate:cache', 'deactivate:db'])
+    expect(manager.isActive('stats')).toBe(true)
+    expect(manager.getActive().map(plugin => plugin.id)).toEqual(['stats'])
+  })
+})
@@ -0,0 +1,307 @@
+/**
+ * Tests for plugin discovery and loading
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { Plugin, PluginStorage } from '../plugin'
+import type { PluginLoaderHost } from '../plugin-loader'
+import { applyConfigSchema, PluginLoader } from '../plugin-loader'
+import { PluginManager } from '../plugin-manager'
+
+import { CommonEventType, EventBus } from '@/core/events/event-bus'
+
+class MemoryHost implements PluginLoaderHost {
+  files = new Map<string, string>()
+  modules = new Map<string, Record<string, unknown>>()
+  packages = new Map<string, string>()
+
+  async readFile(path: string) {
+    return this.files.get(path) ?? null
+  }
+
+  async readDirectory(path: string) {
+    const names = new Set<string>()
+    for (const file of this.files.keys()) {
+      if (file.startsWith(`${path}/`)) {
+        const [name, ...rest] = file.slice(path.length + 1).split('/')
+        if (name && rest.length) names.add(name)
+      }
+    }
+    if (!names.size) throw new Error(`ENOENT: ${path}`)
+    return [...names]
+  }
+
+  async resolvePackage(packageName: string) {
+    const directory = this.packages.get(packageName)
+    if (!directory) throw new Error(`Cannot find module '${packageName}'`)
+    return directory
+  }
+
+  async importModule(path: string) {
+    const module = this.modules.get(path)
+    if (!module) throw new Error(`Cannot find module '${path}'`)
+    return module
+  }
+
+  addPlugin(
+    directory: string,
+    manifest: Record<string, unknown>,
+    module: Record<string, unknown> = { default: createPlugin(manifest) }
+  ) {
+    this.files.set(`${directory}/plugin.json`, JSON.stringify({ main: 'index.js', ...manifest }))
+    const main = ((manifest.main as string) ?? 'index.js').replace(/^\.\//, '')
+    this.modules.set(`${directory}/${main}`, module)
+  }
+}
+
+function createPlugin(manifest: Record<string, unknown>, overrides: Partial<Plugin> = {}): Plugin {
+  return {
+    id: manifest.id as string,
+    name: (manifest.name as string) ?? (manifest.id as string),
+    version: manifest.version as string,
+    description: '',
+    install: vi.fn(async () => {}),
+    activate: vi.fn(async () => {}),
+    deactivate: vi.fn(async () => {}),
+    uninstall: vi.fn(async () => {}),
+    ...overrides
+  }
+}
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+const storageFactory = () => ({}) as PluginStorage
+
+describe('PluginManager loading', () => {
+  let host: MemoryHost
+  let eventBus: EventBus
+  let manager: PluginManager
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    host = new MemoryHost()
+    eventBus = new EventBus({ async: false })
+    manager = new PluginManager(eventBus, logger, storageFactory, '/data', new PluginLoader(host))
+  })
+
+  describe('loadFromDirectory', () => {
+    it('should install plugins from subdirectories', async () => {
+      host.addPlugin('/plugins/greeter', { id: 'greeter', version: '1.0.0' })
+      host.addPlugin('/plugins/echo', { id: 'echo', version: '2.0.0', main: './dist/echo.js' })
+
+      const result = await manager.loadFromDirectory('/plugins')
+
+      expect(result).toEqual({ installed: ['echo', 'greeter'], failed: [] })
+      expect(manager.get('greeter')?.version).toBe('1.0.0')
+      expect(manager.get('echo')).toBeDefined()
+    })
+
+    it('should load a directory that is itself a plugin', async () => {
+      host.addPlugin('/plugins/greeter', { id: 'greeter', version: '1.0.0' })
+
+      const result = await manager.loadFromDirectory('/plugins/greeter')
+
+      expect(result.installed).toEqual(['greeter'])
+    })
+
+    it('should install dependencies first', async () => {
+      host.addPlugin('/plugins/a-app', {
+        id: 'app',
+        version: '1.0.0',
+        dependencies: [{ id: 'db', version: '1.0.0' }]
+      })
+      host.addPlugin('/plugins/b-db', {
+        id: 'db',
+        version: '1.0.0',
+        dependencies: [{ id: 'metrics', version: '*', optional: true }]
+      })
+
+      const result = await manager.loadFromDirectory('/plugins')
+
+      expect(result.installed).toEqual(['db', 'app'])
+      expect(manager.get('app')?.dependencies).toEqual([{ id: 'db', version: '1.0.0' }])
+    })
+
+    it('should accept plugin classes and factories', async () => {
+      const manifest = { id: 'factory', version: '1.0.0' }
+      host.addPlugin('/plugins/factory', manifest, {
+        createPlugin: async () => createPlugin(manifest)
+      })
+
+      class ClassPlugin {
+        id = 'class'
+        name = 'Class'
+        version = '1.0.0'
+        description = ''
+        async install() {}
+        async activate() {}
+        async deactivate() {}
+        async uninstall() {}
+      }
+      host.addPlugin('/plugins/class', { id: 'class', version: '1.0.0' }, { default: ClassPlugin })
+
+      const result = await manager.loadFromDirectory('/plugins')
+
+      expect(result.installed).toEqual(['class', 'factory'])
+    })
+
+    it('should report failures per plugin and install the rest', async () => {
+      const errors: unknown[] = []
+      eventBus.on(CommonEventType.PLUGIN_ERROR, event => errors.push(event.payload))
+
+      host.addPlugin('/plugins/good', { id: 'good', version: '1.0.0' })
+      host.files.set('/plugins/broken/plugin.json', '{ not json')
+      host.addPlugin(
+        '/plugins/mismatch',
+        { id: 'mismatch', version: '1.0.0' },
+        {
+          default: createPlugin({ id: 'other', version: '1.0.0' })
+        }
+      )
+      host.addPlugin('/plugins/needy', {
+        id: 'needy',
+        version: '1.0.0',
+        dependencies: [{ id: 'missing', version: '1.0.0' }]
+      })
+      host.addPlugin(
+        '/plugins/failing',
+        { id: 'failing', version: '1.0.0' },
+        {
+          default: createPlugin(
+            { id: 'failing', version: '1.0.0' },
+            {
+              install: async () => {
+                throw new Error('install failed')
+              }
+            }
+          )
+        }
+      )
+      host.addPlugin('/plugins/dependent', {
+        id: 'dependent',
+        version: '1.0.0',
+        dependencies: [{ id: 'failing', version: '1.0.0' }]
+      })
+
+      const result = await manager.loadFromDirectory('/plugins')
+
+      expect(result.installed).toEqual(['good'])
+      const failures = Object.fromEntries(
+        result.failed.map(failure => [failure.id ?? failure.source, failure.error.message])
+      )
+      expect(failures).toEqual({
+        '/plugins/broken': expect.stringContaining('Invalid plugin.json'),
+        mismatch: 'Entry point exports plugin other, expected mismatch',
+        needy: 'Required dependency missing@1.0.0 not found for plugin needy (needy -> missing)',
+        failing: 'install failed',
+        dependent: 'Dependency failing of plugin dependent failed to install (dependent -> failing)'
+      })
+      expect(errors).toHaveLength(5)
+    })
+
+    it('should report a missing directory', async () => {
+      const result = await manager.loadFromDirectory('/missing')
+
+      expect(result.installed).toEqual([])
+      expect(result.failed[0]).toMatchObject({ source: '/missing' })
+    })
+
+    it('should validate configuration against the manifest schema', async () => {
+      host.addPlugin('/plugins/greeter', {
+        id: 'greeter',
+        version: '1.0.0',
+        configSchema: {
+          type: 'object',
+          properties: {
+            greeting: { type: 'string', default: 'Hello' },
+            times: { type: 'integer' }
+          },
+          required: ['times']
+        }
+      })
+      const install = vi.spyOn(manager, 'install')
+
+      const invalid = await manager.loadFromDirectory('/plugins', {
+        config: { greeter: { times: 'twice' } }
+      })
+      expect(invalid.failed[0]?.error.message).toBe(
+        'Invalid configuration: times must be of type integer'
+      )
+
+      const valid = await manager.loadFromDirectory('/plugins', {
+        config: { greeter: { times: 2 } }
+      })
+      expect(valid.installed).toEqual(['greeter'])
+      expect(install).toHaveBeenCalledWith(expect.anything(), { greeting: 'Hello', times: 2 })
+    })
+  })
+
+  describe('loadFromPackage', () => {
+    it('should load the plugin declared in package.json', async () => {
+      const directory = '/node_modules/wireframe-plugin-greeter'
+      host.packages.set('wireframe-plugin-greeter', directory)
+      host.files.set(
+        `${directory}/package.json`,
+        JSON.stringify({
+          name: 'wireframe-plugin-greeter',
+          version: '1.2.0',
+          main: 'dist/index.js',
+          wireframe: { id: 'greeter' }
+        })
+      )
+      host.modules.set(`${directory}/dist/index.js`, {
+        plugin: createPlugin({ id: 'greeter', version: '1.2.0' })
+      })
+
+      const result = await manager.loadFromPackage('wireframe-plugin-greeter')
+
+      expect(result).toEqual({ installed: ['greeter'], failed: [] })
+    })
+
+    it('should report packages without a plugin manifest', async () => {
+      host.packages.set('lodash', '/node_modules/lodash')
+      host.files.set('/node_modules/lodash/package.json', JSON.stringify({ name: 'lodash' }))
+
+      const result = await manager.loadFromPackage('lodash')
+
+      expect(result.failed).toEqual([
+        {
+          source: 'lodash',
+          error: new Error('Package lodash does not contain a plugin manifest')
+        }
+      ])
+    })
+
+    it('should report version mismatches between manifest and plugin', async () => {
+      host.packages.set('greeter', '/node_modules/greeter')
+      host.files.set(
+        '/node_modules/greeter/package.json',
+        JSON.stringify({ version: '2.0.0', wireframe: { id: 'greeter' } })
+      )
+      host.modules.set('/node_modules/greeter/index.js', {
+        default: createPlugin({ id: 'greeter', version: '1.0.0' })
+      })
+
+      const result = await manager.loadFromPackage('greeter')
+
+      expect(result.failed[0]?.error.message).toBe(
+        'Plugin greeter version 1.0.0 does not match manifest version 2.0.0'
+      )
+    })
+  })
+})
+
+describe('applyConfigSchema', () => {
+  it('should reject unknown and invalid properties', () => {
+    expect(() =>
+      applyConfigSchema(
+        {
+          type: 'object',
+          properties: { mode: { enum: ['fast', 'safe'] } },
+          additionalProperties: false
+        },
+        { mode: 'slow', extra: true }
+      )
+    ).toThrow('Invalid configuration: mode must be one of fast, safe; extra is not allowed')
+  })
+})
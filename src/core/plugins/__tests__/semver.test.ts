@@ -0,0 +1,98 @@
+/**
+ * Tests for semver range matching
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { SemVer } from '../semver'
+import { compareVersions, isValidRange, parseVersion, satisfies } from '../semver'
+
+describe('semver', () => {
+  describe('parseVersion', () => {
+    it('should parse versions with prerelease and build metadata', () => {
+      expect(parseVersion('v1.2.3-beta.2+build.5')).toEqual({
+        major: 1,
+        minor: 2,
+        patch: 3,
+        prerelease: ['beta', 2]
+      })
+      expect(parseVersion('1.2')).toBeNull()
+    })
+  })
+
+  describe('compareVersions', () => {
+    it('should follow semver precedence', () => {
+      const ordered = [
+        '1.0.0-alpha',
+        '1.0.0-alpha.1',
+        '1.0.0-alpha.beta',
+        '1.0.0-beta',
+        '1.0.0-beta.2',
+        '1.0.0-beta.11',
+        '1.0.0-rc.1',
+        '1.0.0',
+        '1.0.1',
+        '1.1.0',
+        '2.0.0'
+      ]
+      const parsed = ordered.map(version => parseVersion(version) as SemVer)
+
+      parsed.slice(1).forEach((version, index) => {
+        const previous = parsed[index] as SemVer
+        expect(compareVersions(previous, version)).toBeLessThan(0)
+        expect(compareVersions(version, previous)).toBeGreaterThan(0)
+      })
+    })
+  })
+
+  describe('satisfies', () => {
+    it.each([
+      ['1.2.3', '1.2.3', true],
+      ['1.2.4', '1.2.3', false],
+      ['1.2.3', '=1.2.3', true],
+      ['1.9.0', '^1.2.3', true],
+      ['2.0.0', '^1.2.3', false],
+      ['1.2.2', '^1.2.3', false],
+      ['0.2.5', '^0.2.3', true],
+      ['0.3.0', '^0.2.3', false],
+      ['0.0.3', '^0.0.3', true],
+      ['0.0.4', '^0.0.3', false],
+      ['1.2.9', '~1.2.3', true],
+      ['1.3.0', '~1.2.3', false],
+      ['1.9.0', '~1', true],
+      ['1.5.0', '>=1.2.0', true],
+      ['1.1.0', '>=1.2.0', false],
+      ['1.2.0', '>1.2.0', false],
+      ['1.9.9', '<2.0.0', true],
+      ['2.0.0', '<=2.0.0', true],
+      ['1.5.0', '>=1.0.0 <2.0.0', true],
+      ['2.5.0', '>=1.0.0 <2.0.0', false],
+      ['3.1.0', '^1.0.0 || ^3.0.0', true],
+      ['2.1.0', '^1.0.0 || ^3.0.0', false],
+      ['1.4.0', '1.x', true],
+      ['1.2.7', '1.2.*', true],
+      ['1.3.0', '1.2.x', false],
+      ['2.9.0', '1.0.0 - 2', true],
+      ['3.0.0', '1.0.0 - 2', false],
+      ['2.0.0', '1.0.0 - 2.0.0', true],
+      ['5.0.0', '*', true],
+      ['5.0.0', 'latest', true],
+      ['2.0.0', '> 1.5', true]
+    ])('%s satisfies %s: %s', (version, range, expected) => {
+      expect(satisfies(version, range)).toBe(expected)
+    })
+
+    it('should only match prereleases of versions named in the range', () => {
+      expect(satisfies('1.2.3-beta.2', '^1.2.3-beta.1')).toBe(true)
+      expect(satisfies('1.3.0-beta.1', '^1.2.3-beta.1')).toBe(false)
+      expect(satisfies('2.0.0-rc.1', '^1.0.0')).toBe(false)
+      expect(satisfies('1.0.0-rc.1', '*')).toBe(true)
+    })
+
+    it('should reject invalid versions and ranges', () => {
+      expect(satisfies('not-a-version', '*')).toBe(false)
+      expect(isValidRange('^1.2.3 || >=2')).toBe(true)
+      expect(isValidRange('^one')).toBe(false)
+    })
+  })
+})
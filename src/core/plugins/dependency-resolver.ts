@@ -0,0 +1,140 @@
+import type { Dependency } from './plugin.js'
+import { satisfies } from './semver.js'
+
+/**
+ * Anything that declares an ID, a version and dependencies (plugins, manifests)
+ */
+export interface DependencyNode {
+  id: string
+  version: string
+  dependencies?: Dependency[]
+}
+
+/**
+ * Dependency error carrying the chain of plugin IDs that led to it
+ */
+export class PluginDependencyError extends Error {
+  constructor(
+    message: string,
+    public chain: string[]
+  ) {
+    super(`${message} (${chain.join(' -> ')})`)
+    this.name = 'PluginDependencyError'
+  }
+}
+
+/**
+ * Check a plugin's dependencies against the installed plugins
+ */
+export function checkDependencies(
+  node: DependencyNode,
+  getInstalledVersion: (id: string) => string | undefined,
+  chain: string[] = []
+): void {
+  for (const dep of node.dependencies ?? []) {
+    const installed = getInstalledVersion(dep.id)
+    const depChain = [...chain, node.id, dep.id]
+
+    if (installed === undefined) {
+      if (!dep.optional) {
+        throw new PluginDependencyError(
+          `Required dependency ${dep.id}@${dep.version} not found for plugin ${node.id}`,
+          depChain
+        )
+      }
+    } else if (!satisfies(installed, dep.version)) {
+      // Optional dependencies are not required, but must be compatible when present
+      throw new PluginDependencyError(
+        `Plugin ${node.id} requires ${dep.id}@${dep.version}, but ${installed} is installed`,
+        depChain
+      )
+    }
+  }
+}
+
+/**
+ * Order a batch so that dependencies come first.
+ * Items with missing or incompatible dependencies, dependency cycles or failed
+ * dependencies are returned as failures; the rest can be installed in order.
+ */
+export function resolveInstallOrder<T>(
+  items: T[],
+  getNode: (item: T) => DependencyNode,
+  getInstalledVersion: (id: string) => string | undefined
+): { ordered: T[]; failed: Array<{ item: T; error: PluginDependencyError }> } {
+  const byId = new Map(items.map(item => [getNode(item).id, item]))
+  const ordered: T[] = []
+  const failed: Array<{ item: T; error: PluginDependencyError }> = []
+  const done = new Set<string>()
+  const failedIds = new Set<string>()
+
+  const visit = (item: T, path: string[]): boolean => {
+    const node = getNode(item)
+    if (done.has(node.id)) return true
+    if (failedIds.has(node.id)) return false
+
+    const fail = (error: PluginDependencyError) => {
+      failedIds.add(node.id)
+      failed.push({ item, error })
+      return false
+    }
+
+    if (path.includes(node.id)) {
+      return fail(new PluginDependencyError('Circular dependency', [...path, node.id]))
+    }
+
+    const batchDependencies: Dependency[] = []
+    const externalDependencies: Dependency[] = []
+    for (const dep of node.dependencies ?? []) {
+      ;(byId.has(dep.id) ? batchDependencies : externalDependencies).push(dep)
+    }
+
+    try {
+      checkDependencies({ ...node, dependencies: externalDependencies }, getInstalledVersion, path)
+    } catch (error) {
+      return fail(error as PluginDependencyError)
+    }
+
+    for (const dep of batchDependencies) {
+      const depItem = byId.get(dep.id) as T
+      const depVersion = getNode(depItem).version
+      const chain = [...path, node.id, dep.id]
+
+      if (!satisfies(depVersion, dep.version)) {
+        return fail(
+          new PluginDependencyError(
+            `Plugin ${node.id} requires ${dep.id}@${dep.version}, but ${depVersion} is provided`,
+            chain
+          )
+        )
+      }
+
+      if (!visit(depItem, [...path, node.id]) && !dep.optional) {
+        // A cycle through this node has already recorded its failure
+        if (failedIds.has(node.id)) return false
+        return fail(
+          new PluginDependencyError(
+            `Dependency ${dep.id} of plugin ${node.id} failed to install`,
+            chain
+          )
+        )
+      }
+    }
+
+    done.add(node.id)
+    ordered.push(item)
+    return true
+  }
+
+  items.forEach(item => visit(item, []))
+  return { ordered, failed }
+}
+
+/**
+ * IDs of nodes that require `id` (optional dependencies excluded)
+ */
+export function findDependents(id: string, nodes: DependencyNode[]): string[] {
+  return nodes
+    .filter(node => node.dependencies?.some(dep => dep.id === id && !dep.optional))
+    .map(node => node.id)
+}
@@ -2,5 +2,9 @@
  * Plugin system exports
  */
 
+export { PluginDependencyError } from './dependency-resolver.js'
+export { PluginLoader, createNodePluginLoaderHost } from './plugin-loader.js'
+export type { PluginLoaderHost } from './plugin-loader.js'
 export { PluginManager } from './plugin-manager.js'
 export * from './plugin.js'
+export { satisfies } from './semver.js'
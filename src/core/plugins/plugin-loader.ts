@@ -0,0 +1,323 @@
+import type { ConfigSchema, Dependency, Plugin, PluginManifest } from './plugin.js'
+
+const MANIFEST_FILE = 'plugin.json'
+const PACKAGE_FILE = 'package.json'
+
+/**
+ * File system and module access used to discover plugins.
+ * Workers have no file system, so hosts are injectable; Node is the default.
+ */
+export interface PluginLoaderHost {
+  /**
+   * Read a text file, resolving to null when it does not exist
+   */
+  readFile(path: string): Promise<string | null>
+
+  /**
+   * List subdirectory names of a directory
+   */
+  readDirectory(path: string): Promise<string[]>
+
+  /**
+   * Resolve the directory of an installed npm package
+   */
+  resolvePackage(packageName: string): Promise<string>
+
+  /**
+   * Import a module by absolute path
+   */
+  importModule(path: string): Promise<Record<string, unknown>>
+}
+
+/**
+ * A manifest discovered on disk
+ */
+export interface DiscoveredPlugin {
+  manifest: PluginManifest
+  /**
+   * Directory containing the manifest
+   */
+  directory: string
+  /**
+   * Directory or package name the plugin was discovered from
+   */
+  source: string
+}
+
+export class PluginLoader {
+  constructor(private host: PluginLoaderHost = createNodePluginLoaderHost()) {}
+
+  /**
+   * Find plugin manifests in a directory: the directory itself or its subdirectories.
+   * Invalid manifests are returned as errors instead of aborting discovery.
+   */
+  async discoverDirectory(
+    directory: string
+  ): Promise<Array<DiscoveredPlugin | { source: string; error: Error }>> {
+    const own = await this.readManifest(directory)
+    if (own) return [own]
+
+    const results: Array<DiscoveredPlugin | { source: string; error: Error }> = []
+    for (const name of (await this.host.readDirectory(directory)).sort()) {
+      const pluginDir = joinPath(directory, name)
+      try {
+        const discovered = await this.readManifest(pluginDir)
+        if (discovered) results.push(discovered)
+      } catch (error) {
+        results.push({ source: pluginDir, error: toError(error) })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Read the plugin manifest of an installed npm package
+   */
+  async discoverPackage(packageName: string): Promise<DiscoveredPlugin> {
+    const directory = await this.host.resolvePackage(packageName)
+    const discovered = await this.readManifest(directory, packageName)
+    if (!discovered) {
+      throw new Error(`Package ${packageName} does not contain a plugin manifest`)
+    }
+    return discovered
+  }
+
+  /**
+   * Import the entry point and return the plugin it exports
+   */
+  async load(discovered: DiscoveredPlugin): Promise<Plugin> {
+    const { manifest, directory } = discovered
+    const module = await this.host.importModule(joinPath(directory, manifest.main))
+    const plugin = await resolvePluginExport(module)
+
+    if (!plugin) {
+      throw new Error(`Entry point ${manifest.main} does not export a plugin`)
+    }
+    if (plugin.id !== manifest.id) {
+      throw new Error(`Entry point exports plugin ${plugin.id}, expected ${manifest.id}`)
+    }
+    if (plugin.version !== manifest.version) {
+      throw new Error(
+        `Plugin ${manifest.id} version ${plugin.version} does not match manifest version ${manifest.version}`
+      )
+    }
+
+    // Manifest dependencies apply to plugins that do not declare their own
+    if (!plugin.dependencies && manifest.dependencies) {
+      plugin.dependencies = manifest.dependencies
+    }
+    return plugin
+  }
+
+  private async readManifest(
+    directory: string,
+    source = directory
+  ): Promise<DiscoveredPlugin | null> {
+    const manifestJson = await this.host.readFile(joinPath(directory, MANIFEST_FILE))
+    if (manifestJson !== null) {
+      return { manifest: parseManifest(parseJson(manifestJson, MANIFEST_FILE)), directory, source }
+    }
+
+    // Packages declare the plugin in the `wireframe` field of package.json
+    const packageJson = await this.host.readFile(joinPath(directory, PACKAGE_FILE))
+    if (packageJson === null) return null
+
+    const pkg = parseJson(packageJson, PACKAGE_FILE)
+    if (!isRecord(pkg.wireframe)) return null
+
+    return {
+      manifest: parseManifest({
+        name: pkg.name,
+        version: pkg.version,
+        description: pkg.description,
+        main: pkg.main ?? 'index.js',
+        ...pkg.wireframe
+      }),
+      directory,
+      source
+    }
+  }
+}
+
+/**
+ * Validate plugin configuration against its schema and apply defaults
+ */
+export function applyConfigSchema(
+  schema: ConfigSchema | undefined,
+  config: Record<string, unknown>
+): Record<string, unknown> {
+  if (!schema) return config
+
+  const result: Record<string, unknown> = { ...config }
+  const errors: string[] = []
+
+  for (const [key, definition] of Object.entries(schema.properties)) {
+    const property = isRecord(definition) ? definition : {}
+    if (result[key] === undefined && property.default !== undefined) {
+      result[key] = property.default
+    }
+
+    const value = result[key]
+    if (value === undefined) continue
+
+    if (typeof property.type === 'string' && !matchesType(value, property.type)) {
+      errors.push(`${key} must be of type ${property.type}`)
+    } else if (Array.isArray(property.enum) && !property.enum.includes(value)) {
+      errors.push(`${key} must be one of ${property.enum.join(', ')}`)
+    }
+  }
+
+  for (const key of schema.required ?? []) {
+    if (result[key] === undefined) errors.push(`${key} is required`)
+  }
+
+  if (schema.additionalProperties === false) {
+    for (const key of Object.keys(result)) {
+      if (!(key in schema.properties)) errors.push(`${key} is not allowed`)
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid configuration: ${errors.join('; ')}`)
+  }
+  return result
+}
+
+/**
+ * Default host for Node.js (CLI tools, tests, Node deployments)
+ */
+export function createNodePluginLoaderHost(): PluginLoaderHost {
+  return {
+    async readFile(path) {
+      const fs = await import('node:fs/promises')
+      try {
+        return await fs.readFile(path, 'utf8')
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async readDirectory(path) {
+      const fs = await import('node:fs/promises')
+      const entries = await fs.readdir(path, { withFileTypes: true })
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name)
+    },
+
+    async resolvePackage(packageName) {
+      const { createRequire } = await import('node:module')
+      const { dirname, join } = await import('node:path')
+      const require = createRequire(join(process.cwd(), PACKAGE_FILE))
+      return dirname(require.resolve(`${packageName}/${PACKAGE_FILE}`))
+    },
+
+    async importModule(path) {
+      const { pathToFileURL } = await import('node:url')
+      return (await import(pathToFileURL(path).href)) as Record<string, unknown>
+    }
+  }
+}
+
+/**
+ * Accepts a plugin instance, a plugin class or a (possibly async) factory
+ * exported as `default`, `plugin` or `createPlugin`
+ */
+async function resolvePluginExport(module: Record<string, unknown>): Promise<Plugin | null> {
+  for (const candidate of [module.default, module.plugin, module.createPlugin]) {
+    if (isPlugin(candidate)) return candidate
+
+    if (typeof candidate === 'function') {
+      const prototype = (candidate as { prototype?: Record<string, unknown> }).prototype
+      const created =
+        typeof prototype?.install === 'function'
+          ? new (candidate as new () => unknown)()
+          : await (candidate as () => unknown)()
+      if (isPlugin(created)) return created
+    }
+  }
+  return null
+}
+
+function isPlugin(value: unknown): value is Plugin {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.version === 'string' &&
+    (['install', 'activate', 'deactivate', 'uninstall'] as const).every(
+      method => typeof value[method] === 'function'
+    )
+  )
+}
+
+function parseManifest(value: Record<string, unknown>): PluginManifest {
+  const { id, version, main } = value
+  if (typeof id !== 'string' || !id) throw new Error('Plugin manifest is missing "id"')
+  if (typeof version !== 'string' || !version) {
+    throw new Error(`Plugin manifest for ${id} is missing "version"`)
+  }
+  if (typeof main !== 'string' || !main) {
+    throw new Error(`Plugin manifest for ${id} is missing "main"`)
+  }
+
+  const dependencies = value.dependencies ?? []
+  if (!Array.isArray(dependencies) || !dependencies.every(isDependency)) {
+    throw new Error(`Plugin manifest for ${id} has invalid "dependencies"`)
+  }
+
+  return {
+    id,
+    version,
+    main,
+    name: typeof value.name === 'string' ? value.name : undefined,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    dependencies,
+    configSchema: isRecord(value.configSchema)
+      ? (value.configSchema as unknown as ConfigSchema)
+      : undefined
+  }
+}
+
+function isDependency(value: unknown): value is Dependency {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.version === 'string'
+}
+
+function parseJson(json: string, file: string): Record<string, unknown> {
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch (error) {
+    throw new Error(`Invalid ${file}: ${toError(error).message}`)
+  }
+  if (!isRecord(value)) throw new Error(`Invalid ${file}: expected an object`)
+  return value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return isRecord(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'null':
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function joinPath(...parts: string[]): string {
+  return parts
+    .join('/')
+    .replace(/\/\.\//g, '/')
+    .replace(/\/{2,}/g, '/')
+}
+
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
@@ -2,12 +2,23 @@ import { FieldMapper } from '../database/field-mapper.js'
 import { CommonEventType, EventBus } from '../events/event-bus.js'
 import type { Connector } from '../interfaces/connector.js'
 
+import {
+  checkDependencies,
+  findDependents,
+  PluginDependencyError,
+  resolveInstallOrder
+} from './dependency-resolver.js'
+import type { DiscoveredPlugin } from './plugin-loader.js'
+import { applyConfigSchema, PluginLoader, toError } from './plugin-loader.js'
 import type {
   PluginManager as IPluginManager,
   Logger,
   Plugin,
   PluginCommand,
   PluginContext,
+  PluginLoadFailure,
+  PluginLoadOptions,
+  PluginLoadResult,
   PluginMetadata,
   PluginMiddleware,
   PluginStorage
@@ -53,10 +64,17 @@ export class PluginManager implements IPluginManager {
     private eventBus: EventBus,
     private logger: Logger,
     private storageFactory: (pluginId: string) => PluginStorage,
-    private dataDir: string
+    private dataDir: string,
+    private loader: PluginLoader = new PluginLoader()
   ) {}
 
-  async install(plugin: Plugin, config: Record<string, unknown> = {}): Promise<void> {
+  async install(plugin: Plugin, config?: Record<string, unknown>): Promise<void>
+  async install(plugins: Plugin[], configs?: Record<string, Record<string, unknown>>): Promise<void>
+  async install(plugin: Plugin | Plugin[], config: Record<string, unknown> = {}): Promise<void> {
+    if (Array.isArray(plugin)) {
+      return this.installBatch(plugin, config as Record<string, Record<string, unknown>>)
+    }
+
     try {
       // Check if already installed
       if (this.plugins.has(plugin.id)) {
@@ -64,7 +82,7 @@ export class PluginManager implements IPluginManager {
       }
 
       // Validate dependencies
-      await this.validateDependencies(plugin)
+      checkDependencies(plugin, id => this.plugins.get(id)?.version)
 
       // Create plugin context
       const context = this.createPluginContext(plugin, config)
@@ -99,6 +117,37 @@ export class PluginManager implements IPluginManager {
     }
   }
 
+  /**
+   * Install plugins in dependency order. Nothing is installed when any
+   * plugin's dependencies cannot be resolved.
+   */
+  private async installBatch(
+    plugins: Plugin[],
+    configs: Record<string, Record<string, unknown>>
+  ): Promise<void> {
+    const { ordered, failed } = resolveInstallOrder(
+      plugins,
+      plugin => plugin,
+      id => this.plugins.get(id)?.version
+    )
+
+    if (failed.length) {
+      for (const { item, error } of failed) {
+        this.pluginStates.set(item.id, PluginState.ERROR)
+        this.eventBus.emit(
+          CommonEventType.PLUGIN_ERROR,
+          { plugin: item.id, error },
+          'PluginManager'
+        )
+      }
+      throw (failed[0] as (typeof failed)[number]).error
+    }
+
+    for (const plugin of ordered) {
+      await this.install(plugin, configs[plugin.id] ?? {})
+    }
+  }
+
   async uninstall(pluginId: string): Promise<void> {
     const plugin = this.plugins.get(pluginId)
     if (!plugin) {
@@ -169,6 +218,13 @@ export class PluginManager implements IPluginManager {
       throw new Error(`Plugin ${pluginId} is not active`)
     }
 
+    // Dependents cannot run without this plugin, so they go first
+    for (const dependentId of findDependents(pluginId, this.getAll())) {
+      if (this.isActive(dependentId)) {
+        await this.deactivate(dependentId)
+      }
+    }
+
     try {
       await plugin.deactivate()
       this.pluginStates.set(pluginId, PluginState.INACTIVE)
@@ -220,14 +276,125 @@ export class PluginManager implements IPluginManager {
     this.logger.info(`Plugin ${plugin.name} configuration updated`)
   }
 
-  async loadFromDirectory(_directory: string): Promise<void> {
-    // This would be implemented to scan directory for plugins
-    throw new Error('Not implemented')
+  async loadFromDirectory(
+    directory: string,
+    options: PluginLoadOptions = {}
+  ): Promise<PluginLoadResult> {
+    const result: PluginLoadResult = { installed: [], failed: [] }
+    const discovered: DiscoveredPlugin[] = []
+
+    try {
+      for (const entry of await this.loader.discoverDirectory(directory)) {
+        if ('error' in entry) {
+          this.reportLoadFailure(result, { source: entry.source, error: entry.error })
+        } else {
+          discovered.push(entry)
+        }
+      }
+    } catch (error) {
+      this.reportLoadFailure(result, { source: directory, error: toError(error) })
+      return result
+    }
+
+    await this.installDiscovered(discovered, options, result)
+    return result
+  }
+
+  async loadFromPackage(
+    packageName: string,
+    options: PluginLoadOptions = {}
+  ): Promise<PluginLoadResult> {
+    const result: PluginLoadResult = { installed: [], failed: [] }
+
+    try {
+      const discovered = await this.loader.discoverPackage(packageName)
+      await this.installDiscovered([discovered], options, result)
+    } catch (error) {
+      this.reportLoadFailure(result, { source: packageName, error: toError(error) })
+    }
+
+    return result
+  }
+
+  /**
+   * Install discovered plugins in dependency order, collecting failures per plugin
+   */
+  private async installDiscovered(
+    discovered: DiscoveredPlugin[],
+    options: PluginLoadOptions,
+    result: PluginLoadResult
+  ): Promise<void> {
+    const { ordered, failed } = resolveInstallOrder(
+      discovered,
+      entry => entry.manifest,
+      id => this.plugins.get(id)?.version
+    )
+    for (const { item, error } of failed) {
+      this.reportLoadFailure(result, { id: item.manifest.id, source: item.source, error })
+    }
+
+    const failedIds = new Set(result.failed.map(failure => failure.id))
+    for (const entry of ordered) {
+      const { id, dependencies, configSchema } = entry.manifest
+
+      // Dependencies ordered earlier may still fail at install time
+      const failedDependency = dependencies?.find(dep => !dep.optional && failedIds.has(dep.id))
+      if (failedDependency) {
+        failedIds.add(id)
+        this.reportLoadFailure(result, {
+          id,
+          source: entry.source,
+          error: new PluginDependencyError(
+            `Dependency ${failedDependency.id} of plugin ${id} failed to install`,
+            [id, failedDependency.id]
+          )
+        })
+        continue
+      }
+
+      let plugin: Plugin
+      let config: Record<string, unknown>
+      try {
+        plugin = await this.loader.load(entry)
+        config = applyConfigSchema(
+          configSchema ?? plugin.getConfigSchema?.(),
+          options.config?.[id] ?? {}
+        )
+      } catch (error) {
+        failedIds.add(id)
+        this.reportLoadFailure(result, { id, source: entry.source, error: toError(error) })
+        continue
+      }
+
+      try {
+        await this.install(plugin, config)
+        result.installed.push(id)
+      } catch (error) {
+        // install() has already emitted PLUGIN_ERROR
+        failedIds.add(id)
+        this.reportLoadFailure(result, { id, source: entry.source, error: toError(error) }, false)
+      }
+    }
   }
 
-  async loadFromPackage(_packageName: string): Promise<void> {
-    // This would be implemented to load plugin from npm package
-    throw new Error('Not implemented')
+  private reportLoadFailure(
+    result: PluginLoadResult,
+    failure: PluginLoadFailure,
+    emitEvent = true
+  ): void {
+    result.failed.push(failure)
+    this.logger.error(`Failed to load plugin ${failure.id ?? failure.source}`, {
+      source: failure.source,
+      error: failure.error.message
+    })
+
+    if (emitEvent) {
+      this.eventBus.emit(
+        CommonEventType.PLUGIN_ERROR,
+        { plugin: failure.id, source: failure.source, error: failure.error },
+        'PluginManager'
+      )
+    }
   }
 
   registerCommand(command: PluginCommand): void {
@@ -306,69 +473,17 @@ export class PluginManager implements IPluginManager {
   /**
    * Load all plugins from the configured directory
    */
-  async loadPlugins(pluginDir?: string): Promise<void> {
+  async loadPlugins(pluginDir?: string, options?: PluginLoadOptions): Promise<PluginLoadResult> {
     const dir = pluginDir || this.dataDir
+    this.logger.info(`Loading plugins from ${dir}`)
 
-    try {
-      // In production, plugins would be loaded from a directory or registry
-      // For now, we'll emit an event that plugins are loaded
-      this.logger.info(`Loading plugins from ${dir}`)
-
-      // Emit event that plugin loading started
-      this.eventBus.emit(
-        CommonEventType.PLUGIN_LOADED,
-        { message: 'Plugin loading started' },
-        'PluginManager'
-      )
-
-      // In a real implementation, we would:
-      // 1. Scan the plugin directory
-      // 2. Load plugin manifests
-      // 3. Validate and install each plugin
-      // 4. Handle dependencies
+    const result = await this.loadFromDirectory(dir, options)
 
-      this.logger.info('Plugin loading completed')
-    } catch (error) {
-      this.logger.error('Failed to load plugins', error as Record<string, unknown>)
-      this.eventBus.emit(
-        CommonEventType.PLUGIN_ERROR,
-        { error: error instanceof Error ? error.message : String(error) },
-        'PluginManager'
-      )
-    }
-  }
-
-  private async validateDependencies(plugin: Plugin): Promise<void> {
-    if (!plugin.dependencies) return
-
-    for (const dep of plugin.dependencies) {
-      const depPlugin = this.plugins.get(dep.id)
-      if (!depPlugin && !dep.optional) {
-        throw new Error(`Required dependency ${dep.id} not found for plugin ${plugin.id}`)
-      }
-
-      // Validate version requirements
-      if (depPlugin && dep.version) {
-        const installedVersion = depPlugin.version
-        if (!this.isVersionCompatible(installedVersion, dep.version)) {
-          throw new Error(
-            `Plugin ${plugin.id} requires ${dep.id}@${dep.version}, but ${installedVersion} is installed`
-          )
-        }
-      }
-    }
-  }
-
-  /**
-   * Check if installed version satisfies the required version
-   */
-  private isVersionCompatible(installed: string, required: string): boolean {
-    // Simple version comparison - in production, use semver
-    // For now, just check if versions match exactly or if no specific version is required
-    if (required === '*' || required === 'latest') {
-      return true
-    }
-    return installed === required
+    this.logger.info('Plugin loading completed', {
+      installed: result.installed.length,
+      failed: result.failed.length
+    })
+    return result
   }
 
   private registerPluginComponents(plugin: Plugin): void {
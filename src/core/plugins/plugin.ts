@@ -93,7 +93,7 @@ export interface Dependency {
   id: string
 
   /**
-   * Version requirement
+   * Version requirement (semver range, e.g. `^1.2.0`)
    */
   version: string
 
@@ -270,6 +270,82 @@ export interface ConfigSchema {
   additionalProperties?: boolean
 }
 
+/**
+ * Plugin manifest (`plugin.json`, or the `wireframe` field of a package.json)
+ */
+export interface PluginManifest {
+  /**
+   * Plugin ID (must match the ID of the exported plugin)
+   */
+  id: string
+
+  /**
+   * Plugin version
+   */
+  version: string
+
+  /**
+   * Entry point, relative to the manifest
+   */
+  main: string
+
+  /**
+   * Plugin name
+   */
+  name?: string
+
+  /**
+   * Plugin description
+   */
+  description?: string
+
+  /**
+   * Plugin dependencies
+   */
+  dependencies?: Dependency[]
+
+  /**
+   * Configuration schema
+   */
+  configSchema?: ConfigSchema
+}
+
+export interface PluginLoadOptions {
+  /**
+   * Configuration per plugin ID
+   */
+  config?: Record<string, Record<string, unknown>>
+}
+
+export interface PluginLoadFailure {
+  /**
+   * Plugin ID, when the manifest could be read
+   */
+  id?: string
+
+  /**
+   * Directory or package the plugin was loaded from
+   */
+  source: string
+
+  /**
+   * Reason the plugin was not installed
+   */
+  error: Error
+}
+
+export interface PluginLoadResult {
+  /**
+   * IDs of installed plugins, in installation order
+   */
+  installed: string[]
+
+  /**
+   * Plugins that failed to load or install
+   */
+  failed: PluginLoadFailure[]
+}
+
 export interface PluginHooks {
   /**
    * Called before plugin installation
@@ -370,6 +446,11 @@ export interface PluginManager {
    */
   install(plugin: Plugin, config?: Record<string, unknown>): Promise<void>
 
+  /**
+   * Install plugins in dependency order (configuration per plugin ID)
+   */
+  install(plugins: Plugin[], configs?: Record<string, Record<string, unknown>>): Promise<void>
+
   /**
    * Uninstall a plugin
    */
@@ -381,7 +462,7 @@ export interface PluginManager {
   activate(pluginId: string): Promise<void>
 
   /**
-   * Deactivate a plugin
+   * Deactivate a plugin and the active plugins that depend on it
    */
   deactivate(pluginId: string): Promise<void>
 
@@ -413,12 +494,12 @@ export interface PluginManager {
   /**
    * Load plugins from directory
    */
-  loadFromDirectory(directory: string): Promise<void>
+  loadFromDirectory(directory: string, options?: PluginLoadOptions): Promise<PluginLoadResult>
 
   /**
    * Load plugin from package
    */
-  loadFromPackage(packageName: string): Promise<void>
+  loadFromPackage(packageName: string, options?: PluginLoadOptions): Promise<PluginLoadResult>
 
   /**
    * Register a global command
@@ -0,0 +1,224 @@
+/**
+ * Minimal semantic versioning for plugin dependency ranges.
+ *
+ * Supports the npm range syntax plugins use: exact versions, comparators
+ * (`>`, `>=`, `<`, `<=`, `=`), caret and tilde ranges, x-ranges (`1.x`, `*`),
+ * hyphen ranges (`1.0.0 - 2.0.0`), whitespace-joined comparator sets and `||`.
+ */
+
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  prerelease: Array<string | number>
+}
+
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '='
+  version: SemVer
+}
+
+const VERSION_PATTERN =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?$/
+const PARTIAL_PATTERN =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?$/
+
+/**
+ * Parse a full version, returning null when it is not valid semver
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim())
+  if (!match) return null
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: parsePrerelease(match[4])
+  }
+}
+
+/**
+ * Compare two versions: negative when a < b, positive when a > b
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch
+  if (core !== 0) return core
+
+  // A prerelease has lower precedence than the release
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return b.prerelease.length - a.prerelease.length
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i]
+    const right = b.prerelease[i]
+    if (left === undefined) return -1
+    if (right === undefined) return 1
+    if (left === right) continue
+    if (typeof left === 'number' && typeof right === 'number') return left - right
+    if (typeof left === 'number') return -1
+    if (typeof right === 'number') return 1
+    return left < right ? -1 : 1
+  }
+  return 0
+}
+
+/**
+ * Check whether a version satisfies a range
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version)
+  if (!parsed || !isValidRange(range)) return false
+
+  return parseRange(range).some(set => {
+    // `*` accepts any version, including prereleases
+    if (!set.length) return true
+    if (!set.every(comparator => test(parsed, comparator))) return false
+    if (!parsed.prerelease.length) return true
+
+    // Prereleases only match ranges that mention a prerelease of the same version
+    return set.some(
+      ({ version: bound }) =>
+        bound.prerelease.length > 0 &&
+        bound.major === parsed.major &&
+        bound.minor === parsed.minor &&
+        bound.patch === parsed.patch
+    )
+  })
+}
+
+/**
+ * Check whether a range is valid
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function parseRange(range: string): Comparator[][] {
+  return range.split('||').map(part => {
+    const trimmed = part.trim()
+    if (trimmed === '' || trimmed === '*' || trimmed === 'latest') return []
+
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed)
+    if (hyphen) {
+      return [...expand('>=', hyphen[1] as string), ...expand('<=', hyphen[2] as string)]
+    }
+
+    return trimmed
+      .replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1')
+      .split(/\s+/)
+      .flatMap(token => {
+        const match = /^(<=|>=|<|>|=|\^|~)?(.+)$/.exec(token)
+        return expand(match?.[1] ?? '', match?.[2] ?? token)
+      })
+  })
+}
+
+/**
+ * Turn one range token into plain comparators
+ */
+function expand(operator: string, value: string): Comparator[] {
+  const match = PARTIAL_PATTERN.exec(value)
+  if (!match) throw new Error(`Invalid version range: ${value}`)
+
+  const parts = [match[1], match[2], match[3]].map(part =>
+    part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part)
+  )
+  const [major, minor, patch] = parts
+  const prerelease = parsePrerelease(match[4])
+  const version = (a: number, b: number, c: number, pre: SemVer['prerelease'] = []): SemVer => ({
+    major: a,
+    minor: b,
+    patch: c,
+    prerelease: pre
+  })
+
+  if (major === undefined) {
+    return operator === '<' || operator === '>'
+      ? [{ operator: '<', version: version(0, 0, 0) }]
+      : []
+  }
+
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease)
+
+  // Exclusive upper bound for a partial version, e.g. 1.2 -> <1.3.0
+  const next =
+    minor === undefined
+      ? version(major + 1, 0, 0)
+      : patch === undefined
+        ? version(major, minor + 1, 0)
+        : undefined
+
+  switch (operator) {
+    case '^': {
+      const upper =
+        major > 0 || minor === undefined
+          ? version(major + 1, 0, 0)
+          : minor > 0 || patch === undefined
+            ? version(0, minor + 1, 0)
+            : version(0, 0, (patch ?? 0) + 1)
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: withPrereleaseFloor(upper) }
+      ]
+    }
+    case '~': {
+      const upper = minor === undefined ? version(major + 1, 0, 0) : version(major, minor + 1, 0)
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: withPrereleaseFloor(upper) }
+      ]
+    }
+    case '>':
+      return next ? [{ operator: '>=', version: next }] : [{ operator: '>', version: lower }]
+    case '>=':
+      return [{ operator: '>=', version: lower }]
+    case '<':
+      return [{ operator: '<', version: lower }]
+    case '<=':
+      return next
+        ? [{ operator: '<', version: withPrereleaseFloor(next) }]
+        : [{ operator: '<=', version: lower }]
+    default:
+      return next
+        ? [
+            { operator: '>=', version: lower },
+            { operator: '<', version: withPrereleaseFloor(next) }
+          ]
+        : [{ operator: '=', version: lower }]
+  }
+}
+
+function test(version: SemVer, { operator, version: bound }: Comparator): boolean {
+  const result = compareVersions(version, bound)
+  switch (operator) {
+    case '<':
+      return result < 0
+    case '<=':
+      return result <= 0
+    case '>':
+      return result > 0
+    case '>=':
+      return result >= 0
+    default:
+      return result === 0
+  }
+}
+
+/**
+ * Exclusive upper bounds exclude prereleases of the bound itself (`<2.0.0` rejects `2.0.0-beta`)
+ */
+function withPrereleaseFloor(version: SemVer): SemVer {
+  return { ...version, prerelease: [0] }
+}
+
+function parsePrerelease(value?: string): Array<string | number> {
+  if (!value) return []
+  return value.split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id))
+}
@@ -5,10 +5,14 @@
  */
 
 import type { Env } from '../config/env'
+import type { NotificationDeliveryTask } from '../connectors/notification-connector'
+import { NOTIFICATION_DELIVERY_MESSAGE } from '../connectors/notification-connector'
 import type { ICloudPlatformConnector } from '../core/interfaces/cloud-platform'
+import { BROADCAST_STEP_MESSAGE } from '../services/broadcast-service'
 
 import { getCloudPlatformConnector } from './cloud/cloud-platform-cache'
 import { EventBus } from './events/event-bus'
+import { createBroadcastService, createNotificationConnector } from './notification-delivery'
 
 interface MessageBatch<T = unknown> {
   readonly queue: string
@@ -56,6 +60,10 @@ export async function handleQueue(
       if (messageBody.type === 'task') {
         // Handle task message
         await processTask(messageBody, eventBus, platform)
+      } else if (messageBody.type === NOTIFICATION_DELIVERY_MESSAGE) {
+        await deliverNotification(messageBody.data as NotificationDeliveryTask, env, eventBus)
+      } else if (messageBody.type === BROADCAST_STEP_MESSAGE) {
+        await runBroadcastStep(env)
       }
 
       // Acknowledge successful processing
@@ -89,6 +97,35 @@ export async function handleQueue(
   }
 }
 
+/**
+ * Deliver a scheduled notification or retry. Failed attempts are rescheduled
+ * in the notification store, so the queue message is acknowledged either way.
+ */
+async function deliverNotification(
+  task: NotificationDeliveryTask,
+  env: Env,
+  eventBus: EventBus
+): Promise<void> {
+  const connector = createNotificationConnector(env, eventBus)
+  if (!connector) {
+    throw new Error('Notification delivery requires TELEGRAM_BOT_TOKEN and DB')
+  }
+
+  await connector.deliver(task.messageId)
+}
+
+/**
+ * Run one broadcast delivery step. The step queues its own continuation.
+ */
+async function runBroadcastStep(env: Env): Promise<void> {
+  const broadcasts = createBroadcastService(env)
+  if (!broadcasts) {
+    throw new Error('Broadcast delivery requires TELEGRAM_BOT_TOKEN and DB')
+  }
+
+  await broadcasts.runStep()
+}
+
 async function processTask(
   task: Record<string, unknown>,
   eventBus: EventBus,
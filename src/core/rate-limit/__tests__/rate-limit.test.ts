@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import type { RateLimitRule } from '../algorithms'
+import { consumeRateLimit, refundRateLimit } from '../algorithms'
+import { DurableObjectRateLimitStore, KVRateLimitStore, createRateLimitStore } from '../stores'
+
+import { createMockKV, createMockRateLimiterNamespace } from '@/__tests__/utils/mock-env'
+
+const at = (ms: number) => new Date('2030-01-01T00:00:00.000Z').getTime() + ms
+
+function run(rule: RateLimitRule, times: number[]) {
+  let stored: unknown
+  return times.map(now => {
+    const result = consumeRateLimit(stored, rule, now)
+    stored = result.state
+    return result.decision.allowed
+  })
+}
+
+describe('rate limit algorithms', () => {
+  it('should count fixed windows in the KV format', () => {
+    const rule: RateLimitRule = { algorithm: 'fixed-window', limit: 2, windowMs: 1000 }
+
+    expect(run(rule, [at(0), at(100), at(200), at(999), at(1000)])).toEqual([
+      true,
+      true,
+      false,
+      false,
+      true
+    ])
+    expect(consumeRateLimit(null, rule, at(0)).state).toEqual({ count: 1, resetAt: at(1000) })
+  })
+
+  it('should weigh the previous window in sliding windows', () => {
+    const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 4, windowMs: 1000 }
+
+    // Four requests late in the window; a fixed window would allow four
+    // more right after the boundary
+    expect(
+      run(rule, [at(900), at(900), at(900), at(900), at(1000), at(1800), at(2100), at(2200)])
+    ).toEqual([true, true, true, true, false, false, false, true])
+  })
+
+  it('should tell how long to wait in a sliding window', () => {
+    const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 2, windowMs: 1000 }
+    let stored: unknown = consumeRateLimit(null, rule, at(0)).state
+    stored = consumeRateLimit(stored, rule, at(0)).state
+
+    const blocked = consumeRateLimit(stored, rule, at(1250))
+
+    expect(blocked.decision).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 250 })
+    expect(consumeRateLimit(stored, rule, at(1500)).decision.allowed).toBe(true)
+  })
+
+  it('should refill token buckets continuously', () => {
+    const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 2, windowMs: 1000 }
+
+    expect(run(rule, [at(0), at(0), at(0), at(400), at(600), at(700)])).toEqual([
+      true,
+      true,
+      false,
+      false,
+      true,
+      false
+    ])
+
+    let stored: unknown = consumeRateLimit(null, rule, at(0)).state
+    stored = consumeRateLimit(stored, rule, at(0)).state
+    expect(consumeRateLimit(stored, rule, at(0)).decision).toMatchObject({
+      allowed: false,
+      retryAfterMs: 500,
+      resetAt: at(1000)
+    })
+  })
+
+  it.each(['fixed-window', 'sliding-window', 'token-bucket'] as const)(
+    'should give refunded requests back (%s)',
+    algorithm => {
+      const rule: RateLimitRule = { algorithm, limit: 1, windowMs: 60000 }
+      const consumed = consumeRateLimit(null, rule, at(0))
+
+      expect(consumeRateLimit(consumed.state, rule, at(1)).decision.allowed).toBe(false)
+
+      const refunded = refundRateLimit(consumed.state, rule, at(1))
+      expect(consumeRateLimit(refunded.state, rule, at(2)).decision.allowed).toBe(true)
+    }
+  )
+
+  it('should start over when the stored state belongs to another algorithm', () => {
+    const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 1, windowMs: 60000 }
+
+    expect(consumeRateLimit({ count: 10, resetAt: at(60000) }, rule, at(0)).decision.allowed).toBe(
+      true
+    )
+  })
+})
+
+describe('DurableObjectRateLimitStore', () => {
+  const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 5, windowMs: 60000 }
+
+  it('should count concurrent requests exactly', async () => {
+    const namespace = createMockRateLimiterNamespace()
+    const store = new DurableObjectRateLimitStore(namespace as never)
+
+    const decisions = await Promise.all(
+      Array.from({ length: 8 }, () => store.consume('rate_limit:user', rule))
+    )
+
+    expect(decisions.filter(decision => decision.allowed)).toHaveLength(5)
+    expect(namespace.objects.size).toBe(1)
+  })
+
+  it('should keep keys apart and reset them', async () => {
+    const store = new DurableObjectRateLimitStore(createMockRateLimiterNamespace() as never)
+    const single = { ...rule, limit: 1 }
+
+    expect((await store.consume('a', single)).allowed).toBe(true)
+    expect((await store.consume('b', single)).allowed).toBe(true)
+    expect((await store.consume('a', single)).allowed).toBe(false)
+
+    await store.reset('a')
+    expect((await store.consume('a', single)).allowed).toBe(true)
+
+    await store.refund('b', single)
+    expect((await store.consume('b', single)).allowed).toBe(true)
+  })
+
+  it('should fall back to KV when the object fails', async () => {
+    const kv = createMockKV()
+    const store = new DurableObjectRateLimitStore(
+      {
+        idFromName: (name: string) => name,
+        get: () => ({ fetch: async () => new Response('Internal error', { status: 500 }) })
+      } as never,
+      new KVRateLimitStore(kv)
+    )
+
+    expect((await store.consume('rate_limit:user', rule)).allowed).toBe(true)
+    expect(kv.put).toHaveBeenCalledWith('rate_limit:user', expect.any(String), {
+      expirationTtl: 120
+    })
+  })
+})
+
+describe('createRateLimitStore', () => {
+  it('should prefer the Durable Object binding and fall back to KV', () => {
+    const kv = createMockKV()
+
+    expect(
+      createRateLimitStore({ RATE_LIMITER: createMockRateLimiterNamespace(), RATE_LIMIT: kv })
+    ).toBeInstanceOf(DurableObjectRateLimitStore)
+    expect(createRateLimitStore({ RATE_LIMIT: kv })).toBeInstanceOf(KVRateLimitStore)
+    expect(createRateLimitStore({})).toBeNull()
+  })
+})
+
+describe('KVRateLimitStore', () => {
+  it('should keep the fixed-window format and the KV minimum TTL', async () => {
+    const kv = createMockKV()
+    const store = new KVRateLimitStore(kv)
+    vi.spyOn(Date, 'now').mockReturnValue(at(0))
+
+    await store.consume('key', { algorithm: 'fixed-window', limit: 1, windowMs: 1000 })
+
+    expect(kv.put).toHaveBeenCalledWith('key', JSON.stringify({ count: 1, resetAt: at(1000) }), {
+      expirationTtl: 60
+    })
+    vi.restoreAllMocks()
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * Rate Limiting Algorithms
+ *
+ * Pure state transitions shared by the Durable Object and the KV fallback.
+ * Each call takes the stored state and returns the decision together with
+ * the state to persist, so the caller only has to make the write atomic.
+ */
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket'
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm
+  /** Requests per window; the bucket capacity for token buckets */
+  limit: number
+  /** Window length; token buckets refill completely over one window */
+  windowMs: number
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  limit: number
+  /** Requests counted against the limit right now (estimated for sliding windows) */
+  count: number
+  remaining: number
+  /** When the limit is fully available again (epoch ms) */
+  resetAt: number
+  /** How long to wait before the request would be allowed; 0 when allowed */
+  retryAfterMs: number
+}
+
+/** Same shape the KV limiter has always stored */
+export interface FixedWindowState {
+  count: number
+  resetAt: number
+}
+
+/** Sliding window counter: the previous window is weighted by its overlap */
+export interface SlidingWindowState {
+  windowStart: number
+  count: number
+  previousCount: number
+}
+
+export interface TokenBucketState {
+  tokens: number
+  updatedAt: number
+}
+
+export type RateLimitState = FixedWindowState | SlidingWindowState | TokenBucketState
+
+export interface RateLimitResult {
+  decision: RateLimitDecision
+  state: RateLimitState
+  /** When the stored state no longer matters and can be dropped (epoch ms) */
+  expiresAt: number
+}
+
+/**
+ * Try to take `cost` requests from the limit
+ */
+export function consumeRateLimit(
+  stored: unknown,
+  rule: RateLimitRule,
+  now: number,
+  cost = 1
+): RateLimitResult {
+  switch (rule.algorithm) {
+    case 'sliding-window':
+      return consumeSlidingWindow(readSlidingWindow(stored, rule, now), rule, now, cost)
+    case 'token-bucket':
+      return consumeTokenBucket(readTokenBucket(stored, rule, now), rule, now, cost)
+    default:
+      return consumeFixedWindow(readFixedWindow(stored, rule, now), rule, now, cost)
+  }
+}
+
+/**
+ * Give back a request that should not have counted, e.g. a skipped response
+ */
+export function refundRateLimit(
+  stored: unknown,
+  rule: RateLimitRule,
+  now: number,
+  cost = 1
+): RateLimitResult {
+  return consumeRateLimit(stored, rule, now, -cost)
+}
+
+function consumeFixedWindow(
+  state: FixedWindowState,
+  rule: RateLimitRule,
+  now: number,
+  cost: number
+): RateLimitResult {
+  const allowed = cost <= 0 || state.count + cost <= rule.limit
+  const count = allowed ? Math.max(0, state.count + cost) : state.count
+
+  return {
+    decision: {
+      allowed,
+      limit: rule.limit,
+      count,
+      remaining: Math.max(0, rule.limit - count),
+      resetAt: state.resetAt,
+      retryAfterMs: allowed ? 0 : state.resetAt - now
+    },
+    state: { count, resetAt: state.resetAt },
+    expiresAt: state.resetAt
+  }
+}
+
+function consumeSlidingWindow(
+  state: SlidingWindowState,
+  rule: RateLimitRule,
+  now: number,
+  cost: number
+): RateLimitResult {
+  const windowEnd = state.windowStart + rule.windowMs
+  const weight = (windowEnd - now) / rule.windowMs
+  const estimate = state.previousCount * weight + state.count
+
+  const allowed = cost <= 0 || estimate + cost <= rule.limit
+  const count = allowed ? Math.max(0, state.count + cost) : state.count
+  const used = state.previousCount * weight + count
+
+  // Blocked: wait until enough of the previous window has slid out, or for the
+  // next window when the current one alone is full
+  let retryAfterMs = 0
+  if (!allowed) {
+    const excess = estimate + cost - rule.limit
+    retryAfterMs =
+      state.previousCount > 0 && excess <= state.previousCount * weight
+        ? Math.ceil((excess / state.previousCount) * rule.windowMs)
+        : windowEnd - now
+  }
+
+  return {
+    decision: {
+      allowed,
+      limit: rule.limit,
+      count: Math.ceil(used),
+      remaining: Math.max(0, Math.floor(rule.limit - used)),
+      resetAt: count > 0 ? windowEnd + rule.windowMs : windowEnd,
+      retryAfterMs
+    },
+    state: { windowStart: state.windowStart, count, previousCount: state.previousCount },
+    expiresAt: windowEnd + rule.windowMs
+  }
+}
+
+function consumeTokenBucket(
+  state: TokenBucketState,
+  rule: RateLimitRule,
+  now: number,
+  cost: number
+): RateLimitResult {
+  const refillPerMs = rule.limit / rule.windowMs
+  const allowed = cost <= 0 || state.tokens >= cost
+  const tokens = allowed ? Math.min(rule.limit, state.tokens - cost) : state.tokens
+  const resetAt = now + Math.ceil((rule.limit - tokens) / refillPerMs)
+
+  return {
+    decision: {
+      allowed,
+      limit: rule.limit,
+      count: Math.ceil(rule.limit - tokens),
+      remaining: Math.floor(tokens),
+      resetAt,
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs)
+    },
+    state: { tokens, updatedAt: now },
+    expiresAt: resetAt
+  }
+}
+
+function readFixedWindow(stored: unknown, rule: RateLimitRule, now: number): FixedWindowState {
+  if (isRecord(stored) && typeof stored.count === 'number' && typeof stored.resetAt === 'number') {
+    if (stored.resetAt > now) {
+      return { count: stored.count, resetAt: stored.resetAt }
+    }
+  }
+  return { count: 0, resetAt: now + rule.windowMs }
+}
+
+function readSlidingWindow(stored: unknown, rule: RateLimitRule, now: number): SlidingWindowState {
+  if (!isRecord(stored) || typeof stored.windowStart !== 'number') {
+    return { windowStart: now, count: 0, previousCount: 0 }
+  }
+
+  const count = Number(stored.count) || 0
+  const elapsedWindows = Math.floor((now - stored.windowStart) / rule.windowMs)
+
+  if (elapsedWindows <= 0) {
+    return {
+      windowStart: stored.windowStart,
+      count,
+      previousCount: Number(stored.previousCount) || 0
+    }
+  }
+
+  // Roll forward; anything older than the previous window no longer counts
+  return {
+    windowStart: stored.windowStart + elapsedWindows * rule.windowMs,
+    count: 0,
+    previousCount: elapsedWindows === 1 ? count : 0
+  }
+}
+
+function readTokenBucket(stored: unknown, rule: RateLimitRule, now: number): TokenBucketState {
+  if (
+    !isRecord(stored) ||
+    typeof stored.tokens !== 'number' ||
+    typeof stored.updatedAt !== 'number'
+  ) {
+    return { tokens: rule.limit, updatedAt: now }
+  }
+
+  const refilled =
+    stored.tokens + (Math.max(0, now - stored.updatedAt) * rule.limit) / rule.windowMs
+  return { tokens: Math.min(rule.limit, refilled), updatedAt: now }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
@@ -0,0 +1,17 @@
+/**
+ * Rate limit module exports
+ */
+
+export { consumeRateLimit, refundRateLimit } from './algorithms'
+export type {
+  RateLimitAlgorithm,
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimitState
+} from './algorithms'
+
+export { RateLimiterDO } from './rate-limiter-do'
+export type { RateLimiterMethods } from './rate-limiter-do'
+
+export { DurableObjectRateLimitStore, KVRateLimitStore, createRateLimitStore } from './stores'
+export type { RateLimitStore } from './stores'
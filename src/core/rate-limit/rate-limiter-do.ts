@@ -0,0 +1,121 @@
+/**
+ * Rate Limiter Durable Object
+ *
+ * Holds rate limit counters with strong consistency. Counters are loaded
+ * into memory once and every check-and-count runs synchronously on them, so
+ * concurrent requests for the same key can't both take the last slot.
+ *
+ * Bind it as RATE_LIMITER (see wrangler.toml) and export it from the worker.
+ */
+
+import type { RateLimitDecision, RateLimitRule } from './algorithms'
+import { consumeRateLimit, refundRateLimit } from './algorithms'
+
+import { TypedDurableObject } from '@/services/remote-bindings/durable-object-connector'
+import type { ServiceDefinition, ServiceMethodRegistry } from '@/services/remote-bindings/types'
+
+export interface RateLimiterMethods extends ServiceMethodRegistry {
+  'rateLimit.consume': {
+    params: { key: string; rule: RateLimitRule; cost?: number }
+    result: RateLimitDecision
+  }
+  'rateLimit.refund': {
+    params: { key: string; rule: RateLimitRule; cost?: number }
+    result: { refunded: boolean }
+  }
+  'rateLimit.reset': {
+    params: { key: string }
+    result: { reset: boolean }
+  }
+}
+
+type LimitParams = RateLimiterMethods['rateLimit.consume']['params']
+
+interface StoredLimit {
+  state: unknown
+  expiresAt: number
+}
+
+const STATE_PREFIX = 'limit:'
+
+export class RateLimiterDO extends TypedDurableObject<RateLimiterMethods> {
+  private limits = new Map<string, StoredLimit>()
+
+  protected override async initialize(): Promise<void> {
+    for (const stateKey of await this.listStateKeys({ prefix: STATE_PREFIX })) {
+      const stored = await this.getState<StoredLimit>(stateKey)
+      if (stored) {
+        this.limits.set(stateKey.slice(STATE_PREFIX.length), stored)
+      }
+    }
+  }
+
+  protected getServiceDefinition(): ServiceDefinition<RateLimiterMethods> {
+    return {
+      name: 'rate-limiter',
+      version: '1.0.0',
+      methods: {
+        'rateLimit.consume': async (params: unknown) => {
+          const { key, rule, cost } = params as LimitParams
+          const result = consumeRateLimit(this.limits.get(key)?.state, rule, Date.now(), cost)
+
+          if (result.decision.allowed) {
+            await this.save(key, { state: result.state, expiresAt: result.expiresAt })
+          }
+
+          return result.decision
+        },
+
+        'rateLimit.refund': async (params: unknown) => {
+          const { key, rule, cost } = params as LimitParams
+          const stored = this.limits.get(key)
+          if (!stored) {
+            return { refunded: false }
+          }
+
+          const result = refundRateLimit(stored.state, rule, Date.now(), cost)
+          await this.save(key, { state: result.state, expiresAt: result.expiresAt })
+          return { refunded: true }
+        },
+
+        'rateLimit.reset': async (params: unknown) => {
+          const { key } = params as { key: string }
+          this.limits.delete(key)
+          await this.deleteState(STATE_PREFIX + key)
+          return { reset: true }
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop counters that have expired so idle objects don't keep storage
+   */
+  override async alarm(): Promise<void> {
+    const now = Date.now()
+    let nextExpiry: number | undefined
+
+    for (const [key, stored] of this.limits) {
+      if (stored.expiresAt <= now) {
+        this.limits.delete(key)
+        await this.deleteState(STATE_PREFIX + key)
+      } else {
+        nextExpiry = Math.min(nextExpiry ?? stored.expiresAt, stored.expiresAt)
+      }
+    }
+
+    if (nextExpiry !== undefined) {
+      await this.setAlarm(nextExpiry - now)
+    }
+  }
+
+  /**
+   * Update memory before the first await so the decision and the count can't
+   * interleave with another request; the write is flushed before the reply.
+   */
+  private async save(key: string, stored: StoredLimit): Promise<void> {
+    this.limits.set(key, stored)
+    await this.setState(STATE_PREFIX + key, stored)
+    await this.setAlarm(Math.max(0, stored.expiresAt - Date.now()))
+  }
+}
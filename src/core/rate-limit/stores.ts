@@ -0,0 +1,140 @@
+/**
+ * Rate Limit Stores
+ *
+ * Where the counters live. The Durable Object store is atomic and strongly
+ * consistent; the KV store is the best-effort fallback for deployments
+ * without the RATE_LIMITER binding.
+ */
+
+import type { RateLimitDecision, RateLimitRule } from './algorithms'
+import { consumeRateLimit, refundRateLimit } from './algorithms'
+import type { RateLimiterMethods } from './rate-limiter-do'
+
+import { logger } from '@/lib/logger'
+import { createDurableObjectClient } from '@/services/remote-bindings/durable-object-connector'
+import type { DurableObjectBinding } from '@/services/remote-bindings/types'
+
+export interface RateLimitStore {
+  /**
+   * Atomically check the limit and count the request when it is allowed
+   */
+  consume(key: string, rule: RateLimitRule, cost?: number): Promise<RateLimitDecision>
+
+  /**
+   * Give back a request that should not count towards the limit
+   */
+  refund(key: string, rule: RateLimitRule, cost?: number): Promise<void>
+
+  /**
+   * Forget everything counted for the key
+   */
+  reset(key: string): Promise<void>
+}
+
+/** Shortest expiration KV accepts */
+const KV_MIN_TTL_SECONDS = 60
+
+/**
+ * Read-modify-write on KV. Concurrent requests can race and KV's eventual
+ * consistency lets bursts through, so use it only when no Durable Object
+ * binding is available.
+ */
+export class KVRateLimitStore implements RateLimitStore {
+  constructor(private kv: KVNamespace) {}
+
+  async consume(key: string, rule: RateLimitRule, cost = 1): Promise<RateLimitDecision> {
+    const now = Date.now()
+    const stored = await this.kv.get(key, 'json')
+    const result = consumeRateLimit(stored, rule, now, cost)
+
+    if (result.decision.allowed) {
+      await this.kv.put(key, JSON.stringify(result.state), {
+        expirationTtl: this.ttl(result.expiresAt - now)
+      })
+    }
+
+    return result.decision
+  }
+
+  async refund(key: string, rule: RateLimitRule, cost = 1): Promise<void> {
+    const now = Date.now()
+    const stored = await this.kv.get(key, 'json')
+    if (!stored) {
+      return
+    }
+
+    const result = refundRateLimit(stored, rule, now, cost)
+    await this.kv.put(key, JSON.stringify(result.state), {
+      expirationTtl: this.ttl(result.expiresAt - now)
+    })
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.kv.delete(key)
+  }
+
+  private ttl(ms: number): number {
+    return Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ms / 1000))
+  }
+}
+
+/**
+ * Counters kept in RateLimiterDO, one object per key so hot keys don't
+ * serialize each other. Falls back to another store when the object can't
+ * be reached.
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(
+    private binding: DurableObjectBinding<RateLimiterMethods>,
+    private fallback?: RateLimitStore
+  ) {}
+
+  async consume(key: string, rule: RateLimitRule, cost = 1): Promise<RateLimitDecision> {
+    try {
+      return await this.client(key).call('rateLimit.consume', { key, rule, cost })
+    } catch (error) {
+      if (!this.fallback) throw error
+      logger.warn('Rate limiter object unavailable, using fallback store', { error, key })
+      return this.fallback.consume(key, rule, cost)
+    }
+  }
+
+  async refund(key: string, rule: RateLimitRule, cost = 1): Promise<void> {
+    try {
+      await this.client(key).call('rateLimit.refund', { key, rule, cost })
+    } catch (error) {
+      if (!this.fallback) throw error
+      await this.fallback.refund(key, rule, cost)
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client(key).call('rateLimit.reset', { key })
+    await this.fallback?.reset(key)
+  }
+
+  private client(key: string) {
+    return createDurableObjectClient(this.binding, key)
+  }
+}
+
+/**
+ * Pick the best store the environment offers: the RATE_LIMITER Durable
+ * Object (with KV behind it when both are bound), then RATE_LIMIT KV.
+ * Returns null when rate limiting has no storage at all.
+ */
+export function createRateLimitStore(env: {
+  RATE_LIMITER?: unknown
+  RATE_LIMIT?: KVNamespace
+}): RateLimitStore | null {
+  const kvStore = env.RATE_LIMIT ? new KVRateLimitStore(env.RATE_LIMIT) : undefined
+
+  if (env.RATE_LIMITER) {
+    return new DurableObjectRateLimitStore(
+      env.RATE_LIMITER as DurableObjectBinding<RateLimiterMethods>,
+      kvStore
+    )
+  }
+
+  return kvStore ?? null
+}
@@ -0,0 +1,328 @@
+/**
+ * Tests for the resilient connector wrappers
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { BulkheadRejectedError } from '../bulkhead'
+import { CircuitOpenError } from '../circuit-breaker'
+import { CircuitBreakerManager } from '../circuit-breaker-manager'
+import type { ResilienceConfig } from '../resilient-connector'
+import {
+  ResilientAIConnector,
+  ResilientMessagingConnector,
+  withResilience
+} from '../resilient-connector'
+import { getBackoffDelay, isRetryableError, retryWithBackoff } from '../retry'
+
+import { EventBus } from '@/core/events/event-bus'
+import { HealthCheckService } from '@/core/health/health-check'
+import type { AIConnector, CompletionResponse, StreamChunk } from '@/core/interfaces/ai'
+import type { ICloudPlatformConnector } from '@/core/interfaces/cloud-platform'
+import type { Connector } from '@/core/interfaces/connector'
+import { ConnectorType } from '@/core/interfaces/connector'
+import type { MessagingConnector } from '@/core/interfaces/messaging'
+import { AIProviderError } from '@/lib/ai/types'
+import { TimeoutError } from '@/lib/timeout-wrapper'
+
+const response = { content: 'Hello' } as CompletionResponse
+const request = { model: 'test', messages: [] }
+
+function createAIConnector(overrides: Partial<AIConnector> = {}): AIConnector {
+  return {
+    id: 'test-ai',
+    name: 'Test AI',
+    version: '1.0.0',
+    type: ConnectorType.AI,
+    initialize: vi.fn(),
+    isReady: () => true,
+    validateConfig: () => ({ valid: true }),
+    getCapabilities: () => ({ features: [] }),
+    getHealthStatus: async () => ({ status: 'healthy', timestamp: Date.now() }),
+    destroy: vi.fn(),
+    complete: vi.fn().mockResolvedValue(response),
+    getModelInfo: vi.fn(),
+    calculateCost: vi.fn(),
+    validateCredentials: vi.fn().mockResolvedValue(true),
+    getAICapabilities: vi.fn(),
+    ...overrides
+  }
+}
+
+function createMessagingConnector(overrides: Partial<MessagingConnector> = {}) {
+  return {
+    id: 'test-messaging',
+    name: 'Test Messaging',
+    version: '1.0.0',
+    type: ConnectorType.MESSAGING,
+    initialize: vi.fn(),
+    isReady: () => true,
+    validateConfig: () => ({ valid: true }),
+    getCapabilities: () => ({ features: [] }),
+    getHealthStatus: async () => ({ status: 'healthy' as const, timestamp: Date.now() }),
+    destroy: vi.fn(),
+    sendMessage: vi.fn().mockResolvedValue({ success: true, message_id: '1' }),
+    sendBulk: vi.fn(),
+    editMessage: vi.fn(),
+    deleteMessage: vi.fn(),
+    handleWebhook: vi.fn(),
+    validateWebhook: vi.fn(),
+    setCommands: vi.fn(),
+    setWebhook: vi.fn(),
+    getMessagingCapabilities: vi.fn(),
+    ...overrides
+  } satisfies MessagingConnector
+}
+
+function rateLimited(retryAfter = 0) {
+  return Object.assign(new Error('Too Many Requests'), {
+    error_code: 429,
+    parameters: { retry_after: retryAfter }
+  })
+}
+
+const fastConfig: ResilienceConfig = {
+  retry: { baseDelay: 1, maxDelay: 10 },
+  circuitBreaker: { failureThreshold: 3, recoveryTimeout: 60000 }
+}
+
+describe('ResilientAIConnector', () => {
+  beforeEach(() => {
+    CircuitBreakerManager.clearInstance()
+  })
+
+  afterEach(() => {
+    CircuitBreakerManager.clearInstance()
+  })
+
+  it('retries retryable provider errors', async () => {
+    const complete = vi
+      .fn()
+      .mockRejectedValueOnce(new AIProviderError('Overloaded', 'PROVIDER_ERROR', 'test', true))
+      .mockResolvedValueOnce(response)
+    const connector = new ResilientAIConnector(createAIConnector({ complete }), fastConfig)
+
+    await expect(connector.complete(request)).resolves.toBe(response)
+    expect(complete).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry errors the caller has to fix', async () => {
+    const complete = vi
+      .fn()
+      .mockRejectedValue(new AIProviderError('Bad request', 'INVALID_REQUEST', 'test', false))
+    const connector = new ResilientAIConnector(createAIConnector({ complete }), fastConfig)
+
+    await expect(connector.complete(request)).rejects.toThrow('Bad request')
+    expect(complete).toHaveBeenCalledTimes(1)
+  })
+
+  it('opens the circuit and reports it to the health check', async () => {
+    const complete = vi.fn().mockRejectedValue(new TimeoutError('Timed out', 100))
+    const connector = new ResilientAIConnector(createAIConnector({ complete }), fastConfig)
+
+    // Three attempts within one call reach the failure threshold
+    await expect(connector.complete(request)).rejects.toThrow('Timed out')
+    await expect(connector.complete(request)).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(complete).toHaveBeenCalledTimes(3)
+
+    const health = await connector.getHealthStatus()
+    expect(health.status).toBe('unhealthy')
+    expect(health.details?.circuitBreaker).toMatchObject({ state: 'OPEN' })
+
+    const service = new HealthCheckService(new EventBus(), {} as ICloudPlatformConnector)
+    const result = await service.check({ components: ['circuit_breakers'] })
+    expect(result.checks.circuit_breakers?.status).toBe('degraded')
+    expect(result.checks.circuit_breakers?.details?.services).toEqual({ 'ai:test-ai': 'OPEN' })
+  })
+
+  it('does not retry attempts that timed out and keep running', async () => {
+    let finish: (value: CompletionResponse) => void = () => {}
+    const complete = vi.fn(() => new Promise<CompletionResponse>(resolve => (finish = resolve)))
+    const connector = new ResilientAIConnector(createAIConnector({ complete }), {
+      ...fastConfig,
+      timeout: 20,
+      bulkhead: { maxConcurrent: 1, maxQueue: 0 }
+    })
+
+    await expect(connector.complete(request)).rejects.toBeInstanceOf(TimeoutError)
+    expect(complete).toHaveBeenCalledTimes(1)
+
+    // The slot stays taken while the abandoned call runs
+    expect(connector.policy.getBulkheadStats()).toMatchObject({ active: 1 })
+    await expect(connector.complete(request)).rejects.toBeInstanceOf(BulkheadRejectedError)
+
+    finish(response)
+    await vi.waitFor(() => expect(connector.policy.getBulkheadStats()).toMatchObject({ active: 0 }))
+  })
+
+  it('rejects calls beyond the bulkhead limit', async () => {
+    let finish: (value: CompletionResponse) => void = () => {}
+    const complete = vi.fn(() => new Promise<CompletionResponse>(resolve => (finish = resolve)))
+    const connector = new ResilientAIConnector(createAIConnector({ complete }), {
+      ...fastConfig,
+      bulkhead: { maxConcurrent: 1, maxQueue: 1 }
+    })
+
+    const first = connector.complete(request)
+    const queued = connector.complete(request)
+    await expect(connector.complete(request)).rejects.toBeInstanceOf(BulkheadRejectedError)
+    expect(connector.policy.getBulkheadStats()).toMatchObject({ active: 1, queued: 1 })
+
+    finish(response)
+    await first
+    await vi.waitFor(() => expect(complete).toHaveBeenCalledTimes(2))
+    finish(response)
+    await expect(queued).resolves.toBe(response)
+    expect(connector.policy.getBulkheadStats()).toMatchObject({ active: 0, queued: 0 })
+  })
+
+  it('retries opening a stream and passes chunks through', async () => {
+    const stream = vi
+      .fn()
+      .mockImplementationOnce(() => ({
+        next: () => Promise.reject(new TimeoutError('Timed out', 100))
+      }))
+      .mockImplementationOnce(async function* () {
+        yield { content: 'a' }
+        yield { content: 'b' }
+      })
+    const connector = new ResilientAIConnector(createAIConnector({ stream }), fastConfig)
+
+    const chunks = []
+    for await (const chunk of connector.stream(request)) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks).toEqual([{ content: 'a' }, { content: 'b' }])
+    expect(stream).toHaveBeenCalledTimes(2)
+  })
+
+  it('closes streams the reader leaves early', async () => {
+    const closed = vi.fn()
+    const stream = vi.fn(async function* () {
+      try {
+        yield { content: 'a' }
+        yield { content: 'b' }
+      } finally {
+        closed()
+      }
+    })
+    const connector = new ResilientAIConnector(createAIConnector({ stream }), fastConfig)
+
+    for await (const chunk of connector.stream(request)) {
+      expect(chunk).toEqual({ content: 'a' })
+      break
+    }
+
+    expect(closed).toHaveBeenCalled()
+  })
+
+  it('closes a stream that did not open in time', async () => {
+    let open: (result: IteratorResult<StreamChunk>) => void = () => {}
+    const iterator = {
+      next: vi.fn(() => new Promise<IteratorResult<StreamChunk>>(resolve => (open = resolve))),
+      return: vi.fn().mockResolvedValue({ done: true, value: undefined })
+    }
+    const connector = new ResilientAIConnector(
+      createAIConnector({ stream: vi.fn(() => iterator) }),
+      { ...fastConfig, timeout: 20 }
+    )
+
+    await expect(connector.stream(request).next()).rejects.toBeInstanceOf(TimeoutError)
+    expect(iterator.return).toHaveBeenCalled()
+    expect(iterator.next).toHaveBeenCalledTimes(1)
+    open({ done: false, value: { content: 'late' } })
+  })
+})
+
+describe('ResilientMessagingConnector', () => {
+  beforeEach(() => {
+    CircuitBreakerManager.clearInstance()
+  })
+
+  it('retries sends the platform rejected', async () => {
+    const base = createMessagingConnector()
+    base.sendMessage.mockRejectedValueOnce(rateLimited())
+    const connector = new ResilientMessagingConnector(base, fastConfig)
+
+    await expect(connector.sendMessage('1', {})).resolves.toMatchObject({ success: true })
+    expect(base.sendMessage).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not resend messages that may have been delivered', async () => {
+    const base = createMessagingConnector()
+    base.sendMessage.mockRejectedValue(Object.assign(new Error('Bad Gateway'), { status: 502 }))
+    const connector = new ResilientMessagingConnector(base, fastConfig)
+
+    await expect(connector.sendMessage('1', {})).rejects.toThrow('Bad Gateway')
+    expect(base.sendMessage).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries idempotent calls on server errors', async () => {
+    const base = createMessagingConnector()
+    base.setCommands
+      .mockRejectedValueOnce(Object.assign(new Error('Bad Gateway'), { status: 502 }))
+      .mockResolvedValueOnce(undefined)
+    const connector = new ResilientMessagingConnector(base, fastConfig)
+
+    await connector.setCommands([])
+    expect(base.setCommands).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives up when the platform asks to wait longer than the backoff cap', async () => {
+    const base = createMessagingConnector()
+    base.sendMessage.mockRejectedValue(rateLimited(30))
+    const connector = new ResilientMessagingConnector(base, fastConfig)
+
+    await expect(connector.sendMessage('1', {})).rejects.toThrow('Too Many Requests')
+    expect(base.sendMessage).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('withResilience', () => {
+  beforeEach(() => {
+    CircuitBreakerManager.clearInstance()
+  })
+
+  it('wraps AI and messaging connectors only', () => {
+    const other = { ...createAIConnector(), type: ConnectorType.DATABASE } as Connector
+
+    expect(withResilience(createAIConnector())).toBeInstanceOf(ResilientAIConnector)
+    expect(withResilience(createMessagingConnector())).toBeInstanceOf(ResilientMessagingConnector)
+    expect(withResilience(other)).toBe(other)
+  })
+})
+
+describe('retry policy', () => {
+  it('classifies errors', () => {
+    expect(isRetryableError(new TimeoutError('Timed out', 100))).toBe(true)
+    expect(isRetryableError(rateLimited())).toBe(true)
+    expect(isRetryableError(Object.assign(new Error('Not found'), { status: 404 }))).toBe(false)
+    expect(isRetryableError(new CircuitOpenError('Open', 'ai', 'OPEN' as never))).toBe(false)
+    expect(isRetryableError(new Error('Unknown'))).toBe(false)
+  })
+
+  it('keeps jittered delays within the exponential bound', () => {
+    const config = { baseDelay: 100, maxDelay: 300 }
+
+    for (let i = 0; i < 20; i++) {
+      expect(getBackoffDelay(1, config)).toBeLessThan(100)
+      expect(getBackoffDelay(5, config)).toBeLessThan(300)
+    }
+  })
+
+  it('stops after the last attempt', async () => {
+    const fn = vi.fn().mockRejectedValue(new TimeoutError('Timed out', 100))
+
+    await expect(
+      retryWithBackoff(fn, {
+        maxAttempts: 3,
+        baseDelay: 1,
+        maxDelay: 1,
+        isRetryable: isRetryableError
+      })
+    ).rejects.toThrow('Timed out')
+    expect(fn).toHaveBeenCalledTimes(3)
+    expect(fn).toHaveBeenLastCalledWith(3)
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Bulkhead Pattern Implementation
+ *
+ * Caps concurrent calls to a service so one slow dependency cannot hold every
+ * request of the worker; callers over the limit wait in a bounded queue
+ */
+
+import { logger } from '@/lib/logger'
+
+export interface BulkheadConfig {
+  /** Calls allowed to run at the same time */
+  maxConcurrent: number
+  /** Calls allowed to wait for a slot (0 rejects immediately when full) */
+  maxQueue: number
+  /** Optional name for logging */
+  name?: string
+}
+
+export interface BulkheadStats {
+  active: number
+  queued: number
+  rejected: number
+  maxConcurrent: number
+  maxQueue: number
+}
+
+/**
+ * Thrown when both the concurrency limit and the queue are full
+ */
+export class BulkheadRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly service: string
+  ) {
+    super(message)
+    this.name = 'BulkheadRejectedError'
+  }
+}
+
+export class Bulkhead {
+  private active = 0
+  private rejected = 0
+  private queue: Array<() => void> = []
+
+  constructor(private config: BulkheadConfig) {}
+
+  /**
+   * Execute function once a slot is free
+   * @param settled Resolves once work fn started in the background has stopped;
+   * the slot is held until then
+   */
+  async execute<R>(fn: () => Promise<R>, settled?: () => Promise<unknown>): Promise<R> {
+    await this.acquire()
+
+    try {
+      return await fn()
+    } finally {
+      if (settled) {
+        void settled().finally(() => this.release())
+      } else {
+        this.release()
+      }
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.config.maxConcurrent) {
+      this.active++
+      return
+    }
+
+    if (this.queue.length >= this.config.maxQueue) {
+      this.rejected++
+      logger.warn('Bulkhead full, rejecting call', {
+        name: this.config.name,
+        active: this.active,
+        queued: this.queue.length
+      })
+      throw new BulkheadRejectedError(
+        `Bulkhead is full for ${this.config.name || 'service'}`,
+        this.config.name || 'service'
+      )
+    }
+
+    // The slot is handed over by release(), so active stays unchanged
+    await new Promise<void>(resolve => this.queue.push(resolve))
+  }
+
+  private release(): void {
+    const next = this.queue.shift()
+
+    if (next) {
+      next()
+    } else {
+      this.active--
+    }
+  }
+
+  /**
+   * Get bulkhead statistics
+   */
+  getStats(): BulkheadStats {
+    // eslint-disable-next-line db-mapping/use-field-mapper -- Not a database mapping, just stats
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      rejected: this.rejected,
+      maxConcurrent: this.config.maxConcurrent,
+      maxQueue: this.config.maxQueue
+    }
+  }
+}
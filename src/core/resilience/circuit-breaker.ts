@@ -38,6 +38,20 @@ export interface CircuitBreakerStats {
   consecutiveFailures: number
 }
 
+/**
+ * Thrown instead of calling the service while the circuit rejects requests
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    message: string,
+    public readonly service: string,
+    public readonly state: CircuitState
+  ) {
+    super(message)
+    this.name = 'CircuitOpenError'
+  }
+}
+
 export class CircuitBreaker {
   private state: CircuitState = CircuitState.CLOSED
   private failures: number[] = []
@@ -64,7 +78,11 @@ export class CircuitBreaker {
 
     // Check if circuit is open
     if (this.state === CircuitState.OPEN) {
-      const error = new Error(`Circuit breaker is OPEN for ${this.config.name || 'service'}`)
+      const error = new CircuitOpenError(
+        `Circuit breaker is OPEN for ${this.config.name || 'service'}`,
+        this.config.name || 'service',
+        this.state
+      )
       this.emitEvent('circuit:rejected', { name: this.config.name, state: this.state })
       throw error
     }
@@ -72,8 +90,10 @@ export class CircuitBreaker {
     // Check half-open limit
     if (this.state === CircuitState.HALF_OPEN) {
       if (this.halfOpenRequests >= this.config.halfOpenRequests) {
-        const error = new Error(
-          `Circuit breaker is testing recovery for ${this.config.name || 'service'}`
+        const error = new CircuitOpenError(
+          `Circuit breaker is testing recovery for ${this.config.name || 'service'}`,
+          this.config.name || 'service',
+          this.state
         )
         this.emitEvent('circuit:rejected', { name: this.config.name, state: this.state })
         throw error
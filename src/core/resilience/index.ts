@@ -2,14 +2,32 @@
  * Resilience module exports
  */
 
-export { CircuitBreaker, CircuitState } from './circuit-breaker'
+export { CircuitBreaker, CircuitOpenError, CircuitState } from './circuit-breaker'
 export type { CircuitBreakerConfig, CircuitBreakerStats } from './circuit-breaker'
 
 export { CircuitBreakerManager } from './circuit-breaker-manager'
 export type { ManagerStats, ServiceConfig } from './circuit-breaker-manager'
 
+export { Bulkhead, BulkheadRejectedError } from './bulkhead'
+export type { BulkheadConfig, BulkheadStats } from './bulkhead'
+
+export {
+  DEFAULT_RETRY_CONFIG,
+  getBackoffDelay,
+  isRateLimitError,
+  isRetryableError,
+  retryWithBackoff
+} from './retry'
+export type { RetryConfig } from './retry'
+
 export {
+  ResiliencePolicy,
   ResilientAIConnector,
   ResilientMessagingConnector,
   withResilience
 } from './resilient-connector'
+export type {
+  ResilienceCallOptions,
+  ResilienceConfig,
+  ResilientConnector
+} from './resilient-connector'
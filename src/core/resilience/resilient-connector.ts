@@ -1,46 +1,452 @@
 /**
- * Resilient Connector Wrapper - Placeholder
+ * Resilient Connector Wrappers
  *
- * NOTE: The resilient connector wrappers are temporarily disabled as they need
- * to be updated to match the new AIConnector and MessagingConnector interfaces.
- *
- * The old implementation expected methods like generateResponse() and sendMessage()
- * but the new interfaces use complete() for AI and different message structures.
- *
- * TODO: Reimplement resilient wrappers for new connector interfaces
+ * Decorate AI and messaging connectors with a circuit breaker (shared through
+ * CircuitBreakerManager, so it shows up in the circuit_breakers health check),
+ * jittered retries, per-attempt timeouts and a bulkhead concurrency limit
+ */
+
+import type { BulkheadConfig, BulkheadStats } from './bulkhead'
+import { Bulkhead } from './bulkhead'
+import type { CircuitBreaker, CircuitBreakerConfig } from './circuit-breaker'
+import { CircuitState } from './circuit-breaker'
+import { CircuitBreakerManager } from './circuit-breaker-manager'
+import type { RetryConfig } from './retry'
+import { DEFAULT_RETRY_CONFIG, isRateLimitError, retryWithBackoff } from './retry'
+
+import type {
+  AICapabilities,
+  AIConnector,
+  AudioInput,
+  AudioOptions,
+  AudioResponse,
+  CompletionRequest,
+  CompletionResponse,
+  Cost,
+  Embedding,
+  Model,
+  ModelInfo,
+  StreamChunk,
+  Usage,
+  VisionInput,
+  VisionResponse
+} from '@/core/interfaces/ai'
+import type {
+  Connector,
+  ConnectorCapabilities,
+  ConnectorConfig,
+  HealthStatus,
+  ValidationResult
+} from '@/core/interfaces/connector'
+import { ConnectorType } from '@/core/interfaces/connector'
+import type {
+  BotCommand,
+  BulkMessageResult,
+  MessageRef,
+  MessageResult,
+  MessagingCapabilities,
+  MessagingConnector,
+  UnifiedMessage,
+  WebhookOptions
+} from '@/core/interfaces/messaging'
+import { withTimeout } from '@/lib/timeout-wrapper'
+
+export interface ResilienceConfig {
+  /** Breaker name in CircuitBreakerManager (defaults to "<type>:<connector id>") */
+  name?: string
+  /** Overrides for the manager's default breaker settings */
+  circuitBreaker?: Partial<CircuitBreakerConfig>
+  /** Retry settings, or false to make a single attempt */
+  retry?: Partial<RetryConfig> | false
+  /** Per-attempt timeout in ms, 0 to wait indefinitely */
+  timeout?: number
+  /** Concurrency limit, or false for none */
+  bulkhead?: Partial<Omit<BulkheadConfig, 'name'>> | false
+  /** Manager to register the breaker with (defaults to the singleton) */
+  manager?: CircuitBreakerManager
+}
+
+export interface ResilienceCallOptions {
+  /**
+   * Whether repeating the call is harmless. Non-idempotent calls (sending a
+   * message) are only retried when the service rejected them outright, since a
+   * timeout or server error may hide a call that went through.
+   */
+  idempotent?: boolean
+}
+
+const DEFAULT_BULKHEAD: Omit<BulkheadConfig, 'name'> = {
+  maxConcurrent: 10,
+  maxQueue: 50
+}
+
+/**
+ * Bulkhead -> retry -> circuit breaker -> timeout, so every attempt is
+ * counted by the breaker and an open circuit stops the retries
+ */
+export class ResiliencePolicy {
+  readonly breaker: CircuitBreaker
+  private bulkhead: Bulkhead | null
+  private retry: RetryConfig | null
+  private timeout: number
+
+  constructor(
+    readonly name: string,
+    config: ResilienceConfig = {},
+    defaultTimeout = 30000
+  ) {
+    const manager = config.manager ?? CircuitBreakerManager.getInstance()
+
+    this.breaker = manager.getOrCreate(name, config.circuitBreaker)
+    this.retry = config.retry === false ? null : { ...DEFAULT_RETRY_CONFIG, ...config.retry, name }
+    this.bulkhead =
+      config.bulkhead === false
+        ? null
+        : new Bulkhead({ ...DEFAULT_BULKHEAD, ...config.bulkhead, name })
+    this.timeout = config.timeout ?? defaultTimeout
+  }
+
+  /**
+   * Execute a connector call under the policy.
+   *
+   * Connector calls can't be cancelled, so an attempt that timed out keeps
+   * running: it is not retried and holds its bulkhead slot until it settles.
+   * fn gets a signal that aborts on the timeout to clean up what it opened.
+   */
+  async execute<R>(
+    operation: string,
+    fn: (signal: AbortSignal) => Promise<R>,
+    options: ResilienceCallOptions = {}
+  ): Promise<R> {
+    const calls: Promise<R>[] = []
+    let timedOut = false
+
+    const attempt = () =>
+      this.breaker.execute(() => {
+        const controller = new AbortController()
+        const call = fn(controller.signal)
+        calls.push(call)
+
+        return this.timeout > 0
+          ? withTimeout(call, {
+              timeoutMs: this.timeout,
+              operation: `${this.name}.${operation}`,
+              onTimeout: () => {
+                timedOut = true
+                controller.abort()
+              }
+            })
+          : call
+      })
+
+    const retry = this.retry
+    const guarded = retry
+      ? () =>
+          retryWithBackoff(attempt, {
+            ...retry,
+            isRetryable: error =>
+              !timedOut &&
+              (options.idempotent === false ? isRateLimitError(error) : true) &&
+              retry.isRetryable(error)
+          })
+      : attempt
+
+    return this.bulkhead
+      ? this.bulkhead.execute(guarded, () => Promise.allSettled(calls))
+      : guarded()
+  }
+
+  /**
+   * Fold the breaker state into a connector's own health report
+   */
+  applyToHealth(health: HealthStatus): HealthStatus {
+    const state = this.breaker.getState()
+    const details = {
+      ...health.details,
+      circuitBreaker: this.breaker.getStats(),
+      bulkhead: this.getBulkheadStats()
+    }
+
+    if (state === CircuitState.OPEN) {
+      return { ...health, status: 'unhealthy', message: `Circuit open for ${this.name}`, details }
+    }
+
+    if (state === CircuitState.HALF_OPEN && health.status === 'healthy') {
+      return { ...health, status: 'degraded', message: `Recovering ${this.name}`, details }
+    }
+
+    return { ...health, details }
+  }
+
+  getBulkheadStats(): BulkheadStats | null {
+    return this.bulkhead?.getStats() ?? null
+  }
+}
+
+/**
+ * AI connector whose provider calls go through a ResiliencePolicy
  */
+export class ResilientAIConnector implements AIConnector {
+  public readonly id: string
+  public readonly name: string
+  public readonly version: string
+  public readonly type = ConnectorType.AI
+
+  readonly policy: ResiliencePolicy
+
+  constructor(
+    private connector: AIConnector,
+    config: ResilienceConfig = {}
+  ) {
+    this.id = `resilient-${connector.id}`
+    this.name = `Resilient ${connector.name}`
+    this.version = connector.version
+    this.policy = new ResiliencePolicy(config.name ?? `ai:${connector.id}`, config)
+  }
+
+  async initialize(config: ConnectorConfig): Promise<void> {
+    await this.connector.initialize(config)
+  }
+
+  isReady(): boolean {
+    return this.connector.isReady()
+  }
+
+  validateConfig(config: ConnectorConfig): ValidationResult {
+    return this.connector.validateConfig(config)
+  }
+
+  getCapabilities(): ConnectorCapabilities {
+    return this.connector.getCapabilities()
+  }
+
+  async getHealthStatus(): Promise<HealthStatus> {
+    return this.policy.applyToHealth(await this.connector.getHealthStatus())
+  }
+
+  async destroy(): Promise<void> {
+    await this.connector.destroy()
+  }
+
+  getAICapabilities(): AICapabilities {
+    return this.connector.getAICapabilities()
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    return this.policy.execute('complete', () => this.connector.complete(request))
+  }
+
+  /**
+   * Only opening the stream is protected: retrying or timing out a stream that
+   * already produced chunks would duplicate or truncate the answer.
+   * Streams that failed to open, timed out or were left early are closed.
+   */
+  async *stream(request: CompletionRequest): AsyncGenerator<StreamChunk, void, unknown> {
+    const stream = this.connector.stream?.bind(this.connector)
+    if (!stream) {
+      throw new Error('Streaming not supported by underlying connector')
+    }
+
+    const { iterator, first } = await this.policy.execute('stream', async signal => {
+      const iterator = stream(request)
+      signal.addEventListener('abort', () => void closeIterator(iterator), { once: true })
+
+      try {
+        return { iterator, first: await iterator.next() }
+      } catch (error) {
+        await closeIterator(iterator)
+        throw error
+      }
+    })
+
+    let result = first
+    try {
+      while (!result.done) {
+        yield result.value
+        result = await iterator.next()
+      }
+    } finally {
+      if (!result.done) {
+        await closeIterator(iterator)
+      }
+    }
+  }
+
+  async embeddings(texts: string | string[]): Promise<Embedding[]> {
+    const embeddings = this.connector.embeddings?.bind(this.connector)
+    if (!embeddings) {
+      throw new Error('Embeddings not supported by underlying connector')
+    }
+
+    return this.policy.execute('embeddings', () => embeddings(texts))
+  }
+
+  async vision(images: VisionInput[], prompt: string): Promise<VisionResponse> {
+    const vision = this.connector.vision?.bind(this.connector)
+    if (!vision) {
+      throw new Error('Vision not supported by underlying connector')
+    }
+
+    return this.policy.execute('vision', () => vision(images, prompt))
+  }
+
+  async audio(audio: AudioInput, options?: AudioOptions): Promise<AudioResponse> {
+    const transcribe = this.connector.audio?.bind(this.connector)
+    if (!transcribe) {
+      throw new Error('Audio not supported by underlying connector')
+    }
+
+    return this.policy.execute('audio', () => transcribe(audio, options))
+  }
+
+  async listModels(): Promise<Model[]> {
+    const listModels = this.connector.listModels?.bind(this.connector)
+    if (!listModels) {
+      throw new Error('Model listing not supported by underlying connector')
+    }
+
+    return this.policy.execute('listModels', () => listModels())
+  }
+
+  async getModelInfo(modelId: string): Promise<ModelInfo> {
+    return this.policy.execute('getModelInfo', () => this.connector.getModelInfo(modelId))
+  }
 
-import type { CircuitBreakerConfig } from './circuit-breaker'
+  calculateCost(usage: Usage): Cost {
+    return this.connector.calculateCost(usage)
+  }
 
-import { logger } from '@/lib/logger'
+  async validateCredentials(): Promise<boolean> {
+    return this.policy.execute('validateCredentials', () => this.connector.validateCredentials())
+  }
+}
 
 /**
- * Placeholder for ResilientAIConnector
- * Will be reimplemented to match new AIConnector interface
+ * Let the provider release the connection behind a stream nobody reads
  */
-export class ResilientAIConnector {
-  constructor(_connector: unknown, _config?: Partial<CircuitBreakerConfig>) {
-    logger.warn('ResilientAIConnector is temporarily disabled - needs update for new interface')
+async function closeIterator(iterator: AsyncIterator<unknown>): Promise<void> {
+  try {
+    await iterator.return?.()
+  } catch {
+    // The stream already failed
   }
 }
 
 /**
- * Placeholder for ResilientMessagingConnector
- * Will be reimplemented to match new MessagingConnector interface
+ * Messaging connector whose outgoing platform calls go through a ResiliencePolicy.
+ * Incoming webhooks are passed straight through.
  */
-export class ResilientMessagingConnector {
-  constructor(_connector: unknown, _config?: Partial<CircuitBreakerConfig>) {
-    logger.warn(
-      'ResilientMessagingConnector is temporarily disabled - needs update for new interface'
+export class ResilientMessagingConnector implements MessagingConnector {
+  public readonly id: string
+  public readonly name: string
+  public readonly version: string
+  public readonly type = ConnectorType.MESSAGING
+
+  readonly policy: ResiliencePolicy
+
+  constructor(
+    private connector: MessagingConnector,
+    config: ResilienceConfig = {}
+  ) {
+    this.id = `resilient-${connector.id}`
+    this.name = `Resilient ${connector.name}`
+    this.version = connector.version
+    this.policy = new ResiliencePolicy(config.name ?? `messaging:${connector.id}`, config, 10000)
+  }
+
+  async initialize(config: ConnectorConfig): Promise<void> {
+    await this.connector.initialize(config)
+  }
+
+  isReady(): boolean {
+    return this.connector.isReady()
+  }
+
+  validateConfig(config: ConnectorConfig): ValidationResult {
+    return this.connector.validateConfig(config)
+  }
+
+  getCapabilities(): ConnectorCapabilities {
+    return this.connector.getCapabilities()
+  }
+
+  async getHealthStatus(): Promise<HealthStatus> {
+    return this.policy.applyToHealth(await this.connector.getHealthStatus())
+  }
+
+  async destroy(): Promise<void> {
+    await this.connector.destroy()
+  }
+
+  getMessagingCapabilities(): MessagingCapabilities {
+    return this.connector.getMessagingCapabilities()
+  }
+
+  async sendMessage(recipient: string, message: UnifiedMessage): Promise<MessageResult> {
+    return this.policy.execute(
+      'sendMessage',
+      () => this.connector.sendMessage(recipient, message),
+      { idempotent: false }
     )
   }
+
+  async sendBulk(recipients: string[], message: UnifiedMessage): Promise<BulkMessageResult> {
+    return this.policy.execute('sendBulk', () => this.connector.sendBulk(recipients, message), {
+      idempotent: false
+    })
+  }
+
+  async editMessage(target: MessageRef | string, message: UnifiedMessage): Promise<MessageResult> {
+    return this.policy.execute('editMessage', () => this.connector.editMessage(target, message))
+  }
+
+  async deleteMessage(target: MessageRef | string): Promise<void> {
+    return this.policy.execute('deleteMessage', () => this.connector.deleteMessage(target))
+  }
+
+  async handleWebhook(request: Request): Promise<Response> {
+    return this.connector.handleWebhook(request)
+  }
+
+  async validateWebhook(request: Request): Promise<boolean> {
+    return this.connector.validateWebhook(request)
+  }
+
+  async setCommands(commands: BotCommand[]): Promise<void> {
+    return this.policy.execute('setCommands', () => this.connector.setCommands(commands))
+  }
+
+  async setWebhook(url: string, options?: WebhookOptions): Promise<void> {
+    return this.policy.execute('setWebhook', () => this.connector.setWebhook(url, options))
+  }
 }
 
 /**
- * Factory function placeholder
- * Currently returns connector without wrapping
+ * What withResilience returns for a connector type
+ */
+export type ResilientConnector<T extends Connector> = T extends AIConnector
+  ? AIConnector
+  : T extends MessagingConnector
+    ? MessagingConnector
+    : T
+
+/**
+ * Wrap an AI or messaging connector; other connector types are returned as is
  */
-export function withResilience<T>(connector: T, _config?: Partial<CircuitBreakerConfig>): T {
-  logger.warn('withResilience is temporarily bypassed - resilient wrappers need update')
-  return connector
+export function withResilience<T extends Connector>(
+  connector: T,
+  config?: ResilienceConfig
+): ResilientConnector<T> {
+  let wrapped: Connector = connector
+
+  switch (connector.type) {
+    case ConnectorType.AI:
+      wrapped = new ResilientAIConnector(connector as unknown as AIConnector, config)
+      break
+    case ConnectorType.MESSAGING:
+      wrapped = new ResilientMessagingConnector(connector as unknown as MessagingConnector, config)
+      break
+  }
+
+  return wrapped as ResilientConnector<T>
 }
@@ -0,0 +1,142 @@
+/**
+ * Retry with jittered exponential backoff
+ *
+ * Only errors that say the call may succeed later are retried: timeouts,
+ * rate limits, server errors and errors that flag themselves as retryable
+ */
+
+import { BulkheadRejectedError } from './bulkhead'
+import { CircuitOpenError } from './circuit-breaker'
+
+import { logger } from '@/lib/logger'
+import { TimeoutError } from '@/lib/timeout-wrapper'
+
+export interface RetryConfig {
+  /** Total attempts including the first call */
+  maxAttempts: number
+  /** Upper bound of the first backoff (ms) */
+  baseDelay: number
+  /** Cap for any single backoff, including Retry-After hints (ms) */
+  maxDelay: number
+  /** Decide whether an error is worth another attempt */
+  isRetryable: (error: unknown) => boolean
+  /** Optional name for logging */
+  name?: string
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  baseDelay: 200,
+  maxDelay: 5000,
+  isRetryable: isRetryableError
+}
+
+/**
+ * Execute function, retrying retryable failures
+ */
+export async function retryWithBackoff<R>(
+  fn: (attempt: number) => Promise<R>,
+  config: RetryConfig = DEFAULT_RETRY_CONFIG
+): Promise<R> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      if (attempt >= config.maxAttempts || !config.isRetryable(error)) {
+        throw error
+      }
+
+      const retryAfter = getRetryAfter(error)
+      if (retryAfter !== null && retryAfter > config.maxDelay) {
+        // The service asked for a longer pause than we are willing to hold the request
+        throw error
+      }
+
+      const delay = retryAfter ?? getBackoffDelay(attempt, config)
+
+      logger.warn('Retrying after failure', {
+        name: config.name,
+        attempt,
+        maxAttempts: config.maxAttempts,
+        delay,
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
+
+/**
+ * "Full jitter": a random delay up to the exponential bound spreads retries
+ * of concurrent callers instead of sending them back in lockstep
+ */
+export function getBackoffDelay(
+  attempt: number,
+  config: Pick<RetryConfig, 'baseDelay' | 'maxDelay'>
+): number {
+  const bound = Math.min(config.maxDelay, config.baseDelay * 2 ** (attempt - 1))
+  return Math.floor(Math.random() * bound)
+}
+
+/**
+ * Default retry policy
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError || error instanceof BulkheadRejectedError) {
+    return false
+  }
+
+  if (error instanceof TimeoutError) {
+    return true
+  }
+
+  if (!error || typeof error !== 'object') {
+    return false
+  }
+
+  const flags = error as { retryable?: unknown; nonRetryable?: unknown }
+  if (typeof flags.retryable === 'boolean') {
+    return flags.retryable
+  }
+  if (flags.nonRetryable === true) {
+    return false
+  }
+
+  const status = getStatusCode(error)
+  return status !== null && (status === 429 || status >= 500)
+}
+
+/**
+ * The service refused the call outright, so sending it again cannot duplicate it
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return !!error && typeof error === 'object' && getStatusCode(error) === 429
+}
+
+/**
+ * HTTP-like status of an error (grammY's error_code, fetch-style status)
+ */
+function getStatusCode(error: object): number | null {
+  for (const field of ['error_code', 'status', 'statusCode']) {
+    const value = (error as Record<string, unknown>)[field]
+    if (typeof value === 'number') {
+      return value
+    }
+  }
+  return null
+}
+
+/**
+ * Retry-After hint in ms (Telegram's parameters.retry_after is in seconds)
+ */
+function getRetryAfter(error: unknown): number | null {
+  if (!error || typeof error !== 'object') {
+    return null
+  }
+
+  const hints = error as { retryAfter?: unknown; parameters?: { retry_after?: unknown } }
+  const seconds = hints.parameters?.retry_after ?? hints.retryAfter
+
+  return typeof seconds === 'number' && seconds >= 0 ? seconds * 1000 : null
+}
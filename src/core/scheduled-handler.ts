@@ -1,7 +1,11 @@
 import { logger } from '../lib/logger'
 
+import type { NotificationConnector } from '@/connectors/notification-connector'
 import { getCloudPlatformConnector } from '@/core/cloud/cloud-platform-cache'
+import { createBroadcastService, createNotificationConnector } from '@/core/notification-delivery'
+import { UniversalAuditLogService } from '@/core/services/audit-log-service'
 import { MultiLayerCache } from '@/lib/multi-layer-cache'
+import type { BroadcastService } from '@/services/broadcast-service'
 import { SessionService } from '@/services/session-service'
 import type { Env } from '@/types'
 
@@ -37,6 +41,35 @@ export async function handleScheduled(event: ScheduledEvent, env: Env, ctx: Exec
       }
     }
 
+    // Scheduled notifications and retries the queue did not pick up
+    const notifications = createNotificationConnector(env)
+    if (notifications) {
+      ctx.waitUntil(
+        deliverDueNotifications(notifications).catch(error => {
+          logger.error('Notification delivery failed', { error })
+        })
+      )
+    }
+
+    // Broadcast steps the queue did not pick up, or all of them without a queue
+    const broadcasts = createBroadcastService(env)
+    if (broadcasts) {
+      ctx.waitUntil(
+        runBroadcastStep(broadcasts).catch(error => {
+          logger.error('Broadcast delivery failed', { error })
+        })
+      )
+    }
+
+    // Audit log retention
+    if (env.DB) {
+      ctx.waitUntil(
+        pruneAuditLog(env).catch(error => {
+          logger.error('Audit log pruning failed', { error })
+        })
+      )
+    }
+
     // Add other scheduled tasks here
     // For example: sending daily reminders, aggregating statistics, etc.
 
@@ -48,6 +81,43 @@ export async function handleScheduled(event: ScheduledEvent, env: Env, ctx: Exec
   }
 }
 
+/**
+ * Deliver scheduled notifications and retries that are due
+ */
+async function deliverDueNotifications(connector: NotificationConnector): Promise<void> {
+  const results = await connector.deliverDue()
+  if (results.length) {
+    logger.info('Due notifications delivered', { count: results.length })
+  }
+}
+
+/**
+ * Deliver the next slice of a due broadcast campaign
+ */
+async function runBroadcastStep(broadcasts: BroadcastService): Promise<void> {
+  const broadcast = await broadcasts.runStep()
+  if (broadcast) {
+    logger.info('Broadcast step delivered', { broadcastId: broadcast.id, status: broadcast.status })
+  }
+}
+
+/**
+ * Drop audit log entries older than AUDIT_RETENTION_DAYS
+ */
+async function pruneAuditLog(env: Env): Promise<void> {
+  const days = env.AUDIT_RETENTION_DAYS ? Number(env.AUDIT_RETENTION_DAYS) : 90
+  if (!days) {
+    return
+  }
+
+  const cloudConnector = getCloudPlatformConnector(env)
+  const auditLog = new UniversalAuditLogService({
+    db: cloudConnector.getDatabaseStore('DB'),
+    checkpoints: env.CACHE ? cloudConnector.getKeyValueStore('CACHE') : null
+  })
+  await auditLog.prune({ maxAgeDays: days })
+}
+
 /**
  * Clean up expired sessions
  */
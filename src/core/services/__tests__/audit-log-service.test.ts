@@ -0,0 +1,186 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import migration from '../../../../migrations/0014_audit_log.sql?raw'
+import { parseMigrationFile, splitStatements } from '../../database/migration-sql'
+import { GENESIS_HASH, UniversalAuditLogService, exportAuditLog } from '../audit-log-service'
+
+import { createTestDatabase } from '@/__tests__/utils/test-database'
+import { CloudflareKeyValueStore } from '@/connectors/cloud/cloudflare/stores/kv-store'
+
+const { DB, CACHE } = env as unknown as { DB: D1Database; CACHE: KVNamespace }
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('UniversalAuditLogService', () => {
+  let service: UniversalAuditLogService
+  let database: Awaited<ReturnType<typeof createTestDatabase>>
+
+  beforeEach(async () => {
+    database = await createTestDatabase(DB)
+    for (const statement of splitStatements(
+      parseMigrationFile('0014_audit_log.sql', migration).up
+    )) {
+      await DB.prepare(statement).run()
+    }
+
+    service = new UniversalAuditLogService({ db: database.db })
+  })
+
+  it('links every entry to the one before it', async () => {
+    const first = await service.append({
+      action: 'command.roles',
+      userId: 'telegram_1',
+      result: 'success',
+      metadata: { args: 'grant 2 support' }
+    })
+    const second = await service.append({ action: 'command.broadcast', result: 'failure' })
+
+    expect(first).toMatchObject({
+      id: 1,
+      prevHash: GENESIS_HASH,
+      metadata: { args: 'grant 2 support' }
+    })
+    expect(second.prevHash).toBe(first.hash)
+    expect(await service.verify()).toEqual({ valid: true, checked: 2, head: second.hash })
+  })
+
+  it('detects edited and deleted entries', async () => {
+    for (const action of ['a.one', 'a.two', 'a.three']) {
+      await service.append({ action, result: 'success' })
+    }
+
+    await DB.prepare("UPDATE audit_log SET user_id = 'telegram_9' WHERE id = 2").run()
+    expect(await service.verify()).toMatchObject({ valid: false, checked: 1, brokenAt: 2 })
+
+    await DB.prepare('UPDATE audit_log SET user_id = NULL WHERE id = 2').run()
+    await DB.prepare('DELETE FROM audit_log WHERE id = 2').run()
+    expect(await service.verify()).toMatchObject({ valid: false, brokenAt: 3 })
+  })
+
+  it('filters by user, action prefix and date range', async () => {
+    const now = Date.now()
+    await service.append({
+      action: 'command.roles',
+      userId: 'telegram_1',
+      result: 'success',
+      createdAt: new Date(now - 3 * DAY)
+    })
+    await service.append({ action: 'command.audit', userId: 'telegram_1', result: 'success' })
+    await service.append({ action: 'security.blocked', userId: 'telegram_2', result: 'failure' })
+    await service.append({ action: 'commandx', userId: 'telegram_2', result: 'success' })
+
+    const byUser = await service.query({ userId: 'telegram_1' })
+    expect(byUser.map(entry => entry.action)).toEqual(['command.audit', 'command.roles'])
+
+    const commands = await service.query({ action: 'command.*' })
+    expect(commands).toHaveLength(2)
+
+    const recent = await service.query({ action: 'command.*', from: new Date(now - DAY) })
+    expect(recent.map(entry => entry.action)).toEqual(['command.audit'])
+
+    expect(await service.count({ result: 'failure' })).toBe(1)
+    expect(await service.query({ limit: 1, beforeId: 3 })).toMatchObject([{ id: 2 }])
+  })
+
+  it('prunes old entries and keeps the rest verifiable', async () => {
+    const now = Date.now()
+    for (let i = 0; i < 5; i++) {
+      await service.append({
+        action: `step.${i}`,
+        result: 'success',
+        createdAt: new Date(now - (10 - 2 * i) * DAY)
+      })
+    }
+
+    expect(await service.prune({ maxAgeDays: 7 })).toBe(2)
+    expect(await service.verify()).toMatchObject({ valid: true, checked: 3 })
+
+    expect(await service.prune({ maxEntries: 1 })).toBe(2)
+    expect(await service.prune({ maxAgeDays: 7, maxEntries: 1 })).toBe(0)
+
+    // New entries continue the chain from the survivor
+    await service.append({ action: 'step.5', result: 'success' })
+    expect(await service.verify()).toMatchObject({ valid: true, checked: 2 })
+
+    // Removing the oldest entry by hand is still visible
+    await DB.prepare('DELETE FROM audit_log WHERE id = (SELECT MIN(id) FROM audit_log)').run()
+    expect(await service.verify()).toMatchObject({ valid: false })
+  })
+
+  it('retries when another writer appended first', async () => {
+    const head = await service.append({ action: 'a.one', result: 'success' })
+    // A stale head from another isolate: same prev_hash as the next append
+    await DB.prepare(
+      `INSERT INTO audit_log (action, result, created_at, prev_hash, hash)
+       VALUES ('a.other', 'success', ?, ?, 'x')`
+    )
+      .bind(new Date().toISOString(), head.hash)
+      .run()
+
+    const entry = await service.append({ action: 'a.two', result: 'success' })
+    expect(entry.prevHash).toBe('x')
+  })
+
+  it('detects deleted newest entries and a moved anchor with mirrored checkpoints', async () => {
+    const checkpoints = new CloudflareKeyValueStore(CACHE)
+    service = new UniversalAuditLogService({ db: database.db, checkpoints })
+    const now = Date.now()
+    for (const [i, age] of [10, 9, 3, 2].entries()) {
+      await service.append({
+        action: `step.${i}`,
+        result: 'success',
+        createdAt: new Date(now - age * DAY)
+      })
+    }
+    expect(await service.prune({ maxAgeDays: 7 })).toBe(2)
+    expect(await service.verify()).toMatchObject({ valid: true, checked: 2 })
+
+    await DB.prepare('DELETE FROM audit_log WHERE id = 4').run()
+    expect(await service.verify()).toMatchObject({ valid: false, checked: 1, brokenAt: 4 })
+
+    // Moving the anchor past the surviving entry, as a prune would
+    const third = await DB.prepare('SELECT hash FROM audit_log WHERE id = 3').first<{
+      hash: string
+    }>()
+    await DB.prepare('UPDATE audit_log_anchor SET entry_id = 3, hash = ? WHERE id = 1')
+      .bind(third?.hash)
+      .run()
+    await DB.prepare('DELETE FROM audit_log WHERE id = 3').run()
+    expect(await service.verify()).toMatchObject({ valid: false, checked: 0 })
+
+    // Without the mirror both edits go unnoticed
+    expect(await new UniversalAuditLogService({ db: database.db }).verify()).toMatchObject({
+      valid: true
+    })
+  })
+})
+
+describe('exportAuditLog', () => {
+  const entries = [
+    {
+      id: 1,
+      action: 'command.roles',
+      userId: 'telegram_1',
+      result: 'success' as const,
+      metadata: { args: 'create support, "team"' },
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      prevHash: GENESIS_HASH,
+      hash: 'abc'
+    }
+  ]
+
+  it('escapes CSV fields', () => {
+    expect(exportAuditLog(entries, 'csv')).toBe(
+      'id,created_at,user_id,action,resource,result,metadata,hash\r\n' +
+        '1,2025-01-01T00:00:00.000Z,telegram_1,command.roles,,success,' +
+        '"{""args"":""create support, \\""team\\""""}",abc\r\n'
+    )
+  })
+
+  it('exports JSON', () => {
+    expect(JSON.parse(exportAuditLog(entries, 'json'))).toMatchObject([
+      { id: 1, action: 'command.roles', createdAt: '2025-01-01T00:00:00.000Z' }
+    ])
+  })
+})
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { NotificationService } from '../notification-service'
+
+import type { INotificationConnector, NotificationMessage } from '@/core/interfaces/notification'
+import {
+  NotificationCategory,
+  NotificationPriority,
+  NotificationStatus
+} from '@/core/interfaces/notification'
+import type {
+  IUserPreferenceService,
+  NotificationPreferences
+} from '@/core/interfaces/user-preference'
+
+const categories = {
+  [NotificationCategory.AUCTION]: true,
+  [NotificationCategory.BALANCE]: true,
+  [NotificationCategory.SERVICE]: true,
+  [NotificationCategory.SYSTEM]: true
+}
+
+describe('NotificationService', () => {
+  let connector: INotificationConnector
+  let preferences: NotificationPreferences
+  let userPreferenceService: IUserPreferenceService
+  let service: NotificationService
+
+  const sentMessage = (): NotificationMessage =>
+    vi.mocked(connector.send).mock.calls[0]?.[0] as NotificationMessage
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    // 23:30 in Bangkok
+    vi.setSystemTime(new Date('2030-01-01T16:30:00.000Z'))
+
+    preferences = {
+      enabled: true,
+      categories: { ...categories },
+      quiet_hours: { enabled: true, start: '22:00', end: '08:00', timezone: 'Asia/Bangkok' }
+    }
+    connector = {
+      send: vi.fn().mockResolvedValue({ messageId: 'msg', status: NotificationStatus.SENT }),
+      sendBatch: vi.fn().mockResolvedValue([]),
+      getStatus: vi.fn(),
+      retry: vi.fn()
+    } as unknown as INotificationConnector
+    userPreferenceService = {
+      getNotificationPreferences: vi.fn(async () => preferences),
+      updateNotificationPreferences: vi.fn()
+    }
+
+    service = new NotificationService({
+      connector,
+      userPreferenceService,
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      eventBus: { emit: vi.fn(), on: vi.fn(), off: vi.fn(), once: vi.fn() }
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should skip categories the user disabled', async () => {
+    preferences.categories[NotificationCategory.BALANCE] = false
+
+    await service.send(
+      '123',
+      'low-balance',
+      { type: 'balance', data: {} },
+      NotificationCategory.BALANCE
+    )
+
+    expect(connector.send).not.toHaveBeenCalled()
+  })
+
+  it('should defer notifications to the end of quiet hours in the user timezone', async () => {
+    await service.send('123', 'welcome', { type: 'system', data: {} })
+
+    // 08:00 Bangkok time
+    expect(sentMessage().scheduledAt).toEqual(new Date('2030-01-02T01:00:00.000Z'))
+  })
+
+  it('should let urgent notifications bypass quiet hours', async () => {
+    await service.send('123', 'security-alert', {
+      type: 'system',
+      data: {},
+      priority: NotificationPriority.URGENT
+    })
+
+    expect(sentMessage().priority).toBe(NotificationPriority.URGENT)
+    expect(sentMessage().scheduledAt).toBeUndefined()
+  })
+
+  it('should send immediately outside quiet hours or when they are disabled', async () => {
+    preferences.quiet_hours = {
+      enabled: true,
+      start: '01:00',
+      end: '07:00',
+      timezone: 'Asia/Bangkok'
+    }
+    await service.send('123', 'welcome', { type: 'system', data: {} })
+
+    preferences.quiet_hours = {
+      enabled: false,
+      start: '22:00',
+      end: '08:00',
+      timezone: 'Asia/Bangkok'
+    }
+    await service.send('123', 'welcome', { type: 'system', data: {} })
+
+    const calls = vi.mocked(connector.send).mock.calls
+    expect(calls.map(([message]) => message.scheduledAt)).toEqual([undefined, undefined])
+  })
+
+  it('should ignore quiet hours with an unknown timezone', async () => {
+    preferences.quiet_hours = { enabled: true, start: '00:00', end: '23:59', timezone: 'Mars/Base' }
+
+    await service.send('123', 'welcome', { type: 'system', data: {} })
+
+    expect(sentMessage().scheduledAt).toBeUndefined()
+  })
+
+  it('should defer batch messages per recipient', async () => {
+    const quietHours = new Map<string, NotificationPreferences['quiet_hours']>([
+      ['1', { enabled: true, start: '22:00', end: '08:00', timezone: 'Asia/Bangkok' }],
+      ['2', { enabled: true, start: '22:00', end: '08:00', timezone: 'Europe/London' }]
+    ])
+    vi.mocked(userPreferenceService.getNotificationPreferences).mockImplementation(
+      async userId => ({
+        enabled: true,
+        categories,
+        quiet_hours: quietHours.get(userId)
+      })
+    )
+
+    await service.sendBatch(['1', '2'], 'news', { type: 'news', data: {} })
+
+    const [messages] = vi.mocked(connector.sendBatch).mock.calls[0] as [NotificationMessage[]]
+    expect(messages.map(message => message.scheduledAt)).toEqual([
+      new Date('2030-01-02T01:00:00.000Z'),
+      // 16:30 in London is outside the window
+      undefined
+    ])
+  })
+})
@@ -0,0 +1,96 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { NotificationHistoryStore } from '../notification-store'
+
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+import type { NotificationMessage } from '@/core/interfaces/notification'
+import {
+  NotificationCategory,
+  NotificationPriority,
+  NotificationStatus
+} from '@/core/interfaces/notification'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+const message: NotificationMessage = {
+  id: 'msg_1',
+  recipientId: '123',
+  category: NotificationCategory.SYSTEM,
+  priority: NotificationPriority.HIGH,
+  template: 'Good morning',
+  scheduledAt: new Date('2030-01-02T09:00:00.000Z')
+}
+
+describe('NotificationHistoryStore', () => {
+  let store: NotificationHistoryStore
+
+  beforeEach(async () => {
+    await DB.prepare('DROP TABLE IF EXISTS notification_history').run()
+    await DB.prepare(
+      `CREATE TABLE notification_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id TEXT NOT NULL UNIQUE,
+        recipient_id TEXT NOT NULL,
+        template TEXT NOT NULL,
+        category TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        retry_count INTEGER DEFAULT 0,
+        sent_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        payload TEXT,
+        next_attempt_at TIMESTAMP,
+        updated_at TIMESTAMP
+      )`
+    ).run()
+    store = new NotificationHistoryStore(new CloudflareDatabaseStore(DB))
+  })
+
+  it('should list and claim messages once they are due', async () => {
+    const dueAt = new Date('2030-01-02T09:00:00.000Z')
+    await store.save(message, { messageId: 'msg_1', status: NotificationStatus.PENDING }, dueAt)
+
+    expect(await store.listDue(new Date('2030-01-02T08:59:00.000Z'), 10)).toEqual([])
+    expect(await store.listDue(dueAt, 10)).toEqual(['msg_1'])
+
+    const claimed = await store.claim('msg_1', dueAt, new Date('2030-01-02T09:05:00.000Z'))
+
+    expect(claimed).toEqual(message)
+    expect(claimed?.scheduledAt).toBeInstanceOf(Date)
+    expect((await store.getResult('msg_1'))?.status).toBe(NotificationStatus.SENDING)
+  })
+
+  it('should let only one worker claim a message until its lease expires', async () => {
+    const now = new Date('2030-01-02T09:00:00.000Z')
+    const leaseUntil = new Date('2030-01-02T09:05:00.000Z')
+    await store.save(message, { messageId: 'msg_1', status: NotificationStatus.RETRY }, now)
+
+    expect(await store.claim('msg_1', now, leaseUntil)).not.toBeNull()
+    expect(await store.claim('msg_1', now, leaseUntil)).toBeNull()
+    expect(await store.claim('msg_1', leaseUntil, new Date('2030-01-02T09:10:00.000Z'))).toEqual(
+      message
+    )
+  })
+
+  it('should record delivery results', async () => {
+    const deliveredAt = new Date('2030-01-02T09:00:01.000Z')
+    await store.save(message, {
+      messageId: 'msg_1',
+      status: NotificationStatus.SENT,
+      deliveredAt,
+      retryCount: 1
+    })
+
+    expect(await store.getResult('msg_1')).toEqual({
+      messageId: 'msg_1',
+      status: NotificationStatus.SENT,
+      error: undefined,
+      retryCount: 1,
+      deliveredAt,
+      nextRetryAt: undefined
+    })
+    expect(await store.listDue(new Date('2031-01-01T00:00:00.000Z'), 10)).toEqual([])
+    expect(await store.claim('msg_1', new Date('2031-01-01T00:00:00.000Z'), new Date())).toBeNull()
+  })
+})
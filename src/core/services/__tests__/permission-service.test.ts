@@ -0,0 +1,136 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import migration from '../../../../migrations/0013_permissions.sql?raw'
+import { parseMigrationFile, splitStatements } from '../../database/migration-sql'
+import {
+  RoleManagementError,
+  UniversalPermissionService,
+  matchesPermission
+} from '../permission-service'
+
+import { createTestDatabase } from '@/__tests__/utils/test-database'
+import type { RoleService } from '@/core/interfaces/role-system'
+import { UserRole } from '@/core/interfaces/role-system'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+const ROLES: Record<string, UserRole> = {
+  telegram_1: UserRole.OWNER,
+  telegram_2: UserRole.ADMIN
+}
+
+describe('UniversalPermissionService', () => {
+  let service: UniversalPermissionService
+
+  beforeEach(async () => {
+    const database = await createTestDatabase(DB)
+    for (const statement of splitStatements(
+      parseMigrationFile('0013_permissions.sql', migration).up
+    )) {
+      await DB.prepare(statement).run()
+    }
+
+    const roleService = {
+      getUserRole: vi.fn(async (userId: string) => ROLES[userId] ?? null),
+      hasAccess: vi.fn(async (userId: string) => userId === 'telegram_3')
+    } as unknown as RoleService
+
+    service = new UniversalPermissionService({ db: database.db, roleService })
+  })
+
+  it('gives owners every permission', async () => {
+    expect(await service.getPermissions('telegram_1')).toEqual(['*'])
+    expect(await service.hasPermission('telegram_1', 'payments.refund')).toBe(true)
+  })
+
+  it('gives the built-in roles their seeded permissions', async () => {
+    expect(await service.getPermissions('telegram_2')).toEqual([
+      'access.requests',
+      'ai.unlimited',
+      'knowledge.manage'
+    ])
+    expect(await service.hasPermission('telegram_2', 'broadcast.send')).toBe(false)
+    expect(await service.getPermissions('telegram_3')).toEqual([])
+  })
+
+  it('lets owners change what built-in roles may do', async () => {
+    await service.allowPermissions('user', ['ai.unlimited'])
+
+    // Users with access but no user_roles row count as 'user'
+    expect(await service.hasPermission('telegram_3', 'ai.unlimited')).toBe(true)
+    expect(await service.hasPermission('telegram_4', 'ai.unlimited')).toBe(false)
+  })
+
+  it('grants custom roles globally and per chat', async () => {
+    await service.createRole('support', 'Support team', 'telegram_1')
+    await service.allowPermissions('support', ['payments.*', 'broadcast.send'])
+    await service.grantRole({ userId: 'telegram_5', role: 'support', chatId: '-100' })
+
+    expect(await service.hasPermission('telegram_5', 'payments.refund', '-100')).toBe(true)
+    expect(await service.hasPermission('telegram_5', 'payments.refund', '-200')).toBe(false)
+    expect(await service.hasPermission('telegram_5', 'payments.refund')).toBe(false)
+
+    await service.grantRole({ userId: 'telegram_5', role: 'support', chatId: null })
+    expect(await service.hasPermission('telegram_5', 'broadcast.send', '-200')).toBe(true)
+
+    expect(await service.getGrants('telegram_5')).toMatchObject([
+      { role: 'support', chatId: null },
+      { role: 'support', chatId: '-100' }
+    ])
+  })
+
+  it('revokes grants and deletes roles with their grants', async () => {
+    await service.createRole('support')
+    await service.allowPermissions('support', ['payments.refund'])
+    await service.grantRole({ userId: 'telegram_5', role: 'support', chatId: null })
+
+    expect(await service.revokeRole('telegram_5', 'support', '-100')).toBe(false)
+    expect(await service.revokeRole('telegram_5', 'support')).toBe(true)
+
+    await service.grantRole({ userId: 'telegram_5', role: 'support', chatId: null })
+    await service.deleteRole('support')
+
+    expect(await service.getRole('support')).toBeNull()
+    expect(await service.getGrants('telegram_5')).toEqual([])
+    expect(await service.getPermissions('telegram_5')).toEqual([])
+  })
+
+  it('lists roles with their permissions', async () => {
+    await service.createRole('support')
+    await service.allowPermissions('support', ['payments.refund', 'ai.unlimited'])
+    await service.denyPermissions('support', ['ai.unlimited'])
+
+    const roles = await service.listRoles()
+    expect(roles.map(role => role.role)).toEqual(['admin', 'owner', 'user', 'support'])
+    expect(roles[3]).toMatchObject({ isSystem: false, permissions: ['payments.refund'] })
+  })
+
+  it('rejects invalid changes', async () => {
+    const rejects = (promise: Promise<unknown>, code: string) =>
+      expect(promise).rejects.toMatchObject({ name: 'RoleManagementError', code })
+
+    await rejects(service.createRole('Support'), 'invalid_role')
+    await rejects(service.createRole('admin'), 'role_exists')
+    await rejects(service.deleteRole('admin'), 'system_role')
+    await rejects(service.allowPermissions('missing', ['a.b']), 'role_not_found')
+    await rejects(service.allowPermissions('admin', ['payments.']), 'invalid_permission')
+    await rejects(service.allowPermissions('owner', ['a.b']), 'owner_role')
+    await rejects(
+      service.grantRole({ userId: 'telegram_5', role: 'owner', chatId: null }),
+      'owner_role'
+    )
+    await expect(service.deleteRole('missing')).rejects.toBeInstanceOf(RoleManagementError)
+  })
+})
+
+describe('matchesPermission', () => {
+  it('matches exact names and wildcards', () => {
+    expect(matchesPermission('broadcast.send', 'broadcast.send')).toBe(true)
+    expect(matchesPermission('*', 'broadcast.send')).toBe(true)
+    expect(matchesPermission('payments.*', 'payments.refund')).toBe(true)
+    expect(matchesPermission('payments.*', 'payments')).toBe(false)
+    expect(matchesPermission('payments.*', 'paymentsx.refund')).toBe(false)
+    expect(matchesPermission('broadcast', 'broadcast.send')).toBe(false)
+  })
+})
@@ -0,0 +1,81 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { UserPreferenceService } from '../user-preference-service'
+
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+import { NotificationCategory } from '@/core/interfaces/notification'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+describe('UserPreferenceService', () => {
+  let service: UserPreferenceService
+
+  beforeEach(async () => {
+    await DB.prepare('DROP TABLE IF EXISTS notification_preferences').run()
+    await DB.prepare(
+      `CREATE TABLE notification_preferences (
+        user_id TEXT PRIMARY KEY,
+        enabled BOOLEAN DEFAULT TRUE,
+        categories TEXT DEFAULT '{"system": true, "transaction": true, "balance": true, "service": true}',
+        quiet_hours TEXT DEFAULT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )`
+    ).run()
+    await DB.prepare('DROP TABLE IF EXISTS language_preferences').run()
+    await DB.prepare(
+      `CREATE TABLE language_preferences (
+        user_id TEXT PRIMARY KEY,
+        language TEXT NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )`
+    ).run()
+    service = new UserPreferenceService(new CloudflareDatabaseStore(DB))
+  })
+
+  it('should return defaults for users without preferences', async () => {
+    expect(await service.getNotificationPreferences('123')).toEqual({
+      enabled: true,
+      categories: {
+        auction: true,
+        balance: true,
+        service: true,
+        system: true
+      }
+    })
+  })
+
+  it('should merge updates into stored preferences', async () => {
+    const quietHours = { enabled: true, start: '22:00', end: '08:00', timezone: 'Asia/Bangkok' }
+
+    await service.updateNotificationPreferences('123', { quiet_hours: quietHours })
+    await service.updateNotificationPreferences('123', {
+      categories: { [NotificationCategory.AUCTION]: false } as Record<NotificationCategory, boolean>
+    })
+
+    const preferences = await service.getNotificationPreferences('123')
+    expect(preferences.quiet_hours).toEqual(quietHours)
+    expect(preferences.categories.auction).toBe(false)
+    expect(preferences.categories.system).toBe(true)
+  })
+
+  it('should clear quiet hours', async () => {
+    await service.updateNotificationPreferences('123', {
+      quiet_hours: { enabled: true, start: '22:00', end: '08:00', timezone: 'UTC' }
+    })
+    await service.updateNotificationPreferences('123', { quiet_hours: undefined })
+
+    expect((await service.getNotificationPreferences('123')).quiet_hours).toBeUndefined()
+  })
+
+  it('should store the chosen language', async () => {
+    expect(await service.getLanguage('123')).toBeNull()
+
+    await service.setLanguage('123', 'ru')
+    await service.setLanguage('123', 'en')
+
+    expect(await service.getLanguage('123')).toBe('en')
+    expect(await service.getLanguage('456')).toBeNull()
+  })
+})
@@ -0,0 +1,423 @@
+/**
+ * Hash-chained audit log backed by the audit_log table
+ *
+ * The chain alone can't show that the newest entries were deleted or that the
+ * anchor was moved along with the oldest ones, so the head and the anchor are
+ * also mirrored to a key-value store that the database writer can't edit.
+ */
+
+import { CommonTransformers, FieldMapper } from '../database/field-mapper'
+import type {
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditLogInput,
+  AuditLogService,
+  AuditLogVerification,
+  AuditRetentionPolicy
+} from '../interfaces/audit-log'
+import type { D1RunMeta, IDatabaseStore, IKeyValueStore } from '../interfaces/storage'
+
+import { logger } from '@/lib/logger'
+
+export interface AuditLogServiceDeps {
+  db: IDatabaseStore
+  /** Where the head and anchor are mirrored; without it truncation goes unnoticed */
+  checkpoints?: IKeyValueStore | null
+}
+
+/** Entry the chain must reach (head) or start from (anchor) */
+interface AuditCheckpoint {
+  id: number
+  hash: string
+}
+
+interface AuditLogRow {
+  id: number
+  action: string
+  user_id: string | null
+  resource: string | null
+  result: 'success' | 'failure'
+  metadata: string | null
+  source: string | null
+  created_at: string
+  prev_hash: string
+  hash: string
+}
+
+/** prev_hash of the very first entry */
+export const GENESIS_HASH = '0'.repeat(64)
+
+const DEFAULT_QUERY_LIMIT = 50
+/** Most entries a single query (or export) returns */
+export const MAX_AUDIT_QUERY_LIMIT = 5000
+const VERIFY_PAGE_SIZE = 500
+/** Appends racing for the same head before giving up */
+const APPEND_ATTEMPTS = 5
+const HEAD_CHECKPOINT_KEY = 'audit:head'
+const ANCHOR_CHECKPOINT_KEY = 'audit:anchor'
+
+const entryMapper = new FieldMapper<AuditLogRow, AuditLogEntry>([
+  { dbField: 'id', domainField: 'id' },
+  { dbField: 'action', domainField: 'action' },
+  { dbField: 'user_id', domainField: 'userId', toDomain: v => v ?? undefined },
+  { dbField: 'resource', domainField: 'resource', toDomain: v => v ?? undefined },
+  { dbField: 'result', domainField: 'result' },
+  { dbField: 'metadata', domainField: 'metadata', toDomain: v => (v ? JSON.parse(v) : undefined) },
+  { dbField: 'source', domainField: 'source', toDomain: v => v ?? undefined },
+  { dbField: 'created_at', domainField: 'createdAt', ...CommonTransformers.isoDate },
+  { dbField: 'prev_hash', domainField: 'prevHash' },
+  { dbField: 'hash', domainField: 'hash' }
+])
+
+const HEAD_QUERY = `
+  SELECT COALESCE(
+    (SELECT hash FROM audit_log ORDER BY id DESC LIMIT 1),
+    (SELECT hash FROM audit_log_anchor WHERE id = 1),
+    ?
+  ) AS hash`
+
+/**
+ * SHA-256 over the stored column values and the previous hash
+ */
+export async function hashAuditEntry(row: Omit<AuditLogRow, 'id' | 'hash'>): Promise<string> {
+  const canonical = JSON.stringify([
+    row.prev_hash,
+    row.action,
+    row.user_id,
+    row.resource,
+    row.result,
+    row.metadata,
+    row.source,
+    row.created_at
+  ])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical))
+
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Entries as CSV (RFC 4180) or a JSON array, for /audit and the admin panel
+ */
+export function exportAuditLog(entries: AuditLogEntry[], format: 'csv' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, null, 2)
+  }
+
+  const header = ['id', 'created_at', 'user_id', 'action', 'resource', 'result', 'metadata', 'hash']
+  const rows = entries.map(entry => [
+    String(entry.id),
+    entry.createdAt.toISOString(),
+    entry.userId ?? '',
+    entry.action,
+    entry.resource ?? '',
+    entry.result,
+    entry.metadata ? JSON.stringify(entry.metadata) : '',
+    entry.hash
+  ])
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n'
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Filter from user-supplied values (/audit arguments, admin panel form).
+ * Numeric users are Telegram ids; from and to are inclusive YYYY-MM-DD days.
+ * Returns null when a value is malformed.
+ */
+export function parseAuditFilter(
+  params: Partial<Record<'user' | 'action' | 'result' | 'from' | 'to', string>>
+): AuditLogFilter | null {
+  const filter: AuditLogFilter = {}
+
+  if (params.user) {
+    if (!/^[\w.:-]+$/.test(params.user)) return null
+    filter.userId = /^\d+$/.test(params.user) ? `telegram_${params.user}` : params.user
+  }
+  if (params.action) {
+    if (!/^[\w.-]+(\.\*)?$/.test(params.action)) return null
+    filter.action = params.action
+  }
+  if (params.result) {
+    if (params.result !== 'success' && params.result !== 'failure') return null
+    filter.result = params.result
+  }
+  for (const bound of ['from', 'to'] as const) {
+    const value = params[bound]
+    if (!value) continue
+
+    const day = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null
+    if (!day || isNaN(day.getTime())) return null
+    filter[bound] = bound === 'to' ? new Date(day.getTime() + 24 * 60 * 60 * 1000) : day
+  }
+
+  return filter
+}
+
+/**
+ * Append-only audit log. Entries are linked by hash; retention removes the
+ * oldest ones and records the last removed hash as the new anchor, so the
+ * remaining chain still verifies.
+ */
+export class UniversalAuditLogService implements AuditLogService {
+  private db: IDatabaseStore
+  private checkpoints: IKeyValueStore | null
+
+  constructor(deps: AuditLogServiceDeps) {
+    this.db = deps.db
+    this.checkpoints = deps.checkpoints ?? null
+  }
+
+  async append(input: AuditLogInput): Promise<AuditLogEntry> {
+    const fields = {
+      action: input.action,
+      user_id: input.userId ?? null,
+      resource: input.resource ?? null,
+      result: input.result,
+      metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+      source: input.source ?? null,
+      created_at: (input.createdAt ?? new Date()).toISOString()
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const prevHash = await this.getHead()
+      const row = { ...fields, prev_hash: prevHash }
+      const hash = await hashAuditEntry(row)
+
+      try {
+        const result = await this.db
+          .prepare(
+            `INSERT INTO audit_log
+              (action, user_id, resource, result, metadata, source, created_at, prev_hash, hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .bind(
+            row.action,
+            row.user_id,
+            row.resource,
+            row.result,
+            row.metadata,
+            row.source,
+            row.created_at,
+            row.prev_hash,
+            hash
+          )
+          .run()
+
+        const meta = result.meta as D1RunMeta
+        const entry = entryMapper.toDomain({ ...row, id: meta.last_row_id ?? 0, hash })
+        await this.saveHead(entry)
+        return entry
+      } catch (error) {
+        // Another writer appended on top of the same head
+        if (attempt >= APPEND_ATTEMPTS || !String(error).includes('UNIQUE constraint failed')) {
+          throw error
+        }
+      }
+    }
+  }
+
+  async query(filter: AuditLogFilter = {}): Promise<AuditLogEntry[]> {
+    const { where, params } = buildWhere(filter)
+    if (filter.beforeId !== undefined) {
+      where.push('id < ?')
+      params.push(filter.beforeId)
+    }
+
+    const limit = Math.min(filter.limit ?? DEFAULT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT)
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM audit_log
+         ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+         ORDER BY id DESC LIMIT ?`
+      )
+      .bind(...params, limit)
+      .all<AuditLogRow>()
+
+    return results.map(row => entryMapper.toDomain(row))
+  }
+
+  async count(filter: AuditLogFilter = {}): Promise<number> {
+    const { where, params } = buildWhere(filter)
+    const row = await this.db
+      .prepare(
+        `SELECT COUNT(*) AS total FROM audit_log
+         ${where.length ? `WHERE ${where.join(' AND ')}` : ''}`
+      )
+      .bind(...params)
+      .first<{ total: number }>()
+
+    return row?.total ?? 0
+  }
+
+  async verify(): Promise<AuditLogVerification> {
+    const [anchor, head] = await Promise.all([
+      this.getAnchor(),
+      this.checkpoints?.get<AuditCheckpoint>(HEAD_CHECKPOINT_KEY) ?? null
+    ])
+
+    let expected = anchor?.hash ?? GENESIS_HASH
+    let checked = 0
+    let lastId = anchor?.id ?? 0
+
+    // The recorded head was pruned since, so it became the anchor
+    if (head && head.id === anchor?.id && head.hash !== anchor.hash) {
+      return this.broken(anchor.id, checked, expected)
+    }
+
+    for (;;) {
+      const { results } = await this.db
+        .prepare('SELECT * FROM audit_log WHERE id > ? ORDER BY id LIMIT ?')
+        .bind(lastId, VERIFY_PAGE_SIZE)
+        .all<AuditLogRow>()
+
+      for (const row of results) {
+        if (
+          row.prev_hash !== expected ||
+          (await hashAuditEntry(row)) !== row.hash ||
+          (row.id === head?.id && row.hash !== head.hash)
+        ) {
+          return this.broken(row.id, checked, expected)
+        }
+
+        expected = row.hash
+        lastId = row.id
+        checked++
+      }
+
+      if (results.length < VERIFY_PAGE_SIZE) {
+        // Entries up to the recorded head were deleted
+        if (head && head.id > lastId) {
+          return this.broken(lastId + 1, checked, expected)
+        }
+        return { valid: true, checked, head: expected }
+      }
+    }
+  }
+
+  async prune(policy: AuditRetentionPolicy): Promise<number> {
+    const candidates: Array<{ id: number; hash: string } | null> = []
+
+    if (policy.maxAgeDays) {
+      const cutoff = new Date(Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000)
+      candidates.push(
+        await this.db
+          .prepare('SELECT id, hash FROM audit_log WHERE created_at < ? ORDER BY id DESC LIMIT 1')
+          .bind(cutoff.toISOString())
+          .first<{ id: number; hash: string }>()
+      )
+    }
+
+    if (policy.maxEntries) {
+      candidates.push(
+        await this.db
+          .prepare('SELECT id, hash FROM audit_log ORDER BY id DESC LIMIT 1 OFFSET ?')
+          .bind(policy.maxEntries)
+          .first<{ id: number; hash: string }>()
+      )
+    }
+
+    // Only whole prefixes are removed, so the rest of the chain stays linked
+    const last = candidates.reduce<{ id: number; hash: string } | null>(
+      (max, candidate) => (candidate && (!max || candidate.id > max.id) ? candidate : max),
+      null
+    )
+    if (!last) {
+      return 0
+    }
+
+    const [, deleted] = await this.db.batch<{ meta: D1RunMeta }>([
+      this.db
+        .prepare(
+          `INSERT INTO audit_log_anchor (id, entry_id, hash, pruned_at) VALUES (1, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET
+             entry_id = excluded.entry_id, hash = excluded.hash, pruned_at = excluded.pruned_at`
+        )
+        .bind(last.id, last.hash, new Date().toISOString()),
+      this.db.prepare('DELETE FROM audit_log WHERE id <= ?').bind(last.id)
+    ])
+
+    await this.checkpoints?.put(ANCHOR_CHECKPOINT_KEY, JSON.stringify(last))
+
+    const removed = deleted?.meta.changes ?? 0
+    logger.info('Audit log pruned', { removed, anchor: last.id })
+    return removed
+  }
+
+  /**
+   * Where the chain starts: the mirrored anchor when there is one, so an
+   * anchor moved in the database along with the oldest entries doesn't count
+   */
+  private async getAnchor(): Promise<AuditCheckpoint | null> {
+    const mirrored = await this.checkpoints?.get<AuditCheckpoint>(ANCHOR_CHECKPOINT_KEY)
+    if (mirrored) {
+      return mirrored
+    }
+
+    const row = await this.db
+      .prepare('SELECT entry_id, hash FROM audit_log_anchor WHERE id = 1')
+      .first<{ entry_id: number; hash: string }>()
+    return row ? { id: row.entry_id, hash: row.hash } : null
+  }
+
+  private async saveHead(entry: AuditLogEntry): Promise<void> {
+    if (!this.checkpoints) {
+      return
+    }
+
+    // The entry is stored either way; a stale head only weakens the next check
+    try {
+      const head: AuditCheckpoint = { id: entry.id, hash: entry.hash }
+      await this.checkpoints.put(HEAD_CHECKPOINT_KEY, JSON.stringify(head))
+    } catch (error) {
+      logger.warn('Failed to mirror the audit log head', { entryId: entry.id, error })
+    }
+  }
+
+  private broken(entryId: number, checked: number, head: string): AuditLogVerification {
+    logger.warn('Audit log chain is broken', { entryId, checked })
+    return { valid: false, checked, brokenAt: entryId, head }
+  }
+
+  private async getHead(): Promise<string> {
+    const row = await this.db.prepare(HEAD_QUERY).bind(GENESIS_HASH).first<{ hash: string }>()
+    return row?.hash ?? GENESIS_HASH
+  }
+}
+
+function buildWhere(filter: AuditLogFilter): { where: string[]; params: unknown[] } {
+  const where: string[] = []
+  const params: unknown[] = []
+
+  if (filter.userId) {
+    where.push('user_id = ?')
+    params.push(filter.userId)
+  }
+  if (filter.action?.endsWith('.*')) {
+    where.push("action LIKE ? ESCAPE '\\'")
+    params.push(`${filter.action.slice(0, -1).replace(/[\\%_]/g, '\\$&')}%`)
+  } else if (filter.action) {
+    where.push('action = ?')
+    params.push(filter.action)
+  }
+  if (filter.resource) {
+    where.push('resource = ?')
+    params.push(filter.resource)
+  }
+  if (filter.result) {
+    where.push('result = ?')
+    params.push(filter.result)
+  }
+  if (filter.from) {
+    where.push('created_at >= ?')
+    params.push(filter.from.toISOString())
+  }
+  if (filter.to) {
+    where.push('created_at < ?')
+    params.push(filter.to.toISOString())
+  }
+
+  return { where, params }
+}
@@ -3,6 +3,7 @@
  * Platform-agnostic implementation for sending notifications
  */
 
+import { TimezoneFactory } from '../../lib/utils/timezone'
 import type { IEventBus } from '../interfaces/event-bus'
 import type { ILogger } from '../interfaces/logger'
 import type {
@@ -11,12 +12,14 @@ import type {
   NotificationMessage
 } from '../interfaces/notification'
 import { NotificationCategory, NotificationPriority } from '../interfaces/notification'
-import type { IUserPreferenceService } from '../interfaces/user-preference'
+import type { IUserPreferenceService, NotificationPreferences } from '../interfaces/user-preference'
 
 export interface NotificationContext {
   type: string
   data: Record<string, unknown>
   locale?: string
+  /** Overrides the category priority. Urgent notifications ignore quiet hours. */
+  priority?: NotificationPriority
 }
 
 export interface NotificationServiceDeps {
@@ -67,6 +70,9 @@ export class NotificationService implements INotificationService {
     category: NotificationCategory = NotificationCategory.SYSTEM
   ): Promise<void> {
     try {
+      const priority = context.priority ?? this.getPriorityForCategory(category)
+      let scheduledAt: Date | undefined
+
       // Check user preferences if service is available
       if (this.userPreferenceService) {
         const preferences = await this.userPreferenceService.getNotificationPreferences(recipientId)
@@ -78,6 +84,7 @@ export class NotificationService implements INotificationService {
           })
           return
         }
+        scheduledAt = this.getQuietHoursEnd(preferences, priority)
       }
 
       // Create notification message
@@ -87,7 +94,8 @@ export class NotificationService implements INotificationService {
         template,
         params: context.data,
         category,
-        priority: this.getPriorityForCategory(category),
+        priority,
+        scheduledAt,
         metadata: {
           type: context.type,
           locale: context.locale || this.defaultLocale
@@ -124,19 +132,21 @@ export class NotificationService implements INotificationService {
   ): Promise<void> {
     const messages: NotificationMessage[] = []
     const category = (context.data.category as NotificationCategory) || NotificationCategory.SYSTEM
+    const priority = context.priority ?? this.getPriorityForCategory(category)
 
     // Filter recipients based on preferences
     const allowedRecipients = await this.filterRecipientsByPreferences(recipientIds, category)
 
     // Create messages for allowed recipients
-    for (const recipientId of allowedRecipients) {
+    for (const [recipientId, preferences] of allowedRecipients) {
       messages.push({
         id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
         recipientId,
         template,
         params: context.data,
         category,
-        priority: this.getPriorityForCategory(category),
+        priority,
+        scheduledAt: preferences ? this.getQuietHoursEnd(preferences, priority) : undefined,
         metadata: {
           type: context.type,
           locale: context.locale || this.defaultLocale,
@@ -173,21 +183,25 @@ export class NotificationService implements INotificationService {
     )
   }
 
+  /**
+   * Returns allowed recipients with their preferences, when they could be loaded
+   */
   private async filterRecipientsByPreferences(
     recipientIds: string[],
     category: NotificationCategory
-  ): Promise<string[]> {
+  ): Promise<Map<string, NotificationPreferences | undefined>> {
+    const allowed = new Map<string, NotificationPreferences | undefined>()
+
     if (!this.userPreferenceService) {
-      return recipientIds
+      recipientIds.forEach(recipientId => allowed.set(recipientId, undefined))
+      return allowed
     }
 
-    const allowed: string[] = []
-
     for (const recipientId of recipientIds) {
       try {
         const preferences = await this.userPreferenceService.getNotificationPreferences(recipientId)
         if (preferences.categories[category]) {
-          allowed.push(recipientId)
+          allowed.set(recipientId, preferences)
         }
       } catch (error) {
         // If we can't get preferences, assume notifications are allowed
@@ -195,13 +209,39 @@ export class NotificationService implements INotificationService {
           recipientId,
           error: error instanceof Error ? error.message : 'Unknown error'
         })
-        allowed.push(recipientId)
+        allowed.set(recipientId, undefined)
       }
     }
 
     return allowed
   }
 
+  /**
+   * When the user is inside their quiet hours, the delivery is deferred
+   * to the end of the window in the user's timezone
+   */
+  private getQuietHoursEnd(
+    preferences: NotificationPreferences,
+    priority: NotificationPriority
+  ): Date | undefined {
+    const quietHours = preferences.quiet_hours
+    if (!quietHours?.enabled || priority === NotificationPriority.URGENT) {
+      return undefined
+    }
+
+    try {
+      const timezone = TimezoneFactory.get(quietHours.timezone || 'UTC')
+      return timezone.getWindowEnd(quietHours.start, quietHours.end) ?? undefined
+    } catch (error) {
+      // An unknown timezone must not block the notification
+      this.logger.warn('Failed to apply quiet hours', {
+        timezone: quietHours.timezone,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return undefined
+    }
+  }
+
   private getPriorityForCategory(category: NotificationCategory): NotificationPriority {
     switch (category) {
       case NotificationCategory.SYSTEM:
@@ -0,0 +1,140 @@
+/**
+ * Notification store backed by the notification_history table
+ */
+
+import { FieldMapper } from '../database/field-mapper'
+import type {
+  INotificationStore,
+  NotificationMessage,
+  NotificationResult
+} from '../interfaces/notification'
+import { NotificationStatus } from '../interfaces/notification'
+import type { IDatabaseStore } from '../interfaces/storage'
+
+interface NotificationHistoryRow {
+  message_id: string
+  status: string
+  error: string | null
+  retry_count: number | null
+  sent_at: string | null
+  next_attempt_at: string | null
+}
+
+const optionalDate = {
+  toDomain: (value: string | null) => (value ? new Date(value) : undefined),
+  toDb: (value: Date | undefined) => value?.toISOString() ?? null
+}
+
+const resultMapper = new FieldMapper<NotificationHistoryRow, NotificationResult>([
+  { dbField: 'message_id', domainField: 'messageId' },
+  { dbField: 'status', domainField: 'status', toDomain: v => v as NotificationStatus },
+  { dbField: 'error', domainField: 'error', toDomain: v => v ?? undefined },
+  { dbField: 'retry_count', domainField: 'retryCount', toDomain: v => v ?? 0 },
+  { dbField: 'sent_at', domainField: 'deliveredAt', ...optionalDate },
+  { dbField: 'next_attempt_at', domainField: 'nextRetryAt', ...optionalDate }
+])
+
+// Statuses a worker may pick up once next_attempt_at has passed.
+// 'sending' rows are only due when their lease expired, i.e. the worker died.
+const DUE_STATUSES = [
+  NotificationStatus.PENDING,
+  NotificationStatus.RETRY,
+  NotificationStatus.SENDING
+]
+
+export class NotificationHistoryStore implements INotificationStore {
+  constructor(private db: IDatabaseStore) {}
+
+  async save(
+    message: NotificationMessage,
+    result: NotificationResult,
+    dueAt?: Date
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO notification_history
+           (message_id, recipient_id, template, category, status, error, retry_count,
+            sent_at, payload, next_attempt_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(message_id) DO UPDATE SET
+           status = excluded.status,
+           error = excluded.error,
+           retry_count = excluded.retry_count,
+           sent_at = excluded.sent_at,
+           payload = excluded.payload,
+           next_attempt_at = excluded.next_attempt_at,
+           updated_at = excluded.updated_at`
+      )
+      .bind(
+        message.id,
+        message.recipientId,
+        message.template,
+        message.category,
+        result.status,
+        result.error ?? null,
+        result.retryCount ?? 0,
+        result.deliveredAt?.toISOString() ?? null,
+        JSON.stringify(message),
+        dueAt?.toISOString() ?? null,
+        new Date().toISOString()
+      )
+      .run()
+  }
+
+  async getResult(messageId: string): Promise<NotificationResult | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT message_id, status, error, retry_count, sent_at, next_attempt_at
+         FROM notification_history WHERE message_id = ?`
+      )
+      .bind(messageId)
+      .first<NotificationHistoryRow>()
+
+    return row ? resultMapper.toDomain(row) : null
+  }
+
+  async claim(messageId: string, now: Date, leaseUntil: Date): Promise<NotificationMessage | null> {
+    // The conditional update is the lock: only one worker can move a due row to 'sending'
+    const row = await this.db
+      .prepare(
+        `UPDATE notification_history
+         SET status = ?, next_attempt_at = ?, updated_at = ?
+         WHERE message_id = ? AND status IN (?, ?, ?) AND next_attempt_at <= ?
+         RETURNING payload`
+      )
+      .bind(
+        NotificationStatus.SENDING,
+        leaseUntil.toISOString(),
+        now.toISOString(),
+        messageId,
+        ...DUE_STATUSES,
+        now.toISOString()
+      )
+      .first<{ payload: string | null }>()
+
+    return row?.payload ? parseMessage(row.payload) : null
+  }
+
+  async listDue(now: Date, limit: number): Promise<string[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT message_id FROM notification_history
+         WHERE status IN (?, ?, ?) AND next_attempt_at <= ?
+         ORDER BY next_attempt_at
+         LIMIT ?`
+      )
+      .bind(...DUE_STATUSES, now.toISOString(), limit)
+      .all<{ message_id: string }>()
+
+    return results.map(row => row.message_id)
+  }
+}
+
+function parseMessage(payload: string): NotificationMessage {
+  const message = JSON.parse(payload) as NotificationMessage
+  return {
+    ...message,
+    scheduledAt: message.scheduledAt ? new Date(message.scheduledAt) : undefined,
+    expiresAt: message.expiresAt ? new Date(message.expiresAt) : undefined
+  }
+}
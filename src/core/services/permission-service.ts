@@ -0,0 +1,323 @@
+/**
+ * Permission service backed by the roles, role_permissions and role_grants tables
+ */
+
+import { CommonTransformers, FieldMapper } from '../database/field-mapper'
+import type {
+  PermissionService,
+  RoleDefinition,
+  RoleGrant,
+  RoleService
+} from '../interfaces/role-system'
+import { Permission, UserRole } from '../interfaces/role-system'
+import type { D1RunMeta, IDatabaseStore } from '../interfaces/storage'
+
+import { logger } from '@/lib/logger'
+
+export type RoleManagementErrorCode =
+  | 'invalid_role'
+  | 'invalid_permission'
+  | 'role_exists'
+  | 'role_not_found'
+  | 'system_role'
+  | 'owner_role'
+  | 'permission_not_held'
+
+/**
+ * Rejected role or grant change; the code tells the bot which message to show
+ */
+export class RoleManagementError extends Error {
+  constructor(
+    message: string,
+    public readonly code: RoleManagementErrorCode
+  ) {
+    super(message)
+    this.name = 'RoleManagementError'
+  }
+}
+
+export interface PermissionServiceDeps {
+  db: IDatabaseStore
+  roleService: RoleService
+}
+
+interface RoleRow {
+  name: string
+  description: string | null
+  is_system: number
+  created_by: string | null
+  created_at: string
+  permissions: string | null
+}
+
+interface RoleGrantRow {
+  user_id: string
+  role: string
+  chat_id: string
+  granted_by: string | null
+  granted_at: string
+}
+
+/**
+ * What the built-in roles may do, as seeded by the permissions migration.
+ * Used when no permission service is configured.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, string[]> = {
+  [UserRole.OWNER]: ['*'],
+  [UserRole.ADMIN]: [
+    Permission.ACCESS_REQUESTS,
+    Permission.KNOWLEDGE_MANAGE,
+    Permission.AI_UNLIMITED
+  ],
+  [UserRole.USER]: []
+}
+
+/** chat_id of grants that apply in every chat */
+const ALL_CHATS = '*'
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,31}$/
+const PERMISSION_PATTERN = /^(\*|[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*(\.\*)?)$/
+
+const roleMapper = new FieldMapper<RoleRow, RoleDefinition>([
+  { dbField: 'name', domainField: 'role' },
+  { dbField: 'description', domainField: 'description', toDomain: v => v ?? undefined },
+  { dbField: 'is_system', domainField: 'isSystem', ...CommonTransformers.sqliteBoolean },
+  { dbField: 'created_by', domainField: 'createdBy', toDomain: v => v ?? undefined },
+  { dbField: 'created_at', domainField: 'createdAt', ...CommonTransformers.isoDate },
+  {
+    dbField: 'permissions',
+    domainField: 'permissions',
+    toDomain: v => (v ? v.split(',').sort() : [])
+  }
+])
+
+const grantMapper = new FieldMapper<RoleGrantRow, RoleGrant>([
+  { dbField: 'user_id', domainField: 'userId' },
+  { dbField: 'role', domainField: 'role' },
+  { dbField: 'chat_id', domainField: 'chatId', toDomain: v => (v === ALL_CHATS ? null : v) },
+  { dbField: 'granted_by', domainField: 'grantedBy', toDomain: v => v ?? undefined },
+  { dbField: 'granted_at', domainField: 'grantedAt', ...CommonTransformers.isoDate }
+])
+
+const ROLE_QUERY = `
+  SELECT r.name, r.description, r.is_system, r.created_by, r.created_at,
+    (SELECT GROUP_CONCAT(permission) FROM role_permissions WHERE role = r.name) AS permissions
+  FROM roles r`
+
+/**
+ * Whether a held permission covers the required one: exact match, '*', or a
+ * prefix wildcard such as 'payments.*' for 'payments.refund'
+ */
+export function matchesPermission(held: string, required: string): boolean {
+  if (held === '*' || held === required) {
+    return true
+  }
+
+  return held.endsWith('.*') && required.startsWith(held.slice(0, -1))
+}
+
+export function isValidPermission(permission: string): boolean {
+  return PERMISSION_PATTERN.test(permission)
+}
+
+/**
+ * Permissions on top of the owner/admin/user hierarchy. A user holds the
+ * permissions of their UniversalRoleService role plus those of every role
+ * granted to them globally or in the current chat. Owners hold everything.
+ */
+export class UniversalPermissionService implements PermissionService {
+  private db: IDatabaseStore
+  private roleService: RoleService
+
+  constructor(deps: PermissionServiceDeps) {
+    this.db = deps.db
+    this.roleService = deps.roleService
+  }
+
+  async getPermissions(userId: string, chatId?: string): Promise<string[]> {
+    try {
+      const role = await this.getPrimaryRole(userId)
+      if (role === UserRole.OWNER) {
+        return ['*']
+      }
+
+      const { results } = await this.db
+        .prepare(
+          `SELECT DISTINCT permission FROM role_permissions
+           WHERE role = ?
+              OR role IN (SELECT role FROM role_grants WHERE user_id = ? AND chat_id IN (?, ?))
+           ORDER BY permission`
+        )
+        .bind(role ?? '', userId, ALL_CHATS, chatId ?? ALL_CHATS)
+        .all<{ permission: string }>()
+
+      return results.map(row => row.permission)
+    } catch (error) {
+      logger.error('Failed to get permissions', { error, userId, chatId })
+      return []
+    }
+  }
+
+  async hasPermission(userId: string, permission: string, chatId?: string): Promise<boolean> {
+    const permissions = await this.getPermissions(userId, chatId)
+    return permissions.some(held => matchesPermission(held, permission))
+  }
+
+  async listRoles(): Promise<RoleDefinition[]> {
+    const { results } = await this.db
+      .prepare(`${ROLE_QUERY} ORDER BY r.is_system DESC, r.name`)
+      .all<RoleRow>()
+
+    return results.map(row => roleMapper.toDomain(row))
+  }
+
+  async getRole(name: string): Promise<RoleDefinition | null> {
+    const row = await this.db.prepare(`${ROLE_QUERY} WHERE r.name = ?`).bind(name).first<RoleRow>()
+
+    return row ? roleMapper.toDomain(row) : null
+  }
+
+  async createRole(
+    name: string,
+    description?: string,
+    createdBy?: string
+  ): Promise<RoleDefinition> {
+    if (!ROLE_NAME_PATTERN.test(name)) {
+      throw new RoleManagementError(`Invalid role name "${name}"`, 'invalid_role')
+    }
+    if (await this.getRole(name)) {
+      throw new RoleManagementError(`Role "${name}" already exists`, 'role_exists')
+    }
+
+    await this.db
+      .prepare('INSERT INTO roles (name, description, created_by) VALUES (?, ?, ?)')
+      .bind(name, description ?? null, createdBy ?? null)
+      .run()
+
+    logger.info('Role created', { role: name, createdBy })
+
+    return (await this.getRole(name)) as RoleDefinition
+  }
+
+  async deleteRole(name: string): Promise<void> {
+    const role = await this.requireRole(name)
+    if (role.isSystem) {
+      throw new RoleManagementError(`Role "${name}" is built in`, 'system_role')
+    }
+
+    await this.db.batch([
+      this.db.prepare('DELETE FROM role_grants WHERE role = ?').bind(name),
+      this.db.prepare('DELETE FROM role_permissions WHERE role = ?').bind(name),
+      this.db.prepare('DELETE FROM roles WHERE name = ?').bind(name)
+    ])
+
+    logger.info('Role deleted', { role: name })
+  }
+
+  async allowPermissions(role: string, permissions: string[]): Promise<void> {
+    await this.requireEditableRole(role)
+
+    const invalid = permissions.find(permission => !isValidPermission(permission))
+    if (invalid !== undefined) {
+      throw new RoleManagementError(`Invalid permission "${invalid}"`, 'invalid_permission')
+    }
+
+    await this.db.batch(
+      permissions.map(permission =>
+        this.db
+          .prepare('INSERT OR IGNORE INTO role_permissions (role, permission) VALUES (?, ?)')
+          .bind(role, permission)
+      )
+    )
+
+    logger.info('Permissions allowed', { role, permissions })
+  }
+
+  async denyPermissions(role: string, permissions: string[]): Promise<void> {
+    await this.requireEditableRole(role)
+
+    await this.db.batch(
+      permissions.map(permission =>
+        this.db
+          .prepare('DELETE FROM role_permissions WHERE role = ? AND permission = ?')
+          .bind(role, permission)
+      )
+    )
+
+    logger.info('Permissions denied', { role, permissions })
+  }
+
+  async grantRole(grant: Omit<RoleGrant, 'grantedAt'>): Promise<void> {
+    await this.requireEditableRole(grant.role)
+
+    await this.db
+      .prepare(
+        `INSERT INTO role_grants (user_id, role, chat_id, granted_by, granted_at)
+         VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(user_id, role, chat_id) DO UPDATE SET
+           granted_by = excluded.granted_by,
+           granted_at = excluded.granted_at`
+      )
+      .bind(grant.userId, grant.role, grant.chatId ?? ALL_CHATS, grant.grantedBy ?? null)
+      .run()
+
+    logger.info('Role granted', grant)
+  }
+
+  async revokeRole(userId: string, role: string, chatId: string | null = null): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM role_grants WHERE user_id = ? AND role = ? AND chat_id = ?')
+      .bind(userId, role, chatId ?? ALL_CHATS)
+      .run()
+
+    const revoked = ((result.meta as D1RunMeta | undefined)?.changes ?? 0) > 0
+    if (revoked) {
+      logger.info('Role revoked', { userId, role, chatId })
+    }
+    return revoked
+  }
+
+  async getGrants(userId: string): Promise<RoleGrant[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT user_id, role, chat_id, granted_by, granted_at FROM role_grants
+         WHERE user_id = ?
+         ORDER BY role, chat_id`
+      )
+      .bind(userId)
+      .all<RoleGrantRow>()
+
+    return results.map(row => grantMapper.toDomain(row))
+  }
+
+  /**
+   * Role from the hierarchy; users let in through an access request have no
+   * user_roles row but still count as 'user'
+   */
+  private async getPrimaryRole(userId: string): Promise<UserRole | null> {
+    const role = await this.roleService.getUserRole(userId)
+    if (role) {
+      return role
+    }
+
+    return (await this.roleService.hasAccess(userId)) ? UserRole.USER : null
+  }
+
+  private async requireRole(name: string): Promise<RoleDefinition> {
+    const role = await this.getRole(name)
+    if (!role) {
+      throw new RoleManagementError(`Role "${name}" does not exist`, 'role_not_found')
+    }
+    return role
+  }
+
+  /**
+   * Owners always hold every permission and are configured outside of grants
+   */
+  private async requireEditableRole(name: string): Promise<RoleDefinition> {
+    if (name === UserRole.OWNER) {
+      throw new RoleManagementError('The owner role can not be changed', 'owner_role')
+    }
+    return this.requireRole(name)
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * User preference service backed by the notification_preferences and
+ * language_preferences tables
+ */
+
+import { FieldMapper } from '../database/field-mapper'
+import { NotificationCategory } from '../interfaces/notification'
+import type { IDatabaseStore } from '../interfaces/storage'
+import type { IUserPreferenceService, NotificationPreferences } from '../interfaces/user-preference'
+
+type QuietHours = NonNullable<NotificationPreferences['quiet_hours']>
+
+interface NotificationPreferencesRow {
+  enabled: number
+  categories: string | null
+  quiet_hours: string | null
+}
+
+const DEFAULT_CATEGORIES = Object.fromEntries(
+  Object.values(NotificationCategory).map(category => [category, true])
+) as Record<NotificationCategory, boolean>
+
+const preferencesMapper = new FieldMapper<NotificationPreferencesRow, NotificationPreferences>([
+  {
+    dbField: 'enabled',
+    domainField: 'enabled',
+    toDomain: v => Boolean(v),
+    toDb: v => (v ? 1 : 0)
+  },
+  {
+    dbField: 'categories',
+    domainField: 'categories',
+    // Categories added after the row was written default to enabled
+    toDomain: v => ({ ...DEFAULT_CATEGORIES, ...(v ? JSON.parse(v) : {}) }),
+    toDb: v => JSON.stringify(v)
+  },
+  {
+    dbField: 'quiet_hours',
+    domainField: 'quiet_hours',
+    toDomain: v => (v ? (JSON.parse(v) as QuietHours) : undefined),
+    toDb: v => (v ? JSON.stringify(v) : null)
+  }
+])
+
+export class UserPreferenceService implements IUserPreferenceService {
+  constructor(private db: IDatabaseStore) {}
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const row = await this.db
+      .prepare(
+        'SELECT enabled, categories, quiet_hours FROM notification_preferences WHERE user_id = ?'
+      )
+      .bind(userId)
+      .first<NotificationPreferencesRow>()
+
+    return row ? preferencesMapper.toDomain(row) : { enabled: true, categories: DEFAULT_CATEGORIES }
+  }
+
+  async updateNotificationPreferences(
+    userId: string,
+    preferences: Partial<NotificationPreferences>
+  ): Promise<void> {
+    const current = await this.getNotificationPreferences(userId)
+    const row = preferencesMapper.toDatabase({
+      ...current,
+      ...preferences,
+      categories: { ...current.categories, ...preferences.categories }
+    })
+
+    await this.db
+      .prepare(
+        `INSERT INTO notification_preferences (user_id, enabled, categories, quiet_hours, updated_at)
+         VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(user_id) DO UPDATE SET
+           enabled = excluded.enabled,
+           categories = excluded.categories,
+           quiet_hours = excluded.quiet_hours,
+           updated_at = excluded.updated_at`
+      )
+      .bind(userId, row.enabled, row.categories, row.quiet_hours ?? null)
+      .run()
+  }
+
+  async getLanguage(userId: string): Promise<string | null> {
+    const row = await this.db
+      .prepare('SELECT language FROM language_preferences WHERE user_id = ?')
+      .bind(userId)
+      .first<{ language: string }>()
+
+    return row?.language ?? null
+  }
+
+  async setLanguage(userId: string, language: string): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO language_preferences (user_id, language, updated_at)
+         VALUES (?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(user_id) DO UPDATE SET
+           language = excluded.language,
+           updated_at = excluded.updated_at`
+      )
+      .bind(userId, language)
+      .run()
+  }
+}
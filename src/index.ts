@@ -7,6 +7,7 @@ import { TelegramConnector } from './connectors/messaging/telegram'
 import { getCloudPlatformConnector } from './core/cloud/cloud-platform-cache'
 import { EventBus } from './core/events/event-bus'
 import { HealthCheckService } from './core/health/health-check'
+import { handleQueue } from './core/queue-handler'
 import { handleScheduled } from './core/scheduled-handler'
 import { getBotToken, getWebhookSecret, isDemoMode } from './lib/env-guards'
 import { devReloadMiddleware } from './middleware/dev-reload'
@@ -330,4 +331,7 @@ app.get('/demo', rateLimitPolicies.static, c => {
   `)
 })
 
-export default wrapSentry(app, { scheduled: handleScheduled })
+// Durable Object classes must be exported from the worker entry
+export { RateLimiterDO } from './core/rate-limit/rate-limiter-do'
+
+export default wrapSentry(app, { scheduled: handleScheduled, queue: handleQueue })
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+
+import {
+  CallbackDataCodec,
+  MAX_CALLBACK_DATA_BYTES,
+  defineCallback,
+  getCallbackId
+} from '../callback-data'
+
+import type { IKeyValueStore } from '@/core/interfaces/storage'
+
+const NOW = Date.UTC(2025, 0, 1)
+
+const approve = defineCallback('acc.approve', z.object({ requestId: z.number().int() }))
+const search = defineCallback(
+  'search',
+  z.object({ query: z.string(), page: z.number().default(1), lang: z.string().optional() }),
+  { ttl: 600 }
+)
+
+function createStore() {
+  const values = new Map<string, string>()
+  return {
+    values,
+    get: vi.fn(async (key: string) => values.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      values.set(key, value)
+    })
+  }
+}
+
+const rejects = (promise: Promise<unknown>, code: string) =>
+  expect(promise).rejects.toMatchObject({ name: 'CallbackDataError', code })
+
+describe('CallbackDataCodec', () => {
+  let now: number
+  let store: ReturnType<typeof createStore>
+  let codec: CallbackDataCodec
+
+  beforeEach(() => {
+    now = NOW
+    store = createStore()
+    codec = new CallbackDataCodec({
+      secret: 'secret',
+      store: store as unknown as IKeyValueStore,
+      now: () => now
+    })
+  })
+
+  it('should round-trip typed payloads', async () => {
+    const data = await codec.encode(approve, { requestId: 42 })
+
+    expect(data).toMatch(/^acc\.approve\|[0-9a-z]+\|[\w-]{11}\|\[42\]$/)
+    expect(getCallbackId(data)).toBe('acc.approve')
+    expect(await codec.decode(approve, data)).toEqual({ requestId: 42 })
+  })
+
+  it('should restore defaults and optional fields', async () => {
+    const data = await codec.encode(search, { query: 'cats', page: 1 })
+
+    expect(data.endsWith('|["cats",1]')).toBe(true)
+    expect(await codec.decode(search, data)).toEqual({ query: 'cats', page: 1 })
+  })
+
+  it('should reject tampered data and other secrets', async () => {
+    const data = await codec.encode(approve, { requestId: 42 })
+
+    await rejects(codec.decode(approve, data.replace('[42]', '[43]')), 'signature')
+    await rejects(new CallbackDataCodec({ secret: 'other' }).decode(approve, data), 'signature')
+    await rejects(codec.decode(approve, 'access:approve:42'), 'malformed')
+    await rejects(codec.decode(search, data), 'malformed')
+  })
+
+  it('should expire buttons after their ttl', async () => {
+    const data = await codec.encode(search, { query: 'cats', page: 2 })
+
+    now += 599_000
+    expect(await codec.decode(search, data)).toMatchObject({ page: 2 })
+
+    now += 2_000
+    await rejects(codec.decode(search, data), 'expired')
+  })
+
+  it('should never expire buttons with ttl 0', async () => {
+    const forever = defineCallback('forever', z.string(), { ttl: 0 })
+    const data = await codec.encode(forever, 'x')
+
+    now += 10 * 365 * 24 * 60 * 60 * 1000
+    expect(await codec.decode(forever, data)).toBe('x')
+  })
+
+  it('should keep oversized payloads in the store', async () => {
+    const query = 'a long search query that does not fit into a button'
+    const data = await codec.encode(search, { query, page: 3, lang: 'ru' })
+
+    expect(new TextEncoder().encode(data).length).toBeLessThanOrEqual(MAX_CALLBACK_DATA_BYTES)
+    expect(data).toContain('|~')
+    expect(store.put).toHaveBeenCalledWith(
+      expect.stringMatching(/^callback:/),
+      JSON.stringify([query, 3, 'ru']),
+      { expirationTtl: 600 }
+    )
+    expect(await codec.decode(search, data)).toEqual({ query, page: 3, lang: 'ru' })
+
+    store.values.clear()
+    await rejects(codec.decode(search, data), 'missing')
+  })
+
+  it('should refuse oversized payloads without a store', async () => {
+    const plain = new CallbackDataCodec({ secret: 'secret' })
+
+    await rejects(plain.encode(search, { query: 'x'.repeat(64), page: 1 }), 'too_long')
+  })
+
+  it('should validate payloads against the schema', async () => {
+    const loose = defineCallback('acc.approve', z.object({ requestId: z.string() }))
+    const data = await codec.encode(loose, { requestId: 'abc' })
+
+    await rejects(codec.decode(approve, data), 'invalid')
+    await expect(codec.encode(approve, { requestId: 1.5 })).rejects.toThrow()
+  })
+})
+
+describe('defineCallback', () => {
+  it('should reject ids that clash with the data format', () => {
+    expect(() => defineCallback('a|b', z.string())).toThrow('Invalid callback id')
+    expect(() => defineCallback('1st', z.string())).toThrow('Invalid callback id')
+  })
+})
+
+describe('getCallbackId', () => {
+  it('should ignore plain callback strings', () => {
+    expect(getCallbackId('main_menu')).toBeNull()
+    expect(getCallbackId('set_language:en')).toBeNull()
+    expect(getCallbackId(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { splitHtml, splitText, TelegramStreamRenderer } from '../telegram-stream'
+
+const CHAT_ID = 100
+
+function createApi() {
+  let nextId = 1
+  return {
+    sendMessage: vi.fn(async () => ({ message_id: nextId++ })),
+    editMessageText: vi.fn(async () => true),
+    deleteMessage: vi.fn(async () => true)
+  }
+}
+
+function apiError(error_code: number, description: string, retry_after?: number) {
+  return Object.assign(new Error(description), {
+    error_code,
+    description,
+    ...(retry_after ? { parameters: { retry_after } } : {})
+  })
+}
+
+describe('splitText', () => {
+  it('should keep short texts whole', () => {
+    expect(splitText('Hello world', 20)).toEqual(['Hello world'])
+  })
+
+  it('should prefer paragraph and word boundaries', () => {
+    expect(splitText('First paragraph.\n\nSecond one is longer', 24)).toEqual([
+      'First paragraph.',
+      'Second one is longer'
+    ])
+    expect(splitText('one two three four five', 10)).toEqual(['one two', 'three four', 'five'])
+  })
+})
+
+describe('splitHtml', () => {
+  it('should close and reopen tags across parts', () => {
+    const parts = splitHtml('<b>bold words that go on and on</b> end', 24)
+
+    parts.forEach(part => expect(part.length).toBeLessThanOrEqual(24))
+    expect(parts[0]).toMatch(/^<b>.*<\/b>$/)
+    expect(parts[1]?.startsWith('<b>')).toBe(true)
+    expect(parts.map(part => part.replace(/<\/?b>/g, '')).join(' ')).toBe(
+      'bold words that go on and on end'
+    )
+  })
+
+  it('should not cut inside a tag or an entity', () => {
+    const parts = splitHtml('aaaa <a href="https://example.com/x">link</a> &amp; more', 40)
+
+    parts.forEach(part => {
+      expect(part).not.toMatch(/<[^>]*$/)
+      expect(part).not.toMatch(/&[a-z]*$/)
+    })
+  })
+})
+
+describe('TelegramStreamRenderer', () => {
+  let api: ReturnType<typeof createApi>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    api = createApi()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should send a placeholder and throttle edits', async () => {
+    const renderer = new TelegramStreamRenderer(api, CHAT_ID, {
+      placeholder: 'Thinking…',
+      editIntervalMs: 1000,
+      replyToMessageId: 5
+    })
+
+    await renderer.start()
+    await renderer.append('Hello')
+    vi.setSystemTime(1000)
+    await renderer.append(' world')
+    vi.setSystemTime(1500)
+    await renderer.append('!')
+
+    expect(api.sendMessage).toHaveBeenCalledWith(CHAT_ID, 'Thinking…', {
+      reply_parameters: { message_id: 5 }
+    })
+    expect(api.editMessageText).toHaveBeenCalledTimes(1)
+    expect(api.editMessageText).toHaveBeenCalledWith(CHAT_ID, 1, 'Hello world', {})
+    expect(renderer.text).toBe('Hello world!')
+  })
+
+  it('should hide markup while streaming and render HTML at the end', async () => {
+    const renderer = new TelegramStreamRenderer(api, CHAT_ID, { editIntervalMs: 0 })
+
+    await renderer.start()
+    await renderer.append('Use <b>bo')
+    await renderer.append('ld</b> text')
+    await renderer.finish('\n\n<i>Powered by mock</i>')
+
+    expect(api.editMessageText).toHaveBeenNthCalledWith(1, CHAT_ID, 1, 'Use bo', {})
+    expect(api.editMessageText).toHaveBeenLastCalledWith(
+      CHAT_ID,
+      1,
+      'Use <b>bold</b> text\n\n<i>Powered by mock</i>',
+      { parse_mode: 'HTML' }
+    )
+  })
+
+  it('should continue long answers in new messages', async () => {
+    const renderer = new TelegramStreamRenderer(api, CHAT_ID, {
+      editIntervalMs: 0,
+      maxLength: 20
+    })
+
+    await renderer.start()
+    await renderer.append('first part here. second part here.')
+    await renderer.finish()
+
+    expect(api.sendMessage).toHaveBeenCalledTimes(2)
+    expect(api.sendMessage).toHaveBeenLastCalledWith(CHAT_ID, 'second part here.', {})
+    expect(api.editMessageText).toHaveBeenLastCalledWith(CHAT_ID, 2, 'second part here.', {
+      parse_mode: 'HTML'
+    })
+  })
+
+  it('should back off when Telegram rate limits edits', async () => {
+    const renderer = new TelegramStreamRenderer(api, CHAT_ID, { editIntervalMs: 100 })
+    api.editMessageText.mockRejectedValueOnce(apiError(429, 'Too Many Requests', 5))
+
+    await renderer.start()
+    vi.setSystemTime(200)
+    await renderer.append('one')
+    vi.setSystemTime(1000)
+    await renderer.append(' two')
+    vi.setSystemTime(5200)
+    await renderer.append(' three')
+
+    expect(api.editMessageText).toHaveBeenCalledTimes(2)
+    expect(api.editMessageText).toHaveBeenLastCalledWith(CHAT_ID, 1, 'one two three', {})
+  })
+
+  it('should fall back to plain text when the HTML is invalid', async () => {
+    const renderer = new TelegramStreamRenderer(api, CHAT_ID, { editIntervalMs: 0 })
+    api.editMessageText.mockImplementation(async (...args: unknown[]) => {
+      const other = args[3] as { parse_mode?: string }
+      if (other.parse_mode) throw apiError(400, "Bad Request: can't parse entities")
+      return true
+    })
+
+    await renderer.start()
+    await renderer.append('a <b>broken</i> answer')
+    await renderer.finish('\n\n<i>mock</i>')
+
+    expect(api.editMessageText).toHaveBeenLastCalledWith(CHAT_ID, 1, 'a broken answer\n\nmock', {})
+  })
+
+  it('should replace a partial answer with an error', async () => {
+    const renderer = new TelegramStreamRenderer(api, CHAT_ID, { editIntervalMs: 0, maxLength: 20 })
+
+    expect(await renderer.fail('Failed')).toBe(false)
+
+    await renderer.start()
+    await renderer.append('first part of a long answer')
+    expect(await renderer.fail('Failed')).toBe(true)
+
+    expect(api.editMessageText).toHaveBeenLastCalledWith(CHAT_ID, 1, 'Failed', {})
+    expect(api.deleteMessage).toHaveBeenCalledWith(CHAT_ID, 2)
+  })
+})
@@ -164,6 +164,7 @@ describe('AnthropicProvider', () => {
         'data: {"type":"content_block_delta","index":0,"delta":{"text":"Hello"}}\n',
         'data: {"type":"content_block_delta","index":0,"delta":{"text":" there!"}}\n',
         'data: {"type":"content_block_stop","index":0}\n',
+        'data: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":3}}\n',
         'data: {"type":"message_stop"}\n'
       ]
 
@@ -189,14 +190,17 @@ describe('AnthropicProvider', () => {
       }
       const streamIterator = provider.stream(request)
       const collectedChunks: string[] = []
+      let usage
 
       for await (const chunk of streamIterator) {
         if (chunk.content) {
           collectedChunks.push(chunk.content)
         }
+        usage = chunk.usage ?? usage
       }
 
       expect(collectedChunks).toEqual(['Hello', ' there!'])
+      expect(usage).toEqual({ inputUnits: 10, outputUnits: 3, totalUnits: 13 })
     })
   })
 
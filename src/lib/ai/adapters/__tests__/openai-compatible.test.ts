@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { CompletionRequest } from '../../types.js'
+import { OpenAICompatibleProvider } from '../openai-compatible.js'
+
+describe('OpenAICompatibleProvider', () => {
+  let provider: OpenAICompatibleProvider
+  const originalFetch = global.fetch
+  const mockFetch = () => global.fetch as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    global.fetch = vi.fn() as unknown as typeof fetch
+    provider = new OpenAICompatibleProvider('openai', 'OpenAI', { apiKey: 'test-api-key' }, 'free')
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('Streaming', () => {
+    it('should report the usage of streamed responses', async () => {
+      const chunks = [
+        'data: {"id":"c1","object":"chat.completion.chunk","created":1,"model":"gpt-3.5-turbo","choices":[{"index":0,"delta":{"content":"Hello"},"finish_reason":null}],"usage":null}\n',
+        'data: {"id":"c1","object":"chat.completion.chunk","created":1,"model":"gpt-3.5-turbo","choices":[{"index":0,"delta":{"content":" there!"},"finish_reason":null}],"usage":null}\n',
+        'data: {"id":"c1","object":"chat.completion.chunk","created":1,"model":"gpt-3.5-turbo","choices":[{"index":0,"delta":{},"finish_reason":"stop"}],"usage":null}\n',
+        'data: {"id":"c1","object":"chat.completion.chunk","created":1,"model":"gpt-3.5-turbo","choices":[],"usage":{"prompt_tokens":10,"completion_tokens":3,"total_tokens":13}}\n',
+        'data: [DONE]\n'
+      ]
+
+      const encoder = new TextEncoder()
+      const stream = new ReadableStream({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+          controller.close()
+        }
+      })
+
+      mockFetch().mockResolvedValueOnce({
+        ok: true,
+        body: stream
+      })
+
+      const request: CompletionRequest = {
+        messages: [{ role: 'user', content: 'Hello' }]
+      }
+
+      if (!provider.stream) {
+        throw new Error('Stream method not available')
+      }
+      const streamIterator = provider.stream(request)
+      const collectedChunks: string[] = []
+      let usage
+
+      for await (const chunk of streamIterator) {
+        if (chunk.content) {
+          collectedChunks.push(chunk.content)
+        }
+        usage = chunk.usage ?? usage
+      }
+
+      expect(collectedChunks).toEqual(['Hello', ' there!'])
+      expect(usage).toEqual({ inputUnits: 10, outputUnits: 3, totalUnits: 13 })
+
+      const body = JSON.parse(mockFetch().mock.calls[0]?.[1].body)
+      expect(body).toMatchObject({ stream: true, stream_options: { include_usage: true } })
+    })
+  })
+})
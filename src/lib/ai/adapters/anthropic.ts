@@ -138,9 +138,16 @@ export class AnthropicProvider extends BaseAIProvider {
       anthropicRequest.stream = true
 
       const stream = await this.makeStreamRequest(anthropicRequest)
+      let inputTokens = 0
+      let outputTokens = 0
 
       for await (const chunk of stream) {
-        if (chunk.type === 'content_block_delta' && chunk.delta?.text) {
+        if (chunk.type === 'message_start' && chunk.message?.usage) {
+          inputTokens = chunk.message.usage.input_tokens
+          outputTokens = chunk.message.usage.output_tokens
+        } else if (chunk.type === 'message_delta' && chunk.usage?.output_tokens !== undefined) {
+          outputTokens = chunk.usage.output_tokens
+        } else if (chunk.type === 'content_block_delta' && chunk.delta?.text) {
           yield {
             content: chunk.delta.text,
             done: false
@@ -152,6 +159,11 @@ export class AnthropicProvider extends BaseAIProvider {
             metadata: {
               model: this.modelName,
               providerId: this.id
+            },
+            usage: {
+              inputUnits: inputTokens,
+              outputUnits: outputTokens,
+              totalUnits: inputTokens + outputTokens
             }
           }
         } else if (chunk.type === 'error') {
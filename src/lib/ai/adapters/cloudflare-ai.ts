@@ -172,6 +172,7 @@ export class CloudflareAIProvider extends BaseAIProvider {
 
       const decoder = new TextDecoder()
       let buffer = ''
+      let content = ''
 
       while (true) {
         const { done, value } = await reader.read()
@@ -193,6 +194,7 @@ export class CloudflareAIProvider extends BaseAIProvider {
 
           try {
             const parsed: CloudflareAIStreamResponse = JSON.parse(data)
+            content += parsed.response || ''
             yield {
               content: parsed.response || '',
               done: !parsed.p,
@@ -206,6 +208,20 @@ export class CloudflareAIProvider extends BaseAIProvider {
           }
         }
       }
+
+      // The stream carries no token counts, estimate them like complete() does
+      yield {
+        content: '',
+        done: true,
+        metadata: {
+          model: this.model,
+          providerId: this.id
+        },
+        usage: {
+          inputUnits: this.estimateTokens(request.messages.map(m => m.content).join(' ')),
+          outputUnits: this.estimateTokens(content)
+        }
+      }
     } catch (error) {
       logger.error('Cloudflare AI streaming error:', error)
       throw this.normalizeError(error)
@@ -26,6 +26,9 @@ interface OpenAIRequest {
   presence_penalty?: number
   stop?: string[]
   stream?: boolean
+  stream_options?: {
+    include_usage?: boolean
+  }
 }
 
 interface OpenAIResponse {
@@ -60,6 +63,12 @@ interface OpenAIStreamChunk {
     }
     finish_reason?: string | null
   }>
+  // Only on the last chunk when stream_options.include_usage is set
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  } | null
 }
 
 export interface OpenAICompatibleConfig {
@@ -185,6 +194,7 @@ export class OpenAICompatibleProvider extends BaseAIProvider {
       model: this.model,
       messages: this.transformMessages(request.messages) as OpenAIMessage[],
       stream: true,
+      stream_options: { include_usage: true },
       ...this.defaultOptions
     }
 
@@ -245,6 +255,7 @@ export class OpenAICompatibleProvider extends BaseAIProvider {
             try {
               const data: OpenAIStreamChunk = JSON.parse(line.slice(6))
               const content = data.choices[0]?.delta?.content || ''
+              // The usage chunk comes after the finish reason and has no choices
               const isDone = data.choices[0]?.finish_reason !== null
 
               yield {
@@ -253,7 +264,14 @@ export class OpenAICompatibleProvider extends BaseAIProvider {
                 metadata: {
                   model: data.model,
                   providerId: this.id
-                }
+                },
+                ...(data.usage && {
+                  usage: {
+                    inputUnits: data.usage.prompt_tokens,
+                    outputUnits: data.usage.completion_tokens,
+                    totalUnits: data.usage.total_tokens
+                  }
+                })
               }
             } catch (e) {
               logger.warn('Failed to parse stream chunk:', e)
@@ -210,33 +210,12 @@ export class CostTracker {
 
     this.usage.set(providerId, accumulated)
 
-    // Calculate cost
+    // Calculate the cost of this call; the running total is kept separately
     const cost = await this.calculator.calculateCost(usage, providerId)
 
     if (cost) {
-      // Accumulate costs
       const existingCost = this.costs.get(providerId)
-      if (existingCost) {
-        cost.amount += existingCost.amount
-        // Merge breakdown
-        if (cost.breakdown && existingCost.breakdown) {
-          for (const [key, value] of Object.entries(existingCost.breakdown)) {
-            if (key === 'other' && cost.breakdown.other && existingCost.breakdown.other) {
-              // Merge other costs
-              for (const [otherKey, otherValue] of Object.entries(existingCost.breakdown.other)) {
-                cost.breakdown.other[otherKey] = (cost.breakdown.other[otherKey] || 0) + otherValue
-              }
-            } else {
-              const breakdownKey = key as keyof Omit<typeof cost.breakdown, 'other'>
-              if (breakdownKey in cost.breakdown) {
-                ;(cost.breakdown[breakdownKey] as number) =
-                  ((cost.breakdown[breakdownKey] as number) || 0) + (value as number)
-              }
-            }
-          }
-        }
-      }
-      this.costs.set(providerId, cost)
+      this.costs.set(providerId, existingCost ? mergeCosts(existingCost, cost) : cloneCost(cost))
     }
 
     return cost
@@ -282,3 +261,40 @@ export class CostTracker {
     return total
   }
 }
+
+function cloneCost(cost: CostEstimate): CostEstimate {
+  return {
+    ...cost,
+    ...(cost.breakdown && {
+      breakdown: {
+        ...cost.breakdown,
+        ...(cost.breakdown.other && { other: { ...cost.breakdown.other } })
+      }
+    })
+  }
+}
+
+/**
+ * Add a new cost to an accumulated one without touching either
+ */
+function mergeCosts(total: CostEstimate, cost: CostEstimate): CostEstimate {
+  const merged = cloneCost(total)
+  merged.amount += cost.amount
+
+  if (cost.breakdown) {
+    const breakdown = (merged.breakdown ??= {})
+    for (const key of ['input', 'output', 'compute'] as const) {
+      if (cost.breakdown[key] !== undefined) {
+        breakdown[key] = (breakdown[key] || 0) + (cost.breakdown[key] as number)
+      }
+    }
+    if (cost.breakdown.other) {
+      const other = (breakdown.other ??= {})
+      for (const [key, value] of Object.entries(cost.breakdown.other)) {
+        other[key] = (other[key] || 0) + value
+      }
+    }
+  }
+
+  return merged
+}
@@ -54,6 +54,8 @@ export interface StreamChunk {
   content: string
   done: boolean
   metadata?: ResponseMetadata
+  // Usage of the whole completion, reported with the last chunk
+  usage?: UsageMetrics
 }
 
 export interface CompletionResponse {
@@ -205,6 +207,13 @@ export interface AIResponse {
   metadata?: ResponseMetadata
 }
 
+// Returned by AIService.stream once the stream is exhausted
+export interface AIStreamResult {
+  provider: string
+  usage?: UsageMetrics
+  cost?: CostEstimate
+}
+
 // Options for AI service requests
 export interface AIOptions extends CompletionOptions {
   provider?: string
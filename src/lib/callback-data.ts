@@ -0,0 +1,252 @@
+/**
+ * Typed, signed callback data for inline keyboard buttons
+ *
+ * Each kind of button is declared once with a zod schema. Encoded data looks
+ * like "<id>|<expiry>|<signature>|<payload>": the payload is the schema's
+ * values as a JSON array, the expiry is in base36 seconds ('0' for never),
+ * and the signature is a truncated HMAC-SHA256 over the rest, so users can't
+ * craft or alter buttons. Payloads that don't fit Telegram's 64 bytes are
+ * kept in KV and the button carries a random reference ("~<ref>") instead.
+ */
+
+import { z } from 'zod'
+
+import type { IKeyValueStore } from '@/core/interfaces/storage'
+
+/** Telegram's limit for callback_data, in bytes */
+export const MAX_CALLBACK_DATA_BYTES = 64
+
+/** Lifetime of buttons without an explicit ttl (seconds) */
+export const DEFAULT_CALLBACK_TTL = 30 * 24 * 60 * 60
+
+const ID_PATTERN = /^[a-z][a-z0-9_.-]{0,23}$/i
+const DATA_PATTERN = /^([a-z][a-z0-9_.-]{0,23})\|([0-9a-z]+)\|([\w-]{11})\|([\s\S]+)$/i
+const SIGNATURE_BYTES = 8
+const REFERENCE_PREFIX = '~'
+const STORE_KEY_PREFIX = 'callback:'
+/** KV rejects shorter expiration TTLs */
+const MIN_STORE_TTL = 60
+
+export interface CallbackDefinition<S extends z.ZodType = z.ZodType> {
+  /** Short, unique name that prefixes the data, e.g. 'acc.approve' */
+  id: string
+  schema: S
+  /** Seconds the button stays valid, 0 for never (spilled payloads still expire) */
+  ttl: number
+}
+
+export type CallbackPayload<D extends CallbackDefinition> = z.infer<D['schema']>
+
+/**
+ * Declare a kind of button. With an object schema only the values are encoded,
+ * so append new fields at the end to keep old buttons working.
+ */
+export function defineCallback<S extends z.ZodType>(
+  id: string,
+  schema: S,
+  options: { ttl?: number } = {}
+): CallbackDefinition<S> {
+  if (!ID_PATTERN.test(id)) {
+    throw new Error(`Invalid callback id "${id}"`)
+  }
+
+  return { id, schema, ttl: options.ttl ?? DEFAULT_CALLBACK_TTL }
+}
+
+export type CallbackDataErrorCode =
+  | 'malformed'
+  | 'signature'
+  | 'expired'
+  | 'missing'
+  | 'invalid'
+  | 'too_long'
+
+export class CallbackDataError extends Error {
+  constructor(
+    message: string,
+    public readonly code: CallbackDataErrorCode
+  ) {
+    super(message)
+    this.name = 'CallbackDataError'
+  }
+}
+
+export interface CallbackDataCodecConfig {
+  /** HMAC key, see getCallbackSecret in env-guards */
+  secret: string
+  /** Where oversized payloads go; without it they can't be encoded */
+  store?: IKeyValueStore | null
+  /** Clock in ms, for tests */
+  now?: () => number
+}
+
+/**
+ * Id of codec-encoded data, or null for plain strings like 'main_menu'
+ */
+export function getCallbackId(data: string | undefined): string | null {
+  return (data && DATA_PATTERN.exec(data)?.[1]) || null
+}
+
+export class CallbackDataCodec {
+  private key: Promise<CryptoKey>
+  private store: IKeyValueStore | null
+  private now: () => number
+
+  constructor(config: CallbackDataCodecConfig) {
+    this.key = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(config.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    )
+    this.store = config.store ?? null
+    this.now = config.now ?? Date.now
+  }
+
+  async encode<D extends CallbackDefinition>(
+    definition: D,
+    payload: CallbackPayload<D>
+  ): Promise<string> {
+    const value = definition.schema.parse(payload)
+    const nowSeconds = Math.floor(this.now() / 1000)
+    const expiry = definition.ttl > 0 ? (nowSeconds + definition.ttl).toString(36) : '0'
+
+    const body = JSON.stringify(toWire(definition.schema, value))
+    const data = await this.sign(definition.id, expiry, body)
+    if (byteLength(data) <= MAX_CALLBACK_DATA_BYTES) {
+      return data
+    }
+
+    if (!this.store) {
+      throw new CallbackDataError(
+        `Callback data for ${definition.id} exceeds ${MAX_CALLBACK_DATA_BYTES} bytes`,
+        'too_long'
+      )
+    }
+
+    const reference = createReference()
+    await this.store.put(`${STORE_KEY_PREFIX}${reference}`, body, {
+      expirationTtl: Math.max(MIN_STORE_TTL, definition.ttl || DEFAULT_CALLBACK_TTL)
+    })
+
+    return this.sign(definition.id, expiry, `${REFERENCE_PREFIX}${reference}`)
+  }
+
+  /**
+   * Verify and parse data created by encode() for the given definition
+   */
+  async decode<D extends CallbackDefinition>(
+    definition: D,
+    data: string
+  ): Promise<CallbackPayload<D>> {
+    const match = DATA_PATTERN.exec(data)
+    const [, id, expiry, signature, body] = match ?? []
+    if (!id || !expiry || !signature || !body || id !== definition.id) {
+      throw new CallbackDataError(`Not ${definition.id} callback data`, 'malformed')
+    }
+
+    const expected = await this.signature(id, expiry, body)
+    if (!timingSafeEqual(expected, signature)) {
+      throw new CallbackDataError(`Invalid signature for ${id}`, 'signature')
+    }
+
+    if (expiry !== '0' && parseInt(expiry, 36) * 1000 < this.now()) {
+      throw new CallbackDataError(`Callback ${id} has expired`, 'expired')
+    }
+
+    let json = body
+    if (body.startsWith(REFERENCE_PREFIX)) {
+      const stored = await this.store?.get(`${STORE_KEY_PREFIX}${body.slice(1)}`)
+      if (!stored) {
+        throw new CallbackDataError(`Stored payload for ${id} is gone`, 'missing')
+      }
+      json = stored
+    }
+
+    let wire: unknown
+    try {
+      wire = JSON.parse(json)
+    } catch {
+      throw new CallbackDataError(`Payload of ${id} is not JSON`, 'malformed')
+    }
+
+    const parsed = definition.schema.safeParse(fromWire(definition.schema, wire))
+    if (!parsed.success) {
+      throw new CallbackDataError(`Payload of ${id} does not match its schema`, 'invalid')
+    }
+    return parsed.data as CallbackPayload<D>
+  }
+
+  private async sign(id: string, expiry: string, body: string): Promise<string> {
+    return `${id}|${expiry}|${await this.signature(id, expiry, body)}|${body}`
+  }
+
+  private async signature(id: string, expiry: string, body: string): Promise<string> {
+    const mac = await crypto.subtle.sign(
+      'HMAC',
+      await this.key,
+      new TextEncoder().encode(`${id}|${expiry}|${body}`)
+    )
+    return toBase64Url(new Uint8Array(mac, 0, SIGNATURE_BYTES))
+  }
+}
+
+/**
+ * Object payloads travel as their values in schema order: {id: 5} -> [5]
+ */
+function toWire(schema: z.ZodType, value: unknown): unknown {
+  if (schema instanceof z.ZodObject && value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    const values = Object.keys(schema.shape).map(key => record[key] ?? null)
+
+    // Optional fields at the end cost nothing
+    while (values.length > 0 && values[values.length - 1] === null) {
+      values.pop()
+    }
+    return values
+  }
+  return value
+}
+
+function fromWire(schema: z.ZodType, wire: unknown): unknown {
+  if (schema instanceof z.ZodObject && Array.isArray(wire)) {
+    const shape = schema.shape as Record<string, z.ZodType>
+    return Object.fromEntries(
+      Object.entries(shape).map(([key, field], index) => {
+        const value = wire[index] ?? null
+        // null stands in for undefined unless the field takes null itself
+        return [key, value === null && !field.safeParse(null).success ? undefined : value]
+      })
+    )
+  }
+  return wire
+}
+
+function createReference(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(12)))
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false
+  }
+
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return difference === 0
+}
@@ -0,0 +1,138 @@
+/**
+ * Text extraction and chunking for document ingestion
+ */
+
+export interface ChunkOptions {
+  /**
+   * Maximum chunk length in characters (default 1000)
+   */
+  chunkSize?: number
+  /**
+   * Characters repeated from the end of the previous chunk (default 150)
+   */
+  overlap?: number
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0'
+}
+
+/**
+ * Split text into chunks along paragraph, then sentence, then word boundaries.
+ * Consecutive chunks overlap so that passages cut at a boundary keep context.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const chunkSize = options.chunkSize ?? 1000
+  const overlap = Math.min(options.overlap ?? 150, Math.floor(chunkSize / 2))
+
+  // Paragraphs are joined with a line break, sentences and words with a space
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .flatMap(paragraph =>
+      splitParagraph(paragraph, chunkSize).map((piece, i) => ({
+        text: piece,
+        separator: i === 0 ? '\n' : ' '
+      }))
+    )
+
+  const chunks: string[] = []
+  let current = ''
+
+  for (const piece of pieces) {
+    if (!current) {
+      current = piece.text
+    } else if (current.length + 1 + piece.text.length <= chunkSize) {
+      current = `${current}${piece.separator}${piece.text}`
+    } else {
+      chunks.push(current)
+      const tail = overlapTail(current, overlap)
+      current =
+        tail && tail.length + 1 + piece.text.length <= chunkSize
+          ? `${tail} ${piece.text}`
+          : piece.text
+    }
+  }
+
+  if (current) {
+    chunks.push(current)
+  }
+  return chunks
+}
+
+/**
+ * Extract the title and readable text of an HTML page
+ */
+export function htmlToText(html: string): { title?: string; text: string } {
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1]
+
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|title|script|style|noscript|template|svg)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(
+      /<\/?(p|div|section|article|main|header|footer|li|ul|ol|tr|table|h[1-6]|pre|blockquote)\b[^>]*>/gi,
+      '\n\n'
+    )
+    .replace(/<[^>]+>/g, '')
+
+  return {
+    title: title ? normalizeLine(decodeEntities(title)) || undefined : undefined,
+    text: decodeEntities(text)
+      .split('\n')
+      .map(normalizeLine)
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+}
+
+/**
+ * Split a paragraph into sentences, and sentences longer than a chunk into words
+ */
+function splitParagraph(paragraph: string, chunkSize: number): string[] {
+  if (paragraph.length <= chunkSize) return [paragraph]
+
+  return paragraph.split(/(?<=[.!?])\s+/).flatMap(sentence => {
+    if (sentence.length <= chunkSize) return [sentence]
+
+    // Words longer than a chunk (URLs, base64) are cut hard
+    return sentence.split(' ').flatMap(word => {
+      const parts: string[] = []
+      for (let start = 0; start < word.length; start += chunkSize) {
+        parts.push(word.slice(start, start + chunkSize))
+      }
+      return parts
+    })
+  })
+}
+
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0) return ''
+  if (text.length <= overlap) return text
+
+  const tail = text.slice(-overlap)
+  const boundary = tail.search(/\s/)
+  return (boundary >= 0 ? tail.slice(boundary + 1) : tail).trim()
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1]?.toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isNaN(code) || code > 0x10ffff ? entity : String.fromCodePoint(code)
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+function normalizeLine(line: string): string {
+  return line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim()
+}
@@ -118,6 +118,14 @@ export function getWebhookSecret(env: Env): string {
   return env.TELEGRAM_WEBHOOK_SECRET
 }
 
+/**
+ * Get the key for signing inline keyboard callback data.
+ * Falls back to the bot token, which is just as private to the deployment.
+ */
+export function getCallbackSecret(env: Env): string {
+  return env.CALLBACK_SECRET || getBotToken(env)
+}
+
 /**
  * Safely get AI provider API key
  */
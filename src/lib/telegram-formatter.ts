@@ -188,3 +188,16 @@ export function truncateMessage(text: string, maxLength: number = 1000): string
   }
   return text.substring(0, maxLength - 3) + '...'
 }
+
+/**
+ * Escapes special characters for Telegram HTML parse mode
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,312 @@
+import type { Api } from 'grammy'
+
+import { logger } from '@/lib/logger'
+
+/**
+ * Telegram rejects messages longer than this
+ */
+export const TELEGRAM_MESSAGE_LIMIT = 4096
+
+type StreamApi = Pick<Api, 'sendMessage' | 'editMessageText' | 'deleteMessage'>
+
+export interface StreamRendererOptions {
+  /**
+   * Minimum delay between edits of the same chat. Defaults to 1 second in private
+   * chats and 3 seconds in groups, which stays below Telegram's flood limits.
+   */
+  editIntervalMs?: number
+  /**
+   * Maximum length of a single message (default 4096)
+   */
+  maxLength?: number
+  /**
+   * Text shown until the first chunk arrives
+   */
+  placeholder?: string
+  replyToMessageId?: number
+}
+
+interface TelegramApiError {
+  error_code?: number
+  description?: string
+  parameters?: { retry_after?: number }
+}
+
+interface OpenTag {
+  name: string
+  tag: string
+}
+
+/**
+ * Renders a streamed answer into Telegram messages.
+ *
+ * A placeholder is sent first and then edited as chunks arrive, no more often than
+ * the edit interval. Text that outgrows a message continues in a new one. While
+ * streaming the text is shown without formatting; `finish` re-renders the complete
+ * answer as HTML, split on safe boundaries, and falls back to plain text when
+ * Telegram cannot parse the markup.
+ */
+export class TelegramStreamRenderer {
+  private buffer = ''
+  private messageIds: number[] = []
+  private rendered: string[] = []
+  private nextEditAt = 0
+  private finished = false
+  private readonly editIntervalMs: number
+  private readonly maxLength: number
+
+  constructor(
+    private api: StreamApi,
+    private chatId: number,
+    private options: StreamRendererOptions = {}
+  ) {
+    this.editIntervalMs = options.editIntervalMs ?? (chatId < 0 ? 3000 : 1000)
+    this.maxLength = options.maxLength ?? TELEGRAM_MESSAGE_LIMIT
+  }
+
+  get text(): string {
+    return this.buffer
+  }
+
+  /**
+   * Send the placeholder message
+   */
+  async start(): Promise<void> {
+    if (this.messageIds.length) return
+
+    const placeholder = this.options.placeholder ?? '…'
+    const message = await this.api.sendMessage(this.chatId, placeholder, {
+      ...(this.options.replyToMessageId
+        ? { reply_parameters: { message_id: this.options.replyToMessageId } }
+        : {})
+    })
+    this.messageIds.push(message.message_id)
+    this.rendered.push(`text:${placeholder}`)
+    this.nextEditAt = Date.now() + this.editIntervalMs
+  }
+
+  /**
+   * Add a chunk and update the messages if the edit interval has passed
+   */
+  async append(chunk: string): Promise<void> {
+    this.buffer += chunk
+    if (Date.now() < this.nextEditAt) return
+
+    await this.render(splitText(stripTags(this.buffer), this.maxLength), {})
+  }
+
+  /**
+   * Render the complete answer as HTML. `footer` is trusted HTML appended to the last message.
+   */
+  async finish(footer = ''): Promise<void> {
+    const body = this.buffer.trim() || (this.options.placeholder ?? '…')
+    const parts = splitHtml(body, this.maxLength - footer.length)
+    parts[parts.length - 1] += footer
+
+    let count = parts.length
+    try {
+      await this.render(parts, { parse_mode: 'HTML' }, true)
+    } catch (error) {
+      if (!isParseError(error)) throw error
+
+      logger.warn('Streamed answer has invalid HTML, sending plain text', {
+        chatId: this.chatId
+      })
+      const plain = splitText(stripTags(body + footer), this.maxLength)
+      count = plain.length
+      await this.render(plain, {}, true)
+    }
+
+    // The final answer may need fewer messages than the streamed text
+    await this.truncate(count)
+    this.finished = true
+  }
+
+  /**
+   * Replace the placeholder or partial answer with `text`, e.g. when the stream failed.
+   * Returns false when nothing was sent yet or the answer is already complete.
+   */
+  async fail(text: string): Promise<boolean> {
+    if (!this.messageIds.length || this.finished) return false
+
+    const parts = splitText(text, this.maxLength)
+    await this.render(parts, {}, true)
+    await this.truncate(parts.length)
+    return true
+  }
+
+  private async truncate(count: number): Promise<void> {
+    while (this.messageIds.length > count) {
+      const messageId = this.messageIds.pop() as number
+      this.rendered.pop()
+      await this.api.deleteMessage(this.chatId, messageId).catch(() => undefined)
+    }
+  }
+
+  private async render(
+    parts: string[],
+    other: { parse_mode?: 'HTML' },
+    final = false
+  ): Promise<void> {
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i] as string
+      // Same text in another parse mode renders differently
+      const key = `${other.parse_mode ?? 'text'}:${part}`
+      if (!part.trim() || this.rendered[i] === key) continue
+
+      try {
+        const messageId = this.messageIds[i]
+        if (messageId === undefined) {
+          const message = await this.api.sendMessage(this.chatId, part, other)
+          this.messageIds.push(message.message_id)
+        } else {
+          await this.api.editMessageText(this.chatId, messageId, part, other)
+        }
+        this.rendered[i] = key
+      } catch (error) {
+        const apiError = error as TelegramApiError
+        if (apiError.description?.includes('message is not modified')) {
+          this.rendered[i] = key
+          continue
+        }
+
+        const retryAfter = apiError.parameters?.retry_after
+        if (!final && apiError.error_code === 429 && retryAfter) {
+          this.nextEditAt = Date.now() + retryAfter * 1000
+          return
+        }
+        if (final && apiError.error_code === 429 && retryAfter) {
+          await new Promise(resolve => setTimeout(resolve, retryAfter * 1000))
+          i--
+          continue
+        }
+        if (final) throw error
+
+        logger.warn('Failed to update streamed message', { chatId: this.chatId, error })
+        return
+      }
+    }
+
+    this.nextEditAt = Date.now() + this.editIntervalMs
+  }
+}
+
+/**
+ * Split plain text into parts no longer than `maxLength`,
+ * preferring paragraph, line and word boundaries
+ */
+export function splitText(text: string, maxLength = TELEGRAM_MESSAGE_LIMIT): string[] {
+  const parts: string[] = []
+  let rest = text
+
+  while (rest.length > maxLength) {
+    const cut = findCut(rest, maxLength)
+    parts.push(rest.slice(0, cut).trimEnd())
+    rest = rest.slice(cut).trimStart()
+  }
+
+  parts.push(rest)
+  return parts
+}
+
+/**
+ * Split HTML into parts no longer than `maxLength`. Tags are never cut; tags open at
+ * a split are closed at the end of one part and reopened at the start of the next.
+ */
+export function splitHtml(html: string, maxLength = TELEGRAM_MESSAGE_LIMIT): string[] {
+  const parts: string[] = []
+  let open: OpenTag[] = []
+  let rest = html
+
+  while (true) {
+    const prefix = open.map(tag => tag.tag).join('')
+    if (prefix.length + rest.length + closing(trackTags(open, rest)).length <= maxLength) {
+      parts.push(prefix + rest)
+      return parts
+    }
+
+    let budget = maxLength - prefix.length - closing(open).length
+    let chunk = ''
+    let stillOpen = open
+    // Shrink the part until the tags it leaves open can be closed within the limit
+    while (budget > 0) {
+      const cut = findCut(rest, budget)
+      chunk = rest.slice(0, cut)
+      stillOpen = trackTags(open, chunk)
+      const overflow = prefix.length + chunk.length + closing(stillOpen).length - maxLength
+      if (overflow <= 0) break
+      budget -= overflow
+    }
+    if (!chunk || budget <= 0) {
+      // Tags alone exceed the limit; give up on keeping them balanced
+      return parts.concat(splitText(prefix + rest, maxLength))
+    }
+
+    parts.push(prefix + chunk.trimEnd() + closing(stillOpen))
+    open = stillOpen
+    rest = rest.slice(chunk.length).trimStart()
+  }
+}
+
+/**
+ * Position to cut `text` at so that the first part fits in `maxLength`
+ */
+function findCut(text: string, maxLength: number): number {
+  if (text.length <= maxLength) return text.length
+
+  const head = text.slice(0, maxLength)
+  const minimum = Math.floor(maxLength / 2)
+  for (const separator of ['\n\n', '\n', ' ']) {
+    let index = head.lastIndexOf(separator)
+    while (index > minimum && insideMarkup(head, index)) {
+      index = head.lastIndexOf(separator, index - 1)
+    }
+    if (index > minimum) return index + separator.length
+  }
+
+  // No boundary: cut hard, but not inside a tag or an entity
+  let cut = maxLength
+  const tagStart = head.lastIndexOf('<')
+  if (tagStart > head.lastIndexOf('>')) cut = tagStart
+  const entityStart = head.lastIndexOf('&')
+  if (entityStart > head.lastIndexOf(';') && entityStart > maxLength - 10) {
+    cut = Math.min(cut, entityStart)
+  }
+  return cut > 0 ? cut : maxLength
+}
+
+function insideMarkup(text: string, index: number): boolean {
+  const before = text.slice(0, index)
+  return before.lastIndexOf('<') > before.lastIndexOf('>')
+}
+
+function trackTags(open: OpenTag[], html: string): OpenTag[] {
+  const stack = [...open]
+  for (const match of html.matchAll(/<(\/?)([a-zA-Z][\w-]*)[^>]*>/g)) {
+    const name = (match[2] as string).toLowerCase()
+    if (match[1]) {
+      const index = stack.map(tag => tag.name).lastIndexOf(name)
+      if (index >= 0) stack.splice(index, 1)
+    } else {
+      stack.push({ name, tag: match[0] })
+    }
+  }
+  return stack
+}
+
+function closing(open: OpenTag[]): string {
+  return [...open]
+    .reverse()
+    .map(tag => `</${tag.name}>`)
+    .join('')
+}
+
+function stripTags(html: string): string {
+  // A tag cut by the stream is still being written; hide it too
+  return html.replace(/<\/?[a-zA-Z][^>]*(>|$)/g, '')
+}
+
+function isParseError(error: unknown): boolean {
+  const apiError = error as TelegramApiError
+  return apiError.error_code === 400 && /can't parse entities/i.test(apiError.description ?? '')
+}
@@ -4,6 +4,8 @@ export interface TimeoutOptions {
   timeoutMs: number
   errorMessage?: string
   operation?: string
+  /** Called when the time runs out, e.g. to abort the work behind the promise */
+  onTimeout?: () => void
 }
 
 /**
@@ -32,12 +34,14 @@ export async function withTimeout<T>(
 ): Promise<T> {
   const config: TimeoutOptions = typeof options === 'number' ? { timeoutMs: options } : options
 
-  const { timeoutMs, errorMessage, operation } = config
+  const { timeoutMs, errorMessage, operation, onTimeout } = config
 
+  let timer: ReturnType<typeof setTimeout> | undefined
   const timeoutPromise = new Promise<never>((_resolve, reject) => {
-    setTimeout(() => {
+    timer = setTimeout(() => {
       const message = errorMessage || `Operation timed out after ${timeoutMs}ms`
       reject(new TimeoutError(message, timeoutMs, operation))
+      onTimeout?.()
     }, timeoutMs)
   })
 
@@ -53,6 +57,8 @@ export async function withTimeout<T>(
       })
     }
     throw error
+  } finally {
+    clearTimeout(timer)
   }
 }
 
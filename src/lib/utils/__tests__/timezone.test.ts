@@ -102,6 +102,37 @@ describe('TimezoneUtils', () => {
     })
   })
 
+  describe('daily windows', () => {
+    it('should return the end of a window crossing midnight', () => {
+      const tz = new TimezoneUtils('Asia/Bangkok')
+
+      // 23:30 and 03:00 local time both end at 08:00 the next morning
+      const evening = tz.getWindowEnd('22:00', '08:00', new Date('2025-08-06T16:30:00Z'))
+      const night = tz.getWindowEnd('22:00', '08:00', new Date('2025-08-06T20:00:00Z'))
+
+      expect(evening?.toISOString()).toBe('2025-08-07T01:00:00.000Z')
+      expect(night?.toISOString()).toBe('2025-08-07T01:00:00.000Z')
+    })
+
+    it('should return the end of a window within one day', () => {
+      const tz = new TimezoneUtils('Europe/Moscow')
+
+      const end = tz.getWindowEnd('13:00', '14:30', new Date('2025-08-06T10:15:00Z'))
+
+      expect(tz.format(end as Date, 'YYYY-MM-DD HH:mm')).toBe('2025-08-06 14:30')
+    })
+
+    it('should return null outside the window or for invalid windows', () => {
+      const tz = new TimezoneUtils('Asia/Bangkok')
+      const noon = new Date('2025-08-06T05:00:00Z')
+
+      expect(tz.getWindowEnd('22:00', '08:00', noon)).toBeNull()
+      expect(tz.getWindowEnd('22:00', '08:00', new Date('2025-08-07T01:00:00Z'))).toBeNull()
+      expect(tz.getWindowEnd('10:00', '10:00', noon)).toBeNull()
+      expect(tz.getWindowEnd('25:00', '08:00', noon)).toBeNull()
+    })
+  })
+
   describe('parsing', () => {
     it('should parse date strings in timezone context', () => {
       const tz = new TimezoneUtils('Asia/Bangkok')
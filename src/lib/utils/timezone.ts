@@ -138,6 +138,37 @@ export class TimezoneUtils {
     return todayTarget.toDate()
   }
 
+  /**
+   * Get the end of a daily local window (HH:mm - HH:mm) containing the date.
+   * Windows may cross midnight (e.g. 22:00 - 08:00).
+   * Returns null when the date is outside the window.
+   */
+  getWindowEnd(start: string, end: string, date: Date = new Date()): Date | null {
+    const startMinutes = parseClockTime(start)
+    const endMinutes = parseClockTime(end)
+    if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) {
+      return null
+    }
+
+    const local = dayjs(date).tz(this.timezoneName)
+    const minutes = local.hour() * 60 + local.minute()
+    const inside =
+      startMinutes < endMinutes
+        ? minutes >= startMinutes && minutes < endMinutes
+        : minutes >= startMinutes || minutes < endMinutes
+
+    if (!inside) {
+      return null
+    }
+
+    // Before the start on the same day means the window ends today, otherwise tomorrow
+    const endDay = minutes < endMinutes ? local : local.add(1, 'day')
+    const endTime = `${Math.floor(endMinutes / 60)}:${endMinutes % 60}`
+    return dayjs
+      .tz(`${endDay.format('YYYY-MM-DD')} ${endTime}`, 'YYYY-MM-DD H:m', this.timezoneName)
+      .toDate()
+  }
+
   private normalizeDate(date: Date | string | number): Date {
     if (typeof date === 'string' || typeof date === 'number') {
       return new Date(date)
@@ -146,6 +177,14 @@ export class TimezoneUtils {
   }
 }
 
+/**
+ * Parse an HH:mm clock time into minutes since midnight
+ */
+function parseClockTime(value: string): number | null {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
 /**
  * Factory for creating timezone utils
  */
@@ -1,6 +1,7 @@
 import { rateLimiter } from './rate-limiter'
 
 import type { EventBus } from '@/core/events/event-bus'
+import type { RateLimitAlgorithm } from '@/core/rate-limit'
 
 /**
  * Rate limiting policies for different endpoint types
@@ -11,13 +12,18 @@ interface RateLimitPolicyConfig {
   windowMs?: number
   maxRequests?: number
   eventBus?: EventBus
+  /**
+   * Algorithm for every policy. Counters live in the RATE_LIMITER Durable
+   * Object when it is bound and fall back to RATE_LIMIT KV.
+   */
+  algorithm?: RateLimitAlgorithm
 }
 
 /**
  * Creates rate limit policies with optional EventBus integration
  */
 export function createRateLimitPolicies(config?: RateLimitPolicyConfig) {
-  const { eventBus } = config || {}
+  const { eventBus, algorithm } = config || {}
 
   return {
     /**
@@ -28,6 +34,7 @@ export function createRateLimitPolicies(config?: RateLimitPolicyConfig) {
       windowMs: 60000, // 1 minute
       maxRequests: 100, // 100 requests per minute
       eventBus,
+      algorithm,
       message: 'Global rate limit exceeded. Please slow down your requests.'
     }),
 
@@ -39,6 +46,7 @@ export function createRateLimitPolicies(config?: RateLimitPolicyConfig) {
       windowMs: 60000, // 1 minute
       maxRequests: 20, // 20 requests per minute
       eventBus,
+      algorithm,
       message: 'Rate limit exceeded for this endpoint. Please try again later.'
     }),
 
@@ -51,6 +59,7 @@ export function createRateLimitPolicies(config?: RateLimitPolicyConfig) {
       maxRequests: 60, // 60 requests per minute
       skipFailedRequests: true, // Don't count failed requests
       eventBus,
+      algorithm,
       message: 'API rate limit exceeded. Please check the Retry-After header.'
     }),
 
@@ -63,6 +72,7 @@ export function createRateLimitPolicies(config?: RateLimitPolicyConfig) {
       maxRequests: 120, // 120 requests per minute (2 per second)
       skipSuccessfulRequests: false,
       eventBus,
+      algorithm,
       message: 'Health check rate limit exceeded.'
     }),
 
@@ -75,6 +85,7 @@ export function createRateLimitPolicies(config?: RateLimitPolicyConfig) {
       maxRequests: 200, // 200 requests per minute
       skipSuccessfulRequests: true, // Only count errors
       eventBus,
+      algorithm,
       message: 'Static content rate limit exceeded.'
     }),
 
@@ -87,6 +98,7 @@ export function createRateLimitPolicies(config?: RateLimitPolicyConfig) {
       maxRequests: 5, // 5 attempts per 15 minutes
       skipSuccessfulRequests: true, // Only count failed attempts
       eventBus,
+      algorithm,
       message: 'Too many authentication attempts. Please try again in 15 minutes.'
     }),
 
@@ -98,6 +110,7 @@ export function createRateLimitPolicies(config?: RateLimitPolicyConfig) {
       windowMs: 1000, // 1 second
       maxRequests: 10, // 10 requests per second max
       eventBus,
+      algorithm,
       message: 'Burst limit exceeded. Please spread out your requests.'
     })
   }
@@ -1,6 +1,8 @@
 import type { Context, MiddlewareHandler } from 'hono'
 
 import { EventBus } from '@/core/events/event-bus'
+import type { RateLimitAlgorithm, RateLimitDecision, RateLimitRule } from '@/core/rate-limit'
+import { createRateLimitStore } from '@/core/rate-limit'
 import { logger } from '@/lib/logger'
 import type { Env } from '@/types'
 
@@ -12,6 +14,11 @@ interface RateLimitConfig {
   skipFailedRequests?: boolean
   message?: string
   eventBus?: EventBus
+  /**
+   * Counting algorithm. Fixed windows are cheapest; sliding windows and token
+   * buckets smooth out bursts at window boundaries.
+   */
+  algorithm?: RateLimitAlgorithm
 }
 
 export const rateLimiter = (config: RateLimitConfig = {}): MiddlewareHandler<{ Bindings: Env }> => {
@@ -23,98 +30,91 @@ export const rateLimiter = (config: RateLimitConfig = {}): MiddlewareHandler<{ B
     skipSuccessfulRequests = false,
     skipFailedRequests = false,
     message = 'Too many requests, please try again later.',
-    eventBus
+    eventBus,
+    algorithm = 'fixed-window'
   } = config
 
+  const rule: RateLimitRule = { algorithm, limit: maxRequests, windowMs }
+
   return async (c, next) => {
     const env = c.env as Env
     const key = `rate_limit:${keyGenerator(c)}`
 
-    try {
-      // Use KV storage for distributed rate limiting
-      // Check if RATE_LIMIT is available
-      if (!env.RATE_LIMIT) {
-        // If no rate limit storage, allow request
-        await next()
-        return
-      }
-
-      const rateLimitData = (await env.RATE_LIMIT.get(key, 'json')) as {
-        count: number
-        resetAt: number
-      } | null
-      const now = Date.now()
-
-      let count = 0
-      let resetAt = now + windowMs
-
-      if (rateLimitData && rateLimitData.resetAt > now) {
-        count = rateLimitData.count
-        resetAt = rateLimitData.resetAt
-      } else {
-        // Reset the window
-        count = 0
-      }
-
-      if (count >= maxRequests) {
-        const retryAfter = Math.ceil((resetAt - now) / 1000)
-
-        logger.warn('Rate limit exceeded', {
-          key,
-          count,
-          maxRequests,
-          retryAfter
-        })
-
-        // Emit rate limit exceeded event
-        if (eventBus) {
-          eventBus.emit(
-            'rate-limit.exceeded',
-            {
-              key,
-              count,
-              maxRequests,
-              retryAfter,
-              ip: keyGenerator(c),
-              path: c.req.path,
-              method: c.req.method
-            },
-            'rate-limiter'
-          )
-        }
-
-        return c.text(message, 429, {
-          'Retry-After': retryAfter.toString(),
-          'X-RateLimit-Limit': maxRequests.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': new Date(resetAt).toISOString()
-        })
-      }
-
-      // Execute the request
+    // Durable Object counters when bound, KV otherwise
+    const store = createRateLimitStore(env)
+    if (!store) {
+      // If no rate limit storage, allow request
       await next()
+      return
+    }
 
-      // Update count based on response status and configuration
-      const shouldCount =
-        (c.res.status < 400 && !skipSuccessfulRequests) ||
-        (c.res.status >= 400 && !skipFailedRequests)
-
-      if (shouldCount) {
-        count++
-        await env.RATE_LIMIT.put(key, JSON.stringify({ count, resetAt }), {
-          expirationTtl: Math.ceil(windowMs / 1000)
-        })
-      }
-
-      // Add rate limit headers
-      c.header('X-RateLimit-Limit', maxRequests.toString())
-      c.header('X-RateLimit-Remaining', Math.max(0, maxRequests - count).toString())
-      c.header('X-RateLimit-Reset', new Date(resetAt).toISOString())
+    let decision: RateLimitDecision
+    try {
+      decision = await store.consume(key, rule)
     } catch (error) {
       logger.error('Rate limiter error', { error, key })
       // On error, allow the request to proceed
       await next()
+      return
+    }
+
+    if (!decision.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000))
+
+      logger.warn('Rate limit exceeded', {
+        key,
+        algorithm,
+        maxRequests,
+        retryAfter
+      })
+
+      // Emit rate limit exceeded event
+      if (eventBus) {
+        eventBus.emit(
+          'rate-limit.exceeded',
+          {
+            key,
+            count: decision.count,
+            maxRequests,
+            retryAfter,
+            ip: keyGenerator(c),
+            path: c.req.path,
+            method: c.req.method
+          },
+          'rate-limiter'
+        )
+      }
+
+      return c.text(message, 429, {
+        'Retry-After': retryAfter.toString(),
+        'X-RateLimit-Limit': maxRequests.toString(),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': new Date(decision.resetAt).toISOString()
+      })
     }
+
+    // Execute the request
+    await next()
+
+    // The request was counted up front; give it back if this response shouldn't count
+    const shouldCount =
+      (c.res.status < 400 && !skipSuccessfulRequests) ||
+      (c.res.status >= 400 && !skipFailedRequests)
+
+    let remaining = decision.remaining
+    if (!shouldCount) {
+      try {
+        await store.refund(key, rule)
+        remaining = Math.min(maxRequests, remaining + 1)
+      } catch (error) {
+        logger.error('Rate limiter refund failed', { error, key })
+      }
+    }
+
+    // Add rate limit headers
+    c.header('X-RateLimit-Limit', maxRequests.toString())
+    c.header('X-RateLimit-Remaining', remaining.toString())
+    c.header('X-RateLimit-Reset', new Date(decision.resetAt).toISOString())
     return
   }
 }
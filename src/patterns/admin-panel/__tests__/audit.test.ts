@@ -0,0 +1,97 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import migration from '../../../../migrations/0014_audit_log.sql?raw'
+import { handleAdminAudit, handleAdminAuditExport } from '../handlers/audit'
+import type { AdminEnv, AdminRequest } from '../types'
+
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+import { parseMigrationFile, splitStatements } from '@/core/database/migration-sql'
+import { UniversalAuditLogService } from '@/core/services/audit-log-service'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+function createRequest(path: string): AdminRequest {
+  const request = new Request(`https://example.com${path}`) as AdminRequest
+  request.adminId = 123456789
+  request.isAuthenticated = true
+  return request
+}
+
+describe('Admin Audit Log', () => {
+  const adminEnv = { DB } as unknown as AdminEnv
+
+  beforeEach(async () => {
+    await DB.prepare('DROP TABLE IF EXISTS audit_log').run()
+    await DB.prepare('DROP TABLE IF EXISTS audit_log_anchor').run()
+    for (const statement of splitStatements(
+      parseMigrationFile('0014_audit_log.sql', migration).up
+    )) {
+      await DB.prepare(statement).run()
+    }
+
+    const auditLog = new UniversalAuditLogService({ db: new CloudflareDatabaseStore(DB) })
+    await auditLog.append({
+      action: 'command.roles',
+      userId: 'telegram_42',
+      result: 'success',
+      metadata: { args: '<script>' },
+      createdAt: new Date('2025-03-01T10:00:00Z')
+    })
+    await auditLog.append({
+      action: 'command.broadcast',
+      userId: 'telegram_7',
+      result: 'failure',
+      createdAt: new Date('2025-03-05T10:00:00Z')
+    })
+  })
+
+  it('should list filtered entries with escaped details', async () => {
+    const response = await handleAdminAudit(
+      createRequest('/admin/audit?user=42&from=2025-03-01&to=2025-03-01'),
+      adminEnv
+    )
+    const html = await response.text()
+
+    expect(response.status).toBe(200)
+    expect(html).toContain('command.roles')
+    expect(html).not.toContain('command.broadcast')
+    expect(html).toContain('&lt;script&gt;')
+    expect(html).toContain(
+      'href="/admin/audit/export?user=42&from=2025-03-01&to=2025-03-01&format=csv"'
+    )
+  })
+
+  it('should show an error for malformed filters', async () => {
+    const response = await handleAdminAudit(createRequest('/admin/audit?from=march'), adminEnv)
+
+    expect(await response.text()).toContain('Invalid filter')
+  })
+
+  it('should export matching entries', async () => {
+    const csv = await handleAdminAuditExport(
+      createRequest('/admin/audit/export?result=failure&format=csv'),
+      adminEnv
+    )
+    expect(csv.headers.get('content-disposition')).toBe('attachment; filename="audit-log.csv"')
+    const rows = (await csv.text()).trim().split('\r\n')
+    expect(rows).toHaveLength(2)
+    expect(rows[1]).toContain('command.broadcast')
+
+    const json = await handleAdminAuditExport(
+      createRequest('/admin/audit/export?action=command.*&format=json'),
+      adminEnv
+    )
+    expect(json.headers.get('content-type')).toBe('application/json; charset=utf-8')
+    expect(await json.json()).toHaveLength(2)
+  })
+
+  it('should reject exports with malformed filters', async () => {
+    const response = await handleAdminAuditExport(
+      createRequest('/admin/audit/export?result=maybe'),
+      adminEnv
+    )
+
+    expect(response.status).toBe(400)
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * Audit log handler for admin panel
+ * Browse entries by user, action and date range, export them as CSV or JSON
+ */
+
+import { renderAdminLayout } from '../templates/layout'
+import type { AdminEnv, AdminRequest } from '../types'
+
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+import {
+  MAX_AUDIT_QUERY_LIMIT,
+  UniversalAuditLogService,
+  exportAuditLog,
+  parseAuditFilter
+} from '@/core/services/audit-log-service'
+
+const PAGE_SIZE = 50
+
+type FilterParams = Record<'user' | 'action' | 'result' | 'from' | 'to', string>
+
+function readFilterParams(url: URL): FilterParams {
+  const get = (name: string) => url.searchParams.get(name)?.trim() ?? ''
+  return {
+    user: get('user'),
+    action: get('action'),
+    result: get('result'),
+    from: get('from'),
+    to: get('to')
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export async function handleAdminAudit(request: AdminRequest, env: AdminEnv): Promise<Response> {
+  const url = new URL(request.url)
+  const params = readFilterParams(url)
+  const filter = parseAuditFilter(params)
+  const beforeId = parseInt(url.searchParams.get('before') || '') || undefined
+
+  let entries: Awaited<ReturnType<UniversalAuditLogService['query']>> = []
+  let total = 0
+  let error = filter
+    ? ''
+    : 'Invalid filter. Dates are YYYY-MM-DD, actions look like command.roles or command.*'
+
+  if (env.DB && filter) {
+    try {
+      const auditLog = new UniversalAuditLogService({ db: new CloudflareDatabaseStore(env.DB) })
+      const [page, count] = await Promise.all([
+        auditLog.query({ ...filter, beforeId, limit: PAGE_SIZE }),
+        auditLog.count(filter)
+      ])
+      entries = page
+      total = count
+    } catch (err) {
+      console.error('Failed to fetch audit log:', err)
+      error = 'Failed to load the audit log'
+    }
+  }
+
+  const query = new URLSearchParams(
+    Object.entries(params).filter(([, value]) => value !== '')
+  ).toString()
+  const lastEntry = entries[entries.length - 1]
+  const nextPage =
+    entries.length === PAGE_SIZE && lastEntry
+      ? `?${query ? `${query}&` : ''}before=${lastEntry.id}`
+      : ''
+
+  const content = `
+    <h1 class="page-title">Audit Log</h1>
+
+    <div class="card">
+      <form class="audit-filters" method="get" action="/admin/audit">
+        <input name="user" placeholder="User ID" value="${escapeHtml(params.user)}">
+        <input name="action" placeholder="Action, e.g. command.*" value="${escapeHtml(params.action)}">
+        <select name="result">
+          <option value="">Any result</option>
+          <option value="success"${params.result === 'success' ? ' selected' : ''}>Success</option>
+          <option value="failure"${params.result === 'failure' ? ' selected' : ''}>Failure</option>
+        </select>
+        <input type="date" name="from" value="${escapeHtml(params.from)}">
+        <input type="date" name="to" value="${escapeHtml(params.to)}">
+        <button class="button small" type="submit">Filter</button>
+        <a class="button small" href="/admin/audit/export?${query ? `${query}&` : ''}format=csv">CSV</a>
+        <a class="button small" href="/admin/audit/export?${query ? `${query}&` : ''}format=json">JSON</a>
+      </form>
+      ${error ? `<p style="color: red;">${escapeHtml(error)}</p>` : `<p>Matching entries: <strong>${total}</strong></p>`}
+    </div>
+
+    <div class="card">
+      <table class="data-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Time (UTC)</th>
+            <th>User</th>
+            <th>Action</th>
+            <th>Resource</th>
+            <th>Result</th>
+            <th>Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${
+            entries.length > 0
+              ? entries
+                  .map(
+                    entry => `
+            <tr>
+              <td>${entry.id}</td>
+              <td>${entry.createdAt.toISOString().slice(0, 19).replace('T', ' ')}</td>
+              <td>${escapeHtml(entry.userId ?? '-')}</td>
+              <td>${escapeHtml(entry.action)}</td>
+              <td>${escapeHtml(entry.resource ?? '-')}</td>
+              <td>${entry.result === 'success' ? '<span style="color: green;">Success</span>' : '<span style="color: red;">Failure</span>'}</td>
+              <td><code>${entry.metadata ? escapeHtml(JSON.stringify(entry.metadata)) : ''}</code></td>
+            </tr>
+          `
+                  )
+                  .join('')
+              : '<tr><td colspan="7" style="text-align: center;">No entries found</td></tr>'
+          }
+        </tbody>
+      </table>
+
+      ${
+        beforeId || nextPage
+          ? `
+        <div class="pagination">
+          ${beforeId ? `<a href="?${query}" class="button small">Newest</a>` : ''}
+          ${nextPage ? `<a href="${nextPage}" class="button small">Older</a>` : ''}
+        </div>
+      `
+          : ''
+      }
+    </div>
+
+    <style>
+      .audit-filters {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 10px;
+        margin-bottom: 10px;
+      }
+
+      .audit-filters input,
+      .audit-filters select {
+        padding: 5px 8px;
+      }
+
+      .data-table {
+        width: 100%;
+        border-collapse: collapse;
+      }
+
+      .data-table th,
+      .data-table td {
+        padding: 12px;
+        text-align: left;
+        border-bottom: 1px solid #e0e0e0;
+      }
+
+      .data-table th {
+        font-weight: 600;
+        background-color: #f5f5f5;
+      }
+
+      .data-table code {
+        font-size: 12px;
+        word-break: break-all;
+      }
+
+      .pagination {
+        margin-top: 20px;
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        justify-content: center;
+      }
+
+      .button.small {
+        padding: 5px 10px;
+        font-size: 14px;
+      }
+    </style>
+  `
+
+  return new Response(
+    renderAdminLayout({
+      title: 'Audit Log',
+      content,
+      activeMenu: 'audit',
+      adminId: request.adminId
+    }),
+    {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8'
+      }
+    }
+  )
+}
+
+/**
+ * Download matching entries, newest first
+ */
+export async function handleAdminAuditExport(
+  request: AdminRequest,
+  env: AdminEnv
+): Promise<Response> {
+  const url = new URL(request.url)
+  const format = url.searchParams.get('format') === 'json' ? 'json' : 'csv'
+  const filter = parseAuditFilter(readFilterParams(url))
+
+  if (!filter) {
+    return new Response('Invalid filter', { status: 400 })
+  }
+  if (!env.DB) {
+    return new Response('Audit log requires a database', { status: 503 })
+  }
+
+  const auditLog = new UniversalAuditLogService({ db: new CloudflareDatabaseStore(env.DB) })
+  const entries = await auditLog.query({ ...filter, limit: MAX_AUDIT_QUERY_LIMIT })
+
+  return new Response(exportAuditLog(entries, format), {
+    headers: {
+      'Content-Type':
+        format === 'json' ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="audit-log.${format}"`
+    }
+  })
+}
@@ -5,6 +5,7 @@
 
 import type { ExecutionContext } from '@cloudflare/workers-types'
 
+import { handleAdminAudit, handleAdminAuditExport } from './handlers/audit'
 import { handleAdminAuth } from './handlers/auth'
 import { handleAdminDashboard } from './handlers/dashboard'
 import { handleAdminUsers } from './handlers/users'
@@ -47,6 +48,12 @@ export async function handleAdminRoutes(
     case '/admin/users':
       return handleAdminUsers(authenticatedRequest, env)
 
+    case '/admin/audit':
+      return handleAdminAudit(authenticatedRequest, env)
+
+    case '/admin/audit/export':
+      return handleAdminAuditExport(authenticatedRequest, env)
+
     default:
       return new Response('Not Found', { status: 404 })
   }
@@ -8,7 +8,8 @@ export function renderAdminLayout(options: LayoutOptions): string {
   const { title, content, activeMenu = 'dashboard', adminId } = options
 
   const menuItems = [
-    { id: 'dashboard', label: '📊 Dashboard', href: '/admin/dashboard' }
+    { id: 'dashboard', label: '📊 Dashboard', href: '/admin/dashboard' },
+    { id: 'audit', label: '📜 Audit Log', href: '/admin/audit' }
     // Add your custom menu items here
   ]
 
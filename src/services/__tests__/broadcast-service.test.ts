@@ -0,0 +1,279 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { BroadcastTransport, DeliveryOutcome } from '../broadcast-service'
+import { BROADCAST_STEP_MESSAGE, BroadcastService } from '../broadcast-service'
+
+import { createMigratedTestDatabase } from '@/__tests__/utils/test-database'
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const migrations = import.meta.glob<string>('../../../migrations/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+})
+
+interface TestUser {
+  id: number
+  language?: string
+  // Picked with /language
+  preferredLanguage?: string
+  hasAccess?: boolean
+  activeDaysAgo?: number
+  tags?: string[]
+  blocked?: boolean
+  role?: 'owner' | 'admin'
+}
+
+async function addUsers(users: TestUser[]) {
+  for (const user of users) {
+    await DB.prepare(
+      `INSERT INTO users (telegram_id, first_name, language_code, has_access, last_active_at, tags, blocked_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        user.id,
+        `User ${user.id}`,
+        user.language ?? 'en',
+        user.hasAccess ? 1 : 0,
+        user.activeDaysAgo !== undefined
+          ? new Date(Date.now() - user.activeDaysAgo * DAY_MS).toISOString()
+          : null,
+        user.tags ? JSON.stringify(user.tags) : null,
+        user.blocked ? new Date().toISOString() : null
+      )
+      .run()
+
+    if (user.preferredLanguage) {
+      await DB.prepare('INSERT INTO language_preferences (user_id, language) VALUES (?, ?)')
+        .bind(String(user.id), user.preferredLanguage)
+        .run()
+    }
+
+    if (user.role) {
+      await DB.prepare(
+        `INSERT INTO user_roles (user_id, platform_id, platform, role) VALUES (?, ?, 'telegram', ?)`
+      )
+        .bind(`telegram_${user.id}`, String(user.id), user.role)
+        .run()
+    }
+  }
+}
+
+describe('BroadcastService', () => {
+  let transport: BroadcastTransport & { deliver: ReturnType<typeof vi.fn> }
+  let queue: { send: ReturnType<typeof vi.fn> }
+  let service: BroadcastService
+
+  beforeEach(async () => {
+    await createMigratedTestDatabase(DB, migrations)
+
+    transport = {
+      deliver: vi.fn(async (): Promise<DeliveryOutcome> => ({ status: 'sent' })),
+      report: vi.fn()
+    }
+    queue = { send: vi.fn() }
+    service = new BroadcastService({
+      db: new CloudflareDatabaseStore(DB),
+      transport,
+      queue: queue as never,
+      messagesPerSecond: 1000
+    })
+  })
+
+  describe('segments', () => {
+    beforeEach(async () => {
+      await addUsers([
+        { id: 1, role: 'owner', activeDaysAgo: 1 },
+        { id: 2, role: 'admin', language: 'ru', hasAccess: true },
+        { id: 3, language: 'ru', hasAccess: true, activeDaysAgo: 2, tags: ['beta'] },
+        { id: 4, activeDaysAgo: 40, tags: ['vip', 'beta'] },
+        { id: 5, language: 'ru', blocked: true, tags: ['beta'] }
+      ])
+    })
+
+    it.each([
+      [{}, 4],
+      [{ role: 'admin' as const }, 1],
+      [{ role: 'user' as const }, 2],
+      [{ language: 'ru' }, 2],
+      [{ hasAccess: true }, 2],
+      [{ hasAccess: false }, 2],
+      [{ activeWithinDays: 7 }, 2],
+      [{ tags: ['beta'] }, 2],
+      [{ tags: ['vip', 'missing'] }, 1],
+      [{ language: 'ru', role: 'user' as const, tags: ['beta'] }, 1]
+    ])('should count the audience of %j', async (segment, count) => {
+      expect(await service.countAudience(segment)).toBe(count)
+    })
+
+    it('should prefer the language picked with /language', async () => {
+      await addUsers([
+        { id: 6, language: 'ru', preferredLanguage: 'en' },
+        { id: 7, language: 'en', preferredLanguage: 'ru' }
+      ])
+
+      expect(await service.countAudience({ language: 'ru' })).toBe(3)
+      expect(await service.countAudience({ language: 'en' })).toBe(3)
+    })
+  })
+
+  describe('delivery', () => {
+    beforeEach(async () => {
+      await addUsers([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }])
+    })
+
+    it('should deliver a scheduled broadcast and report the result', async () => {
+      const draft = await service.create({
+        createdBy: '1',
+        content: { type: 'text', text: 'Hello' },
+        segment: {}
+      })
+      transport.deliver.mockImplementation(async (recipientId: number) =>
+        recipientId === 2
+          ? { status: 'blocked' }
+          : recipientId === 3
+            ? { status: 'failed' }
+            : { status: 'sent' }
+      )
+
+      expect(await service.runStep()).toBeNull()
+
+      await service.schedule(draft.id, { report: { chatId: '1', messageId: 10 } })
+      expect(queue.send).toHaveBeenCalledWith(
+        BROADCAST_STEP_MESSAGE,
+        { broadcastId: draft.id },
+        undefined,
+        { delaySeconds: 0 }
+      )
+
+      const result = await service.runStep()
+
+      expect(transport.deliver.mock.calls.map(([recipientId]) => recipientId)).toEqual([1, 2, 3, 4])
+      expect(transport.deliver).toHaveBeenCalledWith(1, { type: 'text', text: 'Hello' })
+      expect(result).toMatchObject({
+        status: 'completed',
+        total: 4,
+        sent: 2,
+        failed: 1,
+        blocked: 1
+      })
+      expect(transport.report).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'completed' })
+      )
+
+      // Blocked users are left out of later campaigns
+      expect(await service.countAudience({})).toBe(3)
+    })
+
+    it('should continue in further steps and resume after rate limits', async () => {
+      service = new BroadcastService({
+        db: new CloudflareDatabaseStore(DB),
+        transport,
+        queue: queue as never,
+        messagesPerSecond: 1000,
+        maxMessagesPerStep: 2
+      })
+      const draft = await service.create({
+        createdBy: '1',
+        content: { type: 'copy', chatId: 1, messageId: 5 },
+        segment: {}
+      })
+      await service.schedule(draft.id)
+      queue.send.mockClear()
+
+      expect(await service.runStep()).toMatchObject({ status: 'sending', sent: 2, cursor: 2 })
+      expect(queue.send).toHaveBeenLastCalledWith(
+        BROADCAST_STEP_MESSAGE,
+        expect.anything(),
+        undefined,
+        { delaySeconds: 0 }
+      )
+
+      transport.deliver.mockResolvedValueOnce({ status: 'rate_limited', retryAfterMs: 5000 })
+      expect(await service.runStep()).toMatchObject({ status: 'sending', sent: 2, cursor: 2 })
+      expect(queue.send).toHaveBeenLastCalledWith(
+        BROADCAST_STEP_MESSAGE,
+        expect.anything(),
+        undefined,
+        { delaySeconds: 5 }
+      )
+
+      expect(await service.runStep()).toMatchObject({ status: 'sending', sent: 4, cursor: 4 })
+      expect(await service.runStep()).toMatchObject({ status: 'completed', sent: 4 })
+      expect(transport.deliver.mock.calls.map(([recipientId]) => recipientId)).toEqual([
+        1, 2, 3, 3, 4
+      ])
+    })
+
+    it('should not deliver paused or cancelled broadcasts', async () => {
+      const draft = await service.create({
+        createdBy: '1',
+        content: { type: 'text', text: 'Hello' },
+        segment: {}
+      })
+      await service.schedule(draft.id)
+
+      expect(await service.pause(draft.id)).toMatchObject({ status: 'paused' })
+      expect(await service.runStep()).toBeNull()
+
+      expect(await service.resume(draft.id)).toMatchObject({ status: 'scheduled' })
+      expect(await service.cancel(draft.id)).toMatchObject({ status: 'cancelled' })
+      expect(await service.resume(draft.id)).toBeNull()
+      expect(await service.runStep()).toBeNull()
+      expect(transport.deliver).not.toHaveBeenCalled()
+    })
+
+    it('should wait for the scheduled time', async () => {
+      const scheduledAt = new Date(Date.now() + 60 * 60 * 1000)
+      const draft = await service.create({
+        createdBy: '1',
+        content: { type: 'text', text: 'Later' },
+        segment: {},
+        scheduledAt
+      })
+
+      await service.schedule(draft.id)
+
+      expect(queue.send).toHaveBeenCalledWith(
+        BROADCAST_STEP_MESSAGE,
+        expect.anything(),
+        undefined,
+        {
+          delaySeconds: expect.closeTo(3600, -1)
+        }
+      )
+      expect(await service.runStep()).toBeNull()
+      expect(await service.runStep(new Date(scheduledAt.getTime() + 1000))).toMatchObject({
+        status: 'completed'
+      })
+    })
+
+    it('should deliver one campaign at a time', async () => {
+      const first = await service.create({
+        createdBy: '1',
+        content: { type: 'text', text: 'First' },
+        segment: {}
+      })
+      const second = await service.create({
+        createdBy: '1',
+        content: { type: 'text', text: 'Second' },
+        segment: {}
+      })
+      await service.schedule(first.id)
+      await service.schedule(second.id)
+
+      // A worker holds the lease on the first campaign
+      await DB.prepare(`UPDATE broadcasts SET status = 'sending', lease_until = ? WHERE id = ?`)
+        .bind(new Date(Date.now() + 60_000).toISOString(), first.id)
+        .run()
+
+      expect(await service.runStep()).toBeNull()
+      expect(transport.deliver).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,147 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ConversationService, estimateTokens } from '../conversation-service'
+
+import { CloudflareKeyValueStore } from '@/connectors/cloud/cloudflare/stores/kv-store'
+import type { ResourceConstraints } from '@/core/interfaces/resource-constraints'
+import { createUnlimitedConstraints } from '@/core/interfaces/resource-constraints'
+
+const { SESSIONS } = env as unknown as { SESSIONS: KVNamespace }
+
+const CHAT_ID = 100
+const USER_ID = 42
+
+function createAI(summary = 'User asked about refunds') {
+  return { complete: vi.fn().mockResolvedValue({ content: summary, provider: 'mock' }) }
+}
+
+describe('ConversationService', () => {
+  let store: CloudflareKeyValueStore
+
+  beforeEach(() => {
+    store = new CloudflareKeyValueStore(SESSIONS)
+  })
+
+  it('should return the request unchanged without history', async () => {
+    const service = new ConversationService(store)
+
+    expect(await service.buildMessages(CHAT_ID, USER_ID, 'Hello', 4096)).toEqual([
+      { role: 'user', content: 'Hello' }
+    ])
+  })
+
+  it('should keep turns per chat and user', async () => {
+    const service = new ConversationService(store)
+
+    await service.addTurn(CHAT_ID, USER_ID, 'My name is Ann', 'Nice to meet you, Ann')
+    await service.addTurn(CHAT_ID, 7, 'Other user', 'Other answer')
+
+    const messages = await service.buildMessages(CHAT_ID, USER_ID, 'What is my name?', 4096)
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'My name is Ann' },
+      { role: 'assistant', content: 'Nice to meet you, Ann' },
+      { role: 'user', content: 'What is my name?' }
+    ])
+    expect(await service.buildMessages(200, USER_ID, 'Hi', 4096)).toHaveLength(1)
+  })
+
+  it('should keep system messages of the request first', async () => {
+    const service = new ConversationService(store)
+    await service.addTurn(CHAT_ID, USER_ID, 'Question', 'Answer')
+
+    const messages = await service.buildMessages(
+      CHAT_ID,
+      USER_ID,
+      [
+        { role: 'system', content: 'Context: [1] FAQ' },
+        { role: 'user', content: 'Follow-up' }
+      ],
+      4096
+    )
+
+    expect(messages.map(message => message.content)).toEqual([
+      'Context: [1] FAQ',
+      'Question',
+      'Answer',
+      'Follow-up'
+    ])
+  })
+
+  it('should trim the oldest turns to fit the context window', async () => {
+    const service = new ConversationService(store)
+    const long = 'x'.repeat(400)
+    await service.addTurn(CHAT_ID, USER_ID, 'first', long)
+    await service.addTurn(CHAT_ID, USER_ID, 'second', long)
+
+    // Half of a 400-token window holds only the latest 100-token answer
+    const messages = await service.buildMessages(CHAT_ID, USER_ID, 'third', 400)
+
+    expect(messages.map(message => message.content)).toEqual(['second', long, 'third'])
+    expect(estimateTokens(long)).toBe(100)
+  })
+
+  it('should summarize turns that overflow the history', async () => {
+    const ai = createAI()
+    const service = new ConversationService(store, createUnlimitedConstraints(), ai, {
+      maxMessages: 4
+    })
+
+    await service.addTurn(CHAT_ID, USER_ID, 'q1', 'a1')
+    await service.addTurn(CHAT_ID, USER_ID, 'q2', 'a2')
+    await service.addTurn(CHAT_ID, USER_ID, 'q3', 'a3')
+
+    const conversation = await service.getConversation(CHAT_ID, USER_ID)
+    expect(conversation?.messages.map(message => message.content)).toEqual(['q2', 'a2', 'q3', 'a3'])
+    expect(conversation?.summary).toBe('User asked about refunds')
+    expect(ai.complete.mock.calls[0]?.[0][1].content).toBe('user: q1\nassistant: a1')
+
+    const messages = await service.buildMessages(CHAT_ID, USER_ID, 'q4', 4096)
+    expect(messages[0]).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation:\nUser asked about refunds'
+    })
+  })
+
+  it('should drop overflowing turns without summaries on constrained platforms', async () => {
+    const ai = createAI()
+    const constraints: ResourceConstraints = {
+      ...createUnlimitedConstraints(),
+      maxExecutionTimeMs: 10
+    }
+    const service = new ConversationService(store, constraints, ai)
+
+    for (let i = 1; i <= 4; i++) {
+      await service.addTurn(CHAT_ID, USER_ID, `q${i}`, `a${i}`)
+    }
+
+    const conversation = await service.getConversation(CHAT_ID, USER_ID)
+    expect(conversation?.messages).toHaveLength(6)
+    expect(conversation?.messages[0]?.content).toBe('q2')
+    expect(conversation?.summary).toBeUndefined()
+    expect(ai.complete).not.toHaveBeenCalled()
+  })
+
+  it('should keep the previous summary when summarization fails', async () => {
+    const ai = createAI()
+    ai.complete.mockRejectedValue(new Error('Provider down'))
+    const service = new ConversationService(store, undefined, ai, { maxMessages: 2 })
+
+    await service.addTurn(CHAT_ID, USER_ID, 'q1', 'a1')
+    await service.addTurn(CHAT_ID, USER_ID, 'q2', 'a2')
+
+    const conversation = await service.getConversation(CHAT_ID, USER_ID)
+    expect(conversation?.messages.map(message => message.content)).toEqual(['q2', 'a2'])
+    expect(conversation?.summary).toBeUndefined()
+  })
+
+  it('should reset a conversation', async () => {
+    const service = new ConversationService(store)
+    await service.addTurn(CHAT_ID, USER_ID, 'q1', 'a1')
+
+    expect(await service.reset(CHAT_ID, USER_ID)).toBe(true)
+    expect(await service.getConversation(CHAT_ID, USER_ID)).toBeNull()
+    expect(await service.reset(CHAT_ID, USER_ID)).toBe(false)
+  })
+})
@@ -0,0 +1,250 @@
+import { env } from 'cloudflare:test'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createKnowledgeService, KnowledgeService } from '../knowledge-service'
+
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+import type { Vector, VectorizeConnector, VectorMatch } from '@/connectors/vectorize'
+import type { ICloudPlatformConnector } from '@/core/interfaces/cloud-platform'
+import { chunkText, htmlToText } from '@/lib/document-text'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+/**
+ * In-memory stand-in for Vectorize: hybrid search matches chunks sharing a word with the query
+ */
+function createFakeVectorize() {
+  const vectors = new Map<string, Vector>()
+
+  return {
+    vectors,
+    createEmbeddings: vi.fn(async (texts: string[]) => texts.map(text => [text.length, 1])),
+    upsert: vi.fn(async (batch: Vector[]) => {
+      batch.forEach(vector => vectors.set(vector.id, vector))
+    }),
+    delete: vi.fn(async (ids: string[]) => {
+      ids.forEach(id => vectors.delete(id))
+    }),
+    hybridSearch: vi.fn(async (query: string, options?: { topK?: number }) => {
+      const words = query.toLowerCase().split(/\W+/).filter(Boolean)
+      const matches: VectorMatch[] = []
+      for (const vector of vectors.values()) {
+        const text = String(vector.metadata?.text).toLowerCase()
+        const score = words.filter(word => text.includes(word)).length
+        if (score) matches.push({ id: vector.id, score, metadata: vector.metadata })
+      }
+      return matches.sort((a, b) => b.score - a.score).slice(0, options?.topK ?? 10)
+    })
+  }
+}
+
+describe('chunkText', () => {
+  it('should keep short texts in one chunk', () => {
+    expect(chunkText('First paragraph.\n\nSecond   paragraph.')).toEqual([
+      'First paragraph.\nSecond paragraph.'
+    ])
+  })
+
+  it('should split on sentences and overlap consecutive chunks', () => {
+    const text = Array.from({ length: 6 }, (_, i) => `Sentence number ${i} is here.`).join(' ')
+
+    const chunks = chunkText(text, { chunkSize: 60, overlap: 20 })
+
+    expect(chunks.length).toBeGreaterThan(2)
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(60))
+    expect(chunks[1]).toMatch(/^number 1 is here\. Sentence number 2/)
+  })
+
+  it('should cut words longer than a chunk', () => {
+    expect(chunkText('x'.repeat(25), { chunkSize: 10, overlap: 0 })).toEqual([
+      'x'.repeat(10),
+      'x'.repeat(10),
+      'x'.repeat(5)
+    ])
+  })
+})
+
+describe('htmlToText', () => {
+  it('should extract the title and readable text', () => {
+    const html = `<html><head><title>Pricing &amp; Plans</title><style>p{}</style></head>
+      <body><script>alert(1)</script><h1>Plans</h1><p>Free&nbsp;tier<br>Paid tier &#8212; $5</p></body></html>`
+
+    expect(htmlToText(html)).toEqual({
+      title: 'Pricing & Plans',
+      text: 'Plans\n\nFree tier\nPaid tier — $5'
+    })
+  })
+})
+
+describe('KnowledgeService', () => {
+  const originalFetch = global.fetch
+  let vectorize: ReturnType<typeof createFakeVectorize>
+  let service: KnowledgeService
+
+  beforeEach(async () => {
+    await DB.prepare(
+      `CREATE TABLE IF NOT EXISTS knowledge_sources (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        source_type TEXT NOT NULL,
+        url TEXT,
+        chunk_count INTEGER NOT NULL DEFAULT 0,
+        added_by INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )`
+    ).run()
+    vectorize = createFakeVectorize()
+    service = new KnowledgeService(
+      new CloudflareDatabaseStore(DB),
+      vectorize as unknown as VectorizeConnector,
+      { chunkSize: 80, chunkOverlap: 0 }
+    )
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should chunk, embed and record a document', async () => {
+    const text = 'Refunds are issued within 14 days.\n\nPayments use Telegram Stars only.'
+
+    const source = await service.ingestText({
+      title: 'FAQ',
+      text: `${text}\n\nSupport answers within one business day.`,
+      type: 'document',
+      addedBy: 42
+    })
+
+    expect(source.chunkCount).toBe(2)
+    expect(vectorize.vectors.get(`${source.id}:0`)?.metadata).toEqual({
+      sourceId: source.id,
+      title: 'FAQ',
+      chunk: 0,
+      text: 'Refunds are issued within 14 days.\nPayments use Telegram Stars only.'
+    })
+    expect(await service.listSources()).toEqual([
+      {
+        id: source.id,
+        title: 'FAQ',
+        type: 'document',
+        chunkCount: 2,
+        addedBy: 42,
+        createdAt: source.createdAt
+      }
+    ])
+  })
+
+  it('should reject empty documents', async () => {
+    await expect(
+      service.ingestText({ title: 'Empty', text: ' \n\n ', type: 'document' })
+    ).rejects.toThrow('Document contains no text')
+  })
+
+  it('should remove stored chunks when ingestion fails', async () => {
+    vectorize.upsert.mockImplementationOnce(async () => {
+      throw new Error('Vectorize unavailable')
+    })
+
+    await expect(
+      service.ingestText({ title: 'FAQ', text: 'Some text', type: 'document' })
+    ).rejects.toThrow('Vectorize unavailable')
+
+    expect(vectorize.delete).toHaveBeenCalledTimes(1)
+    expect(await service.listSources()).toEqual([])
+  })
+
+  it('should ingest HTML pages from URLs', async () => {
+    global.fetch = vi.fn(
+      async () =>
+        new Response('<title>Docs</title><p>Quiet hours mute notifications.</p>', {
+          headers: { 'Content-Type': 'text/html; charset=utf-8' }
+        })
+    ) as unknown as typeof fetch
+
+    const source = await service.ingestUrl('https://example.com/docs', 7)
+
+    expect(source).toMatchObject({ title: 'Docs', type: 'url', url: 'https://example.com/docs' })
+    expect(vectorize.vectors.get(`${source.id}:0`)?.metadata?.text).toBe(
+      'Quiet hours mute notifications.'
+    )
+  })
+
+  it('should reject non-text URLs', async () => {
+    global.fetch = vi.fn(
+      async () => new Response('binary', { headers: { 'Content-Type': 'image/png' } })
+    ) as unknown as typeof fetch
+
+    await expect(service.ingestUrl('https://example.com/logo.png')).rejects.toThrow(
+      'Unsupported content type: image/png'
+    )
+    await expect(service.ingestUrl('ftp://example.com/file')).rejects.toThrow(
+      'Unsupported URL protocol: ftp:'
+    )
+  })
+
+  it('should delete a source with its chunks', async () => {
+    const source = await service.ingestText({
+      title: 'FAQ',
+      text: 'Refunds take 14 days.',
+      type: 'document'
+    })
+
+    expect(await service.deleteSource(source.id)).toBe(true)
+    expect(vectorize.vectors.size).toBe(0)
+    expect(await service.getSource(source.id)).toBeNull()
+    expect(await service.deleteSource(source.id)).toBe(false)
+  })
+
+  it('should retrieve chunks and build a prompt numbered per source', async () => {
+    const faq = await service.ingestText({
+      title: 'FAQ',
+      text: 'Refunds take 14 days.\n\n' + 'Refunds need the payment ID. '.repeat(3),
+      type: 'document'
+    })
+    await service.ingestText({
+      title: 'Policy',
+      text: 'Refunds are not available for gifts.',
+      type: 'url',
+      url: 'https://example.com/policy'
+    })
+
+    const chunks = await service.retrieve('How do refunds work?')
+    const { messages, citations } = service.buildPrompt('How do refunds work?', chunks)
+
+    expect(chunks.map(chunk => chunk.sourceId)).toContain(faq.id)
+    expect(citations.map(citation => citation.title).sort()).toEqual(['FAQ', 'Policy'])
+    expect(citations.find(c => c.title === 'Policy')?.url).toBe('https://example.com/policy')
+    expect(messages[0]?.role).toBe('system')
+    expect(messages[0]?.content).toContain('[1] ')
+    expect(messages[0]?.content.match(/^\[\d\] /gm)).toHaveLength(chunks.length)
+    expect(messages[1]).toEqual({ role: 'user', content: 'How do refunds work?' })
+  })
+})
+
+describe('createKnowledgeService', () => {
+  const cloudConnector = {
+    getDatabaseStore: () => new CloudflareDatabaseStore(DB)
+  } as unknown as ICloudPlatformConnector
+  const base = { DB, VECTORIZE_INDEX: 'knowledge', CLOUDFLARE_ACCOUNT_ID: 'acc' }
+
+  it('should not need the Workers AI account for OpenAI embeddings', () => {
+    const env = { ...base, EMBEDDING_PROVIDER: 'openai', OPENAI_API_KEY: 'sk-test' } as Env
+
+    expect(createKnowledgeService(env, cloudConnector)).toBeInstanceOf(KnowledgeService)
+  })
+
+  it('should need a binding or the Workers AI account for Workers AI embeddings', () => {
+    expect(createKnowledgeService(base as Env, cloudConnector)).toBeNull()
+    expect(
+      createKnowledgeService({ ...base, CLOUDFLARE_AI_ACCOUNT_ID: 'ai-acc' } as Env, cloudConnector)
+    ).toBeInstanceOf(KnowledgeService)
+  })
+
+  it('should need a Vectorize account', () => {
+    const env = { ...base, CLOUDFLARE_ACCOUNT_ID: undefined, OPENAI_API_KEY: 'sk-test' }
+
+    expect(
+      createKnowledgeService({ ...env, EMBEDDING_PROVIDER: 'openai' } as Env, cloudConnector)
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,187 @@
+import { env } from 'cloudflare:test'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import type { QuotaConfig } from '../quota-service'
+import { getPeriodBounds, QuotaService } from '../quota-service'
+
+import { CloudflareDatabaseStore } from '@/connectors/cloud/cloudflare/stores/database-store'
+import { UserRole } from '@/core/interfaces/role-system'
+
+const { DB } = env as unknown as { DB: D1Database }
+
+const NOW = new Date('2026-03-18T15:30:00Z')
+
+const QUOTAS: QuotaConfig = {
+  ask: {
+    period: 'day',
+    currency: 'USD',
+    roles: {
+      [UserRole.USER]: { requests: 2, budget: 0.1 }
+    }
+  }
+}
+
+async function createTables() {
+  await DB.prepare('DROP TABLE IF EXISTS quota_usage').run()
+  await DB.prepare('DROP TABLE IF EXISTS quota_overrides').run()
+  await DB.prepare(
+    `CREATE TABLE quota_usage (
+      user_id TEXT NOT NULL,
+      command TEXT NOT NULL,
+      period_start TIMESTAMP NOT NULL,
+      requests INTEGER DEFAULT 0,
+      spent REAL DEFAULT 0,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, command, period_start)
+    )`
+  ).run()
+  await DB.prepare(
+    `CREATE TABLE quota_overrides (
+      user_id TEXT NOT NULL,
+      command TEXT NOT NULL,
+      requests INTEGER,
+      budget REAL,
+      set_by TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, command)
+    )`
+  ).run()
+}
+
+describe('QuotaService', () => {
+  let service: QuotaService
+
+  beforeEach(async () => {
+    await createTables()
+    service = new QuotaService({ db: new CloudflareDatabaseStore(DB), quotas: QUOTAS })
+  })
+
+  it('counts requests until the role limit is reached', async () => {
+    expect((await service.consume('1', 'ask', UserRole.USER, NOW)).allowed).toBe(true)
+    expect((await service.consume('1', 'ask', UserRole.USER, NOW)).allowed).toBe(true)
+
+    const blocked = await service.consume('1', 'ask', UserRole.USER, NOW)
+    expect(blocked).toMatchObject({ allowed: false, reason: 'requests' })
+    expect(blocked.allowed === false && blocked.resetAt.toISOString()).toBe(
+      '2026-03-19T00:00:00.000Z'
+    )
+
+    // Other users have their own counters
+    expect((await service.consume('2', 'ask', UserRole.USER, NOW)).allowed).toBe(true)
+  })
+
+  it('does not limit roles or commands without quotas', async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await service.consume('1', 'ask', UserRole.ADMIN, NOW)).toEqual({
+        allowed: true,
+        limit: null
+      })
+    }
+    expect((await service.consume('1', 'help', UserRole.USER, NOW)).allowed).toBe(true)
+  })
+
+  it('blocks once the budget is spent', async () => {
+    await service.consume('1', 'ask', UserRole.USER, NOW)
+    await service.charge('1', 'ask', { amount: 0.1, currency: 'USD' }, NOW)
+
+    expect(await service.consume('1', 'ask', UserRole.USER, NOW)).toMatchObject({
+      allowed: false,
+      reason: 'budget'
+    })
+  })
+
+  it('ignores costs in another currency', async () => {
+    await service.charge('1', 'ask', { amount: 5, currency: 'EUR' }, NOW)
+
+    const [usage] = await service.getUsage('1', UserRole.USER, NOW)
+    expect(usage?.spent).toBe(0)
+  })
+
+  it('gives back refunded requests', async () => {
+    await service.consume('1', 'ask', UserRole.USER, NOW)
+    await service.consume('1', 'ask', UserRole.USER, NOW)
+    await service.refund('1', 'ask', NOW)
+
+    expect((await service.consume('1', 'ask', UserRole.USER, NOW)).allowed).toBe(true)
+  })
+
+  it('starts counting again in the next period', async () => {
+    await service.consume('1', 'ask', UserRole.USER, NOW)
+    await service.consume('1', 'ask', UserRole.USER, NOW)
+
+    const tomorrow = new Date('2026-03-19T00:00:01Z')
+    expect((await service.consume('1', 'ask', UserRole.USER, tomorrow)).allowed).toBe(true)
+  })
+
+  it('applies and clears per-user overrides', async () => {
+    await service.setOverride('1', 'ask', { requests: 3 }, '42')
+    for (let i = 0; i < 3; i++) {
+      expect((await service.consume('1', 'ask', UserRole.USER, NOW)).allowed).toBe(true)
+    }
+    expect((await service.consume('1', 'ask', UserRole.USER, NOW)).allowed).toBe(false)
+
+    await service.setOverride('1', 'ask', {})
+    expect(await service.consume('1', 'ask', UserRole.USER, NOW)).toEqual({
+      allowed: true,
+      limit: null
+    })
+
+    await service.clearOverride('1', 'ask')
+    expect((await service.consume('1', 'ask', UserRole.USER, NOW)).allowed).toBe(false)
+  })
+
+  it('blocks users with a zero override', async () => {
+    await service.setOverride('1', 'ask', { requests: 0 })
+
+    expect(await service.consume('1', 'ask', UserRole.ADMIN, NOW)).toMatchObject({
+      allowed: false,
+      reason: 'requests'
+    })
+  })
+
+  it('reports usage and resets it', async () => {
+    await service.consume('1', 'ask', UserRole.USER, NOW)
+    await service.charge('1', 'ask', { amount: 0.03, currency: 'USD' }, NOW)
+
+    expect(await service.getUsage('1', UserRole.USER, NOW)).toEqual([
+      {
+        command: 'ask',
+        period: 'day',
+        currency: 'USD',
+        requests: 1,
+        spent: 0.03,
+        limit: { requests: 2, budget: 0.1 },
+        overridden: false,
+        resetAt: new Date('2026-03-19T00:00:00Z')
+      }
+    ])
+
+    await service.resetUsage('1', 'ask', NOW)
+    const [usage] = await service.getUsage('1', UserRole.USER, NOW)
+    expect(usage).toMatchObject({ requests: 0, spent: 0 })
+  })
+})
+
+describe('getPeriodBounds', () => {
+  it('starts weeks on Monday', () => {
+    // 2026-03-18 is a Wednesday
+    expect(getPeriodBounds('week', NOW)).toEqual({
+      start: new Date('2026-03-16T00:00:00Z'),
+      end: new Date('2026-03-23T00:00:00Z')
+    })
+    expect(getPeriodBounds('week', new Date('2026-03-22T23:59:00Z')).start).toEqual(
+      new Date('2026-03-16T00:00:00Z')
+    )
+  })
+
+  it('handles hours and months', () => {
+    expect(getPeriodBounds('hour', NOW)).toEqual({
+      start: new Date('2026-03-18T15:00:00Z'),
+      end: new Date('2026-03-18T16:00:00Z')
+    })
+    expect(getPeriodBounds('month', new Date('2026-12-31T12:00:00Z'))).toEqual({
+      start: new Date('2026-12-01T00:00:00Z'),
+      end: new Date('2027-01-01T00:00:00Z')
+    })
+  })
+})
@@ -7,8 +7,10 @@ import type {
   AIProvider,
   AIResponse,
   AIServiceConfig,
+  AIStreamResult,
   CompletionRequest,
   Message,
+  ProviderCapabilities,
   ProviderRegistry
 } from '@/lib/ai/types'
 import { AIProviderError } from '@/lib/ai/types'
@@ -146,9 +148,13 @@ export class AIService {
   }
 
   /**
-   * Stream a completion (if provider supports it)
+   * Stream a completion (if provider supports it). Usage and cost are tracked
+   * when the stream finishes and returned as the generator's result.
    */
-  async *stream(prompt: string | Message[], options: AIOptions = {}): AsyncIterator<string> {
+  async *stream(
+    prompt: string | Message[],
+    options: AIOptions = {}
+  ): AsyncGenerator<string, AIStreamResult> {
     const providerId = options.provider || this.registry.getDefault()
     if (!providerId) {
       throw new AIProviderError('No AI provider available', 'PROVIDER_ERROR', 'unknown', false)
@@ -193,13 +199,17 @@ export class AIService {
       )
     }
     const generator = provider.stream(request)
+    const result: AIStreamResult = { provider: providerId }
 
     // Manual iteration to avoid AsyncIterator type issues
     try {
       while (true) {
         const { value, done } = await generator.next()
         if (done) break
-        if (value) {
+        if (value?.usage) {
+          result.usage = value.usage
+        }
+        if (value?.content) {
           yield value.content
         }
       }
@@ -209,6 +219,16 @@ export class AIService {
         await generator.return()
       }
     }
+
+    // Track costs if enabled
+    if (options.trackCost !== false && this.costTracker && result.usage) {
+      const cost = await this.costTracker.trackUsage(providerId, result.usage)
+      if (cost) {
+        result.cost = cost
+      }
+    }
+
+    return result
   }
 
   /**
@@ -239,6 +259,18 @@ export class AIService {
     return this.registry.getDefault()
   }
 
+  /**
+   * Get provider capabilities (defaults to the active provider)
+   */
+  getProviderCapabilities(providerId?: string): ProviderCapabilities | null {
+    const id = providerId || this.registry.getDefault()
+    if (!id) {
+      return null
+    }
+
+    return this.registry.get(id)?.getCapabilities() ?? null
+  }
+
   /**
    * List all available providers
    */
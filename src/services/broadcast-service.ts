@@ -0,0 +1,573 @@
+import { FieldMapper } from '@/core/database/field-mapper'
+import type { IDatabaseStore } from '@/core/interfaces/storage'
+import { logger } from '@/lib/logger'
+import type { QueueService } from '@/services/queue-service'
+
+export type BroadcastStatus =
+  | 'draft'
+  | 'scheduled'
+  | 'sending'
+  | 'paused'
+  | 'completed'
+  | 'cancelled'
+
+/**
+ * What is sent: inline text, or an existing message copied to every recipient
+ */
+export type BroadcastContent =
+  | { type: 'text'; text: string }
+  | { type: 'copy'; chatId: number; messageId: number }
+
+/**
+ * Audience filter. All set criteria must match; users who blocked the bot are always skipped.
+ */
+export interface BroadcastSegment {
+  role?: 'owner' | 'admin' | 'user'
+  language?: string
+  hasAccess?: boolean
+  /**
+   * Only users active within this many days
+   */
+  activeWithinDays?: number
+  /**
+   * Users having any of these tags
+   */
+  tags?: string[]
+}
+
+export interface BroadcastReportTarget {
+  chatId: string
+  messageId: number
+}
+
+export interface Broadcast {
+  id: string
+  createdBy: string
+  content: BroadcastContent
+  segment: BroadcastSegment
+  status: BroadcastStatus
+  scheduledAt?: Date
+  cursor: number
+  total: number
+  sent: number
+  failed: number
+  blocked: number
+  report?: BroadcastReportTarget
+  completedAt?: Date
+}
+
+export type DeliveryOutcome =
+  | { status: 'sent' }
+  | { status: 'blocked' }
+  | { status: 'failed'; error?: string }
+  | { status: 'rate_limited'; retryAfterMs: number }
+
+/**
+ * Platform side of a broadcast: delivering to one recipient and showing progress
+ */
+export interface BroadcastTransport {
+  deliver(recipientId: number, content: BroadcastContent): Promise<DeliveryOutcome>
+  report?(broadcast: Broadcast): Promise<void>
+}
+
+export interface BroadcastServiceDeps {
+  db: IDatabaseStore
+  /**
+   * Required to run delivery steps
+   */
+  transport?: BroadcastTransport
+  /**
+   * Delivery steps are chained through the queue; without it only the cron sweep runs them
+   */
+  queue?: Pick<QueueService, 'send'>
+  /**
+   * Global send rate (default 30, Telegram's limit for bots)
+   */
+  messagesPerSecond?: number
+  /**
+   * Recipients handled by one delivery step (default 300). Without a queue a
+   * campaign advances one step per cron run, i.e. 300 recipients per hour with
+   * the hourly trigger in wrangler.toml
+   */
+  maxMessagesPerStep?: number
+}
+
+export interface BroadcastStepTask {
+  broadcastId?: string
+}
+
+export const BROADCAST_STEP_MESSAGE = 'broadcast:step'
+
+interface BroadcastRow {
+  id: string
+  created_by: string
+  content: string
+  segment: string
+  status: string
+  scheduled_at: string | null
+  cursor: number | null
+  total: number | null
+  sent: number | null
+  failed: number | null
+  blocked: number | null
+  report_chat_id: string | null
+  report_message_id: number | null
+  completed_at: string | null
+}
+
+const optionalDate = {
+  toDomain: (value: string | null) => (value ? new Date(value) : undefined),
+  toDb: (value: Date | undefined) => value?.toISOString() ?? null
+}
+const counter = { toDomain: (value: number | null) => value ?? 0 }
+
+const broadcastMapper = new FieldMapper<BroadcastRow, Broadcast>([
+  { dbField: 'id', domainField: 'id' },
+  { dbField: 'created_by', domainField: 'createdBy' },
+  {
+    dbField: 'content',
+    domainField: 'content',
+    toDomain: v => JSON.parse(v) as BroadcastContent,
+    toDb: v => JSON.stringify(v)
+  },
+  {
+    dbField: 'segment',
+    domainField: 'segment',
+    toDomain: v => JSON.parse(v) as BroadcastSegment,
+    toDb: v => JSON.stringify(v)
+  },
+  { dbField: 'status', domainField: 'status', toDomain: v => v as BroadcastStatus },
+  { dbField: 'scheduled_at', domainField: 'scheduledAt', ...optionalDate },
+  { dbField: 'cursor', domainField: 'cursor', ...counter },
+  { dbField: 'total', domainField: 'total', ...counter },
+  { dbField: 'sent', domainField: 'sent', ...counter },
+  { dbField: 'failed', domainField: 'failed', ...counter },
+  { dbField: 'blocked', domainField: 'blocked', ...counter },
+  { dbField: 'completed_at', domainField: 'completedAt', ...optionalDate }
+])
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const LEASE_MS = 2 * 60 * 1000
+const PAGE_SIZE = 100
+// Cloudflare Queues accept delays of up to 12 hours; the cron sweep covers the rest
+const MAX_QUEUE_DELAY_SECONDS = 12 * 60 * 60
+// Statuses a delivery step may pick up once scheduled_at has passed
+const RUNNABLE_STATUSES = ['scheduled', 'sending'] as const
+
+/**
+ * Broadcast campaigns stored in the `broadcasts` table.
+ *
+ * Delivery runs in short steps, each holding a lease so that only one campaign
+ * is sent at a time and the global send rate holds across workers.
+ */
+export class BroadcastService {
+  private db: IDatabaseStore
+  private transport?: BroadcastTransport
+  private queue?: Pick<QueueService, 'send'>
+  private sendIntervalMs: number
+  private maxMessagesPerStep: number
+
+  constructor(deps: BroadcastServiceDeps) {
+    this.db = deps.db
+    this.transport = deps.transport
+    this.queue = deps.queue
+    this.sendIntervalMs = 1000 / (deps.messagesPerSecond ?? 30)
+    this.maxMessagesPerStep = deps.maxMessagesPerStep ?? 300
+  }
+
+  async countAudience(segment: BroadcastSegment): Promise<number> {
+    const { where, params } = buildAudienceFilter(segment)
+    const row = await this.db
+      .prepare(`SELECT COUNT(*) AS count FROM users u WHERE ${where}`)
+      .bind(...params)
+      .first<{ count: number }>()
+
+    return row?.count ?? 0
+  }
+
+  /**
+   * Create a draft. Nothing is sent until it is scheduled.
+   */
+  async create(input: {
+    createdBy: string
+    content: BroadcastContent
+    segment: BroadcastSegment
+    scheduledAt?: Date
+  }): Promise<Broadcast> {
+    const broadcast: Broadcast = {
+      id: crypto.randomUUID().slice(0, 8),
+      createdBy: input.createdBy,
+      content: input.content,
+      segment: input.segment,
+      status: 'draft',
+      scheduledAt: input.scheduledAt,
+      cursor: 0,
+      total: await this.countAudience(input.segment),
+      sent: 0,
+      failed: 0,
+      blocked: 0
+    }
+    const row = broadcastMapper.toDatabase(broadcast)
+
+    await this.db
+      .prepare(
+        `INSERT INTO broadcasts (id, created_by, content, segment, status, scheduled_at, total)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        row.id,
+        row.created_by,
+        row.content,
+        row.segment,
+        row.status,
+        row.scheduled_at ?? null,
+        row.total
+      )
+      .run()
+
+    return broadcast
+  }
+
+  async get(id: string): Promise<Broadcast | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM broadcasts WHERE id = ?')
+      .bind(id)
+      .first<BroadcastRow>()
+
+    return row ? toBroadcast(row) : null
+  }
+
+  /**
+   * Schedule a draft for delivery at its planned time, or now
+   */
+  async schedule(
+    id: string,
+    options: { report?: BroadcastReportTarget } = {}
+  ): Promise<Broadcast | null> {
+    const draft = await this.get(id)
+    if (draft?.status !== 'draft') {
+      return null
+    }
+
+    const broadcast = await this.transition(id, ['draft'], 'scheduled', {
+      scheduled_at: (draft.scheduledAt ?? new Date()).toISOString(),
+      report_chat_id: options.report?.chatId ?? null,
+      report_message_id: options.report?.messageId ?? null
+    })
+    if (broadcast) {
+      await this.enqueueNext()
+    }
+    return broadcast
+  }
+
+  async pause(id: string): Promise<Broadcast | null> {
+    return this.transition(id, ['scheduled', 'sending'], 'paused')
+  }
+
+  async resume(id: string): Promise<Broadcast | null> {
+    const broadcast = await this.transition(id, ['paused'], 'scheduled')
+    if (broadcast) {
+      await this.enqueueNext()
+    }
+    return broadcast
+  }
+
+  async cancel(id: string): Promise<Broadcast | null> {
+    return this.transition(id, ['draft', 'scheduled', 'sending', 'paused'], 'cancelled')
+  }
+
+  /**
+   * Deliver the next slice of the oldest due campaign.
+   * Returns null when nothing is due or another worker holds the lease.
+   */
+  async runStep(now = new Date()): Promise<Broadcast | null> {
+    if (!this.transport) {
+      throw new Error('Broadcast delivery requires a transport')
+    }
+
+    const broadcast = await this.claim(now)
+    if (!broadcast) {
+      return null
+    }
+
+    let processed = 0
+    let done = false
+    let retryAfterMs: number | undefined
+
+    while (processed < this.maxMessagesPerStep && !done && retryAfterMs === undefined) {
+      const limit = Math.min(PAGE_SIZE, this.maxMessagesPerStep - processed)
+      const recipients = await this.listRecipients(broadcast.segment, broadcast.cursor, limit)
+      done = recipients.length < limit
+
+      for (const recipientId of recipients) {
+        const outcome = await this.deliver(recipientId, broadcast.content)
+        if (outcome.status === 'rate_limited') {
+          // The recipient is retried after the pause, so the cursor stays before it
+          retryAfterMs = outcome.retryAfterMs
+          done = false
+          break
+        }
+
+        broadcast[outcome.status] += 1
+        broadcast.cursor = recipientId
+        processed += 1
+
+        if (outcome.status === 'blocked') {
+          await this.markBlocked(recipientId, now)
+        }
+      }
+    }
+
+    const updated = await this.saveProgress(broadcast, done)
+    if (!updated) {
+      return null
+    }
+
+    logger.info('Broadcast step finished', {
+      broadcastId: updated.id,
+      status: updated.status,
+      processed,
+      retryAfterMs
+    })
+
+    await this.report(updated)
+    await this.enqueueNext(retryAfterMs)
+
+    return updated
+  }
+
+  private async deliver(recipientId: number, content: BroadcastContent): Promise<DeliveryOutcome> {
+    const startedAt = Date.now()
+    let outcome: DeliveryOutcome
+
+    try {
+      outcome = await (this.transport as BroadcastTransport).deliver(recipientId, content)
+    } catch (error) {
+      outcome = {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+
+    if (outcome.status === 'failed') {
+      logger.warn('Broadcast delivery failed', { recipientId, error: outcome.error })
+    }
+
+    // Pace sends to stay under the global rate limit
+    const wait = this.sendIntervalMs - (Date.now() - startedAt)
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait))
+    }
+
+    return outcome
+  }
+
+  private async claim(now: Date): Promise<Broadcast | null> {
+    // Only one campaign is delivered at a time: no other lease may be active
+    const row = await this.db
+      .prepare(
+        `UPDATE broadcasts
+         SET status = 'sending', lease_until = ?, updated_at = ?
+         WHERE id = (
+             SELECT id FROM broadcasts
+             WHERE status IN (?, ?) AND scheduled_at <= ?
+             ORDER BY scheduled_at
+             LIMIT 1
+           )
+           AND NOT EXISTS (
+             SELECT 1 FROM broadcasts WHERE status = 'sending' AND lease_until > ?
+           )
+         RETURNING *`
+      )
+      .bind(
+        new Date(now.getTime() + LEASE_MS).toISOString(),
+        now.toISOString(),
+        ...RUNNABLE_STATUSES,
+        now.toISOString(),
+        now.toISOString()
+      )
+      .first<BroadcastRow>()
+
+    return row ? toBroadcast(row) : null
+  }
+
+  private async saveProgress(broadcast: Broadcast, done: boolean): Promise<Broadcast | null> {
+    const now = new Date().toISOString()
+    const total = done ? broadcast.sent + broadcast.failed + broadcast.blocked : broadcast.total
+
+    // Pausing or cancelling during the step wins over the step's own status
+    const row = await this.db
+      .prepare(
+        `UPDATE broadcasts
+         SET cursor = ?, sent = ?, failed = ?, blocked = ?, total = ?,
+             completed_at = CASE WHEN status = 'sending' THEN ? ELSE completed_at END,
+             status = CASE WHEN status = 'sending' THEN ? ELSE status END,
+             lease_until = NULL, updated_at = ?
+         WHERE id = ?
+         RETURNING *`
+      )
+      .bind(
+        broadcast.cursor,
+        broadcast.sent,
+        broadcast.failed,
+        broadcast.blocked,
+        total,
+        done ? now : null,
+        done ? 'completed' : 'sending',
+        now,
+        broadcast.id
+      )
+      .first<BroadcastRow>()
+
+    return row ? toBroadcast(row) : null
+  }
+
+  private async listRecipients(
+    segment: BroadcastSegment,
+    cursor: number,
+    limit: number
+  ): Promise<number[]> {
+    const { where, params } = buildAudienceFilter(segment)
+    const { results } = await this.db
+      .prepare(
+        `SELECT u.telegram_id FROM users u
+         WHERE ${where} AND u.telegram_id > ?
+         ORDER BY u.telegram_id
+         LIMIT ?`
+      )
+      .bind(...params, cursor, limit)
+      .all<{ telegram_id: number }>()
+
+    return results.map(row => row.telegram_id)
+  }
+
+  private async markBlocked(recipientId: number, now: Date): Promise<void> {
+    await this.db
+      .prepare('UPDATE users SET blocked_at = ? WHERE telegram_id = ?')
+      .bind(now.toISOString(), recipientId)
+      .run()
+  }
+
+  private async transition(
+    id: string,
+    from: BroadcastStatus[],
+    to: BroadcastStatus,
+    fields: Record<string, string | number | null> = {}
+  ): Promise<Broadcast | null> {
+    const columns = Object.keys(fields)
+    const row = await this.db
+      .prepare(
+        `UPDATE broadcasts
+         SET status = ?, ${columns.map(column => `${column} = ?, `).join('')}updated_at = ?
+         WHERE id = ? AND status IN (${from.map(() => '?').join(', ')})
+         RETURNING *`
+      )
+      .bind(to, ...Object.values(fields), new Date().toISOString(), id, ...from)
+      .first<BroadcastRow>()
+
+    return row ? toBroadcast(row) : null
+  }
+
+  private async report(broadcast: Broadcast): Promise<void> {
+    if (!broadcast.report || !this.transport?.report) {
+      return
+    }
+
+    try {
+      await this.transport.report(broadcast)
+    } catch (error) {
+      logger.warn('Failed to report broadcast progress', {
+        broadcastId: broadcast.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  /**
+   * Queue the next delivery step for the earliest runnable campaign
+   */
+  private async enqueueNext(retryAfterMs?: number): Promise<void> {
+    if (!this.queue) {
+      return
+    }
+
+    const next = await this.db
+      .prepare(
+        `SELECT id, scheduled_at FROM broadcasts
+         WHERE status IN (?, ?)
+         ORDER BY scheduled_at
+         LIMIT 1`
+      )
+      .bind(...RUNNABLE_STATUSES)
+      .first<{ id: string; scheduled_at: string }>()
+    if (!next) {
+      return
+    }
+
+    const dueInMs = Math.max(retryAfterMs ?? 0, new Date(next.scheduled_at).getTime() - Date.now())
+    const delaySeconds = Math.ceil(Math.max(0, dueInMs) / 1000)
+    if (delaySeconds > MAX_QUEUE_DELAY_SECONDS) {
+      return
+    }
+
+    const task: BroadcastStepTask = { broadcastId: next.id }
+    await this.queue.send(BROADCAST_STEP_MESSAGE, task, undefined, { delaySeconds })
+  }
+}
+
+function toBroadcast(row: BroadcastRow): Broadcast {
+  const broadcast = broadcastMapper.toDomain(row)
+  if (row.report_chat_id && row.report_message_id) {
+    broadcast.report = { chatId: row.report_chat_id, messageId: row.report_message_id }
+  }
+  return broadcast
+}
+
+/**
+ * SQL conditions on `users u` matching a segment
+ */
+function buildAudienceFilter(segment: BroadcastSegment): { where: string; params: unknown[] } {
+  const conditions = ['u.blocked_at IS NULL']
+  const params: unknown[] = []
+  const roleExists = `EXISTS (
+    SELECT 1 FROM user_roles r
+    WHERE r.platform = 'telegram' AND r.platform_id = CAST(u.telegram_id AS TEXT)`
+
+  if (segment.role === 'user') {
+    conditions.push(`NOT ${roleExists} AND r.role IN ('owner', 'admin'))`)
+  } else if (segment.role) {
+    conditions.push(`${roleExists} AND r.role = ?)`)
+    params.push(segment.role)
+  }
+
+  if (segment.language) {
+    // The language picked with /language wins over the client's
+    conditions.push(`COALESCE(
+      (SELECT p.language FROM language_preferences p WHERE p.user_id = CAST(u.telegram_id AS TEXT)),
+      u.language_code
+    ) = ?`)
+    params.push(segment.language)
+  }
+
+  if (segment.hasAccess !== undefined) {
+    conditions.push('COALESCE(u.has_access, 0) = ?')
+    params.push(segment.hasAccess ? 1 : 0)
+  }
+
+  if (segment.activeWithinDays !== undefined) {
+    conditions.push('datetime(u.last_active_at) >= datetime(?)')
+    params.push(new Date(Date.now() - segment.activeWithinDays * DAY_MS).toISOString())
+  }
+
+  if (segment.tags?.length) {
+    conditions.push(
+      `EXISTS (
+        SELECT 1 FROM json_each(COALESCE(u.tags, '[]'))
+        WHERE value IN (${segment.tags.map(() => '?').join(', ')})
+      )`
+    )
+    params.push(...segment.tags)
+  }
+
+  return { where: conditions.join(' AND '), params }
+}
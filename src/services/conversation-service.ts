@@ -0,0 +1,209 @@
+import type { ResourceConstraints } from '@/core/interfaces/resource-constraints'
+import { isConstrainedEnvironment } from '@/core/interfaces/resource-constraints'
+import type { IKeyValueStore } from '@/core/interfaces/storage'
+import type { Message } from '@/lib/ai/types'
+import { logger } from '@/lib/logger'
+import type { AIService } from '@/services/ai-service'
+
+export interface Conversation {
+  messages: Message[]
+  /**
+   * Summary of turns that no longer fit in the history
+   */
+  summary?: string
+  updatedAt: number
+}
+
+export interface ConversationOptions {
+  /**
+   * Messages kept verbatim before older ones are summarized or dropped
+   */
+  maxMessages?: number
+  /**
+   * Upper bound on history tokens regardless of the model context window
+   */
+  maxHistoryTokens?: number
+  /**
+   * Share of the model context window available to history (default 0.5)
+   */
+  contextRatio?: number
+  /**
+   * Conversation TTL in seconds
+   */
+  ttl?: number
+  /**
+   * Summarize overflowing turns instead of dropping them
+   */
+  summarize?: boolean
+}
+
+/**
+ * Rough token estimate (~4 characters per token) used for budgeting history
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+const SUMMARY_PROMPT =
+  'Summarize the conversation below in a few sentences. Keep facts, names, preferences ' +
+  'and open questions the assistant may need later. Reply with the summary only.'
+
+/**
+ * Multi-turn AI conversation history per chat and user.
+ *
+ * Turns are stored in KV. Once a conversation grows past `maxMessages`, the oldest
+ * turns are folded into a running summary (or dropped on constrained platforms),
+ * and `buildMessages` trims what is left to the model's context window.
+ */
+export class ConversationService {
+  private maxMessages: number
+  private maxHistoryTokens: number
+  private contextRatio: number
+  private ttl: number
+  private summarize: boolean
+
+  constructor(
+    private store: IKeyValueStore,
+    constraints?: ResourceConstraints,
+    private ai?: Pick<AIService, 'complete'> | null,
+    options: ConversationOptions = {}
+  ) {
+    // Free tier: short history, no extra AI calls for summaries
+    const isConstrained = constraints ? isConstrainedEnvironment(constraints) : false
+    this.maxMessages = options.maxMessages ?? (isConstrained ? 6 : 20)
+    this.maxHistoryTokens = options.maxHistoryTokens ?? (isConstrained ? 1000 : Infinity)
+    this.contextRatio = options.contextRatio ?? 0.5
+    this.ttl = options.ttl ?? (isConstrained ? 3600 : 86400)
+    this.summarize = options.summarize ?? !isConstrained
+  }
+
+  async getConversation(chatId: number, userId: number): Promise<Conversation | null> {
+    return this.store.get<Conversation>(this.getKey(chatId, userId))
+  }
+
+  /**
+   * Prepend the stored history to a request, keeping it within the context budget.
+   * System messages of the request stay first; the newest turns win when trimming.
+   */
+  async buildMessages(
+    chatId: number,
+    userId: number,
+    request: string | Message[],
+    maxContextLength: number
+  ): Promise<Message[]> {
+    const messages: Message[] =
+      typeof request === 'string' ? [{ role: 'user', content: request }] : request
+    const system = messages.filter(message => message.role === 'system')
+    const turn = messages.filter(message => message.role !== 'system')
+
+    const conversation = await this.getConversation(chatId, userId)
+    if (!conversation) {
+      return messages
+    }
+
+    let budget =
+      Math.min(Math.floor(maxContextLength * this.contextRatio), this.maxHistoryTokens) -
+      countTokens(messages)
+
+    const summary: Message[] = []
+    if (conversation.summary) {
+      const content = `Summary of the earlier conversation:\n${conversation.summary}`
+      if (estimateTokens(content) <= budget) {
+        summary.push({ role: 'system', content })
+        budget -= estimateTokens(content)
+      }
+    }
+
+    const history: Message[] = []
+    for (let i = conversation.messages.length - 1; i >= 0; i--) {
+      const message = conversation.messages[i] as Message
+      const tokens = estimateTokens(message.content)
+      if (tokens > budget) break
+      history.unshift(message)
+      budget -= tokens
+    }
+
+    // Don't start the history with a dangling answer
+    while (history[0]?.role === 'assistant') {
+      history.shift()
+    }
+
+    return [...system, ...summary, ...history, ...turn]
+  }
+
+  /**
+   * Record a question and its answer
+   */
+  async addTurn(chatId: number, userId: number, question: string, answer: string): Promise<void> {
+    const conversation = (await this.getConversation(chatId, userId)) ?? {
+      messages: [],
+      updatedAt: Date.now()
+    }
+
+    conversation.messages.push(
+      { role: 'user', content: question },
+      { role: 'assistant', content: answer }
+    )
+
+    if (conversation.messages.length > this.maxMessages) {
+      // Drop whole turns so the history keeps starting with a question
+      let overflow = conversation.messages.length - this.maxMessages
+      overflow += overflow % 2
+      const dropped = conversation.messages.splice(0, overflow)
+      conversation.summary = await this.summarizeTurns(conversation.summary, dropped)
+    }
+
+    conversation.updatedAt = Date.now()
+    await this.store.put(this.getKey(chatId, userId), JSON.stringify(conversation), {
+      expirationTtl: this.ttl
+    })
+  }
+
+  /**
+   * Forget the conversation; returns false when there was nothing to forget
+   */
+  async reset(chatId: number, userId: number): Promise<boolean> {
+    const key = this.getKey(chatId, userId)
+    const existing = await this.store.get<Conversation>(key)
+    if (!existing) return false
+
+    await this.store.delete(key)
+    logger.info('Conversation reset', { chatId, userId })
+    return true
+  }
+
+  private async summarizeTurns(
+    previous: string | undefined,
+    dropped: Message[]
+  ): Promise<string | undefined> {
+    if (!this.summarize || !this.ai) {
+      return previous
+    }
+
+    const transcript = dropped.map(message => `${message.role}: ${message.content}`).join('\n')
+    try {
+      const response = await this.ai.complete(
+        [
+          { role: 'system', content: SUMMARY_PROMPT },
+          {
+            role: 'user',
+            content: previous ? `Earlier summary:\n${previous}\n\n${transcript}` : transcript
+          }
+        ],
+        { trackCost: true }
+      )
+      return response.content.trim() || previous
+    } catch (error) {
+      logger.warn('Failed to summarize conversation, dropping old turns', { error })
+      return previous
+    }
+  }
+
+  private getKey(chatId: number, userId: number): string {
+    return `conversation:${chatId}:${userId}`
+  }
+}
+
+function countTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content), 0)
+}
@@ -0,0 +1,390 @@
+import type { BaseEmbeddingConnector } from '@/connectors/ai/embeddings'
+import {
+  OpenAICompatibleEmbeddingConnector,
+  WorkersAIEmbeddingConnector
+} from '@/connectors/ai/embeddings'
+import { VectorizeConnector } from '@/connectors/vectorize'
+import { FieldMapper } from '@/core/database/field-mapper'
+import type { ICloudPlatformConnector } from '@/core/interfaces/cloud-platform'
+import type { IDatabaseStore } from '@/core/interfaces/storage'
+import type { Message } from '@/lib/ai/types'
+import { chunkText, htmlToText } from '@/lib/document-text'
+import { logger } from '@/lib/logger'
+import type { Env } from '@/types'
+
+export type KnowledgeSourceType = 'document' | 'url'
+
+export interface KnowledgeSource {
+  id: string
+  title: string
+  type: KnowledgeSourceType
+  url?: string
+  chunkCount: number
+  addedBy?: number
+  createdAt: string
+}
+
+export interface IngestTextInput {
+  title: string
+  text: string
+  type: KnowledgeSourceType
+  url?: string
+  addedBy?: number
+}
+
+export interface KnowledgeChunk {
+  sourceId: string
+  title: string
+  url?: string
+  text: string
+  score: number
+}
+
+export interface Citation {
+  index: number
+  sourceId: string
+  title: string
+  url?: string
+}
+
+export interface KnowledgeServiceOptions {
+  chunkSize?: number
+  chunkOverlap?: number
+  /**
+   * Chunks retrieved per question (default 4)
+   */
+  topK?: number
+  /**
+   * Weight of BM25 keyword scores in hybrid retrieval (default 0.3)
+   */
+  keywordWeight?: number
+  /**
+   * Maximum accepted document size in characters (default 500 000)
+   */
+  maxDocumentSize?: number
+}
+
+interface KnowledgeSourceRow {
+  id: string
+  title: string
+  source_type: KnowledgeSourceType
+  url: string | null
+  chunk_count: number
+  added_by: number | null
+  created_at: string
+}
+
+const sourceMapper = new FieldMapper<KnowledgeSourceRow, KnowledgeSource>([
+  { dbField: 'id', domainField: 'id' },
+  { dbField: 'title', domainField: 'title' },
+  { dbField: 'source_type', domainField: 'type' },
+  { dbField: 'url', domainField: 'url', toDomain: v => v ?? undefined, toDb: v => v ?? null },
+  { dbField: 'chunk_count', domainField: 'chunkCount' },
+  {
+    dbField: 'added_by',
+    domainField: 'addedBy',
+    toDomain: v => v ?? undefined,
+    toDb: v => v ?? null
+  },
+  { dbField: 'created_at', domainField: 'createdAt' }
+])
+
+const UPSERT_BATCH_SIZE = 100
+const TEXT_CONTENT_TYPES = /^(text\/|application\/(json|xml|xhtml\+xml|markdown))/
+
+/**
+ * Knowledge base for retrieval-augmented answers.
+ *
+ * Sources are chunked, embedded and stored in Vectorize; the `knowledge_sources`
+ * table keeps track of what was ingested so that sources can be listed and removed.
+ */
+export class KnowledgeService {
+  private chunkSize: number
+  private chunkOverlap: number
+  private topK: number
+  private keywordWeight: number
+  private maxDocumentSize: number
+
+  constructor(
+    private db: IDatabaseStore,
+    private vectorize: VectorizeConnector,
+    options: KnowledgeServiceOptions = {}
+  ) {
+    this.chunkSize = options.chunkSize ?? 1000
+    this.chunkOverlap = options.chunkOverlap ?? 150
+    this.topK = options.topK ?? 4
+    this.keywordWeight = options.keywordWeight ?? 0.3
+    this.maxDocumentSize = options.maxDocumentSize ?? 500_000
+  }
+
+  /**
+   * Chunk, embed and store a text
+   */
+  async ingestText(input: IngestTextInput): Promise<KnowledgeSource> {
+    if (input.text.length > this.maxDocumentSize) {
+      throw new Error(`Document exceeds ${this.maxDocumentSize} characters`)
+    }
+
+    const chunks = chunkText(input.text, { chunkSize: this.chunkSize, overlap: this.chunkOverlap })
+    if (!chunks.length) {
+      throw new Error('Document contains no text')
+    }
+
+    const source: KnowledgeSource = {
+      id: crypto.randomUUID().replace(/-/g, '').slice(0, 10),
+      title: input.title.trim() || 'Untitled',
+      type: input.type,
+      url: input.url,
+      chunkCount: chunks.length,
+      addedBy: input.addedBy,
+      createdAt: new Date().toISOString()
+    }
+
+    try {
+      for (let start = 0; start < chunks.length; start += UPSERT_BATCH_SIZE) {
+        const batch = chunks.slice(start, start + UPSERT_BATCH_SIZE)
+        const embeddings = await this.vectorize.createEmbeddings(batch)
+
+        await this.vectorize.upsert(
+          batch.map((text, i) => ({
+            id: chunkId(source.id, start + i),
+            values: embeddings[i] as number[],
+            metadata: {
+              sourceId: source.id,
+              title: source.title,
+              ...(source.url ? { url: source.url } : {}),
+              chunk: start + i,
+              text
+            }
+          }))
+        )
+      }
+
+      await this.db
+        .prepare(
+          `INSERT INTO knowledge_sources (id, title, source_type, url, chunk_count, added_by, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          source.id,
+          source.title,
+          source.type,
+          source.url ?? null,
+          source.chunkCount,
+          source.addedBy ?? null,
+          source.createdAt
+        )
+        .run()
+    } catch (error) {
+      // Don't leave orphaned chunks behind
+      await this.vectorize.delete(chunkIds(source.id, chunks.length)).catch(cleanupError => {
+        logger.warn('Failed to clean up chunks of a failed ingestion', {
+          sourceId: source.id,
+          error: cleanupError
+        })
+      })
+      throw error
+    }
+
+    logger.info('Knowledge source ingested', {
+      sourceId: source.id,
+      type: source.type,
+      chunks: source.chunkCount
+    })
+
+    return source
+  }
+
+  /**
+   * Download a page or text file and ingest its text
+   */
+  async ingestUrl(url: string, addedBy?: number): Promise<KnowledgeSource> {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      throw new Error(`Invalid URL: ${url}`)
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new Error(`Unsupported URL protocol: ${parsed.protocol}`)
+    }
+
+    const response = await fetch(parsed.toString(), {
+      headers: { Accept: 'text/html, text/plain, text/markdown;q=0.9, */*;q=0.1' }
+    })
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`)
+    }
+
+    const contentType = response.headers.get('Content-Type') ?? 'text/plain'
+    if (!TEXT_CONTENT_TYPES.test(contentType)) {
+      throw new Error(`Unsupported content type: ${contentType}`)
+    }
+
+    const body = await response.text()
+    const { title, text } = /html/.test(contentType)
+      ? htmlToText(body)
+      : { title: undefined, text: body }
+
+    return this.ingestText({
+      title: title ?? (parsed.pathname.split('/').filter(Boolean).pop() || parsed.hostname),
+      text,
+      type: 'url',
+      url: parsed.toString(),
+      addedBy
+    })
+  }
+
+  async listSources(): Promise<KnowledgeSource[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM knowledge_sources ORDER BY created_at DESC')
+      .all<KnowledgeSourceRow>()
+    return results.map(row => sourceMapper.toDomain(row))
+  }
+
+  async getSource(id: string): Promise<KnowledgeSource | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM knowledge_sources WHERE id = ?')
+      .bind(id)
+      .first<KnowledgeSourceRow>()
+    return row ? sourceMapper.toDomain(row) : null
+  }
+
+  /**
+   * Remove a source and its chunks; returns false when the source does not exist
+   */
+  async deleteSource(id: string): Promise<boolean> {
+    const source = await this.getSource(id)
+    if (!source) return false
+
+    const ids = chunkIds(source.id, source.chunkCount)
+    for (let start = 0; start < ids.length; start += UPSERT_BATCH_SIZE) {
+      await this.vectorize.delete(ids.slice(start, start + UPSERT_BATCH_SIZE))
+    }
+    await this.db.prepare('DELETE FROM knowledge_sources WHERE id = ?').bind(id).run()
+
+    logger.info('Knowledge source deleted', { sourceId: id, chunks: source.chunkCount })
+    return true
+  }
+
+  /**
+   * Find the chunks most relevant to a question
+   */
+  async retrieve(question: string, topK = this.topK): Promise<KnowledgeChunk[]> {
+    const matches = await this.vectorize.hybridSearch(
+      question,
+      { topK, includeMetadata: true },
+      this.keywordWeight
+    )
+
+    return matches.flatMap(match => {
+      const metadata = match.metadata ?? {}
+      if (typeof metadata.sourceId !== 'string' || typeof metadata.text !== 'string') {
+        return []
+      }
+      return [
+        {
+          sourceId: metadata.sourceId,
+          title: typeof metadata.title === 'string' ? metadata.title : metadata.sourceId,
+          url: typeof metadata.url === 'string' ? metadata.url : undefined,
+          text: metadata.text,
+          score: match.score
+        }
+      ]
+    })
+  }
+
+  /**
+   * Build chat messages that ground the answer in the retrieved chunks.
+   * Chunks are numbered per source so that citations map to the source list.
+   */
+  buildPrompt(
+    question: string,
+    chunks: KnowledgeChunk[]
+  ): { messages: Message[]; citations: Citation[] } {
+    const citations: Citation[] = []
+    const passages = chunks.map(chunk => {
+      let citation = citations.find(c => c.sourceId === chunk.sourceId)
+      if (!citation) {
+        citation = {
+          index: citations.length + 1,
+          sourceId: chunk.sourceId,
+          title: chunk.title,
+          url: chunk.url
+        }
+        citations.push(citation)
+      }
+      return `[${citation.index}] ${chunk.title}\n${chunk.text}`
+    })
+
+    const system = [
+      'Answer the question using the numbered context passages below.',
+      'Cite the passages you rely on with their number in square brackets, e.g. [1].',
+      'If the context does not contain the answer, say so before answering from general knowledge.',
+      '',
+      'Context:',
+      passages.join('\n\n')
+    ].join('\n')
+
+    return {
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: question }
+      ],
+      citations
+    }
+  }
+}
+
+/**
+ * Create the knowledge service when Vectorize and embeddings are configured.
+ * Vectorize uses the account-level credentials and falls back to the Workers AI
+ * ones; the Workers AI account is only needed for Workers AI embeddings without a binding.
+ */
+export function createKnowledgeService(
+  env: Env,
+  cloudConnector: ICloudPlatformConnector
+): KnowledgeService | null {
+  const accountId = env.CLOUDFLARE_ACCOUNT_ID || env.CLOUDFLARE_AI_ACCOUNT_ID
+  if (!env.DB || !env.VECTORIZE_INDEX || !accountId) {
+    return null
+  }
+
+  let embeddings: BaseEmbeddingConnector
+  if (env.EMBEDDING_PROVIDER === 'openai') {
+    if (!env.OPENAI_API_KEY) return null
+    embeddings = new OpenAICompatibleEmbeddingConnector({
+      apiKey: env.OPENAI_API_KEY,
+      ...(env.EMBEDDING_MODEL ? { model: env.EMBEDDING_MODEL } : {})
+    })
+  } else {
+    if (!env.AI && !env.CLOUDFLARE_AI_ACCOUNT_ID) return null
+    embeddings = new WorkersAIEmbeddingConnector({
+      accountId: env.CLOUDFLARE_AI_ACCOUNT_ID,
+      apiToken: env.CLOUDFLARE_AI_API_TOKEN,
+      binding: env.AI,
+      ...(env.EMBEDDING_MODEL ? { model: env.EMBEDDING_MODEL } : {})
+    })
+  }
+
+  const db = cloudConnector.getDatabaseStore('DB')
+  const vectorize = new VectorizeConnector({
+    accountId,
+    apiToken: env.CLOUDFLARE_API_TOKEN || env.CLOUDFLARE_AI_API_TOKEN,
+    indexName: env.VECTORIZE_INDEX,
+    dimensions: embeddings.dimensions,
+    embeddingProvider: embeddings,
+    keywordFields: ['title', 'text'],
+    keywordDatabase: db
+  })
+
+  return new KnowledgeService(db, vectorize)
+}
+
+function chunkId(sourceId: string, index: number): string {
+  return `${sourceId}:${index}`
+}
+
+function chunkIds(sourceId: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => chunkId(sourceId, i))
+}
@@ -4,13 +4,13 @@
 
 import type { Message, MessageBatch, Queue } from '@cloudflare/workers-types'
 
-import type { QueueAdapter, QueueMessage, ReceivedMessage } from '../queue-service'
+import type { QueueAdapter, QueueMessage, ReceivedMessage, SendOptions } from '../queue-service'
 
 export class CloudflareQueueAdapter<T = unknown> implements QueueAdapter<T> {
   constructor(private queue: Queue<QueueMessage<T>>) {}
 
-  async send(message: QueueMessage<T>): Promise<void> {
-    await this.queue.send(message)
+  async send(message: QueueMessage<T>, options?: SendOptions): Promise<void> {
+    await this.queue.send(message, options)
   }
 
   async sendBatch(messages: QueueMessage<T>[]): Promise<void> {
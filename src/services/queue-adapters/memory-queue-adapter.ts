@@ -2,7 +2,7 @@
  * In-memory queue adapter for testing and development
  */
 
-import type { QueueAdapter, QueueMessage, ReceivedMessage } from '../queue-service'
+import type { QueueAdapter, QueueMessage, ReceivedMessage, SendOptions } from '../queue-service'
 
 interface MemoryMessage<T> {
   id: string
@@ -17,13 +17,13 @@ export class MemoryQueueAdapter<T = unknown> implements QueueAdapter<T> {
   private messageIdCounter = 0
   private processingMessages = new Map<string, MemoryMessage<T>>()
 
-  async send(message: QueueMessage<T>): Promise<void> {
+  async send(message: QueueMessage<T>, options?: SendOptions): Promise<void> {
     const id = `msg-${++this.messageIdCounter}`
     this.messages.push({
       id,
       body: { ...message, id },
       receiveCount: 0,
-      visibleAt: Date.now(),
+      visibleAt: Date.now() + (options?.delaySeconds ?? 0) * 1000,
       acked: false
     })
   }
@@ -14,8 +14,15 @@ export interface QueueMessage<T = unknown> {
   metadata?: Record<string, unknown>
 }
 
+export interface SendOptions {
+  /**
+   * Delay before the message becomes visible to consumers
+   */
+  delaySeconds?: number
+}
+
 export interface QueueAdapter<T = unknown> {
-  send(message: QueueMessage<T>): Promise<void>
+  send(message: QueueMessage<T>, options?: SendOptions): Promise<void>
   sendBatch(messages: QueueMessage<T>[]): Promise<void>
   receive(maxMessages?: number): Promise<ReceivedMessage<T>[]>
   deleteMessage(messageId: string): Promise<void>
@@ -92,7 +99,12 @@ export class QueueService<T = unknown> {
   /**
    * Send a single message to the queue
    */
-  async send<K = T>(type: string, data: K, metadata?: Record<string, unknown>): Promise<void> {
+  async send<K = T>(
+    type: string,
+    data: K,
+    metadata?: Record<string, unknown>,
+    options?: SendOptions
+  ): Promise<void> {
     const message: QueueMessage<K> = {
       type,
       data,
@@ -102,7 +114,7 @@ export class QueueService<T = unknown> {
 
     try {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Type conversion for adapter
-      await this.adapter.send(message as any)
+      await this.adapter.send(message as any, options)
       this.logger?.debug('Message sent to queue', { type, messageId: message.id })
     } catch (error) {
       this.logger?.error('Failed to send message', { error, type })
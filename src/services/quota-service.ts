@@ -0,0 +1,389 @@
+import { FieldMapper } from '@/core/database/field-mapper'
+import { UserRole } from '@/core/interfaces/role-system'
+import type { IDatabaseStore } from '@/core/interfaces/storage'
+import type { CostEstimate } from '@/lib/ai/types'
+import { logger } from '@/lib/logger'
+
+export type QuotaPeriod = 'hour' | 'day' | 'week' | 'month'
+
+/**
+ * Limits for one period. A missing limit is unlimited.
+ */
+export interface QuotaLimit {
+  requests?: number
+  /**
+   * Spend in the quota's currency, from AI cost tracking
+   */
+  budget?: number
+}
+
+export interface CommandQuota {
+  period: QuotaPeriod
+  /**
+   * Currency of the budgets (default USD); costs in other currencies are not counted
+   */
+  currency?: string
+  /**
+   * Limits per role; roles without an entry are unlimited
+   */
+  roles: Partial<Record<UserRole, QuotaLimit>>
+}
+
+/**
+ * Quotas keyed by command name, without the slash
+ */
+export type QuotaConfig = Record<string, CommandQuota>
+
+export const DEFAULT_QUOTAS: QuotaConfig = {
+  ask: {
+    period: 'day',
+    currency: 'USD',
+    roles: {
+      [UserRole.USER]: { requests: 20, budget: 0.5 }
+    }
+  }
+}
+
+export type QuotaDecision =
+  | { allowed: true; limit: QuotaLimit | null }
+  | { allowed: false; reason: 'requests' | 'budget'; limit: QuotaLimit; resetAt: Date }
+
+export interface QuotaUsage {
+  command: string
+  period: QuotaPeriod
+  currency: string
+  requests: number
+  spent: number
+  /**
+   * Null when the user has no limits for the command
+   */
+  limit: QuotaLimit | null
+  overridden: boolean
+  resetAt: Date
+}
+
+export interface QuotaServiceDeps {
+  db: IDatabaseStore
+  quotas?: QuotaConfig
+}
+
+interface QuotaUsageRow {
+  command: string
+  requests: number | null
+  spent: number | null
+}
+
+interface QuotaOverrideRow {
+  requests: number | null
+  budget: number | null
+}
+
+const usageMapper = new FieldMapper<
+  QuotaUsageRow,
+  Pick<QuotaUsage, 'command' | 'requests' | 'spent'>
+>([
+  { dbField: 'command', domainField: 'command' },
+  { dbField: 'requests', domainField: 'requests', toDomain: v => v ?? 0 },
+  { dbField: 'spent', domainField: 'spent', toDomain: v => v ?? 0 }
+])
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * Per-command quotas by role, with per-user overrides.
+ * Requests are counted atomically before the command runs; AI spend is
+ * charged afterwards and blocks further use once the budget is used up.
+ */
+export class QuotaService {
+  private db: IDatabaseStore
+  private quotas: QuotaConfig
+
+  constructor(deps: QuotaServiceDeps) {
+    this.db = deps.db
+    this.quotas = deps.quotas ?? DEFAULT_QUOTAS
+  }
+
+  getQuota(command: string): CommandQuota | undefined {
+    return this.quotas[command]
+  }
+
+  getCommands(): string[] {
+    return Object.keys(this.quotas)
+  }
+
+  /**
+   * Limits that apply to the user, or null when the command is unlimited for them
+   */
+  async getLimit(userId: string, command: string, role: UserRole): Promise<QuotaLimit | null> {
+    const quota = this.quotas[command]
+    if (!quota) {
+      return null
+    }
+
+    const override = await this.getOverride(userId, command)
+    return effectiveLimit(override ?? quota.roles[role])
+  }
+
+  /**
+   * Count one use of the command if the quota allows it
+   */
+  async consume(
+    userId: string,
+    command: string,
+    role: UserRole,
+    now = new Date()
+  ): Promise<QuotaDecision> {
+    const quota = this.quotas[command]
+    const limit = await this.getLimit(userId, command, role)
+    if (!quota || !limit) {
+      return { allowed: true, limit: null }
+    }
+
+    const { start, end } = getPeriodBounds(quota.period, now)
+    if (limit.requests !== undefined && limit.requests <= 0) {
+      return { allowed: false, reason: 'requests', limit, resetAt: end }
+    }
+    if (limit.budget !== undefined && limit.budget <= 0) {
+      return { allowed: false, reason: 'budget', limit, resetAt: end }
+    }
+
+    // The check and the increment are one statement, so parallel updates can't both pass
+    const counted = await this.db
+      .prepare(
+        `INSERT INTO quota_usage (user_id, command, period_start, requests, spent, updated_at)
+         VALUES (?, ?, ?, 1, 0, ?)
+         ON CONFLICT(user_id, command, period_start) DO UPDATE SET
+           requests = requests + 1,
+           updated_at = excluded.updated_at
+         WHERE (? IS NULL OR requests < ?) AND (? IS NULL OR spent < ?)
+         RETURNING requests`
+      )
+      .bind(
+        userId,
+        command,
+        start.toISOString(),
+        now.toISOString(),
+        limit.requests ?? null,
+        limit.requests ?? null,
+        limit.budget ?? null,
+        limit.budget ?? null
+      )
+      .first<{ requests: number }>()
+
+    if (counted) {
+      return { allowed: true, limit }
+    }
+
+    const usage = await this.getPeriodUsage(userId, command, start)
+    const reason =
+      limit.requests !== undefined && usage.requests >= limit.requests ? 'requests' : 'budget'
+    return { allowed: false, reason, limit, resetAt: end }
+  }
+
+  /**
+   * Give back a use that did not happen, e.g. because the command failed
+   */
+  async refund(userId: string, command: string, now = new Date()): Promise<void> {
+    const quota = this.quotas[command]
+    if (!quota) {
+      return
+    }
+
+    const { start } = getPeriodBounds(quota.period, now)
+    await this.db
+      .prepare(
+        `UPDATE quota_usage SET requests = MAX(0, requests - 1), updated_at = ?
+         WHERE user_id = ? AND command = ? AND period_start = ?`
+      )
+      .bind(now.toISOString(), userId, command, start.toISOString())
+      .run()
+  }
+
+  /**
+   * Add the cost of an AI call to the user's spend for the command
+   */
+  async charge(
+    userId: string,
+    command: string,
+    cost: Pick<CostEstimate, 'amount' | 'currency'>,
+    now = new Date()
+  ): Promise<void> {
+    const quota = this.quotas[command]
+    if (!quota || cost.amount <= 0) {
+      return
+    }
+
+    const currency = quota.currency ?? 'USD'
+    if (cost.currency !== currency) {
+      logger.warn('Cost not charged to quota: currency mismatch', {
+        command,
+        currency,
+        costCurrency: cost.currency
+      })
+      return
+    }
+
+    const { start } = getPeriodBounds(quota.period, now)
+    try {
+      await this.db
+        .prepare(
+          `INSERT INTO quota_usage (user_id, command, period_start, requests, spent, updated_at)
+           VALUES (?, ?, ?, 0, ?, ?)
+           ON CONFLICT(user_id, command, period_start) DO UPDATE SET
+             spent = spent + excluded.spent,
+             updated_at = excluded.updated_at`
+        )
+        .bind(userId, command, start.toISOString(), cost.amount, now.toISOString())
+        .run()
+    } catch (error) {
+      logger.error('Failed to charge quota', { error, userId, command, amount: cost.amount })
+    }
+  }
+
+  /**
+   * Replace the role limits for one user; an empty limit means unlimited
+   */
+  async setOverride(
+    userId: string,
+    command: string,
+    limit: QuotaLimit,
+    setBy?: string
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO quota_overrides (user_id, command, requests, budget, set_by, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(user_id, command) DO UPDATE SET
+           requests = excluded.requests,
+           budget = excluded.budget,
+           set_by = excluded.set_by,
+           created_at = excluded.created_at`
+      )
+      .bind(
+        userId,
+        command,
+        limit.requests ?? null,
+        limit.budget ?? null,
+        setBy ?? null,
+        new Date().toISOString()
+      )
+      .run()
+  }
+
+  /**
+   * Go back to the role limits
+   */
+  async clearOverride(userId: string, command: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM quota_overrides WHERE user_id = ? AND command = ?')
+      .bind(userId, command)
+      .run()
+  }
+
+  /**
+   * Forget what the user used in the current period
+   */
+  async resetUsage(userId: string, command: string, now = new Date()): Promise<void> {
+    const quota = this.quotas[command]
+    if (!quota) {
+      return
+    }
+
+    const { start } = getPeriodBounds(quota.period, now)
+    await this.db
+      .prepare('DELETE FROM quota_usage WHERE user_id = ? AND command = ? AND period_start = ?')
+      .bind(userId, command, start.toISOString())
+      .run()
+  }
+
+  /**
+   * Current usage and limits for every quota command
+   */
+  async getUsage(userId: string, role: UserRole, now = new Date()): Promise<QuotaUsage[]> {
+    const usage: QuotaUsage[] = []
+
+    for (const [command, quota] of Object.entries(this.quotas)) {
+      const { start, end } = getPeriodBounds(quota.period, now)
+      const override = await this.getOverride(userId, command)
+      const used = await this.getPeriodUsage(userId, command, start)
+
+      usage.push({
+        command,
+        period: quota.period,
+        currency: quota.currency ?? 'USD',
+        requests: used.requests,
+        spent: used.spent,
+        limit: effectiveLimit(override ?? quota.roles[role]),
+        overridden: Boolean(override),
+        resetAt: end
+      })
+    }
+
+    return usage
+  }
+
+  private async getOverride(userId: string, command: string): Promise<QuotaLimit | null> {
+    const row = await this.db
+      .prepare('SELECT requests, budget FROM quota_overrides WHERE user_id = ? AND command = ?')
+      .bind(userId, command)
+      .first<QuotaOverrideRow>()
+
+    if (!row) {
+      return null
+    }
+
+    return {
+      ...(row.requests !== null && { requests: row.requests }),
+      ...(row.budget !== null && { budget: row.budget })
+    }
+  }
+
+  private async getPeriodUsage(
+    userId: string,
+    command: string,
+    start: Date
+  ): Promise<{ requests: number; spent: number }> {
+    const row = await this.db
+      .prepare(
+        `SELECT command, requests, spent FROM quota_usage
+         WHERE user_id = ? AND command = ? AND period_start = ?`
+      )
+      .bind(userId, command, start.toISOString())
+      .first<QuotaUsageRow>()
+
+    return row ? usageMapper.toDomain(row) : { requests: 0, spent: 0 }
+  }
+}
+
+/**
+ * Limits with nothing set are no limits at all
+ */
+function effectiveLimit(limit: QuotaLimit | null | undefined): QuotaLimit | null {
+  return limit && (limit.requests !== undefined || limit.budget !== undefined) ? limit : null
+}
+
+/**
+ * The UTC period containing `now`; weeks start on Monday
+ */
+export function getPeriodBounds(period: QuotaPeriod, now: Date): { start: Date; end: Date } {
+  const dayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+
+  switch (period) {
+    case 'hour': {
+      const start = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS
+      return { start: new Date(start), end: new Date(start + HOUR_MS) }
+    }
+    case 'week': {
+      const start = dayStart - ((now.getUTCDay() + 6) % 7) * DAY_MS
+      return { start: new Date(start), end: new Date(start + 7 * DAY_MS) }
+    }
+    case 'month':
+      return {
+        start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+        end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+      }
+    default:
+      return { start: new Date(dayStart), end: new Date(dayStart + DAY_MS) }
+  }
+}
@@ -1,12 +1,13 @@
 /// <reference types="@cloudflare/workers-types" />
 
-import type { D1Database, KVNamespace } from '@cloudflare/workers-types'
+import type { D1Database, DurableObjectNamespace, KVNamespace } from '@cloudflare/workers-types'
 
 declare global {
   interface CloudflareEnv extends Record<string, unknown> {
     // Environment Variables
     TELEGRAM_BOT_TOKEN?: string // Optional for demo mode
     TELEGRAM_WEBHOOK_SECRET?: string
+    CALLBACK_SECRET?: string // Signs inline keyboard callback data
     SENTRY_DSN?: string
     SENTRY_DEBUG?: boolean
     ENVIRONMENT?: 'development' | 'staging' | 'production'
@@ -27,6 +28,14 @@ declare global {
     CLOUDFLARE_AI_ACCOUNT_ID?: string
     CLOUDFLARE_AI_API_TOKEN?: string
 
+    // Knowledge base (retrieval-augmented /ask)
+    // Account credentials for the Vectorize API, default to the Workers AI ones
+    CLOUDFLARE_ACCOUNT_ID?: string
+    CLOUDFLARE_API_TOKEN?: string
+    VECTORIZE_INDEX?: string
+    EMBEDDING_PROVIDER?: 'workers-ai' | 'openai'
+    EMBEDDING_MODEL?: string
+
     // Cost tracking
     AI_COST_TRACKING_ENABLED?: boolean
     AI_COST_CONFIG_URL?: string
@@ -34,10 +43,15 @@ declare global {
     // Owner configuration
     BOT_OWNER_IDS?: string
 
+    // Days to keep audit log entries (default 90, 0 keeps them forever)
+    AUDIT_RETENTION_DAYS?: string
+
     // Bindings - all optional for demo mode
     DB?: D1Database
     CACHE?: KVNamespace
     RATE_LIMIT?: KVNamespace
+    // Atomic rate limit counters (RateLimiterDO); RATE_LIMIT KV is the fallback
+    RATE_LIMITER?: DurableObjectNamespace
     SESSIONS?: KVNamespace
 
     // Cloudflare AI binding (runtime)
@@ -50,10 +64,12 @@ declare global {
       }>
     }
 
+    // Queue that wakes up scheduled notifications and retries when they are due
+    NOTIFICATION_QUEUE?: Queue
+
     // Additional bindings can be added here
     // QUEUE?: Queue;
     // BUCKET?: R2Bucket;
-    // DURABLE_OBJECT?: DurableObjectNamespace;
   }
 }
 
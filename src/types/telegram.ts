@@ -2,14 +2,21 @@ import type { Context as GrammyContext, SessionFlavor } from 'grammy'
 
 import type { Env } from './env'
 
+import type { AuditLogService } from '@/core/interfaces/audit-log'
 import type { ICloudPlatformConnector } from '@/core/interfaces/cloud-platform'
-import type { I18nConnector } from '@/core/interfaces/i18n'
+import type { Translator } from '@/core/interfaces/i18n'
 import type { IMonitoringConnector } from '@/core/interfaces/monitoring'
-import type { RoleService } from '@/core/interfaces/role-system'
+import type { PermissionService, RoleService } from '@/core/interfaces/role-system'
+import type { IUserPreferenceService } from '@/core/interfaces/user-preference'
 import type { PaymentRepository } from '@/domain/payments/repository'
 import type { TelegramStarsService } from '@/domain/services/telegram-stars.service'
+import type { CallbackDataCodec } from '@/lib/callback-data'
 import type { TelegramRequestBatcher } from '@/lib/telegram-batcher'
 import type { AIService } from '@/services/ai-service'
+import type { BroadcastService } from '@/services/broadcast-service'
+import type { ConversationService } from '@/services/conversation-service'
+import type { KnowledgeService } from '@/services/knowledge-service'
+import type { QuotaService } from '@/services/quota-service'
 import type { SessionService, UserSession } from '@/services/session-service'
 
 // Session data structure
@@ -32,12 +39,27 @@ export type BotContext = GrammyContext &
     services: {
       session: SessionService
       ai: AIService | null
+      knowledge?: KnowledgeService | null
+      conversation?: ConversationService | null
       telegramStars: TelegramStarsService
       paymentRepo: PaymentRepository
+      userPreferences?: IUserPreferenceService
+      broadcast?: BroadcastService | null
+      quotas?: QuotaService | null
+      permissions?: PermissionService | null
+      audit?: AuditLogService | null
     }
-    i18n: I18nConnector
+    i18n: Translator
     batcher?: TelegramRequestBatcher
+    callbackData?: CallbackDataCodec
     roleService: RoleService
+    /**
+     * Set by handlers that report their own errors: the quota use is given
+     * back and the audit log records a failure
+     */
+    commandFailed?: boolean
+    /** Permission a check refused for this update; the handler did not run */
+    deniedPermission?: string
   }
 
 // Command handler type
@@ -30,7 +30,9 @@ export default defineWorkersConfig({
           // Mock D1 database
           d1Databases: ['DB'],
           // Mock KV namespaces
-          kvNamespaces: ['SESSIONS', 'CACHE']
+          kvNamespaces: ['SESSIONS', 'CACHE'],
+          // Mock R2 bucket
+          r2Buckets: ['BUCKET']
         }
       }
     },